@@ -1,18 +1,24 @@
-import React, { useState } from 'react';
-import type { AppProps, VNode } from '../types';
+import React, { useRef, useState } from 'react';
+import type { AppId, AppProps, VNode } from '../types';
 import { useFileExplorer } from '../hooks/useFileExplorer';
+import { useSessionState } from '../hooks/useSessionState';
 import { Breadcrumb } from '../components/file-explorer/Breadcrumb';
 import { NavigationToolbar } from '../components/file-explorer/NavigationToolbar';
 import { FileList } from '../components/file-explorer/FileList';
 import { FilePreview } from '../components/file-explorer/FilePreview';
 import { ContextMenu } from '../components/file-explorer/ContextMenu';
 import { FileInfoModal } from '../components/file-explorer/FileInfoModal';
+import { RenameDialog } from '../components/file-explorer/RenameDialog';
+import { ConfirmDialog } from '../components/ui/ConfirmDialog';
+import { isInTrash } from '../store/trashStore';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { fileAssociationService } from '../services/fileAssociationService';
 
 /**
  * File Explorer application component
  * Provides a virtual file system interface for browsing portfolio content
  */
-const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
+const FileExplorerApp: React.FC<AppProps> = ({ windowId, onTitleChange, launchData }) => {
   const {
     fileSystem,
     previewFile,
@@ -32,7 +38,20 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
     setPreviewFile,
     setViewMode,
     setSortBy,
-    handleItemDoubleClick
+    handleItemDoubleClick,
+    revealPath,
+    openWith,
+    operationError,
+    createFolder,
+    createFile,
+    renameItem,
+    importFiles,
+    downloadItem,
+    trashItems,
+    deleteItems,
+    moveItems,
+    copyItems,
+    clearOperationError
   } = useFileExplorer();
 
   const [contextMenu, setContextMenu] = useState<{
@@ -42,6 +61,14 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
   } | null>(null);
   const [showPreviewPane, setShowPreviewPane] = useState(true);
   const [fileInfoModal, setFileInfoModal] = useState<VNode | null>(null);
+  const [renameTarget, setRenameTarget] = useState<VNode | null>(null);
+  const [deleteTargets, setDeleteTargets] = useState<VNode[] | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [clipboard, setClipboard] = useState<{
+    mode: 'cut' | 'copy';
+    paths: string[];
+  } | null>(null);
 
   // Update window title based on current path
   React.useEffect(() => {
@@ -50,6 +77,29 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
     onTitleChange(`File Explorer - ${currentFolder}`);
   }, [fileSystem.currentPath, onTitleChange, getBreadcrumbs]);
 
+  // Show the file or folder this window was opened for
+  const launchPath = typeof launchData?.path === 'string' ? launchData.path : null;
+  React.useEffect(() => {
+    if (launchPath) {
+      revealPath(launchPath);
+      setShowPreviewPane(true);
+    }
+  }, [launchData, launchPath, revealPath]);
+
+  // The folder and view come back with the window's session
+  useSessionState(
+    windowId,
+    { path: fileSystem.currentPath, viewMode: fileSystem.viewMode, sortBy: fileSystem.sortBy, showPreviewPane },
+    (saved) => {
+      if (virtualFileSystem.exists(saved.path)) {
+        navigateToPath(saved.path);
+      }
+      setViewMode(saved.viewMode);
+      setSortBy(saved.sortBy);
+      setShowPreviewPane(saved.showPreviewPane);
+    }
+  );
+
   const handleRefresh = () => {
     // Force re-render by navigating to current path
     navigateToPath(fileSystem.currentPath);
@@ -81,7 +131,16 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
     if (file.type === 'folder') {
       navigateToPath(file.path);
     } else {
+      setShowPreviewPane(true);
+      handleItemDoubleClick(file);
+    }
+  };
+
+  const handleOpenWith = (file: VNode, appId: AppId) => {
+    if (appId === 'file-explorer') {
       handlePreviewFile(file);
+    } else {
+      openWith(file.path, appId);
     }
   };
 
@@ -95,16 +154,37 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
   };
 
   const handleDownloadFile = (file: VNode) => {
-    if (file.content) {
-      const blob = new Blob([file.content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = file.name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+    downloadItem(file.path);
+  };
+
+  // Files dragged in from the user's machine are imported into the current folder
+  const isFileDrag = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event) || currentFolderReadOnly) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDropTarget(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDropTarget(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    setIsDropTarget(false);
+    if (!isFileDrag(event) || currentFolderReadOnly) return;
+    event.preventDefault();
+    void importFiles(event.dataTransfer);
+  };
+
+  const handleUploadChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files?.length) {
+      void importFiles(event.target.files).finally(() => {
+        event.target.value = '';
+      });
     }
   };
 
@@ -112,6 +192,71 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
     setFileInfoModal(file);
   };
 
+  const handleNewFolder = () => {
+    const folder = createFolder();
+    if (folder) {
+      setRenameTarget(folder);
+    }
+  };
+
+  const handleNewFile = () => {
+    const file = createFile();
+    if (file) {
+      setRenameTarget(file);
+    }
+  };
+
+  const handleRename = (file: VNode, newName: string) => {
+    if (renameItem(file.path, newName)) {
+      setRenameTarget(null);
+    }
+  };
+
+  const handleCloseRename = () => {
+    setRenameTarget(null);
+    clearOperationError();
+  };
+
+  // Delete the selection when the clicked item is part of it, otherwise just the item.
+  // Items go to the Recycle Bin; only deleting inside the bin is permanent.
+  const handleRequestDelete = (file: VNode) => {
+    const selected = fileSystem.selectedItems.includes(file.path)
+      ? getCurrentContents().filter(item => fileSystem.selectedItems.includes(item.path))
+      : [file];
+
+    if (selected.every(item => isInTrash(item.path))) {
+      setDeleteTargets(selected);
+    } else {
+      trashItems(selected.map(item => item.path));
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    if (deleteTargets) {
+      deleteItems(deleteTargets.map(item => item.path));
+    }
+    setDeleteTargets(null);
+  };
+
+  const currentFolderReadOnly = virtualFileSystem.isReadOnly(fileSystem.currentPath);
+  const contextMenuReadOnly = !!contextMenu && virtualFileSystem.isReadOnly(contextMenu.file.path);
+
+  const getClipboardPaths = (file: VNode) => {
+    return fileSystem.selectedItems.includes(file.path) ? fileSystem.selectedItems : [file.path];
+  };
+
+  const handlePaste = (targetFolderPath: string) => {
+    if (!clipboard) return;
+
+    if (clipboard.mode === 'cut') {
+      if (moveItems(clipboard.paths, targetFolderPath)) {
+        setClipboard(null);
+      }
+    } else {
+      copyItems(clipboard.paths, targetFolderPath);
+    }
+  };
+
   const handleClosePreview = () => {
     setPreviewFile(null);
   };
@@ -173,8 +318,37 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
         onRefresh={handleRefresh}
         onViewModeChange={setViewMode}
         onSortChange={setSortBy}
+        onNewFolder={currentFolderReadOnly ? undefined : handleNewFolder}
+        onNewFile={currentFolderReadOnly ? undefined : handleNewFile}
+        onPaste={currentFolderReadOnly ? undefined : () => handlePaste(fileSystem.currentPath)}
+        canPaste={!!clipboard}
+        onUpload={currentFolderReadOnly ? undefined : () => uploadInputRef.current?.click()}
+      />
+      <input
+        ref={uploadInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleUploadChange}
+        data-testid="file-upload-input"
       />
 
+      {/* File operation errors */}
+      {operationError && !renameTarget && (
+        <div
+          className="flex items-center justify-between px-4 py-2 text-sm bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-b border-red-200 dark:border-red-800"
+          role="alert"
+        >
+          <span>{operationError}</span>
+          <button
+            onClick={clearOperationError}
+            className="text-xs hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Breadcrumb navigation */}
       <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700">
         <Breadcrumb
@@ -185,8 +359,15 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
 
       {/* Main content area */}
       <div className="flex-1 flex overflow-hidden">
-        {/* File list */}
-        <div className={`${showPreviewPane && previewFile ? 'flex-1' : 'w-full'} overflow-auto`}>
+        {/* File list, also the drop zone for files from the user's machine */}
+        <div
+          className={`${showPreviewPane && previewFile ? 'flex-1' : 'w-full'} overflow-auto relative ${
+            isDropTarget ? 'ring-2 ring-inset ring-blue-500 bg-blue-50 dark:bg-blue-900/20' : ''
+          }`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <FileList
             files={currentContents}
             selectedItems={fileSystem.selectedItems}
@@ -233,7 +414,7 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
         </div>
       </div>
 
-      {/* Context menu */}
+      {/* Context menu; generated (mounted) folders only offer read actions */}
       {contextMenu && (
         <ContextMenu
           file={contextMenu.file}
@@ -242,12 +423,45 @@ const FileExplorerApp: React.FC<AppProps> = ({ onTitleChange }) => {
           onClose={handleCloseContextMenu}
           onPreview={handlePreviewFile}
           onOpen={handleOpenFile}
+          openWithApps={fileAssociationService.getOpenersForFile(contextMenu.file)}
+          onOpenWith={handleOpenWith}
           onCopy={handleCopyPath}
           onDownload={handleDownloadFile}
           onShowInfo={handleShowFileInfo}
+          onRename={contextMenuReadOnly ? undefined : setRenameTarget}
+          onDelete={contextMenuReadOnly ? undefined : handleRequestDelete}
+          onCut={contextMenuReadOnly ? undefined : (file) => setClipboard({ mode: 'cut', paths: getClipboardPaths(file) })}
+          onCopyItem={(file) => setClipboard({ mode: 'copy', paths: getClipboardPaths(file) })}
+          onPaste={contextMenuReadOnly ? undefined : (folder) => handlePaste(folder.path)}
+          canPaste={!!clipboard}
         />
       )}
 
+      {/* Rename dialog */}
+      {renameTarget && (
+        <RenameDialog
+          file={renameTarget}
+          error={operationError}
+          onRename={handleRename}
+          onClose={handleCloseRename}
+        />
+      )}
+
+      {/* Delete confirmation */}
+      <ConfirmDialog
+        isOpen={!!deleteTargets}
+        title="Delete"
+        message={
+          deleteTargets && deleteTargets.length === 1
+            ? `Are you sure you want to permanently delete "${deleteTargets[0].name}"?`
+            : `Are you sure you want to permanently delete these ${deleteTargets?.length ?? 0} items?`
+        }
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTargets(null)}
+      />
+
       {/* File info modal */}
       {fileInfoModal && (
         <FileInfoModal
@@ -15,7 +15,16 @@ import {
 import type { AppProps } from '../types';
 import { useNotepad } from '../hooks/useNotepad';
 import { useAppFramework } from '../hooks/useAppFramework';
+import { useSessionState } from '../hooks/useSessionState';
 import { MarkdownRenderer } from '../components/MarkdownRenderer';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { useNotepadStore } from '../store/notepadStore';
+
+// What a Notepad window keeps in its session
+interface NotepadSessionState {
+  documentId: string | null;
+  unsaved?: { title: string; content: string };
+}
 
 /**
  * Notepad application component with full text editing capabilities
@@ -24,7 +33,8 @@ const NotepadApp: React.FC<AppProps> = ({
   windowId, 
   focused, 
   onTitleChange, 
-  onUnsavedStateChange 
+  onUnsavedStateChange,
+  launchData
 }) => {
   const appFramework = useAppFramework({
     appId: 'notepad',
@@ -42,6 +52,58 @@ const NotepadApp: React.FC<AppProps> = ({
   const [showDocuments, setShowDocuments] = useState(false);
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
 
+  // Open the file or document this window was launched for, at a line if given
+  const launchPath = typeof launchData?.path === 'string' ? launchData.path : null;
+  const launchDocumentId = typeof launchData?.documentId === 'string' ? launchData.documentId : null;
+  const [pendingLine, setPendingLine] = useState<{ documentId: string; line: number; column?: number } | null>(null);
+  const { openFile, setActiveDocument, goToLine } = notepad;
+  useEffect(() => {
+    let documentId: string | null = null;
+    try {
+      if (launchPath) {
+        documentId = openFile(launchPath, virtualFileSystem.readFile(launchPath));
+      } else if (launchDocumentId && useNotepadStore.getState().documents[launchDocumentId]) {
+        setActiveDocument(launchDocumentId);
+        documentId = launchDocumentId;
+      }
+    } catch (error) {
+      console.error(`Failed to open ${launchPath}:`, error);
+    }
+
+    if (documentId && typeof launchData?.line === 'number') {
+      const column = typeof launchData.column === 'number' ? launchData.column : undefined;
+      setPendingLine({ documentId, line: launchData.line, column });
+    }
+  }, [launchData, launchPath, launchDocumentId, openFile, setActiveDocument]);
+
+  const activeDocumentId = notepad.activeDocument?.id;
+
+  // The open document comes back with the window's session, unless it was deleted since.
+  // Unsaved edits come back with it, so a window closed without saving can be reopened with them.
+  const sessionState: NotepadSessionState = { documentId: activeDocumentId ?? null };
+  if (notepad.activeDocument && notepad.hasUnsavedChanges()) {
+    sessionState.unsaved = { title: notepad.activeDocument.title, content: notepad.activeDocument.content };
+  }
+  useSessionState(windowId, sessionState, (saved) => {
+    const store = useNotepadStore.getState();
+    let documentId = saved.documentId && store.documents[saved.documentId] ? saved.documentId : null;
+    if (saved.unsaved) {
+      documentId ??= store.createDocument(saved.unsaved.title);
+      store.updateDocument(documentId, { content: saved.unsaved.content });
+    }
+    if (documentId) {
+      setActiveDocument(documentId);
+    }
+  });
+
+  // Move to the requested line once its document is in the editor
+  useEffect(() => {
+    if (pendingLine && pendingLine.documentId === activeDocumentId) {
+      goToLine(pendingLine.line, pendingLine.column);
+      setPendingLine(null);
+    }
+  }, [pendingLine, activeDocumentId, goToLine]);
+
   // Update window title
   useEffect(() => {
     const title = notepad.activeDocument 
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import type { AppProps, Project, ProjectsAppState } from '../types';
 import { projectService } from '../services';
 import { useAppFramework } from '../hooks/useAppFramework';
+import { useSessionState } from '../hooks/useSessionState';
 import ProjectFilters from '../components/projects/ProjectFilters';
 import ProjectGrid from '../components/projects/ProjectGrid';
 import ProjectDetail from '../components/projects/ProjectDetail';
@@ -13,7 +14,8 @@ import ProjectDetail from '../components/projects/ProjectDetail';
 const ProjectsApp: React.FC<AppProps> = ({ 
   windowId, 
   onTitleChange, 
-  onUnsavedStateChange 
+  onUnsavedStateChange,
+  launchData
 }) => {
   const appFramework = useAppFramework({
     appId: 'projects',
@@ -39,6 +41,17 @@ const ProjectsApp: React.FC<AppProps> = ({
     searchQuery: '',
   });
 
+  // Show the project this window was launched for, e.g. from a shortcut
+  const launchSlug = typeof launchData?.slug === 'string' ? launchData.slug : null;
+  useEffect(() => {
+    if (launchSlug) {
+      setAppState(prev => ({ ...prev, selectedProject: launchSlug }));
+    }
+  }, [launchData, launchSlug]);
+
+  // View, filters and selection come back with the window's session
+  useSessionState(windowId, appState, setAppState);
+
   // Available filter options
   const [availableTech, setAvailableTech] = useState<string[]>([]);
   const [availableTypes, setAvailableTypes] = useState<Project['type'][]>([]);
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, X, Folder, File } from 'lucide-react';
+import { format } from 'date-fns';
+import { useTrashStore } from '../store/trashStore';
+import type { TrashItem } from '../store/trashStore';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
+import { ConfirmDialog } from '../components/ui/ConfirmDialog';
+
+const RETENTION_OPTIONS: Array<{ label: string; value: number | null }> = [
+  { label: 'Never', value: null },
+  { label: 'After 1 day', value: 1 },
+  { label: 'After 7 days', value: 7 },
+  { label: 'After 30 days', value: 30 },
+  { label: 'After 60 days', value: 60 },
+];
+
+type PendingAction = { kind: 'delete'; ids: string[] } | { kind: 'empty' };
+
+export const RecycleBinApp: React.FC = () => {
+  const {
+    items,
+    retentionDays,
+    restore,
+    deletePermanently,
+    emptyTrash,
+    setRetentionDays,
+    purgeExpired,
+  } = useTrashStore();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedItems = [...items].sort((a, b) => b.deletedAt - a.deletedAt);
+  const selection = selectedIds.filter(id => items.some(item => item.id === id));
+
+  // Apply the retention policy whenever the bin is opened
+  useEffect(() => {
+    purgeExpired();
+  }, [purgeExpired]);
+
+  const run = (operation: () => void) => {
+    try {
+      operation();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleSelection = (item: TrashItem, multiSelect: boolean) => {
+    setSelectedIds(prev => {
+      if (multiSelect) {
+        return prev.includes(item.id) ? prev.filter(id => id !== item.id) : [...prev, item.id];
+      }
+      return [item.id];
+    });
+  };
+
+  const handleRestore = (ids: string[]) => {
+    run(() => {
+      restore(ids);
+      setSelectedIds([]);
+    });
+  };
+
+  const handleConfirm = () => {
+    if (pendingAction?.kind === 'delete') {
+      run(() => deletePermanently(pendingAction.ids));
+    } else if (pendingAction?.kind === 'empty') {
+      run(() => emptyTrash());
+    }
+    setSelectedIds([]);
+    setPendingAction(null);
+  };
+
+  const confirmMessage = () => {
+    if (pendingAction?.kind === 'empty') {
+      return `Are you sure you want to permanently delete all ${items.length} items in the Recycle Bin?`;
+    }
+    const count = pendingAction?.ids.length ?? 0;
+    const item = count === 1 ? items.find(entry => entry.id === pendingAction?.ids[0]) : undefined;
+    return item
+      ? `Are you sure you want to permanently delete "${item.name}"?`
+      : `Are you sure you want to permanently delete these ${count} items?`;
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="flex-shrink-0 flex items-center justify-between p-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleRestore(selection.length > 0 ? selection : items.map(item => item.id))}
+            disabled={items.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            {selection.length > 0 ? 'Restore selected' : 'Restore all'}
+          </button>
+          <button
+            onClick={() => setPendingAction({ kind: 'delete', ids: selection })}
+            disabled={selection.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Delete
+          </button>
+          <button
+            onClick={() => setPendingAction({ kind: 'empty' })}
+            disabled={items.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty Recycle Bin
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          Delete items automatically
+          <select
+            value={retentionDays === null ? 'never' : String(retentionDays)}
+            onChange={(e) => setRetentionDays(e.target.value === 'never' ? null : Number(e.target.value))}
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.label} value={option.value === null ? 'never' : String(option.value)}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between px-3 py-2 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20" role="alert">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="underline">Dismiss</button>
+        </div>
+      )}
+
+      {/* Items */}
+      <div className="flex-1 overflow-y-auto">
+        {sortedItems.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center">
+            <Trash2 className="w-16 h-16 text-gray-300 dark:text-gray-600 mb-4" />
+            <p className="text-gray-500 dark:text-gray-400 text-lg font-medium">
+              Recycle Bin is empty
+            </p>
+          </div>
+        ) : (
+          <table className="w-full text-sm" role="grid" aria-label="Deleted items">
+            <thead className="sticky top-0 bg-gray-100 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">Original location</th>
+                <th className="px-3 py-2 font-medium">Date deleted</th>
+                <th className="px-3 py-2 font-medium">Size</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedItems.map(item => {
+                const selected = selection.includes(item.id);
+                const Icon = item.type === 'folder' ? Folder : File;
+                return (
+                  <tr
+                    key={item.id}
+                    onClick={(e) => toggleSelection(item, e.ctrlKey || e.metaKey)}
+                    onDoubleClick={() => handleRestore([item.id])}
+                    aria-selected={selected}
+                    className={`cursor-default border-b border-gray-100 dark:border-gray-800 ${
+                      selected
+                        ? 'bg-blue-100 dark:bg-blue-900/40'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                      <span className="flex items-center gap-2">
+                        <Icon className="w-4 h-4 text-gray-500" />
+                        {item.name}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                      {pathUtils.dirname(item.originalPath)}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                      {format(new Date(item.deletedAt), 'MMM d, yyyy h:mm a')}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                      {item.type === 'file' && item.size !== undefined
+                        ? virtualFileSystem.formatFileSize(item.size)
+                        : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex-shrink-0 px-3 py-2 text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
+        {items.length} items{selection.length > 0 && ` (${selection.length} selected)`}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingAction}
+        title={pendingAction?.kind === 'empty' ? 'Empty Recycle Bin' : 'Delete'}
+        message={confirmMessage()}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+    </div>
+  );
+};
+
+export default RecycleBinApp;
@@ -6,13 +6,25 @@ import {
   Accessibility, 
   Zap,
   Check,
-  ChevronRight
+  ChevronRight,
+  FileCog,
+  History,
+  AppWindow,
+  Plus,
+  Trash2
 } from 'lucide-react';
-import type { AppProps } from '../types';
+import { formatDistanceToNow } from 'date-fns';
+import type { AppId, AppProps, WindowEdge, WindowRule } from '../types';
 import { usePreferencesStore } from '../store/preferencesStore';
+import { useSessionStore } from '../store/sessionStore';
+import { useWindowStore } from '../store/windowStore';
+import { fileAssociationService } from '../services/fileAssociationService';
+import { appRegistry } from '../services/appRegistry';
 import { wallpapers, type WallpaperOption } from '../assets/wallpapers';
+import { windowRuleUtils } from '../utils';
+import { ConfirmDialog } from '../components/ui/ConfirmDialog';
 
-type SettingsSection = 'appearance' | 'performance' | 'accessibility';
+type SettingsSection = 'appearance' | 'performance' | 'accessibility' | 'default-apps' | 'sessions' | 'window-rules';
 
 interface SettingsSectionConfig {
   id: SettingsSection;
@@ -40,10 +52,43 @@ const settingsSections: SettingsSectionConfig[] = [
     icon: Accessibility,
     description: 'Make the interface more accessible',
   },
+  {
+    id: 'default-apps',
+    title: 'Default Apps',
+    icon: FileCog,
+    description: 'Choose which app opens each file type',
+  },
+  {
+    id: 'sessions',
+    title: 'Sessions',
+    icon: History,
+    description: 'Restore and save your open windows',
+  },
+  {
+    id: 'window-rules',
+    title: 'Window Rules',
+    icon: AppWindow,
+    description: 'Choose where and how windows open',
+  },
+];
+
+const windowEdges: { id: WindowEdge; label: string }[] = [
+  { id: 'center', label: 'Center' },
+  { id: 'left', label: 'Left edge' },
+  { id: 'right', label: 'Right edge' },
+  { id: 'top', label: 'Top edge' },
+  { id: 'bottom', label: 'Bottom edge' },
+  { id: 'top-left', label: 'Top-left corner' },
+  { id: 'top-right', label: 'Top-right corner' },
+  { id: 'bottom-left', label: 'Bottom-left corner' },
+  { id: 'bottom-right', label: 'Bottom-right corner' },
 ];
 
 const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focused, onTitleChange }) => {
   const [activeSection, setActiveSection] = useState<SettingsSection>('appearance');
+  const [sessionName, setSessionName] = useState('');
+  const [pendingSessionName, setPendingSessionName] = useState<string | null>(null); // Waiting for unsaved changes to be given up
+  const { savedSessions, saveSession, loadSession, deleteSession } = useSessionStore();
   const {
     theme,
     accentColor,
@@ -60,6 +105,10 @@ const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focuse
     screenReaderOptimized,
     keyboardNavigation,
     focusIndicators,
+    defaultApps,
+    terminalHistorySize,
+    restoreSessionOnStartup,
+    windowRules,
     setTheme,
     setAccentColor,
     setWallpaper,
@@ -76,6 +125,12 @@ const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focuse
     setKeyboardNavigation,
     setFocusIndicators,
     applyPerformanceProfile,
+    setDefaultApp,
+    setTerminalHistorySize,
+    setRestoreSessionOnStartup,
+    addWindowRule,
+    updateWindowRule,
+    removeWindowRule,
   } = usePreferencesStore();
 
   React.useEffect(() => {
@@ -404,6 +459,31 @@ const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focuse
             </div>
           </div>
 
+          <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <div className="font-medium text-gray-900 dark:text-gray-100">
+                Terminal History Size
+              </div>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {terminalHistorySize} commands
+              </span>
+            </div>
+            <input
+              type="range"
+              min="50"
+              max="1000"
+              step="50"
+              value={terminalHistorySize}
+              onChange={(e) => setTerminalHistorySize(Number(e.target.value))}
+              aria-label="Terminal history size"
+              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>50</span>
+              <span>1000</span>
+            </div>
+          </div>
+
           <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
             <div className="font-medium text-gray-900 dark:text-gray-100 mb-3">
               Image Quality
@@ -606,6 +686,361 @@ const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focuse
     </div>
   );
 
+  const renderDefaultAppsSettings = () => {
+    const fileTypes = [...new Set(
+      fileAssociationService.getAllAssociations().flatMap(association => association.extensions ?? [])
+    )].sort();
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+            File Types
+          </h3>
+          <div className="space-y-2">
+            {fileTypes.map((fileType) => {
+              const apps: AppId[] = [...new Set<AppId>([...fileAssociationService.getAppsForType(fileType), 'file-explorer'])];
+              const automatic = fileAssociationService.getAppsForType(fileType)[0] ?? 'file-explorer';
+              return (
+                <div
+                  key={fileType}
+                  className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-800 rounded-lg"
+                >
+                  <label htmlFor={`default-app-${fileType}`} className="font-mono text-sm text-gray-900 dark:text-gray-100">
+                    .{fileType}
+                  </label>
+                  <select
+                    id={`default-app-${fileType}`}
+                    value={defaultApps[fileType] ?? ''}
+                    onChange={(e) => setDefaultApp(fileType, (e.target.value || null) as AppId | null)}
+                    className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    <option value="">Automatic ({appRegistry.getApp(automatic)?.name ?? automatic})</option>
+                    {apps.map((appId) => (
+                      <option key={appId} value={appId}>
+                        {appRegistry.getApp(appId)?.name ?? appId}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+          Right-click a file in File Explorer and choose <strong>Open with…</strong> to open it in a different app once.
+        </div>
+      </div>
+    );
+  };
+
+  const renderSessionSettings = () => {
+    const sessions = Object.values(savedSessions).sort((a, b) => b.savedAt - a.savedAt);
+    const handleSave = (event: React.FormEvent) => {
+      event.preventDefault();
+      saveSession(sessionName);
+      setSessionName('');
+    };
+    const handleOpen = (name: string) => {
+      if (useWindowStore.getState().hasUnsavedWindows()) {
+        setPendingSessionName(name);
+      } else {
+        loadSession(name);
+      }
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">
+              Restore Windows on Startup
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Reopen your windows, where they were and as you left them
+            </div>
+          </div>
+          <button
+            onClick={() => setRestoreSessionOnStartup(!restoreSessionOnStartup)}
+            role="switch"
+            aria-checked={restoreSessionOnStartup}
+            aria-label="Restore windows on startup"
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              restoreSessionOnStartup ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                restoreSessionOnStartup ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+            Saved Sessions
+          </h3>
+          <form onSubmit={handleSave} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              placeholder="Session name"
+              aria-label="Session name"
+              className="flex-1 px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100"
+            />
+            <button
+              type="submit"
+              disabled={!sessionName.trim()}
+              className="px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Current Windows
+            </button>
+          </form>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No saved sessions yet. Saving keeps the open windows, their places and what each app shows.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div
+                  key={session.name}
+                  className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-800 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{session.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.windows.length} {session.windows.length === 1 ? 'window' : 'windows'} · saved{' '}
+                      {formatDistanceToNow(session.savedAt, { addSuffix: true })}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleOpen(session.name)}
+                      className="px-3 py-1 rounded text-sm text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/30"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => deleteSession(session.name)}
+                      className="px-3 py-1 rounded text-sm text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+          Opening a saved session closes the windows that are open now, after asking if any have unsaved changes.
+        </div>
+
+        <ConfirmDialog
+          isOpen={pendingSessionName !== null}
+          title="Unsaved Changes"
+          message={`Some open windows have unsaved changes. Opening "${pendingSessionName}" closes them and your changes will be lost.`}
+          confirmText="Open Anyway"
+          cancelText="Cancel"
+          onConfirm={() => {
+            loadSession(pendingSessionName!, true);
+            setPendingSessionName(null);
+          }}
+          onCancel={() => setPendingSessionName(null)}
+        />
+      </div>
+    );
+  };
+
+  const renderWindowRuleSettings = () => {
+    const apps = appRegistry.getAllApps();
+    const inputClassName = 'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100';
+    const labelClassName = 'flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300';
+    const checkboxClassName = 'flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300';
+    const setSize = (rule: WindowRule, side: 'w' | 'h', value: string) => {
+      updateWindowRule(rule.id, { bounds: { ...rule.bounds, [side]: value === '' ? undefined : Math.max(1, Number(value)) } });
+    };
+
+    return (
+      <div className="space-y-6">
+        {windowRules.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No window rules yet. Rules place, pin or fade the windows they match when those windows open.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {windowRules.map((rule, index) => (
+              <div key={rule.id} className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateWindowRule(rule.id, { enabled: e.target.checked })}
+                    aria-label="Rule enabled"
+                  />
+                  <input
+                    type="text"
+                    value={rule.name ?? ''}
+                    onChange={(e) => updateWindowRule(rule.id, { name: e.target.value || undefined })}
+                    placeholder={`Rule ${index + 1}`}
+                    aria-label="Rule name"
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                  <button
+                    onClick={() => removeWindowRule(rule.id)}
+                    aria-label="Delete rule"
+                    className="p-1 rounded text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className={labelClassName}>
+                    App
+                    <select
+                      value={rule.match.appId ?? ''}
+                      onChange={(e) => updateWindowRule(rule.id, {
+                        match: { ...rule.match, appId: (e.target.value || undefined) as AppId | undefined },
+                      })}
+                      className={inputClassName}
+                    >
+                      <option value="">Any app</option>
+                      {apps.map((app) => (
+                        <option key={app.id} value={app.id}>{app.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={labelClassName}>
+                    Title contains
+                    <input
+                      type="text"
+                      value={rule.match.title ?? ''}
+                      onChange={(e) => updateWindowRule(rule.id, {
+                        match: { ...rule.match, title: e.target.value || undefined },
+                      })}
+                      placeholder="Any title"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className={labelClassName}>
+                    Width
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.bounds?.w ?? ''}
+                      onChange={(e) => setSize(rule, 'w', e.target.value)}
+                      placeholder="App default"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className={labelClassName}>
+                    Height
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.bounds?.h ?? ''}
+                      onChange={(e) => setSize(rule, 'h', e.target.value)}
+                      placeholder="App default"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className={labelClassName}>
+                    Place against
+                    <select
+                      value={rule.edge ?? ''}
+                      onChange={(e) => updateWindowRule(rule.id, { edge: (e.target.value || undefined) as WindowEdge | undefined })}
+                      className={inputClassName}
+                    >
+                      <option value="">Where the app opens it</option>
+                      {windowEdges.map((edge) => (
+                        <option key={edge.id} value={edge.id}>{edge.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={labelClassName}>
+                    Windows per app
+                    <select
+                      value={rule.singleInstance === undefined ? '' : rule.singleInstance ? 'single' : 'multiple'}
+                      onChange={(e) => updateWindowRule(rule.id, {
+                        singleInstance: e.target.value === '' ? undefined : e.target.value === 'single',
+                      })}
+                      className={inputClassName}
+                    >
+                      <option value="">App default</option>
+                      <option value="single">One window</option>
+                      <option value="multiple">Many windows</option>
+                    </select>
+                  </label>
+                </div>
+
+                <label className={labelClassName}>
+                  Opacity: {Math.round((rule.opacity ?? 1) * 100)}%
+                  <input
+                    type="range"
+                    min={20}
+                    max={100}
+                    step={5}
+                    value={Math.round((rule.opacity ?? 1) * 100)}
+                    onChange={(e) => {
+                      const opacity = Number(e.target.value) / 100;
+                      updateWindowRule(rule.id, { opacity: opacity === 1 ? undefined : opacity });
+                    }}
+                  />
+                </label>
+
+                <div className="flex flex-wrap gap-4">
+                  <label className={checkboxClassName}>
+                    <input
+                      type="checkbox"
+                      checked={!!rule.alwaysOnTop}
+                      onChange={(e) => updateWindowRule(rule.id, { alwaysOnTop: e.target.checked || undefined })}
+                    />
+                    Always on top
+                  </label>
+                  <label className={checkboxClassName}>
+                    <input
+                      type="checkbox"
+                      checked={!!rule.startMinimized}
+                      onChange={(e) => updateWindowRule(rule.id, { startMinimized: e.target.checked || undefined })}
+                    />
+                    Start minimized
+                  </label>
+                  <label className={checkboxClassName}>
+                    <input
+                      type="checkbox"
+                      checked={!!rule.rememberPosition}
+                      onChange={(e) => updateWindowRule(rule.id, { rememberPosition: e.target.checked || undefined })}
+                    />
+                    Open where the last window closed
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => addWindowRule(windowRuleUtils.create())}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+        >
+          <Plus size={16} />
+          Add Rule
+        </button>
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+          Rules apply when a window opens, in order, with later rules overriding earlier ones.
+          Right-click a title bar to keep a single window on top.
+        </div>
+      </div>
+    );
+  };
+
   const renderContent = () => {
     switch (activeSection) {
       case 'appearance':
@@ -614,6 +1049,12 @@ const SettingsApp: React.FC<AppProps> = ({ windowId: _windowId, focused: _focuse
         return renderPerformanceSettings();
       case 'accessibility':
         return renderAccessibilitySettings();
+      case 'default-apps':
+        return renderDefaultAppsSettings();
+      case 'sessions':
+        return renderSessionSettings();
+      case 'window-rules':
+        return renderWindowRuleSettings();
       default:
         return renderThemeSettings();
     }
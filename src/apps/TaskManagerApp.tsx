@@ -1,106 +1,163 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Cpu, HardDrive, Activity, Zap, X, TrendingUp, TrendingDown } from 'lucide-react';
+import { Cpu, Activity, Layers, Timer, X } from 'lucide-react';
 import { useWindowStore } from '../store/windowStore';
-import type { WindowState } from '../types';
+import { useJobStore } from '../store/jobStore';
+import { HISTORY_LENGTH, SAMPLE_INTERVAL, useResourceStore } from '../store/resourceStore';
+import { SYSTEM_RESOURCE_ID } from '../services/resourceMonitor';
+import type { ResourceSample, WindowState } from '../types';
 
 interface ProcessInfo {
   id: string;
   name: string;
-  type: 'app' | 'system';
-  cpu: number;
-  memory: number;
+  type: 'app' | 'job' | 'system';
   status: 'running' | 'suspended' | 'not responding';
+  resources?: ResourceSample; // Jobs run inside their Terminal window and have no figures of their own
+  history: ResourceSample[];
 }
 
+type ResourceKey = keyof ResourceSample;
+type SortKey = 'name' | 'type' | 'status' | ResourceKey;
+
+// A window whose long tasks take this share of the main thread has stopped responding
+const NOT_RESPONDING_SHARE = 0.5;
+
+const formatShare = (value: number, interval: number) => `${((value / interval) * 100).toFixed(1)}%`;
+const formatCount = (value: number) => value.toLocaleString();
+
+const RESOURCE_COLUMNS: { key: ResourceKey; label: string; format: (value: number, interval: number) => string }[] = [
+  { key: 'commitTime', label: 'Render', format: formatShare },
+  { key: 'longTaskTime', label: 'Long tasks', format: formatShare },
+  { key: 'listeners', label: 'Listeners', format: formatCount },
+  { key: 'timers', label: 'Timers', format: formatCount },
+  { key: 'domNodes', label: 'DOM nodes', format: formatCount },
+];
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+
+// Adds up the histories of every process, lined up by their latest sample
+const sumHistories = (histories: ResourceSample[][], pick: (sample: ResourceSample) => number) => {
+  const length = Math.max(0, ...histories.map(history => history.length));
+  return Array.from({ length }, (_, index) => histories.reduce((sum, history) => {
+    const sample = history[history.length - length + index];
+    return sample ? sum + pick(sample) : sum;
+  }, 0));
+};
+
+const Sparkline: React.FC<{ values: number[]; className?: string }> = ({ values, className = '' }) => {
+  if (values.length < 2) return null;
+
+  // The newest sample sits at the right edge, so short histories grow in from there
+  const width = 60;
+  const height = 16;
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((value, index) => {
+      const x = ((HISTORY_LENGTH - values.length + index) / (HISTORY_LENGTH - 1)) * width;
+      const y = height - (value / max) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={`inline-block align-middle ${className}`}
+      aria-hidden="true"
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
 export const TaskManagerApp: React.FC = () => {
   const { windows, closeWindow } = useWindowStore();
-  const [processes, setProcesses] = useState<ProcessInfo[]>([]);
-  const [systemStats, setSystemStats] = useState({
-    cpu: 0,
-    memory: 0,
-    disk: 0,
-    network: 0,
-  });
-  const [sortBy, setSortBy] = useState<keyof ProcessInfo>('cpu');
+  const { jobs, killJob } = useJobStore();
+  const { samples, history, interval, heap, sample } = useResourceStore();
+  const [sortBy, setSortBy] = useState<SortKey>('commitTime');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
-  // Generate process data from open windows
+  // Sample while Task Manager is open
   useEffect(() => {
-    const updateProcesses = () => {
-      const windowProcesses: ProcessInfo[] = Object.values(windows).map((window: WindowState) => ({
+    sample();
+    const timer = setInterval(sample, SAMPLE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [sample]);
+
+  const processes = useMemo(() => {
+    const windowProcesses: ProcessInfo[] = Object.values(windows).map((window: WindowState) => {
+      const resources = samples[window.id];
+      const status: ProcessInfo['status'] = window.minimized
+        ? 'suspended'
+        : resources && resources.longTaskTime >= interval * NOT_RESPONDING_SHARE
+          ? 'not responding'
+          : 'running';
+      return {
         id: window.id,
         name: window.title,
-        type: 'app' as const,
-        cpu: Math.random() * 30, // Simulated CPU usage
-        memory: Math.random() * 200 + 50, // Simulated memory usage in MB
-        status: window.minimized ? 'suspended' : 'running' as const,
-      }));
-
-      // Add system processes
-      const systemProcesses: ProcessInfo[] = [
-        {
-          id: 'system-1',
-          name: 'System',
-          type: 'system',
-          cpu: Math.random() * 5,
-          memory: 150 + Math.random() * 50,
-          status: 'running',
-        },
-        {
-          id: 'system-2',
-          name: 'Desktop Window Manager',
-          type: 'system',
-          cpu: Math.random() * 10,
-          memory: 80 + Math.random() * 30,
-          status: 'running',
-        },
-        {
-          id: 'system-3',
-          name: 'Service Host',
-          type: 'system',
-          cpu: Math.random() * 3,
-          memory: 120 + Math.random() * 40,
-          status: 'running',
-        },
-      ];
+        type: 'app',
+        status,
+        resources,
+        history: history[window.id] ?? [],
+      };
+    });
 
-      setProcesses([...windowProcesses, ...systemProcesses]);
+    // Terminal commands and background jobs run as their own processes
+    const jobProcesses: ProcessInfo[] = Object.values(jobs).map(job => ({
+      id: String(job.pid),
+      name: `${job.command} (${job.pid})`,
+      type: 'job',
+      status: 'running',
+      history: [],
+    }));
 
-      // Update system stats
-      setSystemStats({
-        cpu: Math.random() * 100,
-        memory: Math.random() * 100,
-        disk: Math.random() * 100,
-        network: Math.random() * 10, // MB/s
-      });
+    // Whatever no window accounts for: the desktop, taskbar and overlays
+    const systemProcess: ProcessInfo = {
+      id: SYSTEM_RESOURCE_ID,
+      name: 'System',
+      type: 'system',
+      status: 'running',
+      resources: samples[SYSTEM_RESOURCE_ID],
+      history: history[SYSTEM_RESOURCE_ID] ?? [],
     };
 
-    updateProcesses();
-    const interval = setInterval(updateProcesses, 2000); // Update every 2 seconds
+    return [...windowProcesses, ...jobProcesses, systemProcess];
+  }, [windows, jobs, samples, history, interval]);
 
-    return () => clearInterval(interval);
-  }, [windows]);
+  const totals = useMemo(() => {
+    const all = Object.values(samples);
+    const sum = (pick: (sample: ResourceSample) => number) => all.reduce((total, sample) => total + pick(sample), 0);
+    const histories = Object.values(history);
+    return {
+      busy: Math.min(100, (sum(sample => sample.commitTime + sample.longTaskTime) / interval) * 100),
+      busyHistory: sumHistories(histories, sample => sample.commitTime + sample.longTaskTime),
+      domNodes: sum(sample => sample.domNodes),
+      domNodesHistory: sumHistories(histories, sample => sample.domNodes),
+      listeners: sum(sample => sample.listeners),
+      timers: sum(sample => sample.timers),
+      handlesHistory: sumHistories(histories, sample => sample.listeners + sample.timers),
+    };
+  }, [samples, history, interval]);
 
-  // Sort processes
+  // Sort processes; those without figures go last whichever way resources are sorted
   const sortedProcesses = [...processes].sort((a, b) => {
-    const aValue = a[sortBy];
-    const bValue = b[sortBy];
-    
-    if (typeof aValue === 'string' && typeof bValue === 'string') {
-      return sortOrder === 'asc' 
-        ? aValue.localeCompare(bValue)
-        : bValue.localeCompare(aValue);
+    if (sortBy === 'name' || sortBy === 'type' || sortBy === 'status') {
+      return sortOrder === 'asc'
+        ? a[sortBy].localeCompare(b[sortBy])
+        : b[sortBy].localeCompare(a[sortBy]);
     }
-    
-    if (typeof aValue === 'number' && typeof bValue === 'number') {
-      return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
+
+    const aValue = a.resources?.[sortBy];
+    const bValue = b.resources?.[sortBy];
+    if (aValue === undefined || bValue === undefined) {
+      return (aValue === undefined ? 1 : 0) - (bValue === undefined ? 1 : 0);
     }
-    
-    return 0;
+    return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
   });
 
-  const handleSort = (key: keyof ProcessInfo) => {
+  const handleSort = (key: SortKey) => {
     if (sortBy === key) {
       setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
     } else {
@@ -112,6 +169,8 @@ export const TaskManagerApp: React.FC = () => {
   const handleEndTask = (process: ProcessInfo) => {
     if (process.type === 'app') {
       closeWindow(process.id);
+    } else if (process.type === 'job') {
+      killJob(Number(process.id));
     } else {
       alert('Cannot end system processes');
     }
@@ -137,6 +196,16 @@ export const TaskManagerApp: React.FC = () => {
     return 'text-green-500 bg-green-500/10';
   };
 
+  const renderHeader = (key: SortKey, label: string, align: 'left' | 'right' = 'left') => (
+    <th
+      onClick={() => handleSort(key)}
+      aria-sort={sortBy === key ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+      className={`px-4 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800`}
+    >
+      {label} {sortBy === key && (sortOrder === 'asc' ? '↑' : '↓')}
+    </th>
+  );
+
   return (
     <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-900">
       {/* Performance Overview */}
@@ -145,89 +214,74 @@ export const TaskManagerApp: React.FC = () => {
           System Performance
         </h2>
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-          {/* CPU */}
+          {/* Main thread */}
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
                 <Cpu className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">CPU</span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Main thread</span>
               </div>
-              <TrendingUp className="w-4 h-4 text-blue-600" />
+              <Sparkline values={totals.busyHistory} className="text-blue-600 dark:text-blue-400" />
             </div>
             <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
-              {systemStats.cpu.toFixed(1)}%
+              {totals.busy.toFixed(1)}%
             </div>
             <div className="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
               <motion.div
                 className="h-full bg-blue-600 dark:bg-blue-400"
                 initial={{ width: 0 }}
-                animate={{ width: `${systemStats.cpu}%` }}
+                animate={{ width: `${totals.busy}%` }}
                 transition={{ duration: 0.5 }}
               />
             </div>
           </div>
 
-          {/* Memory */}
+          {/* JS heap */}
           <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
                 <Activity className="w-5 h-5 text-purple-600 dark:text-purple-400" />
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Memory</span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">JS heap</span>
               </div>
-              <TrendingDown className="w-4 h-4 text-purple-600" />
             </div>
             <div className="text-3xl font-bold text-purple-600 dark:text-purple-400">
-              {systemStats.memory.toFixed(1)}%
+              {heap ? formatBytes(heap.used) : 'n/a'}
             </div>
             <div className="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
               <motion.div
                 className="h-full bg-purple-600 dark:bg-purple-400"
                 initial={{ width: 0 }}
-                animate={{ width: `${systemStats.memory}%` }}
+                animate={{ width: heap ? `${(heap.used / heap.limit) * 100}%` : 0 }}
                 transition={{ duration: 0.5 }}
               />
             </div>
           </div>
 
-          {/* Disk */}
+          {/* DOM nodes */}
           <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
-                <HardDrive className="w-5 h-5 text-green-600 dark:text-green-400" />
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Disk</span>
+                <Layers className="w-5 h-5 text-green-600 dark:text-green-400" />
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">DOM nodes</span>
               </div>
+              <Sparkline values={totals.domNodesHistory} className="text-green-600 dark:text-green-400" />
             </div>
             <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-              {systemStats.disk.toFixed(1)}%
-            </div>
-            <div className="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-              <motion.div
-                className="h-full bg-green-600 dark:bg-green-400"
-                initial={{ width: 0 }}
-                animate={{ width: `${systemStats.disk}%` }}
-                transition={{ duration: 0.5 }}
-              />
+              {formatCount(totals.domNodes)}
             </div>
           </div>
 
-          {/* Network */}
+          {/* Listeners and timers */}
           <div className="bg-orange-50 dark:bg-orange-900/20 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
-                <Zap className="w-5 h-5 text-orange-600 dark:text-orange-400" />
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Network</span>
+                <Timer className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Listeners / Timers</span>
               </div>
+              <Sparkline values={totals.handlesHistory} className="text-orange-600 dark:text-orange-400" />
             </div>
             <div className="text-3xl font-bold text-orange-600 dark:text-orange-400">
-              {systemStats.network.toFixed(1)} MB/s
-            </div>
-            <div className="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-              <motion.div
-                className="h-full bg-orange-600 dark:bg-orange-400"
-                initial={{ width: 0 }}
-                animate={{ width: `${(systemStats.network / 10) * 100}%` }}
-                transition={{ duration: 0.5 }}
-              />
+              {formatCount(totals.listeners)} / {formatCount(totals.timers)}
             </div>
           </div>
         </div>
@@ -245,36 +299,14 @@ export const TaskManagerApp: React.FC = () => {
           <table className="w-full">
             <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0 z-10">
               <tr>
-                <th
-                  onClick={() => handleSort('name')}
-                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
-                >
-                  Name {sortBy === 'name' && (sortOrder === 'asc' ? '↑' : '↓')}
-                </th>
-                <th
-                  onClick={() => handleSort('type')}
-                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
-                >
-                  Type {sortBy === 'type' && (sortOrder === 'asc' ? '↑' : '↓')}
-                </th>
-                <th
-                  onClick={() => handleSort('status')}
-                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
-                >
-                  Status {sortBy === 'status' && (sortOrder === 'asc' ? '↑' : '↓')}
-                </th>
-                <th
-                  onClick={() => handleSort('cpu')}
-                  className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
-                >
-                  CPU {sortBy === 'cpu' && (sortOrder === 'asc' ? '↑' : '↓')}
-                </th>
-                <th
-                  onClick={() => handleSort('memory')}
-                  className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
-                >
-                  Memory {sortBy === 'memory' && (sortOrder === 'asc' ? '↑' : '↓')}
-                </th>
+                {renderHeader('name', 'Name')}
+                {renderHeader('type', 'Type')}
+                {renderHeader('status', 'Status')}
+                {RESOURCE_COLUMNS.map(column => (
+                  <React.Fragment key={column.key}>
+                    {renderHeader(column.key, column.label, 'right')}
+                  </React.Fragment>
+                ))}
                 <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Actions
                 </th>
@@ -297,6 +329,8 @@ export const TaskManagerApp: React.FC = () => {
                     <span className={`inline-flex px-2 py-1 text-xs rounded-full ${
                       process.type === 'app'
                         ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400'
+                        : process.type === 'job'
+                        ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400'
                         : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
                     }`}>
                       {process.type}
@@ -307,20 +341,28 @@ export const TaskManagerApp: React.FC = () => {
                       {process.status}
                     </span>
                   </td>
+                  {RESOURCE_COLUMNS.map(({ key, format }) => {
+                    const value = process.resources?.[key];
+                    const isShare = key === 'commitTime' || key === 'longTaskTime';
+                    return (
+                      <td key={key} className="px-4 py-3 whitespace-nowrap text-right">
+                        {value === undefined ? (
+                          <span className="text-sm text-gray-400">—</span>
+                        ) : (
+                          <span className="inline-flex items-center gap-2">
+                            <Sparkline values={process.history.map(sample => sample[key])} className="text-gray-400" />
+                            <span className={`inline-flex px-2 py-1 text-sm font-medium rounded ${
+                              isShare ? getPerformanceColor(value, interval) : 'text-gray-700 dark:text-gray-300'
+                            }`}>
+                              {format(value, interval)}
+                            </span>
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
                   <td className="px-4 py-3 whitespace-nowrap text-right">
-                    <span className={`inline-flex px-2 py-1 text-sm font-medium rounded ${
-                      getPerformanceColor(process.cpu)
-                    }`}>
-                      {process.cpu.toFixed(1)}%
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-right">
-                    <span className="text-sm text-gray-700 dark:text-gray-300">
-                      {process.memory.toFixed(0)} MB
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-right">
-                    {process.type === 'app' && (
+                    {process.type !== 'system' && (
                       <button
                         onClick={() => handleEndTask(process)}
                         aria-label={`End task ${process.name}`}
@@ -1,5 +1,7 @@
 import React, { useEffect, useRef } from 'react';
+import { Copy } from 'lucide-react';
 import { useTerminal } from '../hooks/useTerminal';
+import { AnsiText } from '../components/terminal';
 import type { AppProps, TerminalOutput } from '../types';
 
 /**
@@ -46,17 +48,15 @@ const TerminalApp: React.FC<AppProps> = ({ windowId, focused, onTitleChange }) =
     }
   };
 
-  // Render output content
-  const renderOutput = (output: TerminalOutput) => {
-    if (typeof output.content === 'string') {
-      return (
-        <pre className={`whitespace-pre-wrap ${getOutputColor(output.type)}`}>
-          {output.content}
-        </pre>
-      );
-    }
-    return <div className={getOutputColor(output.type)}>{output.content}</div>;
-  };
+  // Render output content; paths are resolved against the folder the command ran in
+  const renderOutput = (output: TerminalOutput, cwd?: string) => (
+    <AnsiText
+      text={output.content}
+      className={getOutputColor(output.type)}
+      links={terminal.getLinkDetectors(cwd)}
+      onOpenLink={terminal.openLink}
+    />
+  );
 
   return (
     <div className="h-full bg-gray-900 text-gray-100 font-mono text-sm flex flex-col">
@@ -67,8 +67,18 @@ const TerminalApp: React.FC<AppProps> = ({ windowId, focused, onTitleChange }) =
           <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
           <div className="w-3 h-3 bg-green-500 rounded-full"></div>
         </div>
-        <div className="text-gray-400 text-xs">
-          Portfolio OS Terminal - {formatTime(new Date())}
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => terminal.copyOutput().catch(console.error)}
+            className="text-gray-400 hover:text-gray-200"
+            title="Copy output as text"
+            aria-label="Copy output as text"
+          >
+            <Copy size={14} />
+          </button>
+          <div className="text-gray-400 text-xs">
+            Portfolio OS Terminal - {formatTime(new Date())}
+          </div>
         </div>
       </div>
 
@@ -93,28 +103,36 @@ const TerminalApp: React.FC<AppProps> = ({ windowId, focused, onTitleChange }) =
             {/* Command output */}
             {entry.output.map((output, outputIndex) => (
               <div key={outputIndex} className="ml-4">
-                {renderOutput(output)}
+                {renderOutput(output, entry.cwd)}
               </div>
             ))}
           </div>
         ))}
 
-        {/* Current input line */}
+        {/* Current input line; Ctrl+R turns it into a history search */}
         <div className="flex items-center space-x-2">
-          <span className="text-green-400">$</span>
+          {terminal.historySearch ? (
+            <span className="text-yellow-400">(reverse-i-search)</span>
+          ) : (
+            <>
+              <span className="text-blue-400" data-testid="terminal-cwd">{terminal.cwd}</span>
+              <span className="text-green-400">$</span>
+            </>
+          )}
           <div className="flex-1 relative">
             <input
               ref={terminal.inputRef}
               type="text"
-              value={terminal.currentInput}
+              value={terminal.historySearch ? terminal.historySearch.query : terminal.currentInput}
+              aria-label={terminal.historySearch ? 'Search command history' : 'Terminal input'}
               onChange={(e) => {
                 // Handle async input change
                 terminal.handleInputChange(e.target.value).catch(console.error);
               }}
               onKeyDown={terminal.handleKeyPress}
               className="w-full bg-transparent text-white outline-none"
-              placeholder={terminal.isProcessing ? 'Processing...' : 'Type a command...'}
-              disabled={terminal.isProcessing}
+              placeholder={terminal.isProcessing ? 'Running... Ctrl+C to interrupt' : terminal.historySearch ? 'Type to search history...' : 'Type a command...'}
+              readOnly={terminal.isProcessing}
               autoFocus={focused}
             />
             
@@ -126,7 +144,7 @@ const TerminalApp: React.FC<AppProps> = ({ windowId, focused, onTitleChange }) =
                     key={index}
                     className="px-3 py-1 text-gray-300 hover:bg-gray-700 cursor-pointer"
                     onClick={() => {
-                      terminal.handleInputChange(suggestion + ' ').catch(console.error);
+                      terminal.applySuggestion(suggestion).catch(console.error);
                       terminal.setShowSuggestions(false);
                     }}
                   >
@@ -144,12 +162,19 @@ const TerminalApp: React.FC<AppProps> = ({ windowId, focused, onTitleChange }) =
             </div>
           )}
         </div>
+
+        {/* History search match */}
+        {terminal.historySearch && (
+          <div className="ml-4 text-gray-400" data-testid="terminal-search-match">
+            {terminal.historySearchMatch ?? (terminal.historySearch.query ? 'No match' : 'Type to search, Ctrl+R for older matches')}
+          </div>
+        )}
       </div>
 
       {/* Terminal Footer */}
       <div className="bg-gray-800 px-4 py-1 border-t border-gray-700 text-xs text-gray-500 flex justify-between">
         <div>
-          Press Tab for autocompletion • ↑↓ for history • Ctrl+L to clear
+          Press Tab for autocompletion • ↑↓ for history • Ctrl+R to search • Ctrl+C to interrupt • Ctrl+L to clear
         </div>
         <div>
           {terminal.commandHistory.length} commands in history
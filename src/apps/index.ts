@@ -10,3 +10,4 @@ export { default as CalculatorApp } from './CalculatorApp';
 export { default as ScreenshotApp } from './ScreenshotApp';
 export { default as TaskManagerApp } from './TaskManagerApp';
 export { default as ColorPickerApp } from './ColorPickerApp';
+export { default as RecycleBinApp } from './RecycleBinApp';
@@ -13,11 +13,17 @@ import { ToastNotifications } from './ui/ToastNotifications';
 import { ActionCenter } from './ui/ActionCenter';
 import { QuickSettings } from './ui/QuickSettings';
 import { SnapPreviewOverlay } from './ui/SnapPreviewOverlay';
+import { WorkspaceOverview } from './ui/WorkspaceOverview';
+import { WindowOverview } from './ui/WindowOverview';
 import { WidgetsPanel } from './widgets';
 import { useReduceMotion } from '../hooks/useReduceMotion';
 import { useAccessibilitySettings } from '../hooks/useAccessibilitySettings';
 import { performanceOptimizer } from '../utils/performanceOptimizations';
 import { windowLifecycleManager } from '../services/windowLifecycleManager';
+import { useSessionStore } from '../store/sessionStore';
+import { initStores } from '../store/initStores';
+import { resourceMonitor } from '../services/resourceMonitor';
+import { searchService } from '../services/searchService';
 
 export const DesktopOS: React.FC = () => {
   const [isQuickSettingsOpen, setIsQuickSettingsOpen] = useState(false);
@@ -30,6 +36,18 @@ export const DesktopOS: React.FC = () => {
   useAccessibilitySettings();
 
   useEffect(() => {
+    // Count timers and listeners for Task Manager, from before any window opens
+    const uninstallResourceMonitor = resourceMonitor.install();
+
+    // Let the stores follow the window manager before any window opens
+    const disconnectStores = initStores();
+
+    // Let search follow files and Notepad documents as they change
+    const stopSearch = searchService.init();
+
+    // Reopen the windows of the last visit
+    useSessionStore.getState().restoreLastSession();
+
     // Initialize performance monitoring
     performanceOptimizer.monitorComponent('DesktopOS');
     performanceOptimizer.monitorComponent('WindowManager');
@@ -39,6 +57,9 @@ export const DesktopOS: React.FC = () => {
     return () => {
       performanceOptimizer.cleanup();
       windowLifecycleManager.cleanup();
+      uninstallResourceMonitor();
+      disconnectStores();
+      stopSearch();
     };
   }, []);
 
@@ -87,6 +108,8 @@ export const DesktopOS: React.FC = () => {
               onClose={() => setIsQuickSettingsOpen(false)} 
             />
             <SnapPreviewOverlay />
+            <WorkspaceOverview />
+            <WindowOverview />
             
             {/* Desktop Widgets */}
             {showWidgets && <WidgetsPanel />}
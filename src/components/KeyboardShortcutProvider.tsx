@@ -1,6 +1,7 @@
 import React, { createContext, useContext } from 'react';
 import type { ReactNode } from 'react';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useKeyboardMoveSize } from '../hooks/useKeyboardMoveSize';
 import type { KeyboardShortcut } from '../types';
 
 interface KeyboardShortcutContextValue {
@@ -29,6 +30,7 @@ export const KeyboardShortcutProvider: React.FC<KeyboardShortcutProviderProps> =
     enabled, 
     context: 'desktop' 
   });
+  useKeyboardMoveSize();
 
   return (
     <KeyboardShortcutContext.Provider value={keyboardState}>
@@ -1,71 +1,30 @@
-import { render, screen, fireEvent } from '@testing-library/react';
-import { vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { beforeEach, vi } from 'vitest';
 import { DesktopOS } from '../DesktopOS';
+import { useWindowStore } from '../../store/windowStore';
+import { usePreferencesStore } from '../../store/preferencesStore';
 
-// Mock the stores
 const mockCreateWindow = vi.fn();
 
-vi.mock('../../store/desktopStore', () => ({
-  useDesktopStore: vi.fn(() => ({
-    icons: [
-      {
-        id: 'projects',
-        label: 'Projects',
-        appId: 'projects',
-        x: 50,
-        y: 50,
-        selected: false,
-      }
-    ],
-    contextMenu: null,
-    clearSelection: vi.fn(),
-    selectIcon: vi.fn(),
-    updateIconPosition: vi.fn(),
-  })),
-}));
-
-vi.mock('../../store/windowStore', () => ({
-  useWindowStore: vi.fn(() => ({
-    windows: {},
-    zOrder: [],
-    createWindow: mockCreateWindow,
-    focusWindow: vi.fn(),
-    minimizeWindow: vi.fn(),
-    maximizeWindow: vi.fn(),
-    closeWindow: vi.fn(),
-    getFocusedWindow: vi.fn(() => null),
-    getVisibleWindows: vi.fn(() => []),
-    getMinimizedWindows: vi.fn(() => []),
-    isWindowFocused: vi.fn(() => false),
-    hasUnsavedWindows: vi.fn(() => false),
-  })),
-}));
-
-vi.mock('../../store/preferencesStore', () => ({
-  usePreferencesStore: vi.fn(() => ({
-    wallpaper: 'default',
-    theme: 'dark',
-    reduceMotion: false,
-  })),
-}));
-
-vi.mock('../../store/startMenuStore', () => ({
-  useStartMenuStore: vi.fn(() => ({
-    isOpen: false,
-    searchQuery: '',
-    searchResults: [],
-    selectedIndex: -1,
-    pinnedApps: [],
-    recentApps: [],
-    setIsOpen: vi.fn(),
-    toggleStartMenu: vi.fn(),
-    setSearchQuery: vi.fn(),
-    performSearch: vi.fn(),
-    clearSearch: vi.fn(),
-  })),
-}));
-
 describe('DesktopOS Integration', () => {
+  beforeEach(() => {
+    Object.defineProperty(window, 'matchMedia', {
+      writable: true,
+      value: vi.fn().mockImplementation(query => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+    usePreferencesStore.setState({ theme: 'light' });
+    useWindowStore.setState({ createWindow: mockCreateWindow });
+  });
+
   it('renders desktop with taskbar and can handle icon interactions', () => {
     render(<DesktopOS />);
     
@@ -80,12 +39,12 @@ describe('DesktopOS Integration', () => {
     expect(hasTimeDisplay).toBe(true);
   });
 
-  it('can double-click desktop icon to create window', () => {
+  it('can double-click desktop icon to create window', async () => {
     render(<DesktopOS />);
     
     const projectsIcon = screen.getByText('Projects');
     fireEvent.doubleClick(projectsIcon);
     
-    expect(mockCreateWindow).toHaveBeenCalledWith('projects');
+    await waitFor(() => expect(mockCreateWindow).toHaveBeenCalledWith('projects', expect.anything()));
   });
 });
\ No newline at end of file
@@ -3,9 +3,13 @@ import { motion } from 'framer-motion';
 import { Grid3X3 } from 'lucide-react';
 import { useDesktopStore } from '../../store/desktopStore';
 import { usePreferencesStore } from '../../store/preferencesStore';
+import { useWindowStore } from '../../store/windowStore';
 import { useStartMenuStore } from '../../store/startMenuStore';
 import { useResponsive } from '../../hooks/useResponsive';
 import { useTouchGestures } from '../../hooks/useTouchGestures';
+import { useFileSystemNode } from '../../hooks/useFileSystemWatch';
+import { useNotifications } from '../../store/notificationStore';
+import { fileTransferService } from '../../services/fileTransferService';
 import { getWallpaperValue } from '../../assets/wallpapers';
 import { DesktopIcon } from './DesktopIcon';
 import { DesktopContextMenu } from '../ui/CustomContextMenu';
@@ -23,18 +27,27 @@ export const Desktop: React.FC = () => {
     updateDragSelection,
     endDragSelection,
     loadIconLayout,
-    setIconSize
+    setIconSize,
+    syncFileIcons
   } = useDesktopStore();
   const { wallpaper, theme } = usePreferencesStore();
+  const workspaceWallpaper = useWindowStore(state => state.getActiveWorkspace().wallpaper);
   const { toggleStartMenu } = useStartMenuStore();
   const { isMobile, isTouchDevice } = useResponsive();
   const desktopRef = useRef<HTMLDivElement>(null);
+  const notifications = useNotifications();
 
   // Load saved icon layout on mount
   React.useEffect(() => {
     loadIconLayout();
   }, [loadIconLayout]);
 
+  // Mirror the contents of /Desktop in the virtual file system as icons
+  const desktopFolder = useFileSystemNode('/Desktop');
+  useEffect(() => {
+    syncFileIcons(desktopFolder?.children ?? []);
+  }, [desktopFolder, syncFileIcons]);
+
   // Touch gesture handlers
   const { attachListeners } = useTouchGestures({
     onLongPress: (point) => {
@@ -59,6 +72,35 @@ export const Desktop: React.FC = () => {
     }
   }, [attachListeners, isTouchDevice]);
 
+  // Files dropped from the user's machine land in /Desktop
+  const handleDragOver = (e: React.DragEvent) => {
+    if (Array.from(e.dataTransfer.types).includes('Files')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+
+    try {
+      const result = await fileTransferService.importDataTransfer(e.dataTransfer, '/Desktop');
+      if (result.failed.length > 0) {
+        notifications.error(
+          'Some files could not be imported',
+          result.failed.map(failure => `${failure.name}: ${failure.error}`).join('\n')
+        );
+      }
+    } catch (error) {
+      // Reading the dropped items or writing them can fail as a whole, e.g. when storage is full
+      notifications.error(
+        'Files could not be imported',
+        error instanceof Error ? error.message : 'Unknown file system error'
+      );
+    }
+  };
+
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     // Disable context menu on mobile
@@ -134,7 +176,8 @@ export const Desktop: React.FC = () => {
   };
 
   const wallpaperStyle = {
-    background: getWallpaperValue(wallpaper),
+    // Each workspace can keep its own wallpaper
+    background: getWallpaperValue(workspaceWallpaper ?? wallpaper),
   };
 
   const isDark = theme === 'dark' || (theme === 'auto' && globalThis.window?.matchMedia('(prefers-color-scheme: dark)').matches);
@@ -149,6 +192,8 @@ export const Desktop: React.FC = () => {
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onClick={handleClick}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
       {/* Desktop Icons */}
       <div className={`absolute inset-0 z-10 ${isMobile ? 'p-6' : 'p-4'}`}>
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { Trash2 } from 'lucide-react';
 import { useDesktopStore } from '../../store/desktopStore';
 import { useWindowStore } from '../../store/windowStore';
+import { useTrashStore } from '../../store/trashStore';
 import { useAccessibility } from '../AccessibilityProvider';
 import { FocusRing } from '../ui';
 import { appLauncher } from '../../services/appLauncher';
+import { fileAssociationService } from '../../services/fileAssociationService';
 import type { DesktopIcon as DesktopIconType } from '../../types';
 
 interface DesktopIconProps {
@@ -14,6 +17,7 @@ interface DesktopIconProps {
 export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
   const { iconSize, selectIcon } = useDesktopStore();
   const { createWindow } = useWindowStore();
+  const trashFull = useTrashStore((state) => state.items.length > 0);
   const { registerFocusableElement, unregisterFocusableElement, announceMessage, isReducedMotion } = useAccessibility();
   const [dragConstraints, setDragConstraints] = useState({ left: 0, right: 0, top: 0, bottom: 0 });
   const iconRef = useRef<HTMLDivElement>(null);
@@ -44,9 +48,12 @@ export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
 
   const handleDoubleClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (icon.appId) {
+    if (icon.appId || icon.path) {
       try {
-        const result = await appLauncher.launchApp(icon.appId);
+        // File icons mirror /Desktop in the virtual file system
+        const result = icon.appId
+          ? await appLauncher.launchApp(icon.appId)
+          : await fileAssociationService.openFile(icon.path as string);
         if (result.success) {
           announceMessage(`Opening ${icon.label}`);
         } else {
@@ -60,6 +67,28 @@ export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
     }
   };
 
+  // Only file icons can be deleted; they go to the Recycle Bin
+  const handleDelete = () => {
+    const paths = useDesktopStore.getState().icons
+      .filter(i => i.path && (i.selected || i.id === icon.id))
+      .map(i => i.path as string);
+
+    if (paths.length === 0) {
+      announceMessage(`${icon.label} cannot be deleted`);
+      return;
+    }
+
+    try {
+      useTrashStore.getState().moveToTrash(paths);
+      announceMessage(
+        paths.length === 1 ? `${icon.label} moved to the Recycle Bin` : `${paths.length} items moved to the Recycle Bin`
+      );
+    } catch (error) {
+      announceMessage(`Failed to delete ${icon.label}`);
+      console.error('Failed to move to trash:', error);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     switch (e.key) {
       case 'Enter':
@@ -73,8 +102,7 @@ export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
       case 'Delete':
       case 'Backspace':
         e.preventDefault();
-        // Handle delete action if needed
-        announceMessage(`${icon.label} delete action`);
+        handleDelete();
         break;
     }
   };
@@ -104,6 +132,20 @@ export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
     };
 
     const colorClass = icon.appId ? iconColors[icon.appId] || 'bg-gray-400' : 'bg-gray-400';
+
+    if (icon.appId === 'recycle-bin') {
+      return (
+        <div
+          className={`relative w-full h-full rounded-lg ${colorClass} flex items-center justify-center text-white`}
+          data-state={trashFull ? 'full' : 'empty'}
+        >
+          <Trash2 className="w-1/2 h-1/2" />
+          {trashFull && (
+            <span className="absolute top-1 right-1 w-2.5 h-2.5 rounded-full bg-white" aria-hidden="true" />
+          )}
+        </div>
+      );
+    }
     
     return (
       <div className={`w-full h-full rounded-lg ${colorClass} flex items-center justify-center text-white font-bold`}>
@@ -263,6 +305,7 @@ export const DesktopIcon: React.FC<DesktopIconProps> = ({ icon }) => {
         {/* Screen reader description */}
         <div id={`${icon.id}-description`} className="sr-only">
           {icon.appId ? `Double-click or press Enter to open ${icon.label}` : `${icon.label} icon`}
+          {icon.appId === 'recycle-bin' && (trashFull ? '. Contains deleted items' : '. Empty')}
         </div>
       </motion.div>
     </FocusRing>
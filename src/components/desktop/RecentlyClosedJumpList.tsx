@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useSessionStore } from '../../store/sessionStore';
+
+interface RecentlyClosedJumpListProps {
+  isDark: boolean;
+}
+
+/**
+ * Taskbar button listing recently closed windows. Picking one reopens it as it
+ * was, like Ctrl+Shift+T does for the last one.
+ */
+export const RecentlyClosedJumpList: React.FC<RecentlyClosedJumpListProps> = ({ isDark }) => {
+  const { recentlyClosed, reopenClosedWindow, clearRecentlyClosed } = useSessionStore();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  if (recentlyClosed.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <motion.button
+        className={`p-2 rounded transition-colors ${
+          open
+            ? 'bg-blue-500/80 text-white'
+            : isDark ? 'hover:bg-gray-700 text-gray-300' : 'hover:bg-gray-100 text-gray-700'
+        }`}
+        onClick={() => setOpen(!open)}
+        whileTap={{ scale: 0.95 }}
+        title="Recently closed (Ctrl+Shift+T reopens the last)"
+        aria-label="Recently closed windows"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <History className="w-4 h-4" />
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <>
+            <div className="fixed inset-0" onClick={() => setOpen(false)} />
+            <motion.div
+              className={`absolute bottom-full left-0 mb-2 w-72 rounded-lg border shadow-xl overflow-hidden ${
+                isDark ? 'bg-gray-800 border-gray-600 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+              }`}
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 8 }}
+              transition={{ duration: 0.15 }}
+            >
+              <div className={`px-3 py-2 text-xs font-semibold uppercase tracking-wide ${
+                isDark ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                Recently Closed
+              </div>
+              <ul role="menu" aria-label="Recently closed windows" className="max-h-80 overflow-y-auto">
+                {recentlyClosed.map((entry, index) => (
+                  <li key={`${entry.window.id}-${entry.closedAt}`} role="none">
+                    <button
+                      role="menuitem"
+                      className={`w-full px-3 py-2 flex items-center gap-2 text-left text-sm ${
+                        isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                      }`}
+                      onClick={() => {
+                        reopenClosedWindow(index);
+                        setOpen(false);
+                      }}
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate">{entry.window.title}</span>
+                        <span className={`block text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {entry.window.hasUnsavedState && (
+                            <span className="text-orange-500">Unsaved changes · </span>
+                          )}
+                          {formatDistanceToNow(entry.closedAt, { addSuffix: true })}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                className={`w-full px-3 py-2 text-left text-xs border-t ${
+                  isDark ? 'border-gray-700 text-gray-400 hover:bg-gray-700' : 'border-gray-200 text-gray-500 hover:bg-gray-100'
+                }`}
+                onClick={() => {
+                  clearRecentlyClosed();
+                  setOpen(false);
+                }}
+              >
+                Clear list
+              </button>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
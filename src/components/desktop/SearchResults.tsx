@@ -55,23 +55,12 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
     return colorMap[category] || colorMap.app;
   };
 
-  const highlightMatches = (text: string, matches?: Array<{ indices: readonly [number, number][]; key?: string; value?: string }>) => {
-    if (!matches || matches.length === 0) {
-      return text;
-    }
-
-    // Find the match for the title field
-    const titleMatch = matches.find(match => match.key === 'title');
-    if (!titleMatch) {
-      return text;
-    }
-
-    const indices = titleMatch.indices;
-    if (!indices || indices.length === 0) {
+  const highlightRanges = (text: string, indices: readonly [number, number][]) => {
+    if (indices.length === 0) {
       return text;
     }
 
-    let result: (string | React.JSX.Element)[] = [];
+    const result: (string | React.JSX.Element)[] = [];
     let lastIndex = 0;
 
     indices.forEach(([start, end], i) => {
@@ -103,6 +92,12 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
     return result;
   };
 
+  const highlightMatches = (text: string, matches?: Array<{ indices: readonly [number, number][]; key?: string; value?: string }>) => {
+    // Find the match for the title field
+    const titleMatch = matches?.find(match => match.key === 'title');
+    return titleMatch?.indices ? highlightRanges(text, titleMatch.indices) : text;
+  };
+
   if (results.length === 0) {
     return (
       <div className="p-8 text-center">
@@ -153,6 +148,15 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
               }`}>
                 {result.description}
               </div>
+              {result.snippet && (
+                <div
+                  className={`text-xs mt-1 font-mono truncate ${isDark ? 'text-gray-300' : 'text-gray-600'}`}
+                  data-testid="search-snippet"
+                >
+                  <span className={isDark ? 'text-gray-500' : 'text-gray-400'}>{result.snippet.line}: </span>
+                  {highlightRanges(result.snippet.text, result.snippet.highlights)}
+                </div>
+              )}
             </div>
 
             {/* Category Badge */}
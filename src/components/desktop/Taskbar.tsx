@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { useWindowStore } from '../../store/windowStore';
+import { isBackgroundTab, isWindowOnWorkspace, useWindowStore } from '../../store/windowStore';
 import { usePreferencesStore } from '../../store/preferencesStore';
 import { useStartMenuStore } from '../../store/startMenuStore';
 import { useResponsive } from '../../hooks/useResponsive';
@@ -10,6 +10,8 @@ import { MobileStartMenu } from './MobileStartMenu';
 import { TaskbarButton } from './TaskbarButton';
 import { TaskbarSearch } from './TaskbarSearch';
 import { SystemTray } from './SystemTray';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { RecentlyClosedJumpList } from './RecentlyClosedJumpList';
 
 interface TaskbarProps {
   onToggleQuickSettings: () => void;
@@ -17,15 +19,15 @@ interface TaskbarProps {
 }
 
 export const Taskbar: React.FC<TaskbarProps> = ({ onToggleQuickSettings, onToggleWidgets }) => {
-  const { windows, zOrder } = useWindowStore();
+  const { windows, zOrder, activeWorkspaceId, tabGroups } = useWindowStore();
   const { theme } = usePreferencesStore();
   const { isOpen: startMenuOpen, toggleStartMenu } = useStartMenuStore();
   const { isMobile } = useResponsive();
 
-  // Get all windows (including minimized) in z-order for taskbar
+  // Get the workspace's windows (including minimized) in z-order for taskbar; a tabbed frame shows as its active tab
   const allWindows = zOrder
     .map(id => windows[id])
-    .filter(Boolean);
+    .filter(window => window && isWindowOnWorkspace(window, activeWorkspaceId) && !isBackgroundTab(window, tabGroups));
 
   const isDark = theme === 'dark' || (theme === 'auto' && globalThis.window?.matchMedia('(prefers-color-scheme: dark)').matches);
 
@@ -55,6 +57,12 @@ export const Taskbar: React.FC<TaskbarProps> = ({ onToggleQuickSettings, onToggl
           {/* Search Bar */}
           <TaskbarSearch />
 
+          {/* Task View and Workspaces */}
+          <WorkspaceSwitcher isDark={isDark} />
+
+          {/* Recently Closed Windows */}
+          <RecentlyClosedJumpList isDark={isDark} />
+
           {/* Taskbar Buttons */}
           <div className="flex-1 flex items-center gap-1 px-2">
             {allWindows.map((window) => (
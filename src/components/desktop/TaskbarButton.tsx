@@ -4,13 +4,15 @@ import { useWindowStore } from '../../store/windowStore';
 import { usePreferencesStore } from '../../store/preferencesStore';
 import type { WindowState } from '../../types';
 import { WindowPeek } from '../ui/WindowPeek';
+import { WINDOW_DRAG_TYPE } from './WorkspaceSwitcher';
 
 interface TaskbarButtonProps {
   window: WindowState;
 }
 
 export const TaskbarButton: React.FC<TaskbarButtonProps> = ({ window }) => {
-  const { focusWindow, minimizeWindow, maximizeWindow, closeWindow } = useWindowStore();
+  const { focusWindow, minimizeWindow, maximizeWindow, closeWindow, tabGroups } = useWindowStore();
+  const tabCount = window.tabGroupId ? tabGroups[window.tabGroupId]?.tabs.length ?? 1 : 1;
   const { theme } = usePreferencesStore();
   const buttonRef = useRef<HTMLButtonElement>(null);
   const [showPeek, setShowPeek] = useState(false);
@@ -69,39 +71,60 @@ export const TaskbarButton: React.FC<TaskbarButtonProps> = ({ window }) => {
     );
   };
 
+  // Dropped on a workspace in the switcher, the window moves there
+  const handleDragStart = (event: React.DragEvent) => {
+    handleMouseLeave();
+    event.dataTransfer.setData(WINDOW_DRAG_TYPE, window.id);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
   return (
     <>
-      <motion.button
-        ref={buttonRef}
-        className={`flex items-center gap-2 px-3 py-1 rounded text-sm max-w-48 transition-colors ${
-          window.focused && !window.minimized
-            ? isDark
-              ? 'bg-blue-600/80 text-white border border-blue-500'
-              : 'bg-blue-500/80 text-white border border-blue-400'
-            : window.minimized
-            ? isDark
-              ? 'bg-gray-600/60 text-gray-400 border border-gray-600'
-              : 'bg-gray-300/60 text-gray-600 border border-gray-300'
-            : isDark
-            ? 'hover:bg-gray-700 text-gray-300 border border-transparent'
-            : 'hover:bg-gray-100 text-gray-700 border border-transparent'
-        }`}
-        onClick={handleClick}
-        onMouseEnter={handleMouseEnter}
-        onMouseLeave={handleMouseLeave}
-        whileHover={{ scale: 1.02 }}
-        whileTap={{ scale: 0.98 }}
-        title={`${window.title}${window.minimized ? ' (Minimized)' : ''}`}
-      >
-        {/* App Icon */}
-        {getAppIcon()}
-        
-        {/* Window Title */}
-        <span className="truncate">
-          {window.hasUnsavedState && '• '}
-          {window.title}
-        </span>
-      </motion.button>
+      <div className="flex" draggable onDragStart={handleDragStart}>
+        <motion.button
+          ref={buttonRef}
+          className={`flex items-center gap-2 px-3 py-1 rounded text-sm max-w-48 transition-colors ${
+            window.focused && !window.minimized
+              ? isDark
+                ? 'bg-blue-600/80 text-white border border-blue-500'
+                : 'bg-blue-500/80 text-white border border-blue-400'
+              : window.minimized
+              ? isDark
+                ? 'bg-gray-600/60 text-gray-400 border border-gray-600'
+                : 'bg-gray-300/60 text-gray-600 border border-gray-300'
+              : isDark
+              ? 'hover:bg-gray-700 text-gray-300 border border-transparent'
+              : 'hover:bg-gray-100 text-gray-700 border border-transparent'
+          }`}
+          onClick={handleClick}
+          onMouseEnter={handleMouseEnter}
+          onMouseLeave={handleMouseLeave}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          title={`${window.title}${tabCount > 1 ? ` and ${tabCount - 1} more ${tabCount === 2 ? 'tab' : 'tabs'}` : ''}${window.minimized ? ' (Minimized)' : ''}`}
+        >
+          {/* App Icon */}
+          {getAppIcon()}
+          
+          {/* Window Title */}
+          <span className="truncate">
+            {window.hasUnsavedState && '• '}
+            {window.title}
+          </span>
+
+          {/* Tabs in the frame */}
+          {tabCount > 1 && (
+            <span
+              className={`flex-shrink-0 min-w-4 px-1 rounded text-xs font-semibold ${
+                isDark ? 'bg-gray-500/60 text-white' : 'bg-gray-500/20 text-current'
+              }`}
+              aria-label={`${tabCount} tabs`}
+            >
+              {tabCount}
+            </span>
+          )}
+        </motion.button>
+      </div>
 
       {/* Window Peek */}
       <AnimatePresence>
@@ -3,12 +3,27 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Search, X } from 'lucide-react';
 import { usePreferencesStore } from '../../store/preferencesStore';
 import { searchService } from '../../services/searchService';
-import type { SearchableItem } from '../../types';
+import type { SearchResult, SearchSnippet } from '../../types';
+
+/**
+ * Render a matching line with its highlighted terms
+ */
+const renderSnippet = ({ text, highlights }: SearchSnippet) => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  highlights.forEach(([start, end], i) => {
+    parts.push(text.slice(lastIndex, start));
+    parts.push(<mark key={i} className="bg-yellow-200 text-yellow-900 rounded px-0.5">{text.slice(start, end + 1)}</mark>);
+    lastIndex = end + 1;
+  });
+  parts.push(text.slice(lastIndex));
+  return parts;
+};
 
 export const TaskbarSearch: React.FC = () => {
   const [query, setQuery] = useState('');
   const [isFocused, setIsFocused] = useState(false);
-  const [results, setResults] = useState<SearchableItem[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
@@ -171,6 +186,11 @@ export const TaskbarSearch: React.FC = () => {
                         {result.description}
                       </div>
                     )}
+                    {result.snippet && (
+                      <div className="text-xs font-mono truncate mt-0.5">
+                        {result.snippet.line}: {renderSnippet(result.snippet)}
+                      </div>
+                    )}
                   </div>
                   {result.category && (
                     <div className={`text-xs px-2 py-0.5 rounded ${
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { LayoutGrid } from 'lucide-react';
+import { getWorkspaceName, useWindowStore } from '../../store/windowStore';
+
+// Drag data type carrying a window ID, set by taskbar buttons and overview thumbnails
+export const WINDOW_DRAG_TYPE = 'application/x-window-id';
+
+interface WorkspaceSwitcherProps {
+  isDark: boolean;
+}
+
+/**
+ * Task view button and one button per workspace. Dropping a taskbar button
+ * on a workspace moves its window there.
+ */
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ isDark }) => {
+  const {
+    workspaces,
+    activeWorkspaceId,
+    workspaceOverviewOpen,
+    switchWorkspace,
+    moveWindowToWorkspace,
+    setWorkspaceOverviewOpen,
+  } = useWindowStore();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const handleDrop = (event: React.DragEvent, workspaceId: string) => {
+    const windowId = event.dataTransfer.getData(WINDOW_DRAG_TYPE);
+    setDropTarget(null);
+    if (windowId) {
+      event.preventDefault();
+      moveWindowToWorkspace(windowId, workspaceId);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-1">
+      <motion.button
+        className={`p-2 rounded transition-colors ${
+          workspaceOverviewOpen
+            ? 'bg-blue-500/80 text-white'
+            : isDark ? 'hover:bg-gray-700 text-gray-300' : 'hover:bg-gray-100 text-gray-700'
+        }`}
+        onClick={() => setWorkspaceOverviewOpen(!workspaceOverviewOpen)}
+        whileTap={{ scale: 0.95 }}
+        title="Task view (Win+Tab)"
+        aria-label="Task view"
+        aria-pressed={workspaceOverviewOpen}
+      >
+        <LayoutGrid className="w-4 h-4" />
+      </motion.button>
+
+      {workspaces.length > 1 && (
+        <div className="flex items-center gap-0.5" role="tablist" aria-label="Workspaces">
+          {workspaces.map((workspace, index) => {
+            const active = workspace.id === activeWorkspaceId;
+            return (
+              <button
+                key={workspace.id}
+                role="tab"
+                aria-selected={active}
+                aria-label={getWorkspaceName(workspaces, workspace.id)}
+                title={`${getWorkspaceName(workspaces, workspace.id)} (Ctrl+Win+Left/Right)`}
+                className={`w-6 h-6 rounded text-xs font-medium transition-colors ${
+                  dropTarget === workspace.id
+                    ? 'ring-2 ring-blue-400'
+                    : ''
+                } ${
+                  active
+                    ? 'bg-blue-500/80 text-white'
+                    : isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+                onClick={() => switchWorkspace(workspace.id)}
+                onDragOver={(event) => {
+                  if (event.dataTransfer.types.includes(WINDOW_DRAG_TYPE)) {
+                    event.preventDefault();
+                    setDropTarget(workspace.id);
+                  }
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(event) => handleDrop(event, workspace.id)}
+              >
+                {index + 1}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -12,3 +12,5 @@ export { SearchResults } from './SearchResults';
 export { QuickActions } from './QuickActions';
 export { TaskbarButton } from './TaskbarButton';
 export { SystemTray } from './SystemTray';
+export { WorkspaceSwitcher } from './WorkspaceSwitcher';
+export { RecentlyClosedJumpList } from './RecentlyClosedJumpList';
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   Eye, 
   Copy, 
@@ -7,9 +7,15 @@ import {
   Folder,
   FileText,
   Trash2,
-  Info
+  Info,
+  Edit3,
+  Scissors,
+  ClipboardPaste,
+  ChevronRight,
+  Check
 } from 'lucide-react';
-import type { VNode, ContextMenuItem } from '../../types';
+import type { AppId, VNode, ContextMenuItem } from '../../types';
+import type { FileOpener } from '../../services/fileAssociationService';
 
 interface ContextMenuProps {
   file: VNode;
@@ -18,9 +24,17 @@ interface ContextMenuProps {
   onClose: () => void;
   onPreview: (file: VNode) => void;
   onOpen: (file: VNode) => void;
+  openWithApps?: FileOpener[];
+  onOpenWith?: (file: VNode, appId: AppId) => void;
   onCopy: (file: VNode) => void;
   onDownload: (file: VNode) => void;
   onShowInfo: (file: VNode) => void;
+  onRename?: (file: VNode) => void;
+  onDelete?: (file: VNode) => void;
+  onCut?: (file: VNode) => void;
+  onCopyItem?: (file: VNode) => void;
+  onPaste?: (folder: VNode) => void;
+  canPaste?: boolean;
   className?: string;
 }
 
@@ -34,12 +48,21 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   onClose,
   onPreview,
   onOpen,
+  openWithApps = [],
+  onOpenWith,
   onCopy,
   onDownload,
   onShowInfo,
+  onRename,
+  onDelete,
+  onCut,
+  onCopyItem,
+  onPaste,
+  canPaste = false,
   className = ''
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
+  const [openSubmenuId, setOpenSubmenuId] = useState<string | null>(null);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -95,6 +118,20 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         onClose();
       }
     },
+    ...(onOpenWith && file.type === 'file' && openWithApps.length > 0 ? [{
+      id: 'open-with',
+      label: 'Open with…',
+      icon: 'ExternalLink',
+      children: openWithApps.map(app => ({
+        id: `open-with-${app.appId}`,
+        label: app.isDefault ? `${app.name} (default)` : app.name,
+        icon: app.isDefault ? 'Check' : undefined,
+        action: () => {
+          onOpenWith(file, app.appId);
+          onClose();
+        }
+      }))
+    }] : []),
     {
       id: 'separator1',
       label: '',
@@ -109,7 +146,7 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         onPreview(file);
         onClose();
       },
-      disabled: file.type === 'folder' || !file.content
+      disabled: file.type === 'folder' || (!file.content && !file.binary && !file.url)
     },
     {
       id: 'copy',
@@ -122,13 +159,13 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
     },
     {
       id: 'download',
-      label: 'Download',
+      label: file.type === 'folder' ? 'Download as ZIP' : 'Download',
       icon: 'Download',
       action: () => {
         onDownload(file);
         onClose();
       },
-      disabled: file.type === 'folder' || !file.content
+      disabled: file.type === 'file' && !file.content && !file.binary
     },
     {
       id: 'separator2',
@@ -136,6 +173,58 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
       separator: true,
       action: () => {}
     },
+    ...(onCut ? [{
+      id: 'cut',
+      label: 'Cut',
+      icon: 'Scissors',
+      action: () => {
+        onCut(file);
+        onClose();
+      }
+    }] : []),
+    ...(onCopyItem ? [{
+      id: 'copy-item',
+      label: 'Copy',
+      icon: 'Copy',
+      action: () => {
+        onCopyItem(file);
+        onClose();
+      }
+    }] : []),
+    ...(onPaste && file.type === 'folder' ? [{
+      id: 'paste',
+      label: 'Paste into Folder',
+      icon: 'ClipboardPaste',
+      action: () => {
+        onPaste(file);
+        onClose();
+      },
+      disabled: !canPaste
+    }] : []),
+    ...(onRename ? [{
+      id: 'rename',
+      label: 'Rename',
+      icon: 'Edit3',
+      action: () => {
+        onRename(file);
+        onClose();
+      }
+    }] : []),
+    ...(onDelete ? [{
+      id: 'delete',
+      label: 'Delete',
+      icon: 'Trash2',
+      action: () => {
+        onDelete(file);
+        onClose();
+      }
+    }] : []),
+    ...(onCut || onCopyItem || onRename || onDelete ? [{
+      id: 'separator3',
+      label: '',
+      separator: true,
+      action: () => {}
+    }] : []),
     {
       id: 'info',
       label: 'Properties',
@@ -156,7 +245,11 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
       Folder,
       FileText,
       Trash2,
-      Info
+      Info,
+      Edit3,
+      Scissors,
+      ClipboardPaste,
+      Check
     };
     return iconMap[iconName as keyof typeof iconMap] || FileText;
   };
@@ -188,6 +281,58 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
 
         const IconComponent = item.icon ? getIconComponent(item.icon) : null;
 
+        if (item.children) {
+          const isOpen = openSubmenuId === item.id;
+          return (
+            <div
+              key={item.id}
+              className="relative"
+              onMouseEnter={() => setOpenSubmenuId(item.id)}
+              onMouseLeave={() => setOpenSubmenuId(null)}
+            >
+              <button
+                onClick={() => setOpenSubmenuId(isOpen ? null : item.id)}
+                className="w-full flex items-center px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                role="menuitem"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                aria-label={item.label}
+              >
+                {IconComponent && (
+                  <IconComponent className="w-4 h-4 mr-3 flex-shrink-0" />
+                )}
+                <span className="flex-1">{item.label}</span>
+                <ChevronRight className="w-4 h-4 ml-2" />
+              </button>
+              {isOpen && (
+                <div
+                  className="absolute left-full top-0 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1 min-w-48"
+                  role="menu"
+                  aria-label={item.label}
+                >
+                  {item.children.map(child => {
+                    const ChildIcon = child.icon ? getIconComponent(child.icon) : null;
+                    return (
+                      <button
+                        key={child.id}
+                        onClick={child.action}
+                        className="w-full flex items-center px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        role="menuitem"
+                        aria-label={child.label}
+                      >
+                        <span className="w-4 h-4 mr-3 flex-shrink-0">
+                          {ChildIcon && <ChildIcon className="w-4 h-4" />}
+                        </span>
+                        <span>{child.label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        }
+
         return (
           <button
             key={item.id}
@@ -16,7 +16,9 @@ import {
   Briefcase,
   Mail,
   CheckSquare,
-  StickyNote
+  StickyNote,
+  Trash2,
+  Brain
 } from 'lucide-react';
 import type { VNode } from '../../types';
 import { virtualFileSystem } from '../../services/virtualFileSystem';
@@ -54,7 +56,9 @@ const getIconComponent = (node: VNode) => {
     Briefcase,
     Mail,
     CheckSquare,
-    StickyNote
+    StickyNote,
+    Trash2,
+    Brain
   };
 
   const IconComponent = iconMap[iconName as keyof typeof iconMap] || File;
@@ -1,13 +1,15 @@
-import React from 'react';
+import React, { Suspense } from 'react';
 import { 
   FileText, 
-  Image as ImageIcon, 
   File, 
   Download,
   ExternalLink,
-  Copy
+  Copy,
+  Loader2
 } from 'lucide-react';
 import type { VNode } from '../../types';
+import { previewerRegistry } from '../../services/previewerRegistry';
+import { fileTransferService } from '../../services/fileTransferService';
 
 interface FilePreviewProps {
   file: VNode | null;
@@ -48,8 +50,9 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   };
 
   const handleDownload = () => {
-    if (file.content) {
-      const blob = new Blob([file.content], { type: 'text/plain' });
+    const data = file.binary ?? file.content;
+    if (data) {
+      const blob = new Blob([data], { type: fileTransferService.getMimeType(file) });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -62,6 +65,22 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   };
 
   const renderPreviewContent = () => {
+    const previewer = previewerRegistry.getPreviewer(file);
+    if (previewer) {
+      const Previewer = previewer.component;
+      return (
+        <Suspense
+          fallback={
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            </div>
+          }
+        >
+          <Previewer key={file.path} file={file} />
+        </Suspense>
+      );
+    }
+
     if (!file.content) {
       return (
         <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
@@ -95,38 +114,6 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           </div>
         );
 
-      case 'pdf':
-        return (
-          <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
-            <div className="text-center">
-              <FileText className="w-12 h-12 mx-auto mb-4" />
-              <p className="text-lg font-medium">PDF Preview</p>
-              <p className="text-sm mb-4">PDF preview not implemented yet</p>
-              <button
-                onClick={handleDownload}
-                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 
-                         transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                Download PDF
-              </button>
-            </div>
-          </div>
-        );
-
-      case 'jpg':
-      case 'jpeg':
-      case 'png':
-      case 'gif':
-        return (
-          <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
-            <div className="text-center">
-              <ImageIcon className="w-12 h-12 mx-auto mb-4" />
-              <p className="text-lg font-medium">Image Preview</p>
-              <p className="text-sm">Image preview not implemented yet</p>
-            </div>
-          </div>
-        );
-
       default:
         return (
           <div className="p-4 h-full overflow-auto">
@@ -159,27 +146,27 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
 
         <div className="flex items-center space-x-1">
           {file.content && (
-            <>
-              <button
-                onClick={handleCopyContent}
-                className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
-                         transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                title="Copy content"
-                aria-label="Copy file content to clipboard"
-              >
-                <Copy className="w-4 h-4 text-gray-500 dark:text-gray-400" />
-              </button>
+            <button
+              onClick={handleCopyContent}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+                       transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Copy content"
+              aria-label="Copy file content to clipboard"
+            >
+              <Copy className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+            </button>
+          )}
 
-              <button
-                onClick={handleDownload}
-                className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
-                         transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                title="Download file"
-                aria-label="Download file"
-              >
-                <Download className="w-4 h-4 text-gray-500 dark:text-gray-400" />
-              </button>
-            </>
+          {(file.content || file.binary) && (
+            <button
+              onClick={handleDownload}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+                       transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Download file"
+              aria-label="Download file"
+            >
+              <Download className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+            </button>
           )}
 
           <button
@@ -6,7 +6,10 @@ import {
   RotateCcw,
   List,
   Grid3X3,
-
+  FolderPlus,
+  FilePlus,
+  ClipboardPaste,
+  Upload
 } from 'lucide-react';
 
 interface NavigationToolbarProps {
@@ -21,6 +24,11 @@ interface NavigationToolbarProps {
   onRefresh: () => void;
   onViewModeChange: (mode: 'list' | 'grid') => void;
   onSortChange: (sort: 'name' | 'type' | 'modified') => void;
+  onNewFolder?: () => void;
+  onNewFile?: () => void;
+  onPaste?: () => void;
+  canPaste?: boolean;
+  onUpload?: () => void;
   className?: string;
 }
 
@@ -39,6 +47,11 @@ export const NavigationToolbar: React.FC<NavigationToolbarProps> = ({
   onRefresh,
   onViewModeChange,
   onSortChange,
+  onNewFolder,
+  onNewFile,
+  onPaste,
+  canPaste = false,
+  onUpload,
   className = ''
 }) => {
   return (
@@ -108,6 +121,68 @@ export const NavigationToolbar: React.FC<NavigationToolbarProps> = ({
         >
           <RotateCcw className="w-4 h-4" />
         </button>
+
+        {(onNewFolder || onNewFile || onPaste || onUpload) && (
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-2" />
+        )}
+
+        {onNewFolder && (
+          <button
+            onClick={onNewFolder}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500
+                     text-gray-700 dark:text-gray-300"
+            title="New folder"
+            aria-label="Create new folder"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </button>
+        )}
+
+        {onNewFile && (
+          <button
+            onClick={onNewFile}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500
+                     text-gray-700 dark:text-gray-300"
+            title="New file"
+            aria-label="Create new file"
+          >
+            <FilePlus className="w-4 h-4" />
+          </button>
+        )}
+
+        {onPaste && (
+          <button
+            onClick={onPaste}
+            disabled={!canPaste}
+            className={`
+              p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+              transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500
+              ${!canPaste 
+                ? 'text-gray-400 dark:text-gray-600 cursor-not-allowed' 
+                : 'text-gray-700 dark:text-gray-300'
+              }
+            `}
+            title="Paste"
+            aria-label="Paste into current folder"
+          >
+            <ClipboardPaste className="w-4 h-4" />
+          </button>
+        )}
+
+        {onUpload && (
+          <button
+            onClick={onUpload}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500
+                     text-gray-700 dark:text-gray-300"
+            title="Upload files"
+            aria-label="Upload files from your computer"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+        )}
       </div>
 
       {/* View and sort options */}
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import type { VNode } from '../../types';
+import { pathUtils } from '../../utils/pathUtils';
+
+interface RenameDialogProps {
+  file: VNode;
+  error?: string | null;
+  onRename: (file: VNode, newName: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Dialog for renaming a file or folder
+ */
+export const RenameDialog: React.FC<RenameDialogProps> = ({
+  file,
+  error,
+  onRename,
+  onClose,
+  className = ''
+}) => {
+  const [name, setName] = useState(file.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const validationError = pathUtils.validateName(name);
+
+  // Select the name without its extension, like a desktop file manager
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    input.focus();
+    const { stem } = file.type === 'file'
+      ? pathUtils.splitExtension(file.name)
+      : { stem: file.name };
+    input.setSelectionRange(0, stem.length);
+  }, [file]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (validationError) return;
+    if (name === file.name) {
+      onClose();
+      return;
+    }
+    onRename(file, name);
+  };
+
+  const handleBackdropClick = (event: React.MouseEvent) => {
+    if (event.target === event.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const message = error || (name !== file.name ? validationError : null);
+
+  return (
+    <div
+      className={`fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 ${className}`}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="rename-dialog-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-sm w-full mx-4 overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 id="rename-dialog-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Rename
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Close rename dialog"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2">
+          <label htmlFor="rename-input" className="block text-sm text-gray-600 dark:text-gray-400">
+            New name for {file.type === 'folder' ? 'folder' : 'file'} "{file.name}"
+          </label>
+          <input
+            id="rename-input"
+            ref={inputRef}
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded
+                     bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                     focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-invalid={!!message}
+            aria-describedby={message ? 'rename-error' : undefined}
+          />
+          {message && (
+            <p id="rename-error" className="text-sm text-red-600 dark:text-red-400" role="alert">
+              {message}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!!validationError}
+            className="px-4 py-2 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50
+                     transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Rename
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -72,7 +72,7 @@ describe('ContextMenu', () => {
     expect(screen.getByText('Properties')).toBeInTheDocument();
   });
 
-  it('should disable preview and download for folders', () => {
+  it('should disable preview but offer a ZIP download for folders', () => {
     render(
       <ContextMenu
         file={testFolder}
@@ -88,10 +88,10 @@ describe('ContextMenu', () => {
     );
 
     const previewButton = screen.getByText('Preview').closest('button');
-    const downloadButton = screen.getByText('Download').closest('button');
+    const downloadButton = screen.getByText('Download as ZIP').closest('button');
 
     expect(previewButton).toBeDisabled();
-    expect(downloadButton).toBeDisabled();
+    expect(downloadButton).not.toBeDisabled();
   });
 
   it('should disable preview and download for files without content', () => {
@@ -324,4 +324,37 @@ describe('ContextMenu', () => {
       expect(item).toHaveAttribute('aria-label');
     });
   });
+
+  it('should offer an Open with submenu for files', () => {
+    const mockOnOpenWith = vi.fn();
+
+    render(
+      <ContextMenu
+        file={testFile}
+        x={100}
+        y={100}
+        onClose={mockOnClose}
+        onPreview={mockOnPreview}
+        onOpen={mockOnOpen}
+        openWithApps={[
+          { appId: 'notepad', name: 'Notepad', icon: 'FileText', isDefault: true },
+          { appId: 'file-explorer', name: 'File Explorer', icon: 'Folder', isDefault: false }
+        ]}
+        onOpenWith={mockOnOpenWith}
+        onCopy={mockOnCopy}
+        onDownload={mockOnDownload}
+        onShowInfo={mockOnShowInfo}
+      />
+    );
+
+    const openWith = screen.getByRole('menuitem', { name: 'Open with…' });
+    expect(openWith).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(openWith);
+    fireEvent.click(screen.getByRole('menuitem', { name: 'File Explorer' }));
+
+    expect(screen.getByRole('menuitem', { name: 'Notepad (default)' })).toBeInTheDocument();
+    expect(mockOnOpenWith).toHaveBeenCalledWith(testFile, 'file-explorer');
+    expect(mockOnClose).toHaveBeenCalled();
+  });
 });
\ No newline at end of file
@@ -1,8 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { FilePreview } from '../FilePreview';
+import { previewerRegistry } from '../../../services/previewerRegistry';
 import type { VNode } from '../../../types';
 
+// Mock PDF.js
+vi.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: { workerSrc: '' },
+  getDocument: vi.fn(() => ({
+    promise: Promise.resolve({
+      numPages: 3,
+      getPage: vi.fn(() => new Promise(() => {})),
+      destroy: vi.fn(),
+    }),
+  })),
+  version: '3.0.0',
+}));
+
 // Mock clipboard API
 Object.assign(navigator, {
   clipboard: {
@@ -60,7 +74,7 @@ describe('FilePreview', () => {
     expect(screen.getByText('This is plain text content.')).toBeInTheDocument();
   });
 
-  it('should render PDF file preview with download option', () => {
+  it('should render PDF files with page navigation', async () => {
     const pdfFile: VNode = {
       name: 'test.pdf',
       type: 'file',
@@ -68,14 +82,102 @@ describe('FilePreview', () => {
       ext: 'pdf',
       size: 2048000,
       modified: new Date('2024-01-01'),
-      content: 'PDF content placeholder'
+      binary: new Uint8Array([0x25, 0x50, 0x44, 0x46]).buffer
     };
 
     render(<FilePreview file={pdfFile} onClose={mockOnClose} />);
     
     expect(screen.getByText('test.pdf')).toBeInTheDocument();
-    expect(screen.getByText('PDF Preview')).toBeInTheDocument();
-    expect(screen.getByText('Download PDF')).toBeInTheDocument();
+    expect(await screen.findByText('1 / 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Next page'));
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+  });
+
+  it('should render images with zoom controls', async () => {
+    const imageFile: VNode = {
+      name: 'photo.png',
+      type: 'file',
+      path: '/photo.png',
+      ext: 'png',
+      url: '/photo.png'
+    };
+
+    render(<FilePreview file={imageFile} onClose={mockOnClose} />);
+
+    expect(await screen.findByAltText('photo.png')).toHaveAttribute('src', '/photo.png');
+    fireEvent.click(screen.getByLabelText('Zoom in'));
+    expect(screen.getByTestId('image-zoom-level')).toHaveTextContent('125%');
+    fireEvent.click(screen.getByLabelText('Reset zoom'));
+    expect(screen.getByTestId('image-zoom-level')).toHaveTextContent('100%');
+  });
+
+  it('should render JSON and CSV files as tables', async () => {
+    const jsonFile: VNode = {
+      name: 'people.json',
+      type: 'file',
+      path: '/people.json',
+      ext: 'json',
+      content: '[{"name": "Ada", "age": 36}, {"name": "Alan", "langs": ["en"]}]'
+    };
+
+    const { unmount } = render(<FilePreview file={jsonFile} onClose={mockOnClose} />);
+
+    expect(await screen.findByRole('columnheader', { name: 'langs' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Ada' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: '["en"]' })).toBeInTheDocument();
+    unmount();
+
+    const csvFile: VNode = {
+      name: 'scores.csv',
+      type: 'file',
+      path: '/scores.csv',
+      ext: 'csv',
+      content: 'team,score\n"Red, Inc.",3\nBlue,"5"\n'
+    };
+
+    render(<FilePreview file={csvFile} onClose={mockOnClose} />);
+
+    expect(await screen.findByRole('columnheader', { name: 'score' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Red, Inc.' })).toBeInTheDocument();
+    expect(screen.getAllByRole('row')).toHaveLength(3);
+  });
+
+  it('should show invalid JSON as text with an error', async () => {
+    const jsonFile: VNode = {
+      name: 'broken.json',
+      type: 'file',
+      path: '/broken.json',
+      ext: 'json',
+      content: '{ not json'
+    };
+
+    render(<FilePreview file={jsonFile} onClose={mockOnClose} />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid JSON');
+    expect(screen.getByText('{ not json')).toBeInTheDocument();
+  });
+
+  it('should use previewers registered by other apps', () => {
+    const unregister = previewerRegistry.register({
+      id: 'test-markdown',
+      name: 'Test markdown',
+      extensions: ['md'],
+      component: ({ file }) => <p>Custom preview of {file.name}</p>,
+    });
+
+    const markdownFile: VNode = {
+      name: 'notes.md',
+      type: 'file',
+      path: '/notes.md',
+      ext: 'md',
+      content: '# Notes'
+    };
+
+    render(<FilePreview file={markdownFile} onClose={mockOnClose} />);
+    unregister();
+
+    expect(screen.getByText('Custom preview of notes.md')).toBeInTheDocument();
   });
 
   it('should render image file preview placeholder', () => {
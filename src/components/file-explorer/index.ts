@@ -3,4 +3,5 @@ export { NavigationToolbar } from './NavigationToolbar';
 export { FileList } from './FileList';
 export { FilePreview } from './FilePreview';
 export { ContextMenu } from './ContextMenu';
-export { FileInfoModal } from './FileInfoModal';
\ No newline at end of file
+export { FileInfoModal } from './FileInfoModal';
+export { RenameDialog } from './RenameDialog';
\ No newline at end of file
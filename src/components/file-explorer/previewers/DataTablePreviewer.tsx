@@ -0,0 +1,156 @@
+import React, { useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { PreviewerProps } from '../../../types';
+
+const MAX_ROWS = 500;
+
+type Cell = string | number | boolean | null | undefined | object;
+
+interface TableData {
+  columns: string[];
+  rows: Cell[][];
+}
+
+/**
+ * Split delimited text into rows, honouring quoted fields and escaped quotes
+ */
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+};
+
+const fromDelimited = (text: string, delimiter: string): TableData => {
+  const [header = [], ...rows] = parseDelimited(text, delimiter);
+  return { columns: header, rows };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fromJson = (value: unknown): TableData => {
+  if (Array.isArray(value) && value.every(isRecord)) {
+    const columns = [...new Set(value.flatMap(item => Object.keys(item)))];
+    return { columns, rows: value.map(item => columns.map(column => item[column] as Cell)) };
+  }
+  if (Array.isArray(value)) {
+    return { columns: ['#', 'Value'], rows: value.map((item, index) => [index, item as Cell]) };
+  }
+  if (isRecord(value)) {
+    return { columns: ['Key', 'Value'], rows: Object.entries(value).map(([key, item]) => [key, item as Cell]) };
+  }
+  return { columns: ['Value'], rows: [[value as Cell]] };
+};
+
+const formatCell = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return '';
+  return typeof cell === 'object' ? JSON.stringify(cell) : String(cell);
+};
+
+/**
+ * JSON and CSV previewer rendering the data as a table
+ */
+const DataTablePreviewer: React.FC<PreviewerProps> = ({ file }) => {
+  const result = useMemo((): { table: TableData } | { error: string } => {
+    const content = file.content ?? '';
+    if (file.ext === 'csv' || file.mimeType === 'text/csv') {
+      return { table: fromDelimited(content, ',') };
+    }
+    if (file.ext === 'tsv' || file.mimeType === 'text/tab-separated-values') {
+      return { table: fromDelimited(content, '\t') };
+    }
+    try {
+      return { table: fromJson(JSON.parse(content)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [file.content, file.ext, file.mimeType]);
+
+  if ('error' in result) {
+    return (
+      <div className="p-4 h-full overflow-auto">
+        <div className="flex items-center gap-2 mb-3 text-sm text-red-600 dark:text-red-400" role="alert">
+          <AlertCircle className="w-4 h-4" />
+          Invalid JSON: {result.error}
+        </div>
+        <pre className="whitespace-pre-wrap font-mono text-sm text-gray-800 dark:text-gray-200">
+          {file.content}
+        </pre>
+      </div>
+    );
+  }
+
+  const { columns, rows } = result.table;
+  const visibleRows = rows.slice(0, MAX_ROWS);
+
+  return (
+    <div className="h-full overflow-auto">
+      <table className="min-w-full text-xs font-mono" aria-label={`Contents of ${file.name}`}>
+        <thead className="sticky top-0 bg-gray-100 dark:bg-gray-800 text-left text-gray-700 dark:text-gray-300">
+          <tr>
+            {columns.map((column, index) => (
+              <th key={index} className="px-2 py-1 font-semibold border-b border-gray-200 dark:border-gray-700">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="odd:bg-white even:bg-gray-50 dark:odd:bg-gray-900 dark:even:bg-gray-800/50">
+              {columns.map((_, columnIndex) => (
+                <td
+                  key={columnIndex}
+                  className="px-2 py-1 align-top text-gray-800 dark:text-gray-200 border-b border-gray-100 dark:border-gray-800"
+                >
+                  {formatCell(row[columnIndex])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > MAX_ROWS && (
+        <p className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+          Showing the first {MAX_ROWS} of {rows.length} rows
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DataTablePreviewer;
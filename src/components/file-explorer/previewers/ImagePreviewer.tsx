@@ -0,0 +1,117 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import type { PreviewerProps } from '../../../types';
+import { useFileObjectUrl } from '../../../hooks/useFileObjectUrl';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 8;
+const ZOOM_STEP = 1.25;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Image previewer with wheel and button zoom and drag to pan
+ */
+const ImagePreviewer: React.FC<PreviewerProps> = ({ file }) => {
+  const src = useFileObjectUrl(file);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [error, setError] = useState(false);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const zoomBy = useCallback((factor: number) => {
+    setScale(prev => clampScale(prev * factor));
+  }, []);
+
+  const resetView = useCallback(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, ...offset };
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setOffset({ x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === '+' || e.key === '=') zoomBy(ZOOM_STEP);
+    if (e.key === '-') zoomBy(1 / ZOOM_STEP);
+    if (e.key === '0') resetView();
+  };
+
+  if (!src || error) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">
+        {error ? 'This image could not be displayed' : 'Loading image...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-end gap-1 px-2 py-1 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        </button>
+        <span className="w-12 text-center text-xs text-gray-600 dark:text-gray-400" data-testid="image-zoom-level">
+          {Math.round(scale * 100)}%
+        </span>
+        <button
+          onClick={() => zoomBy(ZOOM_STEP)}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        </button>
+        <button
+          onClick={resetView}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Reset zoom"
+        >
+          <Maximize className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <div
+        className="flex-1 flex items-center justify-center overflow-hidden bg-gray-100 dark:bg-gray-950 cursor-grab active:cursor-grabbing focus:outline-none"
+        tabIndex={0}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onDoubleClick={resetView}
+      >
+        <img
+          src={src}
+          alt={file.name}
+          draggable={false}
+          onError={() => setError(true)}
+          className="max-w-full max-h-full select-none"
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreviewer;
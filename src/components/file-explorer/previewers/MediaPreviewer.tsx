@@ -0,0 +1,42 @@
+import React from 'react';
+import { Music } from 'lucide-react';
+import type { PreviewerProps } from '../../../types';
+import { useFileObjectUrl } from '../../../hooks/useFileObjectUrl';
+import { fileTransferService } from '../../../services/fileTransferService';
+
+/**
+ * Audio and video previewer using the browser's native controls
+ */
+const MediaPreviewer: React.FC<PreviewerProps> = ({ file }) => {
+  const src = useFileObjectUrl(file);
+  const mimeType = fileTransferService.getMimeType(file);
+
+  if (!src) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">
+        Loading media...
+      </div>
+    );
+  }
+
+  if (mimeType.startsWith('audio/')) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-4 p-4">
+        <Music className="w-12 h-12 text-gray-400" />
+        <audio src={src} controls className="w-full" aria-label={file.name}>
+          Your browser does not support audio playback.
+        </audio>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center h-full bg-black">
+      <video src={src} controls className="max-w-full max-h-full" aria-label={file.name}>
+        Your browser does not support video playback.
+      </video>
+    </div>
+  );
+};
+
+export default MediaPreviewer;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Loader2, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { PreviewerProps } from '../../../types';
+
+// Configure PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+
+/**
+ * PDF previewer rendering one page at a time to a canvas with PDF.js
+ */
+const PdfPreviewer: React.FC<PreviewerProps> = ({ file }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [scale, setScale] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the document whenever the file's bytes change
+  useEffect(() => {
+    // PDF.js takes ownership of the buffer it is given, so pass a copy
+    const source = file.binary ? { data: new Uint8Array(file.binary.slice(0)) } : file.url;
+    if (!source) return;
+
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setLoading(true);
+    setError(null);
+    setCurrentPage(1);
+
+    pdfjsLib.getDocument(source).promise
+      .then(document => {
+        loaded = document;
+        if (cancelled) {
+          document.destroy();
+          return;
+        }
+        setPdf(document);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Failed to load PDF:', err);
+        setError('This PDF could not be displayed.');
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTaskRef.current?.cancel();
+      loaded?.destroy();
+      setPdf(null);
+    };
+  }, [file.binary, file.url]);
+
+  const renderPage = useCallback(async () => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+
+    try {
+      renderTaskRef.current?.cancel();
+
+      const page = await pdf.getPage(currentPage);
+      const viewport = page.getViewport({ scale });
+      const context = canvas.getContext('2d', { alpha: false });
+      if (!context) return;
+
+      canvas.height = viewport.height;
+      canvas.width = viewport.width;
+
+      renderTaskRef.current = page.render({ canvasContext: context, viewport, canvas });
+      await renderTaskRef.current.promise;
+      renderTaskRef.current = null;
+      page.cleanup();
+    } catch (err) {
+      if ((err as Error).name !== 'RenderingCancelledException') {
+        console.error('Error rendering page:', err);
+      }
+    }
+  }, [pdf, currentPage, scale]);
+
+  useEffect(() => {
+    renderPage();
+  }, [renderPage]);
+
+  const totalPages = pdf?.numPages ?? 0;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-600 dark:text-gray-400">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-500 mr-2" />
+        <span className="text-sm">Loading PDF...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-600 dark:text-gray-400" role="alert">
+        <AlertCircle className="w-6 h-6 text-red-500 mr-2" />
+        <span className="text-sm">{error}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setCurrentPage(page => Math.max(1, page - 1))}
+            disabled={currentPage <= 1}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          </button>
+          <span className="text-xs text-gray-600 dark:text-gray-400">
+            {currentPage} / {totalPages}
+          </span>
+          <button
+            onClick={() => setCurrentPage(page => Math.min(totalPages, page + 1))}
+            disabled={currentPage >= totalPages}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setScale(prev => Math.max(MIN_SCALE, prev - 0.2))}
+            disabled={scale <= MIN_SCALE}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          </button>
+          <span className="w-12 text-center text-xs text-gray-600 dark:text-gray-400">
+            {Math.round(scale * 100)}%
+          </span>
+          <button
+            onClick={() => setScale(prev => Math.min(MAX_SCALE, prev + 0.2))}
+            disabled={scale >= MAX_SCALE}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 flex justify-center bg-gray-100 dark:bg-gray-950">
+        <canvas ref={canvasRef} className="shadow bg-white" aria-label={`Page ${currentPage} of ${file.name}`} />
+      </div>
+    </div>
+  );
+};
+
+export default PdfPreviewer;
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { ansi, type AnsiColor, type AnsiLinkDetectors, type AnsiSegment } from '../../utils/ansi';
+
+interface AnsiTextProps {
+  text: string;
+  links?: AnsiLinkDetectors; // Turns paths and project slugs in plain text into links
+  onOpenLink?: (href: string) => void;
+  className?: string;
+}
+
+// The 16-color palette: normal colors, then bright ones
+const FOREGROUND_CLASSES = [
+  'text-gray-900', 'text-red-400', 'text-green-400', 'text-yellow-400',
+  'text-blue-400', 'text-purple-400', 'text-cyan-400', 'text-gray-300',
+  'text-gray-500', 'text-red-300', 'text-green-300', 'text-yellow-300',
+  'text-blue-300', 'text-purple-300', 'text-cyan-300', 'text-white',
+];
+
+const BACKGROUND_CLASSES = [
+  'bg-gray-900', 'bg-red-700', 'bg-green-700', 'bg-yellow-600',
+  'bg-blue-700', 'bg-purple-700', 'bg-cyan-700', 'bg-gray-300',
+  'bg-gray-600', 'bg-red-500', 'bg-green-500', 'bg-yellow-400',
+  'bg-blue-500', 'bg-purple-500', 'bg-cyan-500', 'bg-white',
+];
+
+// Inverse video swaps the colors, using the terminal's own when unset
+const DEFAULT_FOREGROUND = 7;
+const DEFAULT_BACKGROUND = 0;
+
+const colorProps = (color: AnsiColor | undefined, classes: string[], property: 'color' | 'backgroundColor') => {
+  if (color === undefined) return { className: '', style: {} };
+  if (typeof color === 'number') return { className: classes[color] ?? '', style: {} };
+  return { className: '', style: { [property]: color } };
+};
+
+const renderSegment = (segment: AnsiSegment, index: number, onOpenLink?: (href: string) => void) => {
+  const { style } = segment;
+  const foreground = style.inverse ? style.background ?? DEFAULT_BACKGROUND : style.foreground;
+  const background = style.inverse ? style.foreground ?? DEFAULT_FOREGROUND : style.background;
+  const color = colorProps(foreground, FOREGROUND_CLASSES, 'color');
+  const fill = colorProps(background, BACKGROUND_CLASSES, 'backgroundColor');
+
+  const className = [
+    color.className,
+    fill.className,
+    style.bold && 'font-bold',
+    style.dim && 'opacity-60',
+    style.italic && 'italic',
+    style.underline && 'underline',
+    style.strikethrough && 'line-through',
+  ].filter(Boolean).join(' ');
+  const inlineStyle = { ...color.style, ...fill.style };
+
+  // Links the OS cannot follow render as plain text
+  const link = segment.href ? ansi.parseLink(segment.href) : null;
+  if (link && segment.href) {
+    const href = segment.href;
+    return (
+      <a
+        key={index}
+        href={link.type === 'url' ? link.url : href}
+        target={link.type === 'url' ? '_blank' : undefined}
+        rel={link.type === 'url' ? 'noopener noreferrer' : undefined}
+        className={`${className} underline decoration-dotted underline-offset-2 hover:decoration-solid cursor-pointer`}
+        style={inlineStyle}
+        onClick={(event) => {
+          if (!onOpenLink) return;
+          event.preventDefault();
+          onOpenLink(href);
+        }}
+      >
+        {segment.text}
+      </a>
+    );
+  }
+
+  if (!className && Object.keys(inlineStyle).length === 0) {
+    return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+  }
+  return (
+    <span key={index} className={className} style={inlineStyle}>
+      {segment.text}
+    </span>
+  );
+};
+
+/**
+ * Renders Terminal output with ANSI colors, styles and OSC 8 links
+ */
+export const AnsiText: React.FC<AnsiTextProps> = React.memo(({
+  text,
+  links,
+  onOpenLink,
+  className = ''
+}) => {
+  const segments = useMemo(() => {
+    const parsed = ansi.parse(text);
+    return links ? ansi.linkify(parsed, links) : parsed;
+  }, [text, links]);
+
+  return (
+    <pre className={`whitespace-pre-wrap ${className}`}>
+      {segments.map((segment, index) => renderSegment(segment, index, onOpenLink))}
+    </pre>
+  );
+});
+
+AnsiText.displayName = 'AnsiText';
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AnsiText } from '../AnsiText';
+import { ansi } from '../../../utils/ansi';
+
+describe('AnsiText', () => {
+  it('should render colors and styles as classes', () => {
+    render(<AnsiText text={`ok ${ansi.bold(ansi.color('green', 'passed'))} \x1b[38;2;255;0;0mrgb\x1b[0m`} />);
+
+    expect(screen.getByText('passed')).toHaveClass('font-bold', 'text-green-400');
+    expect(screen.getByText('rgb')).toHaveStyle({ color: '#ff0000' });
+    expect(screen.getByText(/^ok/).textContent).toBe('ok passed rgb');
+  });
+
+  it('should open OS links through the handler', () => {
+    const onOpenLink = vi.fn();
+    render(<AnsiText text={`open ${ansi.fileLink('/Documents/a.txt', 'a.txt')}`} onOpenLink={onOpenLink} />);
+
+    fireEvent.click(screen.getByRole('link', { name: 'a.txt' }));
+
+    expect(onOpenLink).toHaveBeenCalledWith('file:///Documents/a.txt');
+  });
+
+  it('should open web links in a new tab and ignore unknown schemes', () => {
+    render(<AnsiText text={`${ansi.link('https://example.com', 'site')} ${ansi.link('javascript:alert(1)', 'bad')}`} />);
+
+    expect(screen.getByRole('link', { name: 'site' })).toHaveAttribute('target', '_blank');
+    expect(screen.queryByRole('link', { name: 'bad' })).toBeNull();
+  });
+
+  it('should link paths and slugs found by the detectors', () => {
+    const links = { resolvePath: () => null, isProjectSlug: (word: string) => word === 'weather' };
+    render(<AnsiText text="see weather app" links={links} />);
+
+    expect(screen.getByRole('link', { name: 'weather' })).toHaveAttribute('href', 'project:weather');
+  });
+});
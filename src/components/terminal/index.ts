@@ -0,0 +1 @@
+export { AnsiText } from './AnsiText';
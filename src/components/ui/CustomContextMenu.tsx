@@ -11,6 +11,11 @@ import {
   Copy,
   Scissors,
   ClipboardPaste,
+  ExternalLink,
+  Pin,
+  PinOff,
+  Move,
+  Scaling,
 } from 'lucide-react';
 
 interface ContextMenuItem {
@@ -241,6 +246,8 @@ interface WindowContextMenuProps {
     minimized: boolean;
     maximized: boolean;
     focused: boolean;
+    tabbed?: boolean; // The window is a tab of a tabbed frame
+    alwaysOnTop?: boolean;
   };
 }
 
@@ -258,6 +265,30 @@ export const WindowContextMenu: React.FC<WindowContextMenuProps> = ({ x, y, onCl
       icon: <Monitor className="w-4 h-4" />,
       action: () => onAction('minimize'),
     },
+    {
+      id: 'move',
+      label: 'Move',
+      icon: <Move className="w-4 h-4" />,
+      action: () => onAction('move'),
+    },
+    {
+      id: 'size',
+      label: 'Size',
+      icon: <Scaling className="w-4 h-4" />,
+      action: () => onAction('size'),
+    },
+    {
+      id: 'always-on-top',
+      label: windowState.alwaysOnTop ? 'Stop Keeping on Top' : 'Always on Top',
+      icon: windowState.alwaysOnTop ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />,
+      action: () => onAction('always-on-top'),
+    },
+    ...(windowState.tabbed ? [{
+      id: 'detach-tab',
+      label: 'Move Tab to New Window',
+      icon: <ExternalLink className="w-4 h-4" />,
+      action: () => onAction('detach-tab'),
+    }] : []),
     { id: 'sep1', separator: true },
     {
       id: 'close',
@@ -2,10 +2,27 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useWindowStore } from '../../store/windowStore';
 import { usePreferencesStore } from '../../store/preferencesStore';
+import { SNAP_AREAS, windowUtils } from '../../utils';
+import type { SnapState } from '../../types';
+
+const SNAP_LABELS: Record<SnapState, string> = {
+  'left': 'Snap Left',
+  'right': 'Snap Right',
+  'top-left': 'Snap Top Left',
+  'top-right': 'Snap Top Right',
+  'bottom-left': 'Snap Bottom Left',
+  'bottom-right': 'Snap Bottom Right',
+  'left-third': 'Snap Left Third',
+  'center-third': 'Snap Center Third',
+  'right-third': 'Snap Right Third',
+  'left-two-thirds': 'Snap Left Two Thirds',
+  'right-two-thirds': 'Snap Right Two Thirds',
+  'maximized': 'Maximize',
+};
 
 /**
  * Visual snap zone overlay that shows when dragging windows
- * Provides visual feedback for snap areas (left/right/maximized)
+ * Provides visual feedback for snap areas (halves, quarters and maximized)
  */
 export const SnapPreviewOverlay: React.FC = () => {
   const { dragState, windows } = useWindowStore();
@@ -23,40 +40,8 @@ export const SnapPreviewOverlay: React.FC = () => {
   if (!snapState) return null;
 
   // Calculate snap zone bounds
-  const getSnapBounds = () => {
-    const taskbarHeight = 48;
-    const viewportWidth = globalThis.window.innerWidth;
-    const viewportHeight = globalThis.window.innerHeight - taskbarHeight;
-
-    switch (snapState) {
-      case 'left':
-        return {
-          x: 0,
-          y: 0,
-          width: viewportWidth / 2,
-          height: viewportHeight,
-        };
-      case 'right':
-        return {
-          x: viewportWidth / 2,
-          y: 0,
-          width: viewportWidth / 2,
-          height: viewportHeight,
-        };
-      case 'maximized':
-        return {
-          x: 0,
-          y: 0,
-          width: viewportWidth,
-          height: viewportHeight,
-        };
-      default:
-        return null;
-    }
-  };
-
-  const bounds = getSnapBounds();
-  if (!bounds) return null;
+  const snapBounds = windowUtils.getSnapBounds(snapState, globalThis.window.innerWidth, globalThis.window.innerHeight);
+  const bounds = { x: snapBounds.x, y: snapBounds.y, width: snapBounds.w, height: snapBounds.h };
 
   return (
     <AnimatePresence>
@@ -105,9 +90,7 @@ export const SnapPreviewOverlay: React.FC = () => {
           <div className="flex items-center gap-2">
             <SnapIcon type={snapState} />
             <span className="font-medium text-lg">
-              {snapState === 'left' && 'Snap Left'}
-              {snapState === 'right' && 'Snap Right'}
-              {snapState === 'maximized' && 'Maximize'}
+              {SNAP_LABELS[snapState]}
             </span>
           </div>
         </div>
@@ -140,19 +123,19 @@ export const SnapPreviewOverlay: React.FC = () => {
   );
 };
 
-// Icon component for different snap types
-const SnapIcon: React.FC<{ type: string }> = ({ type }) => {
+// Icon component for different snap types: the snap area inside the desktop
+const SnapIcon: React.FC<{ type: SnapState }> = ({ type }) => {
+  const [left, top, right, bottom] = SNAP_AREAS[type];
   return (
     <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
-      {type === 'left' && (
-        <path d="M3 3h8v18H3V3zm10 0h8v18h-8V3z" opacity="0.3" />
-      )}
-      {type === 'right' && (
-        <path d="M3 3h8v18H3V3zm10 0h8v18h-8V3z" opacity="0.3" transform="translate(11, 0)" />
-      )}
-      {type === 'maximized' && (
-        <rect x="2" y="2" width="20" height="20" rx="2" />
-      )}
+      <rect x="2" y="2" width="20" height="20" rx="2" opacity="0.3" />
+      <rect
+        x={2 + left * 20}
+        y={2 + top * 20}
+        width={(right - left) * 20}
+        height={(bottom - top) * 20}
+        rx="1"
+      />
     </svg>
   );
 };
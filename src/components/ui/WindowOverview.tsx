@@ -0,0 +1,390 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Search, X } from 'lucide-react';
+import type { SnapState, WindowState } from '../../types';
+import { getWorkspaceName, isBackgroundTab, isWindowOnWorkspace, useWindowStore } from '../../store/windowStore';
+import { usePreferencesStore } from '../../store/preferencesStore';
+import { useCloseConfirmation } from '../../hooks/useCloseConfirmation';
+import { useResponsive } from '../../hooks/useResponsive';
+import { appRegistry } from '../../services/appRegistry';
+import { windowThumbnailService } from '../../services/windowThumbnailService';
+import { windowUtils } from '../../utils';
+import { WINDOW_DRAG_TYPE } from '../desktop/WorkspaceSwitcher';
+import { ConfirmDialog } from './ConfirmDialog';
+
+const TASKBAR_HEIGHT = 48;
+const HEADER_HEIGHT = 112; // Filter field and workspace strip
+const PADDING = 32;
+
+// The pointer rests this long in the hot corner before the overview opens
+const HOT_CORNER_DELAY = 200;
+
+// Where a thumbnail can be dropped to snap its window
+const SNAP_TARGETS: Array<{ zone: SnapState; label: string; className: string }> = [
+  { zone: 'maximized', label: 'Maximize', className: 'top-0 left-24 right-24 h-12' },
+  { zone: 'left', label: 'Left half', className: 'left-0 top-24 bottom-24 w-12' },
+  { zone: 'right', label: 'Right half', className: 'right-0 top-24 bottom-24 w-12' },
+  { zone: 'top-left', label: 'Top left', className: 'top-0 left-0 w-24 h-24' },
+  { zone: 'top-right', label: 'Top right', className: 'top-0 right-0 w-24 h-24' },
+  { zone: 'bottom-left', label: 'Bottom left', className: 'bottom-0 left-0 w-24 h-24' },
+  { zone: 'bottom-right', label: 'Bottom right', className: 'bottom-0 right-0 w-24 h-24' },
+];
+
+/**
+ * The size a window takes up on the desktop
+ */
+const getDisplayedSize = (window: WindowState) => window.maximized
+  ? { w: globalThis.window.innerWidth, h: globalThis.window.innerHeight - TASKBAR_HEIGHT }
+  : { w: window.bounds.w, h: window.bounds.h };
+
+/**
+ * A scaled down copy of a window that follows changes to it while shown
+ */
+const LiveThumbnail: React.FC<{ window: WindowState; width: number }> = ({ window, width }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [captured, setCaptured] = useState(false);
+  const size = getDisplayedSize(window);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const copy = windowThumbnailService.capture(window.id);
+      container.replaceChildren(...(copy ? [copy] : []));
+      setCaptured(!!copy);
+    };
+    update();
+
+    // Changes inside the window are copied at most once a frame
+    const source = windowThumbnailService.getWindowElement(window.id);
+    if (!source) return;
+    const observer = new MutationObserver(() => {
+      if (!frame) frame = requestAnimationFrame(update);
+    });
+    observer.observe(source, { subtree: true, childList: true, characterData: true, attributes: true });
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+    };
+  }, [window.id, window.minimized]);
+
+  return (
+    <>
+      {!captured && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/90 text-4xl">
+          {appRegistry.getApp(window.appId)?.icon || '📄'}
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className="absolute top-0 left-0 origin-top-left pointer-events-none"
+        style={{ width: size.w, height: size.h, transform: `scale(${width / size.w})` }}
+      />
+    </>
+  );
+};
+
+/**
+ * Full screen view of every window on the workspace, side by side. Type to
+ * filter, pick one to focus it, close windows from their thumbnails and drag
+ * them onto a screen edge to snap them or onto a workspace to move them there.
+ * Opens with F3 or by resting the pointer in the top left corner.
+ */
+export const WindowOverview: React.FC = () => {
+  const {
+    windows,
+    zOrder,
+    tabGroups,
+    workspaces,
+    activeWorkspaceId,
+    dragState,
+    windowOverviewOpen,
+    focusWindow,
+    snapWindow,
+    switchWorkspace,
+    createWorkspace,
+    moveWindowToWorkspace,
+    setWindowOverviewOpen,
+  } = useWindowStore();
+  const { reduceMotion } = usePreferencesStore();
+  const { isMobile } = useResponsive();
+  const { confirmationState, requestClose, confirmClose, cancelClose } = useCloseConfirmation();
+  const [filter, setFilter] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const filterRef = useRef<HTMLInputElement>(null);
+  const hotCornerTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(hotCornerTimeoutRef.current), []);
+
+  // Minimized windows are snapshotted from the start, for when the overview opens
+  useEffect(() => windowThumbnailService.watch(), []);
+
+  useEffect(() => {
+    if (!windowOverviewOpen) {
+      setFilter('');
+      return;
+    }
+
+    const updateViewport = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    updateViewport();
+    window.addEventListener('resize', updateViewport);
+    return () => window.removeEventListener('resize', updateViewport);
+  }, [windowOverviewOpen]);
+
+  // The most recently used window comes first
+  const query = filter.trim().toLowerCase();
+  const overviewWindows = [...zOrder]
+    .reverse()
+    .map(id => windows[id])
+    .filter(window => window && isWindowOnWorkspace(window, activeWorkspaceId) && !isBackgroundTab(window, tabGroups))
+    .filter(window => !query ||
+      window.title.toLowerCase().includes(query) ||
+      (appRegistry.getApp(window.appId)?.name ?? window.appId).toLowerCase().includes(query)
+    );
+
+  const areaWidth = viewport.width - PADDING * 2;
+  const areaHeight = viewport.height - TASKBAR_HEIGHT - HEADER_HEIGHT - PADDING;
+  const layout = windowUtils.getOverviewLayout(overviewWindows.map(getDisplayedSize), areaWidth, areaHeight);
+
+  const pick = (windowId: string) => {
+    focusWindow(windowId);
+    setWindowOverviewOpen(false);
+  };
+
+  useEffect(() => {
+    if (!windowOverviewOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' || confirmationState.isOpen) return;
+      event.preventDefault();
+      if (filter) {
+        setFilter('');
+      } else {
+        setWindowOverviewOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [windowOverviewOpen, filter, confirmationState.isOpen, setWindowOverviewOpen]);
+
+  // Typing anywhere in the overview goes to the filter; Space still presses buttons
+  const handleOverviewKeyDown = (event: React.KeyboardEvent) => {
+    if (event.target === filterRef.current || event.key.length !== 1 || event.key === ' ' ||
+      event.ctrlKey || event.metaKey || event.altKey) return;
+    event.preventDefault();
+    setFilter(current => current + event.key);
+    filterRef.current?.focus();
+  };
+
+  const handleHotCornerEnter = (event: React.MouseEvent) => {
+    if (event.buttons !== 0 || dragState) return;
+    clearTimeout(hotCornerTimeoutRef.current);
+    hotCornerTimeoutRef.current = setTimeout(() => setWindowOverviewOpen(!useWindowStore.getState().windowOverviewOpen), HOT_CORNER_DELAY);
+  };
+
+  const getDraggedWindowId = (event: React.DragEvent) => event.dataTransfer.getData(WINDOW_DRAG_TYPE) || draggedId;
+
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    if (event.dataTransfer.types.includes(WINDOW_DRAG_TYPE)) {
+      event.preventDefault();
+      setDropTarget(target);
+    }
+  };
+
+  const handleSnapDrop = (event: React.DragEvent, zone: SnapState) => {
+    const windowId = getDraggedWindowId(event);
+    setDropTarget(null);
+    setDraggedId(null);
+    if (!windowId) return;
+    event.preventDefault();
+    snapWindow(windowId, zone);
+    pick(windowId);
+  };
+
+  const handleWorkspaceDrop = (event: React.DragEvent, workspaceId?: string) => {
+    const windowId = getDraggedWindowId(event);
+    setDropTarget(null);
+    setDraggedId(null);
+    if (!windowId) return;
+    event.preventDefault();
+    moveWindowToWorkspace(windowId, workspaceId ?? createWorkspace());
+  };
+
+  return (
+    <>
+      {!isMobile && (
+        <div
+          className="fixed top-0 left-0 w-1 h-1 z-[9001]"
+          onMouseEnter={handleHotCornerEnter}
+          onMouseLeave={() => clearTimeout(hotCornerTimeoutRef.current)}
+          aria-hidden="true"
+        />
+      )}
+
+      <AnimatePresence>
+        {windowOverviewOpen && (
+          <motion.div
+            className="fixed inset-0 z-[9000] bg-black/60 backdrop-blur-md"
+            style={{ bottom: TASKBAR_HEIGHT }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: reduceMotion ? 0 : 0.15 }}
+            onClick={() => setWindowOverviewOpen(false)}
+            onKeyDown={handleOverviewKeyDown}
+            role="dialog"
+            aria-modal="true"
+            aria-label="All windows"
+          >
+            <div
+              className="absolute inset-x-0 top-0 flex flex-col items-center gap-3 pt-6"
+              style={{ height: HEADER_HEIGHT }}
+              onClick={(event) => event.stopPropagation()}
+            >
+              <label className="flex items-center gap-2 w-80 px-3 py-1.5 rounded-full bg-white/15 text-white focus-within:bg-white/25">
+                <Search className="w-4 h-4 opacity-70" />
+                <input
+                  ref={filterRef}
+                  className="flex-1 min-w-0 bg-transparent text-sm placeholder-white/60 focus:outline-none"
+                  placeholder="Type to filter windows"
+                  aria-label="Filter windows"
+                  value={filter}
+                  autoFocus
+                  onChange={(event) => setFilter(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' && overviewWindows[0]) pick(overviewWindows[0].id);
+                  }}
+                />
+              </label>
+
+              <div className="flex items-center gap-2" role="list" aria-label="Workspaces">
+                {workspaces.map(workspace => (
+                  <button
+                    key={workspace.id}
+                    role="listitem"
+                    className={`px-3 py-1 rounded text-xs text-white transition-all ${
+                      workspace.id === activeWorkspaceId ? 'bg-blue-500/80' : 'bg-white/10 hover:bg-white/20'
+                    } ${dropTarget === workspace.id ? 'ring-2 ring-blue-400 scale-105' : ''}`}
+                    onClick={() => switchWorkspace(workspace.id)}
+                    onDragOver={(event) => handleDragOver(event, workspace.id)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(event) => handleWorkspaceDrop(event, workspace.id)}
+                    aria-current={workspace.id === activeWorkspaceId}
+                  >
+                    {getWorkspaceName(workspaces, workspace.id)}
+                  </button>
+                ))}
+                <button
+                  role="listitem"
+                  className={`p-1 rounded text-white/70 hover:text-white border border-dashed border-white/40 ${
+                    dropTarget === 'new-workspace' ? 'ring-2 ring-blue-400' : ''
+                  }`}
+                  onClick={() => switchWorkspace(createWorkspace())}
+                  onDragOver={(event) => handleDragOver(event, 'new-workspace')}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(event) => handleWorkspaceDrop(event)}
+                  title="New workspace"
+                  aria-label="New workspace"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div
+              className="absolute"
+              style={{ left: PADDING, top: HEADER_HEIGHT, width: areaWidth, height: areaHeight }}
+            >
+              {overviewWindows.length === 0 && (
+                <p className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">
+                  {query ? 'No windows match' : 'No open windows'}
+                </p>
+              )}
+
+              {overviewWindows.map((window, index) => {
+                const rect = layout[index];
+                return (
+                  <motion.div
+                    key={window.id}
+                    className="absolute group"
+                    style={{ left: rect.x, top: rect.y, width: rect.w }}
+                    initial={reduceMotion ? false : { opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ duration: 0.15 }}
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    <button
+                      className={`relative block w-full overflow-hidden rounded-lg shadow-xl ring-1 ring-white/20 hover:ring-2 hover:ring-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-400 cursor-pointer ${
+                        window.minimized ? 'opacity-60' : ''
+                      }`}
+                      style={{ height: rect.h }}
+                      onClick={() => pick(window.id)}
+                      draggable
+                      onDragStart={(event) => {
+                        event.dataTransfer.setData(WINDOW_DRAG_TYPE, window.id);
+                        event.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(window.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      aria-label={`${window.title}${window.minimized ? ' (minimized)' : ''}`}
+                    >
+                      <LiveThumbnail window={window} width={rect.w} />
+                    </button>
+
+                    <div className="flex items-center gap-1 mt-1.5 text-xs text-white">
+                      <span>{appRegistry.getApp(window.appId)?.icon || '📄'}</span>
+                      <span className="truncate">{window.title}</span>
+                      {window.minimized && <span className="shrink-0 text-white/60">· Minimized</span>}
+                    </div>
+
+                    <button
+                      className="absolute -top-2 -right-2 p-1 rounded-full bg-gray-800 text-white shadow opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-500"
+                      onClick={() => requestClose(window.id)}
+                      title="Close"
+                      aria-label={`Close ${window.title}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </motion.div>
+                );
+              })}
+            </div>
+
+            {draggedId && SNAP_TARGETS.map(target => (
+              <div
+                key={target.zone}
+                className={`absolute ${target.className} rounded-lg border-2 border-dashed flex items-center justify-center text-[10px] text-white/80 transition-colors ${
+                  dropTarget === target.zone ? 'bg-blue-500/40 border-blue-300' : 'bg-white/5 border-white/30'
+                }`}
+                onDragOver={(event) => handleDragOver(event, target.zone)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(event) => handleSnapDrop(event, target.zone)}
+                aria-label={`Snap to ${target.label}`}
+              >
+                {target.label}
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <ConfirmDialog
+        isOpen={confirmationState.isOpen}
+        title="Unsaved Changes"
+        message={`The window "${confirmationState.windowTitle}" has unsaved changes. Are you sure you want to close it? Your changes will be lost.`}
+        confirmText="Close Anyway"
+        cancelText="Cancel"
+        onConfirm={confirmClose}
+        onCancel={cancelClose}
+      />
+    </>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, X } from 'lucide-react';
+import type { WindowState } from '../../types';
+import { getWorkspaceName, isBackgroundTab, useWindowStore } from '../../store/windowStore';
+import { usePreferencesStore } from '../../store/preferencesStore';
+import { wallpapers, getWallpaperValue } from '../../assets/wallpapers';
+import { appRegistry } from '../../services/appRegistry';
+import { WINDOW_DRAG_TYPE } from '../desktop/WorkspaceSwitcher';
+
+const TASKBAR_HEIGHT = 48;
+
+/**
+ * Window rectangle scaled from desktop pixels to percentages of a workspace card
+ */
+const getThumbnailStyle = (window: WindowState): React.CSSProperties => {
+  const width = globalThis.window.innerWidth;
+  const height = globalThis.window.innerHeight - TASKBAR_HEIGHT;
+  const bounds = window.maximized ? { x: 0, y: 0, w: width, h: height } : window.bounds;
+  return {
+    left: `${(bounds.x / width) * 100}%`,
+    top: `${(bounds.y / height) * 100}%`,
+    width: `${(bounds.w / width) * 100}%`,
+    height: `${(bounds.h / height) * 100}%`,
+  };
+};
+
+/**
+ * Full screen view of all workspaces. Click one to switch to it, drag a window
+ * thumbnail onto another to move the window, and pick a wallpaper per workspace.
+ */
+export const WorkspaceOverview: React.FC = () => {
+  const {
+    windows,
+    zOrder,
+    tabGroups,
+    workspaces,
+    activeWorkspaceId,
+    workspaceOverviewOpen,
+    createWorkspace,
+    removeWorkspace,
+    renameWorkspace,
+    switchWorkspace,
+    moveWindowToWorkspace,
+    setWorkspaceWallpaper,
+    setWorkspaceOverviewOpen,
+  } = useWindowStore();
+  const { wallpaper } = usePreferencesStore();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!workspaceOverviewOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setWorkspaceOverviewOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [workspaceOverviewOpen, setWorkspaceOverviewOpen]);
+
+  const open = (workspaceId: string) => {
+    switchWorkspace(workspaceId);
+    setWorkspaceOverviewOpen(false);
+  };
+
+  const handleDrop = (event: React.DragEvent, workspaceId: string) => {
+    const windowId = event.dataTransfer.getData(WINDOW_DRAG_TYPE);
+    setDropTarget(null);
+    if (windowId) {
+      event.preventDefault();
+      moveWindowToWorkspace(windowId, workspaceId);
+    }
+  };
+
+  // Sticky windows show on every workspace, so only windows placed on one are drawn
+  const getWindows = (workspaceId: string) => zOrder
+    .map(id => windows[id])
+    .filter(window =>
+      window && window.workspaceId === workspaceId && !window.minimized && !isBackgroundTab(window, tabGroups)
+    );
+
+  return (
+    <AnimatePresence>
+      {workspaceOverviewOpen && (
+        <motion.div
+          className="fixed inset-0 z-[9000] bg-black/60 backdrop-blur-md flex flex-col items-center justify-center gap-6 p-8"
+          style={{ bottom: TASKBAR_HEIGHT }}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          onClick={() => setWorkspaceOverviewOpen(false)}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Task view"
+        >
+          <div className="flex flex-wrap items-start justify-center gap-6" onClick={(event) => event.stopPropagation()}>
+            {workspaces.map(workspace => {
+              const name = getWorkspaceName(workspaces, workspace.id);
+              const active = workspace.id === activeWorkspaceId;
+              return (
+                <div key={workspace.id} className="flex flex-col gap-2 w-64">
+                  <div className="flex items-center gap-2">
+                    <input
+                      className="flex-1 min-w-0 bg-transparent text-sm text-white font-medium rounded px-1 focus:outline-none focus:bg-white/10"
+                      defaultValue={workspace.name ?? ''}
+                      placeholder={name}
+                      aria-label={`Rename ${name}`}
+                      onBlur={(event) => renameWorkspace(workspace.id, event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') event.currentTarget.blur();
+                      }}
+                    />
+                    {workspaces.length > 1 && (
+                      <button
+                        className="p-1 rounded text-white/70 hover:text-white hover:bg-red-500/80"
+                        onClick={() => removeWorkspace(workspace.id)}
+                        title="Close workspace (Ctrl+Win+F4)"
+                        aria-label={`Close ${name}`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+
+                  <button
+                    className={`relative aspect-video rounded-lg overflow-hidden shadow-xl transition-all ${
+                      active ? 'ring-2 ring-blue-400' : 'ring-1 ring-white/20 hover:ring-white/60'
+                    } ${dropTarget === workspace.id ? 'ring-4 ring-blue-400 scale-105' : ''}`}
+                    style={{ background: getWallpaperValue(workspace.wallpaper ?? wallpaper) }}
+                    onClick={() => open(workspace.id)}
+                    onDragOver={(event) => {
+                      if (event.dataTransfer.types.includes(WINDOW_DRAG_TYPE)) {
+                        event.preventDefault();
+                        setDropTarget(workspace.id);
+                      }
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(event) => handleDrop(event, workspace.id)}
+                    aria-label={`Switch to ${name}`}
+                    aria-current={active}
+                  >
+                    {getWindows(workspace.id).map(window => (
+                      <div
+                        key={window.id}
+                        className="absolute flex items-start gap-1 p-1 rounded-sm bg-white/80 border border-white shadow text-[10px] text-gray-800 overflow-hidden cursor-grab"
+                        style={getThumbnailStyle(window)}
+                        title={window.title}
+                        draggable
+                        onDragStart={(event) => {
+                          event.dataTransfer.setData(WINDOW_DRAG_TYPE, window.id);
+                          event.dataTransfer.effectAllowed = 'move';
+                        }}
+                      >
+                        <span>{appRegistry.getApp(window.appId)?.icon || '📄'}</span>
+                        <span className="truncate">{window.title}</span>
+                      </div>
+                    ))}
+                  </button>
+
+                  <select
+                    className="text-xs rounded bg-white/10 text-white border border-white/20 px-1 py-0.5"
+                    value={workspace.wallpaper ?? ''}
+                    onChange={(event) => setWorkspaceWallpaper(workspace.id, event.target.value || undefined)}
+                    aria-label={`Wallpaper for ${name}`}
+                  >
+                    <option value="" className="text-gray-900">Default wallpaper</option>
+                    {wallpapers.map(option => (
+                      <option key={option.id} value={option.id} className="text-gray-900">{option.name}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+
+            <button
+              className="w-32 aspect-video mt-8 rounded-lg border-2 border-dashed border-white/40 text-white/70 hover:text-white hover:border-white flex items-center justify-center"
+              onClick={() => open(createWorkspace())}
+              title="New workspace (Ctrl+Win+D)"
+              aria-label="New workspace"
+            >
+              <Plus className="w-6 h-6" />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
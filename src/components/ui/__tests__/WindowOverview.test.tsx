@@ -0,0 +1,64 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WindowOverview } from '../WindowOverview';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../../../store/windowStore';
+import { usePreferencesStore } from '../../../store/preferencesStore';
+
+describe('WindowOverview', () => {
+  let notepadId: string;
+  let terminalId: string;
+
+  beforeEach(() => {
+    usePreferencesStore.setState({ theme: 'light' });
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+      windowOverviewOpen: true,
+    });
+    const store = useWindowStore.getState();
+    notepadId = store.createWindow('notepad', { title: 'Notes' });
+    terminalId = store.createWindow('terminal', { title: 'Shell' });
+    store.minimizeWindow(notepadId);
+  });
+
+  it('should show every window of the workspace, minimized ones too', () => {
+    render(<WindowOverview />);
+
+    expect(screen.getByRole('button', { name: 'Shell' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Notes (minimized)' })).toBeInTheDocument();
+  });
+
+  it('should filter windows by what is typed', () => {
+    render(<WindowOverview />);
+
+    fireEvent.change(screen.getByLabelText('Filter windows'), { target: { value: 'not' } });
+
+    expect(screen.queryByRole('button', { name: 'Shell' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Notes (minimized)' })).toBeInTheDocument();
+  });
+
+  it('should focus the picked window and close the overview', () => {
+    render(<WindowOverview />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Notes (minimized)' }));
+
+    const { windows, windowOverviewOpen } = useWindowStore.getState();
+    expect(windows[notepadId]).toMatchObject({ focused: true, minimized: false });
+    expect(windowOverviewOpen).toBe(false);
+  });
+
+  it('should close windows from their thumbnails', () => {
+    render(<WindowOverview />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close Shell' }));
+
+    expect(useWindowStore.getState().windows[terminalId]).toBeUndefined();
+    expect(screen.queryByRole('button', { name: 'Shell' })).not.toBeInTheDocument();
+  });
+});
@@ -7,4 +7,6 @@ export { QuickSettings } from './QuickSettings';
 export { WindowPeek } from './WindowPeek';
 export { LoadingSpinner } from './LoadingSpinner';
 export { SnapPreviewOverlay } from './SnapPreviewOverlay';
+export { WorkspaceOverview } from './WorkspaceOverview';
+export { WindowOverview } from './WindowOverview';
 export { CustomContextMenu, DesktopContextMenu, WindowContextMenu, TextContextMenu } from './CustomContextMenu';
@@ -0,0 +1,123 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { useWindowStore } from '../../store/windowStore';
+import { SNAP_AREAS, SNAP_LAYOUTS } from '../../utils';
+import type { TilingMode } from '../../types';
+
+const TILING_MODES: { mode: TilingMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'grid', label: 'Grid' },
+  { mode: 'master-stack', label: 'Master' },
+];
+
+interface SnapLayoutsFlyoutProps {
+  windowId: string;
+  isDark: boolean;
+  anchorRef: React.RefObject<HTMLElement | null>;
+  onClose: () => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+/**
+ * Snap layout templates shown from the maximize button. Picking a zone snaps
+ * the window there and fills the other zones with the most recent windows.
+ */
+export const SnapLayoutsFlyout: React.FC<SnapLayoutsFlyoutProps> = ({
+  windowId,
+  isDark,
+  anchorRef,
+  onClose,
+  onMouseEnter,
+  onMouseLeave,
+}) => {
+  const { snapToLayout, tilingMode, setTilingMode } = useWindowStore();
+  const [position, setPosition] = useState({ top: 0, right: 0 });
+
+  // Windows are clipped and transformed, so the flyout is placed on the page below the button
+  useLayoutEffect(() => {
+    const rect = anchorRef.current?.getBoundingClientRect();
+    if (rect) {
+      setPosition({ top: rect.bottom + 6, right: Math.max(8, globalThis.window.innerWidth - rect.right - 40) });
+    }
+  }, [anchorRef]);
+
+  return createPortal(
+    <motion.div
+      className={`fixed z-[10000] p-3 rounded-lg shadow-2xl border backdrop-blur-xl ${
+        isDark ? 'bg-gray-800/95 border-gray-700 text-gray-200' : 'bg-white/95 border-gray-200 text-gray-700'
+      }`}
+      style={{ top: position.top, right: position.right }}
+      initial={{ opacity: 0, y: -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -4 }}
+      transition={{ duration: 0.12 }}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      onMouseDown={(e) => e.stopPropagation()}
+      role="menu"
+      aria-label="Snap layouts"
+    >
+      <div className="grid grid-cols-3 gap-2">
+        {SNAP_LAYOUTS.map(layout => (
+          <div
+            key={layout.id}
+            className={`relative w-20 h-12 rounded border ${isDark ? 'border-gray-600' : 'border-gray-300'}`}
+            title={layout.name}
+          >
+            {layout.zones.map((zone, index) => {
+              const [left, top, right, bottom] = SNAP_AREAS[zone];
+              return (
+                <button
+                  key={zone}
+                  role="menuitem"
+                  aria-label={`${layout.name}: ${zone.replace(/-/g, ' ')}`}
+                  className={`absolute rounded-sm border transition-colors ${
+                    isDark
+                      ? 'bg-gray-600 border-gray-800 hover:bg-blue-500'
+                      : 'bg-gray-200 border-white hover:bg-blue-500'
+                  }`}
+                  style={{
+                    left: `${left * 100}%`,
+                    top: `${top * 100}%`,
+                    width: `${(right - left) * 100}%`,
+                    height: `${(bottom - top) * 100}%`,
+                  }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    snapToLayout(windowId, layout.id, index);
+                    onClose();
+                  }}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Auto-tiling */}
+      <div className={`flex items-center gap-2 mt-3 pt-2 border-t text-xs ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        <span className="flex-1">Auto-tile</span>
+        {TILING_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            className={`px-2 py-0.5 rounded ${
+              tilingMode === mode
+                ? 'bg-blue-500 text-white'
+                : isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+            }`}
+            aria-pressed={tilingMode === mode}
+            onClick={(e) => {
+              e.stopPropagation();
+              setTilingMode(mode);
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </motion.div>,
+    document.body
+  );
+};
@@ -1,9 +1,20 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePreferencesStore } from '../../store/preferencesStore';
+import type { SnapZoneId } from '../../hooks/useSnapZones';
+
+const ZONE_LABELS: Record<SnapZoneId, string> = {
+  'left': 'Snap Left',
+  'right': 'Snap Right',
+  'top-left': 'Snap Top Left',
+  'top-right': 'Snap Top Right',
+  'bottom-left': 'Snap Bottom Left',
+  'bottom-right': 'Snap Bottom Right',
+  'maximize': 'Maximize',
+};
 
 interface SnapZone {
-  id: 'left' | 'right' | 'maximize';
+  id: SnapZoneId;
   bounds: { x: number; y: number; w: number; h: number };
   active: boolean;
 }
@@ -74,9 +85,7 @@ export const SnapOverlay: React.FC<SnapOverlayProps> = ({
                   animate={reduceMotion ? undefined : { scale: 1, opacity: 1 }}
                   transition={{ delay: 0.1, duration: 0.15 }}
                 >
-                  {zone.id === 'left' && 'Snap Left'}
-                  {zone.id === 'right' && 'Snap Right'}
-                  {zone.id === 'maximize' && 'Maximize'}
+                  {ZONE_LABELS[zone.id]}
                 </motion.div>
               )}
             </motion.div>
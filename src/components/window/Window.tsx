@@ -1,11 +1,15 @@
-import React, { useMemo } from 'react';
+import React, { Profiler, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { usePreferencesStore } from '../../store/preferencesStore';
 import { useWindowStore } from '../../store/windowStore';
+import { resourceMonitor } from '../../services/resourceMonitor';
 import type { WindowState } from '../../types';
 import { WindowTitleBar } from './WindowTitleBar';
 import { ResizeHandles } from './ResizeHandles';
 
+// Always-on-top windows stack above every other window
+const ALWAYS_ON_TOP_Z_OFFSET = 100000;
+
 interface WindowProps {
   window: WindowState;
   children: React.ReactNode;
@@ -13,10 +17,17 @@ interface WindowProps {
 
 export const Window: React.FC<WindowProps> = ({ window, children }) => {
   const { theme, reduceMotion } = usePreferencesStore();
-  const { dragState, resizeState, focusWindow } = useWindowStore();
+  const { dragState, resizeState, moveSizeState, focusWindow } = useWindowStore();
   const isDark = theme === 'dark' || (theme === 'auto' && globalThis.window?.matchMedia('(prefers-color-scheme: dark)').matches);
   const isDragging = dragState?.windowId === window.id;
   const isResizing = resizeState?.windowId === window.id;
+  const isMovingFromKeyboard = moveSizeState?.windowId === window.id;
+  const opacity = window.opacity ?? 1;
+
+  // Commit times for Task Manager; production builds get them from React's profiling build
+  const handleRender: React.ProfilerOnRenderCallback = (_id, _phase, actualDuration, _baseDuration, startTime, commitTime) => {
+    resourceMonitor.recordCommit(window.id, actualDuration, startTime, commitTime);
+  };
 
   const handleWindowClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -53,11 +64,11 @@ export const Window: React.FC<WindowProps> = ({ window, children }) => {
       initial: { scale: 0.95, opacity: 0 },
       animate: { 
         scale: 1, 
-        opacity: 1,
+        opacity,
       },
       exit: { scale: 0.95, opacity: 0 },
     };
-  }, [reduceMotion]);
+  }, [reduceMotion, opacity]);
 
   // Optimize transition for drag/resize
   const transition = useMemo(() => {
@@ -90,7 +101,7 @@ export const Window: React.FC<WindowProps> = ({ window, children }) => {
             : 'border-blue-500/70 shadow-blue-500/30'
           : ''
       } ${
-        isDragging || isResizing
+        isDragging || isResizing || isMovingFromKeyboard
           ? isDark
             ? 'shadow-blue-500/40 border-blue-500/80'
             : 'shadow-blue-500/50 border-blue-500/80'
@@ -98,10 +109,12 @@ export const Window: React.FC<WindowProps> = ({ window, children }) => {
       }`}
       style={{
         ...windowStyle,
-        zIndex: window.zIndex + 1000,
+        zIndex: window.zIndex + 1000 + (window.alwaysOnTop ? ALWAYS_ON_TOP_Z_OFFSET : 0),
+        ...(reduceMotion && { opacity }),
         willChange: isDragging || isResizing ? 'transform' : 'auto',
       }}
       onClick={handleWindowClick}
+      data-window-id={window.id}
       {...animationVariants}
       transition={transition}
     >
@@ -110,7 +123,9 @@ export const Window: React.FC<WindowProps> = ({ window, children }) => {
 
       {/* Window Content */}
       <div className="flex-1 overflow-hidden bg-inherit">
-        {children}
+        <Profiler id={window.id} onRender={handleRender}>
+          {children}
+        </Profiler>
       </div>
 
       {/* Resize Handles */}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { AnimatePresence } from 'framer-motion';
-import { useWindowStore } from '../../store/windowStore';
+import { isBackgroundTab, isWindowOnWorkspace, useWindowStore } from '../../store/windowStore';
 import { useCloseConfirmation } from '../../hooks/useCloseConfirmation';
 import { useGlobalSnapOverlay } from '../../hooks/useGlobalSnapOverlay';
 import { useResponsive } from '../../hooks/useResponsive';
@@ -12,7 +12,7 @@ import { ConfirmDialog } from '../ui/ConfirmDialog';
 import { SnapOverlay } from './SnapOverlay';
 
 export const WindowManager: React.FC = () => {
-  const { windows, zOrder } = useWindowStore();
+  const { windows, zOrder, activeWorkspaceId, tabGroups } = useWindowStore();
   const { confirmationState, confirmClose, cancelClose } = useCloseConfirmation();
   const snapOverlayState = useGlobalSnapOverlay();
   const { isMobile } = useResponsive();
@@ -41,6 +41,7 @@ export const WindowManager: React.FC = () => {
             <AppComponent 
               windowId={window.id}
               focused={window.focused}
+              launchData={window.launchData}
               onTitleChange={(title) => {
                 // TODO: Update window title if needed
                 if (title) {
@@ -82,8 +83,16 @@ export const WindowManager: React.FC = () => {
       ) : (
         <div className="fixed inset-0 pointer-events-none" style={{ zIndex: 1000 }}>
           <AnimatePresence>
+            {/* Windows on other workspaces and tabs behind the active one stay mounted, so apps keep their state */}
             {windowContent.map((content, index) => (
-              <div key={sortedWindows[index]?.id} className="pointer-events-auto">
+              <div
+                key={sortedWindows[index]?.id}
+                className={`pointer-events-auto ${
+                  isWindowOnWorkspace(sortedWindows[index], activeWorkspaceId) && !isBackgroundTab(sortedWindows[index], tabGroups)
+                    ? ''
+                    : 'hidden'
+                }`}
+              >
                 {content}
               </div>
             ))}
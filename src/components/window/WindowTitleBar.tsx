@@ -1,21 +1,43 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
 import { useWindowStore } from '../../store/windowStore';
 import { usePreferencesStore } from '../../store/preferencesStore';
 import { useDragOptimized } from '../../hooks/useDragOptimized';
 import { useCloseConfirmation } from '../../hooks/useCloseConfirmation';
 import { WindowContextMenu } from '../ui/CustomContextMenu';
-import type { WindowState } from '../../types';
+import { SnapLayoutsFlyout } from './SnapLayoutsFlyout';
+import type { AppId, WindowState } from '../../types';
+
+// Drag data of a tab dragged out of a tab strip
+export const TAB_DRAG_TYPE = 'application/x-window-tab';
 
 interface WindowTitleBarProps {
   window: WindowState;
 }
 
 export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
-  const { minimizeWindow, maximizeWindow, dragState } = useWindowStore();
+  const {
+    windows,
+    tabGroups,
+    minimizeWindow,
+    maximizeWindow,
+    focusWindow,
+    groupWindows,
+    moveTab,
+    detachTab,
+    setAlwaysOnTop,
+    startMoveSize,
+    getTitleBarTarget,
+    dragState,
+  } = useWindowStore();
+  const tabGroup = window.tabGroupId ? tabGroups[window.tabGroupId] : undefined;
+  const tabs = tabGroup ? tabGroup.tabs.map(id => windows[id]).filter(Boolean) : [];
   const { theme } = usePreferencesStore();
   const { requestClose } = useCloseConfirmation();
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const [showSnapLayouts, setShowSnapLayouts] = useState(false);
+  const maximizeButtonRef = useRef<HTMLButtonElement>(null);
+  const snapLayoutsTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
   const isDark = theme === 'dark' || (theme === 'auto' && globalThis.window?.matchMedia('(prefers-color-scheme: dark)').matches);
 
   const dragHandlers = useDragOptimized({
@@ -23,6 +45,14 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
     enableSnapping: true,
   });
 
+  // Snap layouts open after hovering the maximize button, and stay while the pointer is on them
+  const scheduleSnapLayouts = (show: boolean) => {
+    clearTimeout(snapLayoutsTimeoutRef.current);
+    snapLayoutsTimeoutRef.current = setTimeout(() => setShowSnapLayouts(show), show ? 400 : 200);
+  };
+
+  useEffect(() => () => clearTimeout(snapLayoutsTimeoutRef.current), []);
+
   const handleDoubleClick = () => {
     maximizeWindow(window.id);
   };
@@ -46,6 +76,16 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
       case 'close':
         requestClose(window.id);
         break;
+      case 'detach-tab':
+        detachTab(window.id);
+        break;
+      case 'move':
+      case 'size':
+        startMoveSize(window.id, action);
+        break;
+      case 'always-on-top':
+        setAlwaysOnTop(window.id, !window.alwaysOnTop);
+        break;
       default:
         // Unhandled window context menu action
         break;
@@ -54,7 +94,38 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
 
   const isDragging = dragState?.windowId === window.id;
 
-  const getAppIcon = () => {
+  // A tab dropped on a tab strip moves to that place, joining the frame if it was in another one
+  const dropTab = (event: React.DragEvent, index: number) => {
+    const tabId = event.dataTransfer.getData(TAB_DRAG_TYPE);
+    if (!tabId || !windows[tabId]) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (tabId !== window.id && windows[tabId].tabGroupId !== window.tabGroupId) {
+      detachTab(tabId);
+      groupWindows(tabId, window.id);
+    }
+    moveTab(tabId, index);
+  };
+
+  const handleTabDragOver = (event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes(TAB_DRAG_TYPE)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  // A tab dropped anywhere else leaves as a window of its own, or joins the frame whose title bar it was dropped on
+  const handleTabDragEnd = (event: React.DragEvent, tabId: string) => {
+    if (event.dataTransfer.dropEffect !== 'none') return;
+    const target = getTitleBarTarget(event.clientX, event.clientY, tabId);
+    detachTab(tabId, { x: Math.max(0, event.clientX - 100), y: Math.max(0, event.clientY - 16) });
+    if (target) {
+      groupWindows(tabId, target.id);
+    }
+  };
+
+  const getAppIcon = (appId: AppId = window.appId) => {
     // Simple colored squares as placeholders for now
     const iconColors: Record<string, string> = {
       'projects': 'bg-blue-500',
@@ -66,11 +137,11 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
       'resume-viewer': 'bg-red-500',
     };
 
-    const colorClass = iconColors[window.appId] || 'bg-gray-400';
+    const colorClass = iconColors[appId] || 'bg-gray-400';
     
     return (
-      <div className={`w-4 h-4 rounded ${colorClass} flex items-center justify-center text-white text-xs font-bold`}>
-        {window.appId.charAt(0).toUpperCase()}
+      <div className={`w-4 h-4 flex-shrink-0 rounded ${colorClass} flex items-center justify-center text-white text-xs font-bold`}>
+        {appId.charAt(0).toUpperCase()}
       </div>
     );
   };
@@ -99,19 +170,86 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
         onTouchStart={dragHandlers.onTouchStart}
         onDoubleClick={handleDoubleClick}
         onContextMenu={handleContextMenu}
+        onDragOver={handleTabDragOver}
+        onDrop={(e) => dropTab(e, tabs.length)}
       >
-      {/* Left side - Icon and Title */}
-      <div className="flex items-center gap-2 flex-1 min-w-0">
-        {getAppIcon()}
-        <span className={`text-sm truncate ${
-          window.focused
-            ? isDark ? 'text-white' : 'text-gray-900'
-            : isDark ? 'text-gray-400' : 'text-gray-600'
-        }`}>
-          {window.hasUnsavedState && '• '}
-          {window.title}
-        </span>
-      </div>
+      {/* Left side - Icon and Title, or the frame's tabs */}
+      {tabGroup ? (
+        <div role="tablist" aria-label="Window tabs" className="flex items-center gap-1 flex-1 min-w-0 h-full">
+          {tabs.map((tab, index) => {
+            const active = tab.id === window.id;
+            return (
+              <div
+                key={tab.id}
+                role="tab"
+                aria-selected={active}
+                tabIndex={active ? 0 : -1}
+                draggable
+                className={`group flex items-center gap-1.5 h-6 pl-2 pr-1 min-w-0 max-w-44 rounded text-xs cursor-pointer ${
+                  active
+                    ? isDark ? 'bg-gray-600 text-white' : 'bg-white text-gray-900 shadow-sm'
+                    : isDark ? 'text-gray-400 hover:bg-gray-600/50' : 'text-gray-600 hover:bg-gray-200'
+                }`}
+                onMouseDown={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  focusWindow(tab.id);
+                }}
+                onKeyDown={(e) => {
+                  // Arrow keys move between tabs
+                  const offset = e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0;
+                  const next = tabs[index + offset];
+                  if (offset && next) {
+                    e.preventDefault();
+                    focusWindow(next.id);
+                  }
+                }}
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.setData(TAB_DRAG_TYPE, tab.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={handleTabDragOver}
+                onDrop={(e) => dropTab(e, index)}
+                onDragEnd={(e) => handleTabDragEnd(e, tab.id)}
+                title={tab.title}
+              >
+                {getAppIcon(tab.appId)}
+                <span className="truncate">
+                  {tab.hasUnsavedState && '• '}
+                  {tab.title}
+                </span>
+                <button
+                  className={`w-4 h-4 flex-shrink-0 rounded flex items-center justify-center leading-none ${
+                    active ? '' : 'opacity-0 group-hover:opacity-100'
+                  } ${isDark ? 'hover:bg-white/20' : 'hover:bg-black/10'}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    requestClose(tab.id);
+                  }}
+                  aria-label={`Close ${tab.title}`}
+                  title="Close tab"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          {getAppIcon()}
+          <span className={`text-sm truncate ${
+            window.focused
+              ? isDark ? 'text-white' : 'text-gray-900'
+              : isDark ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            {window.hasUnsavedState && '• '}
+            {window.title}
+          </span>
+        </div>
+      )}
 
       {/* Right side - Window Controls */}
       <div className="flex items-center gap-1">
@@ -133,13 +271,18 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
 
         {/* Maximize/Restore Button */}
         <motion.button
+          ref={maximizeButtonRef}
           className={`w-6 h-6 rounded flex items-center justify-center hover:bg-opacity-20 ${
             isDark ? 'hover:bg-white' : 'hover:bg-black'
           }`}
           onClick={(e) => {
             e.stopPropagation();
+            clearTimeout(snapLayoutsTimeoutRef.current);
+            setShowSnapLayouts(false);
             maximizeWindow(window.id);
           }}
+          onMouseEnter={() => scheduleSnapLayouts(true)}
+          onMouseLeave={() => scheduleSnapLayouts(false)}
           whileHover={{ scale: 1.1 }}
           whileTap={{ scale: 0.9 }}
           title={window.maximized ? "Restore" : "Maximize"}
@@ -175,6 +318,20 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
       </div>
     </div>
     
+    {/* Snap Layouts */}
+    <AnimatePresence>
+      {showSnapLayouts && (
+        <SnapLayoutsFlyout
+          windowId={window.id}
+          isDark={isDark}
+          anchorRef={maximizeButtonRef}
+          onClose={() => setShowSnapLayouts(false)}
+          onMouseEnter={() => clearTimeout(snapLayoutsTimeoutRef.current)}
+          onMouseLeave={() => scheduleSnapLayouts(false)}
+        />
+      )}
+    </AnimatePresence>
+
     {/* Window Context Menu */}
     {contextMenu && (
       <WindowContextMenu
@@ -186,6 +343,8 @@ export const WindowTitleBar: React.FC<WindowTitleBarProps> = ({ window }) => {
           minimized: window.minimized,
           maximized: window.maximized,
           focused: window.focused,
+          tabbed: !!tabGroup,
+          alwaysOnTop: window.alwaysOnTop,
         }}
       />
     )}
@@ -4,3 +4,4 @@ export { WindowManager } from './WindowManager';
 export { MobileWindowManager } from './MobileWindowManager';
 export { ResponsiveWindow } from './ResponsiveWindow';
 export { ResizeHandles } from './ResizeHandles';
+export { SnapLayoutsFlyout } from './SnapLayoutsFlyout';
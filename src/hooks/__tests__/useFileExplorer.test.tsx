@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useFileExplorer } from '../useFileExplorer';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { fileAssociationService } from '../../services/fileAssociationService';
 
 describe('useFileExplorer', () => {
   it('should initialize with default state', () => {
@@ -290,21 +292,54 @@ describe('useFileExplorer', () => {
       expect(result.current.fileSystem.currentPath).toBe('/Desktop');
     });
 
-    it('should handle double-click on file', () => {
+    it('should open files in their default app on double-click', async () => {
+      const openSpy = vi.spyOn(fileAssociationService, 'openFile').mockResolvedValue({ success: true });
       const { result } = renderHook(() => useFileExplorer('/Desktop'));
 
       const testFile = {
         name: 'test.txt',
         type: 'file' as const,
         path: '/Desktop/test.txt',
+        ext: 'txt',
         content: 'Test content'
       };
 
-      act(() => {
+      await act(async () => {
         result.current.handleItemDoubleClick(testFile);
       });
 
-      expect(result.current.previewFile).toEqual(testFile);
+      expect(openSpy).toHaveBeenCalledWith('/Desktop/test.txt', undefined);
+      expect(result.current.previewFile).toBeNull();
+      openSpy.mockRestore();
+    });
+
+    it('should preview files File Explorer opens itself on double-click', () => {
+      const { result } = renderHook(() => useFileExplorer('/Desktop'));
+
+      const imageFile = {
+        name: 'photo.png',
+        type: 'file' as const,
+        path: '/Desktop/photo.png',
+        ext: 'png'
+      };
+
+      act(() => {
+        result.current.handleItemDoubleClick(imageFile);
+      });
+
+      expect(result.current.previewFile).toEqual(imageFile);
+    });
+
+    it('should reveal a file in its folder', () => {
+      const { result } = renderHook(() => useFileExplorer('/'));
+
+      act(() => {
+        result.current.revealPath('/Documents/README.md');
+      });
+
+      expect(result.current.fileSystem.currentPath).toBe('/Documents');
+      expect(result.current.fileSystem.selectedItems).toEqual(['/Documents/README.md']);
+      expect(result.current.previewFile?.path).toBe('/Documents/README.md');
     });
   });
 
@@ -327,4 +362,67 @@ describe('useFileExplorer', () => {
       expect(result.current.fileSystem.selectedItems).toEqual([]);
     });
   });
-});
\ No newline at end of file
+
+  describe('File Operations', () => {
+    beforeEach(async () => {
+      await virtualFileSystem.resetToFactoryImage();
+    });
+
+    it('should create folders with a unique name in the current directory', () => {
+      const { result } = renderHook(() => useFileExplorer('/Documents'));
+
+      act(() => {
+        result.current.createFolder();
+        result.current.createFolder();
+      });
+
+      const names = result.current.getCurrentContents().map(item => item.name);
+      expect(names).toContain('New Folder');
+      expect(names).toContain('New Folder (2)');
+    });
+
+    it('should keep the selection in sync when renaming', () => {
+      const { result } = renderHook(() => useFileExplorer('/Documents'));
+
+      act(() => {
+        result.current.selectItem('/Documents/README.md');
+      });
+      act(() => {
+        result.current.renameItem('/Documents/README.md', 'GUIDE.md');
+      });
+
+      expect(result.current.fileSystem.selectedItems).toEqual(['/Documents/GUIDE.md']);
+      expect(result.current.getCurrentContents().map(item => item.name)).toContain('GUIDE.md');
+    });
+
+    it('should report failed operations without throwing', () => {
+      const { result } = renderHook(() => useFileExplorer('/Documents'));
+
+      act(() => {
+        result.current.renameItem('/Documents/README.md', 'Notes');
+      });
+
+      expect(result.current.operationError).toContain('Already exists');
+
+      act(() => {
+        result.current.clearOperationError();
+      });
+
+      expect(result.current.operationError).toBeNull();
+    });
+
+    it('should delete items and drop them from the selection', () => {
+      const { result } = renderHook(() => useFileExplorer('/Documents'));
+
+      act(() => {
+        result.current.selectItem('/Documents/Notes');
+      });
+      act(() => {
+        result.current.deleteItems(['/Documents/Notes']);
+      });
+
+      expect(result.current.fileSystem.selectedItems).toEqual([]);
+      expect(result.current.getCurrentContents().map(item => item.name)).not.toContain('Notes');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { renderHook, act, fireEvent } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useKeyboardMoveSize } from '../useKeyboardMoveSize';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../../store/windowStore';
+import { announceToScreenReader } from '../../utils/accessibility';
+import { WINDOW_CONSTRAINTS } from '../../utils';
+
+vi.mock('../../utils/accessibility', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/accessibility')>()),
+  announceToScreenReader: vi.fn(),
+}));
+
+const START_BOUNDS = { x: 100, y: 100, w: 400, h: 300 };
+
+const press = (key: string, options: Partial<KeyboardEventInit> = {}) => {
+  act(() => {
+    fireEvent.keyDown(window, { key, ...options });
+  });
+};
+
+describe('useKeyboardMoveSize', () => {
+  let windowId: string;
+
+  const getBounds = () => useWindowStore.getState().windows[windowId].bounds;
+
+  const start = (mode: 'move' | 'size') => {
+    act(() => useWindowStore.getState().startMoveSize(windowId, mode));
+    return renderHook(() => useKeyboardMoveSize());
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      moveSizeState: null,
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+    });
+    windowId = useWindowStore.getState().createWindow('notepad', { title: 'Notes' });
+    useWindowStore.getState().updateWindow(windowId, { bounds: { ...START_BOUNDS } });
+  });
+
+  it('should move the window a step per arrow key, and a larger step with Shift', () => {
+    start('move');
+
+    press('ArrowRight');
+    press('ArrowDown');
+    expect(getBounds()).toEqual({ ...START_BOUNDS, x: 110, y: 110 });
+
+    press('ArrowLeft', { shiftKey: true });
+    press('ArrowUp', { shiftKey: true });
+    expect(getBounds()).toEqual({ ...START_BOUNDS, x: 60, y: 60 });
+  });
+
+  it('should switch to sizing from the bottom-right corner with Tab, down to the minimum size', () => {
+    start('move');
+
+    press('Tab');
+    expect(useWindowStore.getState().moveSizeState?.mode).toBe('size');
+
+    press('ArrowRight');
+    press('ArrowUp', { shiftKey: true });
+    expect(getBounds()).toEqual({ ...START_BOUNDS, w: 410, h: 250 });
+
+    for (let i = 0; i < 10; i++) press('ArrowLeft', { shiftKey: true });
+    expect(getBounds().w).toBe(WINDOW_CONSTRAINTS.MIN_WIDTH);
+
+    press('Tab');
+    expect(useWindowStore.getState().moveSizeState?.mode).toBe('move');
+  });
+
+  it('should keep the new bounds on Enter', () => {
+    start('move');
+
+    press('ArrowRight');
+    press('Enter');
+
+    expect(useWindowStore.getState().moveSizeState).toBeNull();
+    expect(getBounds()).toEqual({ ...START_BOUNDS, x: 110 });
+
+    // The keys are the desktop's again
+    press('ArrowRight');
+    expect(getBounds()).toEqual({ ...START_BOUNDS, x: 110 });
+  });
+
+  it('should put the window back where it started on Escape', () => {
+    start('size');
+
+    press('ArrowRight', { shiftKey: true });
+    press('Tab');
+    press('ArrowDown');
+    press('Escape');
+
+    expect(useWindowStore.getState().moveSizeState).toBeNull();
+    expect(getBounds()).toEqual(START_BOUNDS);
+  });
+
+  it('should leave keys with Ctrl, Alt or Win to the desktop shortcuts', () => {
+    start('move');
+
+    press('ArrowRight', { metaKey: true });
+    press('ArrowRight', { ctrlKey: true });
+    press('ArrowRight', { altKey: true });
+
+    expect(getBounds()).toEqual(START_BOUNDS);
+    expect(useWindowStore.getState().moveSizeState).not.toBeNull();
+  });
+
+  it('should announce the mode, each step and the outcome to screen readers', () => {
+    start('move');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith(expect.stringMatching(/^Moving Notes\. /), 'assertive');
+
+    press('ArrowRight');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith('Moved to 110, 100');
+
+    press('Tab');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith(expect.stringMatching(/^Sizing Notes\. /), 'assertive');
+
+    press('ArrowDown');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith('Sized to 400 by 310');
+
+    press('Enter');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith('Notes placed');
+
+    act(() => useWindowStore.getState().startMoveSize(windowId, 'move'));
+    press('Escape');
+    expect(announceToScreenReader).toHaveBeenLastCalledWith('Notes put back');
+  });
+});
@@ -4,23 +4,27 @@ import { useKeyboardShortcuts } from '../useKeyboardShortcuts';
 import { useWindowStore } from '../../store/windowStore';
 import { useDesktopStore } from '../../store/desktopStore';
 import { useStartMenuStore } from '../../store/startMenuStore';
+import { useSessionStore } from '../../store/sessionStore';
 import type { KeyboardShortcut } from '../../types';
 
 // Mock the stores
 vi.mock('../../store/windowStore');
 vi.mock('../../store/desktopStore');
 vi.mock('../../store/startMenuStore');
+vi.mock('../../store/sessionStore');
 
 describe('useKeyboardShortcuts', () => {
   const mockWindowStore = {
     getFocusedWindow: vi.fn(),
     getVisibleWindows: vi.fn(),
     focusWindow: vi.fn(),
-    updateWindowBounds: vi.fn(),
-    updateWindowSnapState: vi.fn(),
-    maximizeWindow: vi.fn(),
+    snapWindow: vi.fn(),
     requestCloseWindow: vi.fn(),
     minimizeWindow: vi.fn(),
+    restoreWindow: vi.fn(),
+    startMoveSize: vi.fn(),
+    setWindowOverviewOpen: vi.fn(),
+    windowOverviewOpen: false,
   };
 
   const mockDesktopStore = {
@@ -122,13 +126,7 @@ describe('useKeyboardShortcuts', () => {
         document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
       });
       
-      expect(mockWindowStore.updateWindowBounds).toHaveBeenCalledWith('window1', {
-        x: 0,
-        y: 0,
-        w: 960, // Half of 1920
-        h: 1032, // 1080 - 48 (taskbar)
-      });
-      expect(mockWindowStore.updateWindowSnapState).toHaveBeenCalledWith('window1', 'left');
+      expect(mockWindowStore.snapWindow).toHaveBeenCalledWith('window1', 'left');
     });
 
     it('should snap window to right with Win+Right', () => {
@@ -144,13 +142,7 @@ describe('useKeyboardShortcuts', () => {
         document.dispatchEvent(rightEvent);
       });
       
-      expect(mockWindowStore.updateWindowBounds).toHaveBeenCalledWith('window1', {
-        x: 960, // Half of 1920
-        y: 0,
-        w: 960,
-        h: 1032,
-      });
-      expect(mockWindowStore.updateWindowSnapState).toHaveBeenCalledWith('window1', 'right');
+      expect(mockWindowStore.snapWindow).toHaveBeenCalledWith('window1', 'right');
     });
 
     it('should maximize window with Win+Up', () => {
@@ -166,14 +158,59 @@ describe('useKeyboardShortcuts', () => {
         document.dispatchEvent(upEvent);
       });
       
-      expect(mockWindowStore.updateWindowBounds).toHaveBeenCalledWith('window1', {
-        x: 0,
-        y: 0,
-        w: 1920,
-        h: 1032,
+      expect(mockWindowStore.snapWindow).toHaveBeenCalledWith('window1', 'maximized');
+    });
+
+    it('should step a snapped window on to the next zone with Win+Arrow', () => {
+      const mockWindow = { id: 'window1', focused: true, snapState: 'left' };
+      mockWindowStore.getFocusedWindow.mockReturnValue(mockWindow);
+
+      renderHook(() => useKeyboardShortcuts());
+
+      act(() => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Meta' }));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+      });
+
+      expect(mockWindowStore.snapWindow).toHaveBeenCalledWith('window1', 'top-left');
+    });
+
+    it('should restore a maximized window with Win+Down', () => {
+      const mockWindow = { id: 'window1', focused: true, maximized: true, snapState: 'maximized' };
+      mockWindowStore.getFocusedWindow.mockReturnValue(mockWindow);
+
+      renderHook(() => useKeyboardShortcuts());
+
+      act(() => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Meta' }));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+      });
+
+      expect(mockWindowStore.restoreWindow).toHaveBeenCalledWith('window1');
+      expect(mockWindowStore.snapWindow).not.toHaveBeenCalled();
+    });
+
+    it('should start moving the focused window with Alt+Space', () => {
+      mockWindowStore.getFocusedWindow.mockReturnValue({ id: 'window1', focused: true });
+
+      renderHook(() => useKeyboardShortcuts());
+
+      act(() => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Alt' }));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: ' ' }));
       });
-      expect(mockWindowStore.updateWindowSnapState).toHaveBeenCalledWith('window1', 'maximized');
-      expect(mockWindowStore.maximizeWindow).toHaveBeenCalledWith('window1');
+
+      expect(mockWindowStore.startMoveSize).toHaveBeenCalledWith('window1', 'move');
+    });
+
+    it('should show all windows with F3', () => {
+      renderHook(() => useKeyboardShortcuts());
+
+      act(() => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'F3' }));
+      });
+
+      expect(mockWindowStore.setWindowOverviewOpen).toHaveBeenCalledWith(true);
     });
 
     it('should close window with Ctrl+W', () => {
@@ -192,6 +229,21 @@ describe('useKeyboardShortcuts', () => {
       expect(mockWindowStore.requestCloseWindow).toHaveBeenCalledWith('window1');
     });
 
+    it('should reopen the last closed window with Ctrl+Shift+T', () => {
+      const reopenClosedWindow = vi.fn();
+      vi.mocked(useSessionStore.getState).mockReturnValue({ reopenClosedWindow } as unknown as ReturnType<typeof useSessionStore.getState>);
+
+      renderHook(() => useKeyboardShortcuts());
+
+      act(() => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Control' }));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Shift' }));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'T' }));
+      });
+
+      expect(reopenClosedWindow).toHaveBeenCalledTimes(1);
+    });
+
     it('should minimize window with Ctrl+M', () => {
       const mockWindow = { id: 'window1', focused: true };
       mockWindowStore.getFocusedWindow.mockReturnValue(mockWindow);
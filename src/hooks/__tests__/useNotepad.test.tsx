@@ -35,6 +35,9 @@ describe('useNotepad', () => {
     toggleMarkdownMode: vi.fn(),
     toggleMarkdownPreview: vi.fn(),
     setAutoSave: vi.fn(),
+    openFile: vi.fn(),
+    syncDocumentFromFile: vi.fn(),
+    saveToFile: vi.fn(),
     saveVersion: vi.fn(),
     restoreVersion: vi.fn(),
     getVersions: vi.fn(),
@@ -524,4 +527,24 @@ describe('useNotepad', () => {
     expect(hasUnsaved).toBe(false);
     expect(mockStore.hasUnsavedChanges).toHaveBeenCalledWith('doc-2');
   });
-});
\ No newline at end of file
+
+  it('should move the caret to a line and column', () => {
+    const { result } = renderHook(() =>
+      useNotepad({
+        windowId: 'window-1',
+        onUnsavedStateChange: mockOnUnsavedStateChange,
+      })
+    );
+
+    const textarea = document.createElement('textarea');
+    textarea.value = 'first\nsecond line\nthird';
+    document.body.appendChild(textarea);
+    (result.current.textareaRef as { current: HTMLTextAreaElement | null }).current = textarea;
+
+    result.current.goToLine(2, 8);
+
+    expect(textarea.selectionStart).toBe(13);
+    expect(document.activeElement).toBe(textarea);
+    textarea.remove();
+  });
+});
@@ -29,7 +29,7 @@ describe('useSnapZones', () => {
     it('should return snap zones with correct bounds', () => {
       const { result } = renderHook(() => useSnapZones({ enabled: true }));
 
-      expect(result.current.snapZones).toHaveLength(3);
+      expect(result.current.snapZones).toHaveLength(7);
       
       // Check left snap zone
       const leftZone = result.current.snapZones.find(z => z.id === 'left');
@@ -78,6 +78,21 @@ describe('useSnapZones', () => {
       expect(result.current.getActiveSnapZone(960, 500)).toBeNull();
     });
 
+    it('should detect corner zones before the edges they overlap', () => {
+      const { result } = renderHook(() => useSnapZones({ enabled: true }));
+
+      expect(result.current.getActiveSnapZone(5, 5)).toBe('top-left');
+      expect(result.current.getActiveSnapZone(1915, 30)).toBe('top-right');
+      expect(result.current.getActiveSnapZone(10, 1020)).toBe('bottom-left');
+      expect(result.current.getActiveSnapZone(1900, 1000)).toBe('bottom-right');
+      expect(result.current.getSnapBounds('bottom-right')).toEqual({
+        x: 960,
+        y: 516,
+        w: 960,
+        h: 516,
+      });
+    });
+
     it('should return correct snap bounds for zone ID', () => {
       const { result } = renderHook(() => useSnapZones({ enabled: true }));
 
@@ -5,10 +5,14 @@ export { useAccessibilitySettings } from './useAccessibilitySettings';
 export { useAppFramework } from './useAppFramework';
 export { useCloseConfirmation } from './useCloseConfirmation';
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
+export { useKeyboardMoveSize } from './useKeyboardMoveSize';
 export { useFocusManagement } from './useFocusManagement';
 export { useFileExplorer } from './useFileExplorer';
+export { useFileSystemEvents, useFileSystemNode } from './useFileSystemWatch';
+export { useFileObjectUrl } from './useFileObjectUrl';
 export { useTerminal } from './useTerminal';
 export { useNotepad } from './useNotepad';
+export { useSessionState } from './useSessionState';
 export { useURLState, useURLSync } from './useURLState';
 export { useResponsive, useIsMobile, useIsTablet, useIsDesktop, useIsTouchDevice } from './useResponsive';
 export { useTouchGestures } from './useTouchGestures';
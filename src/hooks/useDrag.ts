@@ -1,6 +1,7 @@
 import { useCallback, useRef } from 'react';
 import { useWindowStore } from '../store/windowStore';
 import { useSnapZones } from './useSnapZones';
+import type { SnapZoneId } from './useSnapZones';
 import type { DragState } from '../types';
 
 interface UseDragOptions {
@@ -28,7 +29,7 @@ export const useDrag = ({
   const { windows, setDragState, updateWindowBounds, focusWindow, updateWindowSnapState } = useWindowStore();
   const dragStateRef = useRef<DragState | null>(null);
   const isDraggingRef = useRef(false);
-  const activeSnapZoneRef = useRef<string | null>(null);
+  const activeSnapZoneRef = useRef<SnapZoneId | null>(null);
   
   const { getActiveSnapZone, getSnapBounds } = useSnapZones({ 
     enabled: enableSnapping 
@@ -157,7 +158,7 @@ export const useDrag = ({
           
           // Update snap state based on the zone
           const snapState = activeSnapZoneRef.current === 'maximize' ? 'maximized' : activeSnapZoneRef.current;
-          updateWindowSnapState(windowId, snapState as 'left' | 'right' | 'maximized');
+          updateWindowSnapState(windowId, snapState);
           
           // Update maximized state if snapping to maximize
           if (activeSnapZoneRef.current === 'maximize') {
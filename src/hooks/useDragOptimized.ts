@@ -1,6 +1,7 @@
 import { useCallback, useRef, useEffect } from 'react';
 import { useWindowStore } from '../store/windowStore';
-import type { DragState } from '../types';
+import { useSnapZones, getSnapStateForZone } from './useSnapZones';
+import type { DragState, SnapState } from '../types';
 
 interface UseDragOptions {
   windowId: string;
@@ -27,12 +28,17 @@ export const useDragOptimized = ({
   onDragEnd, 
   enableSnapping = true 
 }: UseDragOptions): DragHookState => {
-  const { windows, setDragState, updateWindowBounds, focusWindow, updateWindowSnapState } = useWindowStore();
+  const { windows, setDragState, updateWindowBounds, focusWindow, updateWindowSnapState, snapWindow, groupWindows, getTitleBarTarget } = useWindowStore();
   const dragStateRef = useRef<DragState | null>(null);
   const isDraggingRef = useRef(false);
   const rafIdRef = useRef<number | null>(null);
   const lastPositionRef = useRef<{ x: number; y: number } | null>(null);
-  const activeSnapZoneRef = useRef<'left' | 'right' | 'maximized' | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const activeSnapZoneRef = useRef<SnapState | null>(null);
+
+  const { getActiveSnapZone } = useSnapZones({
+    enabled: enableSnapping
+  });
 
   const getViewportConstraints = useCallback(() => {
     const isMobile = globalThis.window.innerWidth < 768;
@@ -45,60 +51,6 @@ export const useDragOptimized = ({
     };
   }, []);
 
-  const getSnapZone = useCallback((x: number, y: number, windowWidth: number): 'left' | 'right' | 'maximized' | null => {
-    if (!enableSnapping) return null;
-
-    const snapTriggerWidth = 20;
-    const topSnapTriggerHeight = 10;
-    const constraints = getViewportConstraints();
-
-    // Left edge snap
-    if (x < snapTriggerWidth && y > topSnapTriggerHeight) {
-      return 'left';
-    }
-    
-    // Right edge snap
-    if (x + windowWidth > constraints.maxX - snapTriggerWidth && y > topSnapTriggerHeight) {
-      return 'right';
-    }
-    
-    // Top edge snap (maximize)
-    if (y < topSnapTriggerHeight) {
-      return 'maximized';
-    }
-
-    return null;
-  }, [enableSnapping, getViewportConstraints]);
-
-  const getSnapBounds = useCallback((zone: 'left' | 'right' | 'maximized') => {
-    const constraints = getViewportConstraints();
-    const taskbarHeight = 48;
-
-    switch (zone) {
-      case 'left':
-        return {
-          x: 0,
-          y: 0,
-          w: Math.floor(constraints.maxX / 2),
-          h: constraints.maxY,
-        };
-      case 'right':
-        return {
-          x: Math.floor(constraints.maxX / 2),
-          y: 0,
-          w: Math.floor(constraints.maxX / 2),
-          h: constraints.maxY,
-        };
-      case 'maximized':
-        return {
-          x: 0,
-          y: 0,
-          w: constraints.maxX,
-          h: globalThis.window.innerHeight - taskbarHeight,
-        };
-    }
-  }, [getViewportConstraints]);
-
   const constrainPosition = useCallback((x: number, y: number, width: number, _height: number) => {
     const constraints = getViewportConstraints();
     const minVisibleWidth = Math.min(100, width * 0.2);
@@ -128,8 +80,9 @@ export const useDragOptimized = ({
     const newX = x - dragStateRef.current.offset.x;
     const newY = y - dragStateRef.current.offset.y;
 
-    // Check for snap zones
-    const snapZone = getSnapZone(newX, newY, window.bounds.w);
+    // Check for snap zones under the cursor
+    const zoneId = getActiveSnapZone(x, y);
+    const snapZone = zoneId ? getSnapStateForZone(zoneId) : null;
     
     if (snapZone !== activeSnapZoneRef.current) {
       activeSnapZoneRef.current = snapZone;
@@ -151,7 +104,7 @@ export const useDragOptimized = ({
     });
 
     lastPositionRef.current = null;
-  }, [windowId, windows, getSnapZone, getSnapBounds, constrainPosition, updateWindowBounds, updateWindowSnapState]);
+  }, [windowId, windows, getActiveSnapZone, constrainPosition, updateWindowBounds, updateWindowSnapState]);
 
   // Animation loop
   useEffect(() => {
@@ -208,6 +161,7 @@ export const useDragOptimized = ({
     
     // Store position for RAF to process
     lastPositionRef.current = { x: clientX, y: clientY };
+    pointerRef.current = { x: clientX, y: clientY };
   }, []);
 
   const endDrag = useCallback(() => {
@@ -216,19 +170,22 @@ export const useDragOptimized = ({
     const window = windows[windowId];
     if (window && activeSnapZoneRef.current) {
       // Apply snap on release
-      const snapBounds = getSnapBounds(activeSnapZoneRef.current);
-      if (snapBounds) {
-        updateWindowBounds(windowId, snapBounds);
-        updateWindowSnapState(windowId, activeSnapZoneRef.current);
-      }
+      snapWindow(windowId, activeSnapZoneRef.current);
     } else {
       // Clear snap state
       updateWindowSnapState(windowId, null);
+
+      // Dropped on another window's title bar, the window becomes a tab of it
+      const target = pointerRef.current && getTitleBarTarget(pointerRef.current.x, pointerRef.current.y, windowId);
+      if (window && target) {
+        groupWindows(windowId, target.id);
+      }
     }
 
     isDraggingRef.current = false;
     dragStateRef.current = null;
     lastPositionRef.current = null;
+    pointerRef.current = null;
     activeSnapZoneRef.current = null;
     setDragState(null);
     
@@ -237,7 +194,7 @@ export const useDragOptimized = ({
     document.body.style.userSelect = '';
     
     onDragEnd?.();
-  }, [windowId, windows, getSnapBounds, updateWindowBounds, updateWindowSnapState, setDragState, onDragEnd]);
+  }, [windowId, windows, snapWindow, updateWindowSnapState, groupWindows, getTitleBarTarget, setDragState, onDragEnd]);
 
   const onMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.button !== 0) return; // Only left click
@@ -1,6 +1,48 @@
 import { useState, useCallback } from 'react';
-import type { VNode, FileExplorerState } from '../types';
+import type { AppId, VNode, FileExplorerState } from '../types';
 import { virtualFileSystem } from '../services/virtualFileSystem';
+import type { VfsChangeEvent } from '../services/virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
+import { useFileSystemEvents } from './useFileSystemWatch';
+import { useTrashStore } from '../store/trashStore';
+import { fileTransferService } from '../services/fileTransferService';
+import { fileAssociationService } from '../services/fileAssociationService';
+import { shortcutUtils } from '../utils/shortcutUtils';
+
+/**
+ * Bring explorer state in line with a file system change: follow renamed
+ * folders, fall back to the nearest existing ancestor and drop stale items
+ */
+const syncWithFileSystem = (prev: FileExplorerState, event: VfsChangeEvent): FileExplorerState => {
+  const remap = (path: string) =>
+    event.type === 'renamed' && event.oldPath && pathUtils.isWithin(path, event.oldPath)
+      ? event.path + path.slice(event.oldPath.length)
+      : path;
+
+  let currentPath = remap(prev.fileSystem.currentPath);
+  while (!virtualFileSystem.exists(currentPath)) {
+    currentPath = pathUtils.dirname(currentPath);
+  }
+
+  const history = prev.fileSystem.history.map(remap);
+  history[prev.fileSystem.historyIndex] = currentPath;
+
+  const previewPath = prev.previewFile ? remap(prev.previewFile.path) : null;
+
+  return {
+    ...prev,
+    fileSystem: {
+      ...prev.fileSystem,
+      root: virtualFileSystem.getFileSystem(),
+      currentPath,
+      history,
+      selectedItems: prev.fileSystem.selectedItems
+        .map(remap)
+        .filter(path => virtualFileSystem.exists(path))
+    },
+    previewFile: previewPath ? virtualFileSystem.navigateToPath(previewPath) : null
+  };
+};
 
 /**
  * Hook for managing File Explorer state and navigation
@@ -21,6 +63,12 @@ export const useFileExplorer = (initialPath: string = '/') => {
     loading: false,
     error: null
   }));
+  const [operationError, setOperationError] = useState<string | null>(null);
+
+  // Keep in sync with changes made here, in other windows or in the terminal
+  useFileSystemEvents('/', (event) => {
+    setState(prev => syncWithFileSystem(prev, event));
+  }, { recursive: true });
 
   /**
    * Navigate to a specific path
@@ -210,23 +258,178 @@ export const useFileExplorer = (initialPath: string = '/') => {
   }, []);
 
   /**
-   * Handle double-click on item
+   * Show a path: open a folder, or open a file's folder with the file selected and previewed
+   */
+  const revealPath = useCallback((path: string) => {
+    const node = virtualFileSystem.navigateToPath(path);
+    if (!node || node.type === 'folder') {
+      navigateToPath(path);
+      return;
+    }
+
+    navigateToPath(pathUtils.dirname(node.path));
+    setState(prev => ({
+      ...prev,
+      fileSystem: {
+        ...prev.fileSystem,
+        selectedItems: [node.path]
+      },
+      previewFile: node
+    }));
+  }, [navigateToPath]);
+
+  /**
+   * Open a file in another app, surfacing launch failures as an operation error
+   */
+  const openWith = useCallback(async (path: string, appId?: AppId) => {
+    try {
+      const result = await fileAssociationService.openFile(path, appId);
+      setOperationError(result.success ? null : result.error ?? `Could not open ${path}`);
+    } catch (error) {
+      setOperationError(error instanceof Error ? error.message : `Could not open ${path}`);
+    }
+  }, []);
+
+  /**
+   * Handle double-click on item: folders open in place, shortcuts launch their
+   * target and files open in their default app, or the preview pane when that
+   * app is File Explorer itself
    */
   const handleItemDoubleClick = useCallback((node: VNode) => {
     if (node.type === 'folder') {
       navigateToPath(node.path);
+      return;
+    }
+
+    const appId = fileAssociationService.getDefaultApp(node);
+    if (shortcutUtils.isShortcutPath(node.path) || (appId && appId !== 'file-explorer')) {
+      openWith(node.path);
     } else {
-      // For files, set as preview or trigger action based on type
       setPreviewFile(node);
-      
-      // Handle special file types
-      if (node.ext === 'lnk') {
-        // Handle shortcuts - could open corresponding app
-        const appName = node.name.replace('.lnk', '').toLowerCase();
-        console.log(`Opening shortcut: ${appName}`);
-      }
     }
-  }, [navigateToPath, setPreviewFile]);
+  }, [navigateToPath, setPreviewFile, openWith]);
+
+  /**
+   * Run a file system mutation, surfacing failures as an operation error
+   */
+  const runOperation = useCallback(<T,>(operation: () => T): T | null => {
+    try {
+      const result = operation();
+      setOperationError(null);
+      return result;
+    } catch (error) {
+      setOperationError(
+        error instanceof Error ? error.message : 'Unknown file system error'
+      );
+      return null;
+    }
+  }, []);
+
+  /**
+   * Create a folder in the current directory
+   */
+  const createFolder = useCallback((name: string = 'New Folder') => {
+    return runOperation(() =>
+      virtualFileSystem.createFolder(
+        pathUtils.join(state.fileSystem.currentPath, name),
+        { onConflict: 'rename' }
+      )
+    );
+  }, [runOperation, state.fileSystem.currentPath]);
+
+  /**
+   * Create an empty file in the current directory
+   */
+  const createFile = useCallback((name: string = 'New Text Document.txt', content: string = '') => {
+    return runOperation(() =>
+      virtualFileSystem.createFile(
+        pathUtils.join(state.fileSystem.currentPath, name),
+        content,
+        { onConflict: 'rename' }
+      )
+    );
+  }, [runOperation, state.fileSystem.currentPath]);
+
+  /**
+   * Import files picked or dropped from the user's machine into the current directory
+   */
+  const importFiles = useCallback(async (source: FileList | DataTransfer) => {
+    const targetPath = state.fileSystem.currentPath;
+    try {
+      const result = 'items' in source
+        ? await fileTransferService.importDataTransfer(source, targetPath)
+        : await fileTransferService.importFiles(source, targetPath);
+
+      setOperationError(result.failed.length > 0
+        ? `Could not import ${result.failed.map(failure => `${failure.name} (${failure.error})`).join(', ')}`
+        : null);
+      return result.imported;
+    } catch (error) {
+      setOperationError(error instanceof Error ? error.message : 'Unknown file system error');
+      return [];
+    }
+  }, [state.fileSystem.currentPath]);
+
+  /**
+   * Download a file, or a folder as a ZIP archive
+   */
+  const downloadItem = useCallback((path: string) => {
+    runOperation(() => fileTransferService.download(path));
+  }, [runOperation]);
+
+  /**
+   * Rename a file or folder
+   */
+  const renameItem = useCallback((path: string, newName: string) => {
+    return runOperation(() => virtualFileSystem.rename(path, newName));
+  }, [runOperation]);
+
+  /**
+   * Move files and folders to the Recycle Bin
+   */
+  const trashItems = useCallback((paths: string[]) => {
+    const trashed = runOperation(() => {
+      useTrashStore.getState().moveToTrash(paths);
+      return true;
+    });
+    return trashed === true;
+  }, [runOperation]);
+
+  /**
+   * Permanently delete files and folders
+   */
+  const deleteItems = useCallback((paths: string[]) => {
+    const deleted = runOperation(() => {
+      paths.forEach(path => virtualFileSystem.delete(path, { recursive: true }));
+      return true;
+    });
+    return deleted === true;
+  }, [runOperation]);
+
+  /**
+   * Move files and folders into another folder
+   */
+  const moveItems = useCallback((paths: string[], targetFolderPath: string) => {
+    return runOperation(() =>
+      paths.map(path => virtualFileSystem.move(path, targetFolderPath, { onConflict: 'rename' }))
+    );
+  }, [runOperation]);
+
+  /**
+   * Copy files and folders into another folder
+   */
+  const copyItems = useCallback((paths: string[], targetFolderPath: string) => {
+    return runOperation(() =>
+      paths.map(path => virtualFileSystem.copy(path, targetFolderPath, { onConflict: 'rename' }))
+    );
+  }, [runOperation]);
+
+  /**
+   * Dismiss the last operation error
+   */
+  const clearOperationError = useCallback(() => {
+    setOperationError(null);
+  }, []);
 
   /**
    * Check if can navigate back
@@ -250,6 +453,7 @@ export const useFileExplorer = (initialPath: string = '/') => {
     contextMenu: state.contextMenu,
     loading: state.loading,
     error: state.error,
+    operationError,
 
     // Navigation
     navigateToPath,
@@ -276,6 +480,20 @@ export const useFileExplorer = (initialPath: string = '/') => {
     setSortBy,
 
     // Interactions
-    handleItemDoubleClick
+    handleItemDoubleClick,
+    revealPath,
+    openWith,
+
+    // File operations
+    createFolder,
+    createFile,
+    renameItem,
+    importFiles,
+    downloadItem,
+    trashItems,
+    deleteItems,
+    moveItems,
+    copyItems,
+    clearOperationError
   };
 };
\ No newline at end of file
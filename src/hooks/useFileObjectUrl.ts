@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import type { VNode } from '../types';
+import { fileTransferService } from '../services/fileTransferService';
+
+/**
+ * URL that media elements can load a file from: a temporary object URL for
+ * stored bytes, or the file's own URL when it is served. Object URLs are
+ * revoked when the file changes or the component unmounts.
+ */
+export const useFileObjectUrl = (file: VNode | null): string | null => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const data = file?.binary ?? null;
+  const mimeType = file ? fileTransferService.getMimeType(file) : '';
+
+  useEffect(() => {
+    if (!data) {
+      setObjectUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [data, mimeType]);
+
+  return data ? objectUrl : file?.url ?? null;
+};
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import type { VNode } from '../types';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import type { VfsChangeEvent, VfsWatchOptions } from '../services/virtualFileSystem';
+
+/**
+ * Subscribe to virtual file system changes at or below a path.
+ * The handler can change between renders without resubscribing.
+ */
+export const useFileSystemEvents = (
+  path: string | null,
+  handler: (event: VfsChangeEvent) => void,
+  options: VfsWatchOptions = {}
+) => {
+  const handlerRef = useRef(handler);
+  const recursive = options.recursive ?? false;
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!path) return;
+    return virtualFileSystem.watch(path, (event) => handlerRef.current(event), { recursive });
+  }, [path, recursive]);
+};
+
+/**
+ * Live view of a virtual file system node. Re-renders when the node, its
+ * direct children or (when recursive) anything below it changes.
+ */
+export const useFileSystemNode = (
+  path: string | null,
+  options: VfsWatchOptions = {}
+): VNode | null => {
+  const recursive = options.recursive ?? false;
+
+  const subscribe = useCallback((onChange: () => void) => {
+    if (!path) return () => {};
+    return virtualFileSystem.watch(path, onChange, { recursive });
+  }, [path, recursive]);
+
+  const getSnapshot = useCallback(() => {
+    return path ? virtualFileSystem.navigateToPath(path) : null;
+  }, [path]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useWindowStore } from '../store/windowStore';
 import { useSnapZones } from './useSnapZones';
+import type { SnapZoneId } from './useSnapZones';
 
 interface GlobalSnapOverlayState {
   visible: boolean;
   activeZone: string | null;
   snapZones: Array<{
-    id: 'left' | 'right' | 'maximize';
+    id: SnapZoneId;
     bounds: { x: number; y: number; w: number; h: number };
     active: boolean;
   }>;
@@ -0,0 +1,104 @@
+import { useEffect } from 'react';
+import { useWindowStore } from '../store/windowStore';
+import { announceToScreenReader } from '../utils/accessibility';
+import { WINDOW_CONSTRAINTS } from '../utils';
+
+// Pixels an arrow key moves or sizes a window by, and with Shift held
+const STEP = 10;
+const LARGE_STEP = 50;
+
+const ARROWS: Record<string, { dx: number; dy: number }> = {
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+};
+
+/**
+ * Keyboard move/size mode for the window in the store's `moveSizeState`. Arrow
+ * keys move the window or size it from its bottom-right corner, Shift takes
+ * larger steps, Tab switches between moving and sizing, Enter keeps the change
+ * and Escape puts the window back. Clicking anywhere also ends the mode.
+ */
+export const useKeyboardMoveSize = () => {
+  const moveSizeState = useWindowStore(state => state.moveSizeState);
+  const windowId = moveSizeState?.windowId;
+  const mode = moveSizeState?.mode;
+
+  // Tell screen reader users what they can do once the mode starts or switches
+  useEffect(() => {
+    if (!windowId || !mode) return;
+    const window = useWindowStore.getState().windows[windowId];
+    if (!window) return;
+    announceToScreenReader(
+      mode === 'move'
+        ? `Moving ${window.title}. Use the arrow keys to move, Tab to size, Enter to finish or Escape to cancel.`
+        : `Sizing ${window.title}. Use the arrow keys to size, Tab to move, Enter to finish or Escape to cancel.`,
+      'assertive'
+    );
+  }, [windowId, mode]);
+
+  useEffect(() => {
+    if (!windowId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const store = useWindowStore.getState();
+      const state = store.moveSizeState;
+      const window = state && store.windows[state.windowId];
+      if (!state) return;
+      if (!window) {
+        store.endMoveSize();
+        return;
+      }
+
+      // Shortcuts like Win+Arrow keep working while the mode is on
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+      const arrow = ARROWS[event.key];
+      if (arrow) {
+        const step = event.shiftKey ? LARGE_STEP : STEP;
+        const { x, y, w, h } = window.bounds;
+        if (state.mode === 'move') {
+          store.updateWindowBounds(window.id, { x: x + arrow.dx * step, y: y + arrow.dy * step });
+        } else {
+          store.updateWindowBounds(window.id, {
+            w: Math.max(WINDOW_CONSTRAINTS.MIN_WIDTH, w + arrow.dx * step),
+            h: Math.max(WINDOW_CONSTRAINTS.MIN_HEIGHT, h + arrow.dy * step),
+          });
+        }
+
+        const bounds = useWindowStore.getState().windows[window.id].bounds;
+        announceToScreenReader(
+          state.mode === 'move'
+            ? `Moved to ${bounds.x}, ${bounds.y}`
+            : `Sized to ${bounds.w} by ${bounds.h}`
+        );
+      } else if (event.key === 'Tab') {
+        store.startMoveSize(window.id, state.mode === 'move' ? 'size' : 'move');
+      } else if (event.key === 'Enter') {
+        store.endMoveSize();
+        announceToScreenReader(`${window.title} placed`);
+      } else if (event.key === 'Escape') {
+        store.endMoveSize(true);
+        announceToScreenReader(`${window.title} put back`);
+      } else {
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    const handleMouseDown = () => useWindowStore.getState().endMoveSize();
+
+    // Capturing on window gets the keys before the desktop shortcuts on document
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('mousedown', handleMouseDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('mousedown', handleMouseDown, true);
+    };
+  }, [windowId]);
+
+  return moveSizeState;
+};
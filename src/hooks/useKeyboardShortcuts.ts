@@ -1,8 +1,26 @@
 import { useEffect, useCallback, useRef, useState } from 'react';
 import { useWindowStore } from '../store/windowStore';
 import { useStartMenuStore } from '../store/startMenuStore';
+import { useSessionStore } from '../store/sessionStore';
 import { windowUtils } from '../utils';
-import type { KeyboardShortcut } from '../types';
+import { announceToScreenReader } from '../utils/accessibility';
+import type { KeyboardShortcut, SnapDirection, SnapState } from '../types';
+
+// How snap states are read out
+const SNAP_LABELS: Record<SnapState, string> = {
+  'left': 'the left half',
+  'right': 'the right half',
+  'maximized': 'full screen',
+  'top-left': 'the top left quarter',
+  'top-right': 'the top right quarter',
+  'bottom-left': 'the bottom left quarter',
+  'bottom-right': 'the bottom right quarter',
+  'left-third': 'the left third',
+  'center-third': 'the center third',
+  'right-third': 'the right third',
+  'left-two-thirds': 'the left two thirds',
+  'right-two-thirds': 'the right two thirds',
+};
 
 interface UseKeyboardShortcutsOptions {
   enabled?: boolean;
@@ -49,6 +67,40 @@ export const useKeyboardShortcuts = (
 
   // Get default system shortcuts
   const getSystemShortcuts = useCallback((): KeyboardShortcut[] => {
+    // Move the focused window to a neighbouring workspace, and the desktop along with it
+    const moveFocusedWindowToWorkspace = (offset: number) => {
+      const focusedWindow = windowStore.getFocusedWindow();
+      const index = windowStore.workspaces.findIndex(w => w.id === windowStore.activeWorkspaceId);
+      const target = windowStore.workspaces[index + offset];
+      if (focusedWindow && target) {
+        windowStore.moveWindowToWorkspace(focusedWindow.id, target.id);
+        windowStore.focusWindow(focusedWindow.id);
+      }
+    };
+
+    // Step the focused window to its next snap state in a direction
+    const cycleFocusedWindowSnap = (direction: SnapDirection) => {
+      const focusedWindow = windowStore.getFocusedWindow();
+      if (!focusedWindow) return;
+
+      const next = windowUtils.getNextSnapState(focusedWindow.snapState ?? null, direction);
+      if (next === 'minimized') {
+        windowStore.minimizeWindow(focusedWindow.id);
+        announceToScreenReader(`${focusedWindow.title} minimized`);
+        return;
+      }
+      if (next === null) {
+        windowStore.restoreWindow(focusedWindow.id);
+        announceToScreenReader(`${focusedWindow.title} restored`);
+        return;
+      }
+
+      windowStore.snapWindow(focusedWindow.id, next);
+      announceToScreenReader(
+        next === 'maximized' ? `${focusedWindow.title} maximized` : `${focusedWindow.title} snapped to ${SNAP_LABELS[next]}`
+      );
+    };
+
     return [
       // Start menu
       {
@@ -84,17 +136,53 @@ export const useKeyboardShortcuts = (
         context: 'desktop'
       },
 
-      // Window snapping - Left
+      // Window snapping, stepping through the snap states in each direction
       {
         id: 'snap-window-left',
         keys: ['Win', 'Left'],
-        description: 'Snap window to left half',
+        description: 'Snap window to the left',
+        action: () => cycleFocusedWindowSnap('left'),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'snap-window-right',
+        keys: ['Win', 'Right'],
+        description: 'Snap window to the right',
+        action: () => cycleFocusedWindowSnap('right'),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'maximize-window',
+        keys: ['Win', 'Up'],
+        description: 'Maximize window, or snap it to the top',
+        action: () => cycleFocusedWindowSnap('up'),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'restore-window',
+        keys: ['Win', 'Down'],
+        description: 'Restore or minimize window, or snap it to the bottom',
+        action: () => cycleFocusedWindowSnap('down'),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+
+      // Keyboard move and size
+      {
+        id: 'move-size-window',
+        keys: ['Alt', 'Space'],
+        description: 'Move or size the focused window with the arrow keys',
         action: () => {
           const focusedWindow = windowStore.getFocusedWindow();
           if (focusedWindow) {
-            const snapBounds = windowUtils.getSnapBounds('left', window.innerWidth, window.innerHeight);
-            windowStore.updateWindowBounds(focusedWindow.id, snapBounds);
-            windowStore.updateWindowSnapState(focusedWindow.id, 'left');
+            windowStore.startMoveSize(focusedWindow.id, 'move');
           }
         },
         preventDefault: true,
@@ -102,40 +190,87 @@ export const useKeyboardShortcuts = (
         context: 'desktop'
       },
 
-      // Window snapping - Right
+      // Workspaces
       {
-        id: 'snap-window-right',
-        keys: ['Win', 'Right'],
-        description: 'Snap window to right half',
+        id: 'previous-workspace',
+        keys: ['Ctrl', 'Win', 'Left'],
+        description: 'Switch to the previous workspace',
         action: () => {
-          const focusedWindow = windowStore.getFocusedWindow();
-          if (focusedWindow) {
-            const snapBounds = windowUtils.getSnapBounds('right', window.innerWidth, window.innerHeight);
-            windowStore.updateWindowBounds(focusedWindow.id, snapBounds);
-            windowStore.updateWindowSnapState(focusedWindow.id, 'right');
-          }
+          windowStore.switchWorkspaceBy(-1);
+        },
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'next-workspace',
+        keys: ['Ctrl', 'Win', 'Right'],
+        description: 'Switch to the next workspace',
+        action: () => {
+          windowStore.switchWorkspaceBy(1);
+        },
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'move-window-previous-workspace',
+        keys: ['Ctrl', 'Win', 'Shift', 'Left'],
+        description: 'Move window to the previous workspace',
+        action: () => moveFocusedWindowToWorkspace(-1),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'move-window-next-workspace',
+        keys: ['Ctrl', 'Win', 'Shift', 'Right'],
+        description: 'Move window to the next workspace',
+        action: () => moveFocusedWindowToWorkspace(1),
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'new-workspace',
+        keys: ['Ctrl', 'Win', 'd'],
+        description: 'Create a workspace and switch to it',
+        action: () => {
+          windowStore.switchWorkspace(windowStore.createWorkspace());
+        },
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'close-workspace',
+        keys: ['Ctrl', 'Win', 'F4'],
+        description: 'Close the workspace, moving its windows to the one before',
+        action: () => {
+          windowStore.removeWorkspace(windowStore.activeWorkspaceId);
+        },
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+      {
+        id: 'task-view',
+        keys: ['Win', 'Tab'],
+        description: 'Show all workspaces',
+        action: () => {
+          windowStore.setWorkspaceOverviewOpen(!windowStore.workspaceOverviewOpen);
         },
         preventDefault: true,
         global: true,
         context: 'desktop'
       },
 
-      // Window maximize
       {
-        id: 'maximize-window',
-        keys: ['Win', 'Up'],
-        description: 'Maximize focused window',
+        id: 'window-overview',
+        keys: ['F3'],
+        description: 'Show all windows side by side',
         action: () => {
-          const focusedWindow = windowStore.getFocusedWindow();
-          if (focusedWindow) {
-            const snapBounds = windowUtils.getSnapBounds('maximized', window.innerWidth, window.innerHeight);
-            windowStore.updateWindowBounds(focusedWindow.id, snapBounds);
-            windowStore.updateWindowSnapState(focusedWindow.id, 'maximized');
-            // Also update the maximized state in the store
-            if (!focusedWindow.maximized) {
-              windowStore.maximizeWindow(focusedWindow.id);
-            }
-          }
+          windowStore.setWindowOverviewOpen(!windowStore.windowOverviewOpen);
         },
         preventDefault: true,
         global: true,
@@ -158,6 +293,19 @@ export const useKeyboardShortcuts = (
         context: 'window'
       },
 
+      // Reopen closed window
+      {
+        id: 'reopen-closed-window',
+        keys: ['Ctrl', 'Shift', 'T'],
+        description: 'Reopen the last closed window',
+        action: () => {
+          useSessionStore.getState().reopenClosedWindow();
+        },
+        preventDefault: true,
+        global: true,
+        context: 'desktop'
+      },
+
       // Minimize window
       {
         id: 'minimize-window',
@@ -1,5 +1,9 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { useNotepadStore } from '../store/notepadStore';
+import { useFileSystemEvents } from './useFileSystemWatch';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import type { VfsChangeEvent } from '../services/virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
 
 interface UseNotepadOptions {
   windowId: string;
@@ -19,6 +23,30 @@ export const useNotepad = ({ onUnsavedStateChange }: UseNotepadOptions) => {
     }
   }, [activeDocument?.id, store.unsavedChanges, onUnsavedStateChange]);
 
+  // Keep a document linked to a virtual file in sync with the file
+  const linkedPath = activeDocument?.filePath ?? null;
+  useFileSystemEvents(linkedPath, (event: VfsChangeEvent) => {
+    if (!activeDocument || !linkedPath) return;
+
+    if (event.type === 'renamed' && event.oldPath && pathUtils.isWithin(linkedPath, event.oldPath)) {
+      const filePath = event.path + linkedPath.slice(event.oldPath.length);
+      store.syncDocumentFromFile(activeDocument.id, { filePath, title: pathUtils.basename(filePath) });
+      return;
+    }
+
+    const file = virtualFileSystem.navigateToPath(linkedPath);
+    if (!file || file.type !== 'file') {
+      // The file is gone; keep the text as an unlinked document
+      store.syncDocumentFromFile(activeDocument.id, { filePath: undefined });
+      return;
+    }
+
+    const content = file.content ?? '';
+    if (content !== activeDocument.content && !store.hasUnsavedChanges(activeDocument.id)) {
+      store.syncDocumentFromFile(activeDocument.id, { content });
+    }
+  });
+
   // Create new document if none exists
   useEffect(() => {
     if (!activeDocument && Object.keys(store.documents).length === 0) {
@@ -61,10 +89,11 @@ Start typing to begin...`,
   const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
     if (!activeDocument) return;
 
-    // Ctrl+S: Manual save (create version)
+    // Ctrl+S: Manual save (create version and write the linked file)
     if (event.ctrlKey && event.key === 's') {
       event.preventDefault();
       store.saveVersion(activeDocument.id);
+      store.saveToFile(activeDocument.id);
     }
 
     // Ctrl+N: New document
@@ -103,7 +132,7 @@ Start typing to begin...`,
         textarea.selectionStart = textarea.selectionEnd = start + 1;
       }, 0);
     }
-  }, [activeDocument, store.saveVersion, store.createDocument, store.toggleMarkdownMode, store.toggleMarkdownPreview, handleContentChange]);
+  }, [activeDocument, store.saveVersion, store.saveToFile, store.createDocument, store.toggleMarkdownMode, store.toggleMarkdownPreview, handleContentChange]);
 
   // Export functionality
   const exportDocument = useCallback(async (format: 'txt' | 'md' | 'clipboard') => {
@@ -159,6 +188,22 @@ Start typing to begin...`,
     }
   }, []);
 
+  // Place the caret at a 1-based line and column and scroll the line into view
+  const goToLine = useCallback((line: number, column = 1) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lines = textarea.value.split('\n');
+    const index = Math.min(Math.max(line, 1), lines.length) - 1;
+    const lineStart = lines.slice(0, index).reduce((offset, text) => offset + text.length + 1, 0);
+    const position = lineStart + Math.min(Math.max(column - 1, 0), lines[index].length);
+
+    textarea.focus();
+    textarea.setSelectionRange(position, position);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, index * lineHeight - textarea.clientHeight / 2);
+  }, []);
+
   return {
     // State
     activeDocument,
@@ -183,6 +228,7 @@ Start typing to begin...`,
     getVersions: () => activeDocument ? store.getVersions(activeDocument.id) : [],
     
     // File operations
+    openFile: store.openFile,
     exportDocument,
     importDocument,
     
@@ -192,6 +238,7 @@ Start typing to begin...`,
       return docId ? store.hasUnsavedChanges(docId) : false;
     },
     focusEditor,
+    goToLine,
     textareaRef,
   };
 };
\ No newline at end of file
@@ -17,7 +17,7 @@ const MIN_WIDTH = 320;
 const MIN_HEIGHT = 240;
 
 export const useResize = ({ windowId, onResizeStart, onResizeEnd }: UseResizeOptions): ResizeHandlers => {
-  const { windows, setResizeState, updateWindowBounds } = useWindowStore();
+  const { windows, setResizeState, updateWindowBounds, resizeSnapGroup } = useWindowStore();
   const resizeStateRef = useRef<ResizeState | null>(null);
   const isResizingRef = useRef(false);
 
@@ -141,6 +141,15 @@ export const useResize = ({ windowId, onResizeStart, onResizeEnd }: UseResizeOpt
       startPosition: { x: clientX, y: clientY },
     };
 
+    // Windows in a snap group move the shared edges of the others with them
+    const applyBounds = (bounds: typeof window.bounds) => {
+      if (window.snapGroupId) {
+        resizeSnapGroup(windowId, bounds);
+      } else {
+        updateWindowBounds(windowId, bounds);
+      }
+    };
+
     resizeStateRef.current = resizeState;
     isResizingRef.current = true;
     setResizeState(resizeState);
@@ -162,7 +171,7 @@ export const useResize = ({ windowId, onResizeStart, onResizeEnd }: UseResizeOpt
         deltaY
       );
 
-      updateWindowBounds(windowId, newBounds);
+      applyBounds(newBounds);
     };
 
     const handleTouchMove = (e: TouchEvent) => {
@@ -181,7 +190,7 @@ export const useResize = ({ windowId, onResizeStart, onResizeEnd }: UseResizeOpt
         deltaY
       );
 
-      updateWindowBounds(windowId, newBounds);
+      applyBounds(newBounds);
     };
 
     const handleEnd = () => {
@@ -222,7 +231,7 @@ export const useResize = ({ windowId, onResizeStart, onResizeEnd }: UseResizeOpt
     document.addEventListener('touchend', handleEndWithKeyCleanup);
     document.addEventListener('touchcancel', handleEndWithKeyCleanup);
     document.addEventListener('keydown', handleKeyDown);
-  }, [windowId, windows, setResizeState, updateWindowBounds, calculateNewBounds, onResizeStart, onResizeEnd]);
+  }, [windowId, windows, setResizeState, updateWindowBounds, resizeSnapGroup, calculateNewBounds, onResizeStart, onResizeEnd]);
 
   const handleMouseDown = useCallback((handle: ResizeState['handle']) => (e: React.MouseEvent) => {
     // Only handle left mouse button
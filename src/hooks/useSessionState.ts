@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { useSessionStore } from '../store/sessionStore';
+
+/**
+ * Keep an app's state in its window's session. The state is saved whenever it
+ * changes and must survive JSON; when the window comes back from a restored or
+ * loaded session, `restore` is called once with what was saved.
+ */
+export function useSessionState<T>(windowId: string, state: T, restore: (saved: T) => void) {
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+  const restoredRef = useRef(false);
+  const serialized = JSON.stringify(state);
+
+  useEffect(() => {
+    const { appStates, setAppState } = useSessionStore.getState();
+    if (!restoredRef.current) {
+      restoredRef.current = true;
+      if (windowId in appStates) {
+        restoreRef.current(appStates[windowId] as T);
+        return;
+      }
+    }
+    setAppState(windowId, JSON.parse(serialized));
+  }, [windowId, serialized]);
+}
@@ -1,8 +1,11 @@
 import { useMemo, useCallback } from 'react';
 import { windowUtils } from '../utils';
+import type { SnapState } from '../types';
+
+export type SnapZoneId = 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'maximize';
 
 interface SnapZone {
-  id: 'left' | 'right' | 'maximize';
+  id: SnapZoneId;
   bounds: { x: number; y: number; w: number; h: number };
   active: boolean;
   triggerBounds: { x: number; y: number; w: number; h: number };
@@ -14,7 +17,7 @@ interface UseSnapZonesOptions {
 
 interface UseSnapZonesReturn {
   snapZones: SnapZone[];
-  getActiveSnapZone: (x: number, y: number) => string | null;
+  getActiveSnapZone: (x: number, y: number) => SnapZoneId | null;
   getSnapBounds: (zoneId: string) => { x: number; y: number; w: number; h: number } | null;
 }
 
@@ -27,8 +30,22 @@ export const useSnapZones = ({ enabled }: UseSnapZonesOptions): UseSnapZonesRetu
     const taskbarHeight = 48;
     const snapTriggerWidth = 20; // Pixels from edge to trigger snap
     const topSnapTriggerHeight = 10; // Pixels from top to trigger maximize
+    const cornerTriggerSize = 40; // Pixels from a corner to trigger quarter snap
+    const availableHeight = viewportHeight - taskbarHeight;
+
+    const corner = (id: SnapZoneId, x: number, y: number): SnapZone => ({
+      id,
+      bounds: windowUtils.getSnapBounds(id as SnapState, viewportWidth, viewportHeight),
+      active: false,
+      triggerBounds: { x, y, w: cornerTriggerSize, h: cornerTriggerSize },
+    });
 
+    // Corners come first so they win over the edges they overlap
     const zones: SnapZone[] = [
+      corner('top-left', 0, 0),
+      corner('top-right', viewportWidth - cornerTriggerSize, 0),
+      corner('bottom-left', 0, availableHeight - cornerTriggerSize),
+      corner('bottom-right', viewportWidth - cornerTriggerSize, availableHeight - cornerTriggerSize),
       // Left snap zone
       {
         id: 'left',
@@ -70,7 +87,7 @@ export const useSnapZones = ({ enabled }: UseSnapZonesOptions): UseSnapZonesRetu
     return zones;
   }, [enabled]);
 
-  const getActiveSnapZone = useCallback((x: number, y: number): string | null => {
+  const getActiveSnapZone = useCallback((x: number, y: number): SnapZoneId | null => {
     if (!enabled) return null;
 
     for (const zone of snapZones) {
@@ -106,4 +123,10 @@ export const useSnapZones = ({ enabled }: UseSnapZonesOptions): UseSnapZonesRetu
     getActiveSnapZone,
     getSnapBounds,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * The snap state a window takes when dropped on a zone
+ */
+export const getSnapStateForZone = (zoneId: SnapZoneId): SnapState =>
+  zoneId === 'maximize' ? 'maximized' : zoneId;
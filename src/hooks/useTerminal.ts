@@ -1,88 +1,253 @@
-import { useCallback, useEffect, useRef } from 'react';
-import { useTerminalStore } from '../store/terminalStore';
-import { useWindowStore } from '../store/windowStore';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getStoredHistory, useTerminalStore } from '../store/terminalStore';
+import { createWindowControl, useWindowStore } from '../store/windowStore';
 import { usePreferencesStore } from '../store/preferencesStore';
+import { createJobControl, useJobStore } from '../store/jobStore';
 import { projectService } from '../services/projectService';
-import { findCommand, getAllCommandNames, parseCommand, getAutocompleteSuggestions } from '../utils/terminalCommands';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { fileAssociationService } from '../services/fileAssociationService';
+import { appLauncher } from '../services/appLauncher';
+import { clipboardService } from '../services/clipboardService';
+import { getAllCommandNames, getCompletionWord, parseCommand, getAutocompleteSuggestions } from '../utils/terminalCommands';
+import { CLEAR_TERMINAL_MARKER, runShell, type ShellRunResult } from '../utils/shellInterpreter';
+import { createShellEnvironment } from '../utils/shellEnvironment';
+import { resolveTerminalPath, TERMINAL_HOME } from '../utils/fileCommands';
+import { expandHistory, TERMINAL_RC_FILE } from '../utils/shellCommands';
+import { formatJobLine, formatJobState, getSignalExitStatus } from '../utils/jobCommands';
+import { ansi, type AnsiLinkDetectors } from '../utils/ansi';
+import { useSessionState } from './useSessionState';
 import type { TerminalContext, TerminalOutput, Project, AppId } from '../types';
 
+// Longest prefix shared by all completions, ignoring case
+const getCommonPrefix = (values: string[]): string => {
+  return values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length].toLowerCase() === value[length]?.toLowerCase()) {
+      length++;
+    }
+    return prefix.slice(0, length);
+  });
+};
+
 export const useTerminal = (windowId: string) => {
   const terminalStore = useTerminalStore();
+  const session = terminalStore.getSession(windowId);
   const windowStore = useWindowStore();
   const preferencesStore = usePreferencesStore();
   const inputRef = useRef<HTMLInputElement>(null);
+  const startupScriptRan = useRef(false);
+
+  // Variables and aliases live as long as the window
+  const [env] = useState(() => createShellEnvironment(TERMINAL_HOME, useTerminalStore.getState().getSession(windowId).cwd));
+
+  // The window's session is restored from storage or started fresh
+  useEffect(() => {
+    terminalStore.openSession(windowId);
+  }, [terminalStore, windowId]);
+
+  // Background jobs report how they ended once they finish
+  const jobs = useMemo(() => createJobControl(windowId, (job, status) => {
+    const output: TerminalOutput = {
+      type: status === 0 ? 'info' : 'warning',
+      content: formatJobLine(job, formatJobState(status)),
+      timestamp: new Date(),
+    };
+    useTerminalStore.getState().addToHistory(windowId, '', [output]);
+  }), [windowId]);
+  const windows = useMemo(() => createWindowControl(windowId), [windowId]);
+
+  // Project slugs in output link to the project
+  const [projectSlugs, setProjectSlugs] = useState<Set<string>>(() => new Set());
+  useEffect(() => {
+    let active = true;
+    projectService.getAllProjects()
+      .then(projects => {
+        if (active) setProjectSlugs(new Set(projects.map(project => project.slug)));
+      })
+      .catch(error => console.warn('Failed to load project slugs for Terminal links:', error));
+    return () => {
+      active = false;
+    };
+  }, []);
 
-  // Create terminal context
-  const createContext = useCallback((): TerminalContext => ({
-    openApp: (appId: AppId, params?: any) => {
-      windowStore.createWindow(appId, params);
-    },
-    getProjects: async (): Promise<Project[]> => {
-      return await projectService.getAllProjects();
-    },
-    getTheme: () => preferencesStore.theme,
-    setTheme: (theme: string) => preferencesStore.setTheme(theme as any),
-    getWallpaper: () => preferencesStore.wallpaper,
-    setWallpaper: (wallpaper: string) => preferencesStore.setWallpaper(wallpaper),
-  }), [windowStore, preferencesStore]);
+  // Link detectors for output printed in a folder, shared by entries with the same folder
+  const getLinkDetectors = useMemo(() => {
+    const detectors = new Map<string, AnsiLinkDetectors>();
+    return (cwd: string = TERMINAL_HOME): AnsiLinkDetectors => {
+      if (!detectors.has(cwd)) {
+        detectors.set(cwd, {
+          resolvePath: (word: string) => {
+            const path = resolveTerminalPath({ cwd }, word);
+            return virtualFileSystem.exists(path) ? path : null;
+          },
+          isProjectSlug: (word: string) => projectSlugs.has(word),
+        });
+      }
+      return detectors.get(cwd)!;
+    };
+  }, [projectSlugs]);
+
+  // Follow a link in the output: files open in their app, projects in Projects
+  const openLink = useCallback((href: string) => {
+    const link = ansi.parseLink(href);
+    if (link?.type === 'file') {
+      fileAssociationService.openFile(link.path).catch(error => console.warn(`Failed to open ${link.path}:`, error));
+    } else if (link?.type === 'project') {
+      appLauncher.launchAppWithData('projects', { slug: link.slug }).catch(error => console.warn(`Failed to open project ${link.slug}:`, error));
+    } else if (link?.type === 'url') {
+      window.open(link.url, '_blank', 'noopener,noreferrer');
+    }
+  }, []);
+
+  // The session as plain text, as it would read in a terminal
+  const copyOutput = useCallback(() => {
+    const text = terminalStore.getSession(windowId).history
+      .flatMap(entry => [
+        ...(entry.command ? [`$ ${entry.command}`] : []),
+        ...entry.output.map(output => ansi.strip(output.content)),
+      ])
+      .join('\n');
+    return clipboardService.copyToClipboard(text);
+  }, [terminalStore, windowId]);
+
+  // Create terminal context; `cd` updates it directly so later commands in the same line see the new folder
+  const createContext = useCallback((): TerminalContext => {
+    const context: TerminalContext = {
+      openApp: (appId: AppId, params?: any) => {
+        windowStore.createWindow(appId, params);
+      },
+      getProjects: async (): Promise<Project[]> => {
+        return await projectService.getAllProjects();
+      },
+      getTheme: () => preferencesStore.theme,
+      setTheme: (theme: string) => preferencesStore.setTheme(theme as any),
+      getWallpaper: () => preferencesStore.wallpaper,
+      setWallpaper: (wallpaper: string) => preferencesStore.setWallpaper(wallpaper),
+      fs: virtualFileSystem,
+      cwd: useTerminalStore.getState().getSession(windowId).cwd,
+      setCwd: (path: string) => {
+        context.cwd = path;
+        useTerminalStore.getState().setCwd(windowId, path);
+      },
+      env,
+      getCommandHistory: () => useTerminalStore.getState().getSession(windowId).commandHistory,
+      clearCommandHistory: () => useTerminalStore.getState().clearCommandHistory(windowId),
+      jobs,
+      windows,
+    };
+    return context;
+  }, [windowStore, preferencesStore, env, jobs, windows, windowId]);
+
+  // The window's output and working directory come back with its session
+  useSessionState(windowId, { cwd: session.cwd, history: getStoredHistory(session.history) }, (saved) => {
+    useTerminalStore.getState().restoreSession(windowId, saved);
+    env.set('PWD', saved.cwd, true);
+  });
 
   // Execute command
   const executeCommand = useCallback(async (input: string) => {
-    const trimmedInput = input.trim();
+    let trimmedInput = input.trim();
     if (!trimmedInput) return;
 
-    terminalStore.setIsProcessing(true);
-    
+    // `!!` and `!n` refer to earlier commands; the expanded line is what runs and is remembered
+    try {
+      trimmedInput = expandHistory(trimmedInput, terminalStore.getSession(windowId).commandHistory);
+    } catch (error) {
+      const output: TerminalOutput = {
+        type: 'error',
+        content: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      };
+      terminalStore.addToHistory(windowId, trimmedInput, [output]);
+      terminalStore.setCurrentInput(windowId, '');
+      return;
+    }
+
+    terminalStore.setIsProcessing(windowId, true);
+    terminalStore.setCurrentInput(windowId, '');
+
+    // The line runs as the window's foreground job; its entry fills in as output streams
+    const context = createContext();
+    let result: ShellRunResult | undefined;
+    let streamed: TerminalOutput[] = [];
+    const job = useJobStore.getState().startJob({
+      windowId,
+      command: trimmedInput,
+      run: async (signal, { pid }) => {
+        try {
+          result = await runShell(trimmedInput, context, {
+            signal,
+            onOutput: outputs => {
+              streamed = outputs;
+              // Clearing the screen waits until the command is done
+              if (!outputs.some(output => output.content === CLEAR_TERMINAL_MARKER)) {
+                useTerminalStore.getState().setJobOutput(windowId, pid, outputs);
+              }
+            },
+          });
+        } catch (error) {
+          const output: TerminalOutput = {
+            type: 'error',
+            content: `Error executing command: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            timestamp: new Date(),
+          };
+          result = { exitCode: 1, outputs: [...streamed, output] };
+        }
+        return result.exitCode;
+      },
+    });
+    terminalStore.addToHistory(windowId, trimmedInput, [], job.pid);
+
     try {
-      const { command, args } = parseCommand(trimmedInput);
-      const cmd = findCommand(command);
+      const status = await useJobStore.getState().waitForJob(job.pid);
+      const outputs = result?.outputs ?? streamed;
+
+      // Handle special commands: clearing keeps only what was printed afterwards
+      const clearIndex = outputs.map(output => output.content).lastIndexOf(CLEAR_TERMINAL_MARKER);
+      if (clearIndex !== -1) {
+        terminalStore.clearHistory(windowId);
+        const remaining = outputs.slice(clearIndex + 1);
+        if (remaining.length > 0) {
+          terminalStore.addToHistory(windowId, '', remaining);
+        }
+      } else {
+        terminalStore.setJobOutput(windowId, job.pid, outputs);
+      }
 
-      if (!cmd) {
+      // Interrupted or killed before the command finished
+      if (!result) {
         const output: TerminalOutput = {
-          type: 'error',
-          content: `Command '${command}' not found. Type 'help' to see available commands.`,
+          type: 'warning',
+          content: status === getSignalExitStatus('SIGINT') ? '^C' : formatJobState(status),
           timestamp: new Date(),
         };
-        terminalStore.addToHistory(trimmedInput, [output]);
-      } else {
-        const context = createContext();
-        const result = await cmd.execute(args, context);
-        
-        // Handle special commands
-        if (result.content === '__CLEAR_TERMINAL__') {
-          terminalStore.clearHistory();
-        } else {
-          terminalStore.addToHistory(trimmedInput, [result]);
-        }
+        terminalStore.addToHistory(windowId, '', [output]);
       }
 
       // Add to command history
-      terminalStore.addToCommandHistory(trimmedInput);
-      
-    } catch (error) {
-      const output: TerminalOutput = {
-        type: 'error',
-        content: `Error executing command: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        timestamp: new Date(),
-      };
-      terminalStore.addToHistory(trimmedInput, [output]);
+      terminalStore.addToCommandHistory(windowId, trimmedInput);
     } finally {
-      terminalStore.setIsProcessing(false);
-      terminalStore.setCurrentInput('');
+      terminalStore.setIsProcessing(windowId, false);
     }
-  }, [terminalStore, createContext]);
+  }, [terminalStore, createContext, windowId]);
 
   // Handle input change
   const handleInputChange = useCallback(async (value: string) => {
-    terminalStore.setCurrentInput(value);
+    // While searching with Ctrl+R the input is the search query
+    if (terminalStore.getSession(windowId).historySearch) {
+      terminalStore.updateHistorySearch(windowId, value);
+      return;
+    }
+
+    terminalStore.setCurrentInput(windowId, value);
     
     // Update suggestions for autocompletion
     if (value.trim()) {
       try {
         const context = createContext();
         const suggestions = await getAutocompleteSuggestions(value, context);
-        terminalStore.setSuggestions(suggestions);
-        terminalStore.setShowSuggestions(suggestions.length > 0);
+        terminalStore.setSuggestions(windowId, suggestions);
+        terminalStore.setShowSuggestions(windowId, suggestions.length > 0);
       } catch (error) {
         // Fallback to basic command suggestions
         const { command } = parseCommand(value);
@@ -90,59 +255,108 @@ export const useTerminal = (windowId: string) => {
         const suggestions = allCommands.filter(cmd =>
           cmd.toLowerCase().startsWith(command.toLowerCase())
         );
-        terminalStore.setSuggestions(suggestions);
-        terminalStore.setShowSuggestions(suggestions.length > 0 && command.length > 0);
+        terminalStore.setSuggestions(windowId, suggestions);
+        terminalStore.setShowSuggestions(windowId, suggestions.length > 0 && command.length > 0);
       }
     } else {
-      terminalStore.setShowSuggestions(false);
+      terminalStore.setShowSuggestions(windowId, false);
+    }
+  }, [terminalStore, createContext, windowId]);
+
+  // Replace the word being typed with a suggestion; folders stay open for the next name
+  const applySuggestion = useCallback((suggestion: string) => {
+    const input = terminalStore.getSession(windowId).currentInput;
+    const word = getCompletionWord(input);
+    const completed = input.slice(0, input.length - word.length) + suggestion;
+    return handleInputChange(suggestion.endsWith('/') ? completed : `${completed} `);
+  }, [terminalStore, handleInputChange, windowId]);
+
+  // Keys while searching the history with Ctrl+R; returns whether the key was handled
+  const handleSearchKey = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    const { key, ctrlKey } = event;
+    const { historySearch } = terminalStore.getSession(windowId);
+    if (!historySearch) return false;
+
+    const match = terminalStore.getHistorySearchMatch(windowId);
+    if (ctrlKey && key === 'r') {
+      event.preventDefault();
+      terminalStore.findOlderHistoryMatch(windowId);
+    } else if (key === 'Escape' || (ctrlKey && (key === 'g' || key === 'c'))) {
+      // Cancel and put back what was typed before the search
+      event.preventDefault();
+      terminalStore.endHistorySearch(windowId);
+      terminalStore.setCurrentInput(windowId, historySearch.originalInput);
+    } else if (key === 'Enter') {
+      event.preventDefault();
+      terminalStore.endHistorySearch(windowId);
+      executeCommand(match ?? historySearch.originalInput);
+    } else if (key === 'Tab' || key.startsWith('Arrow')) {
+      // Accept the match for editing
+      event.preventDefault();
+      terminalStore.endHistorySearch(windowId);
+      terminalStore.setCurrentInput(windowId, match ?? historySearch.originalInput);
+    } else {
+      return false;
     }
-  }, [terminalStore, createContext]);
+    return true;
+  }, [terminalStore, executeCommand, windowId]);
 
   // Handle key press
   const handleKeyPress = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
     const { key, ctrlKey } = event;
+    const { currentInput, historyIndex, commandHistory, isProcessing } = terminalStore.getSession(windowId);
+
+    // While a command runs, only Ctrl+C reaches it: it interrupts the foreground job
+    if (isProcessing) {
+      if (ctrlKey && key === 'c') {
+        event.preventDefault();
+        const jobStore = useJobStore.getState();
+        jobStore.getWindowJobs(windowId)
+          .filter(job => !job.background)
+          .forEach(job => jobStore.killJob(job.pid, 'SIGINT'));
+      }
+      return;
+    }
+    if (handleSearchKey(event)) return;
 
     switch (key) {
       case 'Enter':
         event.preventDefault();
-        executeCommand(terminalStore.currentInput);
+        executeCommand(currentInput);
         break;
 
       case 'Tab':
         event.preventDefault();
         // Autocompletion
-        const suggestions = terminalStore.getFilteredSuggestions(terminalStore.currentInput);
+        const suggestions = terminalStore.getFilteredSuggestions(windowId, currentInput);
         if (suggestions.length === 1) {
           // Complete with the single suggestion
-          const parts = terminalStore.currentInput.split(' ');
-          const lastPart = parts[parts.length - 1];
-          const suggestion = suggestions[0];
-          
-          if (suggestion.toLowerCase().startsWith(lastPart.toLowerCase())) {
-            parts[parts.length - 1] = suggestion;
-            const newInput = parts.join(' ') + ' ';
-            handleInputChange(newInput);
-          }
+          applySuggestion(suggestions[0]);
         } else if (suggestions.length > 1) {
-          // Show all suggestions
+          // Complete as far as all suggestions agree, then show them
+          const word = getCompletionWord(currentInput);
+          const common = getCommonPrefix(suggestions);
+          if (common.length > word.length) {
+            handleInputChange(currentInput.slice(0, currentInput.length - word.length) + common);
+            break;
+          }
           const output: TerminalOutput = {
             type: 'info',
             content: `Available completions: ${suggestions.join(', ')}`,
             timestamp: new Date(),
           };
-          terminalStore.addToHistory(terminalStore.currentInput, [output]);
+          terminalStore.addToHistory(windowId, currentInput, [output]);
         }
         break;
 
       case 'ArrowUp':
         event.preventDefault();
         // Navigate command history up
-        const currentIndex = terminalStore.historyIndex;
-        const maxIndex = terminalStore.commandHistory.length - 1;
-        if (currentIndex < maxIndex) {
-          const newIndex = currentIndex + 1;
-          terminalStore.setHistoryIndex(newIndex);
-          const historyCommand = terminalStore.getCurrentHistoryCommand();
+        const maxIndex = commandHistory.length - 1;
+        if (historyIndex < maxIndex) {
+          const newIndex = historyIndex + 1;
+          terminalStore.setHistoryIndex(windowId, newIndex);
+          const historyCommand = terminalStore.getCurrentHistoryCommand(windowId);
           if (historyCommand) {
             handleInputChange(historyCommand);
           }
@@ -152,16 +366,15 @@ export const useTerminal = (windowId: string) => {
       case 'ArrowDown':
         event.preventDefault();
         // Navigate command history down
-        const currentDownIndex = terminalStore.historyIndex;
-        if (currentDownIndex > 0) {
-          const newIndex = currentDownIndex - 1;
-          terminalStore.setHistoryIndex(newIndex);
-          const historyCommand = terminalStore.getCurrentHistoryCommand();
+        if (historyIndex > 0) {
+          const newIndex = historyIndex - 1;
+          terminalStore.setHistoryIndex(windowId, newIndex);
+          const historyCommand = terminalStore.getCurrentHistoryCommand(windowId);
           if (historyCommand) {
             handleInputChange(historyCommand);
           }
-        } else if (currentDownIndex === 0) {
-          terminalStore.setHistoryIndex(-1);
+        } else if (historyIndex === 0) {
+          terminalStore.setHistoryIndex(windowId, -1);
           handleInputChange('');
         }
         break;
@@ -171,7 +384,14 @@ export const useTerminal = (windowId: string) => {
           event.preventDefault();
           // Cancel current input
           handleInputChange('');
-          terminalStore.setIsProcessing(false);
+        }
+        break;
+
+      case 'r':
+        if (ctrlKey) {
+          event.preventDefault();
+          // Search the command history backwards
+          terminalStore.startHistorySearch(windowId);
         }
         break;
 
@@ -179,18 +399,18 @@ export const useTerminal = (windowId: string) => {
         if (ctrlKey) {
           event.preventDefault();
           // Clear terminal
-          terminalStore.clearHistory();
+          terminalStore.clearHistory(windowId);
         }
         break;
 
       case 'Escape':
         event.preventDefault();
         // Hide suggestions and clear input
-        terminalStore.setShowSuggestions(false);
+        terminalStore.setShowSuggestions(windowId, false);
         handleInputChange('');
         break;
     }
-  }, [terminalStore, executeCommand, handleInputChange]);
+  }, [terminalStore, executeCommand, handleInputChange, applySuggestion, handleSearchKey, windowId]);
 
   // Focus input when terminal becomes focused
   useEffect(() => {
@@ -202,26 +422,50 @@ export const useTerminal = (windowId: string) => {
 
   // Initialize with welcome message
   useEffect(() => {
-    if (terminalStore.history.length === 0) {
+    if (terminalStore.getSession(windowId).history.length === 0) {
       const welcomeOutput: TerminalOutput = {
         type: 'info',
         content: `Welcome to Portfolio OS Terminal v1.0.0
 
 Type 'help' to see available commands.
-Use Tab for autocompletion and arrow keys for command history.
+Use Tab for autocompletion, arrow keys for command history and Ctrl+R to search it.
 
 Ready for input...`,
         timestamp: new Date(),
       };
-      terminalStore.addToHistory('', [welcomeOutput]);
+      terminalStore.addToHistory(windowId, '', [welcomeOutput]);
     }
-  }, [terminalStore]);
+  }, [terminalStore, windowId]);
+
+  // Run the startup script once when the window opens
+  useEffect(() => {
+    if (startupScriptRan.current) return;
+    startupScriptRan.current = true;
+
+    const context = createContext();
+    context.fs.ready
+      .then(async () => {
+        if (!context.fs.exists(resolveTerminalPath(context, TERMINAL_RC_FILE))) return;
+        const { outputs } = await runShell(`source ${TERMINAL_RC_FILE}`, context);
+        if (outputs.length > 0) {
+          terminalStore.addToHistory(windowId, '', outputs);
+        }
+      })
+      .catch(error => console.warn('Failed to run the Terminal startup script:', error));
+  }, [createContext, terminalStore, windowId]);
 
   return {
-    ...terminalStore,
+    ...session,
+    historySearchMatch: terminalStore.getHistorySearchMatch(windowId),
+    getLinkDetectors,
+    openLink,
+    copyOutput,
+    getFilteredSuggestions: (input: string) => terminalStore.getFilteredSuggestions(windowId, input),
+    setShowSuggestions: (show: boolean) => terminalStore.setShowSuggestions(windowId, show),
     inputRef,
     executeCommand,
     handleInputChange,
     handleKeyPress,
+    applySuggestion,
   };
 };
\ No newline at end of file
@@ -3,6 +3,7 @@ import { AppLauncher } from '../appLauncher';
 import { appRegistry } from '../appRegistry';
 import { appLifecycleManager } from '../appLifecycleManager';
 import { useWindowStore } from '../../store/windowStore';
+import { virtualFileSystem } from '../virtualFileSystem';
 import type { AppId, BaseApp } from '../../types';
 
 // Mock dependencies
@@ -138,6 +139,31 @@ describe('AppLauncher', () => {
       );
     });
 
+    it('should hand launch data to the new window', async () => {
+      const data = { path: '/Documents/README.md' };
+
+      await launcher.launchApp('projects', { data });
+
+      expect(mockGetState().createWindow).toHaveBeenCalledWith(
+        'projects',
+        expect.objectContaining({ launchData: data })
+      );
+    });
+
+    it('should hand launch data to an existing single-instance window', async () => {
+      const existingWindow = { id: 'existing-window', appId: 'projects' as AppId };
+      const updateWindow = vi.fn();
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        getWindowsByApp: vi.fn().mockReturnValue([existingWindow]),
+        updateWindow,
+      });
+
+      await launcher.launchApp('projects', { data: { slug: 'portfolio' } });
+
+      expect(updateWindow).toHaveBeenCalledWith('existing-window', { launchData: { slug: 'portfolio' } });
+    });
+
     it('should handle launch errors gracefully', async () => {
       mockGetState().createWindow.mockImplementation(() => {
         throw new Error('Window creation failed');
@@ -328,6 +354,28 @@ describe('AppLauncher', () => {
           focusExisting: false 
         });
       });
+
+      it('should launch the target of a .lnk shortcut', async () => {
+        await virtualFileSystem.resetToFactoryImage();
+        virtualFileSystem.createFile('/Desktop/Portfolio.lnk', '{ "appId": "projects", "data": { "slug": "portfolio" } }');
+        const launchSpy = vi.spyOn(launcher, 'launchApp');
+
+        await launcher.launchAppWithData('file-explorer', { path: '/Desktop/Portfolio.lnk' });
+
+        expect(launchSpy).toHaveBeenCalledWith('projects', {
+          data: { slug: 'portfolio' },
+          focusExisting: false
+        });
+      });
+
+      it('should report invalid shortcuts', async () => {
+        await virtualFileSystem.resetToFactoryImage();
+        virtualFileSystem.createFile('/Desktop/Broken.lnk', 'not a shortcut');
+
+        const result = await launcher.launchShortcut('/Desktop/Broken.lnk');
+
+        expect(result).toEqual({ success: false, error: "'/Desktop/Broken.lnk' is not a valid shortcut" });
+      });
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { commandRegistry } from '../commandRegistry';
+import { findCommand, getAutocompleteSuggestions } from '../../utils/terminalCommands';
+import { runShell } from '../../utils/shellInterpreter';
+import { ansi } from '../../utils/ansi';
+import { virtualFileSystem } from '../virtualFileSystem';
+import type { TerminalCommand } from '../../types';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+// A plugin command declaring its interface without a hand-written usage line
+const deployCommand: TerminalCommand = {
+  id: 'deploy',
+  name: 'deploy',
+  description: 'Deploy a site',
+  aliases: ['ship'],
+  flags: [
+    { names: ['-f', '--force'], description: 'Skip the checks' },
+    { names: ['-e', '--env'], value: 'name', description: 'Target environment', complete: ['staging', 'production'] },
+  ],
+  args: [
+    { name: 'site', description: 'Site to deploy', complete: ['blog', 'shop'] },
+    { name: 'path', description: 'Files to upload', optional: true, variadic: true, complete: 'path' },
+  ],
+  execute: () => ({ type: 'success', content: 'deployed' }),
+};
+
+const complete = (input: string) => getAutocompleteSuggestions(input, createTestTerminalContext());
+
+describe('CommandRegistry', () => {
+  let unregister: () => void;
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    unregister?.();
+    unregister = commandRegistry.register(deployCommand);
+  });
+
+  it('should find registered commands by name and alias until unregistered', () => {
+    expect(findCommand('ship')).toBe(deployCommand);
+    expect(commandRegistry.getAllCommandNames()).toContain('deploy');
+
+    unregister();
+    expect(findCommand('deploy')).toBeUndefined();
+  });
+
+  it('should let later commands override built-ins with the same name', () => {
+    const echo: TerminalCommand = { id: 'plugin-echo', name: 'echo', description: 'Loud echo', execute: () => undefined };
+    const remove = commandRegistry.register(echo);
+
+    expect(findCommand('echo')).toBe(echo);
+    remove();
+    expect(findCommand('echo')?.id).toBe('echo');
+  });
+
+  it('should generate usage and help from the manifest', () => {
+    expect(commandRegistry.getUsage(deployCommand)).toBe('deploy [-f] [-e name] site [path...]');
+    expect(commandRegistry.getUsage(findCommand('ls')!)).toBe('ls [-alh1] [path...]');
+
+    const help = commandRegistry.formatHelp(deployCommand);
+    expect(help).toContain('deploy - Deploy a site');
+    expect(help).toContain('Aliases: ship');
+    expect(help).toMatch(/Options:\n {2}-f, --force +Skip the checks\n {2}-e, --env <name> +Target environment/);
+    expect(help).toMatch(/Arguments:\n {2}site +Site to deploy/);
+  });
+
+  it('should list subcommands in help', () => {
+    const help = commandRegistry.formatHelp(findCommand('projects')!);
+
+    expect(help).toMatch(/Subcommands:\n {2}list \[--json\] +List all projects/);
+    expect(help).toMatch(/open slug +Open a project/);
+  });
+
+  it('should format man pages with sections', () => {
+    const page = ansi.strip(commandRegistry.formatManPage(deployCommand));
+
+    expect(page).toMatch(/^DEPLOY\(1\)/);
+    expect(page).toContain('NAME\n       deploy - Deploy a site');
+    expect(page).toContain('SYNOPSIS\n       deploy [-f] [-e name] site [path...]');
+    expect(page).toContain('OPTIONS\n       -f, --force\n           Skip the checks');
+    expect(page).toContain('ALIASES\n       ship');
+  });
+
+  it('should complete arguments by position', async () => {
+    expect(await complete('deploy ')).toEqual(['blog', 'shop']);
+    expect(await complete('deploy -f bl')).toEqual(['blog', 'shop']);
+    expect(await complete('deploy blog /Doc')).toEqual(['/Documents/']);
+    expect(await complete('deploy blog /Documents/ /Doc')).toEqual(['/Documents/']);
+  });
+
+  it('should complete flags and their values', async () => {
+    expect(await complete('deploy -')).toEqual(['-f', '--force', '-e', '--env']);
+    expect(await complete('deploy --env ')).toEqual(['staging', 'production']);
+    expect(await complete('deploy -fe ')).toEqual(['staging', 'production']);
+    expect(await complete('deploy --env=staging ')).toEqual(['blog', 'shop']);
+    expect(await complete('deploy -- -')).toEqual(['blog', 'shop']);
+  });
+
+  it('should complete subcommand flags and arguments', async () => {
+    expect(await complete('projects list -')).toEqual(['--json']);
+    expect(await complete('system ')).toEqual(['info', 'status']);
+    expect(await complete('grep ')).toEqual([]);
+    expect(await complete('grep -i TODO /Doc')).toEqual(['/Documents/']);
+  });
+
+  it('should answer --help and man from the manifest', async () => {
+    const context = createTestTerminalContext();
+    const text = async (source: string) =>
+      ansi.strip((await runShell(source, context)).outputs.map(output => output.content).join('\n'));
+
+    expect(await text('deploy --help')).toContain('Usage: deploy [-f] [-e name] site [path...]');
+    expect(await text('ship --help | grep Usage')).toBe('Usage: deploy [-f] [-e name] site [path...]');
+    expect(await text('man ship')).toContain('DESCRIPTION\n       Deploy a site');
+    expect(await text('man test')).toContain('Integers: a -eq b');
+    expect(await text('man -k deploy')).toBe('deploy (1) - Deploy a site');
+    expect(await text('man nope')).toBe('No manual entry for nope');
+  });
+});
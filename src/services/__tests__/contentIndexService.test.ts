@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { contentIndexService } from '../contentIndexService';
+import { virtualFileSystem } from '../virtualFileSystem';
+import { useNotepadStore } from '../../store/notepadStore';
+
+describe('ContentIndexService', () => {
+  let dispose: () => void;
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    dispose = contentIndexService.init();
+  });
+
+  afterEach(() => {
+    dispose();
+  });
+
+  describe('search', () => {
+    it('should find the matching line with highlights', () => {
+      contentIndexService.indexDocument({
+        id: 'test:doc',
+        source: 'file',
+        title: 'notes.txt',
+        location: '/notes.txt',
+        content: 'first line\nthe zanzibar gazette\nlast line',
+      });
+
+      const [match] = contentIndexService.search('zanzibar');
+
+      expect(match.document.id).toBe('test:doc');
+      expect(match.line).toBe(2);
+      expect(match.column).toBe(5);
+      expect(match.snippet).toBe('the zanzibar gazette');
+      expect(match.highlights).toEqual([[4, 11]]);
+    });
+
+    it('should require every term and match the last one as a prefix', () => {
+      contentIndexService.indexDocument({
+        id: 'test:doc',
+        source: 'notepad',
+        title: 'Draft',
+        location: 'doc-1',
+        content: 'quokka sightings\nkakapo counts',
+      });
+
+      expect(contentIndexService.search('quokka kaka')).toHaveLength(1);
+      expect(contentIndexService.search('quokka wombat')).toHaveLength(0);
+    });
+
+    it('should trim long lines around the first match', () => {
+      const line = `${'a '.repeat(100)}xylophone${' b'.repeat(100)}`;
+      contentIndexService.indexDocument({
+        id: 'test:doc',
+        source: 'file',
+        title: 'long.txt',
+        location: '/long.txt',
+        content: line,
+      });
+
+      const [match] = contentIndexService.search('xylophone');
+      const [start, end] = match.highlights[0];
+
+      expect(match.snippet.length).toBeLessThan(line.length);
+      expect(match.snippet.startsWith('…')).toBe(true);
+      expect(match.snippet.slice(start, end + 1)).toBe('xylophone');
+    });
+
+    it('should forget removed documents', () => {
+      contentIndexService.indexDocument({
+        id: 'test:doc',
+        source: 'file',
+        title: 'gone.txt',
+        location: '/gone.txt',
+        content: 'ephemeral',
+      });
+      contentIndexService.removeDocument('test:doc');
+
+      expect(contentIndexService.search('ephemeral')).toEqual([]);
+    });
+  });
+
+  describe('sources', () => {
+    it('should index factory files', () => {
+      expect(contentIndexService.hasDocument('file:/Documents/README.md')).toBe(true);
+    });
+
+    it('should follow file changes', () => {
+      virtualFileSystem.createFile('/Documents/ledger.txt', 'capybara budget');
+      expect(contentIndexService.search('capybara')[0].document.location).toBe('/Documents/ledger.txt');
+
+      virtualFileSystem.writeFile('/Documents/ledger.txt', 'axolotl budget');
+      expect(contentIndexService.search('capybara')).toEqual([]);
+
+      virtualFileSystem.rename('/Documents/ledger.txt', 'accounts.txt');
+      expect(contentIndexService.search('axolotl')[0].document.location).toBe('/Documents/accounts.txt');
+
+      virtualFileSystem.delete('/Documents/accounts.txt');
+      expect(contentIndexService.search('axolotl')).toEqual([]);
+    });
+
+    it('should re-index files below a renamed folder', () => {
+      virtualFileSystem.createFolder('/Documents/Old');
+      virtualFileSystem.createFile('/Documents/Old/note.txt', 'narwhal');
+      virtualFileSystem.rename('/Documents/Old', 'New');
+
+      expect(contentIndexService.search('narwhal').map(match => match.document.location))
+        .toEqual(['/Documents/New/note.txt']);
+    });
+
+    it('should index Notepad documents that are not linked to a file', () => {
+      const store = useNotepadStore.getState();
+      const id = store.createDocument('Ideas');
+      store.updateDocument(id, { content: 'pangolin parade' });
+
+      const [match] = contentIndexService.search('pangolin');
+      expect(match.document).toMatchObject({ id: `notepad:${id}`, source: 'notepad', location: id });
+
+      store.deleteDocument(id);
+      expect(contentIndexService.search('pangolin')).toEqual([]);
+    });
+
+    it('should stop following sources and empty the index once disposed', () => {
+      dispose();
+      virtualFileSystem.createFile('/Documents/ledger.txt', 'capybara budget');
+
+      expect(contentIndexService.hasDocument('file:/Documents/README.md')).toBe(false);
+      expect(contentIndexService.search('capybara')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fileAssociationService } from '../fileAssociationService';
+import { appLauncher } from '../appLauncher';
+import { virtualFileSystem } from '../virtualFileSystem';
+import { usePreferencesStore } from '../../store/preferencesStore';
+import type { VNode } from '../../types';
+
+const file = (name: string, extra: Partial<VNode> = {}): VNode => ({
+  name,
+  type: 'file',
+  path: `/Documents/${name}`,
+  ext: name.split('.').pop(),
+  ...extra,
+});
+
+describe('FileAssociationService', () => {
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    usePreferencesStore.setState({ defaultApps: {} });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('default apps', () => {
+    it('should open text files in Notepad and media in File Explorer', () => {
+      expect(fileAssociationService.getDefaultApp(file('notes.md'))).toBe('notepad');
+      expect(fileAssociationService.getDefaultApp(file('photo.PNG', { ext: 'PNG' }))).toBe('file-explorer');
+      expect(fileAssociationService.getDefaultApp(file('clip', { ext: undefined, mimeType: 'video/mp4' }))).toBe('file-explorer');
+    });
+
+    it('should prefer the default app chosen by the user', () => {
+      usePreferencesStore.getState().setDefaultApp('md', 'file-explorer');
+
+      expect(fileAssociationService.getDefaultApp(file('notes.md'))).toBe('file-explorer');
+      expect(fileAssociationService.getDefaultAppForType('md')).toBe('file-explorer');
+
+      usePreferencesStore.getState().setDefaultApp('md', null);
+      expect(fileAssociationService.getDefaultApp(file('notes.md'))).toBe('notepad');
+    });
+
+    it('should let apps register associations', () => {
+      const unregister = fileAssociationService.register({
+        id: 'terminal-scripts',
+        appId: 'terminal',
+        extensions: ['sh'],
+      });
+
+      expect(fileAssociationService.getAppsForType('sh')).toEqual(['notepad', 'terminal']);
+      unregister();
+      expect(fileAssociationService.getAppsForType('sh')).toEqual(['notepad']);
+    });
+  });
+
+  describe('getOpenersForFile', () => {
+    it('should list the default app first and always offer File Explorer', () => {
+      usePreferencesStore.getState().setDefaultApp('md', 'file-explorer');
+
+      const openers = fileAssociationService.getOpenersForFile(file('notes.md'));
+
+      expect(openers.map(opener => [opener.appId, opener.isDefault])).toEqual([
+        ['file-explorer', true],
+        ['notepad', false],
+      ]);
+    });
+  });
+
+  describe('openFile', () => {
+    it('should launch the default app with the file path', async () => {
+      const launchSpy = vi.spyOn(appLauncher, 'launchApp').mockResolvedValue({ success: true, windowId: 'w1' });
+
+      await fileAssociationService.openFile('/Documents/README.md');
+
+      expect(launchSpy).toHaveBeenCalledWith('notepad', {
+        data: { path: '/Documents/README.md' },
+        focusExisting: true,
+      });
+    });
+
+    it('should use association params and an explicit app', async () => {
+      const launchSpy = vi.spyOn(appLauncher, 'launchApp').mockResolvedValue({ success: true, windowId: 'w1' });
+      const unregister = fileAssociationService.register({
+        id: 'projects-markdown',
+        appId: 'projects',
+        extensions: ['md'],
+        params: node => ({ slug: node.name.replace('.md', '').toLowerCase() }),
+      });
+
+      await fileAssociationService.openFile('/Documents/README.md', 'projects');
+      unregister();
+
+      expect(launchSpy).toHaveBeenCalledWith('projects', { data: { slug: 'readme' }, focusExisting: true });
+    });
+
+    it('should open folders in File Explorer and resolve shortcuts', async () => {
+      const dataSpy = vi.spyOn(appLauncher, 'launchAppWithData').mockResolvedValue({ success: true });
+      const shortcutSpy = vi.spyOn(appLauncher, 'launchShortcut').mockResolvedValue({ success: true });
+
+      await fileAssociationService.openFile('/Documents');
+      await fileAssociationService.openFile('/Desktop/Projects.lnk');
+
+      expect(dataSpy).toHaveBeenCalledWith('file-explorer', { path: '/Documents' });
+      expect(shortcutSpy).toHaveBeenCalledWith('/Desktop/Projects.lnk');
+    });
+
+    it('should reject missing files', async () => {
+      await expect(fileAssociationService.openFile('/nope.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fileTransferService } from '../fileTransferService';
+import { virtualFileSystem } from '../virtualFileSystem';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('FileTransferService', () => {
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+  });
+
+  describe('importFiles', () => {
+    it('should import text files with their metadata', async () => {
+      const file = new File(['# Plan'], 'plan.md', { type: 'text/markdown', lastModified: 1700000000000 });
+
+      const { imported, failed } = await fileTransferService.importFiles([file], '/Documents');
+
+      expect(failed).toEqual([]);
+      expect(imported[0]).toMatchObject({
+        path: '/Documents/plan.md',
+        ext: 'md',
+        size: 6,
+        content: '# Plan',
+        modified: new Date(1700000000000),
+      });
+    });
+
+    it('should keep the bytes of binary files', async () => {
+      const file = new File([PNG_BYTES], 'logo.png', { type: 'image/png' });
+
+      const { imported } = await fileTransferService.importFiles([file], '/Desktop');
+
+      const node = virtualFileSystem.navigateToPath(imported[0].path)!;
+      expect(node.content).toBeUndefined();
+      expect(node.mimeType).toBe('image/png');
+      expect(node.size).toBe(PNG_BYTES.length);
+      expect(new Uint8Array(virtualFileSystem.readBinary(node.path))).toEqual(PNG_BYTES);
+    });
+
+    it('should rename on conflict and report files that cannot be imported', async () => {
+      const { imported } = await fileTransferService.importFiles(
+        [new File(['new'], 'README.md', { type: 'text/markdown' })],
+        '/Documents'
+      );
+      expect(imported[0].name).toBe('README (2).md');
+
+      const { failed } = await fileTransferService.importFiles(
+        [new File(['x'], 'notes.txt', { type: 'text/plain' })],
+        '/About'
+      );
+      expect(failed).toEqual([{ name: 'notes.txt', error: 'Read-only: /About/notes.txt' }]);
+    });
+  });
+
+  describe('createDownload', () => {
+    // The global Blob mock from the test setup does not keep parts or options
+    class TestBlob {
+      size: number;
+      type: string;
+      constructor(parts: Array<string | ArrayBuffer | Uint8Array>, options?: { type?: string }) {
+        this.size = parts.reduce((sum, part) => sum + (typeof part === 'string' ? part.length : part.byteLength), 0);
+        this.type = options?.type ?? '';
+      }
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('Blob', TestBlob);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should download files with their MIME type', () => {
+      virtualFileSystem.createFile('/Desktop/logo.png', PNG_BYTES.buffer.slice(0) as ArrayBuffer, { mimeType: 'image/png' });
+
+      const { blob, fileName } = fileTransferService.createDownload('/Desktop/logo.png');
+
+      expect(fileName).toBe('logo.png');
+      expect(blob.type).toBe('image/png');
+      expect(blob.size).toBe(PNG_BYTES.length);
+    });
+
+    it('should export folders as ZIP archives', () => {
+      const { blob, fileName } = fileTransferService.createDownload('/Documents');
+
+      expect(fileName).toBe('Documents.zip');
+      expect(blob.type).toBe('application/zip');
+      expect(blob.size).toBeGreaterThan(22);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { previewerRegistry } from '../previewerRegistry';
+import type { FilePreviewer, VNode } from '../../types';
+
+const file = (name: string, extra: Partial<VNode> = {}): VNode => ({
+  name,
+  type: 'file',
+  path: `/${name}`,
+  ext: name.includes('.') ? name.split('.').pop() : undefined,
+  ...extra,
+});
+
+const bytes = new Uint8Array([1, 2, 3]).buffer;
+
+describe('PreviewerRegistry', () => {
+  it('should find built-in previewers by extension', () => {
+    expect(previewerRegistry.getPreviewer(file('photo.JPG', { ext: 'JPG', binary: bytes }))?.id).toBe('image');
+    expect(previewerRegistry.getPreviewer(file('doc.pdf', { url: '/doc.pdf' }))?.id).toBe('pdf');
+    expect(previewerRegistry.getPreviewer(file('song.mp3', { binary: bytes }))?.id).toBe('media');
+    expect(previewerRegistry.getPreviewer(file('data.csv', { content: 'a,b' }))?.id).toBe('data-table');
+  });
+
+  it('should find built-in previewers by MIME type', () => {
+    const clip = file('clip', { binary: bytes, mimeType: 'video/webm' });
+
+    expect(previewerRegistry.getPreviewer(clip)?.id).toBe('media');
+  });
+
+  it('should not match files without anything to show', () => {
+    expect(previewerRegistry.getPreviewer(file('photo.png'))).toBeUndefined();
+    expect(previewerRegistry.getPreviewer(file('scan.pdf', { content: 'placeholder' }))).toBeUndefined();
+    expect(previewerRegistry.getPreviewer(file('notes.txt', { content: 'hello' }))).toBeUndefined();
+  });
+
+  it('should let registered previewers take precedence until unregistered', () => {
+    const previewer: FilePreviewer = {
+      id: 'svg-source',
+      name: 'SVG source',
+      mimeTypes: ['image/svg+xml'],
+      component: () => null,
+    };
+    const logo = file('logo.svg', { binary: bytes });
+
+    const unregister = previewerRegistry.register(previewer);
+    expect(previewerRegistry.getPreviewer(logo)).toBe(previewer);
+
+    unregister();
+    expect(previewerRegistry.getPreviewer(logo)?.id).toBe('image');
+  });
+});
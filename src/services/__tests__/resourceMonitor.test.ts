@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resourceMonitor, SYSTEM_RESOURCE_ID } from '../resourceMonitor';
+
+const renderWindowElement = (windowId: string) => {
+  const element = document.createElement('div');
+  element.setAttribute('data-window-id', windowId);
+  element.innerHTML = '<p>Text</p><button>Go</button>';
+  document.body.appendChild(element);
+  return element;
+};
+
+describe('resourceMonitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resourceMonitor.collect([]);
+  });
+
+  afterEach(() => {
+    resourceMonitor.uninstall();
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('should add up commit time and share long tasks between the windows that committed during them', () => {
+    resourceMonitor.recordCommit('notepad-1', 4, 100, 120);
+    resourceMonitor.recordCommit('terminal-1', 2, 120, 170);
+    resourceMonitor.recordLongTask(105, 60);
+
+    const samples = resourceMonitor.collect(['notepad-1', 'terminal-1']);
+
+    expect(samples['notepad-1'].commitTime).toBe(4);
+    expect(samples['terminal-1'].commitTime).toBe(2);
+    expect(samples['notepad-1'].longTaskTime).toBeCloseTo(15);
+    expect(samples['terminal-1'].longTaskTime).toBeCloseTo(45);
+    expect(resourceMonitor.collect(['notepad-1'])['notepad-1'].commitTime).toBe(0);
+  });
+
+  it('should put long tasks nothing explains down to the system', () => {
+    resourceMonitor.recordLongTask(50000, 80);
+
+    expect(resourceMonitor.collect([])[SYSTEM_RESOURCE_ID].longTaskTime).toBe(80);
+  });
+
+  it('should count nodes and listeners in each window and leave the rest to the system', () => {
+    resourceMonitor.install();
+    const element = renderWindowElement('notepad-1');
+    const handleClick = () => {};
+    element.querySelector('button')!.addEventListener('click', handleClick);
+    element.querySelector('button')!.addEventListener('click', handleClick);
+    element.addEventListener('keydown', handleClick, { once: true });
+
+    let samples = resourceMonitor.collect(['notepad-1']);
+    expect(samples['notepad-1']).toMatchObject({ domNodes: 3, listeners: 2 });
+    expect(samples[SYSTEM_RESOURCE_ID].domNodes).toBe(document.getElementsByTagName('*').length - 3);
+
+    element.dispatchEvent(new KeyboardEvent('keydown'));
+    element.querySelector('button')!.removeEventListener('click', handleClick);
+    samples = resourceMonitor.collect(['notepad-1']);
+    expect(samples['notepad-1'].listeners).toBe(0);
+  });
+
+  it('should put timers and document listeners down to the window whose event set them', () => {
+    resourceMonitor.install();
+    const element = renderWindowElement('notepad-1');
+    const handleKeyDown = () => {};
+    element.querySelector('button')!.addEventListener('click', () => {
+      setTimeout(() => {}, 500);
+      document.addEventListener('keydown', handleKeyDown);
+    });
+
+    setInterval(() => {}, 1000);
+    element.querySelector('button')!.click();
+
+    let samples = resourceMonitor.collect(['notepad-1']);
+    expect(samples['notepad-1']).toMatchObject({ timers: 1, listeners: 2 });
+    expect(samples[SYSTEM_RESOURCE_ID].timers).toBe(1);
+
+    vi.advanceTimersByTime(500);
+    document.removeEventListener('keydown', handleKeyDown);
+    samples = resourceMonitor.collect(['notepad-1']);
+    expect(samples['notepad-1']).toMatchObject({ timers: 0, listeners: 1 });
+  });
+
+  it('should count fake timers and leave them in place when uninstalled', () => {
+    const fakeSetTimeout = globalThis.setTimeout;
+    resourceMonitor.install();
+
+    resourceMonitor.runInScope('notepad-1', () => setTimeout(() => {}, 100));
+    expect(resourceMonitor.collect(['notepad-1'])['notepad-1'].timers).toBe(1);
+    vi.advanceTimersByTime(100);
+    expect(resourceMonitor.collect(['notepad-1'])['notepad-1'].timers).toBe(0);
+
+    resourceMonitor.uninstall();
+    expect(globalThis.setTimeout).toBe(fakeSetTimeout);
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { searchService } from '../searchService';
+import { virtualFileSystem } from '../virtualFileSystem';
+import { fileAssociationService } from '../fileAssociationService';
 
 describe('SearchService', () => {
   beforeEach(() => {
@@ -133,6 +135,67 @@ describe('SearchService', () => {
     });
   });
 
+  describe('file contents', () => {
+    let dispose: () => void;
+
+    beforeEach(async () => {
+      await virtualFileSystem.resetToFactoryImage();
+      dispose = searchService.init();
+    });
+
+    afterEach(() => {
+      dispose();
+    });
+
+    it('should find files by name as they are created', () => {
+      virtualFileSystem.createFile('/Documents/quarterly-okapi.txt', '');
+
+      const results = searchService.search('quarterly-okapi');
+      expect(results[0]).toMatchObject({ id: 'file:/Documents/quarterly-okapi.txt', category: 'file' });
+    });
+
+    it('should find files by content with the matching line', () => {
+      virtualFileSystem.createFile('/Documents/trip.txt', 'Packing list\nBring the binoculars for the heron');
+
+      const result = searchService.search('heron').find(item => item.id === 'file:/Documents/trip.txt');
+      expect(result?.snippet).toEqual({
+        text: 'Bring the binoculars for the heron',
+        line: 2,
+        highlights: [[29, 33]],
+      });
+    });
+
+    it('should open content matches at the matching line', () => {
+      const openFile = vi.spyOn(fileAssociationService, 'openFile')
+        .mockResolvedValue({ success: true, windowId: 'window-1' });
+      virtualFileSystem.createFile('/Documents/trip.txt', 'Packing list\nBring the binoculars for the heron');
+
+      searchService.search('binoculars').find(item => item.id === 'file:/Documents/trip.txt')?.action();
+
+      expect(openFile).toHaveBeenCalledWith('/Documents/trip.txt', undefined, { line: 2, column: 11 });
+      openFile.mockRestore();
+    });
+
+    it('should only replace the items of changed paths', () => {
+      const readme = searchService.getItemsByCategory('file').find(item => item.id === 'file:/Documents/README.md');
+      virtualFileSystem.createFolder('/Documents/Old');
+      virtualFileSystem.createFile('/Documents/Old/okapi.txt', '');
+      virtualFileSystem.rename('/Documents/Old', 'New');
+
+      const files = searchService.getItemsByCategory('file');
+      expect(files.find(item => item.id === 'file:/Documents/README.md')).toBe(readme);
+      expect(files.map(item => item.id).filter(id => id.includes('okapi'))).toEqual(['file:/Documents/New/okapi.txt']);
+      expect(searchService.search('okapi')[0]).toMatchObject({ id: 'file:/Documents/New/okapi.txt' });
+    });
+
+    it('should stop following the file system once disposed', () => {
+      dispose();
+      virtualFileSystem.createFile('/Documents/quarterly-okapi.txt', '');
+
+      expect(searchService.search('quarterly-okapi').some(item => item.category === 'file')).toBe(false);
+    });
+  });
+
   describe('action execution', () => {
     it('should have action functions for all items', () => {
       const allApps = searchService.getAllApps();
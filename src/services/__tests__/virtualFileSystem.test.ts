@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { VirtualFileSystemService } from '../virtualFileSystem';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { VirtualFileSystemService, VfsError } from '../virtualFileSystem';
+import { projectService } from '../projectService';
 
 describe('VirtualFileSystemService', () => {
   let vfs: VirtualFileSystemService;
@@ -233,4 +234,257 @@ describe('VirtualFileSystemService', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Mutations', () => {
+    beforeEach(async () => {
+      await vfs.resetToFactoryImage();
+    });
+
+    it('should create files with derived metadata', () => {
+      const file = vfs.createFile('/Documents/ideas.md', '# Ideas');
+
+      expect(file.path).toBe('/Documents/ideas.md');
+      expect(file.ext).toBe('md');
+      expect(file.size).toBe(7);
+      expect(file.modified).toBeInstanceOf(Date);
+      expect(vfs.readFile('/Documents/ideas.md')).toBe('# Ideas');
+    });
+
+    it('should create folders, including missing parents when recursive', () => {
+      vfs.createFolder('/Documents/a/b/c', { recursive: true });
+
+      expect(vfs.navigateToPath('/Documents/a/b/c')?.type).toBe('folder');
+      expect(() => vfs.createFolder('/Documents/x/y')).toThrow(VfsError);
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => vfs.createFile('/Documents/bad:name.txt')).toThrowError(
+        expect.objectContaining({ code: 'EINVAL' })
+      );
+      expect(() => vfs.createFolder('/Documents/ ')).toThrowError(
+        expect.objectContaining({ code: 'EINVAL' })
+      );
+    });
+
+    it('should handle name collisions according to the conflict policy', () => {
+      expect(() => vfs.createFile('/Documents/README.md')).toThrowError(
+        expect.objectContaining({ code: 'EEXIST' })
+      );
+
+      const renamed = vfs.createFile('/Documents/README.md', 'copy', { onConflict: 'rename' });
+      expect(renamed.name).toBe('README (2).md');
+
+      vfs.createFile('/Documents/README.md', 'replaced', { onConflict: 'overwrite' });
+      expect(vfs.readFile('/Documents/README.md')).toBe('replaced');
+    });
+
+    it('should write to existing factory files', () => {
+      vfs.writeFile('/Documents/Notes/TODO.txt', 'Done!');
+
+      expect(vfs.readFile('/Documents/Notes/TODO.txt')).toBe('Done!');
+      expect(vfs.navigateToPath('/Documents/Notes/TODO.txt')?.size).toBe(5);
+    });
+
+    it('should rename files and update the extension', () => {
+      const renamed = vfs.rename('/Documents/Notes/TODO.txt', 'TODO.md');
+
+      expect(renamed.path).toBe('/Documents/Notes/TODO.md');
+      expect(renamed.ext).toBe('md');
+      expect(vfs.exists('/Documents/Notes/TODO.txt')).toBe(false);
+    });
+
+    it('should move folders with their contents', () => {
+      vfs.move('/Documents/Notes', '/Desktop');
+
+      expect(vfs.exists('/Documents/Notes')).toBe(false);
+      expect(vfs.navigateToPath('/Desktop/Notes/Welcome.md')?.path).toBe('/Desktop/Notes/Welcome.md');
+    });
+
+    it('should not move a folder into itself', () => {
+      expect(() => vfs.move('/Documents', '/Documents/Notes')).toThrowError(
+        expect.objectContaining({ code: 'EINVAL' })
+      );
+    });
+
+    it('should copy files without touching the source', () => {
+      const copy = vfs.copy('/Documents/README.md', '/Documents', { onConflict: 'rename' });
+
+      expect(copy.name).toBe('README (2).md');
+      expect(vfs.readFile(copy.path)).toBe(vfs.readFile('/Documents/README.md'));
+    });
+
+    it('should store binary content alongside its byte size', () => {
+      const bytes = new Uint8Array([1, 2, 3, 4]);
+      const file = vfs.createFile('/Desktop/data.bin', bytes.buffer, { mimeType: 'application/octet-stream' });
+
+      expect(file.size).toBe(4);
+      expect(file.binary).toBeDefined();
+      expect(new Uint8Array(vfs.readBinary('/Desktop/data.bin'))).toEqual(bytes);
+
+      vfs.writeFile('/Desktop/data.bin', 'text now');
+      expect(vfs.navigateToPath('/Desktop/data.bin')?.binary).toBeUndefined();
+      expect(vfs.readFile('/Desktop/data.bin')).toBe('text now');
+    });
+
+    it('should delete files and refuse non-empty folders unless recursive', () => {
+      vfs.delete('/Documents/README.md');
+      expect(vfs.exists('/Documents/README.md')).toBe(false);
+
+      expect(() => vfs.delete('/Documents/Notes')).toThrowError(
+        expect.objectContaining({ code: 'ENOTEMPTY' })
+      );
+      vfs.delete('/Documents/Notes', { recursive: true });
+      expect(vfs.exists('/Documents/Notes')).toBe(false);
+      expect(() => vfs.delete('/')).toThrowError(expect.objectContaining({ code: 'EPERM' }));
+    });
+
+    it('should let a recreated folder start empty after deleting a factory folder', () => {
+      vfs.delete('/Documents/Notes', { recursive: true });
+      vfs.createFolder('/Documents/Notes');
+
+      expect(vfs.navigateToPath('/Documents/Notes')?.children).toEqual([]);
+    });
+
+    it('should restore the factory image on reset', async () => {
+      vfs.delete('/Documents/Notes', { recursive: true });
+      vfs.createFile('/Desktop/scratch.txt');
+
+      await vfs.resetToFactoryImage();
+
+      expect(vfs.exists('/Documents/Notes/Welcome.md')).toBe(true);
+      expect(vfs.exists('/Desktop/scratch.txt')).toBe(false);
+    });
+  });
+
+  describe('Change Events', () => {
+    beforeEach(async () => {
+      await vfs.resetToFactoryImage();
+    });
+
+    it('should notify watchers of created, modified, renamed and deleted files', () => {
+      const listener = vi.fn();
+      const unsubscribe = vfs.watch('/Documents', listener);
+
+      vfs.createFile('/Documents/todo.txt', 'one');
+      vfs.writeFile('/Documents/todo.txt', 'two');
+      vfs.rename('/Documents/todo.txt', 'done.txt');
+      vfs.delete('/Documents/done.txt');
+      unsubscribe();
+
+      expect(listener.mock.calls.map(([event]) => [event.type, event.path])).toEqual([
+        ['created', '/Documents/todo.txt'],
+        ['modified', '/Documents/todo.txt'],
+        ['renamed', '/Documents/done.txt'],
+        ['deleted', '/Documents/done.txt'],
+      ]);
+      expect(listener.mock.calls[2][0].oldPath).toBe('/Documents/todo.txt');
+      expect(listener.mock.calls[0][0].nodeType).toBe('file');
+    });
+
+    it('should only report nested changes to recursive watchers', () => {
+      const shallow = vi.fn();
+      const recursive = vi.fn();
+      const unsubscribeShallow = vfs.watch('/Documents', shallow);
+      const unsubscribeRecursive = vfs.watch('/Documents', recursive, { recursive: true });
+
+      vfs.createFile('/Documents/Notes/nested.txt');
+      unsubscribeShallow();
+      unsubscribeRecursive();
+
+      expect(shallow).not.toHaveBeenCalled();
+      expect(recursive).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'created', path: '/Documents/Notes/nested.txt' })
+      );
+    });
+
+    it('should notify a watched file when an ancestor changes', () => {
+      const listener = vi.fn();
+      const unsubscribe = vfs.watch('/Documents/README.md', listener);
+
+      vfs.rename('/Documents', 'Docs');
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'renamed', path: '/Docs', oldPath: '/Documents' })
+      );
+    });
+
+    it('should stop notifying after unsubscribing', () => {
+      const listener = vi.fn();
+      const unsubscribe = vfs.watch('/', listener, { recursive: true });
+
+      unsubscribe();
+      vfs.createFolder('/Documents/Archive');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Mounts', () => {
+    beforeEach(async () => {
+      await vfs.ready;
+      await vfs.resetToFactoryImage();
+    });
+
+    it('should generate one markdown file per project grouped by type', async () => {
+      const projects = await projectService.getAllProjects();
+      const projectFolders = vfs.navigateToPath('/Projects')?.children ?? [];
+      const files = projectFolders.flatMap(folder => folder.children ?? []);
+
+      expect(files).toHaveLength(projects.length);
+      expect(files.every(file => file.ext === 'md')).toBe(true);
+
+      const webProject = projects.find(project => project.type === 'web')!;
+      const webFile = vfs.navigateToPath('/Projects/Web Development')?.children
+        ?.find(file => file.content?.startsWith(`# ${webProject.title}`));
+      expect(webFile).toBeDefined();
+    });
+
+    it('should generate About documents from the about data', () => {
+      const aboutFiles = vfs.navigateToPath('/About')?.children?.map(file => file.name);
+
+      expect(aboutFiles).toEqual(['Experience.md', 'Education.md', 'Skills.md', 'Timeline.md', 'Contact.txt']);
+      expect(vfs.readFile('/About/Contact.txt')).toContain('Email:');
+    });
+
+    it('should keep mounted folders read-only but allow copying out of them', () => {
+      expect(vfs.isReadOnly('/About/Skills.md')).toBe(true);
+      expect(() => vfs.writeFile('/About/Skills.md', 'edited')).toThrowError(
+        expect.objectContaining({ code: 'EPERM' })
+      );
+      expect(() => vfs.createFile('/Projects/new.md')).toThrowError(expect.objectContaining({ code: 'EPERM' }));
+      expect(() => vfs.delete('/About', { recursive: true })).toThrowError(
+        expect.objectContaining({ code: 'EPERM' })
+      );
+      expect(() => vfs.move('/Documents/README.md', '/About')).toThrowError(
+        expect.objectContaining({ code: 'EPERM' })
+      );
+
+      const copy = vfs.copy('/About/Skills.md', '/Documents');
+      expect(vfs.readFile(copy.path)).toBe(vfs.readFile('/About/Skills.md'));
+    });
+
+    it('should regenerate, notify and unmount custom providers', async () => {
+      let version = 1;
+      const listener = vi.fn();
+      const unsubscribe = vfs.watch('/Documents/Live', listener);
+      vfs.createFolder('/Documents/Live');
+
+      const unmount = vfs.mount('/Documents/Live', {
+        generate: () => [{ name: 'version.txt', type: 'file', content: `v${version}` }],
+      });
+      await vfs.refreshMount('/Documents/Live');
+      expect(vfs.readFile('/Documents/Live/version.txt')).toBe('v1');
+
+      version = 2;
+      await vfs.refreshMount('/Documents/Live');
+      expect(vfs.readFile('/Documents/Live/version.txt')).toBe('v2');
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'modified', path: '/Documents/Live' }));
+
+      unmount();
+      unsubscribe();
+      expect(vfs.exists('/Documents/Live/version.txt')).toBe(false);
+      expect(vfs.isReadOnly('/Documents/Live')).toBe(false);
+    });
+  });
+});
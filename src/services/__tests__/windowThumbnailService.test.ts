@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { windowThumbnailService } from '../windowThumbnailService';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../../store/windowStore';
+
+const renderWindowElement = (windowId: string, text: string) => {
+  const element = document.createElement('div');
+  element.setAttribute('data-window-id', windowId);
+  element.style.transform = 'translateX(100px)';
+  element.innerHTML = `<h2 id="title">${text}</h2><input />`;
+  document.body.appendChild(element);
+  return element;
+};
+
+describe('windowThumbnailService', () => {
+  beforeEach(() => {
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+    });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should copy a window as it looks now, without clashing IDs', () => {
+    const element = renderWindowElement('notepad-1', 'Draft');
+    element.querySelector('input')!.value = 'typed';
+
+    const copy = windowThumbnailService.capture('notepad-1')!;
+
+    expect(copy).not.toBe(element);
+    expect(copy.textContent).toBe('Draft');
+    expect(copy.querySelector('input')!.value).toBe('typed');
+    expect(copy.querySelector('[id]')).toBeNull();
+    expect(copy.hasAttribute('data-window-id')).toBe(false);
+    expect(copy.getAttribute('aria-hidden')).toBe('true');
+    expect(copy.style.transform).toBe('none');
+  });
+
+  it('should keep how a window looked when it was minimized until it closes', () => {
+    const stopWatching = windowThumbnailService.watch();
+    const windowId = useWindowStore.getState().createWindow('notepad');
+    const element = renderWindowElement(windowId, 'Before minimizing');
+
+    useWindowStore.getState().minimizeWindow(windowId);
+    element.remove();
+    expect(windowThumbnailService.capture(windowId)?.textContent).toBe('Before minimizing');
+
+    useWindowStore.getState().closeWindow(windowId);
+    expect(windowThumbnailService.capture(windowId)).toBeNull();
+    stopWatching();
+  });
+});
@@ -2,7 +2,11 @@ import type { AppId, WindowState } from '../types';
 import { appRegistry } from './appRegistry';
 import { appLifecycleManager } from './appLifecycleManager';
 import { useWindowStore } from '../store/windowStore';
+import { usePreferencesStore } from '../store/preferencesStore';
 import { preloadService } from './preloadService';
+import { virtualFileSystem } from './virtualFileSystem';
+import { shortcutUtils } from '../utils/shortcutUtils';
+import { windowRuleUtils } from '../utils/windowRuleUtils';
 
 /**
  * App launch options
@@ -52,11 +56,15 @@ export class AppLauncher {
       }
 
       // Check if app supports multiple instances
-      if (!appConfig.multiInstance) {
+      if (this.isSingleInstance(appId, options.windowOptions?.title)) {
         const existingWindows = useWindowStore.getState().getWindowsByApp(appId);
         if (existingWindows.length > 0 && options.focusExisting !== false) {
           // Focus existing window for single-instance apps
           const windowToFocus = existingWindows[0];
+          if (options.data) {
+            // Hand the new data to the running instance
+            useWindowStore.getState().updateWindow(windowToFocus.id, { launchData: options.data });
+          }
           useWindowStore.getState().focusWindow(windowToFocus.id);
           appLifecycleManager.focusApp(appId, windowToFocus.id);
           
@@ -77,6 +85,7 @@ export class AppLauncher {
           w: options.windowOptions?.bounds?.w ?? appConfig.defaultSize.width,
           h: options.windowOptions?.bounds?.h ?? appConfig.defaultSize.height,
         },
+        ...(options.data ? { launchData: options.data } : {}),
         ...options.windowOptions,
       };
 
@@ -187,6 +196,18 @@ export class AppLauncher {
     return appRegistry.getApp(appId);
   }
 
+  /**
+   * Whether an app opens a single window, as registered or as a window rule overrides it
+   */
+  private isSingleInstance(appId: AppId, title?: string): boolean {
+    const appConfig = appRegistry.getApp(appId);
+    const rule = windowRuleUtils.resolve(usePreferencesStore.getState().windowRules, {
+      appId,
+      title: title || appConfig?.name || appId,
+    });
+    return rule.singleInstance ?? !appConfig?.multiInstance;
+  }
+
   /**
    * Calculate smart window position to avoid overlap
    */
@@ -217,21 +238,44 @@ export class AppLauncher {
    * Launch app from Start menu (always create new window for multi-instance apps)
    */
   public async launchAppFromStartMenu(appId: AppId): Promise<AppLaunchResult> {
-    const appConfig = appRegistry.getApp(appId);
     return this.launchApp(appId, {
-      focusExisting: !appConfig?.multiInstance, // Only focus existing for single-instance apps
+      focusExisting: this.isSingleInstance(appId), // Only focus existing for single-instance apps
     });
   }
 
   /**
-   * Launch app with specific data (for deep linking)
+   * Launch app with specific data (for deep linking).
+   * A `path` pointing at a .lnk shortcut launches the shortcut's target instead.
    */
   public async launchAppWithData(appId: AppId, data: Record<string, unknown>): Promise<AppLaunchResult> {
+    if (typeof data.path === 'string' && shortcutUtils.isShortcutPath(data.path)) {
+      return this.launchShortcut(data.path);
+    }
+
     return this.launchApp(appId, {
       data,
       focusExisting: false, // Always create new window for data-specific launches
     });
   }
+
+  /**
+   * Launch the app a .lnk shortcut file points at
+   */
+  public async launchShortcut(path: string): Promise<AppLaunchResult> {
+    const node = virtualFileSystem.navigateToPath(path);
+    const target = node?.type === 'file' ? shortcutUtils.parse(node.content ?? '') : null;
+    if (!target) {
+      return {
+        success: false,
+        error: `'${path}' is not a valid shortcut`,
+      };
+    }
+
+    return this.launchApp(target.appId, {
+      data: target.data,
+      focusExisting: !target.data,
+    });
+  }
 }
 
 // Export singleton instance
@@ -50,6 +50,8 @@ const TaskManagerApp = lazy(() => import('../apps/TaskManagerApp'));
 
 const ColorPickerApp = lazy(() => import('../apps/ColorPickerApp'));
 
+const RecycleBinApp = lazy(() => import('../apps/RecycleBinApp'));
+
 /**
  * Application registry that manages all available applications
  * Provides centralized configuration and dynamic loading capabilities
@@ -206,6 +208,17 @@ export class AppRegistry {
         maximizable: true,
         multiInstance: false,
       },
+      {
+        id: 'recycle-bin',
+        name: 'Recycle Bin',
+        icon: 'Trash2',
+        component: RecycleBinApp,
+        defaultSize: { width: 750, height: 500 },
+        minSize: { width: 500, height: 300 },
+        resizable: true,
+        maximizable: true,
+        multiInstance: false,
+      },
     ];
 
     appConfigs.forEach(app => {
@@ -0,0 +1,261 @@
+import type {
+  TerminalCommand,
+  TerminalCommandArg,
+  TerminalCommandFlag,
+  TerminalCompletionProvider,
+  TerminalContext,
+  TerminalSubcommand,
+} from '../types';
+import { getPathCompletions } from '../utils/fileCommands';
+import { ansi } from '../utils/ansi';
+
+// Column width for option and argument names in help output
+const HELP_NAME_WIDTH = 22;
+
+const MAN_INDENT = '       ';
+
+/**
+ * Registry of Terminal commands. Commands declare their flags, arguments and
+ * subcommands, and the registry turns that manifest into `--help` output,
+ * `man` pages and Tab completion. Apps and plugins register their own
+ * commands; later registrations take precedence over commands with the same name.
+ */
+export class CommandRegistry {
+  private static instance: CommandRegistry;
+  private commands: TerminalCommand[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): CommandRegistry {
+    if (!CommandRegistry.instance) {
+      CommandRegistry.instance = new CommandRegistry();
+    }
+    return CommandRegistry.instance;
+  }
+
+  /**
+   * Register a command, replacing any command with the same ID.
+   * Returns a function that unregisters it again.
+   */
+  public register(command: TerminalCommand): () => void {
+    this.unregister(command.id);
+    this.commands.push(command);
+    return () => {
+      if (this.commands.includes(command)) {
+        this.unregister(command.id);
+      }
+    };
+  }
+
+  /**
+   * Unregister a command
+   */
+  public unregister(id: string): boolean {
+    const count = this.commands.length;
+    this.commands = this.commands.filter(command => command.id !== id);
+    return this.commands.length !== count;
+  }
+
+  /**
+   * Get all registered commands in the order they were registered
+   */
+  public getAllCommands(): TerminalCommand[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Find a command by name or alias, preferring the most recently registered
+   */
+  public findCommand(name: string): TerminalCommand | undefined {
+    for (let index = this.commands.length - 1; index >= 0; index--) {
+      const command = this.commands[index];
+      if (command.name === name || command.aliases?.includes(name)) return command;
+    }
+    return undefined;
+  }
+
+  /**
+   * All command names and aliases, sorted
+   */
+  public getAllCommandNames(): string[] {
+    const names = new Set<string>();
+    this.commands.forEach(command => {
+      names.add(command.name);
+      command.aliases?.forEach(alias => names.add(alias));
+    });
+    return [...names].sort();
+  }
+
+  /**
+   * The command's usage line, generated from its manifest unless it gives one
+   */
+  public getUsage(command: TerminalCommand): string {
+    if (command.usage) return command.usage;
+
+    const parts = [command.name, ...formatFlagsUsage(command.flags ?? [])];
+    if (command.subcommands?.length) {
+      parts.push(`<${command.subcommands.map(subcommand => subcommand.name).join('|')}>`);
+    } else {
+      parts.push(...formatArgsUsage(command.args ?? []));
+    }
+    return parts.join(' ');
+  }
+
+  /**
+   * Short help shown by `help <command>` and `<command> --help`
+   */
+  public formatHelp(command: TerminalCommand): string {
+    const lines = [`${command.name} - ${command.description}`, `Usage: ${this.getUsage(command)}`];
+    if (command.aliases?.length) {
+      lines.push(`Aliases: ${command.aliases.join(', ')}`);
+    }
+
+    const sections: Array<[string, string[]]> = [
+      ['Options', (command.flags ?? []).map(flag => helpRow(formatFlagNames(flag), flag.description))],
+      ['Arguments', (command.args ?? []).filter(arg => arg.description).map(arg => helpRow(arg.name, arg.description!))],
+      ['Subcommands', (command.subcommands ?? []).map(subcommand =>
+        helpRow([subcommand.name, ...formatFlagsUsage(subcommand.flags ?? []), ...formatArgsUsage(subcommand.args ?? [])].join(' '), subcommand.description)
+      )],
+    ];
+    sections
+      .filter(([, rows]) => rows.length > 0)
+      .forEach(([title, rows]) => lines.push('', `${title}:`, ...rows));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Manual page shown by `man <command>`
+   */
+  public formatManPage(command: TerminalCommand): string {
+    const sections: Array<[string, string[]]> = [
+      ['NAME', [`${command.name} - ${command.description}`]],
+      ['SYNOPSIS', [this.getUsage(command)]],
+      ['DESCRIPTION', (command.manual ?? command.description).split('\n')],
+      ['OPTIONS', (command.flags ?? []).flatMap(flag => [ansi.bold(formatFlagNames(flag)), `    ${flag.description}`])],
+      ['ARGUMENTS', (command.args ?? []).flatMap(arg => [
+        ansi.bold(arg.name),
+        `    ${arg.description ?? ''}${arg.optional ? ' (optional)' : ''}`.trimEnd(),
+      ])],
+      ['SUBCOMMANDS', (command.subcommands ?? []).flatMap(subcommand => [
+        ansi.bold([subcommand.name, ...formatFlagsUsage(subcommand.flags ?? []), ...formatArgsUsage(subcommand.args ?? [])].join(' ')),
+        `    ${subcommand.description}`,
+      ])],
+      ['ALIASES', command.aliases?.length ? [command.aliases.join(', ')] : []],
+    ];
+
+    const title = `${command.name.toUpperCase()}(1)`;
+    return [
+      ansi.dim(`${title.padEnd(40)}Portfolio OS Manual`),
+      ...sections
+        .filter(([, lines]) => lines.length > 0)
+        .flatMap(([heading, lines]) => ['', ansi.bold(heading), ...lines.map(line => (line ? MAN_INDENT + line : line))]),
+    ].join('\n');
+  }
+
+  /**
+   * Completions for the word being typed after a command. `args` are the
+   * complete words before it. Flags are offered once the word starts with `-`.
+   */
+  public async complete(name: string, args: string[], word: string, context: TerminalContext): Promise<string[]> {
+    const command = this.findCommand(name);
+    if (!command) return [];
+
+    const flags = [...(command.flags ?? [])];
+    const positional: string[] = [];
+    let subcommand: TerminalSubcommand | undefined;
+    let pendingFlag: TerminalCommandFlag | undefined;
+    let optionsEnded = false;
+
+    args.forEach(arg => {
+      if (pendingFlag) {
+        pendingFlag = undefined;
+      } else if (!optionsEnded && arg === '--') {
+        optionsEnded = true;
+      } else if (!optionsEnded && arg.startsWith('-') && arg.length > 1) {
+        pendingFlag = findFlagAwaitingValue(flags, arg);
+      } else if (!subcommand && positional.length === 0 && command.subcommands?.some(sub => sub.name === arg)) {
+        subcommand = command.subcommands.find(sub => sub.name === arg);
+        flags.push(...(subcommand?.flags ?? []));
+      } else {
+        positional.push(arg);
+      }
+    });
+
+    const request = { args: positional, word };
+    if (pendingFlag) {
+      return resolveCompletions(pendingFlag.complete, context, request, this);
+    }
+    if (!optionsEnded && word.startsWith('-')) {
+      return flags.flatMap(flag => flag.names);
+    }
+    if (command.subcommands?.length && !subcommand && positional.length === 0) {
+      return command.subcommands.map(sub => sub.name);
+    }
+
+    const specs = (subcommand ?? command).args ?? [];
+    const last = specs[specs.length - 1];
+    const spec = specs[positional.length] ?? (last?.variadic ? last : undefined);
+    return resolveCompletions(spec?.complete, context, request, this);
+  }
+}
+
+const formatFlagNames = (flag: TerminalCommandFlag) =>
+  flag.names.join(', ') + (flag.value ? ` <${flag.value}>` : '');
+
+// Single-letter switches combine into one `[-abc]`; other options are listed one by one
+const formatFlagsUsage = (flags: TerminalCommandFlag[]): string[] => {
+  const letters = flags
+    .filter(flag => !flag.value)
+    .map(flag => flag.names.find(option => /^-[^-]$/.test(option))?.[1])
+    .filter(Boolean)
+    .join('');
+  const options = flags
+    .filter(flag => flag.value || !flag.names.some(option => /^-[^-]$/.test(option)))
+    .map(flag => `[${flag.names[0]}${flag.value ? ` ${flag.value}` : ''}]`);
+  return letters ? [`[-${letters}]`, ...options] : options;
+};
+
+const formatArgsUsage = (args: TerminalCommandArg[]): string[] =>
+  args.map(arg => {
+    const name = `${arg.name}${arg.variadic ? '...' : ''}`;
+    return arg.optional ? `[${name}]` : name;
+  });
+
+const helpRow = (name: string, description: string) =>
+  `  ${name.padEnd(HELP_NAME_WIDTH - 1)} ${description}`;
+
+/**
+ * The flag whose value is the next word, if `arg` ends with one: `-n`, `--lines`,
+ * or combined letters like `-rn` where the last takes a value
+ */
+const findFlagAwaitingValue = (flags: TerminalCommandFlag[], arg: string): TerminalCommandFlag | undefined => {
+  const withValue = flags.filter(flag => flag.value);
+  if (arg.includes('=')) return undefined;
+
+  const exact = withValue.find(flag => flag.names.includes(arg));
+  if (exact || arg.startsWith('--')) return exact;
+  return withValue.find(flag => flag.names.includes(`-${arg[arg.length - 1]}`));
+};
+
+const resolveCompletions = async (
+  provider: TerminalCompletionProvider | undefined,
+  context: TerminalContext,
+  request: { args: string[]; word: string },
+  registry: CommandRegistry
+): Promise<string[]> => {
+  if (!provider) return [];
+  if (Array.isArray(provider)) return provider;
+  if (typeof provider === 'function') return provider(context, request);
+
+  switch (provider) {
+    case 'path':
+    case 'folder':
+      return getPathCompletions(request.word, context, provider === 'folder');
+    case 'command':
+      return registry.getAllCommandNames();
+  }
+};
+
+// Export singleton instance
+export const commandRegistry = CommandRegistry.getInstance();
@@ -0,0 +1,329 @@
+import type { Project, NotepadDocument, VNode } from '../types';
+import { virtualFileSystem } from './virtualFileSystem';
+import type { VfsChangeEvent } from './virtualFileSystem';
+import { projectService } from './projectService';
+import { useNotepadStore } from '../store/notepadStore';
+import { pathUtils } from '../utils/pathUtils';
+
+export type IndexedSource = 'file' | 'notepad' | 'project';
+
+/**
+ * A piece of text in the index. `location` is what opens it again: a VFS path,
+ * a Notepad document ID or a project slug.
+ */
+export interface IndexedDocument {
+  id: string;
+  source: IndexedSource;
+  title: string;
+  location: string;
+  content: string;
+}
+
+/**
+ * The best matching line of a document. `line` and `column` are 1-based and
+ * `highlights` are inclusive [start, end] ranges into `snippet`.
+ */
+export interface ContentMatch {
+  document: Omit<IndexedDocument, 'content'>;
+  line: number;
+  column: number;
+  snippet: string;
+  highlights: [number, number][];
+  score: number; // 0 is a perfect match
+}
+
+interface IndexEntry {
+  document: IndexedDocument;
+  lines: string[];
+  tokens: Set<string>;
+}
+
+const MAX_INDEXED_SIZE = 512 * 1024; // Larger files are only found by name
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_LENGTH = 80;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(token => token.length >= MIN_TERM_LENGTH);
+
+/**
+ * Trim a line to a window around its first highlight, shifting the highlights to match
+ */
+const toSnippet = (line: string, highlights: [number, number][]): Pick<ContentMatch, 'snippet' | 'highlights'> => {
+  const trimmed = line.trimEnd();
+  if (trimmed.length <= SNIPPET_LENGTH) {
+    return { snippet: trimmed, highlights };
+  }
+
+  const first = highlights[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(first - 20, trimmed.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < trimmed.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    snippet: `${prefix}${trimmed.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to < end)
+      .map(([from, to]): [number, number] => [from + shift, to + shift]),
+  };
+};
+
+/**
+ * Full-text index over VFS file contents, Notepad documents and project
+ * descriptions. `init` indexes each source once and then keeps it up to date
+ * from its change notifications, so a change only re-indexes the documents it touched.
+ */
+export class ContentIndexService {
+  private static instance: ContentIndexService;
+  private entries = new Map<string, IndexEntry>();
+  private postings = new Map<string, Set<string>>(); // token -> document IDs
+  private stopSources: (() => void) | null = null; // Set between init and dispose
+
+  private constructor() {}
+
+  public static getInstance(): ContentIndexService {
+    if (!ContentIndexService.instance) {
+      ContentIndexService.instance = new ContentIndexService();
+    }
+    return ContentIndexService.instance;
+  }
+
+  /**
+   * Index every source and follow its changes. Returns a function that stops
+   * following them, like `dispose`.
+   */
+  public init(): () => void {
+    this.dispose();
+    let active = true;
+
+    this.indexFiles('/');
+    const unwatch = virtualFileSystem.watch('/', event => this.handleFileChange(event), { recursive: true });
+
+    this.syncNotepadDocuments(useNotepadStore.getState().documents, {});
+    const unsubscribe = useNotepadStore.subscribe((state, previous) => {
+      if (state.documents !== previous.documents) {
+        this.syncNotepadDocuments(state.documents, previous.documents);
+      }
+    });
+
+    projectService.getAllProjects()
+      .then(projects => {
+        if (active) projects.forEach(project => this.indexProject(project));
+      })
+      .catch(error => console.warn('Failed to index projects:', error));
+
+    this.stopSources = () => {
+      active = false;
+      unwatch();
+      unsubscribe();
+    };
+    return () => this.dispose();
+  }
+
+  /**
+   * Stop following the sources and empty the index
+   */
+  public dispose(): void {
+    this.stopSources?.();
+    this.stopSources = null;
+    this.entries.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * Add a document, replacing any document with the same ID
+   */
+  public indexDocument(document: IndexedDocument): void {
+    this.removeDocument(document.id);
+
+    const tokens = new Set(tokenize(document.content));
+    this.entries.set(document.id, { document, lines: document.content.split(/\r?\n/), tokens });
+    tokens.forEach(token => {
+      const ids = this.postings.get(token) ?? new Set<string>();
+      ids.add(document.id);
+      this.postings.set(token, ids);
+    });
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  public removeDocument(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    entry.tokens.forEach(token => {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(token);
+      }
+    });
+    return this.entries.delete(id);
+  }
+
+  /**
+   * Check whether a document is indexed
+   */
+  public hasDocument(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Find documents containing every term of the query. The last term also
+   * matches as a prefix so results update while typing.
+   */
+  public search(query: string, limit = 10): ContentMatch[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    let candidates = this.lookup(terms[0], terms.length === 1);
+    for (let i = 1; i < terms.length; i++) {
+      const ids = this.lookup(terms[i], i === terms.length - 1);
+      candidates = new Set([...candidates].filter(id => ids.has(id)));
+    }
+
+    const matches: ContentMatch[] = [];
+    for (const id of candidates) {
+      const entry = this.entries.get(id);
+      const match = entry && this.matchLine(entry, terms);
+      if (match) matches.push(match);
+    }
+
+    return matches
+      .sort((a, b) => a.score - b.score || a.document.title.localeCompare(b.document.title))
+      .slice(0, limit);
+  }
+
+  private lookup(term: string, allowPrefix: boolean): Set<string> {
+    if (!allowPrefix) {
+      return this.postings.get(term) ?? new Set();
+    }
+
+    const ids = new Set<string>();
+    this.postings.forEach((documentIds, token) => {
+      if (token.startsWith(term)) {
+        documentIds.forEach(id => ids.add(id));
+      }
+    });
+    return ids;
+  }
+
+  /**
+   * Pick the line matching the most terms, the earliest on a tie
+   */
+  private matchLine(entry: IndexEntry, terms: string[]): ContentMatch | null {
+    let best: { line: number; highlights: [number, number][]; matched: number } | undefined;
+
+    for (const [index, text] of entry.lines.entries()) {
+      const lowerLine = text.toLowerCase();
+      const highlights: [number, number][] = [];
+      let matched = 0;
+
+      terms.forEach(term => {
+        let position = lowerLine.indexOf(term);
+        if (position !== -1) matched++;
+        while (position !== -1) {
+          highlights.push([position, position + term.length - 1]);
+          position = lowerLine.indexOf(term, position + term.length);
+        }
+      });
+
+      if (matched > (best?.matched ?? 0)) {
+        best = { line: index, highlights: highlights.sort((a, b) => a[0] - b[0]), matched };
+      }
+    }
+
+    if (!best) return null;
+    const { line, highlights, matched } = best;
+    const { id, source, title, location } = entry.document;
+
+    return {
+      document: { id, source, title, location },
+      line: line + 1,
+      column: highlights[0][0] + 1,
+      ...toSnippet(entry.lines[line], highlights),
+      // Lines holding every term rank above documents that only match across lines
+      score: matched === terms.length ? 0.2 : 0.2 + 0.3 * (1 - matched / terms.length),
+    };
+  }
+
+  private handleFileChange(event: VfsChangeEvent): void {
+    if (event.oldPath) {
+      this.removeFiles(event.oldPath);
+    }
+    this.indexFiles(event.path);
+  }
+
+  /**
+   * Re-index the text files at or below a path
+   */
+  private indexFiles(path: string): void {
+    this.removeFiles(path);
+
+    const visit = (node: VNode) => {
+      if (node.type === 'folder') {
+        node.children?.forEach(visit);
+      } else if (typeof node.content === 'string' && !node.binary && node.content.length <= MAX_INDEXED_SIZE) {
+        this.indexDocument({
+          id: `file:${node.path}`,
+          source: 'file',
+          title: node.name,
+          location: node.path,
+          content: node.content,
+        });
+      }
+    };
+
+    const node = virtualFileSystem.navigateToPath(path);
+    if (node) visit(node);
+  }
+
+  private removeFiles(path: string): void {
+    [...this.entries.values()]
+      .filter(({ document }) => document.source === 'file' && pathUtils.isWithin(document.location, path))
+      .forEach(({ document }) => this.removeDocument(document.id));
+  }
+
+  /**
+   * Index new and edited Notepad documents. Documents linked to a file are
+   * already indexed through the file system.
+   */
+  private syncNotepadDocuments(
+    documents: Record<string, NotepadDocument>,
+    previous: Record<string, NotepadDocument>
+  ): void {
+    Object.keys(previous)
+      .filter(id => !documents[id])
+      .forEach(id => this.removeDocument(`notepad:${id}`));
+
+    Object.values(documents).forEach(document => {
+      if (document === previous[document.id]) return;
+      if (document.filePath) {
+        this.removeDocument(`notepad:${document.id}`);
+        return;
+      }
+      this.indexDocument({
+        id: `notepad:${document.id}`,
+        source: 'notepad',
+        title: document.title,
+        location: document.id,
+        content: document.content,
+      });
+    });
+  }
+
+  private indexProject(project: Project): void {
+    this.indexDocument({
+      id: `project:${project.slug}`,
+      source: 'project',
+      title: project.title,
+      location: project.slug,
+      content: [project.summary, project.description, ...(project.highlights ?? [])].join('\n'),
+    });
+  }
+}
+
+// Export singleton instance
+export const contentIndexService = ContentIndexService.getInstance();
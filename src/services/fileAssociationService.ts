@@ -0,0 +1,209 @@
+import type { AppId, VNode } from '../types';
+import { appLauncher } from './appLauncher';
+import type { AppLaunchResult } from './appLauncher';
+import { appRegistry } from './appRegistry';
+import { fileTransferService } from './fileTransferService';
+import { virtualFileSystem, VfsError } from './virtualFileSystem';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { shortcutUtils } from '../utils/shortcutUtils';
+
+/**
+ * Declares that an app can open files with the given extensions or MIME types
+ */
+export interface FileAssociation {
+  id: string;
+  appId: AppId;
+  extensions?: string[];
+  mimeTypes?: string[]; // Exact types or wildcards such as 'text/*'
+  params?: (file: VNode) => Record<string, unknown>; // Launch data; defaults to { path }
+}
+
+/**
+ * An app offered for a file, as listed in "Open with"
+ */
+export interface FileOpener {
+  appId: AppId;
+  name: string;
+  icon: string;
+  isDefault: boolean;
+}
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'json', 'csv', 'tsv', 'log', 'xml', 'yml', 'yaml', 'ini', 'sh', 'js', 'ts', 'css', 'html'];
+const MEDIA_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'pdf', 'mp3', 'wav', 'ogg', 'm4a', 'mp4', 'webm', 'mov'];
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+  pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+
+/**
+ * A position to open a file at
+ */
+export interface FileLocation {
+  line: number; // 1-based
+  column?: number;
+}
+
+/**
+ * Registry mapping file types to the apps that open them, and the entry point
+ * for opening files: default app resolution, "Open with" and .lnk shortcuts
+ */
+export class FileAssociationService {
+  private static instance: FileAssociationService;
+  private associations: FileAssociation[] = [];
+
+  private constructor() {
+    this.initializeAssociations();
+  }
+
+  public static getInstance(): FileAssociationService {
+    if (!FileAssociationService.instance) {
+      FileAssociationService.instance = new FileAssociationService();
+    }
+    return FileAssociationService.instance;
+  }
+
+  /**
+   * Register the built-in associations, most specific first
+   */
+  private initializeAssociations(): void {
+    const builtIns: FileAssociation[] = [
+      {
+        id: 'notepad-text',
+        appId: 'notepad',
+        extensions: TEXT_EXTENSIONS,
+        mimeTypes: ['text/*', 'application/json'],
+      },
+      {
+        id: 'file-explorer-preview',
+        appId: 'file-explorer',
+        extensions: MEDIA_EXTENSIONS,
+        mimeTypes: ['image/*', 'audio/*', 'video/*', 'application/pdf'],
+      },
+    ];
+
+    builtIns.forEach(association => this.register(association));
+  }
+
+  /**
+   * Register an association, replacing any association with the same ID.
+   * Returns a function that unregisters it again.
+   */
+  public register(association: FileAssociation): () => void {
+    this.unregister(association.id);
+    this.associations.push(association);
+    return () => {
+      if (this.associations.includes(association)) {
+        this.unregister(association.id);
+      }
+    };
+  }
+
+  /**
+   * Unregister an association
+   */
+  public unregister(id: string): boolean {
+    const count = this.associations.length;
+    this.associations = this.associations.filter(association => association.id !== id);
+    return this.associations.length !== count;
+  }
+
+  /**
+   * Get all registered associations
+   */
+  public getAllAssociations(): FileAssociation[] {
+    return [...this.associations];
+  }
+
+  /**
+   * The keys a file's type is known by: its extension, then its MIME type
+   */
+  public getFileTypes(file: VNode): string[] {
+    const ext = file.ext?.toLowerCase();
+    const mimeType = file.mimeType ?? (ext ? fileTransferService.getMimeType(file) : undefined);
+    return [...(ext ? [ext] : []), ...(mimeType ? [mimeType] : [])];
+  }
+
+  /**
+   * Apps that can open a file type (an extension or a MIME type), in registration order
+   */
+  public getAppsForType(fileType: string): AppId[] {
+    const key = fileType.toLowerCase();
+    const apps = this.associations
+      .filter(association => this.handlesType(association, key))
+      .map(association => association.appId);
+    return [...new Set(apps)].filter(appId => appRegistry.hasApp(appId));
+  }
+
+  /**
+   * The app that opens a file type by default: the user's choice, else the first association
+   */
+  public getDefaultAppForType(fileType: string): AppId | undefined {
+    const key = fileType.toLowerCase();
+    const preferred = usePreferencesStore.getState().defaultApps[key];
+    const apps = this.getAppsForType(key);
+    return preferred && appRegistry.hasApp(preferred) ? preferred : apps[0];
+  }
+
+  /**
+   * Apps offered for a file in "Open with", the default first. File Explorer is
+   * always offered so any file can at least be previewed.
+   */
+  public getOpenersForFile(file: VNode): FileOpener[] {
+    const types = this.getFileTypes(file);
+    const defaultApp = this.getDefaultApp(file);
+    const candidates = new Set<AppId>([
+      ...(defaultApp ? [defaultApp] : []),
+      ...types.flatMap(type => this.getAppsForType(type)),
+      'file-explorer',
+    ]);
+
+    return [...candidates].flatMap(appId => {
+      const app = appRegistry.getApp(appId);
+      return app ? [{ appId, name: app.name, icon: app.icon, isDefault: appId === defaultApp }] : [];
+    });
+  }
+
+  /**
+   * The app a file opens with on double-click: the default app for its extension,
+   * else for its MIME type
+   */
+  public getDefaultApp(file: VNode): AppId | undefined {
+    return this.getFileTypes(file).map(type => this.getDefaultAppForType(type)).find(Boolean);
+  }
+
+  /**
+   * Open a file or folder: folders in File Explorer, shortcuts at their target and
+   * files in the given app or their default app, optionally at a line
+   */
+  public async openFile(path: string, appId?: AppId, location?: FileLocation): Promise<AppLaunchResult> {
+    const file = virtualFileSystem.navigateToPath(path);
+    if (!file) {
+      throw new VfsError('ENOENT', `No such file or folder: ${path}`, path);
+    }
+
+    if (file.type === 'folder') {
+      return appLauncher.launchAppWithData(appId ?? 'file-explorer', { path: file.path });
+    }
+    if (!appId && shortcutUtils.isShortcutPath(file.path)) {
+      return appLauncher.launchShortcut(file.path);
+    }
+
+    const targetApp = appId ?? this.getDefaultApp(file) ?? 'file-explorer';
+    const types = this.getFileTypes(file);
+    const association = this.associations.find(entry =>
+      entry.appId === targetApp && types.some(type => this.handlesType(entry, type))
+    );
+    const data = { ...(association?.params?.(file) ?? { path: file.path }), ...location };
+
+    return appLauncher.launchApp(targetApp, { data, focusExisting: true });
+  }
+
+  private handlesType(association: FileAssociation, fileType: string): boolean {
+    return !!(
+      association.extensions?.includes(fileType) ||
+      association.mimeTypes?.some(pattern => matchesMimeType(pattern, fileType))
+    );
+  }
+}
+
+// Export singleton instance
+export const fileAssociationService = FileAssociationService.getInstance();
@@ -0,0 +1,230 @@
+import type { VNode } from '../types';
+import { virtualFileSystem, VfsError } from './virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
+import { zipUtils } from '../utils/zipUtils';
+import type { ZipEntry } from '../utils/zipUtils';
+
+const MAX_IMPORT_SIZE = 25 * 1024 * 1024; // 25 MB per file
+
+// Extensions kept as editable text even when the browser reports no MIME type
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'json', 'csv', 'tsv', 'log', 'xml', 'yml', 'yaml', 'toml', 'ini',
+  'js', 'jsx', 'ts', 'tsx', 'css', 'scss', 'html', 'htm', 'sh', 'py', 'rb', 'go', 'rs', 'java', 'c', 'h',
+]);
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  csv: 'text/csv',
+  html: 'text/html',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  zip: 'application/zip',
+};
+
+export interface ImportFailure {
+  name: string;
+  error: string;
+}
+
+export interface ImportResult {
+  imported: VNode[];
+  failed: ImportFailure[];
+}
+
+/**
+ * A file to import together with its folder path relative to the drop target
+ */
+interface PendingImport {
+  file: File;
+  relativeFolder: string;
+}
+
+/**
+ * Moves files between the user's machine and the virtual file system:
+ * importing dropped or picked files and downloading files or whole folders
+ */
+export class FileTransferService {
+  private static instance: FileTransferService;
+
+  private constructor() {}
+
+  public static getInstance(): FileTransferService {
+    if (!FileTransferService.instance) {
+      FileTransferService.instance = new FileTransferService();
+    }
+    return FileTransferService.instance;
+  }
+
+  /**
+   * Guess the MIME type of a node from its stored type or extension
+   */
+  public getMimeType(node: VNode): string {
+    if (node.mimeType) {
+      return node.mimeType;
+    }
+    return (node.ext && MIME_TYPES[node.ext]) || (node.binary ? 'application/octet-stream' : 'text/plain');
+  }
+
+  /**
+   * Import files from a file picker into a folder
+   */
+  public async importFiles(files: FileList | File[], targetFolderPath: string): Promise<ImportResult> {
+    const pending = Array.from(files).map(file => ({ file, relativeFolder: '' }));
+    return this.importPending(pending, targetFolderPath);
+  }
+
+  /**
+   * Import a drag-and-drop payload, including dropped folders where supported
+   */
+  public async importDataTransfer(dataTransfer: DataTransfer, targetFolderPath: string): Promise<ImportResult> {
+    const entries = Array.from(dataTransfer.items ?? [])
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.() ?? null);
+
+    if (entries.length === 0 || entries.some(entry => !entry)) {
+      return this.importFiles(dataTransfer.files, targetFolderPath);
+    }
+
+    const pending: PendingImport[] = [];
+    for (const entry of entries) {
+      await this.collectEntry(entry!, '', pending);
+    }
+    return this.importPending(pending, targetFolderPath);
+  }
+
+  /**
+   * Build the downloadable form of a node: the file itself or a ZIP of a folder
+   */
+  public createDownload(path: string): { blob: Blob; fileName: string } {
+    const node = virtualFileSystem.navigateToPath(path);
+    if (!node) {
+      throw new VfsError('ENOENT', `No such file or folder: ${path}`, path);
+    }
+
+    if (node.type === 'file') {
+      const data = node.binary ?? node.content ?? '';
+      return { blob: new Blob([data], { type: this.getMimeType(node) }), fileName: node.name };
+    }
+
+    const archive = zipUtils.createZip(this.collectZipEntries(node, ''));
+    return {
+      blob: new Blob([archive], { type: 'application/zip' }),
+      fileName: `${node.path === '/' ? 'Root' : node.name}.zip`,
+    };
+  }
+
+  /**
+   * Download a file, or a folder as a ZIP archive
+   */
+  public download(path: string): void {
+    const { blob, fileName } = this.createDownload(path);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private async importPending(pending: PendingImport[], targetFolderPath: string): Promise<ImportResult> {
+    const result: ImportResult = { imported: [], failed: [] };
+
+    for (const { file, relativeFolder } of pending) {
+      try {
+        if (file.size > MAX_IMPORT_SIZE) {
+          throw new VfsError('EINVAL', `${file.name} is larger than 25 MB`, file.name);
+        }
+
+        const folderPath = pathUtils.join(targetFolderPath, relativeFolder);
+        virtualFileSystem.createFolder(folderPath, { recursive: true });
+
+        const content = await this.readFile(file);
+        const node = virtualFileSystem.createFile(pathUtils.join(folderPath, file.name), content, {
+          onConflict: 'rename',
+          modified: new Date(file.lastModified),
+          ...(file.type ? { mimeType: file.type } : {}),
+        });
+        result.imported.push(node);
+      } catch (error) {
+        result.failed.push({
+          name: pathUtils.join(relativeFolder, file.name).slice(1),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private readFile(file: File): Promise<string | ArrayBuffer> {
+    const asText = this.isTextFile(file);
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string | ArrayBuffer);
+      reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+      if (asText) {
+        reader.readAsText(file);
+      } else {
+        reader.readAsArrayBuffer(file);
+      }
+    });
+  }
+
+  private isTextFile(file: File): boolean {
+    if (file.type) {
+      return file.type.startsWith('text/') || file.type === 'application/json';
+    }
+    const ext = pathUtils.extname(file.name);
+    return !!ext && TEXT_EXTENSIONS.has(ext);
+  }
+
+  private async collectEntry(entry: FileSystemEntry, relativeFolder: string, pending: PendingImport[]): Promise<void> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      pending.push({ file, relativeFolder });
+      return;
+    }
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const folder = pathUtils.join(relativeFolder, entry.name);
+    // readEntries returns results in batches until it yields an empty list
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      for (const child of batch) {
+        await this.collectEntry(child, folder, pending);
+      }
+    }
+  }
+
+  private collectZipEntries(folder: VNode, prefix: string): ZipEntry[] {
+    const encoder = new TextEncoder();
+    return (folder.children ?? []).flatMap(child => {
+      const path = `${prefix}${child.name}`;
+      if (child.type === 'folder') {
+        return [{ path: `${path}/`, modified: child.modified }, ...this.collectZipEntries(child, `${path}/`)];
+      }
+      const data = child.binary ? new Uint8Array(child.binary) : encoder.encode(child.content ?? '');
+      return [{ path, data, modified: child.modified }];
+    });
+  }
+}
+
+// Export singleton instance
+export const fileTransferService = FileTransferService.getInstance();
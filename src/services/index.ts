@@ -1,12 +1,16 @@
 // Service exports
 export { searchService } from './searchService';
+export * from './contentIndexService';
 export { projectService } from './projectService';
 export { virtualFileSystem } from './virtualFileSystem';
 export { aboutService } from './aboutService';
 export { urlStateService } from './urlStateService';
 export { deepLinkService } from './deepLinkService';
 export * from './appRegistry';
+export * from './previewerRegistry';
+export * from './commandRegistry';
 export * from './appLifecycleManager';
 export * from './appLauncher';
+export * from './fileAssociationService';
 export { preloadService } from './preloadService';
 export { pwaService } from './pwaService';
\ No newline at end of file
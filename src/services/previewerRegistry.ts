@@ -0,0 +1,132 @@
+import { lazy } from 'react';
+import type { FilePreviewer, VNode } from '../types';
+import { fileTransferService } from './fileTransferService';
+
+// Lazy load previewers so heavy dependencies like PDF.js are only fetched when needed
+const ImagePreviewer = lazy(() => import('../components/file-explorer/previewers/ImagePreviewer'));
+
+const PdfPreviewer = lazy(() => import('../components/file-explorer/previewers/PdfPreviewer'));
+
+const MediaPreviewer = lazy(() => import('../components/file-explorer/previewers/MediaPreviewer'));
+
+const DataTablePreviewer = lazy(() => import('../components/file-explorer/previewers/DataTablePreviewer'));
+
+// Files carrying neither text nor bytes have nothing to show
+const hasData = (file: VNode) => !!(file.binary || file.url || file.content);
+
+/**
+ * Registry of file previewers keyed by extension or MIME type.
+ * Previewers registered later take precedence, so apps can override the built-ins.
+ */
+export class PreviewerRegistry {
+  private static instance: PreviewerRegistry;
+  private previewers: FilePreviewer[] = [];
+
+  private constructor() {
+    this.initializePreviewers();
+  }
+
+  public static getInstance(): PreviewerRegistry {
+    if (!PreviewerRegistry.instance) {
+      PreviewerRegistry.instance = new PreviewerRegistry();
+    }
+    return PreviewerRegistry.instance;
+  }
+
+  /**
+   * Register the built-in previewers
+   */
+  private initializePreviewers(): void {
+    const builtIns: FilePreviewer[] = [
+      {
+        id: 'image',
+        name: 'Image',
+        extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp'],
+        mimeTypes: ['image/*'],
+        canPreview: file => !!(file.binary || file.url),
+        component: ImagePreviewer,
+      },
+      {
+        id: 'pdf',
+        name: 'PDF',
+        extensions: ['pdf'],
+        mimeTypes: ['application/pdf'],
+        canPreview: file => !!(file.binary || file.url),
+        component: PdfPreviewer,
+      },
+      {
+        id: 'media',
+        name: 'Audio and video',
+        extensions: ['mp3', 'wav', 'ogg', 'm4a', 'flac', 'mp4', 'webm', 'mov'],
+        mimeTypes: ['audio/*', 'video/*'],
+        canPreview: file => !!(file.binary || file.url),
+        component: MediaPreviewer,
+      },
+      {
+        id: 'data-table',
+        name: 'Table',
+        extensions: ['json', 'csv', 'tsv'],
+        mimeTypes: ['application/json', 'text/csv', 'text/tab-separated-values'],
+        canPreview: file => file.content !== undefined,
+        component: DataTablePreviewer,
+      },
+    ];
+
+    builtIns.forEach(previewer => this.register(previewer));
+  }
+
+  /**
+   * Register a previewer, replacing any previewer with the same ID.
+   * Returns a function that unregisters it again.
+   */
+  public register(previewer: FilePreviewer): () => void {
+    this.unregister(previewer.id);
+    this.previewers.push(previewer);
+    return () => {
+      if (this.previewers.includes(previewer)) {
+        this.unregister(previewer.id);
+      }
+    };
+  }
+
+  /**
+   * Unregister a previewer
+   */
+  public unregister(id: string): boolean {
+    const count = this.previewers.length;
+    this.previewers = this.previewers.filter(previewer => previewer.id !== id);
+    return this.previewers.length !== count;
+  }
+
+  /**
+   * Get all registered previewers, most recently registered first
+   */
+  public getAllPreviewers(): FilePreviewer[] {
+    return [...this.previewers].reverse();
+  }
+
+  /**
+   * Find the previewer for a file, if any
+   */
+  public getPreviewer(file: VNode): FilePreviewer | undefined {
+    if (file.type !== 'file' || !hasData(file)) {
+      return undefined;
+    }
+    return this.getAllPreviewers().find(previewer => this.matches(previewer, file));
+  }
+
+  private matches(previewer: FilePreviewer, file: VNode): boolean {
+    const ext = file.ext?.toLowerCase();
+    const mimeType = fileTransferService.getMimeType(file);
+
+    const matchesExtension = !!ext && !!previewer.extensions?.includes(ext);
+    const matchesMimeType = !!previewer.mimeTypes?.some(pattern =>
+      pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType
+    );
+
+    return (matchesExtension || matchesMimeType) && (previewer.canPreview?.(file) ?? true);
+  }
+}
+
+// Export singleton instance
+export const previewerRegistry = PreviewerRegistry.getInstance();
@@ -0,0 +1,369 @@
+import type { ResourceSample } from '../types';
+
+// Resources that no window accounts for belong to the desktop itself
+export const SYSTEM_RESOURCE_ID = 'system';
+
+// Work started this soon after a window's commit or event is put down to that window
+const SCOPE_DURATION = 100;
+
+// Commits are kept this long for long tasks to be matched with
+const COMMIT_HISTORY = 5000;
+
+// Events whose handlers act for the window they happen in
+const SCOPED_EVENTS = ['pointerdown', 'mousedown', 'click', 'dblclick', 'keydown', 'keyup', 'input', 'change', 'submit', 'wheel', 'focusin'];
+
+type Listener = EventListenerOrEventListenerObject;
+
+interface Commit {
+  windowId: string;
+  start: number; // When React started rendering, on the performance timeline
+  end: number; // When it committed
+}
+
+interface Timers {
+  setTimeout: typeof globalThis.setTimeout;
+  clearTimeout: typeof globalThis.clearTimeout;
+  setInterval: typeof globalThis.setInterval;
+  clearInterval: typeof globalThis.clearInterval;
+}
+
+interface Originals extends Timers {
+  addEventListener: EventTarget['addEventListener'];
+  removeEventListener: EventTarget['removeEventListener'];
+}
+
+const TIMER_FUNCTIONS = ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] as const;
+
+// Totals since the last sample, keyed by window ID
+const commitTimes = new Map<string, number>();
+const longTaskTimes = new Map<string, number>();
+
+// Timers waiting now, with the window that set them
+const timers = new Map<unknown, string | undefined>();
+
+// Listeners by target, then listener, then `type:capture`, with the window that added them.
+// Listeners on elements count for the window they are in; others for the window that added them.
+let listeners = new WeakMap<EventTarget, Map<Listener, Map<string, string>>>();
+const scopedListeners = new Map<string, number>();
+
+// The monitor's own listeners are not counted
+const internalListeners = new WeakSet<Listener>();
+
+let recentCommits: Commit[] = [];
+let lastCommit: { time: number; windowIds: Set<string> } | null = null;
+let lastEvent: { windowId: string; time: number } | null = null;
+
+// The window new timers and listeners are put down to
+let scope: string | undefined;
+let scopeResetTimer: ReturnType<typeof setTimeout> | undefined;
+
+let originals: Originals | null = null;
+let wrappedTimers: Timers | null = null;
+let longTaskObserver: PerformanceObserver | null = null;
+
+const add = (totals: Map<string, number>, key: string, amount: number) => {
+  totals.set(key, (totals.get(key) ?? 0) + amount);
+};
+
+const getWindowId = (node: Node): string | undefined => {
+  const element = node instanceof Element ? node : node.parentElement;
+  return element?.closest('[data-window-id]')?.getAttribute('data-window-id') ?? undefined;
+};
+
+// Listeners on the page itself, like keyboard shortcuts on document, are not in any window's subtree
+const isElementTarget = (target: EventTarget): target is Element =>
+  target instanceof Element && target !== document.documentElement && target !== document.body;
+
+const setScope = (windowId: string | undefined) => {
+  scope = windowId;
+  if (!originals) return;
+  originals.clearTimeout(scopeResetTimer);
+  scopeResetTimer = originals.setTimeout(() => {
+    scope = undefined;
+  }, SCOPE_DURATION);
+};
+
+const runInScope = <T>(windowId: string | undefined, callback: () => T): T => {
+  const previous = scope;
+  scope = windowId;
+  try {
+    return callback();
+  } finally {
+    scope = previous;
+  }
+};
+
+const getCapture = (options?: boolean | EventListenerOptions) =>
+  typeof options === 'boolean' ? options : !!options?.capture;
+
+const track = (target: EventTarget, type: string, listener: Listener, capture: boolean): boolean => {
+  let byListener = listeners.get(target);
+  if (!byListener) {
+    byListener = new Map();
+    listeners.set(target, byListener);
+  }
+  let keys = byListener.get(listener);
+  if (!keys) {
+    keys = new Map();
+    byListener.set(listener, keys);
+  }
+
+  // Adding the same listener twice does nothing
+  const key = `${type}:${capture}`;
+  if (keys.has(key)) return false;
+
+  const owner = scope ?? SYSTEM_RESOURCE_ID;
+  keys.set(key, owner);
+  if (!isElementTarget(target)) add(scopedListeners, owner, 1);
+  return true;
+};
+
+const untrack = (target: EventTarget, type: string, listener: Listener, capture: boolean) => {
+  const byListener = listeners.get(target);
+  const keys = byListener?.get(listener);
+  const key = `${type}:${capture}`;
+  const owner = keys?.get(key);
+  if (!byListener || !keys || owner === undefined) return;
+
+  keys.delete(key);
+  if (keys.size === 0) byListener.delete(listener);
+  if (!isElementTarget(target)) add(scopedListeners, owner, -1);
+};
+
+const countListeners = (target: EventTarget): number => {
+  if (!isElementTarget(target)) return 0;
+  let count = 0;
+  listeners.get(target)?.forEach(keys => {
+    count += keys.size;
+  });
+  return count;
+};
+
+const countSubtree = (root: Element) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+  let nodes = 0;
+  let listenerCount = 0;
+  for (let node: Node | null = walker.currentNode; node; node = walker.nextNode()) {
+    nodes++;
+    listenerCount += countListeners(node);
+  }
+  return { nodes, listeners: listenerCount };
+};
+
+const handleScopedEvent = (event: Event) => {
+  const windowId = event.target instanceof Node ? getWindowId(event.target) : undefined;
+  lastEvent = windowId ? { windowId, time: event.timeStamp } : null;
+  setScope(windowId);
+};
+
+/**
+ * Per-window resource accounting for Task Manager. React commit times come
+ * from the Profiler around each window, long tasks from PerformanceObserver,
+ * and listeners and timers from wrapping the browser's own functions once
+ * `install` has run. Work is put down to the window whose commit, event or
+ * timer started it; whatever cannot be placed counts for the system.
+ */
+export const resourceMonitor = {
+  /**
+   * Start counting timers, listeners and long tasks. Returns a function that stops.
+   */
+  install: (): (() => void) => {
+    if (originals) return resourceMonitor.uninstall;
+
+    const saved: Originals = {
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+      addEventListener: EventTarget.prototype.addEventListener,
+      removeEventListener: EventTarget.prototype.removeEventListener,
+    };
+    originals = saved;
+
+    SCOPED_EVENTS.forEach(type => window.addEventListener(type, handleScopedEvent, true));
+
+    // Timer callbacks run for the window that set them, so the timers they set count for it too.
+    // Wrappers that outlive uninstalling, kept by whatever replaced them since, stop counting.
+    const wrapTimer = (schedule: typeof globalThis.setTimeout, repeat: boolean) =>
+      ((handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+        if (originals !== saved || typeof handler !== 'function') return schedule(handler, timeout, ...args);
+        const owner = scope;
+        const id = schedule((...callbackArgs: unknown[]) => {
+          if (!repeat) timers.delete(id);
+          runInScope(owner, () => handler(...callbackArgs));
+        }, timeout, ...args);
+        timers.set(id, owner);
+        return id;
+      }) as typeof globalThis.setTimeout;
+    const clearTimer = (clear: typeof globalThis.clearTimeout) =>
+      ((id?: Parameters<typeof globalThis.clearTimeout>[0]) => {
+        timers.delete(id);
+        clear(id);
+      }) as typeof globalThis.clearTimeout;
+
+    wrappedTimers = {
+      setTimeout: wrapTimer(saved.setTimeout, false),
+      setInterval: wrapTimer(saved.setInterval as typeof globalThis.setTimeout, true) as typeof globalThis.setInterval,
+      clearTimeout: clearTimer(saved.clearTimeout),
+      clearInterval: clearTimer(saved.clearInterval),
+    };
+    Object.assign(globalThis, wrappedTimers);
+
+    EventTarget.prototype.addEventListener = function (
+      this: EventTarget,
+      type: string,
+      listener: Listener | null,
+      options?: boolean | AddEventListenerOptions
+    ) {
+      saved.addEventListener.call(this, type, listener, options);
+      if (!listener || internalListeners.has(listener) || !track(this, type, listener, getCapture(options))) return;
+
+      // Listeners that remove themselves are counted out when they go
+      const capture = getCapture(options);
+      const forget = () => untrack(this, type, listener, capture);
+      internalListeners.add(forget);
+      if (typeof options === 'object' && options.once) {
+        this.addEventListener(type, forget, { once: true, capture });
+      }
+      if (typeof options === 'object' && options.signal) {
+        options.signal.addEventListener('abort', forget, { once: true });
+      }
+    };
+    EventTarget.prototype.removeEventListener = function (
+      this: EventTarget,
+      type: string,
+      listener: Listener | null,
+      options?: boolean | EventListenerOptions
+    ) {
+      saved.removeEventListener.call(this, type, listener, options);
+      if (listener) untrack(this, type, listener, getCapture(options));
+    };
+
+    if (typeof PerformanceObserver !== 'undefined' && PerformanceObserver.supportedEntryTypes?.includes('longtask')) {
+      longTaskObserver = new PerformanceObserver((list) => {
+        list.getEntries().forEach(entry => resourceMonitor.recordLongTask(entry.startTime, entry.duration));
+      });
+      longTaskObserver.observe({ type: 'longtask' });
+    }
+
+    return resourceMonitor.uninstall;
+  },
+
+  /**
+   * Put the browser's functions back. Ones replaced since, e.g. by fake timers
+   * in tests, are left alone.
+   */
+  uninstall: (): void => {
+    const saved = originals;
+    if (!saved) return;
+
+    TIMER_FUNCTIONS.forEach((name) => {
+      if (globalThis[name] === wrappedTimers?.[name]) Object.assign(globalThis, { [name]: saved[name] });
+    });
+    EventTarget.prototype.addEventListener = saved.addEventListener;
+    EventTarget.prototype.removeEventListener = saved.removeEventListener;
+    SCOPED_EVENTS.forEach(type => window.removeEventListener(type, handleScopedEvent, true));
+    saved.clearTimeout(scopeResetTimer);
+    longTaskObserver?.disconnect();
+    longTaskObserver = null;
+    originals = null;
+    wrappedTimers = null;
+
+    // Counts can no longer be kept up to date
+    scope = undefined;
+    timers.clear();
+    scopedListeners.clear();
+    listeners = new WeakMap();
+  },
+
+  /**
+   * Record a commit of a window's tree, as reported by its Profiler. Effects of a
+   * commit that rendered only one window are put down to that window.
+   */
+  recordCommit: (windowId: string, duration: number, startTime: number, commitTime: number): void => {
+    add(commitTimes, windowId, duration);
+    recentCommits = [
+      ...recentCommits.filter(commit => commit.end >= commitTime - COMMIT_HISTORY),
+      { windowId, start: startTime, end: commitTime },
+    ];
+
+    if (lastCommit?.time === commitTime) {
+      lastCommit.windowIds.add(windowId);
+    } else {
+      lastCommit = { time: commitTime, windowIds: new Set([windowId]) };
+    }
+    setScope(lastCommit.windowIds.size === 1 ? windowId : undefined);
+  },
+
+  /**
+   * Record a long task. It is shared by the windows that committed while it
+   * ran, or else put down to the window of an event it handled.
+   */
+  recordLongTask: (startTime: number, duration: number): void => {
+    const end = startTime + duration;
+    const overlaps = recentCommits
+      .map(commit => ({ windowId: commit.windowId, overlap: Math.min(end, commit.end) - Math.max(startTime, commit.start) }))
+      .filter(({ overlap }) => overlap > 0);
+    const total = overlaps.reduce((sum, { overlap }) => sum + overlap, 0);
+
+    if (total > 0) {
+      overlaps.forEach(({ windowId, overlap }) => add(longTaskTimes, windowId, duration * overlap / total));
+    } else if (lastEvent && lastEvent.time >= startTime && lastEvent.time <= end) {
+      add(longTaskTimes, lastEvent.windowId, duration);
+    } else {
+      add(longTaskTimes, SYSTEM_RESOURCE_ID, duration);
+    }
+  },
+
+  /**
+   * Run a callback for a window, so the timers and listeners it sets count for it
+   */
+  runInScope,
+
+  /**
+   * Sample the given windows and the system, starting new totals for commit and
+   * long task time. Windows not on the page, like minimized ones, use nothing.
+   */
+  collect: (windowIds: string[]): Record<string, ResourceSample> => {
+    const known = new Set(windowIds);
+    const ownerOf = (windowId: string | undefined) =>
+      windowId && known.has(windowId) ? windowId : SYSTEM_RESOURCE_ID;
+
+    const timerCounts = new Map<string, number>();
+    timers.forEach(windowId => add(timerCounts, ownerOf(windowId), 1));
+    const listenerCounts = new Map<string, number>();
+    scopedListeners.forEach((count, windowId) => add(listenerCounts, ownerOf(windowId), count));
+    const longTasks = new Map<string, number>();
+    longTaskTimes.forEach((time, windowId) => add(longTasks, ownerOf(windowId), time));
+
+    const samples: Record<string, ResourceSample> = {};
+    let windowNodes = 0;
+    let windowListeners = 0;
+    windowIds.forEach((windowId) => {
+      const element = document.querySelector(`[data-window-id="${windowId}"]`);
+      const subtree = element ? countSubtree(element) : { nodes: 0, listeners: 0 };
+      windowNodes += subtree.nodes;
+      windowListeners += subtree.listeners;
+      samples[windowId] = {
+        commitTime: commitTimes.get(windowId) ?? 0,
+        longTaskTime: longTasks.get(windowId) ?? 0,
+        listeners: subtree.listeners + (listenerCounts.get(windowId) ?? 0),
+        timers: timerCounts.get(windowId) ?? 0,
+        domNodes: subtree.nodes,
+      };
+    });
+
+    const page = countSubtree(document.documentElement);
+    samples[SYSTEM_RESOURCE_ID] = {
+      commitTime: 0,
+      longTaskTime: longTasks.get(SYSTEM_RESOURCE_ID) ?? 0,
+      listeners: page.listeners - windowListeners + (listenerCounts.get(SYSTEM_RESOURCE_ID) ?? 0),
+      timers: timerCounts.get(SYSTEM_RESOURCE_ID) ?? 0,
+      domNodes: page.nodes - windowNodes,
+    };
+
+    commitTimes.clear();
+    longTaskTimes.clear();
+    return samples;
+  },
+};
@@ -1,6 +1,14 @@
 import Fuse from 'fuse.js';
-import type { SearchableItem, SearchIndex, SearchResult, AppId } from '../types';
+import type { SearchableItem, SearchIndex, SearchResult, AppId, VNode } from '../types';
 import { appLauncher } from './appLauncher';
+import { contentIndexService } from './contentIndexService';
+import type { ContentMatch } from './contentIndexService';
+import { fileAssociationService } from './fileAssociationService';
+import type { FileLocation } from './fileAssociationService';
+import { virtualFileSystem } from './virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
+
+const MAX_RESULTS = 10;
 
 class SearchService {
   private fuse: Fuse<SearchableItem> | null = null;
@@ -10,12 +18,38 @@ class SearchService {
     files: [],
     commands: []
   };
+  private stopWatching: (() => void) | null = null; // Set between init and dispose
 
   constructor() {
     this.buildSearchIndex();
     this.initializeFuse();
   }
 
+  /**
+   * Keep the files bucket and the content index in step with their sources.
+   * Returns a function that stops following them, like `dispose`.
+   */
+  public init(): () => void {
+    this.dispose();
+    this.updateFiles('/');
+
+    const stopContentIndex = contentIndexService.init();
+    const unwatch = virtualFileSystem.watch('/', event => this.updateFiles(event.path, event.oldPath), { recursive: true });
+    this.stopWatching = () => {
+      unwatch();
+      stopContentIndex();
+    };
+    return () => this.dispose();
+  }
+
+  /**
+   * Stop following the file system and the content index
+   */
+  public dispose(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+
   private buildSearchIndex(): void {
     // Build apps index
     this.searchIndex.apps = [
@@ -125,35 +159,7 @@ class SearchService {
     ];
 
     // Build files index (virtual file system)
-    this.searchIndex.files = [
-      {
-        id: 'desktop',
-        title: 'Desktop',
-        description: 'Desktop folder',
-        keywords: ['desktop', 'folder'],
-        category: 'file',
-        icon: 'monitor',
-        action: () => this.openFile('/Desktop')
-      },
-      {
-        id: 'documents',
-        title: 'Documents',
-        description: 'Documents folder',
-        keywords: ['documents', 'folder', 'files'],
-        category: 'file',
-        icon: 'folder',
-        action: () => this.openFile('/Documents')
-      },
-      {
-        id: 'projects-folder',
-        title: 'Projects Folder',
-        description: 'Projects and portfolio items',
-        keywords: ['projects', 'portfolio', 'work'],
-        category: 'file',
-        icon: 'folder',
-        action: () => this.openFile('/Projects')
-      }
-    ];
+    this.searchIndex.files = this.buildFileItems();
 
     // Sample projects (this would be loaded from actual project data)
     this.searchIndex.projects = [
@@ -178,6 +184,46 @@ class SearchService {
     ];
   }
 
+  /**
+   * Searchable items for the file or folder at a path and everything below it.
+   * The root itself is left out.
+   */
+  private buildFileItems(path = '/'): SearchableItem[] {
+    const items: SearchableItem[] = [];
+    const visit = (node: VNode) => {
+      items.push({
+        id: `file:${node.path}`,
+        title: node.name,
+        description: node.path,
+        keywords: node.ext ? [node.type, node.ext] : [node.type],
+        category: 'file',
+        icon: node.type === 'folder' ? 'folder' : 'file-text',
+        action: () => this.openFile(node.path)
+      });
+      node.children?.forEach(visit);
+    };
+
+    const node = virtualFileSystem.navigateToPath(path);
+    if (node?.path === '/') node.children?.forEach(visit);
+    else if (node) visit(node);
+    return items;
+  }
+
+  /**
+   * Replace the file items at and below a changed path, and a renamed item's
+   * old path; the rest stay as they are
+   */
+  private updateFiles(path: string, oldPath?: string): void {
+    const changed = oldPath ? [path, oldPath] : [path];
+    // File items carry their path as the description
+    const isChanged = (item: SearchableItem) => changed.some(changedPath => pathUtils.isWithin(item.description, changedPath));
+
+    const added = this.buildFileItems(path);
+    this.searchIndex.files = [...this.searchIndex.files.filter(item => !isChanged(item)), ...added];
+    this.fuse?.remove(item => item.category === 'file' && isChanged(item));
+    added.forEach(item => this.fuse?.add(item));
+  }
+
   private initializeFuse(): void {
     // Combine all searchable items
     const allItems = [
@@ -210,9 +256,7 @@ class SearchService {
       return [];
     }
 
-    const results = this.fuse.search(query, { limit: 10 });
-    
-    return results.map(result => ({
+    const results: SearchResult[] = this.fuse.search(query, { limit: MAX_RESULTS }).map(result => ({
       ...result.item,
       score: result.score,
       matches: result.matches?.map(match => ({
@@ -221,6 +265,51 @@ class SearchService {
         value: match.value
       }))
     }));
+
+    // Add full-text matches, attaching the snippet when the item was also found by name
+    contentIndexService.search(query, MAX_RESULTS).forEach(match => {
+      const contentResult = this.toContentResult(match);
+      const existing = results.find(result => result.id === contentResult.id);
+      if (existing) {
+        existing.snippet = contentResult.snippet;
+        existing.score = Math.min(existing.score ?? 1, contentResult.score ?? 1);
+      } else {
+        results.push(contentResult);
+      }
+    });
+
+    return results
+      .sort((a, b) => (a.score ?? 1) - (b.score ?? 1))
+      .slice(0, MAX_RESULTS);
+  }
+
+  private toContentResult({ document, line, column, snippet, highlights, score }: ContentMatch): SearchResult {
+    const location: FileLocation = { line, column };
+    const descriptions = {
+      file: document.location,
+      notepad: 'Notepad document',
+      project: 'Project',
+    };
+
+    return {
+      id: document.id,
+      title: document.title,
+      description: descriptions[document.source],
+      keywords: [],
+      category: document.source === 'project' ? 'project' : 'file',
+      icon: document.source === 'project' ? 'folder' : 'file-text',
+      score,
+      snippet: { text: snippet, line, highlights },
+      action: () => {
+        if (document.source === 'file') {
+          this.openFile(document.location, location);
+        } else if (document.source === 'notepad') {
+          this.launchWithData('notepad', { documentId: document.location, ...location });
+        } else {
+          this.openProject(document.location);
+        }
+      }
+    };
   }
 
   public getItemsByCategory(category: SearchableItem['category']): SearchableItem[] {
@@ -252,16 +341,27 @@ class SearchService {
     }
   }
 
+  private async launchWithData(appId: AppId, data: Record<string, unknown>): Promise<void> {
+    const result = await appLauncher.launchApp(appId, { data, focusExisting: true });
+    if (!result.success) {
+      console.error(`Failed to launch app ${appId}:`, result.error);
+    }
+  }
+
   private openProject(projectId: string): void {
-    // This will open the projects app with specific project
-    console.log(`Opening project: ${projectId}`);
-    // TODO: Integrate with projects app
+    this.launchWithData('projects', { slug: projectId }).catch(error => {
+      console.error(`Error opening project ${projectId}:`, error);
+    });
   }
 
-  private openFile(path: string): void {
-    // This will open file explorer at specific path
-    console.log(`Opening file: ${path}`);
-    // TODO: Integrate with file explorer
+  private openFile(path: string, location?: FileLocation): void {
+    fileAssociationService.openFile(path, undefined, location)
+      .then(result => {
+        if (!result.success) {
+          console.error(`Failed to open ${path}:`, result.error);
+        }
+      })
+      .catch(error => console.error(`Error opening ${path}:`, error));
   }
 
   private executeCommand(command: string): void {
@@ -0,0 +1,159 @@
+import type { AboutData, Project } from '../types';
+import type { VfsMountEntry, VfsMountProvider } from './virtualFileSystem';
+import { projectService } from './projectService';
+import { aboutService } from './aboutService';
+
+const PROJECT_TYPE_FOLDERS: Record<Project['type'], { name: string; icon: string }> = {
+  web: { name: 'Web Development', icon: 'Globe' },
+  mobile: { name: 'Mobile Apps', icon: 'Smartphone' },
+  systems: { name: 'Systems', icon: 'Server' },
+  ml: { name: 'Machine Learning', icon: 'Brain' },
+};
+
+// Collapse the indentation that template literals leave in descriptions
+const toParagraph = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Characters that cannot appear in a file name
+const toFileName = (title: string) => title.replace(/[/\\:*?"<>|]/g, '-').trim();
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+/**
+ * Render a project as a markdown document
+ */
+export const renderProjectMarkdown = (project: Project): string => {
+  const sections = [
+    `# ${project.title}`,
+    `> ${project.summary}`,
+    `**Year:** ${project.year}  \n**Role:** ${project.role}  \n**Type:** ${PROJECT_TYPE_FOLDERS[project.type].name}`,
+    `## Description\n${toParagraph(project.description)}`,
+    `## Technologies\n${bulletList(project.tech)}`,
+  ];
+
+  if (project.highlights?.length) {
+    sections.push(`## Highlights\n${bulletList(project.highlights)}`);
+  }
+  if (project.metrics?.length) {
+    sections.push(`## Metrics\n${bulletList(project.metrics.map(metric => `**${metric.label}:** ${metric.value}`))}`);
+  }
+
+  const links = Object.entries(project.links ?? {}).filter(([, url]) => url);
+  if (links.length > 0) {
+    sections.push(`## Links\n${bulletList(links.map(([label, url]) => `[${label}](${url})`))}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+};
+
+/**
+ * /Projects: one markdown file per project, grouped into folders by type
+ */
+export const projectsMountProvider: VfsMountProvider = {
+  generate: async () => {
+    const projects = await projectService.getAllProjects();
+    const types = Object.keys(PROJECT_TYPE_FOLDERS) as Project['type'][];
+
+    return types
+      .map((type): VfsMountEntry => {
+        const usedNames = new Set<string>();
+        const files = projects
+          .filter(project => project.type === type)
+          .sort((a, b) => b.year - a.year || a.title.localeCompare(b.title))
+          .map((project): VfsMountEntry => {
+            const title = toFileName(project.title);
+            const name = usedNames.has(`${title}.md`) ? `${title} (${project.slug}).md` : `${title}.md`;
+            usedNames.add(name);
+            return {
+              name,
+              type: 'file',
+              modified: new Date(project.year, 0, 1),
+              content: renderProjectMarkdown(project),
+            };
+          });
+
+        return { ...PROJECT_TYPE_FOLDERS[type], type: 'folder', children: files };
+      })
+      .filter(folder => folder.children!.length > 0);
+  },
+};
+
+const renderExperience = ({ companies }: AboutData) =>
+  '# Experience\n\n' +
+  companies
+    .map(company => [
+      `## ${company.position} at ${company.name}`,
+      `*${company.startDate} to ${company.endDate ?? 'Present'} | ${company.location}*`,
+      toParagraph(company.description),
+      bulletList(company.achievements),
+      `**Technologies:** ${company.technologies.join(', ')}`,
+    ].join('\n\n'))
+    .join('\n\n') + '\n';
+
+const renderEducation = ({ institutions }: AboutData) =>
+  '# Education\n\n' +
+  institutions
+    .map(institution => [
+      `## ${institution.degree} in ${institution.field}`,
+      `*${institution.name} | ${institution.startYear} to ${institution.endYear}*`,
+      ...(institution.gpa ? [`**GPA:** ${institution.gpa}`] : []),
+      ...(institution.description ? [toParagraph(institution.description)] : []),
+      ...(institution.honors?.length ? [bulletList(institution.honors)] : []),
+    ].join('\n\n'))
+    .join('\n\n') + '\n';
+
+const renderSkills = ({ skills }: AboutData) => {
+  const categories = [...new Set(skills.map(skill => skill.category))];
+  return '# Skills\n\n' +
+    categories
+      .map(category => {
+        const lines = skills
+          .filter(skill => skill.category === category)
+          .map(skill => `${skill.name} (${'★'.repeat(skill.proficiency)}${'☆'.repeat(5 - skill.proficiency)}, ${skill.yearsOfExperience}y)`);
+        return `## ${category.charAt(0).toUpperCase()}${category.slice(1)}\n${bulletList(lines)}`;
+      })
+      .join('\n\n') + '\n';
+};
+
+const renderTimeline = ({ timeline }: AboutData) =>
+  '# Timeline\n\n' +
+  timeline
+    .map(milestone => `- **${milestone.date}** ${milestone.title}: ${toParagraph(milestone.description)}`)
+    .join('\n') + '\n';
+
+const renderContact = ({ contact }: AboutData) =>
+  [
+    'Contact Information:',
+    '',
+    `Email: ${contact.email}`,
+    ...(contact.phone ? [`Phone: ${contact.phone}`] : []),
+    `Location: ${contact.location}`,
+    `LinkedIn: ${contact.linkedin}`,
+    `GitHub: ${contact.github}`,
+    ...(contact.website ? [`Website: ${contact.website}`] : []),
+    ...(contact.leetcode ? [`LeetCode: ${contact.leetcode}`] : []),
+  ].join('\n') + '\n';
+
+/**
+ * /About: experience, education, skills, timeline and contact details
+ */
+export const aboutMountProvider: VfsMountProvider = {
+  generate: async () => {
+    const data = await aboutService.getAboutData();
+
+    return [
+      { name: 'Experience.md', type: 'file', icon: 'Briefcase', content: renderExperience(data) },
+      { name: 'Education.md', type: 'file', content: renderEducation(data) },
+      { name: 'Skills.md', type: 'file', content: renderSkills(data) },
+      { name: 'Timeline.md', type: 'file', content: renderTimeline(data) },
+      { name: 'Contact.txt', type: 'file', icon: 'Mail', content: renderContact(data) },
+    ];
+  },
+};
+
+/**
+ * Mounts registered when the file system starts
+ */
+export const defaultMounts: Array<{ path: string; provider: VfsMountProvider }> = [
+  { path: '/Projects', provider: projectsMountProvider },
+  { path: '/About', provider: aboutMountProvider },
+];
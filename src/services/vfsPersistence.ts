@@ -0,0 +1,98 @@
+import type { VNode } from '../types';
+
+/**
+ * A node as stored in the overlay. Children are never stored; the tree is
+ * rebuilt from the factory image plus the overlay entries on every load.
+ */
+export type StoredVNode = Omit<VNode, 'children'>;
+
+/**
+ * A single change the user made on top of the factory image.
+ * `deleted` entries are whiteouts that hide a factory node and its subtree.
+ */
+export interface VfsOverlayEntry {
+  path: string;
+  node?: StoredVNode;
+  deleted?: boolean;
+}
+
+const DB_NAME = 'portfolio-os-vfs';
+const DB_VERSION = 1;
+const STORE_NAME = 'overlay';
+const OVERLAY_KEY = 'entries';
+
+/**
+ * IndexedDB persistence for the virtual file system overlay.
+ * Degrades to a no-op when IndexedDB is unavailable (SSR, tests, private mode).
+ */
+export class VfsPersistence {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  }
+
+  /**
+   * Load the persisted overlay entries
+   */
+  public async load(): Promise<VfsOverlayEntry[]> {
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .get(OVERLAY_KEY);
+
+      request.onsuccess = () => resolve((request.result as VfsOverlayEntry[]) || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Replace the persisted overlay entries
+   */
+  public async save(entries: VfsOverlayEntry[]): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(entries, OVERLAY_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Remove every persisted overlay entry
+   */
+  public async clear(): Promise<void> {
+    return this.save([]);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
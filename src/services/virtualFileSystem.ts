@@ -1,15 +1,161 @@
 import type { VNode } from '../types';
+import { pathUtils } from '../utils/pathUtils';
+import { shortcutUtils } from '../utils/shortcutUtils';
+import { VfsPersistence } from './vfsPersistence';
+import type { StoredVNode, VfsOverlayEntry } from './vfsPersistence';
+import { defaultMounts } from './vfsMounts';
+
+export type VfsErrorCode =
+  | 'ENOENT'
+  | 'EEXIST'
+  | 'ENOTDIR'
+  | 'EISDIR'
+  | 'ENOTEMPTY'
+  | 'EINVAL'
+  | 'EPERM';
+
+/**
+ * Error raised by file system operations, carrying a POSIX-style code
+ */
+export class VfsError extends Error {
+  public readonly code: VfsErrorCode;
+  public readonly path: string;
+
+  constructor(code: VfsErrorCode, message: string, path: string) {
+    super(message);
+    this.name = 'VfsError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/**
+ * What to do when the target name already exists in the destination folder
+ */
+export type VfsConflictPolicy = 'error' | 'rename' | 'overwrite';
+
+export interface VfsWriteOptions {
+  onConflict?: VfsConflictPolicy;
+}
+
+/**
+ * File content: text, or raw bytes for binary files such as images and PDFs
+ */
+export type VfsFileContent = string | ArrayBuffer;
+
+export interface VfsCreateFileOptions extends VfsWriteOptions {
+  mimeType?: string;
+  modified?: Date; // Keep the original timestamp of imported files
+}
+
+export interface VfsCreateFolderOptions extends VfsWriteOptions {
+  recursive?: boolean; // Create missing parent folders (mkdir -p)
+}
+
+export interface VfsTransferOptions extends VfsWriteOptions {
+  name?: string; // Name to give the item in the destination folder
+}
+
+export interface VfsDeleteOptions {
+  recursive?: boolean; // Allow deleting non-empty folders
+}
+
+export type VfsChangeType = 'created' | 'modified' | 'deleted' | 'renamed';
+
+/**
+ * Describes a single change to the tree. `oldPath` is set for renames and moves.
+ */
+export interface VfsChangeEvent {
+  type: VfsChangeType;
+  path: string;
+  oldPath?: string;
+  nodeType: VNode['type'];
+  timestamp: Date;
+}
+
+export type VfsWatchListener = (event: VfsChangeEvent) => void;
+
+export interface VfsWatchOptions {
+  recursive?: boolean; // Also report changes deeper than the direct children
+}
+
+interface VfsWatcher {
+  path: string;
+  recursive: boolean;
+  listener: VfsWatchListener;
+}
+
+/**
+ * A file or folder produced by a mount provider. Paths, sizes and extensions
+ * are derived when the entry is placed in the tree.
+ */
+export interface VfsMountEntry {
+  name: string;
+  type: VNode['type'];
+  content?: string;
+  modified?: Date;
+  icon?: string;
+  children?: VfsMountEntry[];
+}
+
+/**
+ * Generates the contents of a mounted folder
+ */
+export interface VfsMountProvider {
+  generate: () => VfsMountEntry[] | Promise<VfsMountEntry[]>;
+}
+
+interface VfsMount {
+  provider: VfsMountProvider;
+  nodes: VNode[];
+  generatedAt: Date;
+  loading: Promise<void>;
+}
+
+const PERSIST_DELAY = 300; // ms
+
+// Startup script run by every Terminal window, see shellCommands
+const TERMINAL_RC_CONTENT = `# ~/.portfoliorc runs whenever a Terminal window opens.
+# Edit it in Notepad with \`edit ~/.portfoliorc\`, then open a new Terminal.
+
+alias ll='ls -la'
+alias la='ls -a'
+export EDITOR=notepad
+`;
 
 /**
  * Virtual File System Service
- * Manages the virtual file system structure and navigation
+ * Manages the virtual file system structure and navigation.
+ *
+ * The tree is the read-only factory image from `createFileSystem()` with the
+ * user's overlay (created, modified and deleted nodes) merged on top. Only the
+ * overlay is persisted, so factory content updates still reach returning users.
+ * Mounted folders are generated by providers, placed last and are read-only.
  */
 export class VirtualFileSystemService {
   private static instance: VirtualFileSystemService;
+  private factoryImage: VNode;
+  private upserts: Map<string, StoredVNode> = new Map();
+  private whiteouts: Set<string> = new Set();
   private fileSystem: VNode;
+  private persistence = new VfsPersistence();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchers: Set<VfsWatcher> = new Set();
+  private mounts: Map<string, VfsMount> = new Map();
+
+  /**
+   * Resolves once the persisted overlay and the default mounts have loaded
+   */
+  public readonly ready: Promise<void>;
 
   private constructor() {
-    this.fileSystem = this.createFileSystem();
+    this.factoryImage = this.createFileSystem();
+    this.fileSystem = this.buildTree();
+    defaultMounts.forEach(({ path, provider }) => this.mount(path, provider));
+    this.ready = Promise.all([
+      this.hydrate(),
+      ...[...this.mounts.values()].map(mount => mount.loading),
+    ]).then(() => undefined);
   }
 
   public static getInstance(): VirtualFileSystemService {
@@ -20,7 +166,7 @@ export class VirtualFileSystemService {
   }
 
   /**
-   * Create the virtual file system structure
+   * Create the factory image of the virtual file system
    */
   private createFileSystem(): VNode {
     const now = new Date();
@@ -48,7 +194,7 @@ export class VirtualFileSystemService {
               size: 1024,
               modified: lastWeek,
               icon: 'FolderOpen',
-              content: 'Shortcut to Projects application'
+              content: shortcutUtils.stringify({ appId: 'projects' })
             },
             {
               name: 'About.lnk',
@@ -58,7 +204,7 @@ export class VirtualFileSystemService {
               size: 1024,
               modified: lastWeek,
               icon: 'User',
-              content: 'Shortcut to About application'
+              content: shortcutUtils.stringify({ appId: 'about' })
             },
             {
               name: 'Resume.pdf',
@@ -68,6 +214,8 @@ export class VirtualFileSystemService {
               size: 2048000,
               modified: lastMonth,
               icon: 'FileText',
+              mimeType: 'application/pdf',
+              url: '/resume.pdf',
               content: 'Professional resume document'
             }
           ]
@@ -173,63 +321,7 @@ Feel free to reach out through the About application or via the contact links pr
           path: '/Projects',
           modified: now,
           icon: 'FolderOpen',
-          children: [
-            {
-              name: 'Web Development',
-              type: 'folder',
-              path: '/Projects/Web Development',
-              modified: lastWeek,
-              icon: 'Globe',
-              children: [
-                {
-                  name: 'Portfolio OS.md',
-                  type: 'file',
-                  path: '/Projects/Web Development/Portfolio OS.md',
-                  ext: 'md',
-                  size: 3200,
-                  modified: now,
-                  icon: 'Monitor',
-                  content: `# Portfolio OS
-
-## Description
-An interactive portfolio website designed as a desktop operating system experience.
-
-## Technologies
-- React 18
-- TypeScript
-- Tailwind CSS
-- Zustand
-- Framer Motion
-
-## Features
-- Window management
-- Virtual file system
-- Multiple applications
-- Keyboard shortcuts
-- Responsive design
-
-## Status
-In Development`
-                }
-              ]
-            },
-            {
-              name: 'Mobile Apps',
-              type: 'folder',
-              path: '/Projects/Mobile Apps',
-              modified: lastMonth,
-              icon: 'Smartphone',
-              children: []
-            },
-            {
-              name: 'Systems',
-              type: 'folder',
-              path: '/Projects/Systems',
-              modified: lastMonth,
-              icon: 'Server',
-              children: []
-            }
-          ]
+          children: [] // Generated from projectService, see vfsMounts
         },
         {
           name: 'About',
@@ -237,51 +329,25 @@ In Development`
           path: '/About',
           modified: now,
           icon: 'User',
-          children: [
-            {
-              name: 'Experience.md',
-              type: 'file',
-              path: '/About/Experience.md',
-              ext: 'md',
-              size: 4500,
-              modified: lastWeek,
-              icon: 'Briefcase',
-              content: `# Professional Experience
-
-## Current Role
-Software Developer focused on creating innovative web applications and user experiences.
-
-## Skills
-- Frontend Development (React, TypeScript, CSS)
-- Backend Development (Node.js, Python)
-- Database Design (PostgreSQL, MongoDB)
-- Cloud Services (AWS, Vercel)
-- DevOps (Docker, CI/CD)
-
-## Interests
-- User Experience Design
-- Performance Optimization
-- Accessibility
-- Open Source Contributions`
-            },
-            {
-              name: 'Contact.txt',
-              type: 'file',
-              path: '/About/Contact.txt',
-              ext: 'txt',
-              size: 500,
-              modified: lastMonth,
-              icon: 'Mail',
-              content: `Contact Information:
-
-Email: contact@example.com
-LinkedIn: linkedin.com/in/example
-GitHub: github.com/example
-Portfolio: portfolio-os.example.com
-
-Feel free to reach out for collaboration opportunities or just to connect!`
-            }
-          ]
+          children: [] // Generated from aboutService, see vfsMounts
+        },
+        {
+          name: 'Trash',
+          type: 'folder',
+          path: '/Trash',
+          modified: now,
+          icon: 'Trash2',
+          children: []
+        },
+        {
+          name: '.portfoliorc',
+          type: 'file',
+          path: '/.portfoliorc',
+          size: TERMINAL_RC_CONTENT.length,
+          modified: lastMonth,
+          icon: 'FileText',
+          mimeType: 'text/plain',
+          content: TERMINAL_RC_CONTENT
         }
       ]
     };
@@ -298,12 +364,19 @@ Feel free to reach out for collaboration opportunities or just to connect!`
    * Navigate to a specific path
    */
   public navigateToPath(path: string): VNode | null {
+    return this.findNode(this.fileSystem, path);
+  }
+
+  /**
+   * Find a node by path inside the given tree
+   */
+  private findNode(root: VNode, path: string): VNode | null {
     if (path === '/' || path === '') {
-      return this.fileSystem;
+      return root;
     }
 
-    const pathParts = path.split('/').filter(part => part !== '');
-    let currentNode = this.fileSystem;
+    const pathParts = pathUtils.normalize(path).split('/').filter(part => part !== '');
+    let currentNode = root;
 
     for (const part of pathParts) {
       if (!currentNode.children) {
@@ -453,6 +526,644 @@ Feel free to reach out for collaboration opportunities or just to connect!`
       }
     });
   }
+
+  /**
+   * Subscribe to changes at or below a path. Returns an unsubscribe function.
+   */
+  public watch(path: string, listener: VfsWatchListener, options: VfsWatchOptions = {}): () => void {
+    const watcher: VfsWatcher = {
+      path: pathUtils.normalize(path),
+      recursive: options.recursive ?? false,
+      listener,
+    };
+    this.watchers.add(watcher);
+
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+
+  /**
+   * Check whether a path exists
+   */
+  public exists(path: string): boolean {
+    return this.navigateToPath(path) !== null;
+  }
+
+  /**
+   * Read the text content of a file
+   */
+  public readFile(path: string): string {
+    const node = this.requireNode(path);
+    if (node.type === 'folder') {
+      throw new VfsError('EISDIR', `Is a folder: ${node.path}`, node.path);
+    }
+    return node.content ?? '';
+  }
+
+  /**
+   * Read the raw bytes of a file; text files are UTF-8 encoded
+   */
+  public readBinary(path: string): ArrayBuffer {
+    const node = this.requireNode(path);
+    if (node.type === 'folder') {
+      throw new VfsError('EISDIR', `Is a folder: ${node.path}`, node.path);
+    }
+    if (node.binary) {
+      return node.binary;
+    }
+    const bytes = new TextEncoder().encode(node.content ?? '');
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  }
+
+  /**
+   * Create a new file
+   */
+  public createFile(path: string, content: VfsFileContent = '', options: VfsCreateFileOptions = {}): VNode {
+    this.assertWritable(path);
+    const folderPath = pathUtils.dirname(path);
+    this.requireFolder(folderPath);
+    const name = this.resolveTargetName(folderPath, pathUtils.basename(path), 'file', options.onConflict);
+
+    const filePath = pathUtils.join(folderPath, name);
+    const replaced = this.exists(filePath); // Only true when overwriting
+    const file = this.createFileNode(filePath, content);
+    this.recordNode({
+      ...file,
+      ...(options.mimeType ? { mimeType: options.mimeType } : {}),
+      ...(options.modified ? { modified: options.modified } : {}),
+    });
+    this.touch(folderPath);
+    this.commit({ type: replaced ? 'modified' : 'created', path: filePath, nodeType: 'file' });
+
+    return this.requireNode(filePath);
+  }
+
+  /**
+   * Create a new folder
+   */
+  public createFolder(path: string, options: VfsCreateFolderOptions = {}): VNode {
+    const normalizedPath = pathUtils.normalize(path);
+    const existing = this.navigateToPath(normalizedPath);
+    if (existing && existing.type === 'folder' && options.recursive) {
+      return existing;
+    }
+    this.assertWritable(normalizedPath);
+
+    const folderPath = pathUtils.dirname(normalizedPath);
+    if (options.recursive && !this.exists(folderPath)) {
+      this.createFolder(folderPath, { recursive: true });
+    }
+    this.requireFolder(folderPath);
+    const name = this.resolveTargetName(folderPath, pathUtils.basename(normalizedPath), 'folder', options.onConflict);
+
+    const newPath = pathUtils.join(folderPath, name);
+    this.recordNode({ name, type: 'folder', path: newPath, modified: new Date() });
+    this.touch(folderPath);
+    this.commit({ type: 'created', path: newPath, nodeType: 'folder' });
+
+    return this.requireNode(newPath);
+  }
+
+  /**
+   * Write the content of a file, creating it if it does not exist yet
+   */
+  public writeFile(path: string, content: VfsFileContent): VNode {
+    this.assertWritable(path);
+    const existing = this.navigateToPath(path);
+    if (!existing) {
+      return this.createFile(path, content);
+    }
+    if (existing.type === 'folder') {
+      throw new VfsError('EISDIR', `Is a folder: ${existing.path}`, existing.path);
+    }
+
+    const stored = this.toStoredNode(existing);
+    delete stored.content;
+    delete stored.binary;
+    this.recordNode({
+      ...stored,
+      ...this.toFileContent(content),
+      modified: new Date(),
+    });
+    this.commit({ type: 'modified', path: existing.path, nodeType: 'file' });
+
+    return this.requireNode(existing.path);
+  }
+
+  /**
+   * Rename a file or folder in place
+   */
+  public rename(path: string, newName: string, options: VfsWriteOptions = {}): VNode {
+    return this.transfer(path, pathUtils.dirname(path), 'move', { ...options, name: newName });
+  }
+
+  /**
+   * Move a file or folder into another folder
+   */
+  public move(sourcePath: string, targetFolderPath: string, options: VfsTransferOptions = {}): VNode {
+    return this.transfer(sourcePath, targetFolderPath, 'move', options);
+  }
+
+  /**
+   * Copy a file or folder into another folder
+   */
+  public copy(sourcePath: string, targetFolderPath: string, options: VfsTransferOptions = {}): VNode {
+    return this.transfer(sourcePath, targetFolderPath, 'copy', options);
+  }
+
+  /**
+   * Delete a file or folder
+   */
+  public delete(path: string, options: VfsDeleteOptions = {}): void {
+    const node = this.requireNode(path);
+    if (node.path === '/') {
+      throw new VfsError('EPERM', 'Cannot delete the root folder', node.path);
+    }
+    this.assertWritable(node.path, true);
+    if (node.type === 'folder' && node.children?.length && !options.recursive) {
+      throw new VfsError('ENOTEMPTY', `Folder is not empty: ${node.path}`, node.path);
+    }
+
+    this.removePath(node.path);
+    this.touch(pathUtils.dirname(node.path));
+    this.commit({ type: 'deleted', path: node.path, nodeType: node.type });
+  }
+
+  /**
+   * Get a name that does not collide with anything in the folder,
+   * e.g. "Notes.txt" -> "Notes (2).txt"
+   */
+  public getAvailableName(folderPath: string, name: string, type: VNode['type'] = 'file'): string {
+    const folder = this.navigateToPath(folderPath);
+    const taken = new Set(folder?.children?.map(child => child.name) ?? []);
+    if (!taken.has(name)) {
+      return name;
+    }
+
+    const { stem, extension } = type === 'file'
+      ? pathUtils.splitExtension(name)
+      : { stem: name, extension: '' };
+
+    let counter = 2;
+    while (taken.has(`${stem} (${counter})${extension}`)) {
+      counter++;
+    }
+    return `${stem} (${counter})${extension}`;
+  }
+
+  /**
+   * Discard every user change and return to the factory image
+   */
+  public async resetToFactoryImage(): Promise<void> {
+    this.upserts.clear();
+    this.whiteouts.clear();
+    this.fileSystem = this.buildTree();
+    this.emit({ type: 'modified', path: '/', nodeType: 'folder' });
+    await this.flush();
+  }
+
+  /**
+   * Back a folder with a generator. The folder is replaced by the generated
+   * contents and becomes read-only. Returns an unmount function.
+   */
+  public mount(path: string, provider: VfsMountProvider): () => void {
+    const mountPath = pathUtils.normalize(path);
+    if (mountPath === '/') {
+      throw new VfsError('EINVAL', 'Cannot mount over the root folder', mountPath);
+    }
+
+    const mount: VfsMount = { provider, nodes: [], generatedAt: new Date(), loading: Promise.resolve() };
+    this.mounts.set(mountPath, mount);
+    mount.loading = this.refreshMount(mountPath);
+
+    return () => {
+      if (this.mounts.get(mountPath) !== mount) return;
+      this.mounts.delete(mountPath);
+      this.fileSystem = this.buildTree();
+      this.emit({ type: 'modified', path: mountPath, nodeType: 'folder' });
+    };
+  }
+
+  /**
+   * Regenerate the contents of a mounted folder
+   */
+  public async refreshMount(path: string): Promise<void> {
+    const mountPath = pathUtils.normalize(path);
+    const mount = this.mounts.get(mountPath);
+    if (!mount) {
+      throw new VfsError('ENOENT', `Nothing is mounted at ${mountPath}`, mountPath);
+    }
+
+    try {
+      const entries = await mount.provider.generate();
+      if (this.mounts.get(mountPath) !== mount) {
+        return; // Unmounted while generating
+      }
+
+      mount.generatedAt = new Date();
+      mount.nodes = entries.map(entry => this.createMountedNode(mountPath, entry, mount.generatedAt));
+      this.fileSystem = this.buildTree();
+      this.emit({ type: 'modified', path: mountPath, nodeType: 'folder' });
+    } catch (error) {
+      console.warn(`Failed to generate ${mountPath}:`, error);
+    }
+  }
+
+  /**
+   * Check whether a path lives in a mounted (generated) folder
+   */
+  public isReadOnly(path: string): boolean {
+    const normalizedPath = pathUtils.normalize(path);
+    return [...this.mounts.keys()].some(mountPath => pathUtils.isWithin(normalizedPath, mountPath));
+  }
+
+  /**
+   * Write pending overlay changes to storage immediately
+   */
+  public async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    try {
+      await this.persistence.save(this.serializeOverlay());
+    } catch (error) {
+      console.warn('Failed to persist file system changes:', error);
+    }
+  }
+
+  /**
+   * Move or copy a node into a folder, resolving name collisions
+   */
+  private transfer(
+    sourcePath: string,
+    targetFolderPath: string,
+    mode: 'move' | 'copy',
+    options: VfsTransferOptions
+  ): VNode {
+    const source = this.requireNode(sourcePath);
+    if (source.path === '/') {
+      throw new VfsError('EPERM', `Cannot ${mode} the root folder`, source.path);
+    }
+
+    const targetFolder = this.requireFolder(targetFolderPath);
+    if (mode === 'move') {
+      this.assertWritable(source.path, true);
+    }
+    this.assertWritable(targetFolder.path);
+    if (source.type === 'folder' && pathUtils.isWithin(targetFolder.path, source.path)) {
+      throw new VfsError('EINVAL', `Cannot ${mode} a folder into itself: ${source.path}`, source.path);
+    }
+
+    const requestedName = options.name ?? source.name;
+    const sourceFolderPath = pathUtils.dirname(source.path);
+    if (mode === 'move' && targetFolder.path === sourceFolderPath && requestedName === source.name) {
+      return source;
+    }
+
+    const name = this.resolveTargetName(targetFolder.path, requestedName, source.type, options.onConflict);
+    const targetPath = pathUtils.join(targetFolder.path, name);
+    const now = new Date();
+    const rebase = (node: VNode, path: string, nodeName: string): VNode => {
+      const rebased: VNode = { ...node, name: nodeName, path };
+      if (mode === 'copy') {
+        rebased.modified = now;
+      }
+      if (node.type === 'file' && nodeName !== node.name) {
+        const ext = pathUtils.extname(nodeName);
+        if (ext) rebased.ext = ext;
+        else delete rebased.ext;
+      }
+      if (node.children) {
+        rebased.children = node.children.map(child =>
+          rebase(child, pathUtils.join(path, child.name), child.name)
+        );
+      }
+      return rebased;
+    };
+    const snapshot = rebase(source, targetPath, name);
+
+    if (mode === 'move') {
+      this.removePath(source.path);
+      this.touch(sourceFolderPath);
+    }
+    this.recordSubtree(snapshot);
+    this.touch(targetFolder.path);
+    this.commit(
+      mode === 'move'
+        ? { type: 'renamed', path: targetPath, oldPath: source.path, nodeType: source.type }
+        : { type: 'created', path: targetPath, nodeType: source.type }
+    );
+
+    return this.requireNode(targetPath);
+  }
+
+  /**
+   * Validate a name and apply the conflict policy for the target folder
+   */
+  private resolveTargetName(
+    folderPath: string,
+    name: string,
+    type: VNode['type'],
+    policy: VfsConflictPolicy = 'error'
+  ): string {
+    const validationError = pathUtils.validateName(name);
+    if (validationError) {
+      throw new VfsError('EINVAL', validationError, pathUtils.join(folderPath, name));
+    }
+
+    const existing = this.navigateToPath(pathUtils.join(folderPath, name));
+    if (!existing) {
+      return name;
+    }
+
+    switch (policy) {
+      case 'rename':
+        return this.getAvailableName(folderPath, name, type);
+      case 'overwrite':
+        if (existing.type !== type) {
+          throw new VfsError(
+            existing.type === 'folder' ? 'EISDIR' : 'ENOTDIR',
+            `Cannot overwrite ${existing.type} with ${type}: ${existing.path}`,
+            existing.path
+          );
+        }
+        this.removePath(existing.path);
+        return name;
+      default:
+        throw new VfsError('EEXIST', `Already exists: ${existing.path}`, existing.path);
+    }
+  }
+
+  /**
+   * Reject changes inside mounted folders, and optionally to any folder
+   * that contains a mount
+   */
+  private assertWritable(path: string, includeSubtree = false): void {
+    const normalizedPath = pathUtils.normalize(path);
+    const blocked = this.isReadOnly(normalizedPath) ||
+      (includeSubtree && [...this.mounts.keys()].some(mountPath => pathUtils.isWithin(mountPath, normalizedPath)));
+    if (blocked) {
+      throw new VfsError('EPERM', `Read-only: ${normalizedPath}`, normalizedPath);
+    }
+  }
+
+  private createMountedNode(parentPath: string, entry: VfsMountEntry, generatedAt: Date): VNode {
+    const path = pathUtils.join(parentPath, entry.name);
+    const modified = entry.modified ?? generatedAt;
+    const icon = entry.icon ? { icon: entry.icon } : {};
+
+    if (entry.type === 'folder') {
+      return {
+        name: entry.name,
+        type: 'folder',
+        path,
+        modified,
+        ...icon,
+        children: (entry.children ?? []).map(child => this.createMountedNode(path, child, generatedAt)),
+      };
+    }
+
+    return { ...this.createFileNode(path, entry.content ?? ''), modified, ...icon };
+  }
+
+  private requireNode(path: string): VNode {
+    const node = this.navigateToPath(path);
+    if (!node) {
+      const normalizedPath = pathUtils.normalize(path);
+      throw new VfsError('ENOENT', `No such file or folder: ${normalizedPath}`, normalizedPath);
+    }
+    return node;
+  }
+
+  private requireFolder(path: string): VNode {
+    const node = this.requireNode(path);
+    if (node.type !== 'folder') {
+      throw new VfsError('ENOTDIR', `Not a folder: ${node.path}`, node.path);
+    }
+    return node;
+  }
+
+  private createFileNode(path: string, content: VfsFileContent): StoredVNode {
+    const name = pathUtils.basename(path);
+    const ext = pathUtils.extname(name);
+    return {
+      name,
+      type: 'file',
+      path,
+      ...(ext ? { ext } : {}),
+      modified: new Date(),
+      ...this.toFileContent(content),
+    };
+  }
+
+  private toFileContent(content: VfsFileContent): Pick<VNode, 'content' | 'binary' | 'size'> {
+    return typeof content === 'string'
+      ? { content, size: this.getByteLength(content) }
+      : { binary: content, size: content.byteLength };
+  }
+
+  private getByteLength(content: string): number {
+    return new TextEncoder().encode(content).length;
+  }
+
+  private toStoredNode(node: VNode): StoredVNode {
+    const stored: VNode = { ...node };
+    delete stored.children;
+    return stored;
+  }
+
+  /**
+   * Update a folder's modified time after its contents changed
+   */
+  private touch(folderPath: string): void {
+    const folder = this.navigateToPath(folderPath);
+    if (folder && folder.path !== '/') {
+      this.recordNode({ ...this.toStoredNode(folder), modified: new Date() });
+    }
+  }
+
+  private recordNode(node: StoredVNode): void {
+    this.upserts.set(node.path, node);
+  }
+
+  private recordSubtree(node: VNode): void {
+    this.recordNode(this.toStoredNode(node));
+    node.children?.forEach(child => this.recordSubtree(child));
+  }
+
+  /**
+   * Remove a path from the overlay, hiding it with a whiteout if it
+   * comes from the factory image
+   */
+  private removePath(path: string): void {
+    for (const key of [...this.upserts.keys()]) {
+      if (pathUtils.isWithin(key, path)) this.upserts.delete(key);
+    }
+    for (const key of [...this.whiteouts]) {
+      if (pathUtils.isWithin(key, path)) this.whiteouts.delete(key);
+    }
+    if (this.findNode(this.factoryImage, path)) {
+      this.whiteouts.add(path);
+    }
+  }
+
+  /**
+   * Merge the overlay on top of a fresh copy of the factory image
+   */
+  private buildTree(): VNode {
+    const root = this.cloneNode(this.factoryImage);
+    const byDepth = (a: string, b: string) => pathUtils.depth(a) - pathUtils.depth(b);
+
+    [...this.whiteouts].sort(byDepth).forEach(path => {
+      const parent = this.findNode(root, pathUtils.dirname(path));
+      if (parent?.children) {
+        parent.children = parent.children.filter(child => child.path !== path);
+      }
+    });
+
+    [...this.upserts.keys()].sort(byDepth).forEach(path => {
+      const node = this.upserts.get(path)!;
+      const parent = this.findNode(root, pathUtils.dirname(path));
+      if (!parent || parent.type !== 'folder') {
+        return; // Orphaned entry, its parent was removed
+      }
+
+      const children = parent.children ?? [];
+      const index = children.findIndex(child => child.name === node.name);
+      const existing = index >= 0 ? children[index] : undefined;
+      const merged: VNode = node.type === 'folder'
+        ? { ...node, children: existing?.type === 'folder' ? existing.children ?? [] : [] }
+        : { ...node };
+
+      parent.children = index >= 0
+        ? children.map((child, i) => (i === index ? merged : child))
+        : [...children, merged];
+    });
+
+    [...this.mounts.keys()].sort(byDepth).forEach(mountPath => {
+      const mount = this.mounts.get(mountPath)!;
+      const parent = this.findNode(root, pathUtils.dirname(mountPath));
+      if (!parent || parent.type !== 'folder') {
+        return;
+      }
+
+      const name = pathUtils.basename(mountPath);
+      const children = parent.children ?? [];
+      const existing = children.find(child => child.name === name);
+      const folder: VNode = {
+        name,
+        type: 'folder',
+        path: mountPath,
+        modified: mount.generatedAt,
+        ...(existing?.icon ? { icon: existing.icon } : {}),
+        children: mount.nodes.map(node => this.cloneNode(node)),
+      };
+
+      parent.children = existing
+        ? children.map(child => (child === existing ? folder : child))
+        : [...children, folder];
+    });
+
+    return root;
+  }
+
+  private cloneNode(node: VNode): VNode {
+    return node.children
+      ? { ...node, children: node.children.map(child => this.cloneNode(child)) }
+      : { ...node };
+  }
+
+  /**
+   * Rebuild the merged tree, schedule persistence and notify watchers
+   */
+  private commit(change: Omit<VfsChangeEvent, 'timestamp'>): void {
+    this.fileSystem = this.buildTree();
+    this.schedulePersist();
+    this.emit(change);
+  }
+
+  private emit(change: Omit<VfsChangeEvent, 'timestamp'>): void {
+    const event: VfsChangeEvent = { ...change, timestamp: new Date() };
+
+    [...this.watchers].forEach(watcher => {
+      const affected = this.affectsWatcher(watcher, event.path) ||
+        (event.oldPath !== undefined && this.affectsWatcher(watcher, event.oldPath));
+      if (!affected) return;
+
+      try {
+        watcher.listener(event);
+      } catch (error) {
+        console.error('File system watcher failed:', error);
+      }
+    });
+  }
+
+  /**
+   * A watcher sees changes to its own path or any ancestor, to its direct
+   * children and, when recursive, to anything below it
+   */
+  private affectsWatcher(watcher: VfsWatcher, changedPath: string): boolean {
+    return (
+      pathUtils.isWithin(watcher.path, changedPath) ||
+      pathUtils.dirname(changedPath) === watcher.path ||
+      (watcher.recursive && pathUtils.isWithin(changedPath, watcher.path))
+    );
+  }
+
+  private schedulePersist(): void {
+    if (!this.persistence.isAvailable()) {
+      return;
+    }
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      void this.flush();
+    }, PERSIST_DELAY);
+  }
+
+  private serializeOverlay(): VfsOverlayEntry[] {
+    return [
+      ...[...this.whiteouts].map(path => ({ path, deleted: true })),
+      ...[...this.upserts.values()].map(node => ({ path: node.path, node })),
+    ];
+  }
+
+  /**
+   * Load the persisted overlay. Changes made before loading finished are
+   * layered on top of the stored ones.
+   */
+  private async hydrate(): Promise<void> {
+    try {
+      const entries = await this.persistence.load();
+      if (entries.length === 0) {
+        return;
+      }
+
+      const pendingUpserts = this.upserts;
+      const pendingWhiteouts = this.whiteouts;
+      this.upserts = new Map();
+      this.whiteouts = new Set();
+
+      entries.forEach(entry => {
+        if (entry.deleted) {
+          this.whiteouts.add(entry.path);
+        } else if (entry.node) {
+          this.upserts.set(entry.path, entry.node);
+        }
+      });
+      pendingWhiteouts.forEach(path => this.removePath(path));
+      pendingUpserts.forEach(node => this.recordNode(node));
+
+      this.fileSystem = this.buildTree();
+      this.emit({ type: 'modified', path: '/', nodeType: 'folder' });
+    } catch (error) {
+      console.warn('Failed to load persisted file system changes:', error);
+    }
+  }
 }
 
 // Export singleton instance
@@ -24,18 +24,14 @@ export class WindowLifecycleManager {
 
     // Set up auto-save for window position
     const savePosition = () => {
-      const { updatePreferences } = usePreferencesStore.getState();
+      const { setWindowPosition } = usePreferencesStore.getState();
       const currentWindow = useWindowStore.getState().windows[windowId];
       
       if (currentWindow) {
-        updatePreferences({
-          windowPositions: {
-            [appId]: {
-              bounds: currentWindow.bounds,
-              maximized: currentWindow.maximized,
-              minimized: currentWindow.minimized || false,
-            }
-          }
+        setWindowPosition(appId, {
+          bounds: currentWindow.bounds,
+          maximized: currentWindow.maximized,
+          minimized: currentWindow.minimized || false,
         });
       }
     };
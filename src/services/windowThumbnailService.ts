@@ -0,0 +1,104 @@
+import { useWindowStore } from '../store/windowStore';
+
+// The last look of windows that are no longer on screen, keyed by window ID
+const snapshots = new Map<string, HTMLElement>();
+
+/**
+ * Copy what form fields and canvases show, which cloning leaves behind
+ */
+const copyLiveState = (source: HTMLElement, clone: HTMLElement) => {
+  const sourceFields = source.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>('input, textarea, select');
+  const cloneFields = clone.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>('input, textarea, select');
+  sourceFields.forEach((field, index) => {
+    if (cloneFields[index]) cloneFields[index].value = field.value;
+  });
+
+  const sourceCanvases = source.querySelectorAll('canvas');
+  const cloneCanvases = clone.querySelectorAll('canvas');
+  sourceCanvases.forEach((canvas, index) => {
+    if (canvas.width > 0 && canvas.height > 0) {
+      cloneCanvases[index]?.getContext('2d')?.drawImage(canvas, 0, 0);
+    }
+  });
+};
+
+/**
+ * A copy of a window's element that can sit in a thumbnail: inert, without IDs
+ * that would clash with the window's own, and filling its container
+ */
+const cloneWindowElement = (element: HTMLElement): HTMLElement => {
+  const clone = element.cloneNode(true) as HTMLElement;
+  copyLiveState(element, clone);
+  clone.removeAttribute('data-window-id');
+  clone.querySelectorAll('[id]').forEach(node => node.removeAttribute('id'));
+  clone.setAttribute('aria-hidden', 'true');
+  clone.setAttribute('inert', '');
+  Object.assign(clone.style, {
+    position: 'relative',
+    left: '0',
+    top: '0',
+    transform: 'none',
+    width: '100%',
+    height: '100%',
+    opacity: '1',
+    zIndex: 'auto',
+  });
+  return clone;
+};
+
+/**
+ * Live thumbnails for the window overview. A window on screen is copied as it
+ * is now; a minimized one shows how it looked when it was minimized.
+ */
+export const windowThumbnailService = {
+  /**
+   * The element a window is rendered in, if it is on the page
+   */
+  getWindowElement: (windowId: string): HTMLElement | null => {
+    return document.querySelector<HTMLElement>(`[data-window-id="${windowId}"]`);
+  },
+
+  /**
+   * A fresh copy of how a window looks, or null if it has never been seen
+   */
+  capture: (windowId: string): HTMLElement | null => {
+    const element = windowThumbnailService.getWindowElement(windowId);
+    if (element) return cloneWindowElement(element);
+
+    const snapshot = snapshots.get(windowId);
+    return snapshot ? (snapshot.cloneNode(true) as HTMLElement) : null;
+  },
+
+  /**
+   * Remember how a window looks for when it is off screen
+   */
+  snapshot: (windowId: string): void => {
+    const element = windowThumbnailService.getWindowElement(windowId);
+    if (element) {
+      snapshots.set(windowId, cloneWindowElement(element));
+    }
+  },
+
+  forget: (windowId: string): void => {
+    snapshots.delete(windowId);
+  },
+
+  /**
+   * Keep snapshots of minimized windows until they close. Minimized windows
+   * leave the page once the store changes, so they are snapshotted while their
+   * element is still there. Returns a function that stops watching.
+   */
+  watch: (): (() => void) => {
+    return useWindowStore.subscribe(
+      (state) => state.windows,
+      (windows, previousWindows) => {
+        Object.values(windows)
+          .filter(window => window.minimized && previousWindows[window.id] && !previousWindows[window.id].minimized)
+          .forEach(window => windowThumbnailService.snapshot(window.id));
+        Object.keys(previousWindows)
+          .filter(windowId => !windows[windowId])
+          .forEach(windowId => windowThumbnailService.forget(windowId));
+      }
+    );
+  },
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useDesktopStore } from '../desktopStore';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { shortcutUtils } from '../../utils/shortcutUtils';
+
+describe('desktopStore', () => {
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    localStorage.removeItem('desktop-icon-layout');
+    useDesktopStore.setState({ icons: useDesktopStore.getState().icons.filter(icon => !icon.path) });
+  });
+
+  describe('syncFileIcons', () => {
+    it('should show the files in /Desktop once, without repeating built-in app icons', () => {
+      useDesktopStore.getState().syncFileIcons(virtualFileSystem.navigateToPath('/Desktop')?.children ?? []);
+
+      const { icons } = useDesktopStore.getState();
+      expect(icons.filter(icon => icon.path).map(icon => icon.label)).toEqual(['About.lnk', 'Resume.pdf']);
+      expect(icons.filter(icon => icon.appId === 'projects')).toHaveLength(1);
+    });
+
+    it('should keep shortcuts that open an app with data of their own', () => {
+      virtualFileSystem.createFile(
+        '/Desktop/Portfolio.lnk',
+        shortcutUtils.stringify({ appId: 'projects', data: { projectId: 'portfolio' } })
+      );
+
+      useDesktopStore.getState().syncFileIcons(virtualFileSystem.navigateToPath('/Desktop')?.children ?? []);
+
+      expect(useDesktopStore.getState().icons.map(icon => icon.label)).toContain('Portfolio.lnk');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createJobControl, initJobStore, useJobStore } from '../jobStore';
+import { useWindowStore } from '../windowStore';
+
+// A job that runs until it is stopped, ignoring the signal
+const forever = () => new Promise<number>(() => {});
+
+describe('jobStore', () => {
+  let disconnect: () => void;
+
+  beforeEach(() => {
+    disconnect = initJobStore();
+  });
+
+  afterEach(() => {
+    disconnect();
+  });
+
+  it('should number jobs per window and forget them when they finish', async () => {
+    const store = useJobStore.getState();
+    const first = store.startJob({ windowId: 'window-a', command: 'one', run: async () => 3 });
+    const second = store.startJob({ windowId: 'window-a', command: 'two', run: forever });
+    const other = store.startJob({ windowId: 'window-b', command: 'three', run: forever });
+
+    expect([first.number, second.number, other.number]).toEqual([1, 2, 1]);
+    expect(second.pid).toBe(first.pid + 1);
+    expect(await store.waitForJob(first.pid)).toBe(3);
+    expect(useJobStore.getState().getWindowJobs('window-a')).toEqual([second]);
+
+    store.killJob(second.pid);
+    store.killJob(other.pid);
+  });
+
+  it('should end killed jobs with the signal status even if they ignore it', async () => {
+    const store = useJobStore.getState();
+    const job = store.startJob({ windowId: 'window-a', command: 'stubborn', run: forever });
+
+    expect(store.killJob(job.pid, 'SIGKILL')).toBe(true);
+    expect(await store.waitForJob(job.pid)).toBe(137);
+    expect(store.killJob(job.pid)).toBe(false);
+    expect(useJobStore.getState().jobs[job.pid]).toBeUndefined();
+  });
+
+  it('should hang up on jobs when their window closes', async () => {
+    const windowId = useWindowStore.getState().createWindow('terminal');
+    const job = useJobStore.getState().startJob({ windowId, command: 'watch', run: forever });
+
+    useWindowStore.getState().closeWindow(windowId);
+
+    expect(await useJobStore.getState().waitForJob(job.pid)).toBe(129);
+  });
+
+  describe('createJobControl', () => {
+    it('should find background jobs by number, prefix and text', () => {
+      const jobs = createJobControl('window-c');
+      const build = jobs.spawn('npm run build', forever);
+      const serve = jobs.spawn('serve --port 80', forever);
+
+      expect(jobs.find('%1')).toBe(build);
+      expect(jobs.find('%+')).toBe(serve);
+      expect(jobs.find('%-')).toBe(build);
+      expect(jobs.find('%npm')).toBe(build);
+      expect(jobs.find('%?port')).toBe(serve);
+      expect(jobs.find('%3')).toBeUndefined();
+
+      jobs.list().forEach(job => jobs.kill(job.pid));
+    });
+
+    it('should report finished background jobs unless they were brought to the foreground', async () => {
+      const onDone = vi.fn();
+      const jobs = createJobControl('window-d', onDone);
+      const quick = jobs.spawn('true', async () => 0);
+      const waited = jobs.spawn('sleep', async () => 0);
+      jobs.setBackground(waited.pid, false);
+
+      await jobs.wait(quick.pid);
+      await jobs.wait(waited.pid);
+      await Promise.resolve();
+
+      expect(onDone).toHaveBeenCalledTimes(1);
+      expect(onDone).toHaveBeenCalledWith(quick, 0);
+    });
+  });
+});
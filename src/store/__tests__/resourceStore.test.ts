@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HISTORY_LENGTH, SAMPLE_INTERVAL, useResourceStore } from '../resourceStore';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../windowStore';
+import { resourceMonitor, SYSTEM_RESOURCE_ID } from '../../services/resourceMonitor';
+
+describe('resourceStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+    });
+    useResourceStore.setState({ samples: {}, history: {}, interval: SAMPLE_INTERVAL, sampledAt: null, heap: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sample every open window and the system', () => {
+    const windowId = useWindowStore.getState().createWindow('notepad');
+    resourceMonitor.recordCommit(windowId, 3, 0, 5);
+
+    useResourceStore.getState().sample();
+
+    const { samples } = useResourceStore.getState();
+    expect(Object.keys(samples).sort()).toEqual([windowId, SYSTEM_RESOURCE_ID].sort());
+    expect(samples[windowId].commitTime).toBe(3);
+  });
+
+  it('should keep a bounded history and drop closed windows from it', () => {
+    const windowId = useWindowStore.getState().createWindow('notepad');
+    for (let i = 0; i < HISTORY_LENGTH + 5; i++) {
+      useResourceStore.getState().sample();
+      vi.advanceTimersByTime(500);
+    }
+
+    expect(useResourceStore.getState().history[windowId]).toHaveLength(HISTORY_LENGTH);
+    expect(useResourceStore.getState().interval).toBe(500);
+
+    useWindowStore.getState().closeWindow(windowId);
+    useResourceStore.getState().sample();
+    expect(useResourceStore.getState().history[windowId]).toBeUndefined();
+  });
+});
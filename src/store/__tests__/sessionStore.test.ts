@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initSessionStore, useSessionStore } from '../sessionStore';
+import { usePreferencesStore } from '../preferencesStore';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../windowStore';
+
+describe('sessionStore', () => {
+  let disconnect: () => void;
+
+  beforeEach(() => {
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+    });
+    useSessionStore.setState({ appStates: {}, lastSession: null, savedSessions: {}, recentlyClosed: [] });
+    usePreferencesStore.setState({ restoreSessionOnStartup: true });
+    disconnect = initSessionStore();
+  });
+
+  afterEach(() => {
+    disconnect();
+    vi.useRealTimers();
+  });
+
+  describe('last session', () => {
+    it('should keep the last session in step with the windows once changes settle', () => {
+      vi.useFakeTimers();
+      const windowId = useWindowStore.getState().createWindow('terminal');
+      expect(useSessionStore.getState().lastSession).toBeNull();
+
+      vi.advanceTimersByTime(500);
+      expect(useSessionStore.getState().lastSession?.windows.map(window => window.id)).toEqual([windowId]);
+    });
+
+    it('should restore the windows and app state of the last session', () => {
+      const windowId = useWindowStore.getState().createWindow('file-explorer');
+      useSessionStore.getState().saveCurrentSession();
+
+      // A reload starts without windows, and with the app state saved before it
+      useWindowStore.setState({ windows: {}, zOrder: [] });
+      useSessionStore.setState({ appStates: { [windowId]: { path: '/Projects' }, 'closed-window': {} } });
+      expect(useSessionStore.getState().restoreLastSession()).toBe(true);
+
+      expect(useWindowStore.getState().windows[windowId]).toBeDefined();
+      expect(useSessionStore.getState().appStates).toEqual({ [windowId]: { path: '/Projects' } });
+    });
+
+    it('should not restore over open windows or when turned off', () => {
+      const windowId = useWindowStore.getState().createWindow('terminal');
+      useSessionStore.getState().saveCurrentSession();
+      useSessionStore.setState({ appStates: { [windowId]: { cwd: '/' }, 'closed-window': {} } });
+      expect(useSessionStore.getState().restoreLastSession()).toBe(false);
+      expect(useSessionStore.getState().appStates).toEqual({ [windowId]: { cwd: '/' } });
+
+      useWindowStore.setState({ windows: {}, zOrder: [] });
+      usePreferencesStore.setState({ restoreSessionOnStartup: false });
+      expect(useSessionStore.getState().restoreLastSession()).toBe(false);
+      expect(useWindowStore.getState().zOrder).toEqual([]);
+      // Nothing comes back, so nothing is kept for it
+      expect(useSessionStore.getState().appStates).toEqual({});
+    });
+
+    it('should forget the app state of closed windows', () => {
+      const windowId = useWindowStore.getState().createWindow('notepad');
+      useSessionStore.getState().setAppState(windowId, { documentId: 'doc-1' });
+
+      useWindowStore.getState().closeWindow(windowId);
+
+      expect(useSessionStore.getState().appStates).toEqual({});
+    });
+  });
+
+  describe('named sessions', () => {
+    it('should save the open windows with their app state under a name', () => {
+      const windowId = useWindowStore.getState().createWindow('projects');
+      useSessionStore.getState().setAppState(windowId, { view: 'list' });
+
+      useSessionStore.getState().saveSession('  Work  ');
+
+      const saved = useSessionStore.getState().savedSessions['Work'];
+      expect(saved.windows.map(window => window.id)).toEqual([windowId]);
+      expect(saved.appStates).toEqual({ [windowId]: { view: 'list' } });
+      expect(useSessionStore.getState().getSavedSessions().map(session => session.name)).toEqual(['Work']);
+    });
+
+    it('should replace the open windows with fresh ones when a session is loaded', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('terminal');
+      const second = store.createWindow('terminal');
+      store.groupWindows(second, first);
+      useSessionStore.getState().setAppState(first, { cwd: '/Projects', history: [] });
+      useSessionStore.getState().saveSession('Shells');
+      const other = useWindowStore.getState().createWindow('about');
+
+      expect(useSessionStore.getState().loadSession('Shells')).toBe(true);
+
+      const { windows, zOrder, tabGroups } = useWindowStore.getState();
+      expect(zOrder).toHaveLength(2);
+      expect(windows[other]).toBeUndefined();
+      expect(zOrder).not.toContain(first);
+      const [group] = Object.values(tabGroups);
+      expect(group.tabs).toEqual(zOrder);
+      expect(useSessionStore.getState().appStates[group.tabs[0]]).toEqual({ cwd: '/Projects', history: [] });
+    });
+
+    it('should only replace windows with unsaved content when forced', () => {
+      const store = useWindowStore.getState();
+      useSessionStore.getState().saveSession('Empty');
+      const draft = store.createWindow('notepad');
+      store.updateWindowUnsavedState(draft, true);
+
+      expect(useSessionStore.getState().loadSession('Empty')).toBe(false);
+      expect(useWindowStore.getState().windows[draft]).toBeDefined();
+
+      expect(useSessionStore.getState().loadSession('Empty', true)).toBe(true);
+      expect(useWindowStore.getState().windows[draft]).toBeUndefined();
+    });
+
+    it('should ignore unknown and unnamed sessions', () => {
+      useSessionStore.getState().saveSession('   ');
+      expect(useSessionStore.getState().savedSessions).toEqual({});
+      expect(useSessionStore.getState().loadSession('Missing')).toBe(false);
+    });
+
+    it('should delete a saved session', () => {
+      useSessionStore.getState().saveSession('Empty');
+      useSessionStore.getState().deleteSession('Empty');
+      expect(useSessionStore.getState().savedSessions).toEqual({});
+    });
+  });
+
+  describe('recently closed', () => {
+    it('should reopen the last closed window where it was, with its app state', () => {
+      const store = useWindowStore.getState();
+      const windowId = store.createWindow('notepad', { title: 'Draft - Notepad', bounds: { x: 40, y: 60, w: 500, h: 400 } });
+      store.updateWindowUnsavedState(windowId, true);
+      useSessionStore.getState().setAppState(windowId, { documentId: null, unsaved: { title: 'Draft', content: 'Hello' } });
+      store.closeWindow(windowId, true);
+
+      const [entry] = useSessionStore.getState().recentlyClosed;
+      expect(entry.window).toMatchObject({ id: windowId, title: 'Draft - Notepad', hasUnsavedState: true });
+
+      const reopenedId = useSessionStore.getState().reopenClosedWindow();
+      const reopened = useWindowStore.getState().windows[reopenedId!];
+      expect(reopened).toMatchObject({ appId: 'notepad', title: 'Draft - Notepad', bounds: { x: 40, y: 60, w: 500, h: 400 } });
+      expect(useSessionStore.getState().appStates[reopenedId!]).toEqual({ documentId: null, unsaved: { title: 'Draft', content: 'Hello' } });
+      expect(useSessionStore.getState().recentlyClosed).toEqual([]);
+      expect(useSessionStore.getState().reopenClosedWindow()).toBeNull();
+    });
+
+    it('should keep the last ten windows, and windows with unsaved content until they are reopened', () => {
+      const store = useWindowStore.getState();
+      const unsaved = store.createWindow('notepad');
+      store.updateWindowUnsavedState(unsaved, true);
+      store.closeWindow(unsaved, true);
+      for (let i = 0; i < 12; i++) {
+        store.closeWindow(store.createWindow('calculator'));
+      }
+
+      const { recentlyClosed } = useSessionStore.getState();
+      expect(recentlyClosed).toHaveLength(11);
+      expect(recentlyClosed[10].window.id).toBe(unsaved);
+      expect(recentlyClosed.slice(0, 10).every(entry => entry.window.appId === 'calculator')).toBe(true);
+    });
+  });
+});
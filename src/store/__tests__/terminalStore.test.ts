@@ -1,27 +1,31 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { useTerminalStore } from '../terminalStore';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getStoredHistory, initTerminalStore, useTerminalStore } from '../terminalStore';
+import { usePreferencesStore } from '../preferencesStore';
+import { useWindowStore } from '../windowStore';
 import type { TerminalOutput } from '../../types';
 
+const WINDOW = 'terminal-1';
+
 describe('terminalStore', () => {
+  let disconnect: () => void;
+
   beforeEach(() => {
     // Reset store state before each test
-    useTerminalStore.setState({
-      history: [],
-      currentInput: '',
-      commandHistory: [],
-      historyIndex: -1,
-      isProcessing: false,
-      suggestions: [],
-      showSuggestions: false,
-    });
+    useTerminalStore.setState({ sessions: {}, recentCommands: [] });
+    usePreferencesStore.setState({ terminalHistorySize: 100 });
+    disconnect = initTerminalStore();
+  });
+
+  afterEach(() => {
+    disconnect();
   });
 
   describe('setCurrentInput', () => {
     it('should update current input', () => {
       const { setCurrentInput } = useTerminalStore.getState();
-      setCurrentInput('test command');
+      setCurrentInput(WINDOW, 'test command');
       
-      expect(useTerminalStore.getState().currentInput).toBe('test command');
+      expect(useTerminalStore.getState().getSession(WINDOW).currentInput).toBe('test command');
     });
   });
 
@@ -34,9 +38,9 @@ describe('terminalStore', () => {
         timestamp: new Date(),
       };
 
-      addToHistory('test command', [output]);
+      addToHistory(WINDOW, 'test command', [output]);
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.history).toHaveLength(1);
       expect(state.history[0].command).toBe('test command');
       expect(state.history[0].output).toEqual([output]);
@@ -48,63 +52,96 @@ describe('terminalStore', () => {
       const output1: TerminalOutput = { type: 'info', content: 'First', timestamp: new Date() };
       const output2: TerminalOutput = { type: 'info', content: 'Second', timestamp: new Date() };
 
-      addToHistory('first', [output1]);
-      addToHistory('second', [output2]);
+      addToHistory(WINDOW, 'first', [output1]);
+      addToHistory(WINDOW, 'second', [output2]);
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.history).toHaveLength(2);
       expect(state.history[0].command).toBe('first');
       expect(state.history[1].command).toBe('second');
     });
   });
 
+  describe('setJobOutput', () => {
+    it('should fill in the entry of a running command', () => {
+      const { addToHistory, setJobOutput, setCwd } = useTerminalStore.getState();
+      addToHistory(WINDOW, 'sleep 1; cd /Documents; ls', [], 1000);
+      addToHistory(WINDOW, '', [{ type: 'info', content: 'other' }]);
+      setCwd(WINDOW, '/Documents');
+
+      setJobOutput(WINDOW, 1000, [{ type: 'info', content: 'notes.txt' }]);
+
+      const [entry, other] = useTerminalStore.getState().getSession(WINDOW).history;
+      expect(entry.output).toEqual([{ type: 'info', content: 'notes.txt' }]);
+      expect(entry.cwd).toBe('/Documents');
+      expect(other.output[0].content).toBe('other');
+    });
+
+    it('should not save job IDs', () => {
+      useTerminalStore.getState().addToHistory(WINDOW, 'sleep 1', [], 1000);
+
+      const [entry] = getStoredHistory(useTerminalStore.getState().getSession(WINDOW).history);
+      expect(entry).not.toHaveProperty('jobId');
+    });
+  });
+
   describe('addToCommandHistory', () => {
     it('should add command to command history', () => {
       const { addToCommandHistory } = useTerminalStore.getState();
-      addToCommandHistory('test command');
+      addToCommandHistory(WINDOW, 'test command');
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.commandHistory).toEqual(['test command']);
       expect(state.historyIndex).toBe(-1);
     });
 
     it('should not add empty commands', () => {
       const { addToCommandHistory } = useTerminalStore.getState();
-      addToCommandHistory('');
-      addToCommandHistory('   ');
+      addToCommandHistory(WINDOW, '');
+      addToCommandHistory(WINDOW, '   ');
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.commandHistory).toHaveLength(0);
     });
 
     it('should not add duplicate consecutive commands', () => {
       const { addToCommandHistory } = useTerminalStore.getState();
-      addToCommandHistory('test command');
-      addToCommandHistory('test command');
+      addToCommandHistory(WINDOW, 'test command');
+      addToCommandHistory(WINDOW, 'test command');
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.commandHistory).toEqual(['test command']);
     });
 
     it('should allow duplicate non-consecutive commands', () => {
       const { addToCommandHistory } = useTerminalStore.getState();
-      addToCommandHistory('first');
-      addToCommandHistory('second');
-      addToCommandHistory('first');
+      addToCommandHistory(WINDOW, 'first');
+      addToCommandHistory(WINDOW, 'second');
+      addToCommandHistory(WINDOW, 'first');
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.commandHistory).toEqual(['first', 'second', 'first']);
     });
 
+    it('should keep the configured number of commands', () => {
+      const { addToCommandHistory } = useTerminalStore.getState();
+      usePreferencesStore.getState().setTerminalHistorySize(3);
+
+      ['a', 'b', 'c', 'd'].forEach(command => addToCommandHistory(WINDOW, command));
+
+      expect(useTerminalStore.getState().getSession(WINDOW).commandHistory).toEqual(['b', 'c', 'd']);
+      expect(useTerminalStore.getState().recentCommands).toEqual(['b', 'c', 'd']);
+    });
+
     it('should limit history to 100 commands', () => {
       const { addToCommandHistory } = useTerminalStore.getState();
       
       // Add 101 commands
       for (let i = 0; i < 101; i++) {
-        addToCommandHistory(`command ${i}`);
+        addToCommandHistory(WINDOW, `command ${i}`);
       }
 
-      const state = useTerminalStore.getState();
+      const state = useTerminalStore.getState().getSession(WINDOW);
       expect(state.commandHistory).toHaveLength(100);
       expect(state.commandHistory[0]).toBe('command 1'); // First command removed
       expect(state.commandHistory[99]).toBe('command 100'); // Last command kept
@@ -114,97 +151,105 @@ describe('terminalStore', () => {
   describe('setHistoryIndex', () => {
     it('should update history index', () => {
       const { setHistoryIndex } = useTerminalStore.getState();
-      setHistoryIndex(5);
+      setHistoryIndex(WINDOW, 5);
 
-      expect(useTerminalStore.getState().historyIndex).toBe(5);
+      expect(useTerminalStore.getState().getSession(WINDOW).historyIndex).toBe(5);
     });
   });
 
   describe('getCurrentHistoryCommand', () => {
     it('should return correct command for valid index', () => {
       const { addToCommandHistory, setHistoryIndex, getCurrentHistoryCommand } = useTerminalStore.getState();
-      addToCommandHistory('first');
-      addToCommandHistory('second');
-      addToCommandHistory('third');
+      addToCommandHistory(WINDOW, 'first');
+      addToCommandHistory(WINDOW, 'second');
+      addToCommandHistory(WINDOW, 'third');
 
-      setHistoryIndex(0); // Most recent (third)
-      expect(getCurrentHistoryCommand()).toBe('third');
+      setHistoryIndex(WINDOW, 0); // Most recent (third)
+      expect(getCurrentHistoryCommand(WINDOW)).toBe('third');
 
-      setHistoryIndex(1); // Second most recent
-      expect(getCurrentHistoryCommand()).toBe('second');
+      setHistoryIndex(WINDOW, 1); // Second most recent
+      expect(getCurrentHistoryCommand(WINDOW)).toBe('second');
 
-      setHistoryIndex(2); // Oldest
-      expect(getCurrentHistoryCommand()).toBe('first');
+      setHistoryIndex(WINDOW, 2); // Oldest
+      expect(getCurrentHistoryCommand(WINDOW)).toBe('first');
     });
 
     it('should return null for invalid index', () => {
       const { addToCommandHistory, setHistoryIndex, getCurrentHistoryCommand } = useTerminalStore.getState();
-      addToCommandHistory('test');
+      addToCommandHistory(WINDOW, 'test');
 
-      setHistoryIndex(-1);
-      expect(getCurrentHistoryCommand()).toBeNull();
+      setHistoryIndex(WINDOW, -1);
+      expect(getCurrentHistoryCommand(WINDOW)).toBeNull();
 
-      setHistoryIndex(5);
-      expect(getCurrentHistoryCommand()).toBeNull();
+      setHistoryIndex(WINDOW, 5);
+      expect(getCurrentHistoryCommand(WINDOW)).toBeNull();
     });
 
     it('should return null for empty history', () => {
       const { setHistoryIndex, getCurrentHistoryCommand } = useTerminalStore.getState();
-      setHistoryIndex(0);
+      setHistoryIndex(WINDOW, 0);
 
-      expect(getCurrentHistoryCommand()).toBeNull();
+      expect(getCurrentHistoryCommand(WINDOW)).toBeNull();
     });
   });
 
   describe('getFilteredSuggestions', () => {
     beforeEach(() => {
       const { setSuggestions } = useTerminalStore.getState();
-      setSuggestions(['help', 'history', 'clear', 'about', 'projects']);
+      setSuggestions(WINDOW, ['help', 'history', 'clear', 'about', 'projects']);
     });
 
     it('should return matching suggestions', () => {
       const { getFilteredSuggestions } = useTerminalStore.getState();
-      const results = getFilteredSuggestions('he');
+      const results = getFilteredSuggestions(WINDOW, 'he');
 
       expect(results).toEqual(['help']);
     });
 
     it('should return multiple matches', () => {
       const { getFilteredSuggestions } = useTerminalStore.getState();
-      const results = getFilteredSuggestions('h');
+      const results = getFilteredSuggestions(WINDOW, 'h');
 
       expect(results).toEqual(['help', 'history']);
     });
 
     it('should be case insensitive', () => {
       const { getFilteredSuggestions } = useTerminalStore.getState();
-      const results = getFilteredSuggestions('HE');
+      const results = getFilteredSuggestions(WINDOW, 'HE');
 
       expect(results).toEqual(['help']);
     });
 
     it('should return empty array for no matches', () => {
       const { getFilteredSuggestions } = useTerminalStore.getState();
-      const results = getFilteredSuggestions('xyz');
+      const results = getFilteredSuggestions(WINDOW, 'xyz');
 
       expect(results).toEqual([]);
     });
 
     it('should return empty array for empty input', () => {
       const { getFilteredSuggestions } = useTerminalStore.getState();
-      const results = getFilteredSuggestions('');
+      const results = getFilteredSuggestions(WINDOW, '');
 
       expect(results).toEqual([]);
     });
 
+    it('should match the last word of the input', () => {
+      const { setSuggestions, getFilteredSuggestions } = useTerminalStore.getState();
+      setSuggestions(WINDOW, ['Documents/', 'Desktop/']);
+
+      expect(getFilteredSuggestions(WINDOW, 'cd Doc')).toEqual(['Documents/']);
+      expect(getFilteredSuggestions(WINDOW, 'cd ')).toEqual(['Documents/', 'Desktop/']);
+    });
+
     it('should limit results to 5 suggestions', () => {
       const { setSuggestions, getFilteredSuggestions } = useTerminalStore.getState();
-      setSuggestions([
+      setSuggestions(WINDOW, [
         'command1', 'command2', 'command3', 
         'command4', 'command5', 'command6', 'command7'
       ]);
       
-      const results = getFilteredSuggestions('command');
+      const results = getFilteredSuggestions(WINDOW, 'command');
 
       expect(results).toHaveLength(5);
     });
@@ -215,14 +260,14 @@ describe('terminalStore', () => {
       const { addToHistory, clearHistory } = useTerminalStore.getState();
       const output: TerminalOutput = { type: 'info', content: 'test', timestamp: new Date() };
       
-      addToHistory('test1', [output]);
-      addToHistory('test2', [output]);
+      addToHistory(WINDOW, 'test1', [output]);
+      addToHistory(WINDOW, 'test2', [output]);
 
-      expect(useTerminalStore.getState().history).toHaveLength(2);
+      expect(useTerminalStore.getState().getSession(WINDOW).history).toHaveLength(2);
 
-      clearHistory();
+      clearHistory(WINDOW);
 
-      expect(useTerminalStore.getState().history).toHaveLength(0);
+      expect(useTerminalStore.getState().getSession(WINDOW).history).toHaveLength(0);
     });
   });
 
@@ -230,13 +275,13 @@ describe('terminalStore', () => {
     it('should update processing state', () => {
       const { setIsProcessing } = useTerminalStore.getState();
       
-      expect(useTerminalStore.getState().isProcessing).toBe(false);
+      expect(useTerminalStore.getState().getSession(WINDOW).isProcessing).toBe(false);
 
-      setIsProcessing(true);
-      expect(useTerminalStore.getState().isProcessing).toBe(true);
+      setIsProcessing(WINDOW, true);
+      expect(useTerminalStore.getState().getSession(WINDOW).isProcessing).toBe(true);
 
-      setIsProcessing(false);
-      expect(useTerminalStore.getState().isProcessing).toBe(false);
+      setIsProcessing(WINDOW, false);
+      expect(useTerminalStore.getState().getSession(WINDOW).isProcessing).toBe(false);
     });
   });
 
@@ -245,20 +290,128 @@ describe('terminalStore', () => {
       const { setSuggestions } = useTerminalStore.getState();
       const suggestions = ['help', 'clear', 'about'];
 
-      setSuggestions(suggestions);
-      expect(useTerminalStore.getState().suggestions).toEqual(suggestions);
+      setSuggestions(WINDOW, suggestions);
+      expect(useTerminalStore.getState().getSession(WINDOW).suggestions).toEqual(suggestions);
     });
 
     it('should update show suggestions flag', () => {
       const { setShowSuggestions } = useTerminalStore.getState();
 
-      expect(useTerminalStore.getState().showSuggestions).toBe(false);
+      expect(useTerminalStore.getState().getSession(WINDOW).showSuggestions).toBe(false);
+
+      setShowSuggestions(WINDOW, true);
+      expect(useTerminalStore.getState().getSession(WINDOW).showSuggestions).toBe(true);
+
+      setShowSuggestions(WINDOW, false);
+      expect(useTerminalStore.getState().getSession(WINDOW).showSuggestions).toBe(false);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should keep each window separate', () => {
+      const { addToHistory, setCwd, setCurrentInput } = useTerminalStore.getState();
+      const output: TerminalOutput = { type: 'info', content: 'test', timestamp: new Date() };
+
+      addToHistory(WINDOW, 'ls', [output]);
+      setCwd(WINDOW, '/Projects');
+      setCurrentInput('terminal-2', 'pwd');
+
+      const { getSession } = useTerminalStore.getState();
+      expect(getSession(WINDOW).history).toHaveLength(1);
+      expect(getSession(WINDOW).currentInput).toBe('');
+      expect(getSession('terminal-2').history).toHaveLength(0);
+      expect(getSession('terminal-2').cwd).toBe('/');
+    });
+
+    it('should start new windows with the recent commands of any window', () => {
+      const { addToCommandHistory, openSession } = useTerminalStore.getState();
+      addToCommandHistory(WINDOW, 'whoami');
+      openSession('terminal-2');
+      addToCommandHistory(WINDOW, 'pwd');
+
+      expect(useTerminalStore.getState().getSession('terminal-2').commandHistory).toEqual(['whoami']);
+      expect(useTerminalStore.getState().getSession('terminal-3').commandHistory).toEqual(['whoami', 'pwd']);
+    });
+
+    it('should keep only the shared command history in storage', () => {
+      const { addToHistory, addToCommandHistory, setCwd } = useTerminalStore.getState();
+      setCwd(WINDOW, '/Documents');
+      addToHistory(WINDOW, 'ls', [{ type: 'info', content: 'a.txt' }]);
+      addToCommandHistory(WINDOW, 'ls');
+
+      const persisted = JSON.parse(localStorage.getItem('terminal-store') ?? '{}').state;
+      expect(persisted).toEqual({ recentCommands: ['ls'] });
+    });
+
+    it('should leave behind sessions stored by earlier versions', async () => {
+      localStorage.setItem('terminal-store', JSON.stringify({
+        state: { recentCommands: ['pwd'], sessions: { 'terminal-9': { cwd: '/Projects', history: [] } } },
+        version: 0,
+      }));
+      await useTerminalStore.persist.rehydrate();
+
+      expect(useTerminalStore.getState().sessions).toEqual({});
+      expect(useTerminalStore.getState().recentCommands).toEqual(['pwd']);
+    });
+
+    it('should restore saved output with dates', () => {
+      const saved = JSON.parse(JSON.stringify({
+        cwd: '/Projects',
+        history: [{ command: 'ls', output: [{ type: 'info', content: 'a.txt', timestamp: new Date() }], timestamp: new Date(), cwd: '/Projects' }],
+      }));
+
+      useTerminalStore.getState().restoreSession(WINDOW, saved);
+
+      const session = useTerminalStore.getState().getSession(WINDOW);
+      expect(session.cwd).toBe('/Projects');
+      expect(session.history[0].timestamp).toBeInstanceOf(Date);
+      expect(session.history[0].output[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should forget the session when its window closes', () => {
+      const windowId = useWindowStore.getState().createWindow('terminal');
+      useTerminalStore.getState().setCwd(windowId, '/Projects');
+
+      useWindowStore.getState().closeWindow(windowId, true);
+
+      expect(useTerminalStore.getState().sessions[windowId]).toBeUndefined();
+    });
+  });
+
+  describe('history search', () => {
+    beforeEach(() => {
+      const { addToCommandHistory } = useTerminalStore.getState();
+      ['cd /Projects', 'ls -la', 'cat notes.txt', 'ls'].forEach(command => addToCommandHistory(WINDOW, command));
+    });
+
+    it('should find the most recent match and step back with older matches', () => {
+      const { startHistorySearch, updateHistorySearch, findOlderHistoryMatch, getHistorySearchMatch } = useTerminalStore.getState();
+      startHistorySearch(WINDOW);
+      updateHistorySearch(WINDOW, 'ls');
+      expect(getHistorySearchMatch(WINDOW)).toBe('ls');
+
+      findOlderHistoryMatch(WINDOW);
+      expect(getHistorySearchMatch(WINDOW)).toBe('ls -la');
+
+      // The oldest match stays selected
+      findOlderHistoryMatch(WINDOW);
+      expect(getHistorySearchMatch(WINDOW)).toBe('ls -la');
+
+      updateHistorySearch(WINDOW, 'notes');
+      expect(getHistorySearchMatch(WINDOW)).toBe('cat notes.txt');
+    });
+
+    it('should remember the input to restore on cancel', () => {
+      const { setCurrentInput, startHistorySearch, updateHistorySearch, endHistorySearch, getHistorySearchMatch } = useTerminalStore.getState();
+      setCurrentInput(WINDOW, 'ech');
+      startHistorySearch(WINDOW);
+      updateHistorySearch(WINDOW, 'missing');
 
-      setShowSuggestions(true);
-      expect(useTerminalStore.getState().showSuggestions).toBe(true);
+      expect(getHistorySearchMatch(WINDOW)).toBeNull();
+      expect(useTerminalStore.getState().getSession(WINDOW).historySearch?.originalInput).toBe('ech');
 
-      setShowSuggestions(false);
-      expect(useTerminalStore.getState().showSuggestions).toBe(false);
+      endHistorySearch(WINDOW);
+      expect(useTerminalStore.getState().getSession(WINDOW).historySearch).toBeNull();
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initTrashStore, useTrashStore, TRASH_PATH } from '../trashStore';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('trashStore', () => {
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    useTrashStore.setState({ items: [], retentionDays: 30 });
+  });
+
+  describe('moveToTrash', () => {
+    it('should move items into the trash and remember where they came from', () => {
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/README.md']);
+
+      expect(virtualFileSystem.exists('/Documents/README.md')).toBe(false);
+      expect(item.trashPath).toBe(`${TRASH_PATH}/README.md`);
+      expect(item.originalPath).toBe('/Documents/README.md');
+      expect(item.deletedAt).toBeGreaterThan(0);
+      expect(useTrashStore.getState().items).toHaveLength(1);
+      expect(useTrashStore.getState().isFull()).toBe(true);
+    });
+
+    it('should keep items with the same name apart', () => {
+      virtualFileSystem.createFile('/Desktop/note.txt', 'desktop');
+      virtualFileSystem.createFile('/Documents/note.txt', 'documents');
+
+      useTrashStore.getState().moveToTrash(['/Desktop/note.txt', '/Documents/note.txt']);
+
+      const trashPaths = useTrashStore.getState().items.map(item => item.trashPath);
+      expect(trashPaths).toEqual([`${TRASH_PATH}/note.txt`, `${TRASH_PATH}/note (2).txt`]);
+    });
+
+    it('should permanently delete items that are already in the trash', () => {
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/README.md']);
+
+      useTrashStore.getState().moveToTrash([item.trashPath]);
+
+      expect(virtualFileSystem.exists(item.trashPath)).toBe(false);
+      expect(useTrashStore.getState().items).toHaveLength(0);
+    });
+
+    it('should refuse to trash the trash folder', () => {
+      expect(() => useTrashStore.getState().moveToTrash([TRASH_PATH])).toThrowError(
+        expect.objectContaining({ code: 'EPERM' })
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should move items back to their original location', () => {
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/Notes']);
+
+      const restored = useTrashStore.getState().restore([item.id]);
+
+      expect(restored).toEqual(['/Documents/Notes']);
+      expect(virtualFileSystem.exists('/Documents/Notes')).toBe(true);
+      expect(useTrashStore.getState().items).toHaveLength(0);
+    });
+
+    it('should recreate a missing parent folder and avoid name clashes', () => {
+      virtualFileSystem.createFolder('/Documents/Drafts');
+      virtualFileSystem.createFile('/Documents/Drafts/plan.txt', 'old');
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/Drafts/plan.txt']);
+      virtualFileSystem.createFile('/Documents/Drafts/plan.txt', 'new');
+
+      expect(useTrashStore.getState().restore([item.id])).toEqual(['/Documents/Drafts/plan (2).txt']);
+
+      const [folder] = useTrashStore.getState().moveToTrash(['/Documents/Drafts']);
+      virtualFileSystem.delete('/Documents', { recursive: true });
+      useTrashStore.getState().restore([folder.id]);
+
+      expect(virtualFileSystem.readFile('/Documents/Drafts/plan.txt')).toBe('new');
+    });
+  });
+
+  describe('deletePermanently and emptyTrash', () => {
+    it('should remove selected items from the file system', () => {
+      const [first, second] = useTrashStore.getState().moveToTrash(['/Documents/README.md', '/Documents/Notes']);
+
+      useTrashStore.getState().deletePermanently([first.id]);
+
+      expect(virtualFileSystem.exists(first.trashPath)).toBe(false);
+      expect(useTrashStore.getState().items.map(item => item.id)).toEqual([second.id]);
+    });
+
+    it('should empty the trash', () => {
+      useTrashStore.getState().moveToTrash(['/Documents/README.md', '/Documents/Notes']);
+
+      useTrashStore.getState().emptyTrash();
+
+      expect(virtualFileSystem.navigateToPath(TRASH_PATH)?.children).toEqual([]);
+      expect(useTrashStore.getState().isFull()).toBe(false);
+    });
+  });
+
+  describe('retention policy', () => {
+    it('should purge items older than the retention period', () => {
+      const [old] = useTrashStore.getState().moveToTrash(['/Documents/README.md']);
+      const now = old.deletedAt + 31 * DAY_MS;
+      useTrashStore.getState().moveToTrash(['/Documents/Notes']);
+      useTrashStore.setState((state) => ({
+        items: state.items.map(item => (item.id === old.id ? item : { ...item, deletedAt: now })),
+      }));
+
+      expect(useTrashStore.getState().purgeExpired(now)).toBe(1);
+      expect(virtualFileSystem.exists(old.trashPath)).toBe(false);
+      expect(useTrashStore.getState().items).toHaveLength(1);
+    });
+
+    it('should keep items forever when retention is disabled', () => {
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/README.md']);
+
+      useTrashStore.getState().setRetentionDays(null);
+
+      expect(useTrashStore.getState().purgeExpired(item.deletedAt + 365 * DAY_MS)).toBe(0);
+      expect(useTrashStore.getState().items).toHaveLength(1);
+    });
+  });
+
+  describe('syncWithFileSystem', () => {
+    let disconnect: () => void;
+
+    beforeEach(async () => {
+      disconnect = initTrashStore();
+      await virtualFileSystem.ready;
+    });
+
+    afterEach(() => disconnect());
+
+    it('should track items moved into the trash outside the store', () => {
+      virtualFileSystem.move('/Documents/README.md', TRASH_PATH);
+
+      const [item] = useTrashStore.getState().items;
+      expect(item.originalPath).toBe('/Documents/README.md');
+      expect(item.trashPath).toBe(`${TRASH_PATH}/README.md`);
+    });
+
+    it('should forget items removed from the trash outside the store', () => {
+      const [item] = useTrashStore.getState().moveToTrash(['/Documents/README.md']);
+
+      virtualFileSystem.move(item.trashPath, '/Desktop');
+
+      expect(useTrashStore.getState().items).toHaveLength(0);
+    });
+
+    it('should stop following the file system once disconnected', () => {
+      disconnect();
+
+      virtualFileSystem.move('/Documents/README.md', TRASH_PATH);
+
+      expect(useTrashStore.getState().items).toHaveLength(0);
+    });
+  });
+});
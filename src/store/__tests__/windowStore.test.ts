@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { useWindowStore } from '../windowStore';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DEFAULT_WORKSPACE_ID, initWindowStore, useWindowStore } from '../windowStore';
+import { usePreferencesStore } from '../preferencesStore';
 import type { WindowState, AppId } from '../../types';
 
 describe('WindowStore', () => {
+  let disconnect: () => void;
+
   beforeEach(() => {
     // Reset store state before each test
     useWindowStore.setState({
@@ -10,8 +13,20 @@ describe('WindowStore', () => {
       zOrder: [],
       dragState: null,
       resizeState: null,
+      moveSizeState: null,
       nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      workspaceOverviewOpen: false,
+      windowOverviewOpen: false,
+      tilingMode: 'off',
+      tabGroups: {},
     });
+    disconnect = initWindowStore();
+  });
+
+  afterEach(() => {
+    disconnect();
   });
 
   describe('createWindow', () => {
@@ -633,4 +648,411 @@ describe('WindowStore', () => {
       expect(currentState.resizeState).toBe(null);
     });
   });
-});
\ No newline at end of file
+
+  describe('keyboard move and size', () => {
+    it('should move a maximized window from where it was before', () => {
+      const store = useWindowStore.getState();
+      const windowId = store.createWindow('projects', { bounds: { x: 100, y: 100, w: 600, h: 400 } });
+      store.maximizeWindow(windowId);
+
+      store.startMoveSize(windowId, 'move');
+
+      const { windows, moveSizeState } = useWindowStore.getState();
+      expect(windows[windowId]).toMatchObject({ maximized: false, snapState: null, focused: true });
+      expect(moveSizeState).toEqual({ windowId, mode: 'move', startBounds: { x: 100, y: 100, w: 600, h: 400 } });
+    });
+
+    it('should keep where it started when switching to sizing, and go back there on cancel', () => {
+      const store = useWindowStore.getState();
+      const windowId = store.createWindow('projects', { bounds: { x: 100, y: 100, w: 600, h: 400 } });
+      store.startMoveSize(windowId, 'move');
+      store.updateWindowBounds(windowId, { x: 150 });
+      store.startMoveSize(windowId, 'size');
+
+      expect(useWindowStore.getState().moveSizeState).toMatchObject({ mode: 'size', startBounds: { x: 100 } });
+
+      store.endMoveSize(true);
+      expect(useWindowStore.getState().windows[windowId].bounds).toEqual({ x: 100, y: 100, w: 600, h: 400 });
+      expect(useWindowStore.getState().moveSizeState).toBeNull();
+    });
+
+    it('should unsnap a snapped window in place and keep changes when ended', () => {
+      const store = useWindowStore.getState();
+      const windowId = store.createWindow('projects', { bounds: { x: 100, y: 100, w: 600, h: 400 } });
+      store.snapWindow(windowId, 'left');
+      const snapped = useWindowStore.getState().windows[windowId].bounds;
+
+      store.startMoveSize(windowId, 'size');
+      store.updateWindowBounds(windowId, { w: snapped.w - 10 });
+      store.endMoveSize();
+
+      expect(useWindowStore.getState().windows[windowId]).toMatchObject({
+        snapState: null,
+        previousBounds: undefined,
+        bounds: { ...snapped, w: snapped.w - 10 },
+      });
+    });
+  });
+
+  describe('workspaces', () => {
+    it('should open windows on the active workspace and show only its windows', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      const second = store.createWorkspace('Work');
+      store.switchWorkspace(second);
+      const other = useWindowStore.getState().createWindow('terminal');
+
+      const state = useWindowStore.getState();
+      expect(state.windows[first].workspaceId).toBe(DEFAULT_WORKSPACE_ID);
+      expect(state.windows[other].workspaceId).toBe(second);
+      expect(state.getVisibleWindows().map(w => w.id)).toEqual([other]);
+      expect(state.getActiveWorkspace()).toEqual({ id: second, name: 'Work' });
+    });
+
+    it('should focus the top window when switching, and switch when focusing', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      const second = store.createWorkspace();
+      store.switchWorkspace(second);
+      expect(useWindowStore.getState().windows[first].focused).toBe(false);
+
+      store.switchWorkspaceBy(-1);
+      expect(useWindowStore.getState().windows[first].focused).toBe(true);
+
+      store.moveWindowToWorkspace(first, second);
+      store.focusWindow(first);
+      expect(useWindowStore.getState().activeWorkspaceId).toBe(second);
+    });
+
+    it('should move windows of a removed workspace to the one before it', () => {
+      const store = useWindowStore.getState();
+      const second = store.createWorkspace();
+      store.switchWorkspace(second);
+      const window = useWindowStore.getState().createWindow('notepad');
+
+      store.removeWorkspace(second);
+      store.removeWorkspace(DEFAULT_WORKSPACE_ID);
+
+      const state = useWindowStore.getState();
+      expect(state.workspaces).toEqual([{ id: DEFAULT_WORKSPACE_ID }]);
+      expect(state.activeWorkspaceId).toBe(DEFAULT_WORKSPACE_ID);
+      expect(state.windows[window]).toMatchObject({ workspaceId: DEFAULT_WORKSPACE_ID, focused: true });
+    });
+
+    it('should keep a wallpaper and name per workspace', () => {
+      const store = useWindowStore.getState();
+      store.setWorkspaceWallpaper(DEFAULT_WORKSPACE_ID, 'ocean');
+      store.renameWorkspace(DEFAULT_WORKSPACE_ID, ' Home ');
+      expect(useWindowStore.getState().getActiveWorkspace()).toEqual({ id: DEFAULT_WORKSPACE_ID, name: 'Home', wallpaper: 'ocean' });
+
+      store.setWorkspaceWallpaper(DEFAULT_WORKSPACE_ID);
+      store.renameWorkspace(DEFAULT_WORKSPACE_ID, '');
+      expect(useWindowStore.getState().getActiveWorkspace()).toEqual({ id: DEFAULT_WORKSPACE_ID });
+    });
+
+    it('should show one overview at a time', () => {
+      const store = useWindowStore.getState();
+      store.setWorkspaceOverviewOpen(true);
+      store.setWindowOverviewOpen(true);
+      expect(useWindowStore.getState()).toMatchObject({ workspaceOverviewOpen: false, windowOverviewOpen: true });
+
+      store.setWorkspaceOverviewOpen(true);
+      expect(useWindowStore.getState()).toMatchObject({ workspaceOverviewOpen: true, windowOverviewOpen: false });
+    });
+  });
+
+  describe('snapping and tiling', () => {
+    const half = () => Math.floor(window.innerWidth / 2);
+
+    it('should group windows snapped next to each other until one is restored', () => {
+      const store = useWindowStore.getState();
+      const left = store.createWindow('notepad');
+      const right = store.createWindow('terminal');
+
+      store.snapWindow(left, 'left');
+      expect(useWindowStore.getState().windows[left].snapGroupId).toBeUndefined();
+      store.snapWindow(right, 'top-right');
+
+      let state = useWindowStore.getState();
+      expect(state.windows[right]).toMatchObject({ snapState: 'top-right', bounds: { x: half(), y: 0 } });
+      expect(state.windows[left].snapGroupId).toBeDefined();
+      expect(state.windows[right].snapGroupId).toBe(state.windows[left].snapGroupId);
+
+      store.restoreWindow(right);
+      state = useWindowStore.getState();
+      expect(state.windows[right].snapGroupId).toBeUndefined();
+      expect(state.windows[right].bounds).toEqual({ x: 100, y: 100, w: 800, h: 600 });
+    });
+
+    it('should restore a window snapped out of maximized to where it was before maximizing', () => {
+      const store = useWindowStore.getState();
+      const windowId = store.createWindow('notepad');
+      const original = { ...useWindowStore.getState().windows[windowId].bounds };
+
+      store.maximizeWindow(windowId);
+      store.snapWindow(windowId, 'left');
+      expect(useWindowStore.getState().windows[windowId]).toMatchObject({ maximized: false, snapState: 'left' });
+
+      store.restoreWindow(windowId);
+      expect(useWindowStore.getState().windows[windowId]).toMatchObject({ snapState: null, bounds: original });
+      expect(useWindowStore.getState().windows[windowId].previousBounds).toBeUndefined();
+    });
+
+    it('should fill a layout with the most recent windows', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      const second = store.createWindow('terminal');
+      const third = store.createWindow('about');
+
+      store.snapToLayout(first, 'thirds', 0);
+
+      const { windows } = useWindowStore.getState();
+      expect([windows[first].snapState, windows[third].snapState, windows[second].snapState])
+        .toEqual(['left-third', 'center-third', 'right-third']);
+      expect(new Set([first, second, third].map(id => windows[id].snapGroupId)).size).toBe(1);
+      expect(windows[first].focused).toBe(true);
+    });
+
+    it('should move the shared edge of a snap group when a window is resized', () => {
+      const store = useWindowStore.getState();
+      const left = store.createWindow('notepad');
+      const right = store.createWindow('terminal');
+      store.snapToLayout(left, 'halves', 0);
+
+      const bounds = useWindowStore.getState().windows[left].bounds;
+      store.resizeSnapGroup(left, { ...bounds, w: bounds.w + 40 });
+
+      const { windows } = useWindowStore.getState();
+      expect(windows[left].bounds.w).toBe(half() + 40);
+      expect(windows[right].bounds).toMatchObject({ x: half() + 40, w: window.innerWidth - half() - 40 });
+
+      // The edge stops before a window gets too small
+      store.resizeSnapGroup(left, { ...bounds, w: window.innerWidth - 100 });
+      expect(useWindowStore.getState().windows[left].bounds.w).toBe(half() + 40);
+    });
+
+    it('should keep the workspace tiled as windows open, and put them back when stopped', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      store.setTilingMode('grid');
+      expect(useWindowStore.getState().windows[first].bounds).toMatchObject({ x: 0, y: 0, w: window.innerWidth });
+
+      const second = useWindowStore.getState().createWindow('terminal');
+      let { windows } = useWindowStore.getState();
+      expect(windows[first].bounds).toMatchObject({ x: 0, w: half() });
+      expect(windows[second].bounds).toMatchObject({ x: half() });
+
+      store.setTilingMode('off');
+      ({ windows } = useWindowStore.getState());
+      expect(windows[first].bounds).toEqual({ x: 100, y: 100, w: 800, h: 600 });
+      expect(windows[first].snapGroupId).toBeUndefined();
+    });
+  });
+
+  describe('tabs', () => {
+    it('should group a window dropped on another into one frame', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('terminal', { bounds: { x: 10, y: 20, w: 700, h: 500 } });
+      const second = store.createWindow('terminal');
+
+      store.groupWindows(second, first);
+
+      const state = useWindowStore.getState();
+      const group = state.getTabGroup(first);
+      expect(group?.tabs).toEqual([first, second]);
+      expect(group?.activeTabId).toBe(second);
+      expect(state.windows[second].bounds).toEqual({ x: 10, y: 20, w: 700, h: 500 });
+      expect(state.windows[second].focused).toBe(true);
+    });
+
+    it('should move, minimize and snap the tabs of a group as one', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      const second = store.createWindow('notepad');
+      store.groupWindows(second, first);
+
+      store.updateWindowBounds(second, { x: 50, y: 60 });
+      expect(useWindowStore.getState().windows[first].bounds).toMatchObject({ x: 50, y: 60 });
+
+      store.minimizeWindow(second);
+      expect(useWindowStore.getState().windows[first].minimized).toBe(true);
+
+      store.focusWindow(first);
+      store.snapWindow(first, 'left');
+      const { windows, tabGroups } = useWindowStore.getState();
+      expect(windows[second].minimized).toBe(false);
+      expect(windows[second].snapState).toBe('left');
+      expect(tabGroups[windows[first].tabGroupId!].activeTabId).toBe(first);
+    });
+
+    it('should reorder tabs and move a dragged out tab to its own window', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('file-explorer');
+      const second = store.createWindow('file-explorer');
+      const third = store.createWindow('file-explorer');
+      store.groupWindows(second, first);
+      store.groupWindows(third, first);
+
+      store.moveTab(third, 0);
+      expect(useWindowStore.getState().getTabGroup(first)?.tabs).toEqual([third, first, second]);
+
+      store.detachTab(first, { x: 300, y: 200 });
+      const state = useWindowStore.getState();
+      expect(state.windows[first].tabGroupId).toBeUndefined();
+      expect(state.windows[first].bounds).toMatchObject({ x: 300, y: 200 });
+      expect(state.getTabGroup(second)?.tabs).toEqual([third, second]);
+    });
+
+    it('should show the next tab when the active one closes, and dissolve a group of one', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('terminal');
+      const second = store.createWindow('terminal');
+      store.groupWindows(second, first);
+
+      store.closeWindow(second);
+
+      const state = useWindowStore.getState();
+      expect(state.windows[first].tabGroupId).toBeUndefined();
+      expect(state.windows[first].focused).toBe(true);
+      expect(state.tabGroups).toEqual({});
+    });
+
+    it('should find the title bar under the pointer', () => {
+      const store = useWindowStore.getState();
+      const target = store.createWindow('terminal', { bounds: { x: 100, y: 100, w: 400, h: 300 } });
+      const dragged = store.createWindow('terminal', { bounds: { x: 90, y: 95, w: 400, h: 300 } });
+
+      expect(store.getTitleBarTarget(200, 110, dragged)?.id).toBe(target);
+      expect(store.getTitleBarTarget(200, 200, dragged)).toBeUndefined();
+    });
+
+    it('should leave background tabs out of auto-tiling', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad');
+      const second = store.createWindow('notepad');
+      const third = store.createWindow('terminal');
+      store.groupWindows(second, first);
+      store.setTilingMode('grid');
+
+      const { windows } = useWindowStore.getState();
+      expect(windows[third].bounds.w).toBe(Math.floor(window.innerWidth / 2));
+      expect(windows[first].bounds).toEqual(windows[second].bounds);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should restore windows, tab groups and workspaces from a session', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('terminal', { bounds: { x: 10, y: 20, w: 600, h: 400 } });
+      const second = store.createWindow('terminal');
+      const third = store.createWindow('notepad');
+      store.groupWindows(second, first);
+      const workspaceId = store.createWorkspace('Work');
+      store.focusWindow(third);
+
+      const session = useWindowStore.getState().getSession();
+      store.closeAllWindows();
+      store.restoreSession({ ...session, workspaces: [...session.workspaces] });
+
+      const state = useWindowStore.getState();
+      expect(state.zOrder).toEqual(session.windows.map(window => window.id));
+      expect(state.windows[first].bounds).toEqual(state.windows[second].bounds);
+      expect(state.getTabGroup(first)?.tabs).toEqual([first, second]);
+      expect(state.windows[third].focused).toBe(true);
+      expect(state.workspaces.map(workspace => workspace.id)).toContain(workspaceId);
+      expect(state.nextZIndex).toBe(4);
+    });
+
+    it('should fit maximized windows to the viewport and drop tabs whose windows are gone', () => {
+      const store = useWindowStore.getState();
+      const first = store.createWindow('terminal');
+      const second = store.createWindow('terminal');
+      store.groupWindows(second, first);
+      store.maximizeWindow(first);
+
+      const session = useWindowStore.getState().getSession();
+      store.closeAllWindows();
+      store.restoreSession({ ...session, windows: session.windows.filter(window => window.id !== second) });
+
+      const state = useWindowStore.getState();
+      expect(state.windows[first].tabGroupId).toBeUndefined();
+      expect(state.tabGroups).toEqual({});
+      expect(state.windows[first].bounds).toMatchObject({ x: 0, y: 0, w: window.innerWidth });
+    });
+  });
+
+  describe('window rules', () => {
+    beforeEach(() => {
+      usePreferencesStore.setState({ windowRules: [], windowPositions: {} });
+    });
+
+    afterEach(() => {
+      usePreferencesStore.setState({ windowRules: [], windowPositions: {} });
+    });
+
+    it('should place, pin and fade the windows a rule matches', () => {
+      usePreferencesStore.setState({
+        windowRules: [{
+          id: 'rule-1',
+          enabled: true,
+          match: { appId: 'terminal' },
+          bounds: { w: 500, h: 400 },
+          edge: 'top-left',
+          alwaysOnTop: true,
+          opacity: 0.8,
+        }],
+      });
+      const store = useWindowStore.getState();
+      const terminal = store.createWindow('terminal', { bounds: { x: 300, y: 200, w: 800, h: 600 } });
+      const notepad = store.createWindow('notepad', { bounds: { x: 300, y: 200, w: 800, h: 600 } });
+
+      const { windows } = useWindowStore.getState();
+      expect(windows[terminal]).toMatchObject({ bounds: { x: 0, y: 0, w: 500, h: 400 }, alwaysOnTop: true, opacity: 0.8 });
+      expect(windows[notepad].bounds).toEqual({ x: 300, y: 200, w: 800, h: 600 });
+      expect(windows[notepad].alwaysOnTop).toBeUndefined();
+    });
+
+    it('should keep always-on-top windows above the others', () => {
+      const store = useWindowStore.getState();
+      const pinned = store.createWindow('calculator');
+      store.setAlwaysOnTop(pinned, true);
+      const other = store.createWindow('notepad');
+      expect(useWindowStore.getState().zOrder).toEqual([other, pinned]);
+
+      store.focusWindow(other);
+      expect(useWindowStore.getState().zOrder).toEqual([other, pinned]);
+      expect(useWindowStore.getState().windows[other].focused).toBe(true);
+
+      store.setAlwaysOnTop(pinned, false);
+      store.focusWindow(other);
+      expect(useWindowStore.getState().zOrder).toEqual([pinned, other]);
+    });
+
+    it('should open windows minimized without taking focus', () => {
+      usePreferencesStore.setState({
+        windowRules: [{ id: 'rule-1', enabled: true, match: { title: 'clipboard' }, startMinimized: true }],
+      });
+      const store = useWindowStore.getState();
+      const focused = store.createWindow('notepad');
+      const clipboard = store.createWindow('clipboard', { title: 'Clipboard History' });
+
+      const { windows } = useWindowStore.getState();
+      expect(windows[clipboard]).toMatchObject({ minimized: true, focused: false });
+      expect(windows[focused].focused).toBe(true);
+    });
+
+    it('should reopen an app where its last window closed', () => {
+      usePreferencesStore.setState({
+        windowRules: [{ id: 'rule-1', enabled: true, match: { appId: 'notepad' }, rememberPosition: true }],
+      });
+      const store = useWindowStore.getState();
+      const first = store.createWindow('notepad', { bounds: { x: 150, y: 120, w: 640, h: 480 } });
+      store.maximizeWindow(first);
+      store.closeWindow(first);
+
+      const second = store.createWindow('notepad', { bounds: { x: 100, y: 100, w: 800, h: 600 } });
+      expect(useWindowStore.getState().windows[second].bounds).toEqual({ x: 150, y: 120, w: 640, h: 480 });
+      expect(usePreferencesStore.getState().windowPositions?.notepad.maximized).toBe(true);
+    });
+  });
+});
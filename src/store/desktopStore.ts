@@ -1,5 +1,42 @@
 import { create } from 'zustand';
-import type { DesktopState } from '../types';
+import type { DesktopState, DesktopIcon, VNode } from '../types';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { shortcutUtils } from '../utils/shortcutUtils';
+
+// Desktop grid used to place icons for files dropped into /Desktop
+const ICON_GRID = { originX: 50, originY: 50, columnWidth: 150, rowHeight: 100 };
+
+const getFileIconId = (path: string) => `vfs-${encodeURIComponent(path)}`;
+
+const loadSavedLayout = (): Array<{ id: string; x: number; y: number }> => {
+  try {
+    return JSON.parse(localStorage.getItem('desktop-icon-layout') || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Find the first grid slot (column by column) that no icon occupies
+ */
+const findFreeSlot = (icons: DesktopIcon[]): { x: number; y: number } => {
+  const availableHeight = (globalThis.window?.innerHeight || 1080) - 48 - ICON_GRID.originY;
+  const rows = Math.max(1, Math.floor(availableHeight / ICON_GRID.rowHeight));
+  const isTaken = (x: number, y: number) =>
+    icons.some(icon =>
+      Math.abs(icon.x - x) < ICON_GRID.columnWidth / 2 && Math.abs(icon.y - y) < ICON_GRID.rowHeight / 2
+    );
+
+  for (let column = 0; ; column++) {
+    for (let row = 0; row < rows; row++) {
+      const x = ICON_GRID.originX + column * ICON_GRID.columnWidth;
+      const y = ICON_GRID.originY + row * ICON_GRID.rowHeight;
+      if (!isTaken(x, y)) {
+        return { x, y };
+      }
+    }
+  }
+};
 
 interface DesktopActions {
   updateIconPosition: (iconId: string, x: number, y: number) => void;
@@ -18,6 +55,7 @@ interface DesktopActions {
   startDragSelection: (x: number, y: number) => void;
   updateDragSelection: (x: number, y: number) => void;
   endDragSelection: () => void;
+  syncFileIcons: (nodes: VNode[]) => void;
 }
 
 type DesktopStore = DesktopState & DesktopActions;
@@ -89,6 +127,14 @@ export const useDesktopStore = create<DesktopStore>((set, get) => ({
       y: 150,
       selected: false,
     },
+    {
+      id: 'recycle-bin',
+      label: 'Recycle Bin',
+      appId: 'recycle-bin',
+      x: 200,
+      y: 250,
+      selected: false,
+    },
   ],
   wallpaper: 'default',
   iconSize: 'md',
@@ -304,11 +350,46 @@ export const useDesktopStore = create<DesktopStore>((set, get) => ({
   },
 
   createNewFolder: () => {
-    // For now, just hide the context menu
-    // This could be expanded to create virtual folders in the file system
+    try {
+      virtualFileSystem.createFolder('/Desktop/New Folder', { onConflict: 'rename' });
+    } catch (error) {
+      console.warn('Failed to create desktop folder:', error);
+    }
     get().hideContextMenu();
   },
 
+  syncFileIcons: (nodes: VNode[]) => {
+    set((state) => {
+      const appIcons = state.icons.filter(icon => !icon.path);
+      const existing = new Map(state.icons.filter(icon => icon.path).map(icon => [icon.path, icon]));
+      const savedLayout = loadSavedLayout();
+      const icons = [...appIcons];
+
+      // Plain shortcuts to an app with a built-in icon, like the factory Projects.lnk, would show it twice
+      const appIds = new Set(appIcons.map(icon => icon.appId));
+      const isDuplicateShortcut = (node: VNode) => {
+        if (node.type !== 'file' || !shortcutUtils.isShortcutPath(node.path)) return false;
+        const target = shortcutUtils.parse(node.content ?? '');
+        return !!target && !target.data && appIds.has(target.appId);
+      };
+
+      nodes.filter(node => !isDuplicateShortcut(node)).forEach(node => {
+        const current = existing.get(node.path);
+        if (current) {
+          icons.push({ ...current, label: node.name });
+          return;
+        }
+
+        const id = getFileIconId(node.path);
+        const saved = savedLayout.find(entry => entry.id === id);
+        const position = saved ? { x: saved.x, y: saved.y } : findFreeSlot(icons);
+        icons.push({ id, label: node.name, path: node.path, selected: false, ...position });
+      });
+
+      return { icons };
+    });
+  },
+
   saveIconLayout: () => {
     const { icons } = get();
     const layout = icons.map(icon => ({
@@ -5,3 +5,4 @@ export { usePreferencesStore } from './preferencesStore';
 export { useStartMenuStore } from './startMenuStore';
 export { useTerminalStore } from './terminalStore';
 export { useNotepadStore } from './notepadStore';
+export { useSessionStore } from './sessionStore';
@@ -0,0 +1,14 @@
+import { initWindowStore } from './windowStore';
+import { initSessionStore } from './sessionStore';
+import { initTerminalStore } from './terminalStore';
+import { initJobStore } from './jobStore';
+import { initTrashStore } from './trashStore';
+
+/**
+ * Connect the stores that follow the window manager or the file system. The
+ * desktop calls this once it mounts; the returned function disconnects them again.
+ */
+export const initStores = (): (() => void) => {
+  const unsubscribes = [initWindowStore(), initSessionStore(), initTerminalStore(), initJobStore(), initTrashStore()];
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
@@ -0,0 +1,152 @@
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import { useWindowStore } from './windowStore';
+import { getSignalExitStatus } from '../utils/jobCommands';
+import type { TerminalJob, TerminalJobControl, TerminalSignal } from '../types';
+
+interface StartJobOptions {
+  windowId: string;
+  command: string;
+  background?: boolean;
+  run: (signal: AbortSignal, job: TerminalJob) => Promise<number>; // Resolves with the exit status
+}
+
+interface JobStore {
+  jobs: Record<number, TerminalJob>; // Running jobs keyed by pid
+
+  // Actions
+  startJob: (options: StartJobOptions) => TerminalJob;
+  killJob: (pid: number, signal?: TerminalSignal) => boolean;
+  setBackground: (pid: number, background: boolean) => void;
+
+  // Computed
+  waitForJob: (pid: number) => Promise<number>;
+  getWindowJobs: (windowId: string) => TerminalJob[];
+}
+
+// Abort controllers and completions stay out of the state, which only holds data
+const controllers = new Map<number, AbortController>();
+const completions = new Map<number, Promise<number>>();
+let nextPid = 1000;
+
+export const useJobStore = create<JobStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      jobs: {},
+
+      startJob: ({ windowId, command, background = false, run }) => {
+        const numbers = get().getWindowJobs(windowId).map(job => job.number);
+        const job: TerminalJob = {
+          pid: nextPid++,
+          number: Math.max(0, ...numbers) + 1,
+          windowId,
+          command,
+          background,
+          startedAt: Date.now(),
+        };
+        const controller = new AbortController();
+        controllers.set(job.pid, controller);
+        set((state) => ({ jobs: { ...state.jobs, [job.pid]: job } }));
+
+        // A job ends with its command, or at once when it is killed, even if the command ignores the signal
+        const killed = new Promise<number>(resolve => {
+          controller.signal.addEventListener('abort', () => resolve(getSignalExitStatus(controller.signal.reason)), { once: true });
+        });
+        const running = Promise.resolve()
+          .then(() => run(controller.signal, job))
+          .catch(error => {
+            console.error(`Job ${job.pid} failed:`, error);
+            return 1;
+          });
+
+        const completion = Promise.race([running, killed]).finally(() => {
+          controllers.delete(job.pid);
+          completions.delete(job.pid);
+          set((state) => {
+            const jobs = { ...state.jobs };
+            delete jobs[job.pid];
+            return { jobs };
+          });
+        });
+        completions.set(job.pid, completion);
+        return job;
+      },
+
+      killJob: (pid: number, signal: TerminalSignal = 'SIGTERM') => {
+        const controller = controllers.get(pid);
+        if (!controller) return false;
+        controller.abort(signal);
+        return true;
+      },
+
+      setBackground: (pid: number, background: boolean) => {
+        set((state) => state.jobs[pid]
+          ? { jobs: { ...state.jobs, [pid]: { ...state.jobs[pid], background } } }
+          : state);
+      },
+
+      waitForJob: (pid: number) => completions.get(pid) ?? Promise.resolve(0),
+
+      getWindowJobs: (windowId: string) => Object.values(get().jobs)
+        .filter(job => job.windowId === windowId)
+        .sort((a, b) => a.number - b.number),
+    })),
+    {
+      name: 'job-store',
+    }
+  )
+);
+
+/**
+ * Job control for one Terminal window. `onDone` hears about background jobs
+ * that finish, so the window can report them; jobs brought back with `fg` are
+ * waited for instead.
+ */
+export const createJobControl = (
+  windowId: string,
+  onDone?: (job: TerminalJob, status: number) => void
+): TerminalJobControl => {
+  const backgroundJobs = () => useJobStore.getState().getWindowJobs(windowId).filter(job => job.background);
+  const foregrounded = new Set<number>();
+
+  return {
+    spawn: (command, run) => {
+      const store = useJobStore.getState();
+      const job = store.startJob({ windowId, command, background: true, run });
+      store.waitForJob(job.pid).then(status => {
+        if (!foregrounded.delete(job.pid)) onDone?.(job, status);
+      });
+      return job;
+    },
+    list: backgroundJobs,
+    find: (spec) => {
+      const jobs = backgroundJobs();
+      if (spec === '%%' || spec === '%+' || spec === '%') return jobs[jobs.length - 1];
+      if (spec === '%-') return jobs[jobs.length - 2];
+      if (/^%\d+$/.test(spec)) return jobs.find(job => job.number === Number(spec.slice(1)));
+      if (spec.startsWith('%?')) return jobs.find(job => job.command.includes(spec.slice(2)));
+      if (spec.startsWith('%')) return jobs.find(job => job.command.startsWith(spec.slice(1)));
+      return undefined;
+    },
+    wait: (pid) => useJobStore.getState().waitForJob(pid),
+    kill: (pid, signal) => useJobStore.getState().killJob(pid, signal),
+    setBackground: (pid, background) => {
+      if (background) foregrounded.delete(pid);
+      else foregrounded.add(pid);
+      useJobStore.getState().setBackground(pid, background);
+    },
+  };
+};
+
+/**
+ * Closing a window hangs up on its jobs. Returns a function that stops
+ * watching.
+ */
+export const initJobStore = (): (() => void) => useWindowStore.subscribe(
+  (state) => state.windows,
+  (windows) => {
+    Object.values(useJobStore.getState().jobs)
+      .filter(job => !windows[job.windowId])
+      .forEach(job => useJobStore.getState().killJob(job.pid, 'SIGHUP'));
+  }
+);
@@ -2,6 +2,8 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type { NotepadState, NotepadDocument, NotepadVersion } from '../types';
 import { performanceUtils } from '../utils';
+import { pathUtils } from '../utils/pathUtils';
+import { virtualFileSystem } from '../services/virtualFileSystem';
 
 interface NotepadStore extends NotepadState {
   // Actions
@@ -12,6 +14,11 @@ interface NotepadStore extends NotepadState {
   toggleMarkdownMode: (id: string) => void;
   toggleMarkdownPreview: () => void;
   setAutoSave: (enabled: boolean) => void;
+
+  // Virtual file system linking
+  openFile: (path: string, content: string) => string;
+  syncDocumentFromFile: (id: string, updates: Partial<Pick<NotepadDocument, 'title' | 'content' | 'filePath'>>) => void;
+  saveToFile: (id: string) => boolean;
   
   // Version management
   saveVersion: (documentId: string) => void;
@@ -31,6 +38,20 @@ interface NotepadStore extends NotepadState {
 const MAX_VERSIONS = 10;
 const AUTO_SAVE_DELAY = 2000; // 2 seconds
 
+/**
+ * Write a linked document back to the virtual file system
+ */
+const writeLinkedFile = (document: NotepadDocument): boolean => {
+  if (!document.filePath) return false;
+  try {
+    virtualFileSystem.writeFile(document.filePath, document.content);
+    return true;
+  } catch (error) {
+    console.warn(`Failed to save ${document.filePath}:`, error);
+    return false;
+  }
+};
+
 const initialState: NotepadState = {
   documents: {},
   activeDocumentId: null,
@@ -56,6 +77,8 @@ export const useNotepadStore = create<NotepadStore>()(
             if (!lastVersion || lastVersion.content !== document.content) {
               get().saveVersion(documentId);
             }
+
+            writeLinkedFile(document);
             
             // Mark as saved
             set((state) => ({
@@ -172,6 +195,54 @@ export const useNotepadStore = create<NotepadStore>()(
             set({ autoSaveEnabled: enabled });
           },
 
+          openFile: (path: string, content: string) => {
+            const existing = Object.values(get().documents).find(doc => doc.filePath === path);
+            if (existing) {
+              set({ activeDocumentId: existing.id });
+              return existing.id;
+            }
+
+            const name = pathUtils.basename(path);
+            const id = get().createDocument(name);
+            set((state) => ({
+              documents: {
+                ...state.documents,
+                [id]: {
+                  ...state.documents[id],
+                  content,
+                  filePath: path,
+                  markdownMode: pathUtils.extname(name) === 'md',
+                },
+              },
+            }));
+            return id;
+          },
+
+          syncDocumentFromFile: (id, updates) => {
+            // Changes coming from the file itself never count as unsaved edits
+            set((state) => {
+              const document = state.documents[id];
+              if (!document) return state;
+
+              return {
+                documents: {
+                  ...state.documents,
+                  [id]: { ...document, ...updates, lastModified: new Date() },
+                },
+              };
+            });
+          },
+
+          saveToFile: (id: string) => {
+            const document = get().documents[id];
+            if (!document || !writeLinkedFile(document)) return false;
+
+            set((state) => ({
+              unsavedChanges: new Set([...state.unsavedChanges].filter(docId => docId !== id))
+            }));
+            return true;
+          },
+
           saveVersion: (documentId: string) => {
             set((state) => {
               const document = state.documents[documentId];
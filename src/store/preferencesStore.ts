@@ -1,5 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AppId, WindowRule } from '../types';
+
+interface WindowPosition {
+  bounds: { x: number; y: number; w: number; h: number };
+  maximized: boolean;
+  minimized: boolean;
+}
 
 interface UserPreferences {
   // Appearance
@@ -24,14 +31,18 @@ interface UserPreferences {
   focusIndicators: boolean;
   
   // Window management
-  windowPositions?: Record<string, {
-    bounds: { x: number; y: number; w: number; h: number };
-    maximized: boolean;
-    minimized: boolean;
-  }>;
+  windowPositions?: Record<string, WindowPosition>; // Where each app's last window was, keyed by app ID
+  restoreSessionOnStartup: boolean; // Reopen the windows of the last visit
+  windowRules: WindowRule[]; // Applied in order when windows open
   
   // Recent apps
   recentApps?: string[];
+
+  // File associations: extension or MIME type -> app that opens it by default
+  defaultApps: Record<string, AppId>;
+
+  // Terminal
+  terminalHistorySize: number; // Commands kept for arrow keys, Ctrl+R and `history`
 }
 
 interface PreferencesActions {
@@ -56,6 +67,20 @@ interface PreferencesActions {
   setKeyboardNavigation: (enabled: boolean) => void;
   setFocusIndicators: (enabled: boolean) => void;
   
+  // Window management actions
+  setRestoreSessionOnStartup: (enabled: boolean) => void;
+  setWindowPosition: (appId: AppId, position: WindowPosition) => void;
+  addWindowRule: (rule: WindowRule) => void;
+  updateWindowRule: (ruleId: string, updates: Partial<WindowRule>) => void;
+  removeWindowRule: (ruleId: string) => void;
+  moveWindowRule: (ruleId: string, index: number) => void;
+
+  // File association actions
+  setDefaultApp: (fileType: string, appId: AppId | null) => void;
+
+  // Terminal actions
+  setTerminalHistorySize: (size: number) => void;
+  
   // Utility actions
   resetPreferences: () => void;
   applyPerformanceProfile: (profile: 'low' | 'balanced' | 'high') => void;
@@ -85,6 +110,16 @@ const defaultPreferences: UserPreferences = {
   screenReaderOptimized: false,
   keyboardNavigation: true,
   focusIndicators: true,
+
+  // Window management
+  restoreSessionOnStartup: true,
+  windowRules: [],
+
+  // File associations
+  defaultApps: {},
+
+  // Terminal
+  terminalHistorySize: 100,
 };
 
 export const usePreferencesStore = create<PreferencesStore>()(
@@ -118,6 +153,40 @@ export const usePreferencesStore = create<PreferencesStore>()(
       setKeyboardNavigation: (keyboardNavigation) => set({ keyboardNavigation }),
       setFocusIndicators: (focusIndicators) => set({ focusIndicators }),
       
+      // Window management actions
+      setRestoreSessionOnStartup: (restoreSessionOnStartup) => set({ restoreSessionOnStartup }),
+      setWindowPosition: (appId, position) => {
+        set({ windowPositions: { ...get().windowPositions, [appId]: position } });
+      },
+      addWindowRule: (rule) => set({ windowRules: [...get().windowRules, rule] }),
+      updateWindowRule: (ruleId, updates) => {
+        set({
+          windowRules: get().windowRules.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule),
+        });
+      },
+      removeWindowRule: (ruleId) => set({ windowRules: get().windowRules.filter(rule => rule.id !== ruleId) }),
+      moveWindowRule: (ruleId, index) => {
+        const rule = get().windowRules.find(candidate => candidate.id === ruleId);
+        if (!rule) return;
+        const windowRules = get().windowRules.filter(candidate => candidate.id !== ruleId);
+        windowRules.splice(Math.max(0, Math.min(index, windowRules.length)), 0, rule);
+        set({ windowRules });
+      },
+
+      // File association actions
+      setDefaultApp: (fileType, appId) => {
+        const defaultApps = { ...get().defaultApps };
+        if (appId) {
+          defaultApps[fileType] = appId;
+        } else {
+          delete defaultApps[fileType];
+        }
+        set({ defaultApps });
+      },
+
+      // Terminal actions
+      setTerminalHistorySize: (terminalHistorySize) => set({ terminalHistorySize: Math.max(1, Math.round(terminalHistorySize)) }),
+      
       // Utility actions
       resetPreferences: () => set(defaultPreferences),
       updatePreferences: (preferences) => set(preferences),
@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { useWindowStore } from './windowStore';
+import { resourceMonitor } from '../services/resourceMonitor';
+import type { ResourceSample } from '../types';
+
+export const SAMPLE_INTERVAL = 1000; // Milliseconds between samples while Task Manager is open
+export const HISTORY_LENGTH = 60; // Samples kept for each window's sparklines
+
+// Chrome reports heap use; other browsers leave Task Manager to say it is unknown
+interface PerformanceMemory {
+  usedJSHeapSize: number;
+  jsHeapSizeLimit: number;
+}
+
+interface ResourceStore {
+  samples: Record<string, ResourceSample>; // The last sample of each window, and of the system under SYSTEM_RESOURCE_ID
+  history: Record<string, ResourceSample[]>; // Recent samples, oldest first
+  interval: number; // Milliseconds the last sample covers
+  sampledAt: number | null;
+  heap: { used: number; limit: number } | null; // Bytes, where the browser reports them
+
+  // Actions
+  sample: () => void;
+}
+
+export const useResourceStore = create<ResourceStore>()(
+  devtools(
+    (set, get) => ({
+      samples: {},
+      history: {},
+      interval: SAMPLE_INTERVAL,
+      sampledAt: null,
+      heap: null,
+
+      sample: () => {
+        const now = Date.now();
+        const { history, sampledAt } = get();
+        const samples = resourceMonitor.collect(Object.keys(useWindowStore.getState().windows));
+
+        // Closed windows drop out of the history
+        const nextHistory = Object.fromEntries(
+          Object.entries(samples).map(([id, sample]) => [id, [...(history[id] ?? []), sample].slice(-HISTORY_LENGTH)])
+        );
+        const memory = (performance as Performance & { memory?: PerformanceMemory }).memory;
+
+        set({
+          samples,
+          history: nextHistory,
+          interval: sampledAt === null ? SAMPLE_INTERVAL : Math.max(1, now - sampledAt),
+          sampledAt: now,
+          heap: memory ? { used: memory.usedJSHeapSize, limit: memory.jsHeapSizeLimit } : null,
+        });
+      },
+    }),
+    {
+      name: 'resource-store',
+    }
+  )
+);
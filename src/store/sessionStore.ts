@@ -0,0 +1,260 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { performanceUtils } from '../utils';
+import { usePreferencesStore } from './preferencesStore';
+import { getRestoredBounds, useWindowStore } from './windowStore';
+import type { ClosedWindow, SavedSession, WindowSession, WindowState } from '../types';
+
+interface SessionStore {
+  appStates: Record<string, unknown>; // State apps saved through useSessionState, keyed by window ID
+  lastSession: WindowSession | null; // The windows as they were at the last change, restored on the next boot
+  savedSessions: Record<string, SavedSession>; // Keyed by name
+  recentlyClosed: ClosedWindow[]; // Most recently closed first
+
+  // App state
+  setAppState: (windowId: string, state: unknown) => void;
+  clearAppState: (windowId: string) => void;
+
+  // The session of this page
+  saveCurrentSession: () => void;
+  restoreLastSession: () => boolean;
+
+  // Named sessions
+  saveSession: (name: string) => void;
+  loadSession: (name: string, force?: boolean) => boolean; // Unless forced, windows with unsaved content stop the load
+  deleteSession: (name: string) => void;
+  getSavedSessions: () => SavedSession[];
+
+  // Recently closed windows
+  reopenClosedWindow: (index?: number) => string | null;
+  clearRecentlyClosed: () => void;
+}
+
+// Window changes are saved once they settle, e.g. at the end of a drag
+const SESSION_SAVE_DELAY = 500;
+
+// Closed windows kept for reopening, not counting ones with unsaved content
+const RECENTLY_CLOSED_LIMIT = 10;
+
+/**
+ * Drop the oldest closed windows beyond the limit. Windows closed with unsaved
+ * content stay until they are reopened or the list is cleared.
+ */
+const trimRecentlyClosed = (recentlyClosed: ClosedWindow[]): ClosedWindow[] => {
+  let excess = recentlyClosed.filter(entry => !entry.window.hasUnsavedState).length - RECENTLY_CLOSED_LIMIT;
+  return recentlyClosed
+    .slice()
+    .reverse()
+    .filter((entry) => {
+      if (excess <= 0 || entry.window.hasUnsavedState) return true;
+      excess--;
+      return false;
+    })
+    .reverse();
+};
+
+/**
+ * Give the windows of a saved session new IDs, so that loading it twice or
+ * next to its own windows opens fresh windows with their own app state
+ */
+const renewWindowIds = (session: SavedSession): SavedSession => {
+  const ids: Record<string, string> = {};
+  session.windows.forEach((window) => {
+    ids[window.id] = `${window.appId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  });
+
+  return {
+    ...session,
+    windows: session.windows.map((window): WindowState => ({ ...window, id: ids[window.id] })),
+    tabGroups: session.tabGroups.map(group => ({
+      ...group,
+      tabs: group.tabs.map(id => ids[id] ?? id),
+      activeTabId: ids[group.activeTabId] ?? group.activeTabId,
+    })),
+    appStates: Object.fromEntries(
+      Object.entries(session.appStates)
+        .filter(([windowId]) => ids[windowId])
+        .map(([windowId, state]) => [ids[windowId], state])
+    ),
+  };
+};
+
+export const useSessionStore = create<SessionStore>()(
+  persist(
+    (set, get) => ({
+      appStates: {},
+      lastSession: null,
+      savedSessions: {},
+      recentlyClosed: [],
+
+      setAppState: (windowId: string, state: unknown) => {
+        set((current) => ({ appStates: { ...current.appStates, [windowId]: state } }));
+      },
+
+      clearAppState: (windowId: string) => {
+        set((current) => {
+          if (!(windowId in current.appStates)) return current;
+          const appStates = { ...current.appStates };
+          delete appStates[windowId];
+          return { appStates };
+        });
+      },
+
+      saveCurrentSession: () => {
+        set({ lastSession: useWindowStore.getState().getSession() });
+      },
+
+      restoreLastSession: () => {
+        const { lastSession, appStates } = get();
+        const openWindowIds = Object.keys(useWindowStore.getState().windows);
+        // Windows opened before the restore, e.g. from a deep link, take the place of the last session
+        const restoring = usePreferencesStore.getState().restoreSessionOnStartup && !!lastSession &&
+          lastSession.windows.length > 0 && openWindowIds.length === 0;
+
+        // App state of windows that are not coming back is stale
+        const windowIds = new Set(restoring ? lastSession.windows.map(window => window.id) : openWindowIds);
+        set({
+          appStates: Object.fromEntries(Object.entries(appStates).filter(([windowId]) => windowIds.has(windowId))),
+        });
+        if (!restoring) return false;
+
+        useWindowStore.getState().restoreSession(lastSession);
+        return true;
+      },
+
+      saveSession: (name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+
+        const session = useWindowStore.getState().getSession();
+        const { appStates } = get();
+        const savedSession: SavedSession = {
+          ...session,
+          name: trimmed,
+          savedAt: Date.now(),
+          appStates: Object.fromEntries(
+            session.windows.filter(window => window.id in appStates).map(window => [window.id, appStates[window.id]])
+          ),
+        };
+        set((state) => ({ savedSessions: { ...state.savedSessions, [trimmed]: savedSession } }));
+      },
+
+      loadSession: (name: string, force = false) => {
+        const savedSession = get().savedSessions[name];
+        if (!savedSession) return false;
+
+        // The session's windows replace the open ones; the caller asks before unsaved changes are lost
+        if (!force && useWindowStore.getState().hasUnsavedWindows()) return false;
+        const session = renewWindowIds(savedSession);
+        useWindowStore.getState().closeAllWindows();
+        set((state) => ({ appStates: { ...state.appStates, ...session.appStates } }));
+        useWindowStore.getState().restoreSession(session);
+        return true;
+      },
+
+      deleteSession: (name: string) => {
+        set((state) => {
+          const savedSessions = { ...state.savedSessions };
+          delete savedSessions[name];
+          return { savedSessions };
+        });
+      },
+
+      getSavedSessions: () => {
+        return Object.values(get().savedSessions).sort((a, b) => b.savedAt - a.savedAt);
+      },
+
+      reopenClosedWindow: (index = 0) => {
+        const entry = get().recentlyClosed[index];
+        if (!entry) return null;
+
+        // The window comes back on the current workspace, where it was and with what its app saved
+        const { window, appState } = entry;
+        const store = useWindowStore.getState();
+        const windowId = store.createWindow(window.appId, {
+          title: window.title,
+          launchData: window.launchData,
+          hasUnsavedState: window.hasUnsavedState,
+          alwaysOnTop: window.alwaysOnTop,
+          opacity: window.opacity,
+        });
+        store.updateWindow(windowId, { bounds: getRestoredBounds(window) });
+        if (window.maximized) {
+          store.maximizeWindow(windowId);
+        }
+
+        set((state) => ({
+          recentlyClosed: state.recentlyClosed.filter(closed => closed !== entry),
+          ...(appState !== undefined && { appStates: { ...state.appStates, [windowId]: appState } }),
+        }));
+        return windowId;
+      },
+
+      clearRecentlyClosed: () => {
+        set({ recentlyClosed: [] });
+      },
+    }),
+    {
+      name: 'portfolio-os-session',
+      partialize: (state) => ({
+        appStates: state.appStates,
+        lastSession: state.lastSession,
+        savedSessions: state.savedSessions,
+        recentlyClosed: state.recentlyClosed,
+      }),
+    }
+  )
+);
+
+const saveCurrentSession = () => useSessionStore.getState().saveCurrentSession();
+const saveCurrentSessionLater = performanceUtils.debounce(saveCurrentSession, SESSION_SAVE_DELAY);
+
+/**
+ * Follow the window manager: keep the last session in step with it, and move
+ * closed windows to the recently closed list. Returns a function that stops
+ * watching.
+ */
+export const initSessionStore = (): (() => void) => {
+  const unsubscribeSession = useWindowStore.subscribe((state, previous) => {
+    if (
+      state.windows !== previous.windows ||
+      state.zOrder !== previous.zOrder ||
+      state.tabGroups !== previous.tabGroups ||
+      state.workspaces !== previous.workspaces ||
+      state.activeWorkspaceId !== previous.activeWorkspaceId ||
+      state.tilingMode !== previous.tilingMode
+    ) {
+      saveCurrentSessionLater();
+    }
+  });
+
+  // Closed windows move to the recently closed list, taking their app state with them
+  const unsubscribeClosed = useWindowStore.subscribe(
+    (state) => state.windows,
+    (windows, previousWindows) => {
+      const closed = Object.values(previousWindows).filter(window => !windows[window.id]);
+      if (closed.length === 0) return;
+
+      const { appStates } = useSessionStore.getState();
+      const closedAt = Date.now();
+      const entries = closed.map((window): ClosedWindow => ({
+        window,
+        ...(window.id in appStates && { appState: appStates[window.id] }),
+        closedAt,
+      }));
+      useSessionStore.setState((state) => ({
+        recentlyClosed: trimRecentlyClosed([...entries.reverse(), ...state.recentlyClosed]),
+      }));
+      closed.forEach(window => useSessionStore.getState().clearAppState(window.id));
+    }
+  );
+
+  // Changes still waiting for the delay are saved when the page goes away
+  window.addEventListener('pagehide', saveCurrentSession);
+
+  return () => {
+    unsubscribeSession();
+    unsubscribeClosed();
+    window.removeEventListener('pagehide', saveCurrentSession);
+  };
+};
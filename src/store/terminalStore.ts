@@ -1,113 +1,293 @@
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
+import { devtools, persist } from 'zustand/middleware';
+import { getCompletionWord } from '../utils/terminalCommands';
+import { usePreferencesStore } from './preferencesStore';
+import { useWindowStore } from './windowStore';
 import type { TerminalState, TerminalHistoryEntry, TerminalOutput } from '../types';
 
-interface TerminalStore extends TerminalState {
+interface TerminalStore {
+  sessions: Record<string, TerminalState>; // Keyed by windowId
+  recentCommands: string[]; // Shared by all windows; new sessions start with it, like a shell's history file
+
   // Actions
-  setCurrentInput: (input: string) => void;
-  addToHistory: (command: string, output: TerminalOutput[]) => void;
-  addToCommandHistory: (command: string) => void;
-  setHistoryIndex: (index: number) => void;
-  setIsProcessing: (processing: boolean) => void;
-  setSuggestions: (suggestions: string[]) => void;
-  setShowSuggestions: (show: boolean) => void;
-  clearHistory: () => void;
-  
+  openSession: (windowId: string) => void;
+  closeSession: (windowId: string) => void;
+  setCurrentInput: (windowId: string, input: string) => void;
+  addToHistory: (windowId: string, command: string, output: TerminalOutput[], jobId?: number) => void;
+  setJobOutput: (windowId: string, jobId: number, output: TerminalOutput[]) => void;
+  addToCommandHistory: (windowId: string, command: string) => void;
+  clearCommandHistory: (windowId: string) => void;
+  setHistoryIndex: (windowId: string, index: number) => void;
+  setIsProcessing: (windowId: string, processing: boolean) => void;
+  setSuggestions: (windowId: string, suggestions: string[]) => void;
+  setShowSuggestions: (windowId: string, show: boolean) => void;
+  setCwd: (windowId: string, cwd: string) => void;
+  clearHistory: (windowId: string) => void;
+  restoreSession: (windowId: string, saved: Pick<TerminalState, 'history' | 'cwd'>) => void;
+
+  // Ctrl+R history search
+  startHistorySearch: (windowId: string) => void;
+  updateHistorySearch: (windowId: string, query: string) => void;
+  findOlderHistoryMatch: (windowId: string) => void;
+  endHistorySearch: (windowId: string) => void;
+
   // Computed
-  getCurrentHistoryCommand: () => string | null;
-  getFilteredSuggestions: (input: string) => string[];
+  getSession: (windowId: string) => TerminalState;
+  getCurrentHistoryCommand: (windowId: string) => string | null;
+  getFilteredSuggestions: (windowId: string, input: string) => string[];
+  getHistorySearchMatch: (windowId: string) => string | null;
 }
 
-const initialState: TerminalState = {
+// Output entries kept per window across reloads
+const MAX_PERSISTED_ENTRIES = 200;
+
+const createSession = (commandHistory: string[] = []): TerminalState => ({
   history: [],
   currentInput: '',
-  commandHistory: [],
+  commandHistory,
   historyIndex: -1,
   isProcessing: false,
   suggestions: [],
   showSuggestions: false,
+  cwd: '/',
+  historySearch: null,
+});
+
+// Append a command unless it is empty or repeats the last one, keeping the configured number
+const appendCommand = (commands: string[], command: string): string[] => {
+  if (!command.trim() || commands[commands.length - 1] === command) {
+    return commands;
+  }
+  return [...commands, command].slice(-usePreferencesStore.getState().terminalHistorySize);
 };
 
+// Most recent command at or before `from` containing the query
+const findMatch = (commands: string[], query: string, from: number): number => {
+  for (let index = Math.min(from, commands.length - 1); index >= 0; index--) {
+    if (commands[index].includes(query)) return index;
+  }
+  return -1;
+};
+
+/**
+ * The output entries of a session as they are kept across reloads. Jobs do not
+ * outlive the page, so entries no longer belong to one.
+ */
+export const getStoredHistory = (history: TerminalHistoryEntry[]): TerminalHistoryEntry[] =>
+  history.slice(-MAX_PERSISTED_ENTRIES).map(entry => {
+    const stored = { ...entry };
+    delete stored.jobId;
+    return stored;
+  });
+
+const reviveEntry = (entry: TerminalHistoryEntry): TerminalHistoryEntry => ({
+  ...entry,
+  timestamp: new Date(entry.timestamp),
+  output: entry.output.map(item => ({
+    ...item,
+    timestamp: item.timestamp ? new Date(item.timestamp) : undefined,
+  })),
+});
+
 export const useTerminalStore = create<TerminalStore>()(
   devtools(
-    (set, get) => ({
-      ...initialState,
+    persist(
+      (set, get) => {
+        // Apply an update to one window's session, creating it when needed
+        const updateSession = (
+          windowId: string,
+          update: (session: TerminalState) => Partial<TerminalState>
+        ) => {
+          set((state) => {
+            const session = state.sessions[windowId] ?? createSession(state.recentCommands);
+            return {
+              sessions: {
+                ...state.sessions,
+                [windowId]: { ...session, ...update(session) },
+              },
+            };
+          });
+        };
 
-      setCurrentInput: (input: string) => {
-        set({ currentInput: input });
-      },
+        return {
+          sessions: {},
+          recentCommands: [],
 
-      addToHistory: (command: string, output: TerminalOutput[]) => {
-        const entry: TerminalHistoryEntry = {
-          command,
-          output,
-          timestamp: new Date(),
-        };
-        
-        set((state) => ({
-          history: [...state.history, entry],
-        }));
-      },
+          openSession: (windowId: string) => {
+            if (!get().sessions[windowId]) {
+              updateSession(windowId, () => ({}));
+            }
+          },
 
-      addToCommandHistory: (command: string) => {
-        set((state) => {
-          // Don't add empty commands or duplicates of the last command
-          if (!command.trim() || state.commandHistory[state.commandHistory.length - 1] === command) {
-            return state;
-          }
-          
-          const newHistory = [...state.commandHistory, command];
-          // Keep only last 100 commands
-          if (newHistory.length > 100) {
-            newHistory.shift();
-          }
-          
-          return {
-            commandHistory: newHistory,
-            historyIndex: -1, // Reset history index
-          };
-        });
-      },
+          closeSession: (windowId: string) => {
+            set((state) => {
+              if (!state.sessions[windowId]) return state;
+              const sessions = { ...state.sessions };
+              delete sessions[windowId];
+              return { sessions };
+            });
+          },
 
-      setHistoryIndex: (index: number) => {
-        set({ historyIndex: index });
-      },
+          setCurrentInput: (windowId: string, input: string) => {
+            updateSession(windowId, () => ({ currentInput: input }));
+          },
 
-      setIsProcessing: (processing: boolean) => {
-        set({ isProcessing: processing });
-      },
+          addToHistory: (windowId: string, command: string, output: TerminalOutput[], jobId?: number) => {
+            updateSession(windowId, (session) => {
+              const entry: TerminalHistoryEntry = {
+                command,
+                output,
+                timestamp: new Date(),
+                cwd: session.cwd,
+                ...(jobId !== undefined && { jobId }),
+              };
+              return { history: [...session.history, entry] };
+            });
+          },
 
-      setSuggestions: (suggestions: string[]) => {
-        set({ suggestions });
-      },
+          setJobOutput: (windowId: string, jobId: number, output: TerminalOutput[]) => {
+            updateSession(windowId, (session) => ({
+              // Paths in the output refer to the folder the job is in by now
+              history: session.history.map(entry => (entry.jobId === jobId ? { ...entry, output, cwd: session.cwd } : entry)),
+            }));
+          },
 
-      setShowSuggestions: (show: boolean) => {
-        set({ showSuggestions: show });
-      },
+          addToCommandHistory: (windowId: string, command: string) => {
+            updateSession(windowId, (session) => ({
+              commandHistory: appendCommand(session.commandHistory, command),
+              historyIndex: -1, // Reset history index
+            }));
+            set((state) => ({ recentCommands: appendCommand(state.recentCommands, command) }));
+          },
 
-      clearHistory: () => {
-        set({ history: [] });
-      },
+          clearCommandHistory: (windowId: string) => {
+            updateSession(windowId, () => ({ commandHistory: [], historyIndex: -1 }));
+            set({ recentCommands: [] });
+          },
 
-      getCurrentHistoryCommand: () => {
-        const { commandHistory, historyIndex } = get();
-        if (historyIndex >= 0 && historyIndex < commandHistory.length) {
-          return commandHistory[commandHistory.length - 1 - historyIndex];
-        }
-        return null;
-      },
+          setHistoryIndex: (windowId: string, index: number) => {
+            updateSession(windowId, () => ({ historyIndex: index }));
+          },
+
+          setIsProcessing: (windowId: string, processing: boolean) => {
+            updateSession(windowId, () => ({ isProcessing: processing }));
+          },
+
+          setSuggestions: (windowId: string, suggestions: string[]) => {
+            updateSession(windowId, () => ({ suggestions }));
+          },
+
+          setShowSuggestions: (windowId: string, show: boolean) => {
+            updateSession(windowId, () => ({ showSuggestions: show }));
+          },
+
+          setCwd: (windowId: string, cwd: string) => {
+            updateSession(windowId, () => ({ cwd }));
+          },
+
+          clearHistory: (windowId: string) => {
+            updateSession(windowId, () => ({ history: [] }));
+          },
+
+          restoreSession: (windowId: string, saved: Pick<TerminalState, 'history' | 'cwd'>) => {
+            updateSession(windowId, () => ({ history: saved.history.map(reviveEntry), cwd: saved.cwd }));
+          },
+
+          startHistorySearch: (windowId: string) => {
+            updateSession(windowId, (session) => ({
+              historySearch: session.historySearch ?? {
+                query: '',
+                matchIndex: -1,
+                originalInput: session.currentInput,
+              },
+              showSuggestions: false,
+            }));
+          },
 
-      getFilteredSuggestions: (input: string) => {
-        const { suggestions } = get();
-        if (!input.trim()) return [];
-        
-        return suggestions.filter(suggestion =>
-          suggestion.toLowerCase().startsWith(input.toLowerCase())
-        ).slice(0, 5); // Limit to 5 suggestions
+          updateHistorySearch: (windowId: string, query: string) => {
+            updateSession(windowId, (session) => ({
+              historySearch: session.historySearch && {
+                ...session.historySearch,
+                query,
+                matchIndex: query ? findMatch(session.commandHistory, query, session.commandHistory.length - 1) : -1,
+              },
+            }));
+          },
+
+          findOlderHistoryMatch: (windowId: string) => {
+            updateSession(windowId, (session) => {
+              const search = session.historySearch;
+              if (!search || !search.query) return {};
+              const from = search.matchIndex === -1 ? session.commandHistory.length - 1 : search.matchIndex - 1;
+              const matchIndex = findMatch(session.commandHistory, search.query, from);
+              // Stay on the oldest match when there is nothing further back
+              return matchIndex === -1 ? {} : { historySearch: { ...search, matchIndex } };
+            });
+          },
+
+          endHistorySearch: (windowId: string) => {
+            updateSession(windowId, () => ({ historySearch: null }));
+          },
+
+          getSession: (windowId: string) => {
+            const state = get();
+            return state.sessions[windowId] ?? createSession(state.recentCommands);
+          },
+
+          getCurrentHistoryCommand: (windowId: string) => {
+            const { commandHistory, historyIndex } = get().getSession(windowId);
+            if (historyIndex >= 0 && historyIndex < commandHistory.length) {
+              return commandHistory[commandHistory.length - 1 - historyIndex];
+            }
+            return null;
+          },
+
+          getFilteredSuggestions: (windowId: string, input: string) => {
+            const { suggestions } = get().getSession(windowId);
+            if (!input.trim()) return [];
+
+            // Suggestions complete the word being typed
+            const word = getCompletionWord(input);
+            return suggestions.filter(suggestion =>
+              suggestion.toLowerCase().startsWith(word.toLowerCase())
+            ).slice(0, 5); // Limit to 5 suggestions
+          },
+
+          getHistorySearchMatch: (windowId: string) => {
+            const { commandHistory, historySearch } = get().getSession(windowId);
+            if (!historySearch || historySearch.matchIndex === -1) return null;
+            return commandHistory[historySearch.matchIndex] ?? null;
+          },
+        };
       },
-    }),
+      {
+        name: 'terminal-store',
+        // A window's output and folder are saved with its session through useSessionState,
+        // so they follow the window when it is restored; only the shared history is kept here.
+        // Sessions stored by earlier versions are left behind.
+        partialize: (state) => ({ recentCommands: state.recentCommands }),
+        merge: (persisted, current) => ({
+          ...current,
+          recentCommands: (persisted as Partial<Pick<TerminalStore, 'recentCommands'>> | undefined)?.recentCommands ??
+            current.recentCommands,
+        }),
+      }
+    ),
     {
       name: 'terminal-store',
     }
   )
-);
\ No newline at end of file
+);
+
+/**
+ * Forget a window's session once the window is closed. Returns a function
+ * that stops watching.
+ */
+export const initTerminalStore = (): (() => void) => useWindowStore.subscribe(
+  (state) => state.windows,
+  (windows, previousWindows) => {
+    Object.keys(previousWindows)
+      .filter(windowId => !windows[windowId] && previousWindows[windowId].appId === 'terminal')
+      .forEach(windowId => useTerminalStore.getState().closeSession(windowId));
+  }
+);
@@ -0,0 +1,230 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { virtualFileSystem, VfsError } from '../services/virtualFileSystem';
+import type { VfsChangeEvent } from '../services/virtualFileSystem';
+import { pathUtils } from '../utils/pathUtils';
+
+export const TRASH_PATH = '/Trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  originalPath: string;
+  trashPath: string;
+  deletedAt: number; // epoch milliseconds
+  size?: number;
+}
+
+interface TrashStore {
+  items: TrashItem[];
+  retentionDays: number | null; // null keeps items until the trash is emptied
+
+  // Actions
+  moveToTrash: (paths: string[]) => TrashItem[];
+  restore: (ids: string[]) => string[];
+  deletePermanently: (ids: string[]) => void;
+  emptyTrash: () => void;
+  setRetentionDays: (days: number | null) => void;
+  purgeExpired: (now?: number) => number;
+  syncWithFileSystem: (event?: VfsChangeEvent) => void;
+  isFull: () => boolean;
+}
+
+const createItemId = () => `trash-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const ensureTrashFolder = () => {
+  if (!virtualFileSystem.exists(TRASH_PATH)) {
+    virtualFileSystem.createFolder(TRASH_PATH, { recursive: true });
+  }
+};
+
+/**
+ * Check whether a path is an item inside the trash (not the trash folder itself)
+ */
+export const isInTrash = (path: string) =>
+  pathUtils.isWithin(path, TRASH_PATH) && pathUtils.normalize(path) !== TRASH_PATH;
+
+export const useTrashStore = create<TrashStore>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      retentionDays: 30,
+
+      moveToTrash: (paths) => {
+        const trashed: TrashItem[] = [];
+
+        paths.forEach(path => {
+          const originalPath = pathUtils.normalize(path);
+          if (originalPath === TRASH_PATH) {
+            throw new VfsError('EPERM', 'The Recycle Bin cannot be deleted', TRASH_PATH);
+          }
+
+          // Deleting from the trash itself is permanent
+          if (isInTrash(originalPath)) {
+            const item = get().items.find(entry => entry.trashPath === originalPath);
+            if (item) {
+              get().deletePermanently([item.id]);
+            } else {
+              virtualFileSystem.delete(originalPath, { recursive: true });
+            }
+            return;
+          }
+
+          ensureTrashFolder();
+          const node = virtualFileSystem.move(originalPath, TRASH_PATH, { onConflict: 'rename' });
+          trashed.push({
+            id: createItemId(),
+            name: pathUtils.basename(originalPath),
+            type: node.type,
+            originalPath,
+            trashPath: node.path,
+            deletedAt: Date.now(),
+            size: node.size,
+          });
+        });
+
+        set((state) => ({
+          items: [
+            ...state.items.filter(item => !trashed.some(entry => entry.trashPath === item.trashPath)),
+            ...trashed,
+          ],
+        }));
+        return trashed;
+      },
+
+      restore: (ids) => {
+        const restored: string[] = [];
+
+        get().items
+          .filter(item => ids.includes(item.id))
+          .forEach(item => {
+            const parentPath = pathUtils.dirname(item.originalPath);
+            if (!virtualFileSystem.exists(parentPath)) {
+              virtualFileSystem.createFolder(parentPath, { recursive: true });
+            }
+            const node = virtualFileSystem.move(item.trashPath, parentPath, {
+              name: item.name,
+              onConflict: 'rename',
+            });
+            restored.push(node.path);
+            set((state) => ({ items: state.items.filter(entry => entry.id !== item.id) }));
+          });
+
+        return restored;
+      },
+
+      deletePermanently: (ids) => {
+        get().items
+          .filter(item => ids.includes(item.id))
+          .forEach(item => {
+            if (virtualFileSystem.exists(item.trashPath)) {
+              virtualFileSystem.delete(item.trashPath, { recursive: true });
+            }
+            set((state) => ({ items: state.items.filter(entry => entry.id !== item.id) }));
+          });
+      },
+
+      emptyTrash: () => {
+        const trash = virtualFileSystem.navigateToPath(TRASH_PATH);
+        trash?.children?.forEach(child => {
+          virtualFileSystem.delete(child.path, { recursive: true });
+        });
+        set({ items: [] });
+      },
+
+      setRetentionDays: (days) => {
+        set({ retentionDays: days });
+        get().purgeExpired();
+      },
+
+      purgeExpired: (now = Date.now()) => {
+        const { items, retentionDays } = get();
+        if (retentionDays === null) return 0;
+
+        const expired = items.filter(item => now - item.deletedAt >= retentionDays * DAY_MS);
+        if (expired.length > 0) {
+          get().deletePermanently(expired.map(item => item.id));
+        }
+        return expired.length;
+      },
+
+      syncWithFileSystem: (event) => {
+        set((state) => {
+          let items = state.items;
+
+          // Follow items renamed inside the trash, drop those moved out of it
+          if (event?.type === 'renamed' && event.oldPath) {
+            const { oldPath } = event;
+            items = items.map(item =>
+              pathUtils.isWithin(item.trashPath, oldPath)
+                ? { ...item, trashPath: event.path + item.trashPath.slice(oldPath.length) }
+                : item
+            );
+          }
+          items = items.filter(item =>
+            pathUtils.dirname(item.trashPath) === TRASH_PATH && virtualFileSystem.exists(item.trashPath)
+          );
+
+          // Adopt anything moved into the trash by other means, e.g. File Explorer
+          const children = virtualFileSystem.navigateToPath(TRASH_PATH)?.children ?? [];
+          const adopted: TrashItem[] = children
+            .filter(child => !items.some(item => item.trashPath === child.path))
+            .map(child => {
+              const movedIn = event?.type === 'renamed' && event.path === child.path && event.oldPath;
+              return {
+                id: createItemId(),
+                name: movedIn ? pathUtils.basename(movedIn) : child.name,
+                type: child.type,
+                originalPath: movedIn || pathUtils.join('/Desktop', child.name),
+                trashPath: child.path,
+                deletedAt: Date.now(),
+                size: child.size,
+              };
+            });
+
+          const unchanged =
+            adopted.length === 0 &&
+            items.length === state.items.length &&
+            items.every((item, index) => item === state.items[index]);
+          return unchanged ? state : { items: [...items, ...adopted] };
+        });
+      },
+
+      isFull: () => get().items.length > 0,
+    }),
+    {
+      name: 'trash-store',
+      partialize: (state) => ({
+        items: state.items,
+        retentionDays: state.retentionDays,
+      }),
+    }
+  )
+);
+
+/**
+ * Reconcile with the file system once its persisted overlay has loaded, then
+ * on every change below /Trash. Returns a function that stops watching.
+ */
+export const initTrashStore = (): (() => void) => {
+  let unwatch: (() => void) | undefined;
+  let disposed = false;
+
+  void virtualFileSystem.ready.then(() => {
+    if (disposed) return;
+    useTrashStore.getState().syncWithFileSystem();
+    useTrashStore.getState().purgeExpired();
+
+    unwatch = virtualFileSystem.watch(TRASH_PATH, (event) => {
+      useTrashStore.getState().syncWithFileSystem(event);
+    }, { recursive: true });
+  });
+
+  return () => {
+    disposed = true;
+    unwatch?.();
+  };
+};
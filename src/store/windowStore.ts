@@ -1,13 +1,25 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { WindowState, AppId, DragState, ResizeState } from '../types';
+import { SNAP_LAYOUTS, WINDOW_CONSTRAINTS, windowRuleUtils, windowUtils } from '../utils';
+import { usePreferencesStore } from './preferencesStore';
+import type { WindowState, AppId, DragState, MoveSizeState, ResizeState, SnapState, TabGroup, TerminalWindowControl, TilingMode, WindowSession, Workspace } from '../types';
+
+// The workspace the desktop starts with
+export const DEFAULT_WORKSPACE_ID = 'workspace-1';
 
 interface WindowManagerState {
   windows: Record<string, WindowState>;
   zOrder: string[];
   dragState: DragState | null;
   resizeState: ResizeState | null;
+  moveSizeState: MoveSizeState | null; // Set while a window is moved or sized from the keyboard
   nextZIndex: number;
+  workspaces: Workspace[]; // In switcher order
+  activeWorkspaceId: string;
+  workspaceOverviewOpen: boolean;
+  windowOverviewOpen: boolean; // Every window of the workspace laid out side by side
+  tilingMode: TilingMode;
+  tabGroups: Record<string, TabGroup>;
 }
 
 interface WindowManagerActions {
@@ -29,15 +41,46 @@ interface WindowManagerActions {
   updateWindowUnsavedState: (windowId: string, hasUnsaved: boolean) => void;
   updateWindowSnapState: (windowId: string, snapState: WindowState['snapState']) => void;
   updateWindow: (windowId: string, updates: Partial<WindowState>) => void;
+  setAlwaysOnTop: (windowId: string, alwaysOnTop: boolean) => void;
+
+  // Snapping and tiling
+  snapWindow: (windowId: string, zone: SnapState) => void;
+  snapToLayout: (windowId: string, layoutId: string, zoneIndex: number) => void;
+  resizeSnapGroup: (windowId: string, bounds: WindowState['bounds']) => void;
+  setTilingMode: (mode: TilingMode) => void;
+  tileWindows: () => void;
+
+  // Tabs
+  groupWindows: (windowId: string, targetId: string) => void;
+  moveTab: (windowId: string, index: number) => void;
+  detachTab: (windowId: string, position?: { x: number; y: number }) => void;
 
   // Drag and resize state
   setDragState: (dragState: DragState | null) => void;
   setResizeState: (resizeState: ResizeState | null) => void;
+  startMoveSize: (windowId: string, mode: MoveSizeState['mode']) => void;
+  endMoveSize: (cancel?: boolean) => void;
 
   // Utility actions
   bringToFront: (windowId: string) => void;
   closeAllWindows: () => void;
   minimizeAllWindows: () => void;
+
+  // Workspaces
+  createWorkspace: (name?: string) => string;
+  removeWorkspace: (workspaceId: string) => void;
+  renameWorkspace: (workspaceId: string, name: string) => void;
+  switchWorkspace: (workspaceId: string) => void;
+  switchWorkspaceBy: (offset: number) => void;
+  moveWindowToWorkspace: (windowId: string, workspaceId: string) => void;
+  setWorkspaceWallpaper: (workspaceId: string, wallpaper?: string) => void;
+  setWorkspaceOverviewOpen: (open: boolean) => void;
+
+  // Window overview
+  setWindowOverviewOpen: (open: boolean) => void;
+
+  // Sessions
+  restoreSession: (session: WindowSession) => void;
 }
 
 interface WindowManagerSelectors {
@@ -48,10 +91,112 @@ interface WindowManagerSelectors {
   getMinimizedWindows: () => WindowState[];
   isWindowFocused: (windowId: string) => boolean;
   hasUnsavedWindows: () => boolean;
+  getActiveWorkspace: () => Workspace;
+  getWorkspaceWindows: (workspaceId: string) => WindowState[];
+  getTabGroup: (windowId: string) => TabGroup | undefined;
+  getTitleBarTarget: (x: number, y: number, windowId: string) => WindowState | undefined;
+  getSession: () => WindowSession;
 }
 
 type WindowStore = WindowManagerState & WindowManagerActions & WindowManagerSelectors;
 
+/**
+ * Whether a window shows on a workspace. Windows without a workspace show on all of them.
+ */
+export const isWindowOnWorkspace = (window: WindowState, workspaceId: string): boolean =>
+  (window.workspaceId ?? workspaceId) === workspaceId;
+
+/**
+ * A workspace's name, or "Desktop n" by its position
+ */
+export const getWorkspaceName = (workspaces: Workspace[], workspaceId: string): string => {
+  const index = workspaces.findIndex(workspace => workspace.id === workspaceId);
+  return workspaces[index]?.name || `Desktop ${index + 1}`;
+};
+
+/**
+ * Whether a window is a tab hidden behind the active tab of its tabbed frame
+ */
+export const isBackgroundTab = (window: WindowState, tabGroups: Record<string, TabGroup>): boolean =>
+  !!window.tabGroupId && tabGroups[window.tabGroupId]?.activeTabId !== window.id;
+
+/**
+ * Bounds a window restored from maximized or snapped would have
+ */
+export const getRestoredBounds = (window: WindowState): WindowState['bounds'] =>
+  window.maximized || window.snapState ? window.previousBounds ?? window.bounds : window.bounds;
+
+// Where windows open when neither the caller nor a window rule places them
+const DEFAULT_WINDOW_BOUNDS = { x: 100, y: 100, w: 800, h: 600 };
+
+// The tabs of a group share where and how their frame is shown
+const TAB_GROUP_SHARED_KEYS = [
+  'bounds', 'previousBounds', 'minimized', 'maximized', 'snapState', 'snapGroupId', 'workspaceId', 'alwaysOnTop', 'opacity',
+] as const;
+const TITLE_BAR_HEIGHT = 32;
+
+const getFrameState = (window: WindowState): Partial<WindowState> =>
+  Object.fromEntries(TAB_GROUP_SHARED_KEYS.map(key => [key, window[key]]));
+
+/**
+ * Take a window out of its tab group. The tab next to it becomes active, and a
+ * group left with one tab is dissolved.
+ */
+const removeFromTabGroup = (
+  windows: Record<string, WindowState>,
+  tabGroups: Record<string, TabGroup>,
+  windowId: string
+): Record<string, TabGroup> => {
+  const groupId = windows[windowId]?.tabGroupId;
+  const group = groupId ? tabGroups[groupId] : undefined;
+  if (!groupId || !group) return tabGroups;
+
+  const next = { ...tabGroups };
+  const index = group.tabs.indexOf(windowId);
+  const tabs = group.tabs.filter(id => id !== windowId);
+  if (tabs.length < 2) {
+    delete next[groupId];
+    tabs.filter(id => windows[id]).forEach(id => {
+      windows[id] = { ...windows[id], tabGroupId: undefined };
+    });
+  } else {
+    next[groupId] = {
+      ...group,
+      tabs,
+      activeTabId: group.activeTabId === windowId ? tabs[Math.min(index, tabs.length - 1)] : group.activeTabId,
+    };
+  }
+  return next;
+};
+
+/**
+ * Order windows back to front with the always-on-top ones above the rest
+ */
+const keepPinnedOnTop = (zOrder: string[], windows: Record<string, WindowState>): string[] => [
+  ...zOrder.filter(id => !windows[id]?.alwaysOnTop),
+  ...zOrder.filter(id => windows[id]?.alwaysOnTop),
+];
+
+// Snap groups are IDs shared by the windows in them; auto-tiled windows share one per workspace
+const createSnapGroupId = () => `snap-group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+const createTabGroupId = () => `tab-group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+const getTilingGroupId = (workspaceId: string) => `tiling-${workspaceId}`;
+
+const getViewport = () => ({
+  width: globalThis.window?.innerWidth || 1920,
+  height: globalThis.window?.innerHeight || 1080,
+});
+
+/**
+ * Whether two rectangles touch along an edge without overlapping
+ */
+const sharesEdge = (a: WindowState['bounds'], b: WindowState['bounds']): boolean => {
+  const overlapX = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return ((a.x + a.w === b.x || b.x + b.w === a.x) && overlapY > 0) ||
+    ((a.y + a.h === b.y || b.y + b.h === a.y) && overlapX > 0);
+};
+
 export const useWindowStore = create<WindowStore>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
@@ -59,34 +204,65 @@ export const useWindowStore = create<WindowStore>()(
     zOrder: [],
     dragState: null,
     resizeState: null,
+    moveSizeState: null,
     nextZIndex: 1,
+    workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+    activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+    workspaceOverviewOpen: false,
+    windowOverviewOpen: false,
+    tilingMode: 'off',
+    tabGroups: {},
 
     // Actions
     createWindow: (appId: AppId, options = {}) => {
       const state = get();
       const windowId = `${appId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const title = options.title || appId;
+
+      // Window rules override where the window was asked to open: a remembered
+      // position replaces the requested bounds, rule bounds replace either, and
+      // an edge places the result
+      const { windowRules, windowPositions } = usePreferencesStore.getState();
+      const rule = windowRuleUtils.resolve(windowRules, { appId, title });
+      const { width, height } = getViewport();
+      const remembered = rule.rememberPosition ? windowPositions?.[appId]?.bounds : undefined;
+      let bounds = {
+        // The viewport may have shrunk since the window was last open
+        ...(remembered ? windowUtils.constrainWindowBounds(remembered, width, height) : options.bounds || DEFAULT_WINDOW_BOUNDS),
+        ...rule.bounds,
+      };
+      if (rule.edge) {
+        bounds = windowUtils.getEdgeBounds(rule.edge, bounds, width, height);
+      }
+
       const newWindow: WindowState = {
         id: windowId,
         appId,
-        title: options.title || appId,
-        bounds: options.bounds || { x: 100, y: 100, w: 800, h: 600 },
+        title,
         zIndex: state.nextZIndex,
         minimized: false,
         maximized: false,
         focused: true,
+        workspaceId: state.activeWorkspaceId,
         ...options,
+        bounds,
+        ...(rule.alwaysOnTop !== undefined && { alwaysOnTop: rule.alwaysOnTop }),
+        ...(rule.opacity !== undefined && { opacity: rule.opacity }),
+        ...(rule.startMinimized && { minimized: true, focused: false }),
       };
 
-      // Unfocus all other windows
+      // Unfocus all other windows, unless the new one starts minimized
       const windows = { ...state.windows };
-      Object.keys(windows).forEach((id) => {
-        windows[id] = { ...windows[id], focused: false };
-      });
+      if (newWindow.focused) {
+        Object.keys(windows).forEach((id) => {
+          windows[id] = { ...windows[id], focused: false };
+        });
+      }
       windows[windowId] = newWindow;
 
       set({
         windows,
-        zOrder: [...state.zOrder, windowId],
+        zOrder: keepPinnedOnTop([...state.zOrder, windowId], windows),
         nextZIndex: state.nextZIndex + 1,
       });
 
@@ -94,6 +270,7 @@ export const useWindowStore = create<WindowStore>()(
     },
 
     closeWindow: (windowId: string, force = false) => {
+      let nextTabId: string | undefined;
       set((state) => {
         const window = state.windows[windowId];
         if (!window) return state;
@@ -104,12 +281,20 @@ export const useWindowStore = create<WindowStore>()(
         }
 
         const windows = { ...state.windows };
+        const tabGroups = removeFromTabGroup(windows, state.tabGroups, windowId);
         delete windows[windowId];
         const newZOrder = state.zOrder.filter((id) => id !== windowId);
         
-        // Focus the next window in z-order if the closed window was focused
-        if (window.focused && newZOrder.length > 0) {
-          const nextWindowId = newZOrder[newZOrder.length - 1];
+        // Focus the tab that takes its place, or else the next window in z-order, if the closed window was focused
+        const workspaceZOrder = newZOrder.filter(id =>
+          windows[id] && isWindowOnWorkspace(windows[id], state.activeWorkspaceId) && !isBackgroundTab(windows[id], tabGroups)
+        );
+        if (window.focused && window.tabGroupId) {
+          nextTabId = tabGroups[window.tabGroupId]?.activeTabId ??
+            state.tabGroups[window.tabGroupId].tabs.find(id => id !== windowId);
+        }
+        if (window.focused && (nextTabId || workspaceZOrder.length > 0)) {
+          const nextWindowId = nextTabId || workspaceZOrder[workspaceZOrder.length - 1];
           if (windows[nextWindowId]) {
             windows[nextWindowId] = { ...windows[nextWindowId], focused: true };
           }
@@ -118,8 +303,14 @@ export const useWindowStore = create<WindowStore>()(
         return {
           windows,
           zOrder: newZOrder,
+          tabGroups,
         };
       });
+
+      // The tab shown in its place was hidden behind it, so it comes to the front
+      if (nextTabId) {
+        get().focusWindow(nextTabId);
+      }
     },
 
     requestCloseWindow: async (windowId: string) => {
@@ -159,9 +350,17 @@ export const useWindowStore = create<WindowStore>()(
           minimized: false // Restore if minimized
         };
 
-        // Update z-order - bring focused window to front
-        const zOrder = state.zOrder.filter((id) => id !== windowId);
-        zOrder.push(windowId);
+        // Windows on another workspace take the desktop there
+        const activeWorkspaceId = windows[windowId].workspaceId ?? state.activeWorkspaceId;
+
+        // A focused tab becomes the one its frame shows
+        const groupId = windows[windowId].tabGroupId;
+        const tabGroups = groupId && state.tabGroups[groupId]
+          ? { ...state.tabGroups, [groupId]: { ...state.tabGroups[groupId], activeTabId: windowId } }
+          : state.tabGroups;
+
+        // Update z-order - bring focused window to front, below any always-on-top windows
+        const zOrder = keepPinnedOnTop([...state.zOrder.filter((id) => id !== windowId), windowId], windows);
 
         // Update z-index values
         zOrder.forEach((id, index) => {
@@ -170,7 +369,7 @@ export const useWindowStore = create<WindowStore>()(
           }
         });
 
-        return { windows, zOrder };
+        return { windows, zOrder, activeWorkspaceId, tabGroups };
       });
     },
 
@@ -187,7 +386,10 @@ export const useWindowStore = create<WindowStore>()(
 
         // Focus the next window in z-order
         const remainingWindows = state.zOrder.filter(id => 
-          id !== windowId && windows[id] && !windows[id].minimized
+          id !== windowId && windows[id] && !windows[id].minimized &&
+          isWindowOnWorkspace(windows[id], state.activeWorkspaceId) &&
+          !isBackgroundTab(windows[id], state.tabGroups) &&
+          (!windows[windowId].tabGroupId || windows[id].tabGroupId !== windows[windowId].tabGroupId)
         );
         
         if (remainingWindows.length > 0) {
@@ -258,6 +460,7 @@ export const useWindowStore = create<WindowStore>()(
               minimized: false,
               maximized: false,
               snapState: null,
+              snapGroupId: undefined,
               focused: true,
               bounds: window.previousBounds || window.bounds,
               previousBounds: undefined,
@@ -328,6 +531,8 @@ export const useWindowStore = create<WindowStore>()(
           [windowId]: {
             ...state.windows[windowId],
             snapState,
+            // An unsnapped window leaves its snap group
+            ...(!snapState && { snapGroupId: undefined }),
           },
         },
       }));
@@ -345,6 +550,283 @@ export const useWindowStore = create<WindowStore>()(
       }));
     },
 
+    setAlwaysOnTop: (windowId: string, alwaysOnTop: boolean) => {
+      set((state) => {
+        const window = state.windows[windowId];
+        if (!window) return state;
+
+        // The tabs of its frame are pinned with it
+        const windows = { ...state.windows };
+        const groupId = window.tabGroupId;
+        const ids = groupId && state.tabGroups[groupId] ? state.tabGroups[groupId].tabs : [windowId];
+        ids.filter(id => windows[id]).forEach((id) => {
+          windows[id] = { ...windows[id], alwaysOnTop };
+        });
+
+        const zOrder = keepPinnedOnTop(state.zOrder, windows);
+        zOrder.forEach((id, index) => {
+          if (windows[id]) {
+            windows[id] = { ...windows[id], zIndex: index + 1 };
+          }
+        });
+        return { windows, zOrder };
+      });
+    },
+
+    snapWindow: (windowId: string, zone: SnapState) => {
+      const state = get();
+      const window = state.windows[windowId];
+      if (!window) return;
+
+      if (zone === 'maximized') {
+        get().updateWindow(windowId, { minimized: false, snapGroupId: undefined });
+        if (!window.maximized) {
+          get().maximizeWindow(windowId);
+          // A snapped window returns to where it was before it was snapped
+          get().updateWindow(windowId, { previousBounds: window.previousBounds ?? window.bounds });
+        }
+        return;
+      }
+
+      const { width, height } = getViewport();
+      const bounds = windowUtils.getSnapBounds(zone, width, height);
+      const workspaceId = window.workspaceId ?? state.activeWorkspaceId;
+
+      // Snapped next to other snapped windows, the window joins their snap group
+      const neighbours = Object.values(state.windows).filter(other =>
+        other.id !== windowId && !other.minimized && other.snapState && other.snapState !== 'maximized' &&
+        !isBackgroundTab(other, state.tabGroups) && (!window.tabGroupId || other.tabGroupId !== window.tabGroupId) &&
+        isWindowOnWorkspace(other, workspaceId) && sharesEdge(other.bounds, bounds)
+      );
+      const snapGroupId = neighbours.length === 0
+        ? undefined
+        : neighbours.find(other => other.snapGroupId)?.snapGroupId ?? createSnapGroupId();
+
+      set((state) => {
+        const windows = {
+          ...state.windows,
+          [windowId]: {
+            ...window,
+            bounds,
+            snapState: zone,
+            snapGroupId,
+            maximized: false,
+            minimized: false,
+            previousBounds: window.previousBounds ?? window.bounds,
+          },
+        };
+        neighbours.forEach((other) => {
+          windows[other.id] = { ...windows[other.id], snapGroupId };
+        });
+        return { windows };
+      });
+    },
+
+    snapToLayout: (windowId: string, layoutId: string, zoneIndex: number) => {
+      const state = get();
+      const layout = SNAP_LAYOUTS.find(template => template.id === layoutId);
+      const window = state.windows[windowId];
+      if (!layout || !window || !layout.zones[zoneIndex]) return;
+
+      // The other zones fill with the workspace's most recently used windows
+      const workspaceId = window.workspaceId ?? state.activeWorkspaceId;
+      const others = [...state.zOrder].reverse().filter(id => {
+        const other = state.windows[id];
+        return id !== windowId && other && !other.minimized && isWindowOnWorkspace(other, workspaceId) &&
+          !isBackgroundTab(other, state.tabGroups) && (!window.tabGroupId || other.tabGroupId !== window.tabGroupId);
+      });
+      const placed = layout.zones
+        .map((zone, index) => ({ zone, id: index === zoneIndex ? windowId : others.shift() }))
+        .filter((placement): placement is { zone: typeof placement.zone; id: string } => !!placement.id);
+
+      const { width, height } = getViewport();
+      const snapGroupId = placed.length > 1 ? createSnapGroupId() : undefined;
+      set((state) => {
+        const windows = { ...state.windows };
+        placed.forEach(({ zone, id }) => {
+          const placedWindow = windows[id];
+          windows[id] = {
+            ...placedWindow,
+            bounds: windowUtils.getSnapBounds(zone, width, height),
+            snapState: zone,
+            snapGroupId,
+            maximized: false,
+            minimized: false,
+            previousBounds: placedWindow.previousBounds ?? placedWindow.bounds,
+          };
+        });
+        return { windows };
+      });
+
+      // The group comes to the front with the chosen window on top
+      placed.filter(({ id }) => id !== windowId).forEach(({ id }) => get().focusWindow(id));
+      get().focusWindow(windowId);
+    },
+
+    resizeSnapGroup: (windowId: string, bounds: WindowState['bounds']) => {
+      set((state) => {
+        const window = state.windows[windowId];
+        if (!window) return state;
+
+        const windows = { ...state.windows, [windowId]: { ...window, bounds } };
+        const members = Object.values(state.windows).filter(other =>
+          window.snapGroupId && other.id !== windowId && other.snapGroupId === window.snapGroupId && !other.minimized
+        );
+        const previous = window.bounds;
+
+        // Edges that moved, and whether members lie on both sides of them
+        const lines = [
+          { axis: 'x', from: previous.x, to: bounds.x },
+          { axis: 'x', from: previous.x + previous.w, to: bounds.x + bounds.w },
+          { axis: 'y', from: previous.y, to: bounds.y },
+          { axis: 'y', from: previous.y + previous.h, to: bounds.y + bounds.h },
+        ].filter(line => line.from !== line.to);
+        const rectangles = [previous, ...members.map(member => member.bounds)];
+        const shared = lines.filter(({ axis, from }) => {
+          const starts = rectangles.some(rect => (axis === 'x' ? rect.x : rect.y) === from);
+          const ends = rectangles.some(rect => (axis === 'x' ? rect.x + rect.w : rect.y + rect.h) === from);
+          return starts && ends;
+        });
+
+        // Members move their edges on a shared line along with it
+        for (const member of members) {
+          let { x: left, y: top } = member.bounds;
+          let right = left + member.bounds.w;
+          let bottom = top + member.bounds.h;
+          shared.forEach(({ axis, from, to }) => {
+            if (axis === 'x') {
+              if (left === from) left = to;
+              if (right === from) right = to;
+            } else {
+              if (top === from) top = to;
+              if (bottom === from) bottom = to;
+            }
+          });
+
+          // The edge stops where a member would get smaller than a window can be
+          if (right - left < WINDOW_CONSTRAINTS.MIN_WIDTH || bottom - top < WINDOW_CONSTRAINTS.MIN_HEIGHT) {
+            return state;
+          }
+          windows[member.id] = { ...member, bounds: { x: left, y: top, w: right - left, h: bottom - top } };
+        }
+
+        return { windows };
+      });
+    },
+
+    setTilingMode: (mode: TilingMode) => {
+      set((state) => {
+        if (mode !== 'off') return { tilingMode: mode };
+
+        // Windows leave the tiling layout for where they were before it
+        const windows = { ...state.windows };
+        Object.values(windows)
+          .filter(window => window.snapGroupId?.startsWith('tiling-'))
+          .forEach((window) => {
+            windows[window.id] = {
+              ...window,
+              bounds: window.previousBounds ?? window.bounds,
+              previousBounds: undefined,
+              snapGroupId: undefined,
+            };
+          });
+        return { tilingMode: mode, windows };
+      });
+    },
+
+    tileWindows: () => {
+      const state = get();
+      if (state.tilingMode === 'off') return;
+
+      // Windows tile in the order they opened, except that a new window takes the master area
+      const tiled = Object.values(state.windows)
+        .filter(window =>
+          !window.minimized && isWindowOnWorkspace(window, state.activeWorkspaceId) && !isBackgroundTab(window, state.tabGroups)
+        );
+      if (state.tilingMode === 'master-stack') {
+        tiled.reverse();
+      }
+      const { width, height } = getViewport();
+      const bounds = windowUtils.getTileBounds(state.tilingMode, tiled.length, width, height);
+      const snapGroupId = getTilingGroupId(state.activeWorkspaceId);
+
+      const windows = { ...state.windows };
+      tiled.forEach((window, index) => {
+        windows[window.id] = {
+          ...window,
+          bounds: bounds[index],
+          maximized: false,
+          snapState: null,
+          snapGroupId,
+          previousBounds: window.previousBounds ?? window.bounds,
+        };
+      });
+      set({ windows });
+    },
+
+    groupWindows: (windowId: string, targetId: string) => {
+      const state = get();
+      const window = state.windows[windowId];
+      const target = state.windows[targetId];
+      if (!window || !target || windowId === targetId) return;
+      if (window.tabGroupId && window.tabGroupId === target.tabGroupId) return;
+
+      // A window joins with all of its tabs, after the tabs of the frame it was dropped on
+      const group = (target.tabGroupId && state.tabGroups[target.tabGroupId]) ||
+        { id: createTabGroupId(), tabs: [targetId], activeTabId: targetId };
+      const moving = (window.tabGroupId && state.tabGroups[window.tabGroupId]?.tabs) || [windowId];
+
+      const tabGroups = { ...state.tabGroups, [group.id]: { ...group, tabs: [...group.tabs, ...moving] } };
+      if (window.tabGroupId) delete tabGroups[window.tabGroupId];
+
+      const windows = { ...state.windows };
+      const frame = getFrameState(target);
+      [targetId, ...moving].forEach((id) => {
+        windows[id] = { ...windows[id], ...frame, tabGroupId: group.id };
+      });
+      set({ windows, tabGroups });
+      get().focusWindow(windowId);
+    },
+
+    moveTab: (windowId: string, index: number) => {
+      set((state) => {
+        const groupId = state.windows[windowId]?.tabGroupId;
+        const group = groupId ? state.tabGroups[groupId] : undefined;
+        if (!group) return state;
+
+        const tabs = group.tabs.filter(id => id !== windowId);
+        tabs.splice(Math.max(0, Math.min(index, tabs.length)), 0, windowId);
+        return { tabGroups: { ...state.tabGroups, [group.id]: { ...group, tabs } } };
+      });
+    },
+
+    detachTab: (windowId: string, position?: { x: number; y: number }) => {
+      const state = get();
+      const window = state.windows[windowId];
+      if (!window?.tabGroupId) return;
+
+      const windows = { ...state.windows };
+      const tabGroups = removeFromTabGroup(windows, state.tabGroups, windowId);
+
+      // The tab leaves as a window of the frame's restored size, where it was dropped or cascaded off the frame
+      const size = getRestoredBounds(window);
+      windows[windowId] = {
+        ...window,
+        tabGroupId: undefined,
+        maximized: false,
+        snapState: null,
+        snapGroupId: undefined,
+        previousBounds: undefined,
+        bounds: {
+          ...size,
+          x: position?.x ?? size.x + 30,
+          y: position?.y ?? size.y + 30,
+        },
+      };
+      set({ windows, tabGroups });
+      get().focusWindow(windowId);
+    },
+
     setDragState: (dragState: DragState | null) => {
       set({ dragState });
     },
@@ -353,28 +835,211 @@ export const useWindowStore = create<WindowStore>()(
       set({ resizeState });
     },
 
+    startMoveSize: (windowId: string, mode: MoveSizeState['mode']) => {
+      const state = get();
+      const window = state.windows[windowId];
+      if (!window) return;
+
+      // Switching between moving and sizing keeps where Escape goes back to
+      if (state.moveSizeState?.windowId === windowId) {
+        set({ moveSizeState: { ...state.moveSizeState, mode } });
+        return;
+      }
+
+      // A maximized window is moved from where it was before; a snapped one leaves its zone where it is
+      if (window.maximized || window.minimized) {
+        get().restoreWindow(windowId);
+      } else if (window.snapState) {
+        get().updateWindow(windowId, { snapState: null, snapGroupId: undefined, previousBounds: undefined });
+      }
+      get().focusWindow(windowId);
+
+      const { bounds } = get().windows[windowId];
+      set({ moveSizeState: { windowId, mode, startBounds: { ...bounds } } });
+    },
+
+    endMoveSize: (cancel = false) => {
+      const { moveSizeState } = get();
+      if (!moveSizeState) return;
+
+      if (cancel && get().windows[moveSizeState.windowId]) {
+        get().updateWindow(moveSizeState.windowId, { bounds: moveSizeState.startBounds });
+      }
+      set({ moveSizeState: null });
+    },
+
     bringToFront: (windowId: string) => {
-      set((state) => {
-        const zOrder = state.zOrder.filter((id) => id !== windowId);
-        zOrder.push(windowId);
-        return { zOrder };
-      });
+      set((state) => ({
+        zOrder: keepPinnedOnTop([...state.zOrder.filter((id) => id !== windowId), windowId], state.windows),
+      }));
     },
 
     closeAllWindows: () => {
-      set({ windows: {}, zOrder: [] });
+      set({ windows: {}, zOrder: [], tabGroups: {} });
     },
 
     minimizeAllWindows: () => {
       set((state) => {
         const windows = { ...state.windows };
-        Object.keys(windows).forEach((id) => {
-          windows[id] = { ...windows[id], minimized: true, focused: false };
-        });
+        Object.keys(windows)
+          .filter(id => isWindowOnWorkspace(windows[id], state.activeWorkspaceId))
+          .forEach((id) => {
+            windows[id] = { ...windows[id], minimized: true, focused: false };
+          });
         return { windows };
       });
     },
 
+    createWorkspace: (name?: string) => {
+      const workspaceId = `workspace-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      set((state) => ({
+        workspaces: [...state.workspaces, { id: workspaceId, ...(name && { name }) }],
+      }));
+      return workspaceId;
+    },
+
+    removeWorkspace: (workspaceId: string) => {
+      const { workspaces, activeWorkspaceId } = get();
+      const index = workspaces.findIndex(workspace => workspace.id === workspaceId);
+      // The last workspace stays
+      if (index === -1 || workspaces.length === 1) return;
+
+      // Its windows join the workspace before it, or after it when it is the first
+      const target = workspaces[index === 0 ? 1 : index - 1].id;
+      set((state) => {
+        const windows = { ...state.windows };
+        Object.values(windows)
+          .filter(window => window.workspaceId === workspaceId)
+          .forEach(window => {
+            windows[window.id] = { ...window, workspaceId: target };
+          });
+        return { windows, workspaces: state.workspaces.filter(workspace => workspace.id !== workspaceId) };
+      });
+      if (activeWorkspaceId === workspaceId) {
+        get().switchWorkspace(target);
+      }
+    },
+
+    renameWorkspace: (workspaceId: string, name: string) => {
+      set((state) => ({
+        workspaces: state.workspaces.map(workspace =>
+          workspace.id === workspaceId ? { ...workspace, name: name.trim() || undefined } : workspace
+        ),
+      }));
+    },
+
+    switchWorkspace: (workspaceId: string) => {
+      const state = get();
+      if (!state.workspaces.some(workspace => workspace.id === workspaceId)) return;
+
+      // The top window of the workspace takes focus
+      const topWindowId = [...state.zOrder].reverse().find(id => {
+        const window = state.windows[id];
+        return window && !window.minimized && isWindowOnWorkspace(window, workspaceId) && !isBackgroundTab(window, state.tabGroups);
+      });
+      if (topWindowId) {
+        get().focusWindow(topWindowId);
+        return;
+      }
+
+      const windows = { ...state.windows };
+      Object.keys(windows).forEach((id) => {
+        windows[id] = { ...windows[id], focused: false };
+      });
+      set({ windows, activeWorkspaceId: workspaceId });
+    },
+
+    switchWorkspaceBy: (offset: number) => {
+      const { workspaces, activeWorkspaceId } = get();
+      const index = workspaces.findIndex(workspace => workspace.id === activeWorkspaceId);
+      const next = workspaces[index + offset];
+      if (next) {
+        get().switchWorkspace(next.id);
+      }
+    },
+
+    moveWindowToWorkspace: (windowId: string, workspaceId: string) => {
+      const state = get();
+      const window = state.windows[windowId];
+      if (!window || !state.workspaces.some(workspace => workspace.id === workspaceId)) return;
+
+      set({
+        windows: { ...state.windows, [windowId]: { ...window, workspaceId, focused: false } },
+      });
+      // The workspace it left focuses its next window
+      if (window.focused && workspaceId !== state.activeWorkspaceId) {
+        const nextWindowId = [...state.zOrder].reverse().find(id => {
+          const other = state.windows[id];
+          return id !== windowId && other && !other.minimized && isWindowOnWorkspace(other, state.activeWorkspaceId) &&
+            !isBackgroundTab(other, state.tabGroups) && (!window.tabGroupId || other.tabGroupId !== window.tabGroupId);
+        });
+        if (nextWindowId) get().focusWindow(nextWindowId);
+      }
+    },
+
+    setWorkspaceWallpaper: (workspaceId: string, wallpaper?: string) => {
+      set((state) => ({
+        workspaces: state.workspaces.map(workspace =>
+          workspace.id === workspaceId ? { ...workspace, wallpaper } : workspace
+        ),
+      }));
+    },
+
+    setWorkspaceOverviewOpen: (open: boolean) => {
+      set({ workspaceOverviewOpen: open, ...(open && { windowOverviewOpen: false }) });
+    },
+
+    setWindowOverviewOpen: (open: boolean) => {
+      set({ windowOverviewOpen: open, ...(open && { workspaceOverviewOpen: false }) });
+    },
+
+    restoreSession: (session: WindowSession) => {
+      const { width, height } = getViewport();
+      const windows: Record<string, WindowState> = {};
+      session.windows.forEach((window, index) => {
+        // Maximized and snapped windows fit the viewport they come back to
+        let { bounds } = window;
+        if (window.maximized) {
+          bounds = { x: 0, y: 0, w: width, h: height - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT };
+        } else if (window.snapState && window.snapState !== 'maximized') {
+          bounds = windowUtils.getSnapBounds(window.snapState, width, height);
+        }
+        windows[window.id] = { ...window, bounds, zIndex: index + 1 };
+      });
+
+      // Tabs whose windows are gone leave their groups
+      const tabGroups: Record<string, TabGroup> = {};
+      session.tabGroups.forEach((group) => {
+        const tabs = group.tabs.filter(id => windows[id]?.tabGroupId === group.id);
+        if (tabs.length > 1) {
+          tabGroups[group.id] = { ...group, tabs, activeTabId: tabs.includes(group.activeTabId) ? group.activeTabId : tabs[0] };
+        }
+      });
+      Object.values(windows)
+        .filter(window => window.tabGroupId && !tabGroups[window.tabGroupId])
+        .forEach(window => {
+          windows[window.id] = { ...window, tabGroupId: undefined };
+        });
+
+      const workspaces = session.workspaces.length > 0 ? session.workspaces : [{ id: DEFAULT_WORKSPACE_ID }];
+      set({
+        windows,
+        zOrder: session.windows.map(window => window.id),
+        nextZIndex: session.windows.length + 1,
+        tabGroups,
+        workspaces,
+        activeWorkspaceId: workspaces.some(workspace => workspace.id === session.activeWorkspaceId)
+          ? session.activeWorkspaceId
+          : workspaces[0].id,
+        tilingMode: session.tilingMode,
+        dragState: null,
+        resizeState: null,
+        moveSizeState: null,
+        workspaceOverviewOpen: false,
+        windowOverviewOpen: false,
+      });
+    },
+
     // Selectors
     getFocusedWindow: () => {
       const state = get();
@@ -388,7 +1053,9 @@ export const useWindowStore = create<WindowStore>()(
 
     getVisibleWindows: () => {
       const state = get();
-      return Object.values(state.windows).filter(window => !window.minimized);
+      return Object.values(state.windows).filter(window =>
+        !window.minimized && isWindowOnWorkspace(window, state.activeWorkspaceId)
+      );
     },
 
     getMinimizedWindows: () => {
@@ -405,5 +1072,163 @@ export const useWindowStore = create<WindowStore>()(
       const state = get();
       return Object.values(state.windows).some(window => window.hasUnsavedState);
     },
+
+    getActiveWorkspace: () => {
+      const state = get();
+      return state.workspaces.find(workspace => workspace.id === state.activeWorkspaceId) ?? state.workspaces[0];
+    },
+
+    getWorkspaceWindows: (workspaceId: string) => {
+      const state = get();
+      return state.zOrder
+        .map(id => state.windows[id])
+        .filter(window => window && isWindowOnWorkspace(window, workspaceId));
+    },
+
+    getTabGroup: (windowId: string) => {
+      const state = get();
+      const groupId = state.windows[windowId]?.tabGroupId;
+      return groupId ? state.tabGroups[groupId] : undefined;
+    },
+
+    getTitleBarTarget: (x: number, y: number, windowId: string) => {
+      const state = get();
+      const window = state.windows[windowId];
+
+      // The topmost other window under the point, if the point is on its title bar
+      const top = [...state.zOrder].reverse()
+        .map(id => state.windows[id])
+        .find(other =>
+          other && other.id !== windowId && !other.minimized &&
+          isWindowOnWorkspace(other, state.activeWorkspaceId) && !isBackgroundTab(other, state.tabGroups) &&
+          (!window?.tabGroupId || other.tabGroupId !== window.tabGroupId) &&
+          x >= other.bounds.x && x < other.bounds.x + other.bounds.w &&
+          y >= other.bounds.y && y < other.bounds.y + other.bounds.h
+        );
+      return top && y < top.bounds.y + TITLE_BAR_HEIGHT ? top : undefined;
+    },
+
+    getSession: () => {
+      const state = get();
+      return {
+        windows: state.zOrder.map(id => state.windows[id]).filter(Boolean),
+        tabGroups: Object.values(state.tabGroups),
+        workspaces: state.workspaces,
+        activeWorkspaceId: state.activeWorkspaceId,
+        tilingMode: state.tilingMode,
+      };
+    },
   }))
 );
+
+/**
+ * Window manager operations for Terminal commands. `current` is the Terminal
+ * window running them, which commands address as `.`.
+ */
+export const createWindowControl = (current?: string): TerminalWindowControl => {
+  const store = () => useWindowStore.getState();
+
+  const control: TerminalWindowControl = {
+    current,
+    list: () => {
+      const { windows, zOrder } = store();
+      return zOrder.map(id => windows[id]).filter(Boolean);
+    },
+    find: (spec) => {
+      const { windows } = store();
+      const id = spec === '.' ? current : spec;
+      if (!id) return undefined;
+      if (windows[id]) return windows[id];
+      const matches = Object.keys(windows).filter(windowId => windowId.startsWith(id));
+      return matches.length === 1 ? windows[matches[0]] : undefined;
+    },
+    open: (appId, options) => store().createWindow(appId, options),
+    close: (windowId, force = false) => {
+      store().closeWindow(windowId, force);
+      return !store().windows[windowId];
+    },
+    focus: (windowId) => store().focusWindow(windowId),
+    minimize: (windowId) => store().minimizeWindow(windowId),
+    maximize: (windowId) => {
+      if (store().windows[windowId]?.minimized) store().focusWindow(windowId);
+      control.snap(windowId, 'maximized');
+    },
+    restore: (windowId) => store().restoreWindow(windowId),
+    setBounds: (windowId, bounds) => {
+      // Moving or resizing a maximized or snapped window leaves that state
+      const window = store().windows[windowId];
+      if (window?.maximized || window?.snapState) {
+        store().updateWindow(windowId, { maximized: false, snapState: null, snapGroupId: undefined, previousBounds: undefined });
+      }
+      store().updateWindowBounds(windowId, bounds);
+    },
+    snap: (windowId, zone) => store().snapWindow(windowId, zone),
+    tile: (mode) => store().setTilingMode(mode),
+  };
+  return control;
+};
+
+/**
+ * Start the window manager's own reactions: auto-tiling, remembered window
+ * positions and tab groups moving together. Returns a function that stops them.
+ */
+export const initWindowStore = (): (() => void) => {
+  const unsubscribes = [
+    // Auto-tiling arranges the active workspace again whenever its visible windows change
+    useWindowStore.subscribe(
+      (state) => state.tilingMode === 'off' ? '' : [
+        state.tilingMode,
+        state.activeWorkspaceId,
+        ...Object.values(state.windows)
+          .filter(window =>
+            !window.minimized && isWindowOnWorkspace(window, state.activeWorkspaceId) && !isBackgroundTab(window, state.tabGroups)
+          )
+          .map(window => window.id),
+      ].join(' '),
+      (layoutKey) => {
+        if (layoutKey) useWindowStore.getState().tileWindows();
+      }
+    ),
+
+    // Apps remember where their last window was when it closed, for window rules that open them there again
+    useWindowStore.subscribe(
+      (state) => state.windows,
+      (windows, previousWindows) => {
+        Object.values(previousWindows)
+          .filter(window => !windows[window.id])
+          .forEach(window => usePreferencesStore.getState().setWindowPosition(window.appId, {
+            bounds: getRestoredBounds(window),
+            maximized: window.maximized,
+            minimized: window.minimized,
+          }));
+      }
+    ),
+
+    // The tabs of a group follow whichever of them was moved, resized, minimized, snapped or sent to another workspace
+    useWindowStore.subscribe(
+      (state) => state.windows,
+      (windows, previousWindows) => {
+        const updates: Record<string, WindowState> = {};
+        Object.values(useWindowStore.getState().tabGroups).forEach((group) => {
+          const source = group.tabs
+            .map(id => windows[id])
+            .find(window => window && previousWindows[window.id] &&
+              TAB_GROUP_SHARED_KEYS.some(key => window[key] !== previousWindows[window.id][key])
+            );
+          if (!source) return;
+
+          group.tabs
+            .filter(id => id !== source.id && windows[id])
+            .filter(id => TAB_GROUP_SHARED_KEYS.some(key => windows[id][key] !== source[key]))
+            .forEach(id => {
+              updates[id] = { ...windows[id], ...getFrameState(source) };
+            });
+        });
+        if (Object.keys(updates).length > 0) {
+          useWindowStore.setState((state) => ({ windows: { ...state.windows, ...updates } }));
+        }
+      }
+    ),
+  ];
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
@@ -23,6 +23,7 @@ const mockPreferencesStore = {
   screenReaderOptimized: false,
   keyboardNavigation: true,
   focusIndicators: true,
+  defaultApps: { md: 'file-explorer' },
   setTheme: vi.fn(),
   setAccentColor: vi.fn(),
   setWallpaper: vi.fn(),
@@ -39,6 +40,7 @@ const mockPreferencesStore = {
   setKeyboardNavigation: vi.fn(),
   setFocusIndicators: vi.fn(),
   applyPerformanceProfile: vi.fn(),
+  setDefaultApp: vi.fn(),
 };
 
 describe('SettingsApp', () => {
@@ -245,6 +247,22 @@ describe('SettingsApp', () => {
     });
   });
 
+  it('lets the user choose the default app for a file type', async () => {
+    render(<SettingsApp {...mockProps} />);
+    
+    fireEvent.click(screen.getByText('Default Apps'));
+    
+    const markdownSelect = await screen.findByLabelText('.md');
+    expect(markdownSelect).toHaveValue('file-explorer');
+    expect(screen.getByLabelText('.txt')).toHaveValue('');
+
+    fireEvent.change(screen.getByLabelText('.txt'), { target: { value: 'file-explorer' } });
+    expect(mockPreferencesStore.setDefaultApp).toHaveBeenCalledWith('txt', 'file-explorer');
+
+    fireEvent.change(markdownSelect, { target: { value: '' } });
+    expect(mockPreferencesStore.setDefaultApp).toHaveBeenCalledWith('md', null);
+  });
+
   it('shows current theme selection', () => {
     const storeWithDarkTheme = {
       ...mockPreferencesStore,
@@ -0,0 +1,74 @@
+import React from 'react';
+import { render, screen, fireEvent, act, within } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import TaskManagerApp from '../apps/TaskManagerApp';
+import { DEFAULT_WORKSPACE_ID, useWindowStore } from '../store/windowStore';
+import { SAMPLE_INTERVAL, useResourceStore } from '../store/resourceStore';
+import { resourceMonitor } from '../services/resourceMonitor';
+
+const renderWindowElement = (windowId: string, nodes: number) => {
+  const element = document.createElement('div');
+  element.setAttribute('data-window-id', windowId);
+  element.innerHTML = '<span></span>'.repeat(nodes - 1);
+  document.body.appendChild(element);
+};
+
+const getWindowOrder = () => screen.getAllByRole('row')
+  .map(row => row.textContent ?? '')
+  .filter(text => text.startsWith('Notes') || text.startsWith('Shell'))
+  .map(text => text.slice(0, 5));
+
+describe('TaskManagerApp', () => {
+  let notesId: string;
+  let shellId: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useWindowStore.setState({
+      windows: {},
+      zOrder: [],
+      nextZIndex: 1,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID }],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      tilingMode: 'off',
+      tabGroups: {},
+    });
+    useResourceStore.setState({ samples: {}, history: {}, interval: SAMPLE_INTERVAL, sampledAt: null, heap: null });
+    resourceMonitor.collect([]);
+
+    notesId = useWindowStore.getState().createWindow('notepad', { title: 'Notes' });
+    shellId = useWindowStore.getState().createWindow('terminal', { title: 'Shell' });
+    renderWindowElement(notesId, 5);
+    renderWindowElement(shellId, 12);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('should show what each window used since the last sample', () => {
+    resourceMonitor.recordCommit(notesId, 100, 0, 100);
+    render(<TaskManagerApp />);
+
+    const notesRow = screen.getByText('Notes').closest('tr')!;
+    expect(within(notesRow).getByText('10.0%')).toBeInTheDocument();
+    expect(within(notesRow).getByText('5')).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(SAMPLE_INTERVAL);
+    });
+    expect(within(screen.getByText('Notes').closest('tr')!).getAllByText('0.0%')).toHaveLength(2);
+    expect(screen.getByText('System')).toBeInTheDocument();
+  });
+
+  it('should sort processes by the column picked', () => {
+    render(<TaskManagerApp />);
+
+    fireEvent.click(screen.getByRole('columnheader', { name: /DOM nodes/ }));
+    expect(getWindowOrder()).toEqual(['Shell', 'Notes']);
+
+    fireEvent.click(screen.getByRole('columnheader', { name: /DOM nodes/ }));
+    expect(getWindowOrder()).toEqual(['Notes', 'Shell']);
+  });
+});
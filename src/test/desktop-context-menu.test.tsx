@@ -51,6 +51,7 @@ describe('Desktop Context Menu', () => {
       clearSelection: mockClearSelection,
       setIconSize: mockSetIconSize,
       loadIconLayout: vi.fn(),
+      syncFileIcons: vi.fn(),
     });
 
     // Mock preferences store
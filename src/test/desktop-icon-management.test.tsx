@@ -117,6 +117,7 @@ describe('Desktop Icon Management', () => {
       clearSelection: mockClearSelection,
       saveIconLayout: mockSaveIconLayout,
       loadIconLayout: mockLoadIconLayout,
+      syncFileIcons: vi.fn(),
       startDragSelection: mockStartDragSelection,
       updateDragSelection: mockUpdateDragSelection,
       endDragSelection: mockEndDragSelection,
@@ -0,0 +1,43 @@
+import { vi } from 'vitest';
+import type { TerminalContext } from '../types';
+import { virtualFileSystem } from '../services/virtualFileSystem';
+import { createShellEnvironment } from '../utils/shellEnvironment';
+import { createJobControl } from '../store/jobStore';
+import { createWindowControl } from '../store/windowStore';
+// Registers the built-in commands runShell looks up
+import '../utils/terminalCommands';
+
+interface TestTerminalContextOptions extends Partial<TerminalContext> {
+  windowId?: string; // The Terminal window the commands run in; jobs of other windows stay apart
+}
+
+/**
+ * A Terminal context for command tests: the real file system, job and window
+ * control, `cd` that moves the context, and mocks for the rest
+ */
+export const createTestTerminalContext = ({
+  windowId,
+  cwd = '/',
+  ...overrides
+}: TestTerminalContextOptions = {}): TerminalContext => {
+  const context: TerminalContext = {
+    openApp: vi.fn(),
+    getProjects: vi.fn(async () => []),
+    getTheme: vi.fn(() => 'dark'),
+    setTheme: vi.fn(),
+    getWallpaper: vi.fn(() => 'default.jpg'),
+    setWallpaper: vi.fn(),
+    fs: virtualFileSystem,
+    cwd,
+    setCwd: vi.fn((path: string) => {
+      context.cwd = path;
+    }),
+    env: createShellEnvironment('/', cwd),
+    getCommandHistory: vi.fn(() => []),
+    clearCommandHistory: vi.fn(),
+    jobs: createJobControl(windowId ?? 'terminal-1'),
+    windows: createWindowControl(windowId),
+    ...overrides,
+  };
+  return context;
+};
@@ -1,3 +1,6 @@
+import type { VirtualFileSystemService } from '../services/virtualFileSystem';
+import type { ShellEnvironment } from '../utils/shellEnvironment';
+
 // Core application types
 export type AppId =
   | 'projects'
@@ -11,9 +14,36 @@ export type AppId =
   | 'clipboard'
   | 'screenshot'
   | 'task-manager'
-  | 'color-picker';
+  | 'color-picker'
+  | 'recycle-bin';
 
 // Window management types
+
+// Area of the desktop a window is snapped to
+export type SnapState =
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'left-third'
+  | 'center-third'
+  | 'right-third'
+  | 'left-two-thirds'
+  | 'right-two-thirds'
+  | 'maximized';
+
+// A snap layout template; each zone takes one window
+export interface SnapLayout {
+  id: string;
+  name: string;
+  zones: Exclude<SnapState, 'maximized'>[];
+}
+
+// How visible windows are arranged automatically
+export type TilingMode = 'off' | 'grid' | 'master-stack';
+
 export interface WindowState {
   id: string;
   appId: AppId;
@@ -25,7 +55,80 @@ export interface WindowState {
   maximized: boolean;
   focused: boolean;
   hasUnsavedState?: boolean;
-  snapState?: 'left' | 'right' | 'maximized' | null;
+  snapState?: SnapState | null;
+  snapGroupId?: string; // Snapped windows in a group resize together along shared edges
+  launchData?: Record<string, unknown>; // Data the app was launched with, e.g. a file path
+  workspaceId?: string; // Virtual desktop the window is on; windows without one show on all of them
+  tabGroupId?: string; // Tabbed frame the window is a tab of; the group moves, resizes and snaps as one
+  alwaysOnTop?: boolean; // Pinned windows stay above the others
+  opacity?: number; // 0.2 to 1; fully opaque when unset
+}
+
+// Edge or corner of the desktop a window rule places windows against
+export type WindowEdge =
+  | 'center'
+  | 'left'
+  | 'right'
+  | 'top'
+  | 'bottom'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+// How windows open, for the windows that match it. Later rules override earlier ones.
+export interface WindowRule {
+  id: string;
+  name?: string;
+  enabled: boolean;
+  match: {
+    appId?: AppId;
+    title?: string; // Case-insensitive part of the title the window opens with
+  };
+  bounds?: Partial<WindowState['bounds']>;
+  edge?: WindowEdge;
+  alwaysOnTop?: boolean;
+  opacity?: number;
+  startMinimized?: boolean;
+  singleInstance?: boolean; // Overrides whether the app opens one window or many
+  rememberPosition?: boolean; // Open where the app's last window closed
+}
+
+// Windows sharing one tabbed frame
+export interface TabGroup {
+  id: string;
+  tabs: string[]; // Window IDs in tab order
+  activeTabId: string; // The tab shown in the frame; the others stay mounted but hidden
+}
+
+// The window manager's part of a session
+export interface WindowSession {
+  windows: WindowState[]; // Back to front
+  tabGroups: TabGroup[];
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  tilingMode: TilingMode;
+}
+
+// A session saved under a name, with the state the apps in it saved through useSessionState
+export interface SavedSession extends WindowSession {
+  name: string;
+  savedAt: number;
+  appStates: Record<string, unknown>; // Keyed by window ID
+}
+
+// A closed window, kept so that it can be reopened as it was
+export interface ClosedWindow {
+  window: WindowState; // As it was when it closed
+  appState?: unknown; // What the app saved through useSessionState, including content that was not saved yet
+  closedAt: number;
+}
+
+// A virtual desktop with its own set of windows
+export interface Workspace {
+  id: string;
+  name?: string; // Shown as "Desktop n" until renamed
+  wallpaper?: string; // Wallpaper ID; the wallpaper from preferences when unset
 }
 
 export interface DragState {
@@ -42,6 +145,16 @@ export interface ResizeState {
   startPosition: { x: number; y: number };
 }
 
+// Keyboard move/size mode: arrow keys move or resize a window until Enter or Escape
+export interface MoveSizeState {
+  windowId: string;
+  mode: 'move' | 'size';
+  startBounds: { x: number; y: number; w: number; h: number }; // Where Escape puts the window back
+}
+
+// Direction of a Win+Arrow snap
+export type SnapDirection = 'left' | 'right' | 'up' | 'down';
+
 // Desktop types
 export interface DesktopIcon {
   id: string;
@@ -131,6 +244,15 @@ export interface SearchIndex {
   commands: SearchableItem[];
 }
 
+/**
+ * The line of a document that matched a full-text search
+ */
+export interface SearchSnippet {
+  text: string;
+  line: number; // 1-based
+  highlights: [number, number][]; // Inclusive ranges into text
+}
+
 export interface SearchResult extends SearchableItem {
   score?: number;
   matches?: Array<{
@@ -138,6 +260,7 @@ export interface SearchResult extends SearchableItem {
     key?: string;
     value?: string;
   }>;
+  snippet?: SearchSnippet;
 }
 
 // Start menu types
@@ -156,6 +279,7 @@ export interface AppProps {
   focused: boolean;
   onTitleChange: (title: string) => void;
   onUnsavedStateChange: (hasUnsaved: boolean) => void;
+  launchData?: Record<string, unknown>;
 }
 
 export interface BaseApp {
@@ -170,6 +294,20 @@ export interface BaseApp {
   multiInstance: boolean;
 }
 
+// File previewer types
+export interface PreviewerProps {
+  file: VNode;
+}
+
+export interface FilePreviewer {
+  id: string;
+  name: string;
+  extensions?: string[];
+  mimeTypes?: string[]; // Exact types or wildcards such as 'image/*'
+  canPreview?: (file: VNode) => boolean;
+  component: React.ComponentType<PreviewerProps>;
+}
+
 // Project types
 export interface Project {
   slug: string;
@@ -227,6 +365,9 @@ export interface VNode {
   modified?: Date;
   children?: VNode[];
   content?: string;
+  binary?: ArrayBuffer; // Raw bytes of imported binary files (images, PDFs, ...)
+  mimeType?: string;
+  url?: string; // Location of the file's bytes when they are served rather than stored
   icon?: string;
 }
 
@@ -249,25 +390,153 @@ export interface FileExplorerState {
 }
 
 // Terminal types
+
+/**
+ * Where completions for a word come from: files and folders, folders only,
+ * command names, a fixed list, or a function of the words typed so far
+ */
+export type TerminalCompletionProvider =
+  | 'path'
+  | 'folder'
+  | 'command'
+  | string[]
+  | ((context: TerminalContext, request: TerminalCompletionRequest) => Promise<string[]> | string[]);
+
+export interface TerminalCompletionRequest {
+  args: string[]; // Arguments typed before the word being completed
+  word: string; // The word being completed, without escapes
+}
+
+export interface TerminalCommandFlag {
+  names: string[]; // As typed, e.g. ['-a', '--all']
+  description: string;
+  value?: string; // Placeholder for the option's value, e.g. 'lines' for `-n lines`
+  complete?: TerminalCompletionProvider; // Completes the value
+}
+
+export interface TerminalCommandArg {
+  name: string;
+  description?: string;
+  optional?: boolean;
+  variadic?: boolean; // Takes any number of words
+  complete?: TerminalCompletionProvider;
+}
+
+export interface TerminalSubcommand {
+  name: string;
+  description: string;
+  flags?: TerminalCommandFlag[];
+  args?: TerminalCommandArg[];
+}
+
 export interface TerminalCommand {
   id: string;
   name: string;
   description: string;
-  usage: string;
+  usage?: string; // Generated from the flags, arguments and subcommands when omitted
   aliases?: string[];
-  execute: (args: string[], context: TerminalContext) => Promise<TerminalOutput> | TerminalOutput;
+  // The manifest behind `--help`, `man` pages and Tab completion
+  flags?: TerminalCommandFlag[];
+  args?: TerminalCommandArg[];
+  subcommands?: TerminalSubcommand[];
+  manual?: string; // Longer description for the `man` page
+  // Commands may write to io.stdout and io.stderr directly, return an output, or both
+  execute: (
+    args: string[],
+    context: TerminalContext,
+    io?: TerminalIO
+  ) => Promise<TerminalOutput | void> | TerminalOutput | void;
 }
 
 export interface TerminalOutput {
   type: 'success' | 'error' | 'info' | 'warning';
-  content: string | React.ReactNode;
+  content: string; // Plain text, styled and linked with ANSI escapes (see utils/ansi)
   timestamp?: Date;
+  exitCode?: number; // Defaults to 1 for errors and 0 otherwise
+}
+
+/**
+ * Readable end of a shell stream: a pipe, a redirected file or nothing
+ */
+export interface TerminalInputStream {
+  read: () => Promise<string>; // Resolves with everything written once the writer closes
+  [Symbol.asyncIterator]: () => AsyncIterator<string>;
+}
+
+export interface TerminalOutputStream {
+  write: (text: string) => void;
+}
+
+export interface TerminalIO {
+  stdin: TerminalInputStream;
+  stdout: TerminalOutputStream;
+  stderr: TerminalOutputStream;
+  signal?: AbortSignal; // Aborted by Ctrl+C or `kill`; long-running commands should stop
+}
+
+// Signals `kill` can send; a job ended by one exits with 128 + its number
+export type TerminalSignal = 'SIGHUP' | 'SIGINT' | 'SIGKILL' | 'SIGTERM';
+
+/**
+ * A command line running in a Terminal window, in the foreground or in the
+ * background after `&`
+ */
+export interface TerminalJob {
+  pid: number; // Unique across windows, shown in Task Manager
+  number: number; // Job number within the window, addressed as %n
+  windowId: string;
+  command: string;
+  background: boolean;
+  startedAt: number;
+}
+
+/**
+ * What a window used between two samples of the resource monitor, shown in Task Manager
+ */
+export interface ResourceSample {
+  commitTime: number; // Milliseconds React spent rendering and committing the window
+  longTaskTime: number; // Milliseconds of long tasks put down to the window
+  listeners: number; // Event listeners attached now
+  timers: number; // Timeouts and intervals waiting now
+  domNodes: number; // Nodes in the window's subtree now
+}
+
+/**
+ * Job control for one window, used by `&`, `jobs`, `fg` and `kill`
+ */
+export interface TerminalJobControl {
+  spawn: (command: string, run: (signal: AbortSignal) => Promise<number>) => TerminalJob; // Starts a background job
+  list: () => TerminalJob[]; // The window's background jobs, oldest first
+  find: (spec: string) => TerminalJob | undefined; // %n, %%, %+, %-, %prefix or %?text
+  wait: (pid: number) => Promise<number>; // Resolves with the exit status
+  kill: (pid: number, signal?: TerminalSignal) => boolean;
+  setBackground: (pid: number, background: boolean) => void;
+}
+
+/**
+ * Window manager operations for `ps`, `kill` and `wm`, on top of the window store
+ */
+export interface TerminalWindowControl {
+  current?: string; // The Terminal window running the command, addressed as `.`
+  list: () => WindowState[]; // Back to front
+  find: (spec: string) => WindowState | undefined; // `.`, a window ID or a unique prefix of one
+  open: (appId: AppId, options?: Partial<WindowState>) => string;
+  close: (windowId: string, force?: boolean) => boolean; // False when unsaved changes keep the window open
+  focus: (windowId: string) => void;
+  minimize: (windowId: string) => void;
+  maximize: (windowId: string) => void;
+  restore: (windowId: string) => void;
+  setBounds: (windowId: string, bounds: Partial<WindowState['bounds']>) => void;
+  snap: (windowId: string, zone: SnapState) => void;
+  tile: (mode: TilingMode) => void; // Auto-tile the active workspace, or stop with 'off'
 }
 
 export interface TerminalHistoryEntry {
   command: string;
   output: TerminalOutput[];
   timestamp: Date;
+  cwd?: string; // Working directory relative paths in the output refer to
+  jobId?: number; // pid of the job still writing to this entry
 }
 
 export interface TerminalContext {
@@ -277,8 +546,26 @@ export interface TerminalContext {
   setTheme: (theme: string) => void;
   getWallpaper: () => string;
   setWallpaper: (wallpaper: string) => void;
-}
-
+  fs: VirtualFileSystemService;
+  cwd: string; // Working directory paths are resolved against
+  setCwd: (path: string) => void;
+  env: ShellEnvironment; // Variables and aliases of the window's session
+  getCommandHistory: () => string[]; // Commands entered in this window, oldest first
+  clearCommandHistory: () => void;
+  jobs: TerminalJobControl;
+  windows: TerminalWindowControl;
+}
+
+/**
+ * Ctrl+R search through the command history
+ */
+export interface TerminalHistorySearch {
+  query: string;
+  matchIndex: number; // Index into commandHistory, -1 without a match
+  originalInput: string; // Restored when the search is cancelled
+}
+
+// The state of one Terminal window
 export interface TerminalState {
   history: TerminalHistoryEntry[];
   currentInput: string;
@@ -287,6 +574,8 @@ export interface TerminalState {
   isProcessing: boolean;
   suggestions: string[];
   showSuggestions: boolean;
+  cwd: string;
+  historySearch: TerminalHistorySearch | null;
 }
 
 // Notepad app types
@@ -297,6 +586,7 @@ export interface NotepadDocument {
   lastModified: Date;
   created: Date;
   markdownMode: boolean;
+  filePath?: string; // Linked file in the virtual file system
 }
 
 export interface NotepadVersion {
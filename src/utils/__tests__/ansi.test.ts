@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { ansi } from '../ansi';
+
+describe('ansi', () => {
+  describe('parse', () => {
+    it('should split text into styled segments', () => {
+      expect(ansi.parse('plain \x1b[1;31mred bold\x1b[22m red\x1b[0m done')).toEqual([
+        { text: 'plain ', style: {} },
+        { text: 'red bold', style: { bold: true, foreground: 1 } },
+        { text: ' red', style: { foreground: 1 } },
+        { text: ' done', style: {} },
+      ]);
+    });
+
+    it('should read bright, 256 and true colors', () => {
+      const [bright, indexed, gray, rgb] = ansi.parse('\x1b[92ma\x1b[38;5;196mb\x1b[48;5;244mc\x1b[0;38;2;1;2;3md');
+
+      expect(bright.style.foreground).toBe(10);
+      expect(indexed.style.foreground).toBe('#ff0000');
+      expect(gray.style).toEqual({ foreground: '#ff0000', background: '#808080' });
+      expect(rgb.style).toEqual({ foreground: '#010203' });
+    });
+
+    it('should read OSC 8 links ended by ST or BEL', () => {
+      expect(ansi.parse('see \x1b]8;;https://example.com\x1b\\site\x1b]8;;\x1b\\ or \x1b]8;id=1;file:///a.txt\x07a\x1b]8;;\x07')).toEqual([
+        { text: 'see ', style: {} },
+        { text: 'site', style: {}, href: 'https://example.com' },
+        { text: ' or ', style: {} },
+        { text: 'a', style: {}, href: 'file:///a.txt' },
+      ]);
+    });
+
+    it('should drop unsupported escapes', () => {
+      expect(ansi.strip('\x1b[2Kline\x1b[1A')).toBe('line');
+    });
+  });
+
+  describe('builders', () => {
+    it('should round-trip styles and links', () => {
+      const text = ansi.bold(ansi.color('blue', 'dir/')) + ' ' + ansi.fileLink('/My Files/a.txt', 'a.txt');
+
+      expect(ansi.strip(text)).toBe('dir/ a.txt');
+      expect(ansi.parse(text)[0].style).toEqual({ bold: true, foreground: 4 });
+      expect(ansi.parseLink(ansi.parse(text)[2].href!)).toEqual({ type: 'file', path: '/My Files/a.txt' });
+    });
+
+    it('should only follow known link types', () => {
+      expect(ansi.parseLink('project:weather')).toEqual({ type: 'project', slug: 'weather' });
+      expect(ansi.parseLink('https://example.com')).toEqual({ type: 'url', url: 'https://example.com' });
+      expect(ansi.parseLink('javascript:alert(1)')).toBeNull();
+    });
+
+    it('should align tables by visible width', () => {
+      const table = ansi.table([
+        ['NAME', 'SIZE'],
+        [ansi.projectLink('alpha'), '10'],
+        ['b', '2000'],
+      ], { align: ['left', 'right'] });
+
+      expect(ansi.strip(table).split('\n')).toEqual([
+        'NAME   SIZE',
+        '─────  ────',
+        'alpha    10',
+        'b      2000',
+      ]);
+    });
+
+    it('should draw progress bars', () => {
+      expect(ansi.strip(ansi.progressBar(0.5, { width: 10 }))).toBe('[█████░░░░░]  50%');
+      expect(ansi.strip(ansi.progressBar(2, { width: 4 }))).toBe('[████] 100%');
+      expect(ansi.parse(ansi.progressBar(0.95, { warn: true }))[1].style.foreground).toBe(1);
+    });
+  });
+
+  describe('linkify', () => {
+    const detectors = {
+      resolvePath: (word: string) => (word === 'notes.txt' || word === '/Documents' ? `/Documents${word === 'notes.txt' ? '/notes.txt' : ''}` : null),
+      isProjectSlug: (word: string) => word === 'portfolio-os',
+    };
+
+    it('should link existing paths and project slugs', () => {
+      const segments = ansi.linkify(ansi.parse('Saved notes.txt in /Documents. See portfolio-os, not missing.txt'), detectors);
+
+      expect(segments.filter(segment => segment.href).map(({ text, href }) => [text, href])).toEqual([
+        ['notes.txt', 'file:///Documents/notes.txt'],
+        ['/Documents', 'file:///Documents'],
+        ['portfolio-os', 'project:portfolio-os'],
+      ]);
+      expect(segments.map(segment => segment.text).join('')).toBe('Saved notes.txt in /Documents. See portfolio-os, not missing.txt');
+    });
+
+    it('should keep styles and existing links', () => {
+      const segments = ansi.linkify(ansi.parse(`${ansi.color('red', 'portfolio-os')} ${ansi.link('https://x.dev', 'notes.txt')}`), detectors);
+
+      expect(segments).toEqual([
+        { text: 'portfolio-os', style: { foreground: 1 }, href: 'project:portfolio-os' },
+        { text: ' ', style: {} },
+        { text: 'notes.txt', style: {}, href: 'https://x.dev' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { parseArgs } from '../commandArgs';
+
+describe('parseArgs', () => {
+  it('should split combined flags from operands', () => {
+    const { flags, operands } = parseArgs(['-la', 'Documents', '-h'], { flags: 'lah' });
+
+    expect([...flags].sort()).toEqual(['a', 'h', 'l']);
+    expect(operands).toEqual(['Documents']);
+  });
+
+  it('should read option values attached or separate', () => {
+    expect(parseArgs(['-n', '5'], { values: 'n' }).values).toEqual({ n: '5' });
+    expect(parseArgs(['-n5'], { values: 'n' }).values).toEqual({ n: '5' });
+    expect(parseArgs(['--lines=5'], { values: 'n', long: { '--lines': 'n' } }).values).toEqual({ n: '5' });
+  });
+
+  it('should map long options to their letter', () => {
+    expect(parseArgs(['--recursive'], { flags: 'r', long: { '--recursive': 'r' } }).flags.has('r')).toBe(true);
+  });
+
+  it('should stop at -- and keep a lone - as an operand', () => {
+    expect(parseArgs(['-', '--', '-r'], { flags: 'r' }).operands).toEqual(['-', '-r']);
+  });
+
+  it('should reject unknown options and missing values', () => {
+    expect(() => parseArgs(['-x'], { flags: 'a' })).toThrow("invalid option -- 'x'");
+    expect(() => parseArgs(['--nope'])).toThrow("unrecognized option '--nope'");
+    expect(() => parseArgs(['-n'], { values: 'n' })).toThrow("option requires an argument -- 'n'");
+  });
+});
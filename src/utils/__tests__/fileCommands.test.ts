@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runShell } from '../shellInterpreter';
+import { resolveTerminalPath } from '../fileCommands';
+import type { TerminalContext } from '../../types';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { ansi } from '../ansi';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+const text = (outputs: { content: string }[]) => outputs.map(output => ansi.strip(output.content)).join('\n');
+
+describe('file commands', () => {
+  let context: TerminalContext;
+  const run = async (source: string) => runShell(source, context);
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    virtualFileSystem.createFolder('/Documents/work/src', { recursive: true });
+    virtualFileSystem.createFile('/Documents/work/notes.md', 'one\ntwo\n');
+    virtualFileSystem.createFile('/Documents/work/src/app.ts', 'export {};');
+    virtualFileSystem.createFile('/Documents/work/.hidden', '');
+    context = createTestTerminalContext({ cwd: '/Documents/work' });
+  });
+
+  describe('resolveTerminalPath', () => {
+    it('should resolve against the working directory and expand ~', () => {
+      expect(resolveTerminalPath(context, 'src')).toBe('/Documents/work/src');
+      expect(resolveTerminalPath(context, '../..')).toBe('/');
+      expect(resolveTerminalPath(context, '~/Projects')).toBe('/Projects');
+    });
+  });
+
+  describe('cd and pwd', () => {
+    it('should change the working directory for later commands', async () => {
+      const result = await run('cd src && pwd');
+
+      expect(text(result.outputs)).toBe('/Documents/work/src');
+      expect(context.setCwd).toHaveBeenCalledWith('/Documents/work/src');
+    });
+
+    it('should track PWD and go back with cd -', async () => {
+      const result = await run('cd /Projects; cd -; echo $PWD $OLDPWD');
+
+      expect(text(result.outputs)).toBe('/Documents/work\n/Documents/work /Projects');
+    });
+
+    it('should go home without arguments', async () => {
+      await run('cd');
+      expect(context.cwd).toBe('/');
+    });
+
+    it('should refuse files and missing folders', async () => {
+      expect(text((await run('cd notes.md')).outputs)).toBe('cd: not a folder: notes.md');
+      expect((await run('cd missing')).exitCode).toBe(1);
+      expect(context.cwd).toBe('/Documents/work');
+    });
+  });
+
+  describe('ls', () => {
+    it('should list folders first and hide dotfiles', async () => {
+      expect(text((await run('ls')).outputs)).toBe('src/\nnotes.md');
+    });
+
+    it('should show dotfiles and long details with -la', async () => {
+      const listing = text((await run('ls -la')).outputs).split('\n');
+
+      expect(listing.map(line => line.split(/\s+/).pop())).toEqual(['./', '../', 'src/', '.hidden', 'notes.md']);
+      expect(listing[4]).toMatch(/^-rw-r--r-- +8 +\d{4}-\d\d-\d\d \d\d:\d\d +notes\.md$/);
+    });
+
+    it('should mark read-only entries', async () => {
+      expect(text((await run('ls -l /')).outputs)).toMatch(/^dr-xr-xr-x .* About\/$/m);
+    });
+
+    it('should report missing paths', async () => {
+      const result = await run('ls missing');
+
+      expect(result.exitCode).toBe(1);
+      expect(text(result.outputs)).toBe("ls: cannot access 'missing': No such file or folder");
+    });
+
+    it('should reject unknown flags', async () => {
+      expect(text((await run('ls -z')).outputs)).toBe("ls: invalid option -- 'z'");
+    });
+  });
+
+  describe('cat', () => {
+    it('should print files and number lines with -n', async () => {
+      expect(text((await run('cat notes.md')).outputs)).toBe('one\ntwo');
+      expect(text((await run('cat -n notes.md')).outputs)).toBe('     1\tone\n     2\ttwo');
+    });
+
+    it('should read stdin without files', async () => {
+      expect(text((await run('echo piped | cat')).outputs)).toBe('piped');
+    });
+
+    it('should refuse folders', async () => {
+      expect(text((await run('cat src')).outputs)).toBe('cat: src: Is a folder');
+    });
+  });
+
+  describe('mkdir, touch and rm', () => {
+    it('should create folders, with parents when asked', async () => {
+      expect((await run('mkdir a/b')).exitCode).toBe(1);
+      await run('mkdir -p a/b');
+      expect(virtualFileSystem.navigateToPath('/Documents/work/a/b')?.type).toBe('folder');
+    });
+
+    it('should create empty files and keep existing content', async () => {
+      await run('touch new.txt notes.md');
+
+      expect(virtualFileSystem.readFile('/Documents/work/new.txt')).toBe('');
+      expect(virtualFileSystem.readFile('/Documents/work/notes.md')).toBe('one\ntwo\n');
+    });
+
+    it('should only delete folders recursively', async () => {
+      expect(text((await run('rm src')).outputs)).toBe("rm: cannot remove 'src': Is a folder");
+      await run('rm -r src notes.md');
+
+      expect(virtualFileSystem.exists('/Documents/work/src')).toBe(false);
+      expect(virtualFileSystem.exists('/Documents/work/notes.md')).toBe(false);
+    });
+
+    it('should ignore missing files with -f', async () => {
+      expect((await run('rm -f missing')).exitCode).toBe(0);
+    });
+
+    it('should leave a deleted working directory', async () => {
+      context = createTestTerminalContext({ cwd: '/Documents/work/src' });
+      await run('rm -r /Documents/work');
+      expect(context.cwd).toBe('/Documents');
+    });
+  });
+
+  describe('mv and cp', () => {
+    it('should rename and move into folders', async () => {
+      await run('mv notes.md readme.md');
+      expect(virtualFileSystem.exists('/Documents/work/readme.md')).toBe(true);
+
+      await run('mv readme.md src');
+      expect(virtualFileSystem.exists('/Documents/work/src/readme.md')).toBe(true);
+    });
+
+    it('should copy folders only with -r', async () => {
+      expect((await run('cp src copy')).exitCode).toBe(1);
+      await run('cp -r src copy');
+
+      expect(virtualFileSystem.readFile('/Documents/work/copy/app.ts')).toBe('export {};');
+      expect(virtualFileSystem.exists('/Documents/work/src/app.ts')).toBe(true);
+    });
+
+    it('should need a folder for several sources', async () => {
+      expect(text((await run('cp notes.md .hidden other')).outputs)).toBe("cp: target 'other' is not a folder");
+    });
+  });
+
+  describe('tree', () => {
+    it('should draw the folder structure', async () => {
+      expect(text((await run('tree')).outputs)).toBe([
+        '.',
+        '├── src',
+        '│   └── app.ts',
+        '└── notes.md',
+        '',
+        '1 folder, 2 files',
+      ].join('\n'));
+    });
+
+    it('should stop at the requested depth', async () => {
+      expect(text((await run('tree -L 1')).outputs)).not.toContain('app.ts');
+    });
+  });
+
+  describe('find', () => {
+    it('should find entries by name and type', async () => {
+      expect(text((await run("find . -name '*.ts'")).outputs)).toBe('./src/app.ts');
+      expect(text((await run('find -type d')).outputs)).toBe('.\n./src');
+      expect(text((await run('find /Documents/work -iname NOTES.MD')).outputs)).toBe('/Documents/work/notes.md');
+    });
+
+    it('should respect -maxdepth', async () => {
+      expect(text((await run('find . -maxdepth 1 -type f')).outputs)).toBe('./.hidden\n./notes.md');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runShell } from '../shellInterpreter';
+import { formatJobState } from '../jobCommands';
+import type { TerminalContext } from '../../types';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+let nextWindow = 1;
+
+// Each test gets its own window, so job numbers start at 1
+const createMockContext = (): TerminalContext => createTestTerminalContext({ windowId: `jobs-${nextWindow++}` });
+
+const text = (outputs: { content: unknown }[]) => outputs.map(output => output.content).join('\n');
+
+describe('job commands', () => {
+  let context: TerminalContext;
+  const print = async (source: string) => text((await runShell(source, context)).outputs);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    context = createMockContext();
+  });
+
+  afterEach(() => {
+    context.jobs.list().forEach(job => context.jobs.kill(job.pid, 'SIGKILL'));
+    vi.useRealTimers();
+  });
+
+  describe('sleep', () => {
+    it('should wait for the total duration', async () => {
+      let done = false;
+      const running = runShell('sleep 1 0.5m', context).then(result => {
+        done = true;
+        return result;
+      });
+
+      await vi.advanceTimersByTimeAsync(30_999);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await running).exitCode).toBe(0);
+    });
+
+    it('should stop early when interrupted', async () => {
+      const controller = new AbortController();
+      const running = runShell('sleep 1h; echo after', context, { signal: controller.signal });
+
+      controller.abort('SIGTERM');
+      const result = await running;
+
+      expect(result.exitCode).toBe(143);
+      expect(result.outputs).toEqual([]);
+    });
+
+    it('should reject bad durations', async () => {
+      expect(await print('sleep')).toBe('sleep: missing operand');
+      expect(await print('sleep 1x')).toBe("sleep: invalid time interval '1x'");
+    });
+  });
+
+  describe('jobs', () => {
+    it('should list background jobs with the current one marked', async () => {
+      await print('sleep 10 &');
+      await print('sleep 20 &');
+      const [first, second] = context.jobs.list();
+
+      expect(await print('jobs')).toBe([
+        `[1]-  Running                 sleep 10 &`,
+        `[2]+  Running                 sleep 20 &`,
+      ].join('\n'));
+      expect(await print('jobs -l %2')).toBe(`[2]+  ${second.pid} Running                 sleep 20 &`);
+      expect(await print('jobs -p')).toBe(`${first.pid}\n${second.pid}`);
+      expect(await print('jobs %9')).toBe('jobs: %9: no such job');
+    });
+  });
+
+  describe('fg', () => {
+    it('should wait for the job and return its status', async () => {
+      await print('sleep 5 && false &');
+      const running = runShell('fg', context);
+      await vi.advanceTimersByTimeAsync(5000);
+      const result = await running;
+
+      expect(text(result.outputs)).toBe('sleep 5 && false');
+      expect(result.exitCode).toBe(1);
+      expect(context.jobs.list()).toEqual([]);
+    });
+
+    it('should interrupt the job when it is interrupted', async () => {
+      await print('sleep 5 &');
+      const controller = new AbortController();
+      const running = runShell('fg %1', context, { signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort('SIGINT');
+
+      expect((await running).exitCode).toBe(130);
+      expect(await print('fg')).toBe('fg: current: no such job');
+    });
+  });
+
+  describe('kill', () => {
+    it('should send signals to jobs and process IDs', async () => {
+      await print('sleep 5 &');
+      await print('sleep 5 &');
+      const [first, second] = context.jobs.list();
+      const statuses = Promise.all([context.jobs.wait(first.pid), context.jobs.wait(second.pid)]);
+
+      expect(await print('kill %1')).toBe('');
+      expect(await print(`kill -9 ${second.pid}`)).toBe('');
+      expect(await statuses).toEqual([143, 137]);
+    });
+
+    it('should report unknown targets and signals', async () => {
+      expect(await print('kill %1')).toBe('kill: %1: no such job');
+      expect(await print('kill 99999')).toBe('kill: (99999) - No such process');
+      expect(await print('kill -s NOPE 1')).toBe('kill: NOPE: invalid signal specification');
+      expect(await print('kill -l')).toBe('1) SIGHUP\n2) SIGINT\n9) SIGKILL\n15) SIGTERM');
+    });
+  });
+
+  it('should describe how jobs ended', () => {
+    expect([0, 2, 129, 130, 137, 143].map(formatJobState)).toEqual([
+      'Done', 'Exit 2', 'Hangup', 'Interrupt', 'Killed', 'Terminated',
+    ]);
+  });
+});
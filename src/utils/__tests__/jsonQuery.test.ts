@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { jsonQuery, JsonQueryError } from '../jsonQuery';
+
+const projects = [
+  { slug: 'alpha', year: 2022, tech: ['React', 'TypeScript'], featured: true },
+  { slug: 'beta', year: 2024, tech: ['Vue'], featured: false },
+  { slug: 'gamma', year: 2023, tech: ['React'], featured: true },
+];
+
+describe('jsonQuery', () => {
+  it('should follow paths, indexes and iteration', () => {
+    expect(jsonQuery.run('.[0].slug', projects)).toEqual(['alpha']);
+    expect(jsonQuery.run('.[].slug', projects)).toEqual(['alpha', 'beta', 'gamma']);
+    expect(jsonQuery.run('.[-1].tech[0]', projects)).toEqual(['React']);
+    expect(jsonQuery.run('.[1:].[].slug', projects)).toEqual(['beta', 'gamma']);
+    expect(jsonQuery.run('.missing', {})).toEqual([null]);
+  });
+
+  it('should filter with select and comparisons', () => {
+    expect(jsonQuery.run('.[] | select(.year >= 2023 and .featured) | .slug', projects)).toEqual(['gamma']);
+    expect(jsonQuery.run('map(select(.tech | contains(["React"]))) | length', projects)).toEqual([2]);
+    expect(jsonQuery.run('[.[] | select(.slug | test("^b"))] | .[0].year', projects)).toEqual([2024]);
+  });
+
+  it('should build arrays and objects', () => {
+    expect(jsonQuery.run('[.[] | {slug, count: (.tech | length)}] | .[1]', projects)).toEqual([{ slug: 'beta', count: 1 }]);
+    expect(jsonQuery.run('map(.year) | [min, max, add]', projects)).toEqual([[2022, 2024, 6069]]);
+  });
+
+  it('should run common builtins', () => {
+    expect(jsonQuery.run('keys', { b: 1, a: 2 })).toEqual([['a', 'b']]);
+    expect(jsonQuery.run('sort_by(.year) | map(.slug) | join(",")', projects)).toEqual(['alpha,gamma,beta']);
+    expect(jsonQuery.run('map(.tech[]) | unique', projects)).toEqual([['React', 'TypeScript', 'Vue']]);
+    expect(jsonQuery.run('.name // "unknown"', {})).toEqual(['unknown']);
+    expect(jsonQuery.run('.a, .b', { a: 1, b: 2 })).toEqual([1, 2]);
+  });
+
+  it('should report invalid filters and operations', () => {
+    expect(() => jsonQuery.compile('.[')).toThrow(JsonQueryError);
+    expect(() => jsonQuery.run('nope', null)).toThrow('nope/0 is not defined');
+    expect(() => jsonQuery.run('.a', [1])).toThrow('cannot index array with "a"');
+    expect(jsonQuery.run('.a?', [1])).toEqual([]);
+  });
+});
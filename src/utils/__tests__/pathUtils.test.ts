@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { pathUtils } from '../pathUtils';
+
+describe('pathUtils', () => {
+  describe('normalize', () => {
+    it('should collapse slashes and resolve dot segments', () => {
+      expect(pathUtils.normalize('//Documents///Notes/')).toBe('/Documents/Notes');
+      expect(pathUtils.normalize('/Documents/./Notes/../README.md')).toBe('/Documents/README.md');
+      expect(pathUtils.normalize('/../..')).toBe('/');
+      expect(pathUtils.normalize('')).toBe('/');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve relative paths against the working directory', () => {
+      expect(pathUtils.resolve('/Documents', 'Notes/TODO.txt')).toBe('/Documents/Notes/TODO.txt');
+      expect(pathUtils.resolve('/Documents', '../Desktop')).toBe('/Desktop');
+      expect(pathUtils.resolve('/Documents', '/About')).toBe('/About');
+    });
+  });
+
+  describe('dirname and basename', () => {
+    it('should split paths into folder and name', () => {
+      expect(pathUtils.dirname('/Documents/Notes/TODO.txt')).toBe('/Documents/Notes');
+      expect(pathUtils.dirname('/Documents')).toBe('/');
+      expect(pathUtils.basename('/Documents/Notes/TODO.txt')).toBe('TODO.txt');
+      expect(pathUtils.basename('/')).toBe('');
+    });
+  });
+
+  describe('extname', () => {
+    it('should return the lower-cased extension', () => {
+      expect(pathUtils.extname('photo.JPG')).toBe('jpg');
+      expect(pathUtils.extname('archive.tar.gz')).toBe('gz');
+      expect(pathUtils.extname('.bashrc')).toBeUndefined();
+      expect(pathUtils.extname('Makefile')).toBeUndefined();
+    });
+  });
+
+  describe('isWithin', () => {
+    it('should detect descendants without matching name prefixes', () => {
+      expect(pathUtils.isWithin('/Documents/Notes', '/Documents')).toBe(true);
+      expect(pathUtils.isWithin('/Documents', '/Documents')).toBe(true);
+      expect(pathUtils.isWithin('/DocumentsOld', '/Documents')).toBe(false);
+      expect(pathUtils.isWithin('/anything', '/')).toBe(true);
+    });
+  });
+
+  describe('validateName', () => {
+    it('should accept regular names', () => {
+      expect(pathUtils.validateName('My Notes (2).md')).toBeNull();
+    });
+
+    it('should reject empty, reserved and invalid names', () => {
+      expect(pathUtils.validateName('')).not.toBeNull();
+      expect(pathUtils.validateName('..')).not.toBeNull();
+      expect(pathUtils.validateName('a/b')).not.toBeNull();
+      expect(pathUtils.validateName(' padded ')).not.toBeNull();
+      expect(pathUtils.validateName('x'.repeat(256))).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runShell } from '../shellInterpreter';
+import { expandHistory } from '../shellCommands';
+import type { TerminalContext } from '../../types';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+const createMockContext = (commands: string[] = []): TerminalContext => createTestTerminalContext({
+  cwd: '/Documents',
+  getCommandHistory: () => commands,
+  clearCommandHistory: vi.fn(() => {
+    commands.length = 0;
+  }),
+});
+
+const text = (outputs: { content: unknown }[]) => outputs.map(output => output.content).join('\n');
+
+describe('shell commands', () => {
+  let context: TerminalContext;
+  const print = async (source: string) => text((await runShell(source, context)).outputs);
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    context = createMockContext();
+  });
+
+  describe('export, unset and env', () => {
+    it('should export variables to env', async () => {
+      expect(await print("LOCAL=1; export NAME='a b'; export LOCAL; env | grep -E 'NAME|LOCAL'")).toBe('LOCAL=1\nNAME=a b');
+      expect(await print('export | grep NAME')).toBe("export NAME='a b'");
+      expect(await print('printenv HOME')).toBe('/');
+    });
+
+    it('should reject invalid names and remove variables', async () => {
+      expect(await print('export 1x=2')).toBe("export: '1x=2': not a valid identifier");
+      await print('export GONE=1; unset GONE');
+      expect(context.env.get('GONE')).toBeUndefined();
+      expect(await print('printenv GONE; echo $?')).toBe('1');
+    });
+  });
+
+  describe('alias and unalias', () => {
+    it('should define, list and remove aliases', async () => {
+      expect(await print("alias hi='echo hello'; hi there; alias")).toBe("hello there\nalias hi='echo hello'");
+      expect(await print('unalias hi; hi')).toBe("Command 'hi' not found. Type 'help' to see available commands.");
+      expect(await print('unalias hi')).toBe('unalias: hi: not found');
+    });
+  });
+
+  describe('source and sh', () => {
+    beforeEach(() => {
+      virtualFileSystem.createFile('/Documents/setup.sh', 'GREETING=hi\nalias greet="echo $GREETING"\ncd /Projects\n');
+      virtualFileSystem.createFile('/Documents/args.sh', 'echo "$0 got $# args: $1 and $2"\n[ -n "$SECRET" ] && echo secret $SECRET\nexit_code=3\n');
+    });
+
+    it('should keep variables, aliases and the folder after source', async () => {
+      expect(await print('source setup.sh; greet')).toBe('hi');
+      expect(context.cwd).toBe('/Projects');
+    });
+
+    it('should isolate scripts run with sh', async () => {
+      expect(await print('sh setup.sh; echo "[$GREETING]"; pwd')).toBe('[]\n/Documents');
+      expect(context.env.getAlias('greet')).toBeUndefined();
+    });
+
+    it('should pass arguments and exported variables to scripts', async () => {
+      expect(await print('SECRET=x; ./args.sh one two')).toBe('./args.sh got 2 args: one and two');
+      expect(await print('export SECRET=x; sh args.sh one')).toBe('args.sh got 1 args: one and \nsecret x');
+    });
+
+    it('should run a command string with -c', async () => {
+      expect(await print("sh -c 'echo $1-$2' _ a b")).toBe('a-b');
+      expect(await print("sh -c 'cd /Projects; pwd'; pwd")).toBe('/Projects\n/Documents');
+      expect(await print('sh missing.sh')).toBe('sh: missing.sh: No such file or folder');
+    });
+
+    it('should run the startup script from the factory image', async () => {
+      expect(await print('source ~/.portfoliorc; alias ll; echo $EDITOR')).toBe("alias ll='ls -la'\nnotepad");
+    });
+  });
+
+  describe('test', () => {
+    it('should check files, strings and numbers', async () => {
+      await print('touch empty.txt');
+      expect(await print('[ -f empty.txt ] && echo file; [ -d /Projects ] && echo folder; [ -s empty.txt ] || echo empty')).toBe('file\nfolder\nempty');
+      expect(await print('test 10 -gt 9 -a abc != abd && echo yes; [ ! -z "" ] || echo no')).toBe('yes\nno');
+    });
+
+    it('should report malformed expressions', async () => {
+      expect(await print('[ a -gt 1 ]')).toBe('[: a: integer expression expected');
+    });
+  });
+
+  describe('history', () => {
+    it('should number the commands entered so far', async () => {
+      context = createMockContext(['ls', 'cd /Projects', 'pwd']);
+
+      expect(await print('history')).toBe('  1  ls\n  2  cd /Projects\n  3  pwd');
+      expect(await print('history 1')).toBe('  3  pwd');
+      expect(await print('history -c; history')).toBe('');
+      expect(context.clearCommandHistory).toHaveBeenCalled();
+    });
+
+    it('should expand history references', () => {
+      const commands = ['ls -la', 'cd /Projects', 'echo done'];
+
+      expect(expandHistory('!!', commands)).toBe('echo done');
+      expect(expandHistory('sudo !1 && !-2', commands)).toBe('sudo ls -la && cd /Projects');
+      expect(expandHistory('!cd; !ec', commands)).toBe('cd /Projects; echo done');
+      expect(expandHistory("echo '!!' \\!! \"wow!\" [ ! -z x ] a!=b", commands)).toBe("echo '!!' \\!! \"wow!\" [ ! -z x ] a!=b");
+      expect(() => expandHistory('!9', commands)).toThrow('!9: event not found');
+      expect(() => expandHistory('!nope', commands)).toThrow('!nope: event not found');
+    });
+  });
+
+  describe('edit', () => {
+    it('should create the file and open it in Notepad', async () => {
+      expect(await print('edit notes.txt')).toBe('Opening /Documents/notes.txt in Notepad...');
+      expect(virtualFileSystem.exists('/Documents/notes.txt')).toBe(true);
+      expect(context.openApp).toHaveBeenCalledWith('notepad', { launchData: { path: '/Documents/notes.txt' } });
+    });
+
+    it('should open the startup script by default', async () => {
+      await print('edit');
+      expect(context.openApp).toHaveBeenCalledWith('notepad', { launchData: { path: '/.portfoliorc' } });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runShell, ShellPipe } from '../shellInterpreter';
+import { findCommand } from '../terminalCommands';
+import type { TerminalCommand } from '../../types';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+// Test-only commands exercising stdin
+const upperCommand: TerminalCommand = {
+  id: 'upper',
+  name: 'upper',
+  description: 'Upper-case stdin',
+  usage: 'upper',
+  execute: async (_args, _context, io) => {
+    io?.stdout.write((await io.stdin.read()).toUpperCase());
+  },
+};
+
+const failCommand: TerminalCommand = {
+  id: 'fail',
+  name: 'fail',
+  description: 'Print to stderr and fail',
+  usage: 'fail',
+  execute: () => ({ type: 'error', content: 'it failed' }),
+};
+
+const lookup = (name: string) =>
+  [upperCommand, failCommand].find(command => command.name === name) ?? findCommand(name);
+
+const run = (source: string) => runShell(source, createTestTerminalContext(), { findCommand: lookup });
+
+const text = (outputs: { content: unknown }[]) => outputs.map(output => output.content).join('\n');
+
+describe('runShell', () => {
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+  });
+
+  it('should print command output to the terminal', async () => {
+    const result = await run('echo "hello   world"');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.outputs).toEqual([expect.objectContaining({ type: 'info', content: 'hello   world' })]);
+  });
+
+  it('should pipe stdout into the next command', async () => {
+    const result = await run('echo piped | upper');
+    expect(text(result.outputs)).toBe('PIPED');
+  });
+
+  it('should pipe returned outputs of existing commands', async () => {
+    const result = await run('theme | upper');
+    expect(text(result.outputs)).toBe('CURRENT THEME: DARK');
+  });
+
+  it('should redirect output to files, truncating or appending', async () => {
+    await run('echo first > /Documents/log.txt');
+    await run('echo second >> /Documents/log.txt');
+    expect(virtualFileSystem.readFile('/Documents/log.txt')).toBe('first\nsecond\n');
+
+    const result = await run('echo third > /Documents/log.txt');
+    expect(result.outputs).toEqual([]);
+    expect(virtualFileSystem.readFile('/Documents/log.txt')).toBe('third\n');
+  });
+
+  it('should keep trailing blank lines through pipes and redirections', async () => {
+    virtualFileSystem.createFile('/Documents/gaps.txt', 'a\n\nb\n');
+
+    expect(text((await run('cat /Documents/gaps.txt | head -n 2 | wc -l')).outputs)).toBe('2');
+    expect(text((await run('grep -v b /Documents/gaps.txt | sort | wc -l')).outputs)).toBe('2');
+
+    await run('head -n 2 /Documents/gaps.txt > /Documents/head.txt');
+    expect(virtualFileSystem.readFile('/Documents/head.txt')).toBe('a\n\n');
+
+    await run('sed 1d /Documents/gaps.txt | tail -n 2 > /Documents/tail.txt');
+    expect(virtualFileSystem.readFile('/Documents/tail.txt')).toBe('\nb\n');
+
+    await run('cat /Documents/head.txt > /Documents/copy.txt');
+    expect(virtualFileSystem.readFile('/Documents/copy.txt')).toBe('a\n\n');
+  });
+
+  it('should read stdin from a file', async () => {
+    virtualFileSystem.createFile('/Documents/in.txt', 'from file');
+    const result = await run('upper < /Documents/in.txt');
+    expect(text(result.outputs)).toBe('FROM FILE');
+  });
+
+  it('should report redirection errors', async () => {
+    const result = await run('upper < /Documents/missing.txt');
+
+    expect(result.exitCode).toBe(1);
+    expect(result.outputs[0].type).toBe('error');
+  });
+
+  it('should route errors to stderr and its redirections', async () => {
+    const shown = await run('fail > /Documents/out.txt');
+    expect(shown.outputs).toEqual([expect.objectContaining({ type: 'error', content: 'it failed' })]);
+
+    const hidden = await run('fail 2> /Documents/err.txt');
+    expect(hidden.outputs).toEqual([]);
+    expect(virtualFileSystem.readFile('/Documents/err.txt')).toBe('it failed\n');
+
+    await run('fail > /Documents/both.txt 2>&1');
+    expect(virtualFileSystem.readFile('/Documents/both.txt')).toBe('it failed\n');
+  });
+
+  it('should resolve redirections against the working directory', async () => {
+    await runShell('echo hi > note.txt', createTestTerminalContext({ cwd: '/Documents' }), { findCommand: lookup });
+    expect(virtualFileSystem.readFile('/Documents/note.txt')).toBe('hi\n');
+  });
+
+  it('should use exit codes for && and ||', async () => {
+    expect(text((await run('true && echo yes || echo no')).outputs)).toBe('yes');
+    expect(text((await run('false && echo yes || echo no')).outputs)).toBe('no');
+    expect((await run('false')).exitCode).toBe(1);
+    expect((await run('! false')).exitCode).toBe(0);
+    expect((await run('false; true')).exitCode).toBe(0);
+  });
+
+  it('should report unknown commands with exit code 127', async () => {
+    const result = await run('nope || echo recovered');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.outputs[0]).toMatchObject({ type: 'error', content: expect.stringContaining("Command 'nope' not found") });
+    expect(result.outputs[1].content).toBe('recovered');
+    expect((await run('nope')).exitCode).toBe(127);
+  });
+
+  it('should expand variables, splitting unquoted values', async () => {
+    const context = createTestTerminalContext();
+    context.env.set('WORDS', 'one  two');
+
+    const result = await runShell('echo $WORDS | wc -w; echo "$WORDS"; echo ${MISSING:-fallback} \\$HOME ~', context);
+    expect(text(result.outputs)).toBe('2\none  two\nfallback $HOME /');
+  });
+
+  it('should assign variables and scope prefix assignments to one command', async () => {
+    const context = createTestTerminalContext();
+    const result = await runShell('NAME=world; echo hello $NAME; GREETING=hi sh -c \'echo $GREETING\'; echo "[$GREETING]"', context);
+
+    expect(text(result.outputs)).toBe('hello world\n\n[]');
+    expect(context.env.get('NAME')).toBe('world');
+  });
+
+  it('should expose the last exit code as $?', async () => {
+    expect(text((await run('false; echo $?; true; echo $?')).outputs)).toBe('1\n0');
+  });
+
+  it('should run if, for and while blocks', async () => {
+    const context = createTestTerminalContext();
+    const script = [
+      'for n in 1 2 3; do',
+      '  if [ $n -eq 2 ]; then echo two; else echo $n; fi',
+      'done',
+      'count=0',
+      'while [ $count != 3 ]; do count=$count$count; [ $count = 00 ] && count=3; done',
+      'echo done $count',
+    ].join('\n');
+
+    expect(text((await runShell(script, context)).outputs)).toBe('1\ntwo\n3\ndone 3');
+  });
+
+  it('should stop runaway loops', async () => {
+    const result = await run('while true; do true; done');
+
+    expect(result.exitCode).toBe(1);
+    expect(text(result.outputs)).toContain('loop stopped after');
+  });
+
+  it('should expand aliases with their arguments', async () => {
+    const context = createTestTerminalContext();
+    context.env.setAlias('greet', 'echo hey');
+    expect(text((await runShell('greet there | upper', context, { findCommand: lookup })).outputs)).toBe('HEY THERE');
+
+    context.env.setAlias('echo', 'echo aliased');
+    expect(text((await runShell('echo x; \\echo y', context)).outputs)).toBe('aliased x\ny');
+  });
+
+  it('should keep colors and links on the terminal but not in pipes and files', async () => {
+    const context = createTestTerminalContext();
+    const colored = "echo '\x1b[31mred\x1b[0m'";
+
+    expect(text((await runShell(colored, context)).outputs)).toBe('\x1b[31mred\x1b[0m');
+    expect(text((await runShell(`${colored} | upper`, context, { findCommand: lookup })).outputs)).toBe('RED');
+
+    await runShell(`${colored} > /Documents/colors.txt`, context);
+    expect(virtualFileSystem.readFile('/Documents/colors.txt')).toBe('red\n');
+  });
+
+  it('should stream output and stop when aborted', async () => {
+    const controller = new AbortController();
+    const onOutput = vi.fn((outputs: { content: unknown }[]) => {
+      if (text(outputs) === 'start') controller.abort('SIGINT');
+    });
+
+    const result = await runShell('echo start; for n in 1 2; do sleep 10; echo $n; done', createTestTerminalContext(), {
+      signal: controller.signal,
+      onOutput,
+    });
+
+    expect(result.exitCode).toBe(130);
+    expect(text(result.outputs)).toBe('start');
+    expect(onOutput).toHaveBeenCalled();
+  });
+
+  it('should start commands followed by & as background jobs', async () => {
+    const context = createTestTerminalContext();
+    const onOutput = vi.fn();
+    const result = await runShell('sleep 0.01 && echo later & echo now', context, { onOutput });
+    const [job] = context.jobs.list();
+
+    expect(text(result.outputs)).toBe(`[${job.number}] ${job.pid}\nnow`);
+    expect(job.command).toBe('sleep 0.01 && echo later');
+
+    // The job keeps writing to the line that started it
+    expect(await context.jobs.wait(job.pid)).toBe(0);
+    await Promise.resolve();
+    expect(text(onOutput.mock.lastCall![0])).toBe(`[${job.number}] ${job.pid}\nnow\nlater`);
+  });
+
+  it('should report syntax errors', async () => {
+    const result = await run('echo "unterminated');
+
+    expect(result.exitCode).toBe(2);
+    expect(result.outputs[0].content).toBe('Syntax error: Unterminated double quote');
+  });
+});
+
+describe('ShellPipe', () => {
+  it('should stream chunks to a reader until closed', async () => {
+    const pipe = new ShellPipe();
+    const chunks: string[] = [];
+    const reading = (async () => {
+      for await (const chunk of pipe) chunks.push(chunk);
+    })();
+
+    pipe.write('a');
+    pipe.write('b');
+    pipe.close();
+    pipe.write('ignored');
+    await reading;
+
+    expect(chunks).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { shellParser, ShellSyntaxError } from '../shellParser';
+import type { ShellBackground, ShellFor, ShellIf, ShellPipeline, ShellLogical, ShellWhile, ShellWord } from '../shellParser';
+
+const words = (source: string) =>
+  shellParser.tokenize(source).map(token =>
+    token.type === 'word' ? shellParser.wordToString(token.word) : token.type === 'operator' ? token.value : token.type
+  );
+
+const text = (word: ShellWord) => shellParser.wordToString(word);
+
+describe('shellParser', () => {
+  describe('tokenize', () => {
+    it('should split words and operators', () => {
+      expect(words('projects list | grep react > out.txt')).toEqual([
+        'projects', 'list', '|', 'grep', 'react', '>', 'out.txt',
+      ]);
+      expect(words('a&&b||c;d>>e')).toEqual(['a', '&&', 'b', '||', 'c', ';', 'd', '>>', 'e']);
+    });
+
+    it('should honour single quotes, double quotes and backslashes', () => {
+      expect(words(`echo 'a | b' "say \\"hi\\"" one\\ arg`)).toEqual(['echo', 'a | b', 'say "hi"', 'one arg']);
+      expect(words(`echo "it's" '"quoted"'`)).toEqual(['echo', "it's", '"quoted"']);
+    });
+
+    it('should keep how each part of a word was quoted', () => {
+      const [, token] = shellParser.tokenize(`echo pre'single'"double"`);
+      expect(token.type === 'word' && token.word.parts).toEqual([
+        { text: 'pre', quote: 'none' },
+        { text: 'single', quote: 'single' },
+        { text: 'double', quote: 'double' },
+      ]);
+    });
+
+    it('should keep escaped dollar signs literal', () => {
+      const [, token] = shellParser.tokenize('echo "cost: \\$5"');
+      expect(token.type === 'word' && token.word.parts).toEqual([
+        { text: 'cost: ', quote: 'double' },
+        { text: '$', quote: 'single' },
+        { text: '5', quote: 'double' },
+      ]);
+    });
+
+    it('should skip comments', () => {
+      expect(words('echo hi # not an argument')).toEqual(['echo', 'hi']);
+      expect(words('echo a#b')).toEqual(['echo', 'a#b']);
+    });
+
+    it('should read numbers before redirections as file descriptors', () => {
+      const tokens = shellParser.tokenize('cmd 2>&1 2 > file');
+      expect(tokens.map(token => token.type)).toEqual(['word', 'io-number', 'operator', 'word', 'word', 'operator', 'word']);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => shellParser.tokenize('echo "open')).toThrow(ShellSyntaxError);
+      expect(() => shellParser.tokenize("echo 'open")).toThrow('Unterminated single quote');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse a pipeline with redirections', () => {
+      const script = shellParser.parse('projects list | grep react > /Documents/react.txt');
+      const pipeline = script.commands[0] as ShellPipeline;
+
+      expect(pipeline.type).toBe('pipeline');
+      expect(pipeline.commands.map(command => command.words.map(text))).toEqual([
+        ['projects', 'list'],
+        ['grep', 'react'],
+      ]);
+      expect(pipeline.commands[1].redirects).toEqual([
+        { fd: 1, operator: '>', target: { parts: [{ text: '/Documents/react.txt', quote: 'none' }] } },
+      ]);
+    });
+
+    it('should make && and || left-associative', () => {
+      const script = shellParser.parse('a && b || c');
+      const node = script.commands[0] as ShellLogical;
+
+      expect(node.operator).toBe('||');
+      expect((node.left as ShellLogical).operator).toBe('&&');
+      expect(node.right.commands[0].words.map(text)).toEqual(['c']);
+    });
+
+    it('should split sequences on semicolons and newlines', () => {
+      expect(shellParser.parse('a; b\nc;').commands).toHaveLength(3);
+      expect(shellParser.parse('  ').commands).toEqual([]);
+    });
+
+    it('should run commands followed by & in the background', () => {
+      const script = shellParser.parse('sleep 5 && echo done & echo now');
+      const background = script.commands[0] as ShellBackground;
+
+      expect(script.commands).toHaveLength(2);
+      expect(background.type).toBe('background');
+      expect(background.source).toBe('sleep 5 && echo done');
+      expect((background.command as ShellLogical).operator).toBe('&&');
+      expect(shellParser.parse('sleep 1 &\n').commands[0].type).toBe('background');
+    });
+
+    it('should parse negated pipelines and file descriptor redirections', () => {
+      const pipeline = shellParser.parse('! cmd < in.txt 2>> err.log').commands[0] as ShellPipeline;
+
+      expect(pipeline.negated).toBe(true);
+      expect(pipeline.commands[0].redirects.map(({ fd, operator }) => [fd, operator])).toEqual([
+        [0, '<'],
+        [2, '>>'],
+      ]);
+    });
+
+    it('should parse if, elif and else blocks', () => {
+      const script = shellParser.parse('if test -f a; then echo a; elif false; then echo b; else\n echo c\nfi > out.txt');
+      const command = (script.commands[0] as ShellPipeline).commands[0] as ShellIf;
+
+      expect(command.type).toBe('if');
+      expect(command.clauses).toHaveLength(2);
+      expect(command.elseBody?.commands).toHaveLength(1);
+      expect(command.redirects.map(redirect => text(redirect.target))).toEqual(['out.txt']);
+    });
+
+    it('should parse for and while loops', () => {
+      const loop = (shellParser.parse('for name in a "b c"; do echo $name; done').commands[0] as ShellPipeline).commands[0] as ShellFor;
+      expect(loop.variable).toBe('name');
+      expect(loop.items?.map(text)).toEqual(['a', 'b c']);
+
+      const pipeline = shellParser.parse('until false\ndo echo x; done | head -1').commands[0] as ShellPipeline;
+      expect((pipeline.commands[0] as ShellWhile).until).toBe(true);
+      expect(pipeline.commands).toHaveLength(2);
+    });
+
+    it('should only treat unquoted reserved words at command start as keywords', () => {
+      const pipeline = shellParser.parse('echo if then "fi"').commands[0] as ShellPipeline;
+      expect(pipeline.commands[0].type).toBe('command');
+      expect(() => shellParser.parse('fi')).toThrow("Unexpected token 'fi'");
+      expect(() => shellParser.parse('if true; then echo x')).toThrow('Unexpected end of input');
+      expect(() => shellParser.parse('while; do echo; done')).toThrow("Unexpected token 'do'");
+    });
+
+    it('should report misplaced operators', () => {
+      expect(() => shellParser.parse('| grep x')).toThrow("Unexpected token '|'");
+      expect(() => shellParser.parse('echo hi &&')).toThrow('Unexpected end of input');
+      expect(() => shellParser.parse('echo >')).toThrow("Expected a file name after '>'");
+      expect(() => shellParser.parse('& echo hi')).toThrow("Unexpected token '&'");
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { shortcutUtils } from '../shortcutUtils';
+
+describe('shortcutUtils', () => {
+  it('should round-trip shortcut targets', () => {
+    const target = { appId: 'projects' as const, data: { slug: 'portfolio' } };
+
+    expect(shortcutUtils.parse(shortcutUtils.stringify(target))).toEqual(target);
+    expect(shortcutUtils.parse('{"appId": "about"}')).toEqual({ appId: 'about' });
+  });
+
+  it('should reject content that is not a shortcut', () => {
+    expect(shortcutUtils.parse('Shortcut to Projects application')).toBeNull();
+    expect(shortcutUtils.parse('{"data": {}}')).toBeNull();
+    expect(shortcutUtils.parse('{"appId": "about", "data": [1]}')).toBeNull();
+    expect(shortcutUtils.parse('null')).toBeNull();
+  });
+
+  it('should recognise shortcut paths', () => {
+    expect(shortcutUtils.isShortcutPath('/Desktop/About.LNK')).toBe(true);
+    expect(shortcutUtils.isShortcutPath('/Desktop/About.txt')).toBe(false);
+  });
+});
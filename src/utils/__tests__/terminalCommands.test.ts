@@ -7,36 +7,32 @@ import {
   getAutocompleteSuggestions
 } from '../terminalCommands';
 import type { TerminalContext } from '../../types';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { createTestTerminalContext } from '../../test/terminalContext';
 
 // Mock terminal context
-const createMockContext = (): TerminalContext => ({
-  openApp: vi.fn(),
-  getProjects: vi.fn(async () => [
-    {
-      slug: 'test-project',
-      title: 'Test Project',
-      summary: 'A test project',
-      description: 'Test description',
-      year: 2024,
-      role: 'Developer',
-      tech: ['React', 'TypeScript'],
-      type: 'web' as const,
-      featured: true,
-      complexity: 3,
-    }
-  ]),
-  getTheme: vi.fn(() => 'dark'),
-  setTheme: vi.fn(),
-  getWallpaper: vi.fn(() => 'default.jpg'),
-  setWallpaper: vi.fn(),
-});
+const projects = [
+  {
+    slug: 'test-project',
+    title: 'Test Project',
+    summary: 'A test project',
+    description: 'Test description',
+    year: 2024,
+    role: 'Developer',
+    tech: ['React', 'TypeScript'],
+    type: 'web' as const,
+    featured: true,
+    complexity: 3,
+  }
+];
 
 describe('terminalCommands', () => {
   let mockContext: TerminalContext;
 
-  beforeEach(() => {
-    mockContext = createMockContext();
+  beforeEach(async () => {
+    mockContext = createTestTerminalContext({ getProjects: vi.fn(async () => projects) });
     vi.clearAllMocks();
+    await virtualFileSystem.resetToFactoryImage();
   });
 
   describe('parseCommand', () => {
@@ -61,6 +57,11 @@ describe('terminalCommands', () => {
       });
     });
 
+    it('should remove quotes from arguments', () => {
+      const result = parseCommand(`echo "two words" 'and more'`);
+      expect(result).toEqual({ command: 'echo', args: ['two words', 'and more'] });
+    });
+
     it('should handle empty input', () => {
       const result = parseCommand('');
       expect(result).toEqual({ command: '', args: [] });
@@ -307,12 +308,31 @@ describe('terminalCommands', () => {
     });
   });
 
+  describe('echo command', () => {
+    it('should write its arguments to stdout', () => {
+      const stdout = { write: vi.fn() };
+      const command = findCommand('echo');
+      command?.execute(['-n', 'hello', 'world'], mockContext, {
+        stdin: { read: async () => '', [Symbol.asyncIterator]: vi.fn() },
+        stdout,
+        stderr: { write: vi.fn() },
+      });
+
+      expect(stdout.write).toHaveBeenCalledWith('hello world');
+    });
+  });
+
   describe('getAutocompleteSuggestions', () => {
     it('should suggest commands for partial input', async () => {
       const suggestions = await getAutocompleteSuggestions('he', mockContext);
       expect(suggestions).toContain('help');
     });
 
+    it('should complete the command after a pipe', async () => {
+      const suggestions = await getAutocompleteSuggestions('projects list | ec', mockContext);
+      expect(suggestions).toEqual(['echo']);
+    });
+
     it('should suggest project subcommands', async () => {
       const suggestions = await getAutocompleteSuggestions('projects ', mockContext);
       expect(suggestions).toEqual(['list', 'open', 'filter']);
@@ -353,6 +373,15 @@ describe('terminalCommands', () => {
       expect(suggestions).toContain('projects');
     });
 
+    it('should complete paths for file commands', async () => {
+      virtualFileSystem.createFolder('/Documents/My Notes');
+      virtualFileSystem.createFile('/Documents/todo.txt', '');
+
+      expect(await getAutocompleteSuggestions('cat /Documents/My', mockContext)).toEqual(['/Documents/My\\ Notes/']);
+      expect(await getAutocompleteSuggestions('cat /Documents/to', mockContext)).toEqual(['/Documents/todo.txt']);
+      expect(await getAutocompleteSuggestions('cd /Documents/', mockContext)).not.toContain('/Documents/todo.txt');
+    });
+
     it('should return empty array for unknown commands', async () => {
       const suggestions = await getAutocompleteSuggestions('unknown ', mockContext);
       expect(suggestions).toEqual([]);
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runShell } from '../shellInterpreter';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+const projects = [
+  { slug: 'portfolio-os', title: 'Portfolio OS', summary: '', description: '', year: 2024, role: 'Developer', tech: ['React', 'TypeScript'], type: 'web' as const, featured: true, complexity: 4 },
+  { slug: 'weather', title: 'Weather', summary: '', description: '', year: 2022, role: 'Developer', tech: ['Vue'], type: 'web' as const, featured: false, complexity: 2 },
+];
+
+const text = (outputs: { content: unknown }[]) => outputs.map(output => output.content).join('\n');
+
+describe('text commands', () => {
+  const run = async (source: string) => runShell(source, createTestTerminalContext({ cwd: '/Documents', getProjects: vi.fn(async () => projects) }));
+  const print = async (source: string) => text((await run(source)).outputs);
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    virtualFileSystem.createFile('/Documents/fruit.txt', 'banana\napple\ncherry\napple\nBanana\n');
+    virtualFileSystem.createFile('/Documents/numbers.txt', '10\n9\n100\n');
+  });
+
+  describe('grep', () => {
+    it('should match regular expressions in files', async () => {
+      expect(await print('grep an fruit.txt')).toBe('banana\nBanana');
+      expect(await print('grep -in "^b" fruit.txt')).toBe('1:banana\n5:Banana');
+      expect(await print('grep -vc apple fruit.txt')).toBe('3');
+    });
+
+    it('should filter piped output', async () => {
+      expect(await print('projects list | grep -o "weather"')).toBe('weather');
+    });
+
+    it('should prefix names with several files', async () => {
+      expect(await print('grep -l 0 fruit.txt numbers.txt')).toBe('numbers.txt');
+      expect(await print('grep 100 fruit.txt numbers.txt')).toBe('numbers.txt:100');
+    });
+
+    it('should search folders with -r', async () => {
+      expect(await print('grep -r cherry .')).toBe('fruit.txt:cherry');
+    });
+
+    it('should exit with 1 when nothing matches', async () => {
+      const result = await run('grep kiwi fruit.txt');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.outputs).toEqual([]);
+    });
+
+    it('should report invalid expressions', async () => {
+      expect(await print('grep "(" fruit.txt')).toBe("grep: invalid regular expression '('");
+    });
+  });
+
+  describe('wc', () => {
+    it('should count lines, words and characters', async () => {
+      expect(await print('wc fruit.txt')).toBe(' 5  5 33 fruit.txt');
+      expect(await print('cat fruit.txt | wc -l')).toBe('5');
+      expect(await print('wc -l fruit.txt numbers.txt')).toBe('5 fruit.txt\n3 numbers.txt\n8 total');
+    });
+  });
+
+  describe('head and tail', () => {
+    it('should print the first and last lines', async () => {
+      expect(await print('head -n 2 fruit.txt')).toBe('banana\napple');
+      expect(await print('head -1 fruit.txt')).toBe('banana');
+      expect(await print('tail -n 2 fruit.txt')).toBe('apple\nBanana');
+      expect(await print('tail -n +4 fruit.txt')).toBe('apple\nBanana');
+    });
+
+    it('should add headers for several files', async () => {
+      expect(await print('head -n 1 fruit.txt numbers.txt')).toBe('==> fruit.txt <==\nbanana\n\n==> numbers.txt <==\n10');
+    });
+  });
+
+  describe('sort and uniq', () => {
+    it('should sort lines', async () => {
+      expect(await print('sort numbers.txt')).toBe('10\n100\n9');
+      expect(await print('sort -n numbers.txt')).toBe('9\n10\n100');
+      expect(await print('sort -rn numbers.txt')).toBe('100\n10\n9');
+      expect(await print('sort -fu fruit.txt')).toBe('apple\nbanana\ncherry');
+    });
+
+    it('should sort by field', async () => {
+      virtualFileSystem.createFile('/Documents/people.csv', 'ann,30\nbob,25\n');
+      expect(await print('sort -t , -k 2 -n people.csv')).toBe('bob,25\nann,30');
+    });
+
+    it('should count adjacent duplicates', async () => {
+      expect(await print('sort fruit.txt | uniq -c')).toBe('      1 Banana\n      2 apple\n      1 banana\n      1 cherry');
+      expect(await print('sort -f fruit.txt | uniq -di')).toBe('apple\nbanana');
+    });
+  });
+
+  describe('sed', () => {
+    it('should substitute with groups and flags', async () => {
+      expect(await print("echo 'a-b-c' | sed 's/-/+/'")).toBe('a+b-c');
+      expect(await print("echo 'a-b-c' | sed 's/-/+/g'")).toBe('a+b+c');
+      expect(await print("echo 'John Smith' | sed -E 's/(\\w+) (\\w+)/\\2, \\1 [&]/'")).toBe('Smith, John [John Smith]');
+    });
+
+    it('should delete and print addressed lines', async () => {
+      expect(await print("sed '/apple/d' fruit.txt")).toBe('banana\ncherry\nBanana');
+      expect(await print("sed -n '2,3p' fruit.txt")).toBe('apple\ncherry');
+      expect(await print("sed '$d; 1d' fruit.txt")).toBe('apple\ncherry\napple');
+      expect(await print("sed 2q fruit.txt")).toBe('banana\napple');
+    });
+
+    it('should edit files in place', async () => {
+      await run("sed -i 's/apple/pear/g' fruit.txt");
+      expect(virtualFileSystem.readFile('/Documents/fruit.txt')).toBe('banana\npear\ncherry\npear\nBanana\n');
+    });
+
+    it('should report invalid scripts', async () => {
+      expect(await print("sed 'x' fruit.txt")).toBe("sed: unknown command: `x'");
+    });
+  });
+
+  describe('jq', () => {
+    it('should query JSON from --json commands', async () => {
+      expect(await print("projects list --json | jq -r '.[] | select(.featured) | .slug'")).toBe('portfolio-os');
+      expect(await print("projects --json | jq -c 'map({slug, year})'")).toBe('[{"slug":"portfolio-os","year":2024},{"slug":"weather","year":2022}]');
+      expect(await print("system info --json | jq -r .theme")).toBe('dark');
+    });
+
+    it('should read JSON files and lines', async () => {
+      virtualFileSystem.createFile('/Documents/events.jsonl', '{"n":1}\n{"n":2}\n');
+      expect(await print('jq .n events.jsonl')).toBe('1\n2');
+      expect(await print("jq -s 'map(.n) | add' events.jsonl")).toBe('3');
+    });
+
+    it('should report invalid input', async () => {
+      expect(await print('echo nope | jq .')).toMatch(/^jq: invalid JSON input/);
+    });
+  });
+});
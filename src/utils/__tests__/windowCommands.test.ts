@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { runShell } from '../shellInterpreter';
+import { ansi } from '../ansi';
+import type { TerminalContext } from '../../types';
+import { virtualFileSystem } from '../../services/virtualFileSystem';
+import { initWindowStore, useWindowStore } from '../../store/windowStore';
+import { createTestTerminalContext } from '../../test/terminalContext';
+
+const text = (outputs: { content: unknown }[]) => ansi.strip(outputs.map(output => output.content).join('\n'));
+
+const getWindow = (id: string) => useWindowStore.getState().windows[id];
+
+describe('window commands', () => {
+  let context: TerminalContext;
+  let terminal: string;
+  let notepad: string;
+  let disconnect: () => void;
+  const print = async (source: string) => text((await runShell(source, context)).outputs);
+
+  beforeEach(async () => {
+    await virtualFileSystem.resetToFactoryImage();
+    useWindowStore.setState({ windows: {}, zOrder: [], dragState: null, resizeState: null, nextZIndex: 1 });
+    disconnect = initWindowStore();
+    notepad = useWindowStore.getState().createWindow('notepad', { title: 'Untitled - Notepad' });
+    terminal = useWindowStore.getState().createWindow('terminal', { title: 'Terminal' });
+    context = createTestTerminalContext({ windowId: terminal, cwd: '/Documents' });
+  });
+
+  afterEach(() => {
+    disconnect();
+  });
+
+  describe('ps', () => {
+    it('should list windows back to front', async () => {
+      const lines = (await print('ps')).split('\n');
+
+      expect(lines[0]).toMatch(/^ID +APP +STATE +TITLE$/);
+      expect(lines[2]).toMatch(new RegExp(`^${notepad} +notepad +normal +Untitled - Notepad$`));
+      expect(lines[3]).toMatch(new RegExp(`^${terminal} +terminal +focused +Terminal$`));
+    });
+  });
+
+  describe('wm', () => {
+    it('should move, resize and focus windows by ID, prefix or .', async () => {
+      expect(await print(`wm move ${notepad} 40 60`)).toBe('');
+      expect(await print('wm resize notepad 500 10')).toBe('');
+      expect(getWindow(notepad).bounds).toEqual({ x: 40, y: 60, w: 500, h: 240 });
+
+      await print('wm focus notepad');
+      expect(getWindow(notepad).focused).toBe(true);
+      await print('wm focus .');
+      expect(getWindow(terminal).focused).toBe(true);
+    });
+
+    it('should snap, maximize, minimize and restore windows', async () => {
+      const bounds = getWindow(notepad).bounds;
+
+      await print('wm snap notepad left');
+      expect(getWindow(notepad)).toMatchObject({ snapState: 'left', bounds: { x: 0, y: 0, w: window.innerWidth / 2 } });
+      await print('wm snap notepad max');
+      expect(getWindow(notepad).maximized).toBe(true);
+      await print('wm minimize notepad');
+      expect(getWindow(notepad).minimized).toBe(true);
+
+      await print('wm restore notepad');
+      expect(getWindow(notepad)).toMatchObject({ minimized: false, maximized: false, snapState: null, bounds });
+    });
+
+    it('should snap to quarters and tile the workspace', async () => {
+      await print('wm snap notepad bottom-right');
+      expect(getWindow(notepad)).toMatchObject({ snapState: 'bottom-right', bounds: { x: window.innerWidth / 2 } });
+
+      await print('wm tile master');
+      expect(useWindowStore.getState().tilingMode).toBe('master-stack');
+      expect(getWindow(terminal).bounds).toMatchObject({ x: 0, y: 0, w: Math.floor(window.innerWidth * 0.6) });
+
+      await print('wm tile off');
+      expect(getWindow(terminal).bounds).toEqual({ x: 100, y: 100, w: 800, h: 600 });
+    });
+
+    it('should print windows as JSON', async () => {
+      await print('wm maximize notepad');
+      const windows = JSON.parse(await print('wm list --json'));
+
+      expect(windows.map((window: { id: string }) => window.id)).toEqual([notepad, terminal]);
+      expect(windows[0]).toMatchObject({ appId: 'notepad', state: 'maximized', focused: false });
+    });
+
+    it('should report bad windows and arguments', async () => {
+      expect(await print('wm move nope 1 1')).toBe('wm move: nope: no such window');
+      expect(await print('wm move notepad 1')).toBe('wm move: missing y');
+      expect(await print('wm resize notepad wide 1')).toBe("wm resize: invalid number 'wide'");
+      expect(await print('wm snap notepad top')).toMatch(/^wm snap: invalid zone 'top'; use one of left, right, top-left, .*, max$/);
+      expect(await print('wm tile spiral')).toBe("wm tile: invalid mode 'spiral'; use grid, master or off");
+      expect(await print('wm spin notepad')).toBe("wm: unknown subcommand 'spin'. Use 'wm --help' for usage.");
+    });
+  });
+
+  describe('wm layout', () => {
+    it('should save windows and bring them back as they were', async () => {
+      await print(`wm move ${notepad} 10 20; wm snap . right; wm layout save scene.json`);
+      const saved = JSON.parse(virtualFileSystem.readFile('/Documents/scene.json'));
+      expect(saved.windows.map((window: { appId: string }) => window.appId)).toEqual(['notepad', 'terminal']);
+
+      // Rearrange and close the notepad, then load the scene again
+      await print('wm restore .; wm move . 300 200');
+      useWindowStore.getState().closeWindow(notepad, true);
+      expect(await print('wm layout load scene.json')).toBe('Restored 2 windows from /Documents/scene.json');
+
+      const [reopened, terminalWindow] = context.windows.list();
+      expect(reopened).toMatchObject({ appId: 'notepad', title: 'Untitled - Notepad', bounds: { x: 10, y: 20 } });
+      expect(terminalWindow).toMatchObject({ id: terminal, snapState: 'right', focused: true });
+    });
+
+    it('should reject files that are not layouts', async () => {
+      virtualFileSystem.writeFile('/Documents/bad.json', '{"windows": [{}]}');
+
+      expect(await print('wm layout load bad.json')).toBe('wm layout load: /Documents/bad.json: not a window layout');
+      expect(await print('wm layout load missing.json')).toMatch(/^wm layout load: /);
+      expect(await print('wm layout')).toBe("wm layout: unknown action ''; use save or load");
+    });
+  });
+
+  describe('kill', () => {
+    it('should close windows, and force it with SIGKILL when they have unsaved changes', async () => {
+      useWindowStore.getState().updateWindowUnsavedState(notepad, true);
+
+      expect(await print('kill notepad')).toBe('kill: notepad: window has unsaved changes; use kill -9 to close it anyway');
+      expect(getWindow(notepad)).toBeDefined();
+
+      expect(await print('kill -9 notepad')).toBe('');
+      expect(getWindow(notepad)).toBeUndefined();
+      expect(await print('kill notepad')).toBe('kill: notepad: arguments must be process, job or window IDs');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { windowRuleUtils } from '../windowRuleUtils';
+import type { WindowRule } from '../../types';
+
+const rule = (overrides: Partial<WindowRule>): WindowRule => ({
+  id: 'rule',
+  enabled: true,
+  match: {},
+  ...overrides,
+});
+
+describe('windowRuleUtils', () => {
+  describe('matches', () => {
+    it('should match on app and on part of the title, ignoring case', () => {
+      const window = { appId: 'notepad' as const, title: 'Notes.md - Notepad' };
+
+      expect(windowRuleUtils.matches(rule({ match: { appId: 'notepad' } }), window)).toBe(true);
+      expect(windowRuleUtils.matches(rule({ match: { title: 'notes.MD' } }), window)).toBe(true);
+      expect(windowRuleUtils.matches(rule({ match: { appId: 'notepad', title: 'todo' } }), window)).toBe(false);
+      expect(windowRuleUtils.matches(rule({ match: { appId: 'terminal' } }), window)).toBe(false);
+    });
+
+    it('should match every window without conditions, unless disabled', () => {
+      const window = { appId: 'terminal' as const, title: 'Terminal' };
+
+      expect(windowRuleUtils.matches(rule({}), window)).toBe(true);
+      expect(windowRuleUtils.matches(rule({ enabled: false }), window)).toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should let later rules override earlier ones and merge bounds by side', () => {
+      const rules = [
+        rule({ id: 'all', opacity: 0.9, bounds: { w: 600, h: 400 }, alwaysOnTop: true }),
+        rule({ id: 'terminal', match: { appId: 'terminal' }, opacity: 0.8, bounds: { h: 300, w: undefined }, edge: 'bottom' }),
+        rule({ id: 'notepad', match: { appId: 'notepad' }, singleInstance: true }),
+      ];
+
+      expect(windowRuleUtils.resolve(rules, { appId: 'terminal', title: 'Terminal' })).toEqual({
+        opacity: 0.8,
+        alwaysOnTop: true,
+        bounds: { w: 600, h: 300 },
+        edge: 'bottom',
+      });
+    });
+
+    it('should have no effects without matching rules', () => {
+      expect(windowRuleUtils.resolve([rule({ enabled: false, startMinimized: true })], { appId: 'about', title: 'About' }))
+        .toEqual({});
+    });
+  });
+});
@@ -184,6 +184,23 @@ describe('windowUtils', () => {
       });
     });
 
+    it('should return quarter and third bounds that share edges', () => {
+      expect(windowUtils.getSnapBounds('bottom-right', viewportWidth, viewportHeight)).toEqual({
+        x: 960,
+        y: availableHeight / 2,
+        w: 960,
+        h: availableHeight / 2,
+      });
+      expect(windowUtils.getSnapBounds('center-third', viewportWidth, viewportHeight)).toEqual({
+        x: 640,
+        y: 0,
+        w: 640,
+        h: availableHeight,
+      });
+      expect(windowUtils.getSnapBounds('left-two-thirds', 1000, viewportHeight).w)
+        .toBe(windowUtils.getSnapBounds('right-third', 1000, viewportHeight).x);
+    });
+
     it('should throw error for invalid snap state', () => {
       expect(() => {
         windowUtils.getSnapBounds('invalid' as any, viewportWidth, viewportHeight);
@@ -191,6 +208,101 @@ describe('windowUtils', () => {
     });
   });
 
+  describe('getEdgeBounds', () => {
+    const availableHeight = 1080 - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT;
+    const size = { w: 800, h: 600 };
+
+    it('should place windows against edges and corners', () => {
+      expect(windowUtils.getEdgeBounds('top-left', size, 1920, 1080)).toEqual({ x: 0, y: 0, w: 800, h: 600 });
+      expect(windowUtils.getEdgeBounds('right', size, 1920, 1080)).toEqual({
+        x: 1120, y: Math.floor((availableHeight - 600) / 2), w: 800, h: 600,
+      });
+      expect(windowUtils.getEdgeBounds('bottom', size, 1920, 1080)).toEqual({ x: 560, y: availableHeight - 600, w: 800, h: 600 });
+    });
+
+    it('should shrink windows larger than the desktop', () => {
+      expect(windowUtils.getEdgeBounds('center', { w: 2400, h: 1200 }, 1920, 1080)).toEqual({
+        x: 0, y: 0, w: 1920, h: availableHeight,
+      });
+    });
+  });
+
+  describe('getNextSnapState', () => {
+    it('should step through the halves and back to restored', () => {
+      expect(windowUtils.getNextSnapState(null, 'left')).toBe('left');
+      expect(windowUtils.getNextSnapState('left', 'left')).toBe('right');
+      expect(windowUtils.getNextSnapState('right', 'left')).toBeNull();
+      expect(windowUtils.getNextSnapState('left-third', 'left')).toBe('right-third');
+    });
+
+    it('should go from halves to quarters and between maximized, restored and minimized', () => {
+      expect(windowUtils.getNextSnapState('right', 'up')).toBe('top-right');
+      expect(windowUtils.getNextSnapState('top-right', 'down')).toBe('right');
+      expect(windowUtils.getNextSnapState(null, 'up')).toBe('maximized');
+      expect(windowUtils.getNextSnapState('maximized', 'down')).toBeNull();
+      expect(windowUtils.getNextSnapState(null, 'down')).toBe('minimized');
+    });
+
+    it('should keep the state when there is nowhere to go', () => {
+      expect(windowUtils.getNextSnapState('maximized', 'up')).toBe('maximized');
+      expect(windowUtils.getNextSnapState('top-left', 'up')).toBe('top-left');
+    });
+  });
+
+  describe('getOverviewLayout', () => {
+    it('should put windows that fit side by side at full size', () => {
+      const layout = windowUtils.getOverviewLayout([{ w: 800, h: 600 }, { w: 800, h: 600 }], 1920, 1000);
+
+      expect(layout).toEqual([
+        { x: 86, y: 200, w: 800, h: 600 },
+        { x: 1034, y: 200, w: 800, h: 600 },
+      ]);
+    });
+
+    it('should scale windows down to their cells and center a short last row', () => {
+      const layout = windowUtils.getOverviewLayout(
+        [{ w: 1600, h: 900 }, { w: 1600, h: 900 }, { w: 1600, h: 900 }],
+        1000,
+        800,
+        20
+      );
+
+      layout.forEach(bounds => expect(bounds.w / bounds.h).toBeCloseTo(16 / 9, 1));
+      expect(layout[0].y).toBe(layout[1].y);
+      expect(layout[2].y).toBeGreaterThan(layout[0].y + layout[0].h);
+      expect(layout[2].x + layout[2].w / 2).toBeCloseTo(500, 0);
+    });
+
+    it('should lay out nothing for no windows', () => {
+      expect(windowUtils.getOverviewLayout([], 1920, 1000)).toEqual([]);
+    });
+  });
+
+  describe('getTileBounds', () => {
+    const availableHeight = 1080 - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT;
+
+    it('should tile windows in a grid with the last row stretched', () => {
+      const bounds = windowUtils.getTileBounds('grid', 3, 1920, 1080);
+
+      expect(bounds).toEqual([
+        { x: 0, y: 0, w: 960, h: availableHeight / 2 },
+        { x: 960, y: 0, w: 960, h: availableHeight / 2 },
+        { x: 0, y: availableHeight / 2, w: 1920, h: availableHeight / 2 },
+      ]);
+    });
+
+    it('should give the first window the master area and stack the rest', () => {
+      const [master, ...stack] = windowUtils.getTileBounds('master-stack', 3, 1920, 1080);
+
+      expect(master).toEqual({ x: 0, y: 0, w: 1152, h: availableHeight });
+      expect(stack).toEqual([
+        { x: 1152, y: 0, w: 768, h: availableHeight / 2 },
+        { x: 1152, y: availableHeight / 2, w: 768, h: availableHeight / 2 },
+      ]);
+      expect(windowUtils.getTileBounds('master-stack', 1, 1920, 1080)).toEqual([{ x: 0, y: 0, w: 1920, h: availableHeight }]);
+    });
+  });
+
   describe('isPointInWindow', () => {
     const window: WindowState = {
       id: 'test-window',
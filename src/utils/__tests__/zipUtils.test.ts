@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { zipUtils } from '../zipUtils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Read the file names and contents back from the central directory
+ */
+const readZip = (archive: Uint8Array) => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = archive.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries: Array<{ name: string; data: string; crc: number }> = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = new TextDecoder().decode(archive.subarray(dataStart, dataStart + size));
+
+    entries.push({ name, data, crc });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('zipUtils', () => {
+  describe('crc32', () => {
+    it('should match the standard CRC-32 checksum', () => {
+      expect(zipUtils.crc32(encode('hello'))).toBe(0x3610a686);
+      expect(zipUtils.crc32(new Uint8Array(0))).toBe(0);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should store files and folders that can be read back', () => {
+      const archive = zipUtils.createZip([
+        { path: 'Notes/' },
+        { path: 'Notes/todo.txt', data: encode('buy milk') },
+        { path: 'résumé.md', data: encode('# Hi') },
+      ]);
+
+      const entries = readZip(archive);
+      expect(entries.map(entry => entry.name)).toEqual(['Notes/', 'Notes/todo.txt', 'résumé.md']);
+      expect(entries[1].data).toBe('buy milk');
+      expect(entries[1].crc).toBe(zipUtils.crc32(encode('buy milk')));
+    });
+
+    it('should produce an empty archive for no entries', () => {
+      expect(readZip(zipUtils.createZip([]))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * ANSI escape sequences for Terminal output: SGR colors and styles, OSC 8
+ * hyperlinks, and text tables and progress bars built from them. Output stays
+ * a plain string, so it can be persisted, piped and copied; the Terminal
+ * renders the escapes and `strip` removes them.
+ */
+
+// A palette index 0-15 or a CSS color for 256-color and true-color escapes
+export type AnsiColor = number | string;
+
+export interface AnsiStyle {
+  foreground?: AnsiColor;
+  background?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+  href?: string;
+}
+
+/**
+ * Finds words in plain output that should become links, such as file paths
+ * and project slugs. Each returns the link target or null.
+ */
+export interface AnsiLinkDetectors {
+  resolvePath?: (word: string) => string | null;
+  isProjectSlug?: (word: string) => boolean;
+}
+
+export type AnsiLink =
+  | { type: 'file'; path: string }
+  | { type: 'project'; slug: string }
+  | { type: 'url'; url: string };
+
+const ESC = '\x1b';
+const OSC_TERMINATOR = `${ESC}\\`;
+
+// CSI sequences (SGR and others) and OSC sequences ended by BEL or ST
+// eslint-disable-next-line no-control-regex
+const ESCAPE = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\](\d*);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+const COLOR_NAMES = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'] as const;
+export type AnsiColorName = typeof COLOR_NAMES[number] | 'gray';
+
+// Levels of the 6x6x6 color cube of 256-color escapes
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const toHex = (red: number, green: number, blue: number) =>
+  `#${[red, green, blue].map(value => Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0')).join('')}`;
+
+const color256 = (index: number): AnsiColor => {
+  if (index < 16) return index;
+  if (index < 232) {
+    const cube = index - 16;
+    return toHex(CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]);
+  }
+  const gray = 8 + (index - 232) * 10;
+  return toHex(gray, gray, gray);
+};
+
+/**
+ * Apply SGR parameters to a style. `38;5;n` and `38;2;r;g;b` (and 48 for
+ * backgrounds) consume the parameters that follow them.
+ */
+const applySgr = (style: AnsiStyle, parameters: string): AnsiStyle => {
+  const codes = parameters === '' ? [0] : parameters.split(';').map(code => parseInt(code || '0', 10));
+  let next = { ...style };
+
+  for (let index = 0; index < codes.length; index++) {
+    const code = codes[index];
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 9) next.strikethrough = true;
+    else if (code === 22) next.bold = next.dim = undefined;
+    else if (code === 23) next.italic = undefined;
+    else if (code === 24) next.underline = undefined;
+    else if (code === 27) next.inverse = undefined;
+    else if (code === 29) next.strikethrough = undefined;
+    else if (code >= 30 && code <= 37) next.foreground = code - 30;
+    else if (code >= 90 && code <= 97) next.foreground = code - 90 + 8;
+    else if (code === 39) next.foreground = undefined;
+    else if (code >= 40 && code <= 47) next.background = code - 40;
+    else if (code >= 100 && code <= 107) next.background = code - 100 + 8;
+    else if (code === 49) next.background = undefined;
+    else if (code === 38 || code === 48) {
+      const key = code === 38 ? 'foreground' : 'background';
+      if (codes[index + 1] === 5 && codes[index + 2] !== undefined) {
+        next[key] = color256(codes[index + 2]);
+        index += 2;
+      } else if (codes[index + 1] === 2 && codes[index + 4] !== undefined) {
+        next[key] = toHex(codes[index + 2], codes[index + 3], codes[index + 4]);
+        index += 4;
+      }
+    }
+  }
+
+  // Drop cleared attributes so equal styles compare equal
+  return Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined)) as AnsiStyle;
+};
+
+const sameStyle = (a: AnsiStyle, b: AnsiStyle) => JSON.stringify(a) === JSON.stringify(b);
+
+const pushSegment = (segments: AnsiSegment[], segment: AnsiSegment) => {
+  if (!segment.text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.href === segment.href && sameStyle(last.style, segment.style)) {
+    last.text += segment.text;
+  } else {
+    segments.push(segment);
+  }
+};
+
+/**
+ * Split text into runs of equal style and link. Unsupported escapes are dropped.
+ */
+const parse = (text: string): AnsiSegment[] => {
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let href: string | undefined;
+  let index = 0;
+
+  for (const match of text.matchAll(ESCAPE)) {
+    pushSegment(segments, { text: text.slice(index, match.index), style, href });
+    index = match.index! + match[0].length;
+
+    if (match[2] === 'm') {
+      style = applySgr(style, match[1]);
+    } else if (match[3] === '8') {
+      // OSC 8 ; params ; URI - an empty URI ends the link
+      const uri = match[4].slice(match[4].indexOf(';') + 1);
+      href = uri || undefined;
+    }
+  }
+  pushSegment(segments, { text: text.slice(index), style, href });
+
+  return segments;
+};
+
+/**
+ * Remove all escape sequences, leaving the text as it reads
+ */
+const strip = (text: string): string => text.replace(ESCAPE, '');
+
+// Words that could name a file or a project: no spaces, quotes, brackets or separators
+const WORD = /[^\s'"`,;:()<>[\]{}|]+/g;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const PATH_LIKE = /\/|\.[A-Za-z0-9]+$/;
+
+/**
+ * Turn file paths and project slugs in unlinked text into links
+ */
+const linkify = (segments: AnsiSegment[], detectors: AnsiLinkDetectors): AnsiSegment[] => {
+  const result: AnsiSegment[] = [];
+
+  segments.forEach(segment => {
+    if (segment.href) {
+      result.push({ ...segment });
+      return;
+    }
+
+    let index = 0;
+    for (const match of segment.text.matchAll(WORD)) {
+      // Sentence punctuation after a word is not part of it
+      const word = match[0].replace(/\.+$/, '');
+      let href: string | undefined;
+
+      if (word.length > 1 && PATH_LIKE.test(word)) {
+        const path = detectors.resolvePath?.(word);
+        if (path) href = fileHref(path);
+      } else if (SLUG.test(word) && detectors.isProjectSlug?.(word)) {
+        href = projectHref(word);
+      }
+
+      if (href) {
+        pushSegment(result, { ...segment, text: segment.text.slice(index, match.index) });
+        result.push({ ...segment, text: word, href });
+        index = match.index! + word.length;
+      }
+    }
+    pushSegment(result, { ...segment, text: segment.text.slice(index) });
+  });
+
+  return result;
+};
+
+const fileHref = (path: string) => `file://${encodeURI(path)}`;
+const projectHref = (slug: string) => `project:${slug}`;
+
+/**
+ * What a link points at. Only web and mail links are followed outside the OS.
+ */
+const parseLink = (href: string): AnsiLink | null => {
+  if (href.startsWith('file://')) {
+    try {
+      return { type: 'file', path: decodeURI(href.slice('file://'.length)) };
+    } catch {
+      return null;
+    }
+  }
+  if (href.startsWith('project:')) return { type: 'project', slug: href.slice('project:'.length) };
+  if (/^(https?:|mailto:)/i.test(href)) return { type: 'url', url: href };
+  return null;
+};
+
+const sgr = (open: number | string, close: number, text: string) => `${ESC}[${open}m${text}${ESC}[${close}m`;
+
+const color = (name: AnsiColorName, text: string) =>
+  name === 'gray' ? sgr(90, 39, text) : sgr(30 + COLOR_NAMES.indexOf(name), 39, text);
+
+const link = (href: string, text: string = href) => `${ESC}]8;;${href}${OSC_TERMINATOR}${text}${ESC}]8;;${OSC_TERMINATOR}`;
+
+const visibleLength = (text: string) => strip(text).length;
+
+const pad = (text: string, width: number, align: 'left' | 'right' = 'left') => {
+  const padding = ' '.repeat(Math.max(0, width - visibleLength(text)));
+  return align === 'right' ? padding + text : text + padding;
+};
+
+/**
+ * Columns padded to their widest cell, with a bold header row and a rule below it
+ */
+const table = (
+  rows: string[][],
+  options: { header?: boolean; align?: Array<'left' | 'right'>; gap?: number } = {}
+): string => {
+  const { header = true, align = [], gap = 2 } = options;
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...rows.map(row => visibleLength(row[column] ?? '')))
+  );
+  const formatRow = (row: string[]) => widths
+    .map((width, column) => pad(row[column] ?? '', column === columns - 1 && align[column] !== 'right' ? 0 : width, align[column]))
+    .join(' '.repeat(gap))
+    .trimEnd();
+
+  const lines = rows.map(formatRow);
+  if (header) {
+    lines[0] = sgr(1, 22, lines[0]);
+    lines.splice(1, 0, sgr(2, 22, widths.map(width => '─'.repeat(width)).join(' '.repeat(gap))));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * A bar like `[██████░░░░]  60%`, green up to 70%, then yellow, then red
+ * when `warn` is set
+ */
+const progressBar = (fraction: number, options: { width?: number; warn?: boolean } = {}): string => {
+  const { width = 20, warn = false } = options;
+  const value = Math.max(0, Math.min(1, Number.isFinite(fraction) ? fraction : 0));
+  const filled = Math.round(value * width);
+  const barColor: AnsiColorName = !warn || value < 0.7 ? 'green' : value < 0.9 ? 'yellow' : 'red';
+
+  const bar = color(barColor, '█'.repeat(filled)) + sgr(2, 22, '░'.repeat(width - filled));
+  return `[${bar}] ${`${Math.round(value * 100)}%`.padStart(4)}`;
+};
+
+export const ansi = {
+  parse,
+  strip,
+  linkify,
+  parseLink,
+  visibleLength,
+  pad,
+  bold: (text: string) => sgr(1, 22, text),
+  dim: (text: string) => sgr(2, 22, text),
+  italic: (text: string) => sgr(3, 23, text),
+  underline: (text: string) => sgr(4, 24, text),
+  color,
+  link,
+  fileLink: (path: string, text: string = path) => link(fileHref(path), text),
+  projectLink: (slug: string, text: string = slug) => link(projectHref(slug), text),
+  table,
+  progressBar,
+};
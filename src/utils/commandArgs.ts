@@ -0,0 +1,73 @@
+/**
+ * Which options a command accepts. `flags` and `values` list single-letter
+ * options; `long` maps long options such as `--recursive` to their letter.
+ */
+export interface CommandArgSpec {
+  flags?: string; // Boolean flags, e.g. 'la' for `ls -la`
+  values?: string; // Options taking a value, e.g. 'n' for `head -n 5` or `head -n5`
+  long?: Record<string, string>;
+}
+
+export interface ParsedCommandArgs {
+  flags: Set<string>;
+  values: Record<string, string>;
+  operands: string[];
+}
+
+/**
+ * Parse POSIX-style command arguments. Short flags can be combined (`-la`),
+ * `--` ends option parsing and a lone `-` is an operand (usually stdin).
+ * Throws on unknown options so the shell reports them as the command's error.
+ */
+export const parseArgs = (args: string[], spec: CommandArgSpec = {}): ParsedCommandArgs => {
+  const flags = new Set<string>();
+  const values: Record<string, string> = {};
+  const operands: string[] = [];
+  const { flags: flagLetters = '', values: valueLetters = '', long = {} } = spec;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.split(/=(.*)/s);
+      const letter = long[name];
+      if (!letter) {
+        throw new Error(`unrecognized option '${name}'`);
+      }
+      if (valueLetters.includes(letter)) {
+        const value = inlineValue ?? args[++i];
+        if (value === undefined) throw new Error(`option '${name}' requires an argument`);
+        values[letter] = value;
+      } else {
+        flags.add(letter);
+      }
+      continue;
+    }
+
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        const letter = arg[j];
+        if (valueLetters.includes(letter)) {
+          const value = j < arg.length - 1 ? arg.slice(j + 1) : args[++i];
+          if (value === undefined) throw new Error(`option requires an argument -- '${letter}'`);
+          values[letter] = value;
+          break;
+        }
+        if (!flagLetters.includes(letter)) {
+          throw new Error(`invalid option -- '${letter}'`);
+        }
+        flags.add(letter);
+      }
+      continue;
+    }
+
+    operands.push(arg);
+  }
+
+  return { flags, values, operands };
+};
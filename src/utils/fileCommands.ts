@@ -0,0 +1,562 @@
+import type { TerminalCommand, TerminalContext, TerminalIO, TerminalOutput, VNode } from '../types';
+import { parseArgs } from './commandArgs';
+import { pathUtils } from './pathUtils';
+import { ansi } from './ansi';
+
+// The folder `cd` goes to without arguments and `~` stands for
+export const TERMINAL_HOME = '/';
+
+/**
+ * Resolve a path typed in the terminal against the working directory,
+ * expanding a leading `~` to the home folder
+ */
+export const resolveTerminalPath = (context: Pick<TerminalContext, 'cwd'>, path: string): string => {
+  const expanded = path === '~' ? TERMINAL_HOME : path.startsWith('~/') ? `${TERMINAL_HOME}/${path.slice(2)}` : path;
+  return pathUtils.resolve(context.cwd || TERMINAL_HOME, expanded);
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Report per-operand errors on stderr and return the command's output. When
+ * nothing else was printed the errors become the output itself.
+ */
+export const finishCommand = (io: TerminalIO | undefined, text: string, errors: string[]): TerminalOutput => {
+  if (errors.length > 0 && !text) {
+    return { type: 'error', content: errors.join('\n'), timestamp: new Date() };
+  }
+  if (errors.length > 0) {
+    io?.stderr.write(`${errors.join('\n')}\n`);
+  }
+  return { type: 'info', content: text, timestamp: new Date(), exitCode: errors.length > 0 ? 1 : 0 };
+};
+
+const isHidden = (node: VNode) => node.name.startsWith('.');
+
+const displayName = (node: VNode, name = node.name) => (node.type === 'folder' ? `${name}/` : name);
+
+// Names in listings link to what they name; folders show in bold blue
+const listingName = (node: VNode, name = node.name) => ansi.fileLink(
+  node.path,
+  node.type === 'folder' ? ansi.bold(ansi.color('blue', displayName(node, name))) : name
+);
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Convert a glob such as `*.md` or `note?.[tj]xt` to an anchored regular expression
+ */
+const globToRegExp = (glob: string, ignoreCase: boolean): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') pattern += '.*';
+    else if (char === '?') pattern += '.';
+    else if (char === '[' && glob.indexOf(']', i + 1) > i + 1) {
+      const close = glob.indexOf(']', i + 1);
+      const set = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      pattern += `[${set}]`;
+      i = close;
+    } else pattern += char.replace(/[.+^${}()|\\]/g, '\\$&');
+  }
+  return new RegExp(`^${pattern}$`, ignoreCase ? 'i' : '');
+};
+
+const lsCommand: TerminalCommand = {
+  id: 'ls',
+  name: 'ls',
+  description: 'List folder contents',
+  usage: 'ls [-alh1] [path...]',
+  aliases: ['dir'],
+  flags: [
+    { names: ['-a', '--all'], description: 'Include hidden entries, and . and ..' },
+    { names: ['-l'], description: 'Long listing with permissions, size and modification date' },
+    { names: ['-h'], description: 'Show sizes in KB and MB with -l' },
+    { names: ['-1'], description: 'One entry per line' },
+  ],
+  args: [{ name: 'path', description: 'Files or folders to list, the working directory by default', optional: true, variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const { flags, operands } = parseArgs(args, { flags: 'alh1', long: { '--all': 'a' } });
+    const targets = operands.length > 0 ? operands : ['.'];
+    const errors: string[] = [];
+    const files: Array<{ node: VNode; name: string }> = [];
+    const folders: Array<{ target: string; node: VNode }> = [];
+
+    targets.forEach(target => {
+      const node = context.fs.navigateToPath(resolveTerminalPath(context, target));
+      if (!node) errors.push(`ls: cannot access '${target}': No such file or folder`);
+      else if (node.type === 'folder') folders.push({ target, node });
+      else files.push({ node, name: target });
+    });
+
+    const format = (entries: Array<{ node: VNode; name: string }>): string => {
+      if (!flags.has('l')) {
+        return entries.map(({ node, name }) => listingName(node, name)).join('\n');
+      }
+
+      const rows = entries.map(({ node, name }) => {
+        const readOnly = context.fs.isReadOnly(node.path);
+        const mode = node.type === 'folder'
+          ? (readOnly ? 'dr-xr-xr-x' : 'drwxr-xr-x')
+          : (readOnly ? '-r--r--r--' : '-rw-r--r--');
+        const size = node.size ?? 0;
+        return {
+          mode,
+          size: flags.has('h') ? context.fs.formatFileSize(size) : String(size),
+          modified: node.modified ? formatDate(new Date(node.modified)) : '',
+          name: listingName(node, name),
+        };
+      });
+      const sizeWidth = Math.max(0, ...rows.map(row => row.size.length));
+      return rows
+        .map(row => `${row.mode}  ${row.size.padStart(sizeWidth)}  ${row.modified}  ${row.name}`)
+        .join('\n');
+    };
+
+    const blocks: string[] = [];
+    if (files.length > 0) {
+      blocks.push(format(files));
+    }
+    folders.forEach(({ target, node }) => {
+      const children = context.fs.sortNodes(node.children ?? [], 'name')
+        .filter(child => flags.has('a') || !isHidden(child))
+        .map(child => ({ node: child, name: child.name }));
+      const parent = context.fs.navigateToPath(pathUtils.dirname(node.path)) ?? node;
+      const entries = flags.has('a')
+        ? [{ node, name: '.' }, { node: parent, name: '..' }, ...children]
+        : children;
+
+      const listing = format(entries);
+      blocks.push(targets.length > 1 ? `${target}:${listing ? `\n${listing}` : ''}` : listing);
+    });
+
+    return finishCommand(io, blocks.filter(Boolean).join(targets.length > 1 ? '\n\n' : '\n'), errors);
+  },
+};
+
+const cdCommand: TerminalCommand = {
+  id: 'cd',
+  name: 'cd',
+  description: 'Change the working directory',
+  usage: 'cd [path|-]',
+  args: [{ name: 'path', description: 'Folder to change to: ~ by default, - for the previous one', optional: true, complete: 'folder' }],
+  execute: (args, context) => {
+    const { operands } = parseArgs(args);
+    const previous = context.env.get('OLDPWD');
+    if (operands[0] === '-' && !previous) {
+      return { type: 'error', content: 'cd: OLDPWD not set' };
+    }
+    const target = operands[0] === '-' ? previous! : operands[0] ?? '~';
+    const node = context.fs.navigateToPath(resolveTerminalPath(context, target));
+
+    if (!node) {
+      return { type: 'error', content: `cd: no such file or folder: ${target}` };
+    }
+    if (node.type !== 'folder') {
+      return { type: 'error', content: `cd: not a folder: ${target}` };
+    }
+    context.env.set('OLDPWD', context.cwd || TERMINAL_HOME, true);
+    context.env.set('PWD', node.path, true);
+    context.setCwd(node.path);
+    // `cd -` prints where it went
+    if (operands[0] === '-') return { type: 'info', content: node.path };
+  },
+};
+
+const pwdCommand: TerminalCommand = {
+  id: 'pwd',
+  name: 'pwd',
+  description: 'Print the working directory',
+  usage: 'pwd',
+  execute: (_args, context) => ({ type: 'info', content: context.cwd || TERMINAL_HOME }),
+};
+
+export interface TextInput {
+  name: string; // The operand as typed, or '-' for standard input
+  text: string;
+}
+
+/**
+ * Read the text of each file operand, or standard input for `-` and when
+ * there are no operands. Unreadable operands are reported as `name: path: reason`.
+ */
+export const readTextInputs = async (
+  name: string,
+  operands: string[],
+  context: TerminalContext,
+  io: TerminalIO | undefined
+): Promise<{ inputs: TextInput[]; errors: string[] }> => {
+  const inputs: TextInput[] = [];
+  const errors: string[] = [];
+
+  for (const operand of operands.length > 0 ? operands : ['-']) {
+    if (operand === '-') {
+      inputs.push({ name: operand, text: io ? await io.stdin.read() : '' });
+      continue;
+    }
+
+    const node = context.fs.navigateToPath(resolveTerminalPath(context, operand));
+    if (!node) errors.push(`${name}: ${operand}: No such file or folder`);
+    else if (node.type === 'folder') errors.push(`${name}: ${operand}: Is a folder`);
+    else if (node.binary) errors.push(`${name}: ${operand}: Binary file not shown`);
+    else inputs.push({ name: operand, text: context.fs.readFile(node.path) });
+  }
+  return { inputs, errors };
+};
+
+/**
+ * Split text into lines, ignoring the newline that ends the last one
+ */
+export const splitLines = (text: string): string[] => (text ? text.replace(/\n$/, '').split('\n') : []);
+
+/**
+ * Join lines into text that ends every line with a newline, so a blank last line survives a pipe
+ */
+export const joinLines = (lines: string[]): string => lines.map(line => `${line}\n`).join('');
+
+const catCommand: TerminalCommand = {
+  id: 'cat',
+  name: 'cat',
+  description: 'Print file contents, or standard input with no files',
+  usage: 'cat [-n] [file...]',
+  flags: [{ names: ['-n'], description: 'Number the output lines' }],
+  args: [{ name: 'file', description: 'Files to print; - reads standard input', optional: true, variadic: true, complete: 'path' }],
+  execute: async (args, context, io) => {
+    const { flags, operands } = parseArgs(args, { flags: 'n' });
+    const { inputs, errors } = await readTextInputs('cat', operands, context, io);
+    let text = inputs.map(input => input.text).join('');
+
+    if (flags.has('n')) {
+      text = joinLines(splitLines(text).map((line, index) => `${String(index + 1).padStart(6)}\t${line}`));
+    }
+    return finishCommand(io, text, errors);
+  },
+};
+
+const mkdirCommand: TerminalCommand = {
+  id: 'mkdir',
+  name: 'mkdir',
+  description: 'Create folders',
+  usage: 'mkdir [-p] folder...',
+  flags: [{ names: ['-p', '--parents'], description: 'Create missing parent folders and ignore existing ones' }],
+  args: [{ name: 'folder', description: 'Folders to create', variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const { flags, operands } = parseArgs(args, { flags: 'p', long: { '--parents': 'p' } });
+    if (operands.length === 0) {
+      return { type: 'error', content: 'mkdir: missing operand' };
+    }
+
+    const errors: string[] = [];
+    operands.forEach(operand => {
+      try {
+        context.fs.createFolder(resolveTerminalPath(context, operand), { recursive: flags.has('p') });
+      } catch (error) {
+        errors.push(`mkdir: ${errorMessage(error)}`);
+      }
+    });
+    return finishCommand(io, '', errors);
+  },
+};
+
+const touchCommand: TerminalCommand = {
+  id: 'touch',
+  name: 'touch',
+  description: 'Create empty files or update their modification time',
+  usage: 'touch file...',
+  args: [{ name: 'file', description: 'Files to create or update', variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const { operands } = parseArgs(args);
+    if (operands.length === 0) {
+      return { type: 'error', content: 'touch: missing file operand' };
+    }
+
+    const errors: string[] = [];
+    operands.forEach(operand => {
+      const path = resolveTerminalPath(context, operand);
+      try {
+        const node = context.fs.navigateToPath(path);
+        if (!node) {
+          context.fs.createFile(path, '');
+        } else if (node.type === 'file') {
+          context.fs.writeFile(path, node.binary ?? node.content ?? '');
+        }
+      } catch (error) {
+        errors.push(`touch: ${errorMessage(error)}`);
+      }
+    });
+    return finishCommand(io, '', errors);
+  },
+};
+
+const rmCommand: TerminalCommand = {
+  id: 'rm',
+  name: 'rm',
+  description: 'Delete files and folders permanently',
+  usage: 'rm [-rf] path...',
+  aliases: ['del'],
+  flags: [
+    { names: ['-r', '-R', '--recursive'], description: 'Delete folders and their contents' },
+    { names: ['-f', '--force'], description: 'Ignore missing files' },
+  ],
+  args: [{ name: 'path', description: 'Files or folders to delete', variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const { flags, operands } = parseArgs(args, { flags: 'rRf', long: { '--recursive': 'r', '--force': 'f' } });
+    const recursive = flags.has('r') || flags.has('R');
+    const force = flags.has('f');
+    if (operands.length === 0 && !force) {
+      return { type: 'error', content: 'rm: missing operand' };
+    }
+
+    const errors: string[] = [];
+    operands.forEach(operand => {
+      const node = context.fs.navigateToPath(resolveTerminalPath(context, operand));
+      if (!node) {
+        if (!force) errors.push(`rm: cannot remove '${operand}': No such file or folder`);
+        return;
+      }
+      if (node.type === 'folder' && !recursive) {
+        errors.push(`rm: cannot remove '${operand}': Is a folder`);
+        return;
+      }
+      try {
+        context.fs.delete(node.path, { recursive });
+      } catch (error) {
+        errors.push(`rm: ${errorMessage(error)}`);
+      }
+    });
+
+    // Step out of a working directory that no longer exists
+    let cwd = context.cwd || TERMINAL_HOME;
+    while (!context.fs.exists(cwd)) {
+      cwd = pathUtils.dirname(cwd);
+    }
+    if (cwd !== (context.cwd || TERMINAL_HOME)) {
+      context.setCwd(cwd);
+    }
+
+    return finishCommand(io, '', errors);
+  },
+};
+
+/**
+ * Shared by mv and cp: into an existing folder, or to a new name with a single source
+ */
+const transfer = (
+  mode: 'move' | 'copy',
+  operands: string[],
+  context: TerminalContext,
+  io: TerminalIO | undefined,
+  recursive = true
+): TerminalOutput => {
+  const name = mode === 'move' ? 'mv' : 'cp';
+  if (operands.length < 2) {
+    return { type: 'error', content: `${name}: missing destination file operand` };
+  }
+
+  const sources = operands.slice(0, -1);
+  const destination = operands[operands.length - 1];
+  const destinationPath = resolveTerminalPath(context, destination);
+  const destinationNode = context.fs.navigateToPath(destinationPath);
+  if (sources.length > 1 && destinationNode?.type !== 'folder') {
+    return { type: 'error', content: `${name}: target '${destination}' is not a folder` };
+  }
+
+  const errors: string[] = [];
+  sources.forEach(source => {
+    const node = context.fs.navigateToPath(resolveTerminalPath(context, source));
+    if (!node) {
+      errors.push(`${name}: cannot stat '${source}': No such file or folder`);
+      return;
+    }
+    if (node.type === 'folder' && !recursive) {
+      errors.push(`${name}: -r not specified; omitting folder '${source}'`);
+      return;
+    }
+
+    try {
+      const [folder, options] = destinationNode?.type === 'folder'
+        ? [destinationPath, {}]
+        : [pathUtils.dirname(destinationPath), { name: pathUtils.basename(destinationPath) }];
+      context.fs[mode](node.path, folder, { ...options, onConflict: 'overwrite' });
+    } catch (error) {
+      errors.push(`${name}: ${errorMessage(error)}`);
+    }
+  });
+  return finishCommand(io, '', errors);
+};
+
+const mvCommand: TerminalCommand = {
+  id: 'mv',
+  name: 'mv',
+  description: 'Move or rename files and folders',
+  usage: 'mv source... destination',
+  aliases: ['move'],
+  args: [{ name: 'path', description: 'Sources followed by the destination file or folder', variadic: true, complete: 'path' }],
+  execute: (args, context, io) => transfer('move', parseArgs(args).operands, context, io),
+};
+
+const cpCommand: TerminalCommand = {
+  id: 'cp',
+  name: 'cp',
+  description: 'Copy files, and folders with -r',
+  usage: 'cp [-r] source... destination',
+  aliases: ['copy'],
+  flags: [{ names: ['-r', '-R', '--recursive'], description: 'Copy folders and their contents' }],
+  args: [{ name: 'path', description: 'Sources followed by the destination file or folder', variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const { flags, operands } = parseArgs(args, { flags: 'rR', long: { '--recursive': 'r' } });
+    return transfer('copy', operands, context, io, flags.has('r') || flags.has('R'));
+  },
+};
+
+const treeCommand: TerminalCommand = {
+  id: 'tree',
+  name: 'tree',
+  description: 'Show a folder and its contents as a tree',
+  usage: 'tree [-a] [-L depth] [path]',
+  flags: [
+    { names: ['-a'], description: 'Include hidden entries' },
+    { names: ['-d'], description: 'List folders only' },
+    { names: ['-L'], value: 'depth', description: 'Descend at most this many levels' },
+  ],
+  args: [{ name: 'path', description: 'Folder to show, the working directory by default', optional: true, complete: 'folder' }],
+  execute: (args, context) => {
+    const { flags, values, operands } = parseArgs(args, { flags: 'ad', values: 'L' });
+    const target = operands[0] ?? '.';
+    const maxDepth = values.L !== undefined ? Number(values.L) : Infinity;
+    if (Number.isNaN(maxDepth) || maxDepth < 1) {
+      return { type: 'error', content: `tree: invalid level '${values.L}', must be greater than 0` };
+    }
+
+    const root = context.fs.navigateToPath(resolveTerminalPath(context, target));
+    if (!root) {
+      return { type: 'error', content: `tree: ${target}: No such file or folder` };
+    }
+
+    const lines = [target];
+    let folders = 0;
+    let files = 0;
+    const visit = (node: VNode, prefix: string, depth: number) => {
+      const children = context.fs.sortNodes(node.children ?? [], 'name')
+        .filter(child => (flags.has('a') || !isHidden(child)) && (!flags.has('d') || child.type === 'folder'));
+
+      children.forEach((child, index) => {
+        const isLast = index === children.length - 1;
+        lines.push(`${prefix}${isLast ? '└── ' : '├── '}${child.name}`);
+        if (child.type === 'folder') {
+          folders++;
+          if (depth < maxDepth) visit(child, `${prefix}${isLast ? '    ' : '│   '}`, depth + 1);
+        } else {
+          files++;
+        }
+      });
+    };
+    visit(root, '', 1);
+
+    const summary = flags.has('d')
+      ? `${folders} ${folders === 1 ? 'folder' : 'folders'}`
+      : `${folders} ${folders === 1 ? 'folder' : 'folders'}, ${files} ${files === 1 ? 'file' : 'files'}`;
+    return { type: 'info', content: `${lines.join('\n')}\n\n${summary}` };
+  },
+};
+
+const findCommand: TerminalCommand = {
+  id: 'find',
+  name: 'find',
+  description: 'Search for files and folders by name and type',
+  usage: 'find [path...] [-name pattern] [-iname pattern] [-type f|d] [-maxdepth n]',
+  flags: [
+    { names: ['-name'], value: 'pattern', description: 'Match names against a glob such as *.txt' },
+    { names: ['-iname'], value: 'pattern', description: 'Like -name, ignoring case' },
+    { names: ['-type'], value: 'f|d', description: 'Match only files (f) or folders (d)', complete: ['f', 'd'] },
+    { names: ['-maxdepth'], value: 'n', description: 'Descend at most n levels below the starting points' },
+  ],
+  args: [{ name: 'path', description: 'Folders to search, the working directory by default', optional: true, variadic: true, complete: 'path' }],
+  execute: (args, context, io) => {
+    const starts: string[] = [];
+    let namePattern: RegExp | null = null;
+    let type: VNode['type'] | null = null;
+    let maxDepth = Infinity;
+
+    // find takes single-dash word options, so it parses its own arguments
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      const value = args[i + 1];
+      if (arg === '-name' || arg === '-iname') {
+        if (value === undefined) return { type: 'error', content: `find: missing argument to '${arg}'` };
+        namePattern = globToRegExp(value, arg === '-iname');
+        i++;
+      } else if (arg === '-type') {
+        if (value !== 'f' && value !== 'd') return { type: 'error', content: `find: unknown argument to -type: ${value ?? ''}` };
+        type = value === 'f' ? 'file' : 'folder';
+        i++;
+      } else if (arg === '-maxdepth') {
+        maxDepth = Number(value);
+        if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+          return { type: 'error', content: `find: invalid argument to -maxdepth: ${value ?? ''}` };
+        }
+        i++;
+      } else if (arg.startsWith('-')) {
+        return { type: 'error', content: `find: unknown predicate '${arg}'` };
+      } else {
+        starts.push(arg);
+      }
+    }
+
+    const errors: string[] = [];
+    const results: string[] = [];
+    const visit = (node: VNode, shownPath: string, depth: number) => {
+      const matches = (!namePattern || namePattern.test(node.name)) && (!type || node.type === type);
+      if (matches) results.push(shownPath);
+      if (node.type === 'folder' && depth < maxDepth) {
+        context.fs.sortNodes(node.children ?? [], 'name').forEach(child => {
+          visit(child, shownPath.endsWith('/') ? `${shownPath}${child.name}` : `${shownPath}/${child.name}`, depth + 1);
+        });
+      }
+    };
+
+    (starts.length > 0 ? starts : ['.']).forEach(start => {
+      const node = context.fs.navigateToPath(resolveTerminalPath(context, start));
+      if (node) visit(node, start, 0);
+      else errors.push(`find: '${start}': No such file or folder`);
+    });
+
+    return finishCommand(io, results.join('\n'), errors);
+  },
+};
+
+// File system commands working on the virtual file system
+export const fileCommands: TerminalCommand[] = [
+  lsCommand,
+  cdCommand,
+  pwdCommand,
+  catCommand,
+  mkdirCommand,
+  touchCommand,
+  rmCommand,
+  mvCommand,
+  cpCommand,
+  treeCommand,
+  findCommand,
+];
+
+/**
+ * Complete a partly typed path to the matching entries of its folder. Folders
+ * end with `/` and spaces are escaped so the result can be typed as is.
+ */
+export const getPathCompletions = (partial: string, context: TerminalContext, foldersOnly = false): string[] => {
+  const slash = partial.lastIndexOf('/');
+  const folderPart = slash === -1 ? '' : partial.slice(0, slash + 1);
+  const namePart = partial.slice(slash + 1).toLowerCase();
+  const folder = context.fs.navigateToPath(resolveTerminalPath(context, folderPart || '.'));
+  if (folder?.type !== 'folder') return [];
+
+  return context.fs.sortNodes(folder.children ?? [], 'name')
+    .filter(child => child.name.toLowerCase().startsWith(namePart))
+    .filter(child => namePart.startsWith('.') || !isHidden(child))
+    .filter(child => !foldersOnly || child.type === 'folder')
+    .map(child => `${folderPart}${displayName(child)}`.replace(/ /g, '\\ '));
+};
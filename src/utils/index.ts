@@ -1,4 +1,4 @@
-import type { WindowState, AppId } from '@/types';
+import type { WindowState, AppId, SnapDirection, SnapLayout, SnapState, TilingMode, WindowEdge } from '@/types';
 
 // Window constraint constants
 export const WINDOW_CONSTRAINTS = {
@@ -12,6 +12,104 @@ export const WINDOW_CONSTRAINTS = {
   TITLE_BAR_HEIGHT: 32,
 } as const;
 
+// Snap areas as [left, top, right, bottom] fractions of the desktop above the taskbar
+export const SNAP_AREAS: Record<SnapState, [number, number, number, number]> = {
+  'left': [0, 0, 1 / 2, 1],
+  'right': [1 / 2, 0, 1, 1],
+  'top-left': [0, 0, 1 / 2, 1 / 2],
+  'top-right': [1 / 2, 0, 1, 1 / 2],
+  'bottom-left': [0, 1 / 2, 1 / 2, 1],
+  'bottom-right': [1 / 2, 1 / 2, 1, 1],
+  'left-third': [0, 0, 1 / 3, 1],
+  'center-third': [1 / 3, 0, 2 / 3, 1],
+  'right-third': [2 / 3, 0, 1, 1],
+  'left-two-thirds': [0, 0, 2 / 3, 1],
+  'right-two-thirds': [1 / 3, 0, 1, 1],
+  'maximized': [0, 0, 1, 1],
+};
+
+// Share of the desktop width the master window takes when tiling master-stack
+const MASTER_AREA_RATIO = 0.6;
+
+// Snap layout templates offered from the maximize button
+export const SNAP_LAYOUTS: SnapLayout[] = [
+  { id: 'halves', name: 'Halves', zones: ['left', 'right'] },
+  { id: 'two-thirds-left', name: 'Wide left', zones: ['left-two-thirds', 'right-third'] },
+  { id: 'thirds', name: 'Thirds', zones: ['left-third', 'center-third', 'right-third'] },
+  { id: 'half-and-quarters', name: 'Half and quarters', zones: ['left', 'top-right', 'bottom-right'] },
+  { id: 'quarters', name: 'Quarters', zones: ['top-left', 'top-right', 'bottom-left', 'bottom-right'] },
+];
+
+// Where Win+Arrow takes a window from each snap state. Left and right step through
+// the slots of a row and wrap around; a window that is not snapped is 'restored'.
+type SnapCycleState = SnapState | 'restored';
+const SNAP_CYCLES: Record<SnapDirection, Partial<Record<SnapCycleState, SnapCycleState | 'minimized'>>> = {
+  left: {
+    'restored': 'left',
+    'maximized': 'left',
+    'left': 'right',
+    'right': 'restored',
+    'top-left': 'top-right',
+    'top-right': 'top-left',
+    'bottom-left': 'bottom-right',
+    'bottom-right': 'bottom-left',
+    'left-third': 'right-third',
+    'center-third': 'left-third',
+    'right-third': 'center-third',
+    'left-two-thirds': 'right-two-thirds',
+    'right-two-thirds': 'left-two-thirds',
+  },
+  right: {
+    'restored': 'right',
+    'maximized': 'right',
+    'right': 'left',
+    'left': 'restored',
+    'top-left': 'top-right',
+    'top-right': 'top-left',
+    'bottom-left': 'bottom-right',
+    'bottom-right': 'bottom-left',
+    'left-third': 'center-third',
+    'center-third': 'right-third',
+    'right-third': 'left-third',
+    'left-two-thirds': 'right-two-thirds',
+    'right-two-thirds': 'left-two-thirds',
+  },
+  up: {
+    'restored': 'maximized',
+    'left': 'top-left',
+    'right': 'top-right',
+    'bottom-left': 'left',
+    'bottom-right': 'right',
+    'left-third': 'maximized',
+    'center-third': 'maximized',
+    'right-third': 'maximized',
+    'left-two-thirds': 'maximized',
+    'right-two-thirds': 'maximized',
+  },
+  down: {
+    'restored': 'minimized',
+    'maximized': 'restored',
+    'left': 'bottom-left',
+    'right': 'bottom-right',
+    'top-left': 'left',
+    'top-right': 'right',
+    'bottom-left': 'minimized',
+    'bottom-right': 'minimized',
+    'left-third': 'restored',
+    'center-third': 'restored',
+    'right-third': 'restored',
+    'left-two-thirds': 'restored',
+    'right-two-thirds': 'restored',
+  },
+};
+
+// Pixel bounds between edges, rounded down so neighbouring areas share an edge
+const getAreaBounds = (left: number, top: number, right: number, bottom: number): WindowState['bounds'] => {
+  const x = Math.floor(left);
+  const y = Math.floor(top);
+  return { x, y, w: Math.floor(right) - x, h: Math.floor(bottom) - y };
+};
+
 // Window positioning utilities
 export const windowUtils = {
   /**
@@ -64,38 +162,149 @@ export const windowUtils = {
    * Calculates snap bounds for window snapping
    */
   getSnapBounds: (
-    snapState: 'left' | 'right' | 'maximized',
+    snapState: SnapState,
     viewportWidth: number,
     viewportHeight: number
   ): WindowState['bounds'] => {
-    const { TASKBAR_HEIGHT } = WINDOW_CONSTRAINTS;
-    const availableHeight = viewportHeight - TASKBAR_HEIGHT;
-    
-    switch (snapState) {
-      case 'left':
-        return {
-          x: 0,
-          y: 0,
-          w: Math.floor(viewportWidth / 2),
-          h: availableHeight,
-        };
-      case 'right':
-        return {
-          x: Math.floor(viewportWidth / 2),
-          y: 0,
-          w: Math.floor(viewportWidth / 2),
-          h: availableHeight,
-        };
-      case 'maximized':
-        return {
-          x: 0,
-          y: 0,
-          w: viewportWidth,
-          h: availableHeight,
-        };
-      default:
-        throw new Error(`Invalid snap state: ${snapState}`);
+    const area = SNAP_AREAS[snapState];
+    if (!area) {
+      throw new Error(`Invalid snap state: ${snapState}`);
     }
+
+    const availableHeight = viewportHeight - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT;
+    const [left, top, right, bottom] = area;
+    return getAreaBounds(
+      left * viewportWidth,
+      top * availableHeight,
+      right * viewportWidth,
+      bottom * availableHeight
+    );
+  },
+
+  /**
+   * The snap state Win+Arrow moves a window to: a snap state, null to restore
+   * it, or 'minimized'. A window with nowhere to go keeps its state.
+   */
+  getNextSnapState: (
+    snapState: SnapState | null,
+    direction: SnapDirection
+  ): SnapState | null | 'minimized' => {
+    const next = SNAP_CYCLES[direction][snapState ?? 'restored'] ?? snapState ?? 'restored';
+    return next === 'restored' ? null : next;
+  },
+
+  /**
+   * Places a window of the given size against an edge or corner of the desktop
+   * above the taskbar, shrinking it to fit
+   */
+  getEdgeBounds: (
+    edge: WindowEdge,
+    size: { w: number; h: number },
+    viewportWidth: number,
+    viewportHeight: number
+  ): WindowState['bounds'] => {
+    const availableHeight = viewportHeight - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT;
+    const w = Math.min(size.w, viewportWidth);
+    const h = Math.min(size.h, availableHeight);
+    const centerX = Math.floor((viewportWidth - w) / 2);
+    const centerY = Math.floor((availableHeight - h) / 2);
+
+    const x = edge.includes('left') ? 0 : edge.includes('right') ? viewportWidth - w : centerX;
+    const y = edge.includes('top') ? 0 : edge.includes('bottom') ? availableHeight - h : centerY;
+    return { x, y, w, h };
+  },
+
+  /**
+   * Lays windows of the given sizes out in a grid filling an area, each scaled
+   * down to its cell without growing or changing shape. The column count is the
+   * one that shows the windows largest; a short last row is centered.
+   */
+  getOverviewLayout: (
+    sizes: Array<{ w: number; h: number }>,
+    width: number,
+    height: number,
+    gap = 24
+  ): WindowState['bounds'][] => {
+    const count = sizes.length;
+    const getCell = (columns: number) => {
+      const rows = Math.ceil(count / columns);
+      return { rows, w: (width - gap * (columns + 1)) / columns, h: (height - gap * (rows + 1)) / rows };
+    };
+    const getScale = (size: { w: number; h: number }, cell: { w: number; h: number }) =>
+      Math.max(0, Math.min(cell.w / size.w, cell.h / size.h, 1));
+
+    let columns = 1;
+    let largestArea = -1;
+    for (let candidate = 1; candidate <= count; candidate++) {
+      const cell = getCell(candidate);
+      const area = sizes.reduce((sum, size) => sum + size.w * size.h * getScale(size, cell) ** 2, 0);
+      if (area > largestArea) {
+        columns = candidate;
+        largestArea = area;
+      }
+    }
+
+    const cell = getCell(columns);
+    return sizes.map((size, index) => {
+      const row = Math.floor(index / columns);
+      const column = index % columns;
+      const inRow = Math.min(columns, count - row * columns);
+      const rowOffset = (width - inRow * cell.w - (inRow + 1) * gap) / 2;
+      const scale = getScale(size, cell);
+      const w = Math.round(size.w * scale);
+      const h = Math.round(size.h * scale);
+      return {
+        x: Math.round(rowOffset + gap + column * (cell.w + gap) + (cell.w - w) / 2),
+        y: Math.round(gap + row * (cell.h + gap) + (cell.h - h) / 2),
+        w,
+        h,
+      };
+    });
+  },
+
+  /**
+   * Calculates bounds for auto-tiling `count` windows. In master-stack mode the
+   * first window takes the master area on the left and the rest stack on the right.
+   */
+  getTileBounds: (
+    mode: Exclude<TilingMode, 'off'>,
+    count: number,
+    viewportWidth: number,
+    viewportHeight: number
+  ): WindowState['bounds'][] => {
+    const availableHeight = viewportHeight - WINDOW_CONSTRAINTS.TASKBAR_HEIGHT;
+    if (count <= 1) {
+      return count === 1 ? [getAreaBounds(0, 0, viewportWidth, availableHeight)] : [];
+    }
+
+    if (mode === 'master-stack') {
+      const masterWidth = viewportWidth * MASTER_AREA_RATIO;
+      const stackCount = count - 1;
+      return [
+        getAreaBounds(0, 0, masterWidth, availableHeight),
+        ...Array.from({ length: stackCount }, (_, index) => getAreaBounds(
+          masterWidth,
+          (index * availableHeight) / stackCount,
+          viewportWidth,
+          ((index + 1) * availableHeight) / stackCount
+        )),
+      ];
+    }
+
+    // Grid: as many columns as rows or one more, with the last row stretched to fill
+    const columns = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / columns);
+    return Array.from({ length: count }, (_, index) => {
+      const row = Math.floor(index / columns);
+      const column = index % columns;
+      const rowColumns = Math.min(columns, count - row * columns);
+      return getAreaBounds(
+        (column * viewportWidth) / rowColumns,
+        (row * availableHeight) / rows,
+        ((column + 1) * viewportWidth) / rowColumns,
+        ((row + 1) * availableHeight) / rows
+      );
+    });
   },
 
   /**
@@ -245,6 +454,15 @@ export const appUtils = {
         maximizable: true,
         multiInstance: false,
       },
+      'recycle-bin': {
+        name: 'Recycle Bin',
+        icon: 'trash-2',
+        defaultSize: { width: 750, height: 500 },
+        minSize: { width: 500, height: 300 },
+        resizable: true,
+        maximizable: true,
+        multiInstance: false,
+      },
     };
     
     return configs[appId];
@@ -326,3 +544,25 @@ export const performanceUtils = {
 
 // Export performance monitor
 export { performanceMonitor } from './performanceMonitor';
+
+// Export virtual file system path helpers
+export { pathUtils } from './pathUtils';
+
+// Export ZIP archive helpers
+export { zipUtils } from './zipUtils';
+
+// Export .lnk shortcut helpers
+export { shortcutUtils } from './shortcutUtils';
+
+// Export window rule matching
+export { windowRuleUtils } from './windowRuleUtils';
+export type { WindowRuleEffects } from './windowRuleUtils';
+
+// Export shell tokenizer and parser
+export { shellParser, ShellSyntaxError } from './shellParser';
+
+// Export jq-style JSON filters
+export { jsonQuery, JsonQueryError } from './jsonQuery';
+
+// Export ANSI escape helpers for Terminal output
+export { ansi } from './ansi';
@@ -0,0 +1,222 @@
+import type { TerminalCommand, TerminalContext, TerminalJob, TerminalSignal } from '../types';
+import { parseArgs } from './commandArgs';
+import { finishCommand } from './fileCommands';
+
+// Signal numbers, as `kill -l` lists them
+export const SIGNALS: Record<TerminalSignal, number> = {
+  SIGHUP: 1,
+  SIGINT: 2,
+  SIGKILL: 9,
+  SIGTERM: 15,
+};
+
+const SIGNAL_STATES: Record<TerminalSignal, string> = {
+  SIGHUP: 'Hangup',
+  SIGINT: 'Interrupt',
+  SIGKILL: 'Killed',
+  SIGTERM: 'Terminated',
+};
+
+const isSignal = (value: unknown): value is TerminalSignal =>
+  typeof value === 'string' && value in SIGNALS;
+
+/**
+ * Exit status of a job stopped by a signal: 128 plus its number. Aborts
+ * without a signal count as Ctrl+C.
+ */
+export const getSignalExitStatus = (reason: unknown): number =>
+  128 + SIGNALS[isSignal(reason) ? reason : 'SIGINT'];
+
+/**
+ * `SIGTERM`, `TERM`, `15` and `term` all name the same signal
+ */
+const parseSignal = (name: string): TerminalSignal | undefined => {
+  if (/^\d+$/.test(name)) {
+    return (Object.keys(SIGNALS) as TerminalSignal[]).find(signal => SIGNALS[signal] === Number(name));
+  }
+  const signal = name.toUpperCase().replace(/^(SIG)?/, 'SIG');
+  return isSignal(signal) ? signal : undefined;
+};
+
+/**
+ * How a job ended, as `jobs` and the Done notice show it
+ */
+export const formatJobState = (status: number): string => {
+  if (status === 0) return 'Done';
+  const signal = (Object.keys(SIGNALS) as TerminalSignal[]).find(name => 128 + SIGNALS[name] === status);
+  return signal ? SIGNAL_STATES[signal] : `Exit ${status}`;
+};
+
+/**
+ * A job line like `[1]+  Running                 sleep 10 &`. The current
+ * job, which `fg` picks by default, is marked `+` and the one before it `-`.
+ */
+export const formatJobLine = (job: TerminalJob, state: string, mark = ' ', showPid = false): string =>
+  `[${job.number}]${mark} ${showPid ? ` ${job.pid}` : ''} ${state.padEnd(24)}${job.command}${state === 'Running' ? ' &' : ''}`;
+
+const getJobMarks = (jobs: TerminalJob[]) => (job: TerminalJob) =>
+  job === jobs[jobs.length - 1] ? '+' : job === jobs[jobs.length - 2] ? '-' : ' ';
+
+// Resolves early when the signal aborts; commands then report how they ended
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+
+const sleepCommand: TerminalCommand = {
+  id: 'sleep',
+  name: 'sleep',
+  description: 'Wait for a number of seconds',
+  usage: 'sleep number[s|m|h]...',
+  args: [{ name: 'duration', description: 'Seconds to wait, or minutes and hours with m and h; durations add up', variadic: true }],
+  execute: async (args, _context, io) => {
+    if (args.length === 0) {
+      return { type: 'error', content: 'sleep: missing operand' };
+    }
+
+    let seconds = 0;
+    for (const arg of args) {
+      const match = /^(\d+(?:\.\d+)?|\.\d+)([smh]?)$/.exec(arg);
+      if (!match) return { type: 'error', content: `sleep: invalid time interval '${arg}'` };
+      seconds += Number(match[1]) * DURATION_UNITS[match[2] || 's'];
+    }
+
+    await delay(seconds * 1000, io?.signal);
+    if (io?.signal?.aborted) {
+      return { type: 'info', content: '', exitCode: getSignalExitStatus(io.signal.reason) };
+    }
+  },
+};
+
+const jobsCommand: TerminalCommand = {
+  id: 'jobs',
+  name: 'jobs',
+  description: 'List the background jobs of this window',
+  flags: [
+    { names: ['-l'], description: 'Include process IDs' },
+    { names: ['-p'], description: 'Print only process IDs' },
+  ],
+  args: [{ name: 'job', description: 'Jobs to list, such as %1 or %sleep', optional: true, variadic: true }],
+  execute: (args, context) => {
+    const { flags, operands } = parseArgs(args, { flags: 'lp' });
+    const all = context.jobs.list();
+    const errors: string[] = [];
+    const selected = operands.length === 0 ? all : operands.flatMap(spec => {
+      const job = context.jobs.find(spec);
+      if (!job) errors.push(`jobs: ${spec}: no such job`);
+      return job ? [job] : [];
+    });
+
+    const mark = getJobMarks(all);
+    const lines = selected.map(job =>
+      flags.has('p') ? String(job.pid) : formatJobLine(job, 'Running', mark(job), flags.has('l'))
+    );
+    return finishCommand(undefined, lines.join('\n'), errors);
+  },
+};
+
+/**
+ * Find a job for `fg` and `kill`: `%` forms, or a bare job number
+ */
+const findJob = (context: TerminalContext, spec: string) =>
+  context.jobs.find(spec.startsWith('%') ? spec : `%${spec}`);
+
+const fgCommand: TerminalCommand = {
+  id: 'fg',
+  name: 'fg',
+  description: 'Bring a background job to the foreground and wait for it',
+  args: [{ name: 'job', description: 'Job to wait for, the current job (%+) by default', optional: true }],
+  execute: async (args, context, io) => {
+    const spec = args[0] ?? '%+';
+    const job = findJob(context, spec);
+    if (!job) {
+      return { type: 'error', content: `fg: ${args[0] ?? 'current'}: no such job` };
+    }
+
+    io?.stdout.write(`${job.command}\n`);
+    context.jobs.setBackground(job.pid, false);
+    // Ctrl+C now interrupts the job
+    const interrupt = () => context.jobs.kill(job.pid, 'SIGINT');
+    io?.signal?.addEventListener('abort', interrupt, { once: true });
+    try {
+      return { type: 'info', content: '', exitCode: await context.jobs.wait(job.pid) };
+    } finally {
+      io?.signal?.removeEventListener('abort', interrupt);
+    }
+  },
+};
+
+const killCommand: TerminalCommand = {
+  id: 'kill',
+  name: 'kill',
+  description: 'Send a signal to jobs, stopping them, or close windows',
+  usage: 'kill [-s signal | -signal] %job|pid|window... | kill -l',
+  flags: [
+    { names: ['-s'], value: 'signal', description: 'Signal to send, SIGTERM by default', complete: Object.keys(SIGNALS) },
+    { names: ['-l'], description: 'List the signal names' },
+  ],
+  args: [{
+    name: 'target',
+    description: 'Jobs as %n, process IDs as shown by jobs -l and Task Manager, or window IDs as shown by ps',
+    variadic: true,
+    complete: (context) => [
+      ...context.jobs.list().map(job => `%${job.number}`),
+      ...context.windows.list().map(window => window.id),
+    ],
+  }],
+  execute: (args, context) => {
+    if (args[0] === '-l') {
+      return { type: 'info', content: Object.entries(SIGNALS).map(([name, number]) => `${number}) ${name}`).join('\n') };
+    }
+
+    // `-9` and `-KILL` name the signal directly, so they are read before the targets
+    let signal: TerminalSignal = 'SIGTERM';
+    let targets = args;
+    if (args[0] === '-s' || (args[0]?.startsWith('-') && args[0] !== '--')) {
+      const name = args[0] === '-s' ? args[1] : args[0].slice(1);
+      const parsed = name === undefined ? undefined : parseSignal(name);
+      if (!parsed) return { type: 'error', content: `kill: ${name ?? '-s'}: invalid signal specification` };
+      signal = parsed;
+      targets = args.slice(args[0] === '-s' ? 2 : 1);
+    }
+    if (targets[0] === '--') targets = targets.slice(1);
+    if (targets.length === 0) {
+      return { type: 'error', content: 'kill: usage: kill [-s signal | -signal] %job|pid|window... | kill -l' };
+    }
+
+    const errors: string[] = [];
+    targets.forEach(target => {
+      if (target.startsWith('%')) {
+        const job = context.jobs.find(target);
+        if (!job) errors.push(`kill: ${target}: no such job`);
+        else context.jobs.kill(job.pid, signal);
+      } else if (!/^\d+$/.test(target)) {
+        // Windows close as if from their title bar; SIGKILL closes them despite unsaved changes
+        const window = context.windows.find(target);
+        if (!window) errors.push(`kill: ${target}: arguments must be process, job or window IDs`);
+        else if (!context.windows.close(window.id, signal === 'SIGKILL')) {
+          errors.push(`kill: ${target}: window has unsaved changes; use kill -9 to close it anyway`);
+        }
+      } else if (!context.jobs.kill(Number(target), signal)) {
+        errors.push(`kill: (${target}) - No such process`);
+      }
+    });
+    return finishCommand(undefined, '', errors);
+  },
+};
+
+// Commands for long-running and background jobs
+export const jobCommands: TerminalCommand[] = [
+  sleepCommand,
+  jobsCommand,
+  fgCommand,
+  killCommand,
+];
@@ -0,0 +1,535 @@
+/**
+ * A small subset of the jq filter language: paths (`.a.b`, `.[0]`, `.[]`),
+ * pipes, commas, comparisons, `and`/`or`, array and object construction and
+ * common builtins such as `select`, `map`, `length` and `keys`.
+ */
+
+export class JsonQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonQueryError';
+  }
+}
+
+type Json = unknown;
+
+type QueryNode =
+  | { type: 'identity' }
+  | { type: 'recurse' }
+  | { type: 'literal'; value: Json }
+  | { type: 'field'; target: QueryNode; name: QueryNode; optional: boolean }
+  | { type: 'slice'; target: QueryNode; from: QueryNode | null; to: QueryNode | null }
+  | { type: 'iterate'; target: QueryNode; optional: boolean }
+  | { type: 'pipe'; left: QueryNode; right: QueryNode }
+  | { type: 'comma'; left: QueryNode; right: QueryNode }
+  | { type: 'binary'; operator: string; left: QueryNode; right: QueryNode }
+  | { type: 'alternative'; left: QueryNode; right: QueryNode }
+  | { type: 'array'; body: QueryNode | null }
+  | { type: 'object'; entries: Array<{ key: QueryNode; value: QueryNode }> }
+  | { type: 'call'; name: string; args: QueryNode[] };
+
+interface Token {
+  type: 'punct' | 'ident' | 'field' | 'string' | 'number';
+  value: string;
+}
+
+const PUNCTUATION = ['==', '!=', '<=', '>=', '//', '..', '|', ',', '.', '[', ']', '(', ')', '{', '}', ':', '<', '>', '+', '-', '*', '/', '?', ';'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      if (end >= source.length) throw new JsonQueryError('unterminated string');
+      tokens.push({ type: 'string', value: JSON.parse(source.slice(i, end + 1)) });
+      i = end + 1;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+
+    const field = /^\.([A-Za-z_][A-Za-z0-9_]*)/.exec(source.slice(i));
+    if (field) {
+      tokens.push({ type: 'field', value: field[1] });
+      i += field[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(candidate => source.startsWith(candidate, i));
+    if (!punct) throw new JsonQueryError(`unexpected character '${char}'`);
+    tokens.push({ type: 'punct', value: punct });
+    i += punct.length;
+  }
+
+  return tokens;
+};
+
+const BINARY_PRECEDENCE: Array<string[]> = [
+  ['//'],
+  ['or'],
+  ['and'],
+  ['==', '!=', '<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/'],
+];
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  public parse(): QueryNode {
+    const node = this.parsePipe();
+    if (this.peek()) throw new JsonQueryError(`unexpected '${this.peek()!.value}'`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      throw new JsonQueryError(`expected '${value}'${this.peek() ? ` but found '${this.peek()!.value}'` : ''}`);
+    }
+    this.position++;
+  }
+
+  private parsePipe(): QueryNode {
+    let left = this.parseComma();
+    while (this.isPunct('|')) {
+      this.position++;
+      left = { type: 'pipe', left, right: this.parseComma() };
+    }
+    return left;
+  }
+
+  private parseComma(): QueryNode {
+    let left = this.parseBinary(0);
+    while (this.isPunct(',')) {
+      this.position++;
+      left = { type: 'comma', left, right: this.parseBinary(0) };
+    }
+    return left;
+  }
+
+  private parseBinary(level: number): QueryNode {
+    if (level === BINARY_PRECEDENCE.length) return this.parsePostfix();
+
+    let left = this.parseBinary(level + 1);
+    while (this.isOperator(BINARY_PRECEDENCE[level])) {
+      const operator = this.tokens[this.position++].value;
+      const right = this.parseBinary(level + 1);
+      left = operator === '//' ? { type: 'alternative', left, right } : { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parsePostfix(): QueryNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      const token = this.peek();
+      if (token?.type === 'field') {
+        this.position++;
+        node = { type: 'field', target: node, name: { type: 'literal', value: token.value }, optional: this.optional() };
+      } else if (this.isPunct('.') && this.tokens[this.position + 1]?.value === '[') {
+        this.position++;
+      } else if (this.isPunct('[')) {
+        node = this.parseBracket(node);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private isOperator(operators: string[]): boolean {
+    const token = this.peek();
+    return (token?.type === 'punct' || token?.type === 'ident') && operators.includes(token.value);
+  }
+
+  private optional(): boolean {
+    if (!this.isPunct('?')) return false;
+    this.position++;
+    return true;
+  }
+
+  private parseBracket(target: QueryNode): QueryNode {
+    this.expect('[');
+    if (this.isPunct(']')) {
+      this.position++;
+      return { type: 'iterate', target, optional: this.optional() };
+    }
+
+    const from = this.isPunct(':') ? null : this.parsePipe();
+    if (this.isPunct(':')) {
+      this.position++;
+      const to = this.isPunct(']') ? null : this.parsePipe();
+      this.expect(']');
+      return { type: 'slice', target, from, to };
+    }
+    this.expect(']');
+    return { type: 'field', target, name: from!, optional: this.optional() };
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) throw new JsonQueryError('unexpected end of filter');
+    this.position++;
+
+    switch (token.type) {
+      case 'field':
+        return { type: 'field', target: { type: 'identity' }, name: { type: 'literal', value: token.value }, optional: this.optional() };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'ident':
+        return this.parseIdentifier(token.value);
+    }
+
+    switch (token.value) {
+      case '.':
+        return { type: 'identity' };
+      case '..':
+        return { type: 'recurse' };
+      case '-':
+        return { type: 'binary', operator: '-', left: { type: 'literal', value: 0 }, right: this.parsePostfix() };
+      case '(': {
+        const node = this.parsePipe();
+        this.expect(')');
+        return node;
+      }
+      case '[': {
+        const body = this.isPunct(']') ? null : this.parsePipe();
+        this.expect(']');
+        return { type: 'array', body };
+      }
+      case '{':
+        return this.parseObject();
+      default:
+        throw new JsonQueryError(`unexpected '${token.value}'`);
+    }
+  }
+
+  private parseIdentifier(name: string): QueryNode {
+    if (name === 'true' || name === 'false') return { type: 'literal', value: name === 'true' };
+    if (name === 'null') return { type: 'literal', value: null };
+
+    const args: QueryNode[] = [];
+    if (this.isPunct('(')) {
+      this.position++;
+      args.push(this.parsePipe());
+      while (this.isPunct(';')) {
+        this.position++;
+        args.push(this.parsePipe());
+      }
+      this.expect(')');
+    }
+    return { type: 'call', name, args };
+  }
+
+  private parseObject(): QueryNode {
+    const entries: Array<{ key: QueryNode; value: QueryNode }> = [];
+
+    while (!this.isPunct('}')) {
+      const token = this.peek();
+      if (!token) throw new JsonQueryError("expected '}'");
+      this.position++;
+
+      let key: QueryNode;
+      if (token.type === 'ident' || token.type === 'string') key = { type: 'literal', value: token.value };
+      else if (token.value === '(') {
+        key = this.parsePipe();
+        this.expect(')');
+      } else throw new JsonQueryError(`unexpected '${token.value}' in object`);
+
+      let value: QueryNode;
+      if (this.isPunct(':')) {
+        this.position++;
+        value = this.parseBinary(0);
+      } else if (key.type === 'literal') {
+        // `{name}` is shorthand for `{name: .name}`
+        value = { type: 'field', target: { type: 'identity' }, name: key, optional: false };
+      } else {
+        throw new JsonQueryError("expected ':' in object");
+      }
+      entries.push({ key, value });
+
+      if (!this.isPunct(',')) break;
+      this.position++;
+    }
+
+    this.expect('}');
+    return { type: 'object', entries };
+  }
+}
+
+const typeOf = (value: Json): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isTruthy = (value: Json) => value !== false && value !== null && value !== undefined;
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+// jq orders values by type first, then by value
+const compare = (a: Json, b: Json): number => {
+  const typeDifference = TYPE_ORDER.indexOf(typeOf(a)) - TYPE_ORDER.indexOf(typeOf(b));
+  if (typeDifference !== 0) return Math.sign(typeDifference);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'boolean') return Number(a) - Number(b);
+  const left = JSON.stringify(a);
+  const right = JSON.stringify(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const add = (a: Json, b: Json): Json => {
+  if (a === null) return b;
+  if (b === null) return a;
+  if (typeof a === 'number' && typeof b === 'number') return a + b;
+  if (typeof a === 'string' && typeof b === 'string') return a + b;
+  if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+  if (typeOf(a) === 'object' && typeOf(b) === 'object') return { ...(a as object), ...(b as object) };
+  throw new JsonQueryError(`${typeOf(a)} and ${typeOf(b)} cannot be added`);
+};
+
+// Strings contain substrings, arrays contain every needle element and objects every needle key
+const contains = (haystack: Json, needle: Json): boolean => {
+  if (typeOf(haystack) !== typeOf(needle)) {
+    throw new JsonQueryError(`${typeOf(haystack)} and ${typeOf(needle)} cannot have their containment checked`);
+  }
+  if (typeof haystack === 'string') return haystack.includes(needle as string);
+  if (Array.isArray(haystack)) {
+    return (needle as Json[]).every(item => haystack.some(value => typeOf(value) === typeOf(item) && contains(value, item)));
+  }
+  if (typeOf(haystack) === 'object') {
+    const object = haystack as Record<string, Json>;
+    return Object.entries(needle as Record<string, Json>).every(([key, value]) => key in object && contains(object[key], value));
+  }
+  return compare(haystack, needle) === 0;
+};
+
+const evaluateBinary = (operator: string, a: Json, b: Json): Json => {
+  switch (operator) {
+    case '==': return compare(a, b) === 0;
+    case '!=': return compare(a, b) !== 0;
+    case '<': return compare(a, b) < 0;
+    case '<=': return compare(a, b) <= 0;
+    case '>': return compare(a, b) > 0;
+    case '>=': return compare(a, b) >= 0;
+    case 'and': return isTruthy(a) && isTruthy(b);
+    case 'or': return isTruthy(a) || isTruthy(b);
+    case '+': return add(a, b);
+  }
+
+  if (typeof a !== 'number' || typeof b !== 'number') {
+    throw new JsonQueryError(`${typeOf(a)} and ${typeOf(b)} cannot be used with '${operator}'`);
+  }
+  if (operator === '-') return a - b;
+  if (operator === '*') return a * b;
+  if (b === 0) throw new JsonQueryError('division by zero');
+  return a / b;
+};
+
+const entriesOf = (value: Json, name: string): Array<[string, Json]> => {
+  if (Array.isArray(value)) return value.map((item, index) => [String(index), item]);
+  if (typeOf(value) === 'object') return Object.entries(value as Record<string, Json>);
+  throw new JsonQueryError(`${name}: cannot be applied to ${typeOf(value)}`);
+};
+
+const evaluate = (node: QueryNode, input: Json): Json[] => {
+  switch (node.type) {
+    case 'identity':
+      return [input];
+    case 'literal':
+      return [node.value];
+    case 'recurse': {
+      const results: Json[] = [];
+      const visit = (value: Json) => {
+        results.push(value);
+        if (Array.isArray(value)) value.forEach(visit);
+        else if (typeOf(value) === 'object') Object.values(value as object).forEach(visit);
+      };
+      visit(input);
+      return results;
+    }
+    case 'pipe':
+      return evaluate(node.left, input).flatMap(value => evaluate(node.right, value));
+    case 'comma':
+      return [...evaluate(node.left, input), ...evaluate(node.right, input)];
+    case 'alternative': {
+      const left = evaluate(node.left, input).filter(isTruthy);
+      return left.length > 0 ? left : evaluate(node.right, input);
+    }
+    case 'binary':
+      return evaluate(node.right, input).flatMap(right =>
+        evaluate(node.left, input).map(left => evaluateBinary(node.operator, left, right))
+      );
+    case 'array':
+      return [node.body ? evaluate(node.body, input) : []];
+    case 'object':
+      return node.entries.reduce<Array<Record<string, Json>>>((objects, { key, value }) =>
+        objects.flatMap(object => evaluate(key, input).flatMap(name => {
+          if (typeof name !== 'string') throw new JsonQueryError(`object keys must be strings, not ${typeOf(name)}`);
+          return evaluate(value, input).map(item => ({ ...object, [name]: item }));
+        })), [{}]);
+    case 'field':
+      return evaluate(node.target, input).flatMap(target => evaluate(node.name, input).flatMap(name => {
+        if (target === null) return [null];
+        if (typeof name === 'number' && Array.isArray(target)) {
+          return [target[name < 0 ? target.length + name : name] ?? null];
+        }
+        if (typeof name === 'string' && typeOf(target) === 'object') {
+          return [(target as Record<string, Json>)[name] ?? null];
+        }
+        if (node.optional) return [];
+        throw new JsonQueryError(`cannot index ${typeOf(target)} with ${typeof name === 'string' ? `"${name}"` : typeOf(name)}`);
+      }));
+    case 'slice':
+      return evaluate(node.target, input).map(target => {
+        if (target === null) return null;
+        if (!Array.isArray(target) && typeof target !== 'string') {
+          throw new JsonQueryError(`cannot slice ${typeOf(target)}`);
+        }
+        const from = node.from ? evaluate(node.from, input)[0] : undefined;
+        const to = node.to ? evaluate(node.to, input)[0] : undefined;
+        return target.slice(from as number | undefined, to as number | undefined);
+      });
+    case 'iterate':
+      return evaluate(node.target, input).flatMap(target => {
+        if (Array.isArray(target)) return target;
+        if (typeOf(target) === 'object') return Object.values(target as object);
+        if (node.optional) return [];
+        throw new JsonQueryError(`cannot iterate over ${typeOf(target)}`);
+      });
+    case 'call':
+      return callBuiltin(node.name, node.args, input);
+  }
+};
+
+const single = (node: QueryNode, input: Json): Json => evaluate(node, input)[0] ?? null;
+
+const callBuiltin = (name: string, args: QueryNode[], input: Json): Json[] => {
+  const arity = `${name}/${args.length}`;
+  switch (arity) {
+    case 'empty/0':
+      return [];
+    case 'not/0':
+      return [!isTruthy(input)];
+    case 'length/0':
+      if (input === null) return [0];
+      if (typeof input === 'number') return [Math.abs(input)];
+      if (typeof input === 'string' || Array.isArray(input)) return [input.length];
+      return [entriesOf(input, 'length').length];
+    case 'keys/0':
+      return [entriesOf(input, 'keys').map(([key]) => (Array.isArray(input) ? Number(key) : key)).sort(compare)];
+    case 'values/0':
+      return isTruthy(input) ? [input] : [];
+    case 'type/0':
+      return [typeOf(input)];
+    case 'has/1': {
+      const key = single(args[0], input);
+      return [Array.isArray(input) ? typeof key === 'number' && key < input.length : key as string in (input as object)];
+    }
+    case 'select/1':
+      return evaluate(args[0], input).some(isTruthy) ? [input] : [];
+    case 'map/1':
+      return [entriesOf(input, 'map').flatMap(([, value]) => evaluate(args[0], value))];
+    case 'to_entries/0':
+      return [entriesOf(input, 'to_entries').map(([key, value]) => ({ key, value }))];
+    case 'add/0':
+      return [entriesOf(input, 'add').reduce<Json>((sum, [, value]) => add(sum, value), null)];
+    case 'first/0':
+    case 'last/0': {
+      const values = entriesOf(input, name).map(([, value]) => value);
+      return [(name === 'first' ? values[0] : values[values.length - 1]) ?? null];
+    }
+    case 'first/1':
+      return evaluate(args[0], input).slice(0, 1);
+    case 'reverse/0':
+      return [typeof input === 'string' ? [...input].reverse().join('') : entriesOf(input, 'reverse').map(([, value]) => value).reverse()];
+    case 'sort/0':
+    case 'unique/0': {
+      const sorted = entriesOf(input, name).map(([, value]) => value).sort(compare);
+      return [name === 'sort' ? sorted : sorted.filter((value, index) => index === 0 || compare(value, sorted[index - 1]) !== 0)];
+    }
+    case 'sort_by/1':
+      return [entriesOf(input, 'sort_by').map(([, value]) => value)
+        .sort((a, b) => compare(evaluate(args[0], a), evaluate(args[0], b)))];
+    case 'min/0':
+    case 'max/0': {
+      const sorted = entriesOf(input, name).map(([, value]) => value).sort(compare);
+      return [(name === 'min' ? sorted[0] : sorted[sorted.length - 1]) ?? null];
+    }
+    case 'join/1': {
+      const separator = single(args[0], input);
+      return [entriesOf(input, 'join').map(([, value]) => (value === null ? '' : String(value))).join(String(separator))];
+    }
+    case 'tostring/0':
+      return [typeof input === 'string' ? input : JSON.stringify(input)];
+    case 'tonumber/0': {
+      const number = Number(input);
+      if (Number.isNaN(number)) throw new JsonQueryError(`cannot parse '${String(input)}' as a number`);
+      return [number];
+    }
+    case 'ascii_downcase/0':
+    case 'ascii_upcase/0':
+      if (typeof input !== 'string') throw new JsonQueryError(`${name} input must be a string`);
+      return [name === 'ascii_downcase' ? input.toLowerCase() : input.toUpperCase()];
+    case 'test/1':
+    case 'test/2': {
+      if (typeof input !== 'string') throw new JsonQueryError(`${typeOf(input)} cannot be matched, as it is not a string`);
+      const flags = args[1] ? String(single(args[1], input)).replace(/[^gimsuy]/g, '') : '';
+      return [new RegExp(String(single(args[0], input)), flags).test(input)];
+    }
+    case 'contains/1':
+      return [contains(input, single(args[0], input))];
+    default:
+      throw new JsonQueryError(`${arity} is not defined`);
+  }
+};
+
+/**
+ * Compile a filter once and run it against any number of inputs
+ */
+const compile = (filter: string): ((input: Json) => Json[]) => {
+  const node = new QueryParser(tokenize(filter)).parse();
+  return (input: Json) => evaluate(node, input);
+};
+
+export const jsonQuery = {
+  compile,
+  run: (filter: string, input: Json): Json[] => compile(filter)(input),
+};
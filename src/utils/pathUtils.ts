@@ -0,0 +1,125 @@
+// Characters that are not allowed inside a single path segment
+const INVALID_NAME_CHARS = /[/\\:*?"<>|\0]/;
+const MAX_NAME_LENGTH = 255;
+
+// POSIX-style path utilities for the virtual file system
+export const pathUtils = {
+  /**
+   * Normalizes a path: collapses duplicate slashes, resolves `.` and `..`
+   * segments and strips any trailing slash. Always returns an absolute path.
+   */
+  normalize: (path: string): string => {
+    const segments: string[] = [];
+
+    for (const part of path.split('/')) {
+      if (part === '' || part === '.') continue;
+      if (part === '..') {
+        segments.pop();
+        continue;
+      }
+      segments.push(part);
+    }
+
+    return '/' + segments.join('/');
+  },
+
+  /**
+   * Joins path segments and normalizes the result
+   */
+  join: (...parts: string[]): string => {
+    return pathUtils.normalize(parts.filter(Boolean).join('/'));
+  },
+
+  /**
+   * Resolves a path against a working directory (absolute paths win)
+   */
+  resolve: (cwd: string, path: string): string => {
+    if (path.startsWith('/')) {
+      return pathUtils.normalize(path);
+    }
+    return pathUtils.join(cwd, path);
+  },
+
+  /**
+   * Returns the parent directory of a path
+   */
+  dirname: (path: string): string => {
+    const normalized = pathUtils.normalize(path);
+    const index = normalized.lastIndexOf('/');
+    return index <= 0 ? '/' : normalized.slice(0, index);
+  },
+
+  /**
+   * Returns the last segment of a path
+   */
+  basename: (path: string): string => {
+    const normalized = pathUtils.normalize(path);
+    return normalized.slice(normalized.lastIndexOf('/') + 1);
+  },
+
+  /**
+   * Returns the lower-cased extension of a file name without the dot
+   */
+  extname: (name: string): string | undefined => {
+    const base = name.slice(name.lastIndexOf('/') + 1);
+    const index = base.lastIndexOf('.');
+    if (index <= 0 || index === base.length - 1) {
+      return undefined;
+    }
+    return base.slice(index + 1).toLowerCase();
+  },
+
+  /**
+   * Splits a file name into its stem and extension (including the dot)
+   */
+  splitExtension: (name: string): { stem: string; extension: string } => {
+    const index = name.lastIndexOf('.');
+    if (index <= 0) {
+      return { stem: name, extension: '' };
+    }
+    return { stem: name.slice(0, index), extension: name.slice(index) };
+  },
+
+  /**
+   * Checks whether `path` equals `ancestor` or lives somewhere below it
+   */
+  isWithin: (path: string, ancestor: string): boolean => {
+    const normalizedPath = pathUtils.normalize(path);
+    const normalizedAncestor = pathUtils.normalize(ancestor);
+    if (normalizedAncestor === '/') return true;
+    return (
+      normalizedPath === normalizedAncestor ||
+      normalizedPath.startsWith(normalizedAncestor + '/')
+    );
+  },
+
+  /**
+   * Returns the number of segments in a path (`/` has depth 0)
+   */
+  depth: (path: string): number => {
+    const normalized = pathUtils.normalize(path);
+    return normalized === '/' ? 0 : normalized.split('/').length - 1;
+  },
+
+  /**
+   * Validates a single file or folder name, returning an error message or null
+   */
+  validateName: (name: string): string | null => {
+    if (!name || !name.trim()) {
+      return 'Name cannot be empty';
+    }
+    if (name === '.' || name === '..') {
+      return `'${name}' is a reserved name`;
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return `Name cannot be longer than ${MAX_NAME_LENGTH} characters`;
+    }
+    if (INVALID_NAME_CHARS.test(name)) {
+      return 'Name cannot contain any of the following characters: / \\ : * ? " < > |';
+    }
+    if (name !== name.trim()) {
+      return 'Name cannot start or end with whitespace';
+    }
+    return null;
+  },
+};
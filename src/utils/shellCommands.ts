@@ -0,0 +1,388 @@
+import type { TerminalCommand, TerminalContext, TerminalIO, TerminalOutput } from '../types';
+import { parseArgs } from './commandArgs';
+import { finishCommand, resolveTerminalPath } from './fileCommands';
+import { runShell } from './shellInterpreter';
+
+// The startup script every Terminal window runs, relative to the home folder
+export const TERMINAL_RC_FILE = '~/.portfoliorc';
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Completion of exported variable and alias names
+const variableNames = (context: TerminalContext) => context.env.getExported().map(([name]) => name);
+const aliasNames = (context: TerminalContext) => context.env.getAliases().map(([name]) => name);
+
+const quoteValue = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+// A subshell: a copy of the exported variables and its own working directory
+const createSubshellContext = (context: TerminalContext): TerminalContext => {
+  const child: TerminalContext = {
+    ...context,
+    env: context.env.createChild(),
+    setCwd: path => {
+      child.cwd = path;
+    },
+  };
+  return child;
+};
+
+/**
+ * Run a script file from the VFS with the given streams. `source` runs it in
+ * the caller's session; otherwise it gets a copy of the exported variables and
+ * its own working directory, as `sh script.sh` does.
+ */
+export const runScriptFile = async (
+  name: string,
+  [file, ...args]: string[],
+  context: TerminalContext,
+  io: TerminalIO | undefined,
+  inSession: boolean
+): Promise<TerminalOutput> => {
+  if (file === undefined) {
+    return { type: 'error', content: `${name}: missing script operand` };
+  }
+
+  const node = context.fs.navigateToPath(resolveTerminalPath(context, file));
+  if (!node) return { type: 'error', content: `${name}: ${file}: No such file or folder` };
+  if (node.type === 'folder') return { type: 'error', content: `${name}: ${file}: Is a folder` };
+
+  const scriptContext = inSession ? context : createSubshellContext(context);
+  const { exitCode, outputs } = await runShell(context.fs.readFile(node.path), scriptContext, {
+    io,
+    args: [file, ...args],
+  });
+  // Without streams to write to, the script's output becomes the result
+  const content = outputs.map(output => output.content).join('\n');
+  return { type: exitCode === 0 ? 'info' : 'error', content, timestamp: new Date(), exitCode };
+};
+
+const exportCommand: TerminalCommand = {
+  id: 'export',
+  name: 'export',
+  description: 'Set environment variables passed on to scripts',
+  usage: 'export [NAME[=value]...]',
+  flags: [{ names: ['-p'], description: 'List the exported variables' }],
+  args: [{ name: 'NAME[=value]', description: 'Variables to export, setting them when a value is given', optional: true, variadic: true, complete: variableNames }],
+  execute: (args, context) => {
+    if (args.length === 0 || (args.length === 1 && args[0] === '-p')) {
+      const lines = context.env.getExported().map(([name, value]) => `export ${name}=${quoteValue(value)}`);
+      return { type: 'info', content: lines.join('\n') };
+    }
+
+    const errors: string[] = [];
+    args.forEach(arg => {
+      const [name, ...valueParts] = arg.split('=');
+      if (!NAME.test(name)) {
+        errors.push(`export: '${arg}': not a valid identifier`);
+      } else if (valueParts.length > 0) {
+        context.env.set(name, valueParts.join('='), true);
+      } else {
+        context.env.export(name);
+      }
+    });
+    return finishCommand(undefined, '', errors);
+  },
+};
+
+const unsetCommand: TerminalCommand = {
+  id: 'unset',
+  name: 'unset',
+  description: 'Remove variables',
+  usage: 'unset NAME...',
+  args: [{ name: 'NAME', description: 'Variables to remove', variadic: true, complete: variableNames }],
+  execute: (args, context) => {
+    args.forEach(name => context.env.unset(name));
+  },
+};
+
+const envCommand: TerminalCommand = {
+  id: 'env',
+  name: 'env',
+  description: 'Print the environment variables',
+  usage: 'env',
+  aliases: ['printenv'],
+  args: [{ name: 'NAME', description: 'Print only these variables, as printenv does', optional: true, variadic: true, complete: variableNames }],
+  execute: (args, context) => {
+    if (args.length > 0) {
+      // printenv NAME prints a single value
+      const values = args.map(name => context.env.isExported(name) ? context.env.get(name) : undefined);
+      const found = values.filter((value): value is string => value !== undefined);
+      return { type: 'info', content: found.join('\n'), exitCode: found.length === values.length ? 0 : 1 };
+    }
+    return { type: 'info', content: context.env.getExported().map(([name, value]) => `${name}=${value}`).join('\n') };
+  },
+};
+
+const aliasCommand: TerminalCommand = {
+  id: 'alias',
+  name: 'alias',
+  description: 'Define or list command aliases',
+  usage: "alias [name[='command']...]",
+  args: [{ name: "name[='command']", description: 'Aliases to define, or to print without a command', optional: true, variadic: true, complete: aliasNames }],
+  execute: (args, context) => {
+    if (args.length === 0) {
+      const lines = context.env.getAliases().map(([name, value]) => `alias ${name}=${quoteValue(value)}`);
+      return { type: 'info', content: lines.join('\n') };
+    }
+
+    const lines: string[] = [];
+    const errors: string[] = [];
+    args.forEach(arg => {
+      const index = arg.indexOf('=');
+      if (index === -1) {
+        const value = context.env.getAlias(arg);
+        if (value === undefined) errors.push(`alias: ${arg}: not found`);
+        else lines.push(`alias ${arg}=${quoteValue(value)}`);
+        return;
+      }
+
+      const name = arg.slice(0, index);
+      if (!name || /[\s/$'"=]/.test(name)) {
+        errors.push(`alias: '${name}': invalid alias name`);
+      } else {
+        context.env.setAlias(name, arg.slice(index + 1));
+      }
+    });
+    return finishCommand(undefined, lines.join('\n'), errors);
+  },
+};
+
+const unaliasCommand: TerminalCommand = {
+  id: 'unalias',
+  name: 'unalias',
+  description: 'Remove command aliases',
+  usage: 'unalias [-a] name...',
+  flags: [{ names: ['-a'], description: 'Remove all aliases' }],
+  args: [{ name: 'name', description: 'Aliases to remove', variadic: true, complete: aliasNames }],
+  execute: (args, context) => {
+    const { flags, operands } = parseArgs(args, { flags: 'a' });
+    if (flags.has('a')) {
+      context.env.getAliases().forEach(([name]) => context.env.removeAlias(name));
+      return;
+    }
+    if (operands.length === 0) {
+      return { type: 'error', content: 'unalias: usage: unalias [-a] name...' };
+    }
+
+    const errors = operands
+      .filter(name => !context.env.removeAlias(name))
+      .map(name => `unalias: ${name}: not found`);
+    return finishCommand(undefined, '', errors);
+  },
+};
+
+const sourceCommand: TerminalCommand = {
+  id: 'source',
+  name: 'source',
+  description: 'Run a script in the current session, keeping its variables and aliases',
+  usage: 'source file [args...]',
+  aliases: ['.'],
+  args: [
+    { name: 'file', description: 'Script to run', complete: 'path' },
+    { name: 'args', description: 'Positional parameters $1, $2... for the script', optional: true, variadic: true, complete: 'path' },
+  ],
+  execute: (args, context, io) => runScriptFile('source', args, context, io, true),
+};
+
+const shCommand: TerminalCommand = {
+  id: 'sh',
+  name: 'sh',
+  description: 'Run a shell script, or a command with -c',
+  usage: 'sh [-c command | file] [args...]',
+  aliases: ['bash'],
+  flags: [{ names: ['-c'], value: 'command', description: 'Run the command instead of a script file' }],
+  args: [
+    { name: 'file', description: 'Script to run with its own variables and working directory', optional: true, complete: 'path' },
+    { name: 'args', description: 'Positional parameters $1, $2... for the script', optional: true, variadic: true, complete: 'path' },
+  ],
+  execute: async (args, context, io) => {
+    if (args[0] === '-c') {
+      if (args[1] === undefined) return { type: 'error', content: 'sh: -c: option requires an argument' };
+      const { exitCode } = await runShell(args[1], createSubshellContext(context), { io, args: args.slice(2).length ? args.slice(2) : ['sh'] });
+      return { type: 'info', content: '', exitCode };
+    }
+    return runScriptFile('sh', args, context, io, false);
+  },
+};
+
+/**
+ * Evaluate a `test` expression: file tests, string tests, integer comparisons,
+ * `!` and the binary `-a`/`-o`
+ */
+const evaluateTest = (args: string[], context: TerminalContext): boolean => {
+  const orIndex = args.lastIndexOf('-o');
+  if (orIndex > 0) return evaluateTest(args.slice(0, orIndex), context) || evaluateTest(args.slice(orIndex + 1), context);
+  const andIndex = args.lastIndexOf('-a');
+  if (andIndex > 0) return evaluateTest(args.slice(0, andIndex), context) && evaluateTest(args.slice(andIndex + 1), context);
+  if (args[0] === '!') return !evaluateTest(args.slice(1), context);
+
+  if (args.length === 0) return false;
+  if (args.length === 1) return args[0] !== '';
+
+  if (args.length === 2) {
+    const [operator, operand] = args;
+    const node = () => context.fs.navigateToPath(resolveTerminalPath(context, operand));
+    switch (operator) {
+      case '-n': return operand !== '';
+      case '-z': return operand === '';
+      case '-e': return node() !== null;
+      case '-f': return node()?.type === 'file';
+      case '-d': return node()?.type === 'folder';
+      case '-s': return (node()?.size ?? 0) > 0;
+      case '-w': return node() !== null && !context.fs.isReadOnly(node()!.path);
+      default: throw new Error(`${operator}: unary operator expected`);
+    }
+  }
+
+  if (args.length === 3) {
+    const [left, operator, right] = args;
+    if (operator === '=' || operator === '==') return left === right;
+    if (operator === '!=') return left !== right;
+
+    const integer = (value: string) => {
+      if (!/^\s*-?\d+\s*$/.test(value)) throw new Error(`${value}: integer expression expected`);
+      return parseInt(value, 10);
+    };
+    switch (operator) {
+      case '-eq': return integer(left) === integer(right);
+      case '-ne': return integer(left) !== integer(right);
+      case '-lt': return integer(left) < integer(right);
+      case '-le': return integer(left) <= integer(right);
+      case '-gt': return integer(left) > integer(right);
+      case '-ge': return integer(left) >= integer(right);
+    }
+    throw new Error(`${operator}: binary operator expected`);
+  }
+
+  throw new Error('too many arguments');
+};
+
+const testCommand: TerminalCommand = {
+  id: 'test',
+  name: 'test',
+  description: 'Check files, strings and numbers for use with if and while',
+  usage: 'test expression | [ expression ]',
+  aliases: ['['],
+  manual: [
+    'Exits with 0 when the expression is true and 1 otherwise.',
+    '',
+    'Files: -e exists, -f is a file, -d is a folder, -s is not empty, -w is writable.',
+    'Strings: -n not empty, -z empty, a = b, a != b.',
+    'Integers: a -eq b, -ne, -lt, -le, -gt, -ge.',
+    'Combine with ! expr, expr -a expr and expr -o expr.',
+  ].join('\n'),
+  args: [{ name: 'expression', description: 'Expression to check, such as -f file or $n -gt 2', variadic: true, complete: 'path' }],
+  execute: (args, context) => {
+    // `[` is the same command, closed by a final `]`
+    const expression = args[args.length - 1] === ']' ? args.slice(0, -1) : args;
+    return { type: 'info', content: '', exitCode: evaluateTest(expression, context) ? 0 : 1 };
+  },
+};
+
+/**
+ * Expand `!!`, `!n`, `!-n` and `!prefix` with commands from the history,
+ * oldest first. Single-quoted and escaped `!` stay literal, as does a `!`
+ * followed by a space, `=`, a parenthesis, an operator or a quote.
+ */
+export const expandHistory = (line: string, commands: string[]): string => {
+  let result = '';
+  let singleQuoted = false;
+  let doubleQuoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '\\' && !singleQuoted) {
+      result += line.slice(index, index + 2);
+      index++;
+      continue;
+    }
+    if (char === "'" && !doubleQuoted) singleQuoted = !singleQuoted;
+    if (char === '"' && !singleQuoted) doubleQuoted = !doubleQuoted;
+
+    const next = line[index + 1];
+    if (char !== '!' || singleQuoted || next === undefined || /[\s=();|&<>'"]/.test(next)) {
+      result += char;
+      continue;
+    }
+
+    const event = next === '!' ? '!' : /^-?\d+|^[^\s;|&<>()'"]+/.exec(line.slice(index + 1))![0];
+    let command: string | undefined;
+    if (event === '!') {
+      command = commands[commands.length - 1];
+    } else if (/^\d+$/.test(event)) {
+      command = commands[parseInt(event, 10) - 1];
+    } else if (/^-\d+$/.test(event)) {
+      command = commands[commands.length + parseInt(event, 10)];
+    } else {
+      command = [...commands].reverse().find(previous => previous.startsWith(event));
+    }
+
+    if (command === undefined) throw new Error(`!${event}: event not found`);
+    result += command;
+    index += event.length;
+  }
+
+  return result;
+};
+
+const historyCommand: TerminalCommand = {
+  id: 'history',
+  name: 'history',
+  description: 'List or clear the commands entered in this window',
+  usage: 'history [-c] [count]',
+  flags: [{ names: ['-c'], description: 'Clear the history' }],
+  args: [{ name: 'count', description: 'List only the last count commands', optional: true }],
+  execute: (args, context) => {
+    const { flags, operands } = parseArgs(args, { flags: 'c' });
+    if (flags.has('c')) {
+      context.clearCommandHistory();
+      return;
+    }
+
+    const commands = context.getCommandHistory();
+    const count = operands[0] === undefined ? commands.length : Number(operands[0]);
+    if (!Number.isInteger(count) || count < 0) {
+      return { type: 'error', content: `history: ${operands[0]}: numeric argument required` };
+    }
+
+    // Numbers match `!n`
+    const width = String(commands.length).length;
+    const lines = commands
+      .map((command, index) => `${String(index + 1).padStart(width + 2)}  ${command}`)
+      .slice(commands.length - Math.min(count, commands.length));
+    return { type: 'info', content: lines.join('\n') };
+  },
+};
+
+const editCommand: TerminalCommand = {
+  id: 'edit',
+  name: 'edit',
+  description: 'Open a text file in Notepad, creating it if needed',
+  usage: 'edit [file]',
+  args: [{ name: 'file', description: `File to edit, ${TERMINAL_RC_FILE} by default`, optional: true, complete: 'path' }],
+  execute: (args, context) => {
+    const file = args[0] ?? TERMINAL_RC_FILE;
+    const path = resolveTerminalPath(context, file);
+    const node = context.fs.navigateToPath(path);
+
+    if (node?.type === 'folder') return { type: 'error', content: `edit: ${file}: Is a folder` };
+    if (!node) context.fs.createFile(path, '', { mimeType: 'text/plain' });
+
+    context.openApp('notepad', { launchData: { path } });
+    return { type: 'success', content: `Opening ${path} in Notepad...` };
+  },
+};
+
+// Shell builtins for variables, aliases, scripts, conditions and history
+export const shellCommands: TerminalCommand[] = [
+  exportCommand,
+  unsetCommand,
+  envCommand,
+  aliasCommand,
+  unaliasCommand,
+  sourceCommand,
+  shCommand,
+  testCommand,
+  historyCommand,
+  editCommand,
+];
@@ -0,0 +1,77 @@
+/**
+ * Variables and aliases of one Terminal session. Exported variables are
+ * passed on to scripts run with `sh`; other variables and aliases stay in
+ * the session that defined them.
+ */
+export class ShellEnvironment {
+  private variables = new Map<string, string>();
+  private exported = new Set<string>();
+  private aliases = new Map<string, string>();
+
+  constructor(exported: Record<string, string> = {}) {
+    Object.entries(exported).forEach(([name, value]) => this.set(name, value, true));
+  }
+
+  public get(name: string): string | undefined {
+    return this.variables.get(name);
+  }
+
+  /**
+   * Set a variable, exporting it when asked. Exported variables stay exported.
+   */
+  public set(name: string, value: string, exported = false): void {
+    this.variables.set(name, value);
+    if (exported) this.exported.add(name);
+  }
+
+  public export(name: string): void {
+    this.exported.add(name);
+  }
+
+  public unset(name: string): boolean {
+    this.exported.delete(name);
+    return this.variables.delete(name);
+  }
+
+  public isExported(name: string): boolean {
+    return this.exported.has(name);
+  }
+
+  /**
+   * Exported variables that have a value, sorted by name
+   */
+  public getExported(): Array<[string, string]> {
+    return [...this.variables.entries()]
+      .filter(([name]) => this.exported.has(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  public getAlias(name: string): string | undefined {
+    return this.aliases.get(name);
+  }
+
+  public setAlias(name: string, value: string): void {
+    this.aliases.set(name, value);
+  }
+
+  public removeAlias(name: string): boolean {
+    return this.aliases.delete(name);
+  }
+
+  public getAliases(): Array<[string, string]> {
+    return [...this.aliases.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  /**
+   * The environment a script started with `sh` sees: exported variables only
+   */
+  public createChild(): ShellEnvironment {
+    return new ShellEnvironment(Object.fromEntries(this.getExported()));
+  }
+}
+
+/**
+ * A new session environment with the standard variables
+ */
+export const createShellEnvironment = (home: string, cwd = home): ShellEnvironment =>
+  new ShellEnvironment({ HOME: home, PWD: cwd, USER: 'guest', SHELL: '/bin/sh' });
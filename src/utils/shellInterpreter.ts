@@ -0,0 +1,583 @@
+import type {
+  TerminalCommand,
+  TerminalContext,
+  TerminalIO,
+  TerminalInputStream,
+  TerminalOutput,
+  TerminalOutputStream,
+} from '../types';
+import { shellParser, ShellSyntaxError } from './shellParser';
+import type {
+  ShellBackground,
+  ShellCommand,
+  ShellFor,
+  ShellIf,
+  ShellNode,
+  ShellPipeline,
+  ShellSimpleCommand,
+  ShellWhile,
+  ShellWord,
+} from './shellParser';
+import { commandRegistry } from '../services/commandRegistry';
+import { resolveTerminalPath, TERMINAL_HOME } from './fileCommands';
+import { ansi } from './ansi';
+import { getSignalExitStatus } from './jobCommands';
+
+const COMMAND_NOT_FOUND = 127;
+const SYNTAX_ERROR = 2;
+
+// Output content asking the terminal to clear its screen
+export const CLEAR_TERMINAL_MARKER = '__CLEAR_TERMINAL__';
+
+/**
+ * In-memory stream connecting two stages of a pipeline. Readers see chunks as
+ * they are written and finish once the writer closes the pipe. Like files,
+ * pipes carry plain text: colors and links only reach the terminal.
+ */
+export class ShellPipe implements TerminalInputStream, TerminalOutputStream {
+  private chunks: string[] = [];
+  private closed = false;
+  private waiters: Array<() => void> = [];
+
+  /**
+   * A closed pipe holding the given text, for input redirected from a file
+   */
+  public static from(text: string): ShellPipe {
+    const pipe = new ShellPipe();
+    pipe.write(text);
+    pipe.close();
+    return pipe;
+  }
+
+  public write(text: string): void {
+    if (this.closed || !text) return;
+    this.chunks.push(ansi.strip(text));
+    this.notify();
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.notify();
+  }
+
+  public async read(): Promise<string> {
+    let text = '';
+    for await (const chunk of this) {
+      text += chunk;
+    }
+    return text;
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<string> {
+    let index = 0;
+    while (true) {
+      if (index < this.chunks.length) {
+        yield this.chunks[index++];
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+      }
+    }
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * Collects everything that reaches the terminal, in order, as display outputs
+ */
+export class TerminalSink {
+  private outputs: TerminalOutput[] = [];
+  private notifyScheduled = false;
+
+  /**
+   * `onChange` is told about new output once per burst of writes, so output can be shown as it streams
+   */
+  constructor(private readonly onChange?: (outputs: TerminalOutput[]) => void) {}
+
+  /**
+   * A stream whose writes are shown with the given output type
+   */
+  public stream(type: TerminalOutput['type']): TerminalSinkStream {
+    return new TerminalSinkStream(this, type);
+  }
+
+  /**
+   * Show an output as is, keeping its type
+   */
+  public push(output: TerminalOutput): void {
+    this.outputs.push({ ...output, timestamp: output.timestamp ?? new Date() });
+    this.changed();
+  }
+
+  /**
+   * Append text, merging it into the previous output when the type matches
+   */
+  public append(type: TerminalOutput['type'], text: string): void {
+    const last = this.outputs[this.outputs.length - 1];
+    if (last && last.type === type && last.content.endsWith('\n')) {
+      last.content += text;
+    } else {
+      this.outputs.push({ type, content: text, timestamp: new Date() });
+    }
+    this.changed();
+  }
+
+  /**
+   * The collected outputs without the trailing newline of each text block
+   */
+  public getOutputs(): TerminalOutput[] {
+    return this.outputs
+      .map(output => ({ ...output, content: output.content.replace(/\n$/, '') }))
+      .filter(output => output.content !== '');
+  }
+
+  private changed(): void {
+    if (!this.onChange || this.notifyScheduled) return;
+    this.notifyScheduled = true;
+    queueMicrotask(() => {
+      this.notifyScheduled = false;
+      this.onChange?.(this.getOutputs());
+    });
+  }
+}
+
+class TerminalSinkStream implements TerminalOutputStream {
+  constructor(public readonly sink: TerminalSink, private readonly type: TerminalOutput['type']) {}
+
+  public write(text: string): void {
+    if (text) this.sink.append(this.type, text);
+  }
+}
+
+/**
+ * Buffers output redirected to a file and writes it when the command finishes
+ */
+class FileSink implements TerminalOutputStream {
+  private text = '';
+
+  constructor(public readonly path: string, private readonly append: boolean) {}
+
+  public write(text: string): void {
+    this.text += ansi.strip(text);
+  }
+
+  public commit(context: TerminalContext): void {
+    const { fs } = context;
+    if (!fs.exists(this.path)) {
+      fs.createFile(this.path, this.text);
+    } else {
+      fs.writeFile(this.path, this.append ? fs.readFile(this.path) + this.text : this.text);
+    }
+  }
+}
+
+export interface ShellRunOptions {
+  findCommand?: (name: string) => TerminalCommand | undefined; // Defaults to the command registry, filled by terminalCommands
+  io?: TerminalIO; // Streams to use instead of the terminal, for scripts run by a command
+  args?: string[]; // `$0` followed by the positional parameters `$1`, `$2`...
+  signal?: AbortSignal; // Stops the script at the next command when aborted
+  onOutput?: (outputs: TerminalOutput[]) => void; // Output so far, as it is written
+}
+
+export interface ShellRunResult {
+  exitCode: number;
+  outputs: TerminalOutput[];
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Guards the browser against `while true` loops
+export const MAX_LOOP_ITERATIONS = 10000;
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+const VARIABLE = /\$(?:\{([^}]*)\}|([A-Za-z_][A-Za-z0-9_]*)|([0-9?#@*]))/g;
+
+/**
+ * Quote a value so the parser reads it back as a single literal word
+ */
+const quoteWord = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+/**
+ * Walks a parsed script, expanding variables and aliases and wiring each
+ * command's streams to pipes, files or the terminal
+ */
+class ShellInterpreter {
+  private readonly sink: TerminalSink;
+  private readonly io: TerminalIO;
+  private readonly expandingAliases = new Set<string>();
+  private lastStatus = 0;
+
+  constructor(
+    private readonly context: TerminalContext,
+    private readonly lookup: (name: string) => TerminalCommand | undefined,
+    private readonly args: string[] = ['sh'],
+    io?: TerminalIO,
+    options: Pick<ShellRunOptions, 'signal' | 'onOutput'> = {}
+  ) {
+    this.sink = new TerminalSink(options.onOutput);
+    this.io = io ? { ...io, signal: options.signal ?? io.signal } : {
+      stdin: ShellPipe.from(''),
+      stdout: this.sink.stream('info'),
+      stderr: this.sink.stream('error'),
+      signal: options.signal,
+    };
+  }
+
+  public async run(source: string): Promise<ShellRunResult> {
+    let exitCode: number;
+    try {
+      exitCode = await this.execute(shellParser.parse(source), this.io);
+    } catch (error) {
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      this.io.stderr.write(`Syntax error: ${error.message}\n`);
+      exitCode = SYNTAX_ERROR;
+    }
+    return { exitCode, outputs: this.sink.getOutputs() };
+  }
+
+  private async execute(node: ShellNode, io: TerminalIO): Promise<number> {
+    switch (node.type) {
+      case 'sequence': {
+        let status = 0;
+        for (const command of node.commands) {
+          status = await this.execute(command, io);
+        }
+        return status;
+      }
+      case 'logical': {
+        const status = await this.execute(node.left, io);
+        const runRight = node.operator === '&&' ? status === 0 : status !== 0;
+        return runRight ? this.execute(node.right, io) : status;
+      }
+      case 'pipeline':
+        return this.executePipeline(node, io);
+      case 'background':
+        return this.executeBackground(node, io);
+    }
+  }
+
+  /**
+   * Start a list as a job with its own variables and working directory, like a
+   * subshell. It keeps writing to the same streams but not reading the terminal.
+   */
+  private executeBackground(node: ShellBackground, io: TerminalIO): number {
+    const subshell: TerminalContext = {
+      ...this.context,
+      env: this.context.env.createChild(),
+      setCwd: path => {
+        subshell.cwd = path;
+      },
+    };
+    const job = this.context.jobs.spawn(node.source, signal =>
+      new ShellInterpreter(subshell, this.lookup, this.args).execute(node.command, { ...io, stdin: ShellPipe.from(''), signal })
+    );
+
+    this.writeResult({ type: 'info', content: `[${job.number}] ${job.pid}` }, io.stdout);
+    this.lastStatus = 0;
+    return 0;
+  }
+
+  /**
+   * Run every stage at once, each reading the previous stage's output
+   */
+  private async executePipeline(pipeline: ShellPipeline, io: TerminalIO): Promise<number> {
+    const last = pipeline.commands.length - 1;
+    const pipes = pipeline.commands.slice(1).map(() => new ShellPipe());
+
+    const statuses = await Promise.all(pipeline.commands.map(async (command, index) => {
+      try {
+        return await this.executeCommand(command, {
+          stdin: index === 0 ? io.stdin : pipes[index - 1],
+          stdout: index === last ? io.stdout : pipes[index],
+          stderr: io.stderr,
+          signal: io.signal,
+        });
+      } finally {
+        pipes[index]?.close();
+      }
+    }));
+
+    const status = pipeline.negated ? Number(statuses[last] === 0) : statuses[last];
+    this.lastStatus = status;
+    return status;
+  }
+
+  private async executeCommand(command: ShellCommand, streams: TerminalIO): Promise<number> {
+    // Nothing more runs once the job is interrupted or killed
+    if (streams.signal?.aborted) return getSignalExitStatus(streams.signal.reason);
+
+    const io = { ...streams };
+    const files: FileSink[] = [];
+
+    // Apply redirections left to right, as POSIX shells do
+    for (const redirect of command.redirects) {
+      const target = this.expandToString(redirect.target);
+
+      if (redirect.operator === '>&') {
+        if (target !== '1' && target !== '2') {
+          io.stderr.write(`sh: ${target}: bad file descriptor\n`);
+          return 1;
+        }
+        const stream = target === '1' ? io.stdout : io.stderr;
+        if (redirect.fd === 2) io.stderr = stream;
+        else io.stdout = stream;
+        continue;
+      }
+
+      const path = this.resolvePath(target);
+      if (redirect.operator === '<') {
+        try {
+          io.stdin = ShellPipe.from(this.context.fs.readFile(path));
+        } catch (error) {
+          io.stderr.write(`sh: ${errorMessage(error)}\n`);
+          return 1;
+        }
+        continue;
+      }
+
+      const file = new FileSink(path, redirect.operator === '>>');
+      files.push(file);
+      if (redirect.fd === 2) io.stderr = file;
+      else io.stdout = file;
+    }
+
+    let status = command.type === 'command'
+      ? await this.executeSimple(command, io)
+      : await this.executeCompound(command, io);
+
+    for (const file of files) {
+      try {
+        file.commit(this.context);
+      } catch (error) {
+        streams.stderr.write(`sh: ${errorMessage(error)}\n`);
+        status = 1;
+      }
+    }
+    return status;
+  }
+
+  private async executeCompound(command: ShellIf | ShellFor | ShellWhile, io: TerminalIO): Promise<number> {
+    switch (command.type) {
+      case 'if': {
+        for (const clause of command.clauses) {
+          if (await this.execute(clause.condition, io) === 0) {
+            return this.execute(clause.body, io);
+          }
+        }
+        return command.elseBody ? this.execute(command.elseBody, io) : 0;
+      }
+      case 'for': {
+        const items = command.items
+          ? command.items.flatMap(word => this.expandWord(word))
+          : this.args.slice(1);
+        let status = 0;
+        for (const item of items) {
+          if (io.signal?.aborted) return getSignalExitStatus(io.signal.reason);
+          this.context.env.set(command.variable, item);
+          status = await this.execute(command.body, io);
+        }
+        return status;
+      }
+      case 'while': {
+        let status = 0;
+        for (let iteration = 0; ; iteration++) {
+          if (io.signal?.aborted) return getSignalExitStatus(io.signal.reason);
+          const conditionStatus = await this.execute(command.condition, io);
+          if ((conditionStatus === 0) === command.until) return status;
+          if (iteration === MAX_LOOP_ITERATIONS) {
+            io.stderr.write(`sh: loop stopped after ${MAX_LOOP_ITERATIONS} iterations\n`);
+            return 1;
+          }
+          status = await this.execute(command.body, io);
+        }
+      }
+    }
+  }
+
+  private async executeSimple(command: ShellSimpleCommand, io: TerminalIO): Promise<number> {
+    // Leading NAME=value words set variables, for the command only when one follows
+    const assignments: Array<[string, string]> = [];
+    let index = 0;
+    for (; index < command.words.length; index++) {
+      const [first, ...rest] = command.words[index].parts;
+      const match = first.quote === 'none' ? ASSIGNMENT.exec(first.text) : null;
+      if (!match) break;
+      const value = this.expandToString({ parts: [{ ...first, text: first.text.slice(match[0].length) }, ...rest] });
+      assignments.push([match[1], value]);
+    }
+
+    const { env } = this.context;
+    if (index === command.words.length) {
+      assignments.forEach(([name, value]) => env.set(name, value));
+      return 0;
+    }
+
+    const saved = assignments.map(([name]) => [name, env.get(name)] as const);
+    assignments.forEach(([name, value]) => env.set(name, value));
+    try {
+      const words = command.words.slice(index);
+      const [name, ...args] = words.flatMap(word => this.expandWord(word));
+      if (name === undefined) return 0;
+
+      const aliasable = words[0].parts.every(part => part.quote === 'none');
+      return await this.invoke(name, args, io, aliasable);
+    } finally {
+      saved.forEach(([name, value]) => (value === undefined ? env.unset(name) : env.set(name, value)));
+    }
+  }
+
+  private async invoke(name: string, args: string[], io: TerminalIO, aliasable: boolean): Promise<number> {
+    const alias = aliasable && !this.expandingAliases.has(name) ? this.context.env.getAlias(name) : undefined;
+    if (alias !== undefined) {
+      return this.runAlias(name, alias, args, io);
+    }
+
+    let cmd = this.lookup(name);
+    if (!cmd && name.includes('/')) {
+      // A path runs as a script
+      cmd = this.lookup('sh');
+      args = [name, ...args];
+    }
+    if (!cmd) {
+      io.stderr.write(`Command '${name}' not found. Type 'help' to see available commands.\n`);
+      return COMMAND_NOT_FOUND;
+    }
+
+    // `<command> --help` is answered from the command's manifest
+    if (args[0] === '--help') {
+      io.stdout.write(`${commandRegistry.formatHelp(cmd)}\n`);
+      return 0;
+    }
+
+    let result: TerminalOutput | void;
+    try {
+      result = await cmd.execute(args, this.context, io);
+    } catch (error) {
+      io.stderr.write(`${name}: ${errorMessage(error)}\n`);
+      return 1;
+    }
+    if (!result) return 0;
+
+    const isError = result.type === 'error';
+    this.writeResult(result, isError ? io.stderr : io.stdout);
+    return result.exitCode ?? (isError ? 1 : 0);
+  }
+
+  /**
+   * Run an alias as shell source followed by the arguments. An alias is not
+   * expanded again inside its own definition.
+   */
+  private async runAlias(name: string, alias: string, args: string[], io: TerminalIO): Promise<number> {
+    this.expandingAliases.add(name);
+    try {
+      return await this.execute(shellParser.parse([alias, ...args.map(quoteWord)].join(' ')), io);
+    } catch (error) {
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      io.stderr.write(`${name}: syntax error in alias: ${error.message}\n`);
+      return SYNTAX_ERROR;
+    } finally {
+      this.expandingAliases.delete(name);
+    }
+  }
+
+  /**
+   * Expand `~` and variables in a word. Unquoted expansions are split into
+   * separate fields on whitespace and an unquoted empty expansion disappears.
+   */
+  private expandWord(word: ShellWord, split = true): string[] {
+    const fields: string[] = [];
+    let current: string | null = null;
+    const appendLiteral = (text: string) => {
+      current = (current ?? '') + text;
+    };
+    const appendExpansion = (value: string) => {
+      value.split(/[ \t\n]+/).forEach((piece, index) => {
+        if (index > 0 && current !== null) {
+          fields.push(current);
+          current = null;
+        }
+        if (piece) appendLiteral(piece);
+      });
+    };
+
+    word.parts.forEach((part, index) => {
+      if (part.quote === 'single') {
+        appendLiteral(part.text);
+        return;
+      }
+
+      let text = part.text;
+      if (index === 0 && part.quote === 'none' && /^~(\/|$)/.test(text)) {
+        text = (this.context.env.get('HOME') ?? TERMINAL_HOME) + text.slice(1);
+      }
+
+      let last = 0;
+      for (const match of text.matchAll(VARIABLE)) {
+        appendLiteral(text.slice(last, match.index));
+        const value = this.lookupVariable(match[1] ?? match[2] ?? match[3]);
+        if (part.quote === 'none' && split) appendExpansion(value);
+        else appendLiteral(value);
+        last = match.index! + match[0].length;
+      }
+      if (last < text.length || part.quote !== 'none') appendLiteral(text.slice(last));
+    });
+
+    if (current !== null) fields.push(current);
+    return fields;
+  }
+
+  private expandToString(word: ShellWord): string {
+    return this.expandWord(word, false).join(' ');
+  }
+
+  private lookupVariable(expression: string): string {
+    if (expression === '?') return String(this.lastStatus);
+    if (expression === '#') return String(this.args.length - 1);
+    if (expression === '@' || expression === '*') return this.args.slice(1).join(' ');
+    if (/^\d$/.test(expression)) return this.args[Number(expression)] ?? '';
+
+    // ${NAME:-default} and ${NAME-default}
+    const fallback = /^([A-Za-z_][A-Za-z0-9_]*)(:?)-(.*)$/s.exec(expression);
+    if (fallback) {
+      const value = this.context.env.get(fallback[1]);
+      const useDefault = fallback[2] ? !value : value === undefined;
+      return useDefault ? fallback[3] : value!;
+    }
+    return this.context.env.get(expression) ?? '';
+  }
+
+  /**
+   * Show a returned output on the terminal as is, or write its text to a pipe or file. Line
+   * commands already end every line with a newline; any other text gets one
+   */
+  private writeResult(result: TerminalOutput, stream: TerminalOutputStream): void {
+    if (stream instanceof TerminalSinkStream) {
+      stream.sink.push(result);
+    } else if (result.content && result.content !== CLEAR_TERMINAL_MARKER) {
+      stream.write(result.content.endsWith('\n') ? result.content : `${result.content}\n`);
+    }
+  }
+
+  private resolvePath(path: string): string {
+    return resolveTerminalPath(this.context, path);
+  }
+}
+
+/**
+ * Parse and run shell source, returning what it printed and the exit code of
+ * the last command. With `options.io` the output goes to those streams instead.
+ */
+export const runShell = (
+  source: string,
+  context: TerminalContext,
+  options: ShellRunOptions = {}
+): Promise<ShellRunResult> => {
+  const findCommand = options.findCommand ?? (name => commandRegistry.findCommand(name));
+  return new ShellInterpreter(context, findCommand, options.args, options.io, options).run(source);
+};
@@ -0,0 +1,517 @@
+/**
+ * A run of characters in a word and how it was quoted. Quoting is kept so
+ * later stages (such as variable expansion) can treat quoted text literally.
+ */
+export interface ShellWordPart {
+  text: string;
+  quote: 'none' | 'single' | 'double';
+}
+
+export interface ShellWord {
+  parts: ShellWordPart[];
+}
+
+export type ShellOperator = '|' | '||' | '&&' | '&' | ';' | '>' | '>>' | '<' | '>&';
+
+export type ShellToken =
+  | { type: 'word'; word: ShellWord; start: number; end: number }
+  | { type: 'operator'; value: ShellOperator; start: number; end: number }
+  | { type: 'io-number'; value: number; start: number; end: number }
+  | { type: 'newline'; start: number; end: number };
+
+export interface ShellRedirect {
+  fd: number; // 0 for input, 1 for output unless an IO number is given
+  operator: '>' | '>>' | '<' | '>&';
+  target: ShellWord;
+}
+
+export interface ShellSimpleCommand {
+  type: 'command';
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellIf {
+  type: 'if';
+  clauses: Array<{ condition: ShellSequence; body: ShellSequence }>; // The `if` and each `elif`
+  elseBody: ShellSequence | null;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellFor {
+  type: 'for';
+  variable: string;
+  items: ShellWord[] | null; // Null without `in`, looping over the positional parameters
+  body: ShellSequence;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellWhile {
+  type: 'while';
+  until: boolean;
+  condition: ShellSequence;
+  body: ShellSequence;
+  redirects: ShellRedirect[];
+}
+
+export type ShellCommand = ShellSimpleCommand | ShellIf | ShellFor | ShellWhile;
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  negated: boolean;
+  commands: ShellCommand[];
+}
+
+export interface ShellLogical {
+  type: 'logical';
+  operator: '&&' | '||';
+  left: ShellNode;
+  right: ShellPipeline;
+}
+
+export interface ShellSequence {
+  type: 'sequence';
+  commands: ShellNode[];
+}
+
+// A list ended by `&`, run as a background job
+export interface ShellBackground {
+  type: 'background';
+  command: ShellNode;
+  source: string; // The command as typed, for `jobs`
+}
+
+export type ShellNode = ShellSequence | ShellLogical | ShellPipeline | ShellBackground;
+
+/**
+ * Raised for input the shell cannot parse. `position` is the offset of the
+ * offending character in the source.
+ */
+export class ShellSyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ShellSyntaxError';
+    this.position = position;
+  }
+}
+
+// Longest operators first so '>>' wins over '>'
+const OPERATORS: ShellOperator[] = ['||', '&&', '>>', '>&', '|', '&', ';', '>', '<'];
+const DOUBLE_QUOTE_ESCAPES = ['"', '\\', '$', '`'];
+
+const isBlank = (char: string) => char === ' ' || char === '\t';
+
+// Words that open or close compound commands when they start a command
+const RESERVED_WORDS = ['if', 'then', 'elif', 'else', 'fi', 'for', 'in', 'while', 'until', 'do', 'done'];
+
+/**
+ * Split shell source into words and operators. Single quotes are literal,
+ * double quotes allow backslash escapes of `"`, `\`, `$` and `` ` ``, and an
+ * unquoted `#` at the start of a word begins a comment.
+ */
+const tokenize = (source: string): ShellToken[] => {
+  const tokens: ShellToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (isBlank(char)) {
+      i++;
+      continue;
+    }
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '\n') {
+      tokens.push({ type: 'newline', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    // Read a word made of unquoted, single-quoted and double-quoted parts
+    const start = i;
+    const parts: ShellWordPart[] = [];
+    const pushText = (text: string, quote: ShellWordPart['quote']) => {
+      const last = parts[parts.length - 1];
+      if (last && last.quote === quote) {
+        last.text += text;
+      } else {
+        parts.push({ text, quote });
+      }
+    };
+
+    while (i < source.length) {
+      const current = source[i];
+      if (isBlank(current) || current === '\n' || OPERATORS.some(op => source.startsWith(op, i))) {
+        break;
+      }
+
+      if (current === "'") {
+        const close = source.indexOf("'", i + 1);
+        if (close === -1) {
+          throw new ShellSyntaxError('Unterminated single quote', i);
+        }
+        pushText(source.slice(i + 1, close), 'single');
+        i = close + 1;
+      } else if (current === '"') {
+        let text = '';
+        let j = i + 1;
+        while (j < source.length && source[j] !== '"') {
+          if (source[j] === '\\' && source[j + 1] === '$') {
+            // Keep an escaped `$` literal so it is not expanded later
+            if (text) pushText(text, 'double');
+            pushText('$', 'single');
+            text = '';
+            j += 2;
+          } else if (source[j] === '\\' && DOUBLE_QUOTE_ESCAPES.includes(source[j + 1])) {
+            text += source[j + 1];
+            j += 2;
+          } else {
+            text += source[j];
+            j++;
+          }
+        }
+        if (j >= source.length) {
+          throw new ShellSyntaxError('Unterminated double quote', i);
+        }
+        pushText(text, 'double');
+        i = j + 1;
+      } else if (current === '\\') {
+        if (source[i + 1] === '\n') {
+          i += 2; // Line continuation
+        } else if (i + 1 < source.length) {
+          pushText(source[i + 1], 'single');
+          i += 2;
+        } else {
+          i++;
+        }
+      } else {
+        pushText(current, 'none');
+        i++;
+      }
+    }
+
+    // A bare number directly before a redirection names the file descriptor
+    const isIoNumber = parts.length === 1 && parts[0].quote === 'none' && /^\d+$/.test(parts[0].text) &&
+      (source[i] === '>' || source[i] === '<');
+    if (isIoNumber) {
+      tokens.push({ type: 'io-number', value: Number(parts[0].text), start, end: i });
+    } else if (parts.length > 0) {
+      tokens.push({ type: 'word', word: { parts }, start, end: i });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive descent parser over the token list:
+ *
+ *   sequence := and-or ((';' | '&' | newline) and-or)* [';' | '&']
+ *   and-or   := pipeline (('&&' | '||') newline* pipeline)*
+ *   pipeline := ['!'] command ('|' newline* command)*
+ *   command  := compound redirect* | (word | redirect)+
+ *   compound := 'if' list 'then' list ('elif' list 'then' list)* ['else' list] 'fi'
+ *             | 'for' name ['in' word*] (';' | newline) 'do' list 'done'
+ *             | ('while' | 'until') list 'do' list 'done'
+ *   redirect := [io-number] ('>' | '>>' | '<' | '>&') word
+ *
+ * A list is a sequence that ends at one of the reserved words closing its block.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: ShellToken[], private readonly source: string) {}
+
+  parseSequence(): ShellSequence {
+    const sequence = this.parseList([]);
+    const token = this.peek();
+    if (token) throw this.unexpected(token);
+    return sequence;
+  }
+
+  /**
+   * Parse commands until the end of input or one of the given reserved words
+   */
+  private parseList(terminators: string[]): ShellSequence {
+    const commands: ShellNode[] = [];
+    this.skipSeparators();
+
+    while (this.peek() && !this.isReserved(this.peek(), terminators)) {
+      const start = this.peek()!.start;
+      const command = this.parseAndOr();
+
+      const token = this.peek();
+      if (token?.type === 'operator' && token.value === '&') {
+        const source = this.source.slice(start, this.tokens[this.index - 1].end);
+        commands.push({ type: 'background', command, source });
+        this.index++;
+        this.skipNewlines();
+        continue;
+      }
+
+      commands.push(command);
+      if (!token || this.isReserved(token, terminators)) break;
+      if (token.type === 'newline' || (token.type === 'operator' && token.value === ';')) {
+        this.skipSeparators();
+        continue;
+      }
+      throw this.unexpected(token);
+    }
+
+    return { type: 'sequence', commands };
+  }
+
+  /**
+   * Parse a list that must hold at least one command and end with the given word
+   */
+  private parseBlock(terminators: string[]): ShellSequence {
+    const list = this.parseList(terminators);
+    const token = this.peek();
+    if (!token) throw this.endOfInput();
+    if (list.commands.length === 0) throw this.unexpected(token);
+    return list;
+  }
+
+  private parseAndOr(): ShellNode {
+    let node: ShellNode = this.parsePipeline();
+
+    for (let token = this.peek(); token?.type === 'operator' && (token.value === '&&' || token.value === '||'); token = this.peek()) {
+      this.index++;
+      this.skipNewlines();
+      node = { type: 'logical', operator: token.value, left: node, right: this.parsePipeline() };
+    }
+
+    return node;
+  }
+
+  private parsePipeline(): ShellPipeline {
+    let negated = false;
+    const first = this.peek();
+    if (first?.type === 'word' && this.isBang(first.word)) {
+      negated = true;
+      this.index++;
+    }
+
+    const commands = [this.parseCommand()];
+    for (let token = this.peek(); token?.type === 'operator' && token.value === '|'; token = this.peek()) {
+      this.index++;
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+
+    return { type: 'pipeline', negated, commands };
+  }
+
+  private parseCommand(): ShellCommand {
+    const first = this.peek();
+    if (this.isReserved(first, ['if'])) return this.parseIf();
+    if (this.isReserved(first, ['for'])) return this.parseFor();
+    if (this.isReserved(first, ['while', 'until'])) return this.parseWhile();
+    if (this.isReserved(first, RESERVED_WORDS)) throw this.unexpected(first!);
+
+    const words: ShellWord[] = [];
+    const redirects: ShellRedirect[] = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'word') {
+        words.push(token.word);
+        this.index++;
+      } else if (token.type === 'io-number' || (token.type === 'operator' && this.isRedirect(token.value))) {
+        redirects.push(this.parseRedirect());
+      } else {
+        break;
+      }
+    }
+
+    if (words.length === 0 && redirects.length === 0) {
+      const token = this.peek();
+      throw token ? this.unexpected(token) : this.endOfInput();
+    }
+
+    return { type: 'command', words, redirects };
+  }
+
+  private parseIf(): ShellIf {
+    const clauses: ShellIf['clauses'] = [];
+    let elseBody: ShellSequence | null = null;
+
+    this.expectReserved('if');
+    for (;;) {
+      const condition = this.parseBlock(['then']);
+      this.expectReserved('then');
+      clauses.push({ condition, body: this.parseBlock(['elif', 'else', 'fi']) });
+
+      if (this.isReserved(this.peek(), ['elif'])) {
+        this.index++;
+        continue;
+      }
+      if (this.isReserved(this.peek(), ['else'])) {
+        this.index++;
+        elseBody = this.parseBlock(['fi']);
+      }
+      break;
+    }
+    this.expectReserved('fi');
+
+    return { type: 'if', clauses, elseBody, redirects: this.parseRedirects() };
+  }
+
+  private parseFor(): ShellFor {
+    this.expectReserved('for');
+    const name = this.peek();
+    if (name?.type !== 'word' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(shellParser.wordToString(name.word))) {
+      throw name ? new ShellSyntaxError('Expected a variable name after \'for\'', name.start) : this.endOfInput();
+    }
+    this.index++;
+    this.skipNewlines();
+
+    let items: ShellWord[] | null = null;
+    if (this.isReserved(this.peek(), ['in'])) {
+      this.index++;
+      items = [];
+      for (let token = this.peek(); token?.type === 'word'; token = this.peek()) {
+        items.push(token.word);
+        this.index++;
+      }
+    }
+
+    const separator = this.peek();
+    if (separator?.type === 'newline' || (separator?.type === 'operator' && separator.value === ';')) {
+      this.skipSeparators();
+    }
+    this.expectReserved('do');
+    const body = this.parseBlock(['done']);
+    this.expectReserved('done');
+
+    return { type: 'for', variable: shellParser.wordToString(name.word), items, body, redirects: this.parseRedirects() };
+  }
+
+  private parseWhile(): ShellWhile {
+    const until = this.isReserved(this.peek(), ['until']);
+    this.index++;
+    const condition = this.parseBlock(['do']);
+    this.expectReserved('do');
+    const body = this.parseBlock(['done']);
+    this.expectReserved('done');
+
+    return { type: 'while', until, condition, body, redirects: this.parseRedirects() };
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type !== 'io-number' && !(token.type === 'operator' && this.isRedirect(token.value))) break;
+      redirects.push(this.parseRedirect());
+    }
+    return redirects;
+  }
+
+  private parseRedirect(): ShellRedirect {
+    let fd: number | undefined;
+    const first = this.tokens[this.index];
+    if (first.type === 'io-number') {
+      fd = first.value;
+      this.index++;
+    }
+
+    const token = this.tokens[this.index];
+    if (token?.type !== 'operator' || !this.isRedirect(token.value)) {
+      throw token ? this.unexpected(token) : this.endOfInput();
+    }
+    this.index++;
+
+    const target = this.tokens[this.index];
+    if (target?.type !== 'word') {
+      throw target
+        ? this.unexpected(target)
+        : new ShellSyntaxError(`Expected a file name after '${token.value}'`, this.source.length);
+    }
+    this.index++;
+
+    const operator = token.value as ShellRedirect['operator'];
+    return { fd: fd ?? (operator === '<' ? 0 : 1), operator, target: target.word };
+  }
+
+  private isRedirect(operator: ShellOperator): boolean {
+    return operator === '>' || operator === '>>' || operator === '<' || operator === '>&';
+  }
+
+  /**
+   * Whether a token is one of the given reserved words, written unquoted
+   */
+  private isReserved(token: ShellToken | undefined, words: string[]): boolean {
+    if (token?.type !== 'word') return false;
+    const [part] = token.word.parts;
+    return token.word.parts.length === 1 && part.quote === 'none' && words.includes(part.text);
+  }
+
+  private expectReserved(word: string): void {
+    const token = this.peek();
+    if (!this.isReserved(token, [word])) {
+      throw token ? this.unexpected(token) : this.endOfInput();
+    }
+    this.index++;
+  }
+
+  private endOfInput(): ShellSyntaxError {
+    return new ShellSyntaxError('Unexpected end of input', this.source.length);
+  }
+
+  private isBang(word: ShellWord): boolean {
+    return word.parts.length === 1 && word.parts[0].quote === 'none' && word.parts[0].text === '!';
+  }
+
+  private peek(): ShellToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private skipNewlines(): void {
+    while (this.peek()?.type === 'newline') this.index++;
+  }
+
+  private skipSeparators(): void {
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'newline' || (token.type === 'operator' && token.value === ';')) {
+        this.index++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private unexpected(token: ShellToken): ShellSyntaxError {
+    const text = token.type === 'newline' ? 'newline' : this.source.slice(token.start, token.end);
+    return new ShellSyntaxError(`Unexpected token '${text}'`, token.start);
+  }
+}
+
+// Shell tokenizer and parser for the Terminal
+export const shellParser = {
+  tokenize,
+
+  /**
+   * Parse shell source into a sequence of commands
+   */
+  parse: (source: string): ShellSequence => {
+    return new Parser(tokenize(source), source).parseSequence();
+  },
+
+  /**
+   * The literal text of a word with its quotes removed
+   */
+  wordToString: (word: ShellWord): string => {
+    return word.parts.map(part => part.text).join('');
+  },
+};
@@ -0,0 +1,40 @@
+import type { AppId } from '../types';
+
+/**
+ * What a .lnk shortcut file points at
+ */
+export interface ShortcutTarget {
+  appId: AppId;
+  data?: Record<string, unknown>;
+}
+
+// .lnk files are small JSON documents: { "appId": "projects", "data": { ... } }
+export const shortcutUtils = {
+  /**
+   * Whether a path names a shortcut file
+   */
+  isShortcutPath: (path: string): boolean => path.toLowerCase().endsWith('.lnk'),
+
+  /**
+   * Parse the contents of a shortcut file, returning null when it is not a valid shortcut
+   */
+  parse: (content: string): ShortcutTarget | null => {
+    try {
+      const parsed: unknown = JSON.parse(content);
+      if (typeof parsed !== 'object' || parsed === null) return null;
+
+      const { appId, data } = parsed as Record<string, unknown>;
+      if (typeof appId !== 'string' || !appId) return null;
+      if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) return null;
+
+      return { appId: appId as AppId, ...(data ? { data: data as Record<string, unknown> } : {}) };
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Serialize a shortcut target as shortcut file contents
+   */
+  stringify: (target: ShortcutTarget): string => JSON.stringify(target, null, 2) + '\n',
+};
@@ -1,9 +1,19 @@
 import type { TerminalCommand, TerminalOutput, TerminalContext } from '../types';
+import { shellParser } from './shellParser';
+import { fileCommands } from './fileCommands';
+import { textCommands } from './textCommands';
+import { shellCommands } from './shellCommands';
+import { jobCommands } from './jobCommands';
+import { windowCommands } from './windowCommands';
+import { ansi } from './ansi';
+import { parseArgs } from './commandArgs';
+import { CLEAR_TERMINAL_MARKER } from './shellInterpreter';
+import { commandRegistry } from '../services/commandRegistry';
 
 // Helper function to create command output
 const createOutput = (
   type: TerminalOutput['type'],
-  content: string | React.ReactNode
+  content: string
 ): TerminalOutput => ({
   type,
   content,
@@ -15,28 +25,22 @@ const helpCommand: TerminalCommand = {
   id: 'help',
   name: 'help',
   description: 'Display available commands and their usage',
-  usage: 'help [command]',
   aliases: ['?', 'h'],
+  args: [{ name: 'command', description: 'Command to describe', optional: true, complete: 'command' }],
   execute: (args: string[]) => {
     if (args.length > 0) {
       const commandName = args[0];
-      const command = terminalCommands.find(cmd => 
-        cmd.name === commandName || cmd.aliases?.includes(commandName)
-      );
-      
+      const command = commandRegistry.findCommand(commandName);
+
       if (command) {
-        return createOutput('info', `
-${command.name} - ${command.description}
-Usage: ${command.usage}
-${command.aliases ? `Aliases: ${command.aliases.join(', ')}` : ''}
-        `.trim());
+        return createOutput('info', commandRegistry.formatHelp(command));
       } else {
         return createOutput('error', `Command '${commandName}' not found. Type 'help' to see all commands.`);
       }
     }
 
-    const commandList = terminalCommands
-      .map(cmd => `  ${cmd.name.padEnd(12)} - ${cmd.description}`)
+    const commandList = commandRegistry.getAllCommands()
+      .map(cmd => `  ${ansi.bold(cmd.name.padEnd(12))} - ${cmd.description}`)
       .join('\n');
 
     return createOutput('info', `
@@ -44,12 +48,44 @@ Available commands:
 
 ${commandList}
 
-Type 'help <command>' for detailed usage information.
-Use Tab for autocompletion and arrow keys for command history.
+Type 'help <command>' or '<command> --help' for usage, and 'man <command>' for the manual.
+Use Tab for autocompletion, arrow keys for command history and Ctrl+R to search it.
     `.trim());
   },
 };
 
+const manCommand: TerminalCommand = {
+  id: 'man',
+  name: 'man',
+  description: 'Show the manual page of a command',
+  flags: [{ names: ['-k'], value: 'keyword', description: 'List commands whose name or description contains the keyword' }],
+  args: [{ name: 'command', description: 'Command to show the manual for', optional: true, complete: 'command' }],
+  execute: (args: string[]) => {
+    const { values, operands } = parseArgs(args, { values: 'k' });
+
+    if (values.k !== undefined) {
+      const keyword = values.k.toLowerCase();
+      const matches = commandRegistry.getAllCommands().filter(command =>
+        `${command.name} ${command.description}`.toLowerCase().includes(keyword)
+      );
+      if (matches.length === 0) {
+        return createOutput('error', `${values.k}: nothing appropriate.`);
+      }
+      return createOutput('info', matches.map(command => `${command.name} (1) - ${command.description}`).join('\n'));
+    }
+
+    if (operands.length === 0) {
+      return createOutput('error', 'What manual page do you want? Try \'man man\'.');
+    }
+
+    const command = commandRegistry.findCommand(operands[0]);
+    if (!command) {
+      return createOutput('error', `No manual entry for ${operands[0]}`);
+    }
+    return createOutput('info', commandRegistry.formatManPage(command));
+  },
+};
+
 const clearCommand: TerminalCommand = {
   id: 'clear',
   name: 'clear',
@@ -58,7 +94,7 @@ const clearCommand: TerminalCommand = {
   aliases: ['cls'],
   execute: () => {
     // This will be handled specially in the terminal component
-    return createOutput('success', '__CLEAR_TERMINAL__');
+    return createOutput('success', CLEAR_TERMINAL_MARKER);
   },
 };
 
@@ -97,21 +133,56 @@ const projectsCommand: TerminalCommand = {
   id: 'projects',
   name: 'projects',
   description: 'List and manage projects',
-  usage: 'projects [list|open <slug>|filter <tech>]',
+  usage: 'projects [list [--json]|open <slug>|filter <tech>]',
   aliases: ['proj'],
-  execute: async (args: string[], context: TerminalContext) => {
+  subcommands: [
+    {
+      name: 'list',
+      description: 'List all projects (the default)',
+      flags: [{ names: ['--json'], description: 'Print the projects as JSON' }],
+    },
+    {
+      name: 'open',
+      description: 'Open a project in the Projects app',
+      args: [{
+        name: 'slug',
+        description: 'Project to open',
+        complete: async (context) => (await context.getProjects()).map(project => project.slug),
+      }],
+    },
+    {
+      name: 'filter',
+      description: 'List the projects using a technology',
+      args: [{
+        name: 'tech',
+        description: 'Technology to look for, matched in part and ignoring case',
+        complete: async (context) => {
+          const projects = await context.getProjects();
+          return [...new Set(projects.flatMap(project => project.tech))].sort();
+        },
+      }],
+    },
+  ],
+  execute: async (rawArgs: string[], context: TerminalContext) => {
+    const json = rawArgs.includes('--json');
+    const args = rawArgs.filter(arg => arg !== '--json');
     const subcommand = args[0] || 'list';
     const projects = await context.getProjects();
 
     switch (subcommand) {
       case 'list':
+        if (json) {
+          return createOutput('info', JSON.stringify(projects, null, 2));
+        }
+
         if (projects.length === 0) {
           return createOutput('info', 'No projects found.');
         }
 
-        const projectList = projects
-          .map(project => `  ${project.slug.padEnd(20)} - ${project.title} (${project.year})`)
-          .join('\n');
+        const projectList = ansi.table([
+          ['SLUG', 'TITLE', 'YEAR'],
+          ...projects.map(project => [ansi.projectLink(project.slug), project.title, String(project.year)]),
+        ]);
 
         return createOutput('info', `
 Projects (${projects.length} total):
@@ -151,9 +222,10 @@ Use 'projects filter <tech>' to filter by technology.
           return createOutput('info', `No projects found using '${tech}'.`);
         }
 
-        const filteredList = filteredProjects
-          .map(project => `  ${project.slug.padEnd(20)} - ${project.title} (${project.tech.join(', ')})`)
-          .join('\n');
+        const filteredList = ansi.table([
+          ['SLUG', 'TITLE', 'TECH'],
+          ...filteredProjects.map(project => [ansi.projectLink(project.slug), project.title, project.tech.join(', ')]),
+        ]);
 
         return createOutput('info', `
 Projects using '${tech}' (${filteredProjects.length} found):
@@ -167,29 +239,30 @@ ${filteredList}
   },
 };
 
+// Map common app names to app IDs
+const appMap: Record<string, string> = {
+  'projects': 'projects',
+  'files': 'file-explorer',
+  'explorer': 'file-explorer',
+  'terminal': 'terminal',
+  'about': 'about',
+  'notepad': 'notepad',
+  'settings': 'settings',
+  'resume': 'resume-viewer',
+};
+
 const openCommand: TerminalCommand = {
   id: 'open',
   name: 'open',
   description: 'Open applications or files',
   usage: 'open <app|file>',
+  args: [{ name: 'app', description: 'Application to open', complete: Object.keys(appMap) }],
   execute: (args: string[], context: TerminalContext) => {
     if (args.length === 0) {
       return createOutput('error', 'Please specify an application or file to open.');
     }
 
     const target = args[0].toLowerCase();
-    
-    // Map common app names to app IDs
-    const appMap: Record<string, string> = {
-      'projects': 'projects',
-      'files': 'file-explorer',
-      'explorer': 'file-explorer',
-      'terminal': 'terminal',
-      'about': 'about',
-      'notepad': 'notepad',
-      'settings': 'settings',
-      'resume': 'resume-viewer',
-    };
 
     const appId = appMap[target];
     if (appId) {
@@ -206,6 +279,7 @@ const themeCommand: TerminalCommand = {
   name: 'theme',
   description: 'Get or set the current theme',
   usage: 'theme [light|dark|auto]',
+  args: [{ name: 'theme', description: 'Theme to switch to; prints the current theme when omitted', optional: true, complete: ['light', 'dark', 'auto'] }],
   execute: (args: string[], context: TerminalContext) => {
     if (args.length === 0) {
       const currentTheme = context.getTheme();
@@ -222,41 +296,78 @@ const themeCommand: TerminalCommand = {
   },
 };
 
+// System information as structured data for `system info --json`
+const getSystemInfo = (context: TerminalContext) => {
+  const memory = (performance as any).memory;
+  return {
+    os: 'Portfolio OS v1.0.0',
+    browser: navigator.userAgent.split(' ').pop() || 'Unknown',
+    platform: navigator.platform,
+    language: navigator.language,
+    screen: { width: screen.width, height: screen.height },
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    theme: context.getTheme(),
+    wallpaper: context.getWallpaper(),
+    memoryUsedMB: memory ? Math.round(memory.usedJSHeapSize / 1024 / 1024) : null,
+  };
+};
+
 const systemCommand: TerminalCommand = {
   id: 'system',
   name: 'system',
   description: 'Display system information',
-  usage: 'system [info|status]',
+  usage: 'system [info [--json]|status]',
   aliases: ['sys'],
-  execute: (args: string[], context: TerminalContext) => {
+  subcommands: [
+    {
+      name: 'info',
+      description: 'Show the browser, screen and theme (the default)',
+      flags: [{ names: ['--json'], description: 'Print the information as JSON' }],
+    },
+    { name: 'status', description: 'Show the health of the system, its memory and network' },
+  ],
+  execute: (rawArgs: string[], context: TerminalContext) => {
+    const json = rawArgs.includes('--json');
+    const args = rawArgs.filter(arg => arg !== '--json');
     const subcommand = args[0] || 'info';
 
     switch (subcommand) {
-      case 'info':
+      case 'info': {
+        const info = getSystemInfo(context);
+        if (json) {
+          return createOutput('info', JSON.stringify(info, null, 2));
+        }
+
         return createOutput('info', `
 System Information:
 
-OS: Portfolio OS v1.0.0
-Browser: ${navigator.userAgent.split(' ').pop() || 'Unknown'}
-Platform: ${navigator.platform}
-Language: ${navigator.language}
-Screen: ${screen.width}x${screen.height}
-Viewport: ${window.innerWidth}x${window.innerHeight}
-Theme: ${context.getTheme()}
-Wallpaper: ${context.getWallpaper()}
-
-Memory: ${(performance as any).memory ? 
-  `${Math.round((performance as any).memory.usedJSHeapSize / 1024 / 1024)}MB used` : 
-  'Not available'}
-        `.trim());
+OS: ${info.os}
+Browser: ${info.browser}
+Platform: ${info.platform}
+Language: ${info.language}
+Screen: ${info.screen.width}x${info.screen.height}
+Viewport: ${info.viewport.width}x${info.viewport.height}
+Theme: ${info.theme}
+Wallpaper: ${info.wallpaper}
 
-      case 'status':
-        return createOutput('info', `
-System Status: ✅ Online
-Performance: ✅ Good
-Memory: ✅ Normal
-Network: ✅ Connected
+Memory: ${info.memoryUsedMB !== null ? `${info.memoryUsedMB}MB used` : 'Not available'}
         `.trim());
+      }
+
+      case 'status': {
+        // Chrome reports heap usage; other browsers show the plain status
+        const { memory } = performance as Performance & { memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number } };
+        const memoryStatus = memory?.jsHeapSizeLimit
+          ? `${ansi.progressBar(memory.usedJSHeapSize / memory.jsHeapSizeLimit, { warn: true })} ${Math.round(memory.usedJSHeapSize / 1024 / 1024)}MB`
+          : '✅ Normal';
+
+        return createOutput('info', [
+          'System Status: ✅ Online',
+          'Performance: ✅ Good',
+          `Memory: ${memoryStatus}`,
+          `Network: ${navigator.onLine === false ? ansi.color('red', '❌ Offline') : '✅ Connected'}`,
+        ].join('\n'));
+      }
 
       default:
         return createOutput('error', `Unknown subcommand '${subcommand}'. Use 'help system' for usage information.`);
@@ -264,142 +375,120 @@ Network: ✅ Connected
   },
 };
 
+const echoCommand: TerminalCommand = {
+  id: 'echo',
+  name: 'echo',
+  description: 'Print arguments to standard output',
+  usage: 'echo [-n] [text...]',
+  flags: [{ names: ['-n'], description: 'Do not print the trailing newline' }],
+  execute: (args: string[], _context: TerminalContext, io) => {
+    const noNewline = args[0] === '-n';
+    const text = (noNewline ? args.slice(1) : args).join(' ');
+    io?.stdout.write(noNewline ? text : `${text}\n`);
+  },
+};
+
+const trueCommand: TerminalCommand = {
+  id: 'true',
+  name: 'true',
+  description: 'Do nothing, successfully',
+  usage: 'true',
+  execute: () => undefined,
+};
+
+const falseCommand: TerminalCommand = {
+  id: 'false',
+  name: 'false',
+  description: 'Do nothing, unsuccessfully',
+  usage: 'false',
+  execute: () => ({ type: 'info', content: '', exitCode: 1 }),
+};
+
 // Export all commands
 export const terminalCommands: TerminalCommand[] = [
   helpCommand,
+  manCommand,
   clearCommand,
   aboutCommand,
   projectsCommand,
   openCommand,
   themeCommand,
   systemCommand,
+  echoCommand,
+  trueCommand,
+  falseCommand,
+  ...fileCommands,
+  ...textCommands,
+  ...shellCommands,
+  ...jobCommands,
+  ...windowCommands,
 ];
 
+// Register the built-in commands; apps and plugins add theirs to the same registry
+terminalCommands.forEach(command => commandRegistry.register(command));
+
 // Helper function to find command by name or alias
 export const findCommand = (name: string): TerminalCommand | undefined => {
-  return terminalCommands.find(cmd => 
-    cmd.name === name || cmd.aliases?.includes(name)
-  );
+  return commandRegistry.findCommand(name);
 };
 
 // Helper function to get all command names and aliases for autocompletion
 export const getAllCommandNames = (): string[] => {
-  const names: string[] = [];
-  terminalCommands.forEach(cmd => {
-    names.push(cmd.name);
-    if (cmd.aliases) {
-      names.push(...cmd.aliases);
-    }
-  });
-  return names.sort();
+  return commandRegistry.getAllCommandNames();
+};
+
+// Helper function to get the word being completed, keeping escaped spaces
+export const getCompletionWord = (input: string): string => {
+  return input.match(/(?:\\.|[^\s\\])*\\?$/)?.[0] ?? '';
 };
 
-// Helper function to get autocompletion suggestions based on context
+// Helper function to get autocompletion suggestions from the commands' manifests
 export const getAutocompleteSuggestions = async (
   input: string, 
   context: TerminalContext
 ): Promise<string[]> => {
-  const { command, args } = parseCommand(input);
-  
+  // Only the command after the last pipe or separator is being completed
+  const segment = getLastCommandText(input);
+  const { command, args } = parseCommand(segment);
+
   // If no command yet, suggest commands
-  if (!args.length && !input.includes(' ')) {
+  if (!args.length && !/\s$/.test(segment)) {
     return getAllCommandNames().filter(name => 
       name.toLowerCase().startsWith(command.toLowerCase())
     );
   }
 
-  // Command-specific autocompletion
-  switch (command) {
-    case 'projects':
-    case 'proj':
-      return await getProjectsAutocompletion(args, context);
-    
-    case 'open':
-      return getOpenAutocompletion(args);
-    
-    case 'theme':
-      return getThemeAutocompletion(args);
-    
-    case 'system':
-    case 'sys':
-      return getSystemAutocompletion(args);
-    
-    case 'help':
-    case '?':
-    case 'h':
-      return getHelpAutocompletion(args);
-    
-    default:
-      return [];
-  }
-};
-
-// Projects command autocompletion
-const getProjectsAutocompletion = async (
-  args: string[], 
-  context: TerminalContext
-): Promise<string[]> => {
-  if (args.length === 0) {
-    return ['list', 'open', 'filter'];
-  }
-  
-  const subcommand = args[0];
-  
-  if (subcommand === 'open' && args.length === 1) {
-    // Suggest project slugs
-    const projects = await context.getProjects();
-    return projects.map(p => p.slug);
-  }
-  
-  if (subcommand === 'filter' && args.length === 1) {
-    // Suggest technologies
-    const projects = await context.getProjects();
-    const techSet = new Set<string>();
-    projects.forEach(project => {
-      project.tech.forEach(tech => techSet.add(tech));
-    });
-    return Array.from(techSet).sort();
-  }
-  
-  return [];
-};
-
-// Open command autocompletion
-const getOpenAutocompletion = (args: string[]): string[] => {
-  if (args.length === 0) {
-    return ['projects', 'files', 'explorer', 'terminal', 'about', 'notepad', 'settings', 'resume'];
-  }
-  return [];
-};
-
-// Theme command autocompletion
-const getThemeAutocompletion = (args: string[]): string[] => {
-  if (args.length === 0) {
-    return ['light', 'dark', 'auto'];
-  }
-  return [];
-};
-
-// System command autocompletion
-const getSystemAutocompletion = (args: string[]): string[] => {
-  if (args.length === 0) {
-    return ['info', 'status'];
-  }
-  return [];
+  // The last word is still being typed unless the input ends with a space
+  const typing = !/\s$/.test(segment);
+  const word = typing ? getCompletionWord(segment).replace(/\\(.)/g, '$1') : '';
+  return commandRegistry.complete(command, typing ? args.slice(0, -1) : args, word, context);
 };
 
-// Help command autocompletion
-const getHelpAutocompletion = (args: string[]): string[] => {
-  if (args.length === 0) {
-    return getAllCommandNames();
+/**
+ * The text of the last command in a line, after any pipe, `&&`, `||` or `;`
+ */
+const getLastCommandText = (input: string): string => {
+  try {
+    const operators = shellParser.tokenize(input)
+      .filter(token => token.type === 'operator' && ['|', '||', '&&', ';', '&'].includes(token.value));
+    const last = operators[operators.length - 1];
+    return last ? input.slice(last.end) : input;
+  } catch {
+    return input; // Unterminated quotes while typing
   }
-  return [];
 };
 
-// Helper function to parse command input
+// Helper function to parse command input: the command name and its arguments, with quotes removed
 export const parseCommand = (input: string): { command: string; args: string[] } => {
-  const parts = input.trim().split(/\s+/);
-  const command = parts[0] || '';
-  const args = parts.slice(1);
+  let words: string[];
+  try {
+    words = shellParser.tokenize(input).flatMap(token =>
+      token.type === 'word' ? [shellParser.wordToString(token.word)] : []
+    );
+  } catch {
+    words = input.trim().split(/\s+/).filter(Boolean);
+  }
+  const command = words[0] || '';
+  const args = words.slice(1);
   return { command, args };
-};
\ No newline at end of file
+};
@@ -0,0 +1,581 @@
+import type { TerminalCommand, TerminalCommandArg, TerminalContext, VNode } from '../types';
+import { parseArgs } from './commandArgs';
+import { finishCommand, joinLines, readTextInputs, resolveTerminalPath, splitLines } from './fileCommands';
+import type { TextInput } from './fileCommands';
+import { jsonQuery } from './jsonQuery';
+import { pathUtils } from './pathUtils';
+
+// Text commands read their files, or standard input without any
+const fileArg: TerminalCommandArg = {
+  name: 'file',
+  description: 'Files to read; standard input when omitted or -',
+  optional: true,
+  variadic: true,
+  complete: 'path',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Accept the traditional `head -5` as `head -n 5`
+ */
+const expandCountShorthand = (args: string[]) => args.map(arg => (/^-\d+$/.test(arg) ? `-n${arg.slice(1)}` : arg));
+
+// Thrown errors are prefixed with the command name by the shell
+const createRegExp = (pattern: string, flags: string): RegExp => {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    throw new Error(`invalid regular expression '${pattern}'`);
+  }
+};
+
+/**
+ * Collect every text file below the given folders, for `grep -r`
+ */
+const readRecursive = (operands: string[], context: TerminalContext): { inputs: TextInput[]; errors: string[] } => {
+  const inputs: TextInput[] = [];
+  const errors: string[] = [];
+  const visit = (node: VNode, shownPath: string) => {
+    if (node.type === 'folder') {
+      context.fs.sortNodes(node.children ?? [], 'name').forEach(child => {
+        visit(child, shownPath === '.' ? child.name : pathUtils.join(shownPath, child.name));
+      });
+    } else if (!node.binary) {
+      inputs.push({ name: shownPath, text: context.fs.readFile(node.path) });
+    }
+  };
+
+  (operands.length > 0 ? operands : ['.']).forEach(operand => {
+    const node = context.fs.navigateToPath(resolveTerminalPath(context, operand));
+    if (node) visit(node, operand);
+    else errors.push(`grep: ${operand}: No such file or folder`);
+  });
+  return { inputs, errors };
+};
+
+const grepCommand: TerminalCommand = {
+  id: 'grep',
+  name: 'grep',
+  description: 'Print lines matching a regular expression',
+  usage: 'grep [-ivnclowFrh] [-e pattern] pattern [file...]',
+  flags: [
+    { names: ['-i', '--ignore-case'], description: 'Ignore case' },
+    { names: ['-v', '--invert-match'], description: 'Print the lines that do not match' },
+    { names: ['-n'], description: 'Prefix lines with their line number' },
+    { names: ['-c', '--count'], description: 'Print the number of matching lines' },
+    { names: ['-l'], description: 'Print only the names of files with matches' },
+    { names: ['-o'], description: 'Print only the matching parts' },
+    { names: ['-w'], description: 'Match whole words only' },
+    { names: ['-F'], description: 'Match the pattern as plain text' },
+    { names: ['-E'], description: 'Extended regular expressions (always on)' },
+    { names: ['-r', '-R', '--recursive'], description: 'Search folders recursively' },
+    { names: ['-h'], description: 'Never prefix lines with file names' },
+    { names: ['-H'], description: 'Always prefix lines with file names' },
+    { names: ['-e'], value: 'pattern', description: 'Use this pattern, for patterns starting with -' },
+  ],
+  args: [
+    { name: 'pattern', description: 'Regular expression to search for' },
+    fileArg,
+  ],
+  execute: async (args, context, io) => {
+    const { flags, values, operands } = parseArgs(args, {
+      flags: 'ivnclowFErRhH',
+      values: 'e',
+      long: { '--ignore-case': 'i', '--invert-match': 'v', '--count': 'c', '--recursive': 'r' },
+    });
+    const pattern = values.e ?? operands.shift();
+    if (pattern === undefined) {
+      return { type: 'error', content: 'Usage: grep [-ivnclowFrh] [-e pattern] pattern [file...]' };
+    }
+
+    let source = flags.has('F') ? escapeRegExp(pattern) : pattern;
+    if (flags.has('w')) source = `\\b(?:${source})\\b`;
+    const regex = createRegExp(source, flags.has('i') ? 'gi' : 'g');
+
+    const recursive = flags.has('r') || flags.has('R');
+    const { inputs, errors } = recursive
+      ? readRecursive(operands, context)
+      : await readTextInputs('grep', operands, context, io);
+    const showNames = !flags.has('h') && (flags.has('H') || recursive || inputs.length + errors.length > 1);
+
+    const lines: string[] = [];
+    let matched = false;
+    inputs.forEach(({ name, text }) => {
+      const label = name === '-' ? '(standard input)' : name;
+      const prefix = showNames ? `${label}:` : '';
+      let count = 0;
+
+      splitLines(text).forEach((line, index) => {
+        const matches = [...line.matchAll(regex)].map(match => match[0]);
+        if ((matches.length > 0) === flags.has('v')) return;
+
+        count++;
+        if (flags.has('c') || flags.has('l')) return;
+        const lineNumber = flags.has('n') ? `${index + 1}:` : '';
+        if (flags.has('o') && !flags.has('v')) {
+          matches.filter(Boolean).forEach(match => lines.push(`${prefix}${lineNumber}${match}`));
+        } else {
+          lines.push(`${prefix}${lineNumber}${line}`);
+        }
+      });
+
+      matched = matched || count > 0;
+      if (flags.has('c')) lines.push(`${prefix}${count}`);
+      else if (flags.has('l') && count > 0) lines.push(label);
+    });
+
+    const output = finishCommand(io, joinLines(lines), errors);
+    return errors.length === 0 && !matched ? { ...output, exitCode: 1 } : output;
+  },
+};
+
+const wcCommand: TerminalCommand = {
+  id: 'wc',
+  name: 'wc',
+  description: 'Count lines, words and characters',
+  usage: 'wc [-lwc] [file...]',
+  flags: [
+    { names: ['-l', '--lines'], description: 'Count lines' },
+    { names: ['-w', '--words'], description: 'Count words' },
+    { names: ['-c', '--bytes'], description: 'Count characters' },
+    { names: ['-m', '--chars'], description: 'Count characters' },
+  ],
+  args: [fileArg],
+  execute: async (args, context, io) => {
+    const { flags, operands } = parseArgs(args, {
+      flags: 'lwcm',
+      long: { '--lines': 'l', '--words': 'w', '--chars': 'm', '--bytes': 'c' },
+    });
+    const { inputs, errors } = await readTextInputs('wc', operands, context, io);
+    const shown = ['l', 'w', 'c'].filter(flag => flags.has(flag) || (flag === 'c' && flags.has('m')));
+    const columns = shown.length > 0 ? shown : ['l', 'w', 'c'];
+
+    const rows = inputs.map(({ name, text }) => ({
+      name: name === '-' ? '' : name,
+      counts: {
+        l: (text.match(/\n/g) ?? []).length,
+        w: text.split(/\s+/).filter(Boolean).length,
+        c: text.length,
+      } as Record<string, number>,
+    }));
+    if (rows.length > 1) {
+      rows.push({
+        name: 'total',
+        counts: Object.fromEntries(columns.map(column => [column, rows.reduce((sum, row) => sum + row.counts[column], 0)])),
+      });
+    }
+
+    const width = Math.max(1, ...rows.flatMap(row => columns.map(column => String(row.counts[column]).length)));
+    const lines = rows.map(row =>
+      [...columns.map(column => String(row.counts[column]).padStart(width)), row.name].filter(Boolean).join(' ')
+    );
+    return finishCommand(io, joinLines(lines), errors);
+  },
+};
+
+/**
+ * head and tail share everything but the slice they take
+ */
+const createLinesCommand = (name: 'head' | 'tail', description: string): TerminalCommand => ({
+  id: name,
+  name,
+  description,
+  usage: `${name} [-n lines] [file...]`,
+  flags: [{
+    names: ['-n', '--lines'],
+    value: 'lines',
+    description: name === 'head' ? 'Number of lines to print, 10 by default' : 'Number of lines to print, 10 by default; +N starts at line N',
+  }],
+  args: [fileArg],
+  execute: async (args, context, io) => {
+    const { values, operands } = parseArgs(expandCountShorthand(args), {
+      values: 'n',
+      long: { '--lines': 'n' },
+    });
+    const countText = values.n ?? '10';
+    // `tail -n +N` starts at line N instead of counting from the end
+    const fromStart = name === 'tail' && countText.startsWith('+');
+    const count = Number(countText);
+    if (!Number.isInteger(count)) {
+      return { type: 'error', content: `${name}: invalid number of lines: '${countText}'` };
+    }
+
+    const { inputs, errors } = await readTextInputs(name, operands, context, io);
+    const blocks = inputs.map(({ name: inputName, text }) => {
+      const lines = splitLines(text);
+      const selected = name === 'head'
+        ? lines.slice(0, count)
+        : fromStart ? lines.slice(Math.max(count - 1, 0)) : lines.slice(Math.max(lines.length - Math.abs(count), 0));
+      const body = joinLines(selected);
+      return inputs.length > 1 ? `==> ${inputName} <==\n${body}` : body;
+    });
+    return finishCommand(io, blocks.join('\n'), errors);
+  },
+});
+
+const sortCommand: TerminalCommand = {
+  id: 'sort',
+  name: 'sort',
+  description: 'Sort lines of text',
+  usage: 'sort [-rnuf] [-k field] [-t separator] [file...]',
+  flags: [
+    { names: ['-r', '--reverse'], description: 'Reverse the order' },
+    { names: ['-n', '--numeric-sort'], description: 'Compare numbers by value' },
+    { names: ['-u', '--unique'], description: 'Drop repeated lines' },
+    { names: ['-f', '--ignore-case'], description: 'Ignore case' },
+    { names: ['-b'], description: 'Ignore leading and trailing blanks' },
+    { names: ['-k'], value: 'field', description: 'Sort from this field on, counting from 1' },
+    { names: ['-t'], value: 'separator', description: 'Fields are separated by this text instead of blanks' },
+  ],
+  args: [fileArg],
+  execute: async (args, context, io) => {
+    const { flags, values, operands } = parseArgs(args, {
+      flags: 'rnufb',
+      values: 'kt',
+      long: { '--reverse': 'r', '--numeric-sort': 'n', '--unique': 'u', '--ignore-case': 'f' },
+    });
+    const field = values.k !== undefined ? parseInt(values.k, 10) : 0;
+    if (Number.isNaN(field) || field < 0) {
+      return { type: 'error', content: `sort: invalid field specification '${values.k}'` };
+    }
+
+    const { inputs, errors } = await readTextInputs('sort', operands, context, io);
+    const keyOf = (line: string) => {
+      let key = line;
+      if (field > 0) {
+        const fields = values.t !== undefined ? line.split(values.t) : line.trim().split(/\s+/);
+        key = fields.slice(field - 1).join(values.t ?? ' ');
+      }
+      if (flags.has('b')) key = key.trim();
+      return flags.has('f') ? key.toLowerCase() : key;
+    };
+    const compare = (a: string, b: string) => {
+      if (flags.has('n')) {
+        const difference = (parseFloat(keyOf(a)) || 0) - (parseFloat(keyOf(b)) || 0);
+        if (difference !== 0) return difference;
+      }
+      const left = keyOf(a);
+      const right = keyOf(b);
+      return left < right ? -1 : left > right ? 1 : 0;
+    };
+
+    let lines = inputs.flatMap(input => splitLines(input.text)).sort(compare);
+    if (flags.has('r')) lines.reverse();
+    if (flags.has('u')) {
+      lines = lines.filter((line, index) => index === 0 || compare(line, lines[index - 1]) !== 0);
+    }
+    return finishCommand(io, joinLines(lines), errors);
+  },
+};
+
+const uniqCommand: TerminalCommand = {
+  id: 'uniq',
+  name: 'uniq',
+  description: 'Collapse adjacent repeated lines',
+  usage: 'uniq [-cdui] [file]',
+  flags: [
+    { names: ['-c', '--count'], description: 'Prefix lines with their number of repeats' },
+    { names: ['-d', '--repeated'], description: 'Print only repeated lines' },
+    { names: ['-u', '--unique'], description: 'Print only lines that are not repeated' },
+    { names: ['-i', '--ignore-case'], description: 'Ignore case when comparing' },
+  ],
+  args: [{ ...fileArg, variadic: false }],
+  execute: async (args, context, io) => {
+    const { flags, operands } = parseArgs(args, {
+      flags: 'cdui',
+      long: { '--count': 'c', '--repeated': 'd', '--unique': 'u', '--ignore-case': 'i' },
+    });
+    const { inputs, errors } = await readTextInputs('uniq', operands.slice(0, 1), context, io);
+
+    const groups: Array<{ line: string; count: number }> = [];
+    splitLines(inputs[0]?.text ?? '').forEach(line => {
+      const last = groups[groups.length - 1];
+      const same = last && (flags.has('i') ? last.line.toLowerCase() === line.toLowerCase() : last.line === line);
+      if (same) last.count++;
+      else groups.push({ line, count: 1 });
+    });
+
+    const lines = groups
+      .filter(group => (!flags.has('d') || group.count > 1) && (!flags.has('u') || group.count === 1))
+      .map(group => (flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line));
+    return finishCommand(io, joinLines(lines), errors);
+  },
+};
+
+type SedAddress = { type: 'line'; line: number } | { type: 'last' } | { type: 'regex'; regex: RegExp };
+
+interface SedCommand {
+  from?: SedAddress;
+  to?: SedAddress;
+  name: 's' | 'd' | 'p' | 'q';
+  regex?: RegExp;
+  replacement?: string;
+  print?: boolean; // The `p` flag of `s`
+  inRange?: boolean;
+}
+
+/**
+ * Parse a sed script of `s`, `d`, `p` and `q` commands with optional line,
+ * `$` or `/regex/` addresses, separated by `;` or newlines
+ */
+const parseSedScript = (script: string): SedCommand[] => {
+  const commands: SedCommand[] = [];
+  let i = 0;
+
+  const readDelimited = (delimiter: string): string => {
+    let text = '';
+    while (i < script.length && script[i] !== delimiter) {
+      if (script[i] === '\\' && script[i + 1] === delimiter) {
+        text += delimiter;
+        i += 2;
+      } else if (script[i] === '\\' && script[i + 1] === 'n') {
+        text += '\n';
+        i += 2;
+      } else {
+        text += script[i++];
+      }
+    }
+    if (i >= script.length) throw new Error(`unterminated command '${script}'`);
+    i++;
+    return text;
+  };
+
+  const readAddress = (): SedAddress | undefined => {
+    const number = /^\d+/.exec(script.slice(i));
+    if (number) {
+      i += number[0].length;
+      return { type: 'line', line: Number(number[0]) };
+    }
+    if (script[i] === '$') {
+      i++;
+      return { type: 'last' };
+    }
+    if (script[i] === '/') {
+      i++;
+      return { type: 'regex', regex: createRegExp(readDelimited('/'), '') };
+    }
+    return undefined;
+  };
+
+  while (i < script.length) {
+    if (/[\s;]/.test(script[i])) {
+      i++;
+      continue;
+    }
+
+    const command: Partial<SedCommand> = {};
+    command.from = readAddress();
+    if (command.from && script[i] === ',') {
+      i++;
+      command.to = readAddress();
+      if (!command.to) throw new Error('unexpected `,\'');
+    }
+
+    const name = script[i++];
+    if (name === 's') {
+      const delimiter = script[i++];
+      if (!delimiter || /[\s\\]/.test(delimiter)) throw new Error(`unterminated \`s' command`);
+      const pattern = readDelimited(delimiter);
+      command.replacement = readDelimited(delimiter);
+      const flags = /^[gpiI]*/.exec(script.slice(i))![0];
+      i += flags.length;
+      command.regex = createRegExp(pattern, `${flags.includes('g') ? 'g' : ''}${/[iI]/.test(flags) ? 'i' : ''}`);
+      command.print = flags.includes('p');
+    } else if (name !== 'd' && name !== 'p' && name !== 'q') {
+      throw new Error(name ? `unknown command: \`${name}'` : 'missing command');
+    }
+    commands.push({ ...command, name } as SedCommand);
+  }
+  return commands;
+};
+
+/**
+ * Expand `&` and `\1`..`\9` in a sed replacement
+ */
+const expandReplacement = (replacement: string, match: string, groups: string[]) =>
+  replacement.replace(/\\([0-9&\\])|&/g, (_token, escaped: string | undefined) => {
+    if (escaped === undefined) return match;
+    if (escaped === '&' || escaped === '\\') return escaped;
+    return escaped === '0' ? match : groups[Number(escaped) - 1] ?? '';
+  });
+
+const runSed = (commands: SedCommand[], text: string, quiet: boolean): string => {
+  const lines = splitLines(text);
+  const output: string[] = [];
+  commands.forEach(command => {
+    command.inRange = false;
+  });
+
+  const matchesAddress = (address: SedAddress, line: string, number: number) => {
+    if (address.type === 'line') return number === address.line;
+    if (address.type === 'last') return number === lines.length;
+    return address.regex.test(line);
+  };
+
+  const applies = (command: SedCommand, line: string, number: number) => {
+    if (!command.from) return true;
+    if (!command.to) return matchesAddress(command.from, line, number);
+    if (command.inRange) {
+      const ends = command.to.type === 'line' ? number >= command.to.line : matchesAddress(command.to, line, number);
+      if (ends) command.inRange = false;
+      return true;
+    }
+    if (matchesAddress(command.from, line, number)) {
+      command.inRange = !(command.to.type === 'line' && command.to.line <= number);
+      return true;
+    }
+    return false;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    let line = lines[index];
+    let deleted = false;
+    let quit = false;
+
+    for (const command of commands) {
+      if (!applies(command, line, index + 1)) continue;
+      if (command.name === 'd') {
+        deleted = true;
+        break;
+      }
+      if (command.name === 'p') output.push(line);
+      if (command.name === 'q') {
+        quit = true;
+        break;
+      }
+      if (command.name === 's') {
+        let replaced = false;
+        line = line.replace(command.regex!, (match, ...rest) => {
+          replaced = true;
+          const groups = rest.slice(0, -2).map(group => (group === undefined ? '' : String(group)));
+          return expandReplacement(command.replacement!, match, groups);
+        });
+        if (replaced && command.print) output.push(line);
+      }
+    }
+
+    if (!deleted && !quiet) output.push(line);
+    if (quit) break;
+  }
+  return joinLines(output);
+};
+
+const sedCommand: TerminalCommand = {
+  id: 'sed',
+  name: 'sed',
+  description: 'Edit text with s/regex/replacement/, d, p and q commands',
+  usage: 'sed [-n] [-i] [-e script] [script] [file...]',
+  flags: [
+    { names: ['-n', '--quiet'], description: 'Print only lines printed by p' },
+    { names: ['-i', '--in-place'], description: 'Edit the files instead of printing them' },
+    { names: ['-E'], description: 'Extended regular expressions (always on)' },
+    { names: ['-e', '--expression'], value: 'script', description: 'Add a script; can be repeated' },
+  ],
+  args: [
+    { name: 'script', description: 'Commands such as s/old/new/g, 3d, /regex/p or q', optional: true },
+    fileArg,
+  ],
+  execute: async (args, context, io) => {
+    const scripts: string[] = [];
+    const rest: string[] = [];
+    // -e can be repeated, so it is collected before the other options are parsed
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '-e' || args[i] === '--expression') {
+        if (args[i + 1] === undefined) return { type: 'error', content: "sed: option requires an argument -- 'e'" };
+        scripts.push(args[++i]);
+      } else {
+        rest.push(args[i]);
+      }
+    }
+
+    const { flags, operands } = parseArgs(rest, { flags: 'niE', long: { '--quiet': 'n', '--in-place': 'i' } });
+    if (scripts.length === 0) {
+      const script = operands.shift();
+      if (script === undefined) return { type: 'error', content: 'Usage: sed [-n] [-i] [-e script] [script] [file...]' };
+      scripts.push(script);
+    }
+    const commands = parseSedScript(scripts.join('\n'));
+
+    if (flags.has('i')) {
+      if (operands.length === 0) return { type: 'error', content: 'sed: no input files' };
+      const { inputs, errors } = await readTextInputs('sed', operands, context, io);
+      inputs.forEach(({ name, text }) => {
+        const edited = runSed(commands, text, flags.has('n'));
+        context.fs.writeFile(resolveTerminalPath(context, name), edited);
+      });
+      return finishCommand(io, '', errors);
+    }
+
+    const { inputs, errors } = await readTextInputs('sed', operands, context, io);
+    const text = inputs.map(input => input.text.replace(/([^\n])$/, '$1\n')).join('');
+    return finishCommand(io, runSed(commands, text, flags.has('n')), errors);
+  },
+};
+
+/**
+ * Parse one JSON document, or several separated by whitespace as jq reads them
+ */
+const parseJsonStream = (text: string): unknown[] => {
+  if (!text.trim()) return [];
+  try {
+    return [JSON.parse(text)];
+  } catch {
+    return splitLines(text).filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+};
+
+const jqCommand: TerminalCommand = {
+  id: 'jq',
+  name: 'jq',
+  description: 'Filter and transform JSON',
+  usage: 'jq [-rcsn] filter [file...]',
+  flags: [
+    { names: ['-r', '--raw-output'], description: 'Print strings without quotes' },
+    { names: ['-c', '--compact-output'], description: 'Print each result on one line' },
+    { names: ['-s', '--slurp'], description: 'Read all inputs into one array' },
+    { names: ['-n', '--null-input'], description: 'Run the filter once on null instead of reading input' },
+  ],
+  args: [
+    { name: 'filter', description: 'Filter such as .name, .[] or map(.id)' },
+    fileArg,
+  ],
+  execute: async (args, context, io) => {
+    const { flags, operands } = parseArgs(args, {
+      flags: 'rcsn',
+      long: { '--raw-output': 'r', '--compact-output': 'c', '--slurp': 's', '--null-input': 'n' },
+    });
+    const filter = operands.shift() ?? '.';
+    const run = jsonQuery.compile(filter);
+
+    let documents: unknown[];
+    const { inputs, errors } = flags.has('n')
+      ? { inputs: [], errors: [] }
+      : await readTextInputs('jq', operands, context, io);
+    try {
+      documents = inputs.flatMap(input => parseJsonStream(input.text));
+    } catch (error) {
+      return { type: 'error', content: `jq: invalid JSON input: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (flags.has('s')) documents = [documents];
+    if (flags.has('n')) documents = [null];
+
+    const lines = documents.flatMap(document => run(document)).map(value => {
+      if (flags.has('r') && typeof value === 'string') return value;
+      return JSON.stringify(value, null, flags.has('c') ? undefined : 2) ?? 'null';
+    });
+    return finishCommand(io, joinLines(lines), errors);
+  },
+};
+
+// Filters for text from files and pipes
+export const textCommands: TerminalCommand[] = [
+  grepCommand,
+  wcCommand,
+  createLinesCommand('head', 'Print the first lines of text'),
+  createLinesCommand('tail', 'Print the last lines of text'),
+  sortCommand,
+  uniqCommand,
+  sedCommand,
+  jqCommand,
+];
@@ -0,0 +1,290 @@
+import type { SnapState, TerminalCommand, TerminalContext, TerminalOutput, TilingMode, WindowState } from '../types';
+import { parseArgs } from './commandArgs';
+import { resolveTerminalPath } from './fileCommands';
+import { ansi } from './ansi';
+import { WINDOW_CONSTRAINTS } from './index';
+
+const SNAP_ZONES: Record<string, SnapState> = {
+  'left': 'left',
+  'right': 'right',
+  'top-left': 'top-left',
+  'top-right': 'top-right',
+  'bottom-left': 'bottom-left',
+  'bottom-right': 'bottom-right',
+  'left-third': 'left-third',
+  'center-third': 'center-third',
+  'right-third': 'right-third',
+  'left-two-thirds': 'left-two-thirds',
+  'right-two-thirds': 'right-two-thirds',
+  'max': 'maximized',
+  'maximized': 'maximized',
+};
+
+const SNAP_ZONE_NAMES = Object.keys(SNAP_ZONES).filter(name => name !== 'maximized');
+
+const TILING_MODES: Record<string, TilingMode> = {
+  off: 'off',
+  grid: 'grid',
+  master: 'master-stack',
+  'master-stack': 'master-stack',
+};
+
+// Version of the files `wm layout save` writes
+const LAYOUT_VERSION = 1;
+
+interface LayoutWindow {
+  appId: WindowState['appId'];
+  title: string;
+  bounds: WindowState['bounds'];
+  minimized: boolean;
+  maximized: boolean;
+  snapState: WindowState['snapState'];
+  launchData?: WindowState['launchData'];
+}
+
+interface WindowLayout {
+  version: number;
+  windows: LayoutWindow[]; // Back to front
+}
+
+const error = (content: string): TerminalOutput => ({ type: 'error', content, timestamp: new Date() });
+
+const info = (content: string): TerminalOutput => ({ type: 'info', content, timestamp: new Date() });
+
+/**
+ * One word for how a window is shown, as `ps` and `wm list` print it
+ */
+export const getWindowState = (window: WindowState): string => {
+  if (window.minimized) return 'minimized';
+  if (window.maximized) return 'maximized';
+  if (window.snapState) return `snapped-${window.snapState}`;
+  return window.focused ? 'focused' : 'normal';
+};
+
+const windowArg = {
+  name: 'window',
+  description: 'Window ID as ps shows it, a unique prefix of one, or . for this Terminal',
+  complete: (context: TerminalContext) => context.windows.list().map(window => window.id),
+};
+
+const psCommand: TerminalCommand = {
+  id: 'ps',
+  name: 'ps',
+  description: 'List open windows and their IDs',
+  execute: (_args, context) => {
+    const windows = context.windows.list();
+    if (windows.length === 0) return info('No windows open.');
+
+    return info(ansi.table([
+      ['ID', 'APP', 'STATE', 'TITLE'],
+      ...windows.map(window => [
+        window.id === context.windows.current ? ansi.bold(window.id) : window.id,
+        window.appId,
+        getWindowState(window),
+        window.title,
+      ]),
+    ]));
+  },
+};
+
+const parseNumbers = (values: string[], names: string[]): number[] | string => {
+  if (values.length < names.length) return `missing ${names.slice(values.length).join(' and ')}`;
+  const invalid = values.find(value => !/^-?\d+$/.test(value));
+  return invalid === undefined ? values.map(Number) : `invalid number '${invalid}'`;
+};
+
+const toLayoutWindow = (window: WindowState): LayoutWindow => ({
+  appId: window.appId,
+  title: window.title,
+  // Maximized and snapped windows keep the bounds they return to
+  bounds: window.maximized || window.snapState ? window.previousBounds ?? window.bounds : window.bounds,
+  minimized: window.minimized,
+  maximized: window.maximized,
+  snapState: window.snapState ?? null,
+  ...(window.launchData && { launchData: window.launchData }),
+});
+
+const isLayout = (value: unknown): value is WindowLayout => {
+  const layout = value as WindowLayout | null;
+  return typeof layout === 'object' && layout !== null && Array.isArray(layout.windows) && layout.windows.every(window =>
+    typeof window?.appId === 'string' && typeof window.bounds?.x === 'number' && typeof window.bounds?.w === 'number'
+  );
+};
+
+/**
+ * Arrange windows as a layout describes them: open windows of the same app are
+ * reused in stacking order and missing ones are opened, then each is placed and
+ * brought forward in turn so the stacking order matches too
+ */
+const applyLayout = (context: TerminalContext, layout: WindowLayout): number => {
+  const available = context.windows.list();
+  const placed = layout.windows.map(saved => {
+    const index = available.findIndex(window => window.appId === saved.appId);
+    const id = index === -1
+      ? context.windows.open(saved.appId, { title: saved.title, bounds: saved.bounds, launchData: saved.launchData })
+      : available.splice(index, 1)[0].id;
+    return { id, saved };
+  });
+
+  placed.forEach(({ id, saved }) => {
+    context.windows.restore(id);
+    context.windows.setBounds(id, saved.bounds);
+    if (saved.maximized) context.windows.snap(id, 'maximized');
+    else if (saved.snapState) context.windows.snap(id, saved.snapState);
+    context.windows.focus(id);
+  });
+  placed
+    .filter(({ saved }) => saved.minimized)
+    .forEach(({ id }) => context.windows.minimize(id));
+  return placed.length;
+};
+
+const layoutCommand = (args: string[], context: TerminalContext): TerminalOutput => {
+  const [action, file] = args;
+  if (action !== 'save' && action !== 'load') {
+    return error(`wm layout: unknown action '${action ?? ''}'; use save or load`);
+  }
+  if (!file) return error(`wm layout ${action}: missing file`);
+  const path = resolveTerminalPath(context, file);
+
+  if (action === 'save') {
+    const layout: WindowLayout = { version: LAYOUT_VERSION, windows: context.windows.list().map(toLayoutWindow) };
+    try {
+      context.fs.writeFile(path, `${JSON.stringify(layout, null, 2)}\n`);
+    } catch (err) {
+      return error(`wm layout save: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return info(`Saved ${layout.windows.length} window${layout.windows.length === 1 ? '' : 's'} to ${path}`);
+  }
+
+  let layout: unknown;
+  try {
+    layout = JSON.parse(context.fs.readFile(path));
+  } catch (err) {
+    return error(`wm layout load: ${err instanceof SyntaxError ? `${path}: not valid JSON` : err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!isLayout(layout)) return error(`wm layout load: ${path}: not a window layout`);
+
+  const count = applyLayout(context, layout);
+  return info(`Restored ${count} window${count === 1 ? '' : 's'} from ${path}`);
+};
+
+const wmCommand: TerminalCommand = {
+  id: 'wm',
+  name: 'wm',
+  description: 'Move, resize, snap and arrange windows',
+  subcommands: [
+    { name: 'list', description: 'List windows with their position and size', flags: [{ names: ['--json'], description: 'Print the windows as JSON' }] },
+    { name: 'focus', description: 'Bring a window to the front', args: [windowArg] },
+    { name: 'move', description: 'Move a window to a position on the desktop', args: [windowArg, { name: 'x' }, { name: 'y' }] },
+    { name: 'resize', description: 'Change the size of a window', args: [windowArg, { name: 'width' }, { name: 'height' }] },
+    { name: 'snap', description: 'Snap a window to a half, quarter or third of the desktop, or maximize it', args: [windowArg, { name: 'zone', complete: SNAP_ZONE_NAMES }] },
+    { name: 'minimize', description: 'Minimize a window', args: [windowArg] },
+    { name: 'maximize', description: 'Maximize a window', args: [windowArg] },
+    { name: 'restore', description: 'Restore a minimized, maximized or snapped window', args: [windowArg] },
+    { name: 'tile', description: 'Arrange windows on this workspace automatically, or stop', args: [{ name: 'grid|master|off', complete: ['grid', 'master', 'off'] }] },
+    { name: 'layout', description: 'Save the window layout to a file, or arrange windows as a saved one describes', args: [{ name: 'save|load', complete: ['save', 'load'] }, { name: 'file', complete: 'path' }] },
+  ],
+  manual: [
+    'Scripts use wm to set up a scene of windows. Windows are named by the IDs ps',
+    'and wm list print, by a unique prefix of one, or by . for this Terminal.',
+    '',
+    'Positions and sizes are in pixels; windows are kept on the desktop.',
+    'wm tile grid or wm tile master keeps the windows on the workspace tiled as',
+    'they open and close, until wm tile off puts them back where they were.',
+    'wm layout save writes open windows to a JSON file, and wm layout load',
+    'reuses open windows of the same apps, opens missing ones and places them all.',
+  ].join('\n'),
+  execute: (args, context) => {
+    const [subcommand = 'list', ...rest] = args;
+
+    if (subcommand === 'list') {
+      const { flags } = parseArgs(rest, { flags: 'j', long: { '--json': 'j' } });
+      const windows = context.windows.list();
+      if (flags.has('j')) {
+        return info(JSON.stringify(windows.map(window => ({
+          id: window.id,
+          appId: window.appId,
+          title: window.title,
+          bounds: window.bounds,
+          state: getWindowState(window),
+          focused: window.focused,
+          zIndex: window.zIndex,
+        })), null, 2));
+      }
+      if (windows.length === 0) return info('No windows open.');
+      return info(ansi.table([
+        ['ID', 'APP', 'X', 'Y', 'WIDTH', 'HEIGHT', 'STATE', 'TITLE'],
+        ...windows.map(window => [
+          window.id,
+          window.appId,
+          ...[window.bounds.x, window.bounds.y, window.bounds.w, window.bounds.h].map(String),
+          getWindowState(window),
+          window.title,
+        ]),
+      ], { align: ['left', 'left', 'right', 'right', 'right', 'right'] }));
+    }
+
+    if (subcommand === 'layout') {
+      return layoutCommand(rest, context);
+    }
+
+    if (subcommand === 'tile') {
+      const mode = TILING_MODES[rest[0] ?? ''];
+      if (!mode) return error(`wm tile: ${rest[0] ? `invalid mode '${rest[0]}'` : 'missing mode'}; use grid, master or off`);
+      context.windows.tile(mode);
+      return info('');
+    }
+
+    if (!wmCommand.subcommands!.some(sub => sub.name === subcommand)) {
+      return error(`wm: unknown subcommand '${subcommand}'. Use 'wm --help' for usage.`);
+    }
+    const [spec, ...values] = rest;
+    if (!spec) return error(`wm ${subcommand}: missing window`);
+    const window = context.windows.find(spec);
+    if (!window) return error(`wm ${subcommand}: ${spec}: no such window`);
+
+    switch (subcommand) {
+      case 'focus':
+        context.windows.focus(window.id);
+        break;
+      case 'minimize':
+        context.windows.minimize(window.id);
+        break;
+      case 'maximize':
+        context.windows.maximize(window.id);
+        break;
+      case 'restore':
+        context.windows.restore(window.id);
+        break;
+      case 'move': {
+        const position = parseNumbers(values, ['x', 'y']);
+        if (typeof position === 'string') return error(`wm move: ${position}`);
+        context.windows.setBounds(window.id, { x: position[0], y: position[1] });
+        break;
+      }
+      case 'resize': {
+        const size = parseNumbers(values, ['width', 'height']);
+        if (typeof size === 'string') return error(`wm resize: ${size}`);
+        context.windows.setBounds(window.id, {
+          w: Math.max(WINDOW_CONSTRAINTS.MIN_WIDTH, size[0]),
+          h: Math.max(WINDOW_CONSTRAINTS.MIN_HEIGHT, size[1]),
+        });
+        break;
+      }
+      case 'snap': {
+        const zone = SNAP_ZONES[values[0] ?? ''];
+        if (!zone) return error(`wm snap: ${values[0] ? `invalid zone '${values[0]}'` : 'missing zone'}; use one of ${SNAP_ZONE_NAMES.join(', ')}`);
+        context.windows.snap(window.id, zone);
+        break;
+      }
+    }
+    return info('');
+  },
+};
+
+// Commands for scripting the window manager
+export const windowCommands: TerminalCommand[] = [
+  psCommand,
+  wmCommand,
+];
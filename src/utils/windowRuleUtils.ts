@@ -0,0 +1,50 @@
+import type { AppId, WindowRule } from '../types';
+
+/**
+ * What the rules matching a window do to it
+ */
+export type WindowRuleEffects = Omit<WindowRule, 'id' | 'name' | 'enabled' | 'match'>;
+
+// Effects a later rule replaces outright; bounds are merged by side
+const EFFECT_KEYS = ['edge', 'alwaysOnTop', 'opacity', 'startMinimized', 'singleInstance', 'rememberPosition'] as const;
+
+// Rules match windows by what they open with; a rule without conditions matches every window
+export const windowRuleUtils = {
+  /**
+   * Whether an enabled rule applies to a window
+   */
+  matches: (rule: WindowRule, window: { appId: AppId; title: string }): boolean => {
+    if (!rule.enabled) return false;
+    if (rule.match.appId && rule.match.appId !== window.appId) return false;
+
+    const title = rule.match.title?.trim().toLowerCase();
+    return !title || window.title.toLowerCase().includes(title);
+  },
+
+  /**
+   * The combined effects of the rules matching a window, later rules overriding earlier ones
+   */
+  resolve: (rules: WindowRule[], window: { appId: AppId; title: string }): WindowRuleEffects => {
+    return rules
+      .filter(rule => windowRuleUtils.matches(rule, window))
+      .reduce<WindowRuleEffects>((effects, rule) => ({
+        ...effects,
+        ...Object.fromEntries(EFFECT_KEYS.filter(key => rule[key] !== undefined).map(key => [key, rule[key]])),
+        ...(rule.bounds && {
+          bounds: {
+            ...effects.bounds,
+            ...Object.fromEntries(Object.entries(rule.bounds).filter(([, value]) => value !== undefined)),
+          },
+        }),
+      }), {});
+  },
+
+  /**
+   * A new rule that matches an app and does nothing yet
+   */
+  create: (appId?: AppId): WindowRule => ({
+    id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    enabled: true,
+    match: appId ? { appId } : {},
+  }),
+};